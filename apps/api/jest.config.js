@@ -1,32 +1,36 @@
-module.exports = {
+// Projects do not inherit the transform and module mapping, so both share them.
+// TypeScript sources come first, the generated Prisma client ships ES module .js files next to them.
+const shared = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  roots: ['<rootDir>/src', '<rootDir>/test'],
-  testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
+  moduleFileExtensions: ['ts', 'js', 'json'],
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
-  collectCoverageFrom: ['src/**/*.ts', '!src/**/*.d.ts', '!src/main.ts'],
-  coverageDirectory: 'coverage',
   moduleNameMapper: {
-    '@solana-eda/(.*)': '<rootDir>/../packages/$1/src',
+    '^@solana-eda/(.*)$': '<rootDir>/../../packages/$1/src',
+    '^(\\.{1,2}/.*)\\.js$': '$1',
   },
+};
+
+module.exports = {
+  collectCoverageFrom: ['src/**/*.ts', '!src/**/*.d.ts', '!src/main.ts'],
+  coverageDirectory: 'coverage',
   // Integration test configuration
   testTimeout: 30000, // 30 seconds for integration tests
   maxWorkers: 1, // Run tests sequentially for integration tests
   // Separate configuration for integration tests
   projects: [
     {
+      ...shared,
       displayName: 'unit',
       testMatch: ['<rootDir>/src/**/*.spec.ts'],
       testPathIgnorePatterns: ['/integration/'],
     },
     {
+      ...shared,
       displayName: 'integration',
       testMatch: ['<rootDir>/test/integration/**/*.integration.spec.ts'],
-      testTimeout: 60000, // 60 seconds for integration tests
-      maxWorkers: 1,
-      setupFilesAfterEnv: ['<rootDir>/test/integration/test-setup.ts'],
     },
   ],
 };
@@ -5,9 +5,11 @@ import { WorkersModule } from './modules/workers/workers.module';
 import { TradingModule } from './modules/trading/trading.module';
 import { PositionsModule } from './modules/positions/positions.module';
 import { QueuesModule } from './modules/queues/queues.module';
+import { TokensModule } from './modules/tokens/tokens.module';
 import { RedisModule } from './redis/redis.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { BullMQModule } from './bullmq';
+import { BullMQConsumersModule } from './bullmq/consumers/consumers.module';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 
 @Module({
@@ -19,6 +21,7 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
     PrismaModule,
     RedisModule,
     BullMQModule,
+    BullMQConsumersModule,
     EventEmitterModule.forRoot({
       wildcard: true,
       delimiter: ':',
@@ -28,6 +31,7 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
     TradingModule,
     PositionsModule,
     QueuesModule,
+    TokensModule,
   ],
   providers: [],
 })
@@ -1,10 +1,17 @@
 import { Module, Global, Provider, InjectionToken, Inject, Injectable, OnModuleInit, OnModuleDestroy, DynamicModule } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, MetricsTime } from 'bullmq';
 import Redis from 'ioredis';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { BULLMQ_QUEUES, type BullMQQueueName } from '@solana-eda/queue-bullmq';
-import { FeatureFlags } from '@solana-eda/events';
+import { FeatureFlags, QUEUES, type QueueName } from '@solana-eda/events';
+import { DeadLetterQueue } from '@solana-eda/error-handling';
+
+/**
+ * Queues consumed by the API, every routed queue except the ones owned by workers
+ */
+export const API_QUEUES: QueueName[] = Object.values(QUEUES).filter(
+  (queue) => queue !== QUEUES.TRADING_BURN_EVENTS && queue !== QUEUES.TOKEN_VALIDATOR_EVENTS,
+);
 
 /**
  * BullMQ connection options interface
@@ -30,6 +37,11 @@ export const BULLMQ_CONNECTION = 'BULLMQ_CONNECTION';
  */
 export const BULLMQ_WORKER_MANAGER = 'BULLMQ_WORKER_MANAGER';
 
+/**
+ * Dead Letter Queue Token
+ */
+export const DEAD_LETTER_QUEUE = 'DEAD_LETTER_QUEUE';
+
 /**
  * BullMQ Connection Provider
  */
@@ -107,7 +119,7 @@ export class BullMQWorkerManager implements OnModuleInit, OnModuleDestroy {
   /**
    * Get or create a queue
    */
-  getQueue(queueName: BullMQQueueName): Queue {
+  getQueue(queueName: QueueName): Queue {
     if (this.queues.has(queueName)) {
       return this.queues.get(queueName)!;
     }
@@ -132,7 +144,7 @@ export class BullMQWorkerManager implements OnModuleInit, OnModuleDestroy {
    * Register a worker for a specific queue
    */
   registerWorker(
-    queueName: BullMQQueueName,
+    queueName: QueueName,
     processor: (job: Job) => Promise<void>,
     options?: { concurrency?: number },
   ): Worker {
@@ -157,6 +169,8 @@ export class BullMQWorkerManager implements OnModuleInit, OnModuleDestroy {
       {
         connection,
         concurrency,
+        // Processed and failed totals for the queue health checks
+        metrics: { maxDataPoints: MetricsTime.ONE_WEEK },
       },
     );
 
@@ -249,10 +263,16 @@ export class BullMQWorkerManager implements OnModuleInit, OnModuleDestroy {
       provide: BULLMQ_WORKER_MANAGER,
       useExisting: BullMQWorkerManager,
     },
+    {
+      provide: DEAD_LETTER_QUEUE,
+      useFactory: (redis: Redis) => new DeadLetterQueue(redis),
+      inject: ['REDIS'],
+    },
   ],
   exports: [
     BULLMQ_CONNECTION,
     BULLMQ_WORKER_MANAGER,
+    DEAD_LETTER_QUEUE,
     BullMQConnectionProvider,
     BullMQWorkerManager,
   ],
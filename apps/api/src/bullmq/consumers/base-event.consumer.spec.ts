@@ -0,0 +1,199 @@
+import { UnrecoverableError, type Job } from 'bullmq';
+import type { EventEmitter2 } from '@nestjs/event-emitter';
+import type { AnyEvent } from '@solana-eda/events';
+import {
+  NotFoundError,
+  ServiceUnavailableError,
+  type DeadLetterQueue,
+} from '@solana-eda/error-handling';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { BaseEventConsumer } from './base-event.consumer';
+
+const burnEvent = {
+  type: 'BURN_DETECTED',
+  timestamp: '2026-10-19T12:00:00.000Z',
+  id: 'burn-1',
+  eventId: 'event-1',
+  schemaVersion: 1,
+  data: {
+    token: 'token',
+    amount: '1000',
+    percentage: 10,
+    txSignature: 'signature-1',
+    burner: 'burner',
+    preSupply: '10000',
+    postSupply: '9000',
+  },
+};
+
+class TestConsumer extends BaseEventConsumer {
+  readonly processed: AnyEvent[] = [];
+  failure?: Error;
+
+  getEventType(): string {
+    return 'BURN_DETECTED';
+  }
+
+  async processEvent(event: AnyEvent): Promise<void> {
+    if (this.failure) throw this.failure;
+    this.processed.push(event);
+  }
+}
+
+/**
+ * Prisma stand-in keeping one stored event per eventId, like the unique key does
+ */
+function createPrisma() {
+  const storedEvents = new Map<string, { eventId: string; type: string; source?: string }>();
+  const prisma = {
+    storedEvent: {
+      createMany: async ({
+        data,
+      }: {
+        data: { eventId: string; type: string; source?: string };
+      }) => {
+        if (storedEvents.has(data.eventId)) return { count: 0 };
+        storedEvents.set(data.eventId, data);
+        return { count: 1 };
+      },
+    },
+  };
+  return { prisma: prisma as unknown as PrismaService, storedEvents };
+}
+
+/**
+ * Dead letter queue stand-in recording what was added
+ */
+function createDeadLetterQueue() {
+  const added: { event: unknown; error: Error; metadata?: Record<string, unknown> }[] = [];
+  const deadLetterQueue = {
+    fail: false,
+    add: async (event: unknown, error: Error, metadata?: Record<string, unknown>) => {
+      if (deadLetterQueue.fail) throw new Error('Redis unavailable');
+      added.push({ event, error, metadata });
+      return `dlq-${added.length}`;
+    },
+  };
+  return { deadLetterQueue, added };
+}
+
+function createJob(event: object, id = 'job-1', attemptsMade = 0): Job {
+  return {
+    id,
+    name: 'BURN_DETECTED',
+    queueName: 'burn-events',
+    data: { event, metadata: { source: 'burn-detector' } },
+    attemptsMade,
+    opts: { attempts: 3 },
+  } as unknown as Job;
+}
+
+describe('BaseEventConsumer', () => {
+  let storedEvents: ReturnType<typeof createPrisma>['storedEvents'];
+  let dlq: ReturnType<typeof createDeadLetterQueue>;
+  let consumer: TestConsumer;
+
+  beforeEach(() => {
+    const fake = createPrisma();
+    storedEvents = fake.storedEvents;
+    dlq = createDeadLetterQueue();
+    consumer = new TestConsumer(
+      { emit: () => true } as unknown as EventEmitter2,
+      fake.prisma,
+      dlq.deadLetterQueue as unknown as DeadLetterQueue,
+      TestConsumer.name,
+    );
+  });
+
+  describe('event store', () => {
+    it('should store a redelivered event once under its eventId', async () => {
+      await consumer.process(createJob(burnEvent, 'job-1'));
+      await consumer.process(createJob(burnEvent, 'job-2'));
+
+      expect([...storedEvents.values()]).toEqual([
+        expect.objectContaining({
+          eventId: 'event-1',
+          type: 'BURN_DETECTED',
+          source: 'burn-detector',
+        }),
+      ]);
+      expect(consumer.processed).toHaveLength(2);
+    });
+
+    it('should key events without an eventId on their id', async () => {
+      const { eventId: _eventId, ...withoutEventId } = burnEvent;
+
+      expect(await consumer.process(createJob(withoutEventId))).toEqual({
+        success: true,
+        eventId: 'burn-1',
+      });
+      expect([...storedEvents.keys()]).toEqual(['burn-1']);
+    });
+  });
+
+  describe('failures', () => {
+    it('should rethrow a retryable failure while attempts remain', async () => {
+      const failure = new ServiceUnavailableError('database');
+      consumer.failure = failure;
+
+      await expect(consumer.process(createJob(burnEvent, 'job-1', 1))).rejects.toBe(failure);
+      expect(dlq.added).toEqual([]);
+    });
+
+    it('should dead-letter a retryable failure on the last attempt', async () => {
+      consumer.failure = new ServiceUnavailableError('database');
+
+      await expect(consumer.process(createJob(burnEvent, 'job-1', 2))).rejects.toBeInstanceOf(
+        UnrecoverableError,
+      );
+      expect(dlq.added).toEqual([
+        expect.objectContaining({
+          metadata: expect.objectContaining({ attemptsMade: 3, retryable: true }),
+        }),
+      ]);
+    });
+
+    it('should dead-letter a permanent failure on the first attempt without retries', async () => {
+      const failure = new NotFoundError('Token', 'token');
+      consumer.failure = failure;
+
+      await expect(consumer.process(createJob(burnEvent))).rejects.toBeInstanceOf(
+        UnrecoverableError,
+      );
+      expect(dlq.added).toEqual([
+        {
+          event: burnEvent,
+          error: failure,
+          metadata: {
+            jobId: 'job-1',
+            jobName: 'BURN_DETECTED',
+            queueName: 'burn-events',
+            attemptsMade: 1,
+            retryable: false,
+            source: 'burn-detector',
+          },
+        },
+      ]);
+    });
+
+    it('should treat invalid events as permanent failures', async () => {
+      await expect(
+        consumer.process(createJob({ ...burnEvent, type: 'PRICE_UPDATE' })),
+      ).rejects.toBeInstanceOf(UnrecoverableError);
+      await expect(
+        consumer.process(createJob({ ...burnEvent, data: { token: 'token' } })),
+      ).rejects.toBeInstanceOf(UnrecoverableError);
+      expect(dlq.added).toHaveLength(2);
+      expect(consumer.processed).toEqual([]);
+    });
+
+    it('should fail a permanent failure without retries when the dead letter write fails', async () => {
+      consumer.failure = new NotFoundError('Token', 'token');
+      dlq.deadLetterQueue.fail = true;
+
+      await expect(consumer.process(createJob(burnEvent))).rejects.toBeInstanceOf(
+        UnrecoverableError,
+      );
+    });
+  });
+});
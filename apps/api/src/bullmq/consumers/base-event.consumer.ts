@@ -4,10 +4,19 @@
  */
 
 import { Logger, Injectable } from '@nestjs/common';
-import { Job } from 'bullmq';
+import { Job, UnrecoverableError } from 'bullmq';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import type { AnyEvent, EventSchema } from '@solana-eda/events';
 import { validateEvent } from '@solana-eda/events';
+import type { SolanaJobData } from '@solana-eda/queue-bullmq';
+import { EventStoreRepository } from '@solana-eda/database';
+import {
+  DeadLetterQueue,
+  ValidationError,
+  formatErrorForLogging,
+  isRetryableError,
+} from '@solana-eda/error-handling';
+import { PrismaService } from '../../prisma/prisma.service';
 
 /**
  * Process result from a consumer
@@ -15,20 +24,28 @@ import { validateEvent } from '@solana-eda/events';
 export interface ConsumerResult {
   success: boolean;
   eventId: string;
-  error?: string;
 }
 
 /**
- * Base consumer class that handles event validation, WebSocket publishing, and error handling
+ * Base consumer class that handles event validation and storage, WebSocket publishing, and error handling
  */
 @Injectable()
 export abstract class BaseEventConsumer {
   protected readonly logger: Logger;
   protected readonly eventEmitter: EventEmitter2;
-
-  constructor(eventEmitter: EventEmitter2, consumerName: string) {
+  private readonly eventStore: EventStoreRepository;
+  private readonly deadLetterQueue: DeadLetterQueue;
+
+  constructor(
+    eventEmitter: EventEmitter2,
+    prisma: PrismaService,
+    deadLetterQueue: DeadLetterQueue,
+    consumerName: string,
+  ) {
     this.logger = new Logger(consumerName);
     this.eventEmitter = eventEmitter;
+    this.eventStore = new EventStoreRepository(prisma);
+    this.deadLetterQueue = deadLetterQueue;
   }
 
   /**
@@ -40,16 +57,21 @@ export abstract class BaseEventConsumer {
 
   /**
    * Abstract method to be implemented by specific consumers
-   * Processes the validated event data
+   * Processes the validated event data, persisting it idempotently since
+   * BullMQ may deliver a job more than once
    */
   abstract processEvent(event: AnyEvent): Promise<void>;
 
   /**
    * Main processor for BullMQ jobs
    * Handles validation, processing, and error handling
+   *
+   * Failures are thrown so BullMQ records them, see handleFailure.
    */
   async process(job: Job): Promise<ConsumerResult> {
-    const { eventType, eventId, timestamp, data } = job.data;
+    const { event, metadata } = job.data as SolanaJobData;
+    const eventType = event?.type;
+    const eventId = event?.eventId || event?.id || String(job.id);
 
     try {
       // Validate event type matches this consumer
@@ -57,19 +79,16 @@ export abstract class BaseEventConsumer {
       const validTypes = Array.isArray(eventTypeValue) ? eventTypeValue : [eventTypeValue];
       if (!validTypes.includes(eventType)) {
         const expectedTypes = (validTypes as readonly string[]).join(' or ');
-        this.logger.warn(
-          `Event type mismatch: expected ${expectedTypes}, got ${eventType}. Skipping job ${job.id}.`,
+        throw new ValidationError(
+          `Event type mismatch: expected ${expectedTypes}, got ${eventType}`,
         );
-        return {
-          success: false,
-          eventId,
-          error: `Event type mismatch: expected ${expectedTypes}, got ${eventType}`,
-        };
       }
 
       // Validate event using Zod schema
-      const eventData = { type: eventType, timestamp, id: eventId, eventId: job.data.eventId, data };
-      const validatedEvent = validateEvent(eventData);
+      const validatedEvent = validateEvent(event);
+
+      // Append to the event store for replay, redelivered events are stored once
+      await this.eventStore.append(validatedEvent, metadata?.source);
 
       this.logger.debug(
         `Processing ${eventType} event (job: ${job.id}, event: ${eventId || 'no-id'})`,
@@ -87,20 +106,56 @@ export abstract class BaseEventConsumer {
 
       return {
         success: true,
-        eventId: eventId || job.id,
+        eventId,
       };
     } catch (error) {
-      this.logger.error(
-        `Error processing job ${job.id} (${eventType}):`,
-        error instanceof Error ? error.message : String(error),
+      return await this.handleFailure(job, error);
+    }
+  }
+
+  /**
+   * Rethrow retryable failures while attempts remain so BullMQ retries the job
+   * Permanent failures and the last attempt go to the dead letter queue with the
+   * job context, then fail the job without further attempts.
+   */
+  private async handleFailure(job: Job, error: unknown): Promise<never> {
+    const failure = error instanceof Error ? error : new Error(String(error));
+    const { event, metadata } = job.data as SolanaJobData;
+    const attempt = job.attemptsMade + 1;
+    const attempts = job.opts.attempts ?? 1;
+    const retryable = isRetryableError(failure);
+
+    if (retryable && attempt < attempts) {
+      this.logger.warn(
+        `Job ${job.id} (${event?.type}) failed on attempt ${attempt}/${attempts}, retrying: ` +
+          formatErrorForLogging(failure),
       );
+      throw failure;
+    }
 
-      return {
-        success: false,
-        eventId: eventId || job.id,
-        error: error instanceof Error ? error.message : String(error),
-      };
+    this.logger.error(
+      `Job ${job.id} (${event?.type}) failed ${retryable ? `after ${attempt} attempts` : 'permanently'}: ` +
+        formatErrorForLogging(failure),
+    );
+
+    // The job still fails without retries, BullMQ keeps it in the failed set
+    try {
+      await this.deadLetterQueue.add(event, failure, {
+        jobId: job.id,
+        jobName: job.name,
+        queueName: job.queueName,
+        attemptsMade: attempt,
+        retryable,
+        source: metadata?.source,
+      });
+    } catch (dlqError) {
+      this.logger.error(
+        `Failed to add job ${job.id} (${event?.type}) to the dead letter queue: ` +
+          formatErrorForLogging(dlqError),
+      );
     }
+
+    throw new UnrecoverableError(failure.message);
   }
 
   /**
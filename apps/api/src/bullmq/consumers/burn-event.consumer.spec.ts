@@ -0,0 +1,76 @@
+import type { EventEmitter2 } from '@nestjs/event-emitter';
+import type { AnyEvent } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { BurnEventConsumer } from './burn-event.consumer';
+
+function burnEvent(eventId: string, txSignature: string): AnyEvent {
+  return {
+    type: 'BURN_DETECTED',
+    timestamp: '2026-10-19T12:00:00.000Z',
+    id: `burn-${eventId}`,
+    eventId,
+    schemaVersion: 1,
+    data: {
+      token: 'token',
+      amount: '1000',
+      percentage: 10,
+      txSignature,
+      burner: 'burner',
+      preSupply: '10000',
+      postSupply: '9000',
+    },
+  };
+}
+
+/**
+ * Prisma stand-in keeping one burn per transaction signature, like the unique key does
+ */
+function createPrisma() {
+  const burns = new Map<string, { txSignature: string; amount: string; timestamp: Date }>();
+  const prisma = {
+    burnEventRecord: {
+      createMany: async ({
+        data,
+      }: {
+        data: { txSignature: string; amount: string; timestamp: Date };
+      }) => {
+        if (burns.has(data.txSignature)) return { count: 0 };
+        burns.set(data.txSignature, data);
+        return { count: 1 };
+      },
+    },
+  };
+  return { prisma: prisma as unknown as PrismaService, burns };
+}
+
+describe('BurnEventConsumer', () => {
+  let burns: ReturnType<typeof createPrisma>['burns'];
+  let consumer: BurnEventConsumer;
+
+  beforeEach(() => {
+    const fake = createPrisma();
+    burns = fake.burns;
+    consumer = new BurnEventConsumer({} as EventEmitter2, fake.prisma, {} as DeadLetterQueue);
+  });
+
+  it('should store a burn with its amount and event time', async () => {
+    await consumer.processEvent(burnEvent('event-1', 'signature-1'));
+
+    expect(burns.get('signature-1')).toEqual({
+      txSignature: 'signature-1',
+      token: 'token',
+      amount: '1000',
+      percentage: 10,
+      timestamp: new Date('2026-10-19T12:00:00.000Z'),
+    });
+  });
+
+  it('should store a burn once per transaction signature', async () => {
+    await consumer.processEvent(burnEvent('event-1', 'signature-1'));
+    await consumer.processEvent(burnEvent('event-1', 'signature-1'));
+    await consumer.processEvent(burnEvent('event-2', 'signature-1'));
+
+    expect(burns.size).toBe(1);
+  });
+});
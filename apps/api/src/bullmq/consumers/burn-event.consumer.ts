@@ -3,10 +3,14 @@
  * Processes BURN_DETECTED events
  */
 
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
 import { BurnEventSchema, type AnyEvent } from '@solana-eda/events';
+import { BurnEventRepository } from '@solana-eda/database';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
 
 /**
  * Consumer for burn detected events
@@ -14,8 +18,15 @@ import { BurnEventSchema, type AnyEvent } from '@solana-eda/events';
  */
 @Injectable()
 export class BurnEventConsumer extends BaseEventConsumer {
-  constructor(eventEmitter: EventEmitter2) {
-    super(eventEmitter, BurnEventConsumer.name);
+  private burnEventRepo: BurnEventRepository;
+
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, BurnEventConsumer.name);
+    this.burnEventRepo = new BurnEventRepository(prisma);
   }
 
   getEventType(): string {
@@ -24,7 +35,7 @@ export class BurnEventConsumer extends BaseEventConsumer {
 
   /**
    * Process a validated burn event
-   * Additional business logic can be added here (persistence, analytics, etc.)
+   * Stored once per transaction signature, the burn-detector may have stored it already
    */
   async processEvent(event: AnyEvent): Promise<void> {
     // Validate using the specific schema
@@ -34,7 +45,17 @@ export class BurnEventConsumer extends BaseEventConsumer {
       `Burn detected: ${burnEvent.data.amount} of token ${burnEvent.data.token} (${burnEvent.data.percentage}%)`,
     );
 
-    // TODO: Add persistence to database if needed
+    const stored = await this.burnEventRepo.createIfNew({
+      txSignature: burnEvent.data.txSignature,
+      token: burnEvent.data.token,
+      amount: burnEvent.data.amount,
+      percentage: burnEvent.data.percentage,
+      timestamp: new Date(burnEvent.timestamp),
+    });
+    if (!stored) {
+      this.logger.debug(`Burn ${burnEvent.data.txSignature} already stored`);
+    }
+
     // TODO: Add analytics tracking
     // TODO: Trigger additional workflows
 
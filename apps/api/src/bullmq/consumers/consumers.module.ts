@@ -7,11 +7,13 @@ import { Module, Injectable, OnModuleInit, OnModuleDestroy, Inject } from '@nest
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ConfigService } from '@nestjs/config';
 import {
+  API_QUEUES,
   BULLMQ_WORKER_MANAGER,
 } from '../bullmq.module';
 import { BullMQWorkerManager } from '../bullmq.module';
-import { BULLMQ_QUEUES, type BullMQQueueName } from '@solana-eda/queue-bullmq';
-import { FeatureFlags } from '@solana-eda/events';
+import { FeatureFlags, getEventTypesForQueue, type QueueName } from '@solana-eda/events';
+import type { EventType } from '@solana-eda/types';
+import type { BaseEventConsumer } from './base-event.consumer';
 import {
   BurnEventConsumer,
   LiquidityEventConsumer,
@@ -19,6 +21,10 @@ import {
   TradeEventConsumer,
   PositionEventConsumer,
   WorkerStatusConsumer,
+  MarketEventConsumer,
+  TokenEventConsumer,
+  PoolEventConsumer,
+  DexComparisonConsumer,
 } from './index';
 
 /**
@@ -26,8 +32,8 @@ import {
  */
 interface ConsumerConfig {
   eventType: string | string[];
-  queueName: BullMQQueueName;
-  consumer: any;
+  queueName: QueueName;
+  consumer: BaseEventConsumer;
   concurrency?: number;
 }
 
@@ -37,7 +43,7 @@ interface ConsumerConfig {
  */
 @Injectable()
 export class BullMQConsumerRegistry implements OnModuleInit, OnModuleDestroy {
-  private readonly registeredQueues: Set<BullMQQueueName> = new Set();
+  private readonly registeredQueues: Set<QueueName> = new Set();
 
   constructor(
     @Inject(BULLMQ_WORKER_MANAGER) private readonly workerManager: BullMQWorkerManager,
@@ -49,6 +55,10 @@ export class BullMQConsumerRegistry implements OnModuleInit, OnModuleDestroy {
     private readonly tradeConsumer: TradeEventConsumer,
     private readonly positionConsumer: PositionEventConsumer,
     private readonly workerStatusConsumer: WorkerStatusConsumer,
+    private readonly marketConsumer: MarketEventConsumer,
+    private readonly tokenConsumer: TokenEventConsumer,
+    private readonly poolConsumer: PoolEventConsumer,
+    private readonly dexComparisonConsumer: DexComparisonConsumer,
   ) {}
 
   async onModuleInit(): Promise<void> {
@@ -59,19 +69,28 @@ export class BullMQConsumerRegistry implements OnModuleInit, OnModuleDestroy {
 
     console.log('[BullMQ Consumers] Registering consumers...');
 
-    // Define all consumer configurations
-    const consumerConfigs: ConsumerConfig[] = [
-      { eventType: 'BURN_DETECTED', queueName: BULLMQ_QUEUES.BURN_EVENTS, consumer: this.burnConsumer },
-      { eventType: 'LIQUIDITY_CHANGED', queueName: BULLMQ_QUEUES.LIQUIDITY_EVENTS, consumer: this.liquidityConsumer },
-      { eventType: 'PRICE_UPDATE', queueName: BULLMQ_QUEUES.PRICE_EVENTS, consumer: this.priceConsumer },
-      { eventType: 'TRADE_EXECUTED', queueName: BULLMQ_QUEUES.TRADE_EVENTS, consumer: this.tradeConsumer },
-      { eventType: ['POSITION_OPENED', 'POSITION_CLOSED'], queueName: BULLMQ_QUEUES.POSITION_EVENTS, consumer: this.positionConsumer },
-      { eventType: 'WORKER_STATUS', queueName: BULLMQ_QUEUES.WORKER_STATUS, consumer: this.workerStatusConsumer },
-    ];
-
-    // Register each consumer with its corresponding queue
-    for (const config of consumerConfigs) {
-      this.registerConsumer(config);
+    // Every event type needs a consumer, checked at compile time
+    const consumers: Record<EventType, BaseEventConsumer> = {
+      BURN_DETECTED: this.burnConsumer,
+      LIQUIDITY_CHANGED: this.liquidityConsumer,
+      PRICE_UPDATE: this.priceConsumer,
+      TRADE_EXECUTED: this.tradeConsumer,
+      POSITION_OPENED: this.positionConsumer,
+      POSITION_CLOSED: this.positionConsumer,
+      WORKER_STATUS: this.workerStatusConsumer,
+      MARKET_DISCOVERED: this.marketConsumer,
+      TOKEN_VALIDATED: this.tokenConsumer,
+      POOL_DISCOVERED: this.poolConsumer,
+      DEX_QUOTE_COMPARISON: this.dexComparisonConsumer,
+    };
+
+    // Queues and the event types on them come from the routing table
+    for (const queueName of API_QUEUES) {
+      const eventTypes = getEventTypesForQueue(queueName);
+      const consumer = eventTypes.map((type) => consumers[type]).find(Boolean);
+      if (consumer) {
+        this.registerConsumer({ eventType: eventTypes, queueName, consumer });
+      }
     }
 
     console.log(`[BullMQ Consumers] Registered ${this.registeredQueues.size} queue workers`);
@@ -95,10 +114,7 @@ export class BullMQConsumerRegistry implements OnModuleInit, OnModuleDestroy {
       this.workerManager.registerWorker(
         queueName,
         async (job) => {
-          const result = await consumer.process(job);
-          if (!result.success) {
-            throw new Error(result.error || 'Unknown error');
-          }
+          await consumer.process(job);
         },
         { concurrency },
       );
@@ -125,7 +141,7 @@ export class BullMQConsumerRegistry implements OnModuleInit, OnModuleDestroy {
   /**
    * Check if a queue has a registered worker
    */
-  isQueueRegistered(queueName: BullMQQueueName): boolean {
+  isQueueRegistered(queueName: QueueName): boolean {
     return this.registeredQueues.has(queueName);
   }
 }
@@ -144,6 +160,10 @@ export class BullMQConsumerRegistry implements OnModuleInit, OnModuleDestroy {
     TradeEventConsumer,
     PositionEventConsumer,
     WorkerStatusConsumer,
+    MarketEventConsumer,
+    TokenEventConsumer,
+    PoolEventConsumer,
+    DexComparisonConsumer,
   ],
   exports: [
     BullMQConsumerRegistry,
@@ -153,6 +173,10 @@ export class BullMQConsumerRegistry implements OnModuleInit, OnModuleDestroy {
     TradeEventConsumer,
     PositionEventConsumer,
     WorkerStatusConsumer,
+    MarketEventConsumer,
+    TokenEventConsumer,
+    PoolEventConsumer,
+    DexComparisonConsumer,
   ],
 })
 export class BullMQConsumersModule {}
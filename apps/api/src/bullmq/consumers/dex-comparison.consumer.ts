@@ -0,0 +1,47 @@
+/**
+ * DEX Comparison Event Consumer for BullMQ
+ * Processes DEX_QUOTE_COMPARISON events
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
+import { DEXQuoteComparisonEventSchema, type AnyEvent } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+
+/**
+ * Consumer for DEX quote comparison events
+ * Handles validation of quote comparisons, which are only broadcast to clients
+ */
+@Injectable()
+export class DexComparisonConsumer extends BaseEventConsumer {
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, DexComparisonConsumer.name);
+  }
+
+  getEventType(): string {
+    return 'DEX_QUOTE_COMPARISON';
+  }
+
+  /**
+   * Process a validated DEX quote comparison event
+   */
+  async processEvent(event: AnyEvent): Promise<void> {
+    const comparisonEvent = DEXQuoteComparisonEventSchema.parse(event);
+    const { inputMint, outputMint, quotes, selectedDEX, bestQuote } = comparisonEvent.data;
+
+    this.logger.debug(
+      `DEX comparison ${inputMint} -> ${outputMint}: ${quotes.length} quotes, ` +
+        `selected ${selectedDEX} (out: ${bestQuote.outAmount}, impact: ${bestQuote.priceImpactPct}%)`,
+    );
+
+    // The event is automatically emitted to EventEmitter2 by the base class
+    // for WebSocket Gateway to broadcast to clients
+  }
+}
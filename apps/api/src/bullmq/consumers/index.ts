@@ -10,3 +10,7 @@ export { PriceEventConsumer } from './price-event.consumer';
 export { TradeEventConsumer } from './trade-event.consumer';
 export { PositionEventConsumer } from './position-event.consumer';
 export { WorkerStatusConsumer } from './worker-status.consumer';
+export { MarketEventConsumer } from './market-event.consumer';
+export { TokenEventConsumer } from './token-event.consumer';
+export { PoolEventConsumer } from './pool-event.consumer';
+export { DexComparisonConsumer } from './dex-comparison.consumer';
@@ -0,0 +1,92 @@
+import type { EventEmitter2 } from '@nestjs/event-emitter';
+import type { AnyEvent } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { LiquidityEventConsumer } from './liquidity-event.consumer';
+
+interface StoredPool {
+  address: string;
+  tvl: number;
+  price: number;
+  updatedAt: Date;
+}
+
+function liquidityEvent(timestamp: string, newTvl: string): AnyEvent {
+  return {
+    type: 'LIQUIDITY_CHANGED',
+    timestamp,
+    id: `liquidity-${timestamp}`,
+    schemaVersion: 1,
+    data: {
+      poolAddress: 'pool',
+      tokenA: 'token',
+      tokenB: 'usdc',
+      oldTvl: '1000',
+      newTvl,
+      price: '0.025',
+      changePercentage: 10,
+    },
+  };
+}
+
+/**
+ * Prisma stand-in keeping one snapshot per pool address, like the unique key does
+ */
+function createPrisma() {
+  const pools = new Map<string, StoredPool>();
+  const prisma = {
+    liquidityPoolRecord: {
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { address: string; updatedAt: { lt: Date } };
+        data: Partial<StoredPool>;
+      }) => {
+        const pool = pools.get(where.address);
+        if (!pool || pool.updatedAt >= where.updatedAt.lt) return { count: 0 };
+        Object.assign(pool, data);
+        return { count: 1 };
+      },
+      createMany: async ({ data }: { data: StoredPool }) => {
+        if (pools.has(data.address)) return { count: 0 };
+        pools.set(data.address, { ...data });
+        return { count: 1 };
+      },
+    },
+  };
+  return { prisma: prisma as unknown as PrismaService, pools };
+}
+
+describe('LiquidityEventConsumer', () => {
+  let pools: ReturnType<typeof createPrisma>['pools'];
+  let consumer: LiquidityEventConsumer;
+
+  beforeEach(() => {
+    const fake = createPrisma();
+    pools = fake.pools;
+    consumer = new LiquidityEventConsumer({} as EventEmitter2, fake.prisma, {} as DeadLetterQueue);
+  });
+
+  it('should store the newest snapshot of a pool', async () => {
+    await consumer.processEvent(liquidityEvent('2026-10-19T12:00:00.000Z', '1100'));
+    await consumer.processEvent(liquidityEvent('2026-10-19T12:01:00.000Z', '1200'));
+
+    expect(pools.get('pool')).toMatchObject({
+      tvl: 1200,
+      updatedAt: new Date('2026-10-19T12:01:00.000Z'),
+    });
+  });
+
+  it('should not roll a pool back to a redelivered older snapshot', async () => {
+    await consumer.processEvent(liquidityEvent('2026-10-19T12:01:00.000Z', '1200'));
+    await consumer.processEvent(liquidityEvent('2026-10-19T12:00:00.000Z', '1100'));
+    await consumer.processEvent(liquidityEvent('2026-10-19T12:01:00.000Z', '1200'));
+
+    expect(pools.size).toBe(1);
+    expect(pools.get('pool')).toMatchObject({
+      tvl: 1200,
+      updatedAt: new Date('2026-10-19T12:01:00.000Z'),
+    });
+  });
+});
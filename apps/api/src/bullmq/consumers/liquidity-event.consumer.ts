@@ -3,10 +3,14 @@
  * Processes LIQUIDITY_CHANGED events
  */
 
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
 import { LiquidityEventSchema, type AnyEvent } from '@solana-eda/events';
+import { LiquidityPoolRepository } from '@solana-eda/database';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
 
 /**
  * Consumer for liquidity change events
@@ -14,8 +18,15 @@ import { LiquidityEventSchema, type AnyEvent } from '@solana-eda/events';
  */
 @Injectable()
 export class LiquidityEventConsumer extends BaseEventConsumer {
-  constructor(eventEmitter: EventEmitter2) {
-    super(eventEmitter, LiquidityEventConsumer.name);
+  private liquidityPoolRepo: LiquidityPoolRepository;
+
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, LiquidityEventConsumer.name);
+    this.liquidityPoolRepo = new LiquidityPoolRepository(prisma);
   }
 
   getEventType(): string {
@@ -24,7 +35,8 @@ export class LiquidityEventConsumer extends BaseEventConsumer {
 
   /**
    * Process a validated liquidity event
-   * Additional business logic can be added here (persistence, analytics, etc.)
+   * Updates the pool snapshot unless a newer one is stored, so redelivered events
+   * don't roll it back
    */
   async processEvent(event: AnyEvent): Promise<void> {
     // Validate using the specific schema
@@ -36,7 +48,18 @@ export class LiquidityEventConsumer extends BaseEventConsumer {
         `(${liquidityEvent.data.changePercentage > 0 ? '+' : ''}${liquidityEvent.data.changePercentage}%)`,
     );
 
-    // TODO: Add persistence to database if needed
+    const stored = await this.liquidityPoolRepo.upsertIfNewer({
+      address: liquidityEvent.data.poolAddress,
+      tokenA: liquidityEvent.data.tokenA,
+      tokenB: liquidityEvent.data.tokenB,
+      tvl: Number(liquidityEvent.data.newTvl),
+      price: Number(liquidityEvent.data.price),
+      updatedAt: new Date(liquidityEvent.timestamp),
+    });
+    if (!stored) {
+      this.logger.debug(`Pool ${liquidityEvent.data.poolAddress} already has a newer snapshot`);
+    }
+
     // TODO: Add analytics tracking for significant liquidity changes
     // TODO: Trigger alerts for large liquidity removals
 
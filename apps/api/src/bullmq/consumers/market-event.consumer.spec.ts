@@ -0,0 +1,92 @@
+import type { EventEmitter2 } from '@nestjs/event-emitter';
+import type { AnyEvent } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { MarketEventConsumer } from './market-event.consumer';
+
+type StoredMarket = Record<string, unknown> & { address: string };
+
+function marketEvent(discoveredAt: string): AnyEvent {
+  return {
+    type: 'MARKET_DISCOVERED',
+    timestamp: discoveredAt,
+    id: `market-${discoveredAt}`,
+    schemaVersion: 1,
+    data: {
+      marketAddress: 'market',
+      baseMint: 'token',
+      quoteMint: 'usdc',
+      dexType: 'OPENBOOK',
+      discoveredAt,
+      source: 'backfill',
+      marketData: { name: 'TOKEN/USDC' },
+    },
+  };
+}
+
+/**
+ * Prisma stand-in keeping one market per address, unset fields are left alone like Prisma does
+ */
+function createPrisma() {
+  const markets = new Map<string, StoredMarket>();
+  const prisma = {
+    marketRecord: {
+      upsert: async ({
+        where,
+        update,
+        create,
+      }: {
+        where: { address: string };
+        update: Record<string, unknown>;
+        create: StoredMarket;
+      }) => {
+        const market = markets.get(where.address);
+        if (!market) {
+          markets.set(where.address, { ...create });
+          return create;
+        }
+        for (const [field, value] of Object.entries(update)) {
+          if (value !== undefined) market[field] = value;
+        }
+        return market;
+      },
+    },
+  };
+  return { prisma: prisma as unknown as PrismaService, markets };
+}
+
+describe('MarketEventConsumer', () => {
+  let markets: ReturnType<typeof createPrisma>['markets'];
+  let consumer: MarketEventConsumer;
+
+  beforeEach(() => {
+    const fake = createPrisma();
+    markets = fake.markets;
+    consumer = new MarketEventConsumer({} as EventEmitter2, fake.prisma, {} as DeadLetterQueue);
+  });
+
+  it('should store a discovered market', async () => {
+    await consumer.processEvent(marketEvent('2026-10-19T12:00:00.000Z'));
+
+    expect(markets.get('market')).toMatchObject({
+      baseMint: 'token',
+      quoteMint: 'usdc',
+      dexType: 'OPENBOOK',
+      status: 'DISCOVERED',
+      discoveredAt: new Date('2026-10-19T12:00:00.000Z'),
+    });
+  });
+
+  it('should keep the status and discovery time when a market is discovered again', async () => {
+    await consumer.processEvent(marketEvent('2026-10-19T12:00:00.000Z'));
+    markets.get('market')!.status = 'VALIDATED';
+
+    await consumer.processEvent(marketEvent('2026-10-19T13:00:00.000Z'));
+
+    expect(markets.size).toBe(1);
+    expect(markets.get('market')).toMatchObject({
+      status: 'VALIDATED',
+      discoveredAt: new Date('2026-10-19T12:00:00.000Z'),
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Market Event Consumer for BullMQ
+ * Processes MARKET_DISCOVERED events
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
+import { MarketDiscoveredEventSchema, type AnyEvent } from '@solana-eda/events';
+import { MarketRepository } from '@solana-eda/database';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+
+/**
+ * Consumer for market discovered events
+ * Handles validation and persistence of newly discovered markets
+ */
+@Injectable()
+export class MarketEventConsumer extends BaseEventConsumer {
+  private marketRepo: MarketRepository;
+
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, MarketEventConsumer.name);
+    this.marketRepo = new MarketRepository(prisma);
+  }
+
+  getEventType(): string {
+    return 'MARKET_DISCOVERED';
+  }
+
+  /**
+   * Process a validated market discovered event
+   * Upserted by address, a redelivered event leaves the validation status as is
+   */
+  async processEvent(event: AnyEvent): Promise<void> {
+    const marketEvent = MarketDiscoveredEventSchema.parse(event);
+    const { marketAddress, baseMint, quoteMint, dexType } = marketEvent.data;
+
+    this.logger.debug(
+      `Market discovered on ${dexType}: ${marketAddress} (${baseMint}/${quoteMint}) ` +
+        `via ${marketEvent.data.source}`,
+    );
+
+    await this.marketRepo.upsert({
+      address: marketAddress,
+      baseMint,
+      quoteMint,
+      dexType,
+      discoveredAt: new Date(marketEvent.data.discoveredAt),
+      marketData: marketEvent.data.marketData,
+    });
+
+    // The event is automatically emitted to EventEmitter2 by the base class
+    // for WebSocket Gateway to broadcast to clients
+  }
+}
@@ -0,0 +1,93 @@
+import type { EventEmitter2 } from '@nestjs/event-emitter';
+import type { AnyEvent } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { PoolEventConsumer } from './pool-event.consumer';
+
+type StoredPool = Record<string, unknown> & { address: string };
+
+function poolEvent(discoveredAt: string, marketAddress?: string): AnyEvent {
+  return {
+    type: 'POOL_DISCOVERED',
+    timestamp: discoveredAt,
+    id: `pool-${discoveredAt}`,
+    schemaVersion: 1,
+    data: {
+      poolAddress: 'pool',
+      dexType: 'RAYDIUM',
+      tokenA: 'token',
+      tokenB: 'usdc',
+      initialTvl: '5000',
+      discoveredAt,
+      discoverySource: 'program-subscription',
+      marketAddress,
+    },
+  };
+}
+
+/**
+ * Prisma stand-in keeping one pool per address, unset fields are left alone like Prisma does
+ */
+function createPrisma() {
+  const pools = new Map<string, StoredPool>();
+  const prisma = {
+    discoveredPool: {
+      upsert: async ({
+        where,
+        update,
+        create,
+      }: {
+        where: { address: string };
+        update: Record<string, unknown>;
+        create: StoredPool;
+      }) => {
+        const pool = pools.get(where.address);
+        if (!pool) {
+          pools.set(where.address, { ...create });
+          return create;
+        }
+        for (const [field, value] of Object.entries(update)) {
+          if (value !== undefined) pool[field] = value;
+        }
+        return pool;
+      },
+    },
+  };
+  return { prisma: prisma as unknown as PrismaService, pools };
+}
+
+describe('PoolEventConsumer', () => {
+  let pools: ReturnType<typeof createPrisma>['pools'];
+  let consumer: PoolEventConsumer;
+
+  beforeEach(() => {
+    const fake = createPrisma();
+    pools = fake.pools;
+    consumer = new PoolEventConsumer({} as EventEmitter2, fake.prisma, {} as DeadLetterQueue);
+  });
+
+  it('should store a discovered pool', async () => {
+    await consumer.processEvent(poolEvent('2026-10-19T12:00:00.000Z'));
+
+    expect(pools.get('pool')).toMatchObject({
+      dexType: 'RAYDIUM',
+      initialTvl: '5000',
+      status: 'MONITORING',
+      discoveredAt: new Date('2026-10-19T12:00:00.000Z'),
+    });
+  });
+
+  it('should store a pool discovered again once and keep its status', async () => {
+    await consumer.processEvent(poolEvent('2026-10-19T12:00:00.000Z'));
+    pools.get('pool')!.status = 'IGNORED';
+
+    await consumer.processEvent(poolEvent('2026-10-19T13:00:00.000Z', 'market'));
+
+    expect(pools.size).toBe(1);
+    expect(pools.get('pool')).toMatchObject({
+      status: 'IGNORED',
+      marketAddress: 'market',
+      discoveredAt: new Date('2026-10-19T12:00:00.000Z'),
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Pool Event Consumer for BullMQ
+ * Processes POOL_DISCOVERED events
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
+import { PoolDiscoveredEventSchema, type AnyEvent } from '@solana-eda/events';
+import { DiscoveredPoolRepository } from '@solana-eda/database';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+
+/**
+ * Consumer for pool discovered events
+ * Handles validation and persistence of newly discovered pools
+ */
+@Injectable()
+export class PoolEventConsumer extends BaseEventConsumer {
+  private discoveredPoolRepo: DiscoveredPoolRepository;
+
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, PoolEventConsumer.name);
+    this.discoveredPoolRepo = new DiscoveredPoolRepository(prisma);
+  }
+
+  getEventType(): string {
+    return 'POOL_DISCOVERED';
+  }
+
+  /**
+   * Process a validated pool discovered event
+   * Upserted by address, a redelivered event leaves the monitoring status as is
+   */
+  async processEvent(event: AnyEvent): Promise<void> {
+    const poolEvent = PoolDiscoveredEventSchema.parse(event);
+    const { poolAddress, dexType, tokenA, tokenB, initialTvl } = poolEvent.data;
+
+    this.logger.debug(
+      `Pool discovered on ${dexType}: ${poolAddress} (${tokenA}/${tokenB}, TVL: ${initialTvl}) ` +
+        `via ${poolEvent.data.discoverySource}`,
+    );
+
+    await this.discoveredPoolRepo.upsert({
+      address: poolAddress,
+      dexType,
+      tokenA,
+      tokenB,
+      initialTvl,
+      discoveredAt: new Date(poolEvent.data.discoveredAt),
+      poolData: poolEvent.data.poolData,
+      marketAddress: poolEvent.data.marketAddress,
+      creator: poolEvent.data.creator,
+    });
+
+    // The event is automatically emitted to EventEmitter2 by the base class
+    // for WebSocket Gateway to broadcast to clients
+  }
+}
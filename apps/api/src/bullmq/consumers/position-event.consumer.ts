@@ -3,14 +3,17 @@
  * Processes POSITION_OPENED and POSITION_CLOSED events
  */
 
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
 import {
   PositionOpenedEventSchema,
   PositionClosedEventSchema,
   type AnyEvent,
 } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
 
 /**
  * Consumer for position events
@@ -18,8 +21,12 @@ import {
  */
 @Injectable()
 export class PositionEventConsumer extends BaseEventConsumer {
-  constructor(eventEmitter: EventEmitter2) {
-    super(eventEmitter, PositionEventConsumer.name);
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, PositionEventConsumer.name);
   }
 
   getEventType(): string[] {
@@ -60,9 +67,7 @@ export class PositionEventConsumer extends BaseEventConsumer {
       this.logger.debug(`  Take profit: ${positionEvent.data.takeProfit}`);
     }
 
-    // TODO: Persist position to database
-    // TODO: Track open positions
-    // TODO: Set up monitoring for stop loss/take profit triggers
+    // The trading-bot stores the position and monitors its stop loss/take profit
 
     // The event is automatically emitted to EventEmitter2 by the base class
     // for WebSocket Gateway to broadcast to clients
@@ -82,9 +87,7 @@ export class PositionEventConsumer extends BaseEventConsumer {
         `reason: ${positionEvent.data.closeReason}`,
     );
 
-    // TODO: Update position record in database
-    // TODO: Calculate and store final P&L
-    // TODO: Update trading statistics
+    // The trading-bot stores the closed position and its final P&L
     // TODO: Send notifications for significant wins/losses
 
     // The event is automatically emitted to EventEmitter2 by the base class
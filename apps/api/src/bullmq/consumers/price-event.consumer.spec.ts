@@ -0,0 +1,71 @@
+import type { EventEmitter2 } from '@nestjs/event-emitter';
+import type { AnyEvent } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { PriceEventConsumer } from './price-event.consumer';
+
+function priceEvent(id: string, eventId?: string): AnyEvent {
+  return {
+    type: 'PRICE_UPDATE',
+    timestamp: '2026-10-19T12:00:00.000Z',
+    id,
+    eventId,
+    schemaVersion: 1,
+    data: {
+      token: 'token',
+      price: '0.025',
+      source: 'aggregated',
+      confidence: 0.9,
+      volume24h: '1500',
+      sources: [{ dex: 'RAYDIUM', price: '0.025' }],
+    },
+  };
+}
+
+/**
+ * Prisma stand-in keeping one price per eventId, like the unique key does
+ */
+function createPrisma() {
+  const prices = new Map<string, { eventId: string; price: number; volume24h?: number }>();
+  const prisma = {
+    priceRecord: {
+      createMany: async ({
+        data,
+      }: {
+        data: { eventId: string; price: number; volume24h?: number };
+      }) => {
+        if (prices.has(data.eventId)) return { count: 0 };
+        prices.set(data.eventId, data);
+        return { count: 1 };
+      },
+    },
+  };
+  return { prisma: prisma as unknown as PrismaService, prices };
+}
+
+describe('PriceEventConsumer', () => {
+  let prices: ReturnType<typeof createPrisma>['prices'];
+  let consumer: PriceEventConsumer;
+
+  beforeEach(() => {
+    const fake = createPrisma();
+    prices = fake.prices;
+    consumer = new PriceEventConsumer({} as EventEmitter2, fake.prisma, {} as DeadLetterQueue);
+  });
+
+  it('should store a redelivered price update once under its eventId', async () => {
+    await consumer.processEvent(priceEvent('price-1', 'event-1'));
+    await consumer.processEvent(priceEvent('price-1', 'event-1'));
+
+    expect([...prices.values()]).toEqual([
+      expect.objectContaining({ eventId: 'event-1', price: 0.025, volume24h: 1500 }),
+    ]);
+  });
+
+  it('should key price updates without an eventId on their id', async () => {
+    await consumer.processEvent(priceEvent('price-1'));
+    await consumer.processEvent(priceEvent('price-2'));
+
+    expect([...prices.keys()]).toEqual(['price-1', 'price-2']);
+  });
+});
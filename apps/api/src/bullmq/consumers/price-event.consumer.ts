@@ -3,10 +3,14 @@
  * Processes PRICE_UPDATE events
  */
 
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
 import { PriceUpdateEventSchema, type AnyEvent } from '@solana-eda/events';
+import { PriceRepository } from '@solana-eda/database';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
 
 /**
  * Consumer for price update events
@@ -14,8 +18,15 @@ import { PriceUpdateEventSchema, type AnyEvent } from '@solana-eda/events';
  */
 @Injectable()
 export class PriceEventConsumer extends BaseEventConsumer {
-  constructor(eventEmitter: EventEmitter2) {
-    super(eventEmitter, PriceEventConsumer.name);
+  private priceRepo: PriceRepository;
+
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, PriceEventConsumer.name);
+    this.priceRepo = new PriceRepository(prisma);
   }
 
   getEventType(): string {
@@ -24,7 +35,7 @@ export class PriceEventConsumer extends BaseEventConsumer {
 
   /**
    * Process a validated price update event
-   * Additional business logic can be added here (persistence, analytics, etc.)
+   * Stored once per event id, the price-aggregator may have stored it already
    */
   async processEvent(event: AnyEvent): Promise<void> {
     // Validate using the specific schema
@@ -42,7 +53,20 @@ export class PriceEventConsumer extends BaseEventConsumer {
       );
     }
 
-    // TODO: Add persistence to database for price history
+    const stored = await this.priceRepo.createIfNew({
+      eventId: priceEvent.eventId || priceEvent.id,
+      token: priceEvent.data.token,
+      price: Number(priceEvent.data.price),
+      source: priceEvent.data.source,
+      confidence: priceEvent.data.confidence,
+      volume24h:
+        priceEvent.data.volume24h !== undefined ? Number(priceEvent.data.volume24h) : undefined,
+      timestamp: new Date(priceEvent.timestamp),
+    });
+    if (!stored) {
+      this.logger.debug(`Price event ${priceEvent.eventId || priceEvent.id} already stored`);
+    }
+
     // TODO: Update token price cache
     // TODO: Trigger alerts for significant price movements
 
@@ -0,0 +1,76 @@
+import type { EventEmitter2 } from '@nestjs/event-emitter';
+import type { AnyEvent } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { TokenEventConsumer } from './token-event.consumer';
+
+function tokenEvent(id: string, eventId?: string): AnyEvent {
+  return {
+    type: 'TOKEN_VALIDATED',
+    timestamp: '2026-10-19T12:00:00.000Z',
+    id,
+    eventId,
+    schemaVersion: 1,
+    data: {
+      token: 'token',
+      isRenounced: true,
+      isBurned: true,
+      confidence: 0.8,
+      validatedAt: '2026-10-19T12:00:00.000Z',
+      txSignature: 'signature-1',
+    },
+  };
+}
+
+/**
+ * Prisma stand-in keeping one validation per eventId, like the unique key does
+ */
+function createPrisma() {
+  const validations = new Map<string, { eventId: string; token: string; confidence: number }>();
+  const prisma = {
+    tokenValidationRecord: {
+      createMany: async ({
+        data,
+      }: {
+        data: { eventId: string; token: string; confidence: number };
+      }) => {
+        if (validations.has(data.eventId)) return { count: 0 };
+        validations.set(data.eventId, data);
+        return { count: 1 };
+      },
+    },
+  };
+  return { prisma: prisma as unknown as PrismaService, validations };
+}
+
+describe('TokenEventConsumer', () => {
+  let validations: ReturnType<typeof createPrisma>['validations'];
+  let consumer: TokenEventConsumer;
+
+  beforeEach(() => {
+    const fake = createPrisma();
+    validations = fake.validations;
+    consumer = new TokenEventConsumer({} as EventEmitter2, fake.prisma, {} as DeadLetterQueue);
+  });
+
+  it('should store a redelivered validation once under its eventId', async () => {
+    await consumer.processEvent(tokenEvent('validation-1', 'event-1'));
+    await consumer.processEvent(tokenEvent('validation-1', 'event-1'));
+
+    expect([...validations.values()]).toEqual([
+      expect.objectContaining({
+        eventId: 'event-1',
+        token: 'token',
+        confidence: 0.8,
+        validatedAt: new Date('2026-10-19T12:00:00.000Z'),
+      }),
+    ]);
+  });
+
+  it('should keep each validation of a token', async () => {
+    await consumer.processEvent(tokenEvent('validation-1'));
+    await consumer.processEvent(tokenEvent('validation-2'));
+
+    expect([...validations.keys()]).toEqual(['validation-1', 'validation-2']);
+  });
+});
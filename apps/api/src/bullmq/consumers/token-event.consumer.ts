@@ -0,0 +1,68 @@
+/**
+ * Token Event Consumer for BullMQ
+ * Processes TOKEN_VALIDATED events
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
+import { TokenValidatedEventSchema, type AnyEvent } from '@solana-eda/events';
+import { TokenValidationRepository } from '@solana-eda/database';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+
+/**
+ * Consumer for token validated events
+ * Handles validation and persistence of token safety checks
+ */
+@Injectable()
+export class TokenEventConsumer extends BaseEventConsumer {
+  private tokenValidationRepo: TokenValidationRepository;
+
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, TokenEventConsumer.name);
+    this.tokenValidationRepo = new TokenValidationRepository(prisma);
+  }
+
+  getEventType(): string {
+    return 'TOKEN_VALIDATED';
+  }
+
+  /**
+   * Process a validated token validation event
+   * Stored once per event id, earlier validations of the token are kept as history
+   */
+  async processEvent(event: AnyEvent): Promise<void> {
+    const tokenEvent = TokenValidatedEventSchema.parse(event);
+    const { token, confidence } = tokenEvent.data;
+
+    this.logger.debug(
+      `Token validated: ${token} (confidence: ${confidence}, renounced: ${tokenEvent.data.isRenounced ?? 'unknown'}, ` +
+        `burned: ${tokenEvent.data.isBurned ?? 'unknown'}, locked: ${tokenEvent.data.isLocked ?? 'unknown'})`,
+    );
+
+    const stored = await this.tokenValidationRepo.createIfNew({
+      eventId: tokenEvent.eventId || tokenEvent.id,
+      token,
+      isRenounced: tokenEvent.data.isRenounced,
+      isBurned: tokenEvent.data.isBurned,
+      isLocked: tokenEvent.data.isLocked,
+      lpBurnedCount: tokenEvent.data.lpBurnedCount,
+      confidence,
+      validatedAt: new Date(tokenEvent.data.validatedAt),
+      txSignature: tokenEvent.data.txSignature,
+      validationDetails: tokenEvent.data.validationDetails,
+    });
+    if (!stored) {
+      this.logger.debug(`Token validation ${tokenEvent.eventId || tokenEvent.id} already stored`);
+    }
+
+    // The event is automatically emitted to EventEmitter2 by the base class
+    // for WebSocket Gateway to broadcast to clients
+  }
+}
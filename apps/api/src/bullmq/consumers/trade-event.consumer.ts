@@ -3,10 +3,13 @@
  * Processes TRADE_EXECUTED events
  */
 
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
 import { TradeEventSchema, type AnyEvent } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
 
 /**
  * Consumer for trade executed events
@@ -14,8 +17,12 @@ import { TradeEventSchema, type AnyEvent } from '@solana-eda/events';
  */
 @Injectable()
 export class TradeEventConsumer extends BaseEventConsumer {
-  constructor(eventEmitter: EventEmitter2) {
-    super(eventEmitter, TradeEventConsumer.name);
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, TradeEventConsumer.name);
   }
 
   getEventType(): string {
@@ -36,9 +43,7 @@ export class TradeEventConsumer extends BaseEventConsumer {
         `at ${tradeEvent.data.price} (slippage: ${tradeEvent.data.slippage}%)`,
     );
 
-    // TODO: Persist trade to database
-    // TODO: Update position tracking
-    // TODO: Calculate and update P&L
+    // Trades, positions and P&L are stored by the trading-bot before it publishes
     // TODO: Send notifications for significant trades
 
     // The event is automatically emitted to EventEmitter2 by the base class
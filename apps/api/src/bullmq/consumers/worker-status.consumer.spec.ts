@@ -0,0 +1,85 @@
+import type { EventEmitter2 } from '@nestjs/event-emitter';
+import type { AnyEvent } from '@solana-eda/events';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { WorkerStatusConsumer } from './worker-status.consumer';
+
+interface StoredStatus {
+  name: string;
+  status: string;
+  lastSeen: Date;
+}
+
+function statusEvent(timestamp: string, status: 'RUNNING' | 'ERROR'): AnyEvent {
+  return {
+    type: 'WORKER_STATUS',
+    timestamp,
+    id: `status-${timestamp}`,
+    schemaVersion: 1,
+    data: {
+      workerName: 'burn-detector',
+      status,
+      metrics: { eventsProcessed: 10, errors: 0, uptime: 60 },
+    },
+  };
+}
+
+/**
+ * Prisma stand-in keeping one status per worker name, like the unique key does
+ */
+function createPrisma() {
+  const statuses = new Map<string, StoredStatus>();
+  const prisma = {
+    workerStatusRecord: {
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { name: string; lastSeen: { lt: Date } };
+        data: Partial<StoredStatus>;
+      }) => {
+        const stored = statuses.get(where.name);
+        if (!stored || stored.lastSeen >= where.lastSeen.lt) return { count: 0 };
+        Object.assign(stored, data);
+        return { count: 1 };
+      },
+      createMany: async ({ data }: { data: StoredStatus }) => {
+        if (statuses.has(data.name)) return { count: 0 };
+        statuses.set(data.name, { ...data });
+        return { count: 1 };
+      },
+    },
+  };
+  return { prisma: prisma as unknown as PrismaService, statuses };
+}
+
+describe('WorkerStatusConsumer', () => {
+  let statuses: ReturnType<typeof createPrisma>['statuses'];
+  let consumer: WorkerStatusConsumer;
+
+  beforeEach(() => {
+    const fake = createPrisma();
+    statuses = fake.statuses;
+    consumer = new WorkerStatusConsumer({} as EventEmitter2, fake.prisma, {} as DeadLetterQueue);
+  });
+
+  it('should keep the latest status when an older report arrives late', async () => {
+    await consumer.processEvent(statusEvent('2026-10-19T12:01:00.000Z', 'ERROR'));
+    await consumer.processEvent(statusEvent('2026-10-19T12:00:00.000Z', 'RUNNING'));
+
+    expect(statuses.get('burn-detector')).toMatchObject({
+      status: 'ERROR',
+      lastSeen: new Date('2026-10-19T12:01:00.000Z'),
+    });
+  });
+
+  it('should store one status per worker', async () => {
+    await consumer.processEvent(statusEvent('2026-10-19T12:00:00.000Z', 'RUNNING'));
+    await consumer.processEvent(statusEvent('2026-10-19T12:00:00.000Z', 'RUNNING'));
+    await consumer.processEvent(statusEvent('2026-10-19T12:01:00.000Z', 'ERROR'));
+
+    expect([...statuses.values()]).toEqual([
+      expect.objectContaining({ status: 'ERROR', lastSeen: new Date('2026-10-19T12:01:00.000Z') }),
+    ]);
+  });
+});
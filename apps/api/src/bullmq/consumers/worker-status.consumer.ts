@@ -3,10 +3,14 @@
  * Processes WORKER_STATUS events
  */
 
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { BaseEventConsumer } from './base-event.consumer';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEAD_LETTER_QUEUE } from '../bullmq.module';
 import { WorkerStatusEventSchema, type AnyEvent } from '@solana-eda/events';
+import { WorkerStatusRepository } from '@solana-eda/database';
+import type { DeadLetterQueue } from '@solana-eda/error-handling';
 
 /**
  * Consumer for worker status events
@@ -17,8 +21,15 @@ export class WorkerStatusConsumer extends BaseEventConsumer {
   private workerStatus: Map<string, { status: string; lastUpdate: string; metrics: unknown }> =
     new Map();
 
-  constructor(eventEmitter: EventEmitter2) {
-    super(eventEmitter, WorkerStatusConsumer.name);
+  private workerStatusRepo: WorkerStatusRepository;
+
+  constructor(
+    eventEmitter: EventEmitter2,
+    @Inject('PRISMA') prisma: PrismaService,
+    @Inject(DEAD_LETTER_QUEUE) deadLetterQueue: DeadLetterQueue,
+  ) {
+    super(eventEmitter, prisma, deadLetterQueue, WorkerStatusConsumer.name);
+    this.workerStatusRepo = new WorkerStatusRepository(prisma);
   }
 
   getEventType(): string {
@@ -52,7 +63,14 @@ export class WorkerStatusConsumer extends BaseEventConsumer {
       this.logger.error(`Worker ${workerName} is in ERROR state`);
     }
 
-    // TODO: Persist worker status to database
+    // Older reports arriving late don't overwrite a newer status
+    await this.workerStatusRepo.upsertIfNewer({
+      name: workerName,
+      status,
+      metrics,
+      lastSeen: new Date(statusEvent.timestamp),
+    });
+
     // TODO: Track worker health over time
     // TODO: Send alerts for workers that are down or in error state
     // TODO: Calculate uptime statistics
@@ -35,6 +35,7 @@ async function bootstrap() {
     .addTag('workers', 'Worker status and management')
     .addTag('trading', 'Trading operations and settings')
     .addTag('positions', 'Position management and portfolio tracking')
+    .addTag('tokens', 'Token validation and rug risk')
     .addBearerAuth(
       {
         type: 'http',
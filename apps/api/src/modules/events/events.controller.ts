@@ -1,5 +1,7 @@
-import { Controller, Get, Query } from '@nestjs/common';
+import { Controller, Get, Query, Res } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { once } from 'events';
 import { EventsService } from './events.service';
 import type {
   AllEventsResponse,
@@ -51,7 +53,8 @@ class PositionEventSwagger implements PositionEventDto {
   entryPrice!: string;
   currentPrice!: string;
   pnl!: number;
-  status!: 'OPEN' | 'CLOSED';
+  pnlPercent!: number;
+  status!: 'OPEN' | 'CLOSING' | 'CLOSED';
   openedAt!: string;
   closedAt?: string;
   stopLoss?: string;
@@ -230,4 +233,55 @@ export class EventsController {
   ): Promise<PriceEventDto[]> {
     return await this.eventsService.getPriceEvents(limit, token);
   }
+
+  @Get('replay')
+  @ApiOperation({
+    summary: 'Replay stored events',
+    description:
+      'Streams events from the event store in event time order as newline-delimited JSON, for rebuilding read models and debugging incidents.',
+  })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    type: String,
+    description: 'Start of the range (ISO date, inclusive)',
+    example: '2026-10-01T00:00:00Z',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    type: String,
+    description: 'End of the range (ISO date, inclusive)',
+    example: '2026-10-02T00:00:00Z',
+  })
+  @ApiQuery({
+    name: 'types',
+    required: false,
+    type: String,
+    description: 'Comma-separated event types',
+    example: 'BURN_DETECTED,TRADE_EXECUTED',
+  })
+  @ApiResponse({ status: 200, description: 'One stored event per line' })
+  @ApiResponse({ status: 400, description: 'Invalid date range or event type' })
+  async replayEvents(
+    @Res() res: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('types') types?: string,
+  ): Promise<void> {
+    const filter = this.eventsService.parseReplayFilter(from, to, types);
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    try {
+      for await (const event of this.eventsService.replayEvents(filter)) {
+        if (!res.write(`${JSON.stringify(event)}\n`)) {
+          await once(res, 'drain');
+        }
+      }
+      res.end();
+    } catch (error) {
+      // The status is already sent, cut the stream so the client sees it incomplete
+      res.destroy(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
 }
@@ -0,0 +1,118 @@
+import { BadRequestException } from '@nestjs/common';
+import type { Redis } from 'ioredis';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { EventsService } from './events.service';
+
+interface StoredEvent {
+  eventId: string;
+  type: string;
+  timestamp: Date;
+  payload: { eventId: string; type: string };
+}
+
+/**
+ * Prisma stand-in for the replay query, ordered and paged like the real one
+ */
+function createPrisma(events: StoredEvent[]) {
+  const queries: { take: number; cursor?: { eventId: string } }[] = [];
+  const prisma = {
+    storedEvent: {
+      findMany: async (query: {
+        where: { type?: { in: string[] } };
+        take: number;
+        cursor?: { eventId: string };
+        skip?: number;
+      }) => {
+        queries.push(query);
+        const ordered = events
+          .filter((event) => !query.where.type || query.where.type.in.includes(event.type))
+          .sort(
+            (a, b) =>
+              a.timestamp.getTime() - b.timestamp.getTime() || a.eventId.localeCompare(b.eventId),
+          );
+        const start = query.cursor
+          ? ordered.findIndex((event) => event.eventId === query.cursor!.eventId) +
+            (query.skip ?? 0)
+          : 0;
+        return ordered.slice(start, start + query.take);
+      },
+    },
+  };
+  return { prisma: prisma as unknown as PrismaService, queries };
+}
+
+function storedEvent(index: number, type = 'BURN_DETECTED'): StoredEvent {
+  const eventId = `event-${String(index).padStart(4, '0')}`;
+  return {
+    eventId,
+    type,
+    timestamp: new Date(Date.UTC(2026, 9, 19, 12, 0, index)),
+    payload: { eventId, type },
+  };
+}
+
+async function collect(events: AsyncIterable<{ eventId?: string }>): Promise<string[]> {
+  const ids: string[] = [];
+  for await (const event of events) {
+    ids.push(event.eventId!);
+  }
+  return ids;
+}
+
+describe('EventsService', () => {
+  describe('replayEvents', () => {
+    it('should replay every stored event in event time order across pages', async () => {
+      const events = Array.from({ length: 501 }, (_, index) => storedEvent(index)).reverse();
+      const { prisma, queries } = createPrisma(events);
+      const service = new EventsService({} as Redis, prisma);
+
+      const ids = await collect(service.replayEvents({}));
+
+      expect(ids).toHaveLength(501);
+      expect(ids[0]).toBe('event-0000');
+      expect(ids[500]).toBe('event-0500');
+      expect(queries.map((query) => query.cursor?.eventId)).toEqual([undefined, 'event-0499']);
+    });
+
+    it('should only replay the requested types', async () => {
+      const { prisma } = createPrisma([
+        storedEvent(0),
+        storedEvent(1, 'PRICE_UPDATE'),
+        storedEvent(2),
+      ]);
+      const service = new EventsService({} as Redis, prisma);
+
+      expect(await collect(service.replayEvents({ types: ['PRICE_UPDATE'] }))).toEqual([
+        'event-0001',
+      ]);
+    });
+  });
+
+  describe('parseReplayFilter', () => {
+    const service = new EventsService({} as Redis, createPrisma([]).prisma);
+
+    it('should parse the range and types', () => {
+      expect(
+        service.parseReplayFilter(
+          '2026-10-19T00:00:00Z',
+          '2026-10-20T00:00:00Z',
+          'BURN_DETECTED, PRICE_UPDATE',
+        ),
+      ).toEqual({
+        from: new Date('2026-10-19T00:00:00Z'),
+        to: new Date('2026-10-20T00:00:00Z'),
+        types: ['BURN_DETECTED', 'PRICE_UPDATE'],
+      });
+    });
+
+    it('should reject bad dates, reversed ranges and unknown types', () => {
+      expect(() => service.parseReplayFilter('yesterday')).toThrow(BadRequestException);
+      expect(() =>
+        service.parseReplayFilter('2026-10-20T00:00:00Z', '2026-10-19T00:00:00Z'),
+      ).toThrow(BadRequestException);
+      expect(() => service.parseReplayFilter(undefined, undefined, 'NOT_AN_EVENT')).toThrow(
+        'Unknown event types: NOT_AN_EVENT',
+      );
+    });
+  });
+});
@@ -1,7 +1,10 @@
-import { Injectable, Inject } from '@nestjs/common';
+import { Injectable, Inject, BadRequestException } from '@nestjs/common';
 import { Redis } from 'ioredis';
+import { EVENT_TYPES, type AnyEvent } from '@solana-eda/events';
 import {
   BurnEventRepository,
+  EventStoreRepository,
+  type EventStoreFilter,
   LiquidityPoolRepository,
   TradeRepository,
   PositionRepository,
@@ -53,7 +56,8 @@ export interface PositionEventDto {
   entryPrice: string;
   currentPrice: string;
   pnl: number;
-  status: 'OPEN' | 'CLOSED';
+  pnlPercent: number;
+  status: 'OPEN' | 'CLOSING' | 'CLOSED';
   openedAt: string;
   closedAt?: string;
   stopLoss?: string;
@@ -84,6 +88,9 @@ export interface AllEventsResponse {
   positionEvents: PositionEventDto[];
 }
 
+/** Stored events read per query while replaying */
+const REPLAY_PAGE_SIZE = 500;
+
 @Injectable()
 export class EventsService {
   private burnEventRepo: BurnEventRepository;
@@ -91,6 +98,7 @@ export class EventsService {
   private tradeRepo: TradeRepository;
   private positionRepo: PositionRepository;
   private priceRepo: PriceRepository;
+  private eventStoreRepo: EventStoreRepository;
 
   constructor(
     @Inject('REDIS') private redis: Redis,
@@ -101,6 +109,54 @@ export class EventsService {
     this.tradeRepo = new TradeRepository(prisma);
     this.positionRepo = new PositionRepository(prisma);
     this.priceRepo = new PriceRepository(prisma);
+    this.eventStoreRepo = new EventStoreRepository(prisma);
+  }
+
+  /**
+   * Parse the replay query, rejecting bad dates and unknown event types
+   */
+  parseReplayFilter(from?: string, to?: string, types?: string): EventStoreFilter {
+    const parseDate = (value: string | undefined, name: string): Date | undefined => {
+      if (!value) return undefined;
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        throw new BadRequestException(`${name} must be a valid date`);
+      }
+      return date;
+    };
+
+    const filter: EventStoreFilter = {
+      from: parseDate(from, 'from'),
+      to: parseDate(to, 'to'),
+      types: types
+        ?.split(',')
+        .map((type) => type.trim())
+        .filter(Boolean),
+    };
+
+    if (filter.from && filter.to && filter.from > filter.to) {
+      throw new BadRequestException('from must be before to');
+    }
+    const unknown = filter.types?.filter((type) => !(EVENT_TYPES as string[]).includes(type));
+    if (unknown?.length) {
+      throw new BadRequestException(`Unknown event types: ${unknown.join(', ')}`);
+    }
+
+    return filter;
+  }
+
+  /**
+   * Stored events in event time order, read from the store page by page
+   */
+  async *replayEvents(filter: EventStoreFilter): AsyncGenerator<AnyEvent> {
+    let after: string | undefined;
+    do {
+      const page = await this.eventStoreRepo.findInRange(filter, REPLAY_PAGE_SIZE, after);
+      for (const stored of page) {
+        yield stored.payload as unknown as AnyEvent;
+      }
+      after = page.length === REPLAY_PAGE_SIZE ? page[page.length - 1]!.eventId : undefined;
+    } while (after);
   }
 
   async getRecentEvents(limit: number = 50): Promise<AllEventsResponse> {
@@ -176,6 +232,7 @@ export class EventsService {
       entryPrice: position.entryPrice.toString(),
       currentPrice: position.currentPrice.toString(),
       pnl: Number(position.pnl ?? 0),
+      pnlPercent: Number(position.pnlPercent ?? 0),
       status: position.status,
       openedAt: position.openedAt.toISOString(),
       closedAt: position.closedAt?.toISOString(),
@@ -1,13 +1,21 @@
 import { Controller, Get, Post, Put, Body, Param, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam, ApiBody } from '@nestjs/swagger';
 import { PositionsService } from './positions.service';
-import type { PositionWithTrades, Position } from '@solana-eda/database';
+import { parseTradingMode } from '../trading/trading-mode.pipe';
+import type {
+  CloseReason,
+  PortfolioStats as PortfolioStatsData,
+  PositionWithTrades,
+  Position,
+  TradingMode,
+} from '@solana-eda/database';
 
 interface PositionTrade {
   id: string;
   type: 'BUY' | 'SELL';
   amount: string;
   price: string;
+  fee: string;
   timestamp: string;
 }
 
@@ -17,10 +25,15 @@ class PositionDto {
   amount!: string;
   entryPrice!: string;
   currentPrice!: string;
+  /** Realized + unrealized PnL in the quote currency */
   pnl!: number;
-  status!: 'OPEN' | 'CLOSED';
+  pnlPercent!: number;
+  realizedPnl!: number;
+  status!: 'OPEN' | 'CLOSING' | 'CLOSED';
+  mode!: TradingMode;
   openedAt!: string;
   closedAt?: string;
+  closeReason?: CloseReason;
   stopLoss?: string;
   takeProfit?: string;
   trades!: PositionTrade[];
@@ -30,9 +43,16 @@ class PortfolioStats {
   totalPositions!: number;
   openPositions!: number;
   closedPositions!: number;
-  totalPnL!: number;
-  totalValue!: string;
+  totalValue!: number;
+  realizedPnl!: number;
+  unrealizedPnl!: number;
+  totalPnl!: number;
+  avgPnl!: number;
+  winningPositions!: number;
+  losingPositions!: number;
   winRate!: number;
+  totalFees!: number;
+  closeReasons!: Record<CloseReason, number>;
 }
 
 function mapPositionToDto(position: PositionWithTrades): PositionDto {
@@ -43,9 +63,13 @@ function mapPositionToDto(position: PositionWithTrades): PositionDto {
     entryPrice: position.entryPrice.toString(),
     currentPrice: position.currentPrice.toString(),
     pnl: Number(position.pnl ?? 0),
+    pnlPercent: Number(position.pnlPercent ?? 0),
+    realizedPnl: Number(position.realizedPnl ?? 0),
     status: position.status,
+    mode: position.mode,
     openedAt: position.openedAt.toISOString(),
     closedAt: position.closedAt?.toISOString(),
+    closeReason: position.closeReason ?? undefined,
     stopLoss: position.stopLoss?.toString(),
     takeProfit: position.takeProfit?.toString(),
     trades: position.trades.map((trade) => ({
@@ -53,6 +77,7 @@ function mapPositionToDto(position: PositionWithTrades): PositionDto {
       type: trade.type,
       amount: trade.amount.toString(),
       price: trade.price.toString(),
+      fee: (trade.fee ?? 0).toString(),
       timestamp: trade.timestamp.toISOString(),
     })),
   };
@@ -68,13 +93,21 @@ export class PositionsController {
     summary: 'Get all positions',
     description: 'Retrieves all trading positions (currently returns open positions).',
   })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['LIVE', 'PAPER'],
+    description: 'Only return LIVE or PAPER positions',
+  })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved positions',
     type: [PositionDto],
   })
-  async getAllPositions(): Promise<PositionDto[]> {
-    const positions = await this.positionsService.getOpenPositions();
+  async getAllPositions(
+    @Query('mode', parseTradingMode()) mode?: TradingMode,
+  ): Promise<PositionDto[]> {
+    const positions = await this.positionsService.getOpenPositions(mode);
     return positions.map(mapPositionToDto);
   }
 
@@ -83,13 +116,21 @@ export class PositionsController {
     summary: 'Get open positions',
     description: 'Retrieves all currently open trading positions.',
   })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['LIVE', 'PAPER'],
+    description: 'Only return LIVE or PAPER positions',
+  })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved open positions',
     type: [PositionDto],
   })
-  async getOpenPositions(): Promise<PositionDto[]> {
-    const positions = await this.positionsService.getOpenPositions();
+  async getOpenPositions(
+    @Query('mode', parseTradingMode()) mode?: TradingMode,
+  ): Promise<PositionDto[]> {
+    const positions = await this.positionsService.getOpenPositions(mode);
     return positions.map(mapPositionToDto);
   }
 
@@ -105,35 +146,46 @@ export class PositionsController {
     description: 'Maximum number of closed positions to return (default: 50)',
     example: 50,
   })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['LIVE', 'PAPER'],
+    description: 'Only return LIVE or PAPER positions',
+  })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved closed positions',
     type: [PositionDto],
   })
-  async getClosedPositions(@Query('limit') limit: number = 50): Promise<PositionDto[]> {
-    const positions = await this.positionsService.getClosedPositions(limit);
+  async getClosedPositions(
+    @Query('limit') limit: number = 50,
+    @Query('mode', parseTradingMode()) mode?: TradingMode,
+  ): Promise<PositionDto[]> {
+    const positions = await this.positionsService.getClosedPositions(limit, mode);
     return positions.map(mapPositionToDto);
   }
 
   @Get('stats')
   @ApiOperation({
     summary: 'Get portfolio statistics',
-    description: 'Retrieves overall portfolio performance statistics.',
+    description:
+      'Retrieves portfolio performance: realized PnL from SELL trades, unrealized PnL of open positions, fees and close reasons.',
+  })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['LIVE', 'PAPER'],
+    description: 'Only return LIVE or PAPER positions',
   })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved portfolio stats',
     type: PortfolioStats,
   })
-  async getPortfolioStats(): Promise<{
-    totalPositions: number;
-    totalValue: number;
-    totalPnl: number;
-    avgPnl: number;
-    winningPositions: number;
-    losingPositions: number;
-  }> {
-    return await this.positionsService.getPortfolioStats();
+  async getPortfolioStats(
+    @Query('mode', parseTradingMode()) mode?: TradingMode,
+  ): Promise<PortfolioStatsData> {
+    return await this.positionsService.getPortfolioStats(mode);
   }
 
   @Get(':id')
@@ -170,13 +222,22 @@ export class PositionsController {
     description: 'Token mint address',
     example: 'So11111111111111111111111111111111111111112',
   })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['LIVE', 'PAPER'],
+    description: 'Only return LIVE or PAPER positions',
+  })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved token positions',
     type: [PositionDto],
   })
-  async getPositionsByToken(@Param('token') token: string): Promise<PositionDto[]> {
-    const positions = await this.positionsService.getPositionsByToken(token);
+  async getPositionsByToken(
+    @Param('token') token: string,
+    @Query('mode', parseTradingMode()) mode?: TradingMode,
+  ): Promise<PositionDto[]> {
+    const positions = await this.positionsService.getPositionsByToken(token, mode);
     return positions.map(mapPositionToDto);
   }
 
@@ -216,7 +277,9 @@ export class PositionsController {
   @Post(':id/close')
   @ApiOperation({
     summary: 'Close position',
-    description: 'Manually closes an open position at the specified price.',
+    description:
+      'Manually closes an open position at the specified price, recording a SELL of the ' +
+      'remaining amount at that price.',
   })
   @ApiParam({
     name: 'id',
@@ -242,9 +305,11 @@ export class PositionsController {
     description: 'Successfully closed position',
     type: PositionDto,
   })
+  @ApiResponse({ status: 404, description: 'Position not found' })
+  @ApiResponse({ status: 409, description: 'Position is not open' })
   async closePosition(
     @Param('id') id: string,
-    @Body() body: { exitPrice: number; reason: 'TAKE_PROFIT' | 'STOP_LOSS' | 'MANUAL' | 'TIMEOUT' },
+    @Body() body: { exitPrice: number; reason: CloseReason },
   ): Promise<PositionDto> {
     const position = await this.positionsService.closePosition(id, body.exitPrice, body.reason);
     return mapPositionToDto(position);
@@ -0,0 +1,122 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { PositionsService } from './positions.service';
+
+interface StoredPosition {
+  id: string;
+  token: string;
+  amount: number;
+  entryPrice: number;
+  currentPrice: number;
+  status: string;
+  mode: string;
+  trades: { type: string; amount: number; price: number; fee: number; signature: string }[];
+  [field: string]: unknown;
+}
+
+/**
+ * Prisma stand-in for the calls the repositories make
+ */
+function createPrisma(positions: StoredPosition[]) {
+  const byId = new Map(positions.map((position) => [position.id, position]));
+  const tx = {
+    position: {
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const position = byId.get(where.id);
+        return position ? { ...position, takeProfitLevels: [] } : null;
+      },
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; status: string };
+        data: object;
+      }) => {
+        const position = byId.get(where.id);
+        if (position?.status !== where.status) return { count: 0 };
+        Object.assign(position, data);
+        return { count: 1 };
+      },
+      update: async ({ where, data }: { where: { id: string }; data: object }) => {
+        const position = Object.assign(byId.get(where.id)!, data);
+        return { ...position, takeProfitLevels: [] };
+      },
+    },
+    trade: {
+      create: async ({
+        data,
+      }: {
+        data: StoredPosition['trades'][number] & { positionId: string };
+      }) => {
+        byId.get(data.positionId)!.trades.push(data);
+        return { id: `trade-${data.signature}`, ...data };
+      },
+    },
+  };
+
+  return {
+    $transaction: async (write: (client: typeof tx) => Promise<unknown>) => await write(tx),
+    byId,
+  };
+}
+
+describe('PositionsService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let service: PositionsService;
+
+  beforeEach(() => {
+    prisma = createPrisma([
+      {
+        id: 'position-1',
+        token: 'token',
+        amount: 400,
+        entryPrice: 0.025,
+        currentPrice: 0.02,
+        status: 'OPEN',
+        mode: 'PAPER',
+        trades: [{ type: 'BUY', amount: 400, price: 0.025, fee: 0, signature: 'buy' }],
+      },
+    ]);
+    service = new PositionsService(prisma as unknown as PrismaService);
+  });
+
+  describe('closePosition', () => {
+    it('should sell the remaining amount at the exit price and count it in the PnL', async () => {
+      const position = await service.closePosition('position-1', 0.03, 'MANUAL');
+
+      expect(prisma.byId.get('position-1')!.trades[1]).toEqual({
+        positionId: 'position-1',
+        type: 'SELL',
+        amount: 400,
+        price: 0.03,
+        signature: 'manual-position-1',
+        slippage: 0,
+        fee: 0,
+        mode: 'PAPER',
+      });
+      expect(position).toMatchObject({
+        status: 'CLOSED',
+        closeReason: 'MANUAL',
+        currentPrice: 0.03,
+        pnl: expect.closeTo(2),
+        realizedPnl: expect.closeTo(2),
+        pnlPercent: expect.closeTo(20),
+      });
+    });
+
+    it('should reject unknown positions', async () => {
+      await expect(service.closePosition('position-2', 0.03, 'MANUAL')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+
+    it('should not close a position twice', async () => {
+      await service.closePosition('position-1', 0.03, 'MANUAL');
+
+      await expect(service.closePosition('position-1', 0.04, 'MANUAL')).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(prisma.byId.get('position-1')!.trades).toHaveLength(2);
+    });
+  });
+});
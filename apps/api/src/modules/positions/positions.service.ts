@@ -1,7 +1,14 @@
-import { Injectable } from '@nestjs/common';
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
 import { Inject } from '@nestjs/common';
-import { PositionRepository } from '@solana-eda/database';
-import type { Position, PositionWithTrades } from '@solana-eda/database';
+import { PositionRepository, TradeRepository } from '@solana-eda/database';
+import type {
+  PrismaClient,
+  CloseReason,
+  PortfolioStats,
+  Position,
+  PositionWithTrades,
+  TradingMode,
+} from '@solana-eda/database';
 import { PrismaService } from '../../prisma/prisma.service';
 
 @Injectable()
@@ -12,71 +19,71 @@ export class PositionsService {
 
   private positionRepo: PositionRepository;
 
-  async getAllPositions(): Promise<PositionWithTrades[]> {
-    return this.positionRepo.findOpenPositions();
+  async getAllPositions(mode?: TradingMode): Promise<PositionWithTrades[]> {
+    return this.positionRepo.findOpenPositions(mode);
   }
 
-  async getOpenPositions(): Promise<PositionWithTrades[]> {
-    return await this.positionRepo.findOpenPositions();
+  async getOpenPositions(mode?: TradingMode): Promise<PositionWithTrades[]> {
+    return await this.positionRepo.findOpenPositions(mode);
   }
 
-  async getClosedPositions(limit: number = 50): Promise<PositionWithTrades[]> {
-    return await this.positionRepo.findClosedPositions(limit);
+  async getClosedPositions(limit: number = 50, mode?: TradingMode): Promise<PositionWithTrades[]> {
+    return await this.positionRepo.findClosedPositions(limit, mode);
   }
 
   async getPositionById(id: string): Promise<PositionWithTrades | null> {
     return await this.positionRepo.findById(id);
   }
 
-  async getPositionsByToken(token: string): Promise<PositionWithTrades[]> {
-    return await this.positionRepo.findByToken(token);
+  async getPositionsByToken(token: string, mode?: TradingMode): Promise<PositionWithTrades[]> {
+    return await this.positionRepo.findByToken(token, mode);
   }
 
   async updatePositionPrice(id: string, currentPrice: number): Promise<Position | null> {
     return await this.positionRepo.updateCurrentPrice(id, currentPrice);
   }
 
+  /**
+   * Close an open position at exitPrice
+   * The remaining amount is recorded as a manual SELL at exitPrice in the same transaction,
+   * so the exit counts in the position's PnL.
+   */
   async closePosition(
     id: string,
     exitPrice: number,
-    reason: 'TAKE_PROFIT' | 'STOP_LOSS' | 'MANUAL' | 'TIMEOUT',
+    reason: CloseReason,
   ): Promise<PositionWithTrades> {
-    return await this.positionRepo.closePosition(id, exitPrice, reason);
+    return await this.prisma.$transaction(async (tx) => {
+      const client = tx as unknown as PrismaClient;
+      const positions = new PositionRepository(client);
+
+      const position = await positions.findById(id);
+      if (!position) {
+        throw new NotFoundException(`Position ${id} not found`);
+      }
+      if (!(await positions.claimForClose(id))) {
+        throw new ConflictException(`Position ${id} is ${position.status}, not OPEN`);
+      }
+
+      await new TradeRepository(client).create({
+        positionId: id,
+        type: 'SELL',
+        amount: Number(position.amount),
+        price: exitPrice,
+        signature: `manual-${id}`,
+        slippage: 0,
+        fee: 0,
+        mode: position.mode,
+      });
+      return await positions.closePosition(id, exitPrice, reason);
+    });
   }
 
   async getOpenPositionCount(): Promise<number> {
     return await this.positionRepo.countOpenPositions();
   }
 
-  async getPortfolioStats() {
-    const positions = await this.positionRepo.findOpenPositions();
-
-    let totalValue = 0;
-    let totalPnl = 0;
-    let winningPositions = 0;
-    let losingPositions = 0;
-
-    for (const position of positions) {
-      const value = Number(position.amount) * Number(position.currentPrice);
-      totalValue += value;
-      totalPnl += Number(position.pnl);
-
-      if (Number(position.pnl) > 0) {
-        winningPositions++;
-      } else {
-        losingPositions++;
-      }
-    }
-
-    const avgPnl = positions.length > 0 ? totalPnl / positions.length : 0;
-
-    return {
-      totalPositions: positions.length,
-      totalValue,
-      totalPnl,
-      avgPnl,
-      winningPositions,
-      losingPositions,
-    };
+  async getPortfolioStats(mode?: TradingMode): Promise<PortfolioStats> {
+    return await this.positionRepo.getPortfolioStats(mode);
   }
 }
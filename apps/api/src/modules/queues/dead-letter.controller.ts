@@ -0,0 +1,201 @@
+import { Body, Controller, Delete, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { DeadLetterService } from './dead-letter.service';
+
+class DeadLetterEntry {
+  id!: string;
+  originalEvent!: Record<string, unknown>;
+  error!: string;
+  errorType!: string;
+  timestamp!: string;
+  retryCount!: number;
+  lastRetryAt?: string;
+  /** jobId, jobName, queueName, attemptsMade, retryable and source of the failed job */
+  metadata?: Record<string, unknown>;
+}
+
+class DeadLetterStats {
+  total!: number;
+  byErrorType!: Record<string, number>;
+  byRetryCount!: Record<string, number>;
+}
+
+class DeadLetterRetryResult {
+  id!: string;
+  success!: boolean;
+  error?: string;
+  queueName?: string;
+}
+
+class DeadLetterRetryInput {
+  ids!: string[];
+}
+
+@ApiTags('queues')
+@Controller('api/queues/dlq')
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get dead-letter entries',
+    description: 'Retrieves events that failed permanently or ran out of attempts, newest first.',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of entries to return (default: 100)',
+    example: 100,
+  })
+  @ApiQuery({
+    name: 'offset',
+    required: false,
+    type: Number,
+    description: 'Number of entries to skip (default: 0)',
+    example: 0,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved dead-letter entries',
+    type: [DeadLetterEntry],
+  })
+  async list(@Query('limit') limit: number = 100, @Query('offset') offset: number = 0) {
+    return await this.deadLetterService.list(Number(limit), Number(offset));
+  }
+
+  @Get('stats')
+  @ApiOperation({
+    summary: 'Get dead-letter statistics',
+    description: 'Counts entries by error type and by retry count.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved dead-letter statistics',
+    type: DeadLetterStats,
+  })
+  async getStats() {
+    return await this.deadLetterService.getStats();
+  }
+
+  @Post('retry')
+  @ApiOperation({
+    summary: 'Retry several dead-letter entries',
+    description: 'Re-enqueues each event onto the queue that owns its type.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['ids'],
+      properties: {
+        ids: { type: 'array', items: { type: 'string' }, example: ['dlq-1760880000000-abc123'] },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Retry result per entry',
+    type: [DeadLetterRetryResult],
+  })
+  async retryMany(@Body() body: DeadLetterRetryInput) {
+    return await this.deadLetterService.retryMany(body.ids ?? []);
+  }
+
+  @Delete()
+  @ApiOperation({
+    summary: 'Purge the dead-letter queue',
+    description: 'Removes every entry, or only entries past the retention period.',
+  })
+  @ApiQuery({
+    name: 'expired',
+    required: false,
+    type: Boolean,
+    description: 'Only remove expired entries (default: false)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of removed entries',
+    schema: { type: 'object', properties: { purged: { type: 'number', example: 12 } } },
+  })
+  async purge(@Query('expired') expired?: string) {
+    return await this.deadLetterService.purge(expired === 'true');
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get dead-letter entry by ID',
+    description: 'Retrieves a failed event with its error and job metadata.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Dead-letter entry ID',
+    example: 'dlq-1760880000000-abc123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved dead-letter entry',
+    type: DeadLetterEntry,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entry not found',
+  })
+  async get(@Param('id') id: string) {
+    return await this.deadLetterService.get(id);
+  }
+
+  @Post(':id/retry')
+  @ApiOperation({
+    summary: 'Retry a dead-letter entry',
+    description:
+      'Re-enqueues the original event onto the queue that owns its type. ' +
+      'The entry is removed once the job is queued.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Dead-letter entry ID',
+    example: 'dlq-1760880000000-abc123',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Retry result',
+    type: DeadLetterRetryResult,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entry not found',
+  })
+  async retry(@Param('id') id: string) {
+    return await this.deadLetterService.retry(id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Remove a dead-letter entry',
+    description: 'Drops a failed event without retrying it.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Dead-letter entry ID',
+    example: 'dlq-1760880000000-abc123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Entry removed',
+    schema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', example: 'dlq-1760880000000-abc123' },
+        removed: { type: 'boolean', example: true },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entry not found',
+  })
+  async remove(@Param('id') id: string) {
+    await this.deadLetterService.remove(id);
+    return { id, removed: true };
+  }
+}
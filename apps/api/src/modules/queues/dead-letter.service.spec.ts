@@ -0,0 +1,151 @@
+import { NotFoundException } from '@nestjs/common';
+import type { DeadLetterEvent, DeadLetterQueue } from '@solana-eda/error-handling';
+import { QUEUES } from '@solana-eda/events';
+import type { BullMQWorkerManager } from '../../bullmq';
+import { DeadLetterService } from './dead-letter.service';
+
+const burnEvent = {
+  type: 'BURN_DETECTED',
+  timestamp: '2026-10-19T12:00:00.000Z',
+  id: 'burn-1',
+  eventId: 'event-1',
+  schemaVersion: 1,
+  data: {
+    token: 'token',
+    amount: '1000',
+    percentage: 10,
+    txSignature: 'signature-1',
+    burner: 'burner',
+    preSupply: '10000',
+    postSupply: '9000',
+  },
+};
+
+function deadLetter(id: string, originalEvent: unknown, queueName?: string): DeadLetterEvent {
+  return {
+    id,
+    originalEvent,
+    error: 'Token not found',
+    errorType: 'NotFoundError',
+    timestamp: '2026-10-19T12:00:01.000Z',
+    retryCount: 0,
+    metadata: { queueName },
+  };
+}
+
+/**
+ * Dead letter queue stand-in that drops an entry once its retry function succeeds
+ */
+function createDeadLetterQueue(entries: DeadLetterEvent[]) {
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  return {
+    byId,
+    get: async (id: string) => byId.get(id) ?? null,
+    retry: async (id: string, retryFn: (event: unknown) => Promise<void>) => {
+      const entry = byId.get(id);
+      if (!entry) return { success: false, error: 'Event not found in DLQ' };
+      try {
+        await retryFn(entry.originalEvent);
+        byId.delete(id);
+        return { success: true };
+      } catch (error) {
+        entry.error = (error as Error).message;
+        return { success: false, error: entry.error };
+      }
+    },
+  };
+}
+
+function createService(entries: DeadLetterEvent[]) {
+  const added: { queueName: string; name: string; data: unknown; opts: { jobId?: string } }[] = [];
+  const workerManager = {
+    getQueue: (queueName: string) => ({
+      add: async (name: string, data: unknown, opts: { jobId?: string }) => {
+        added.push({ queueName, name, data, opts });
+      },
+    }),
+  };
+  const deadLetterQueue = createDeadLetterQueue(entries);
+
+  const service = new DeadLetterService(
+    deadLetterQueue as unknown as DeadLetterQueue,
+    workerManager as unknown as BullMQWorkerManager,
+  );
+  return { service, added, deadLetterQueue };
+}
+
+describe('DeadLetterService', () => {
+  describe('retry', () => {
+    it('should requeue the event onto the owning queue it failed on under a fresh job id', async () => {
+      const { service, added, deadLetterQueue } = createService([
+        deadLetter('dlq-1', burnEvent, QUEUES.TRADING_BURN_EVENTS),
+      ]);
+
+      expect(await service.retry('dlq-1')).toEqual({
+        id: 'dlq-1',
+        success: true,
+        queueName: QUEUES.TRADING_BURN_EVENTS,
+      });
+      expect(added).toEqual([
+        {
+          queueName: QUEUES.TRADING_BURN_EVENTS,
+          name: 'BURN_DETECTED',
+          data: {
+            event: burnEvent,
+            metadata: { source: 'dlq-retry', timestamp: expect.any(String) },
+          },
+          opts: expect.objectContaining({ jobId: 'event-1-retry-dlq-1' }),
+        },
+      ]);
+      expect(deadLetterQueue.byId.has('dlq-1')).toBe(false);
+    });
+
+    it('should fall back to the first queue of the route when the failed queue does not carry the type', async () => {
+      const { service, added } = createService([
+        deadLetter('dlq-1', burnEvent, QUEUES.PRICE_EVENTS),
+        deadLetter('dlq-2', burnEvent),
+      ]);
+
+      await service.retry('dlq-1');
+      await service.retry('dlq-2');
+
+      expect(added.map((job) => job.queueName)).toEqual([QUEUES.BURN_EVENTS, QUEUES.BURN_EVENTS]);
+      expect(added.map((job) => job.opts.jobId)).toEqual([
+        'event-1-retry-dlq-1',
+        'event-1-retry-dlq-2',
+      ]);
+    });
+
+    it('should keep an entry whose event has no route', async () => {
+      const { service, added, deadLetterQueue } = createService([
+        deadLetter('dlq-1', { ...burnEvent, type: 'UNKNOWN' }),
+      ]);
+
+      expect(await service.retry('dlq-1')).toEqual({
+        id: 'dlq-1',
+        success: false,
+        error: 'No route for event type: UNKNOWN',
+        queueName: undefined,
+      });
+      expect(added).toEqual([]);
+      expect(deadLetterQueue.byId.get('dlq-1')?.error).toBe('No route for event type: UNKNOWN');
+    });
+
+    it('should reject unknown entries', async () => {
+      const { service } = createService([]);
+
+      await expect(service.retry('dlq-1')).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('retryMany', () => {
+    it('should report unknown entries as failed and retry the others', async () => {
+      const { service } = createService([deadLetter('dlq-1', burnEvent)]);
+
+      expect(await service.retryMany(['dlq-1', 'dlq-2'])).toEqual([
+        { id: 'dlq-1', success: true, queueName: QUEUES.BURN_EVENTS },
+        { id: 'dlq-2', success: false, error: 'Dead-letter entry dlq-2 not found' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import type { DeadLetterEvent, DeadLetterQueue } from '@solana-eda/error-handling';
+import {
+  getEventJobOptions,
+  getEventRoute,
+  parseRoutedEvent,
+  type QueueName,
+} from '@solana-eda/events';
+import { BULLMQ_WORKER_MANAGER, BullMQWorkerManager, DEAD_LETTER_QUEUE } from '../../bullmq';
+
+export interface DeadLetterRetryResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  /** Queue the event was re-enqueued onto */
+  queueName?: QueueName;
+}
+
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  constructor(
+    @Inject(DEAD_LETTER_QUEUE) private deadLetterQueue: DeadLetterQueue,
+    @Inject(BULLMQ_WORKER_MANAGER) private workerManager: BullMQWorkerManager,
+  ) {}
+
+  async list(limit: number = 100, offset: number = 0): Promise<DeadLetterEvent[]> {
+    return await this.deadLetterQueue.getAll(limit, offset);
+  }
+
+  async getStats() {
+    return await this.deadLetterQueue.getStats();
+  }
+
+  async get(id: string): Promise<DeadLetterEvent> {
+    const entry = await this.deadLetterQueue.get(id);
+    if (!entry) {
+      throw new NotFoundException(`Dead-letter entry ${id} not found`);
+    }
+    return entry;
+  }
+
+  /**
+   * Re-enqueue a dead-lettered event onto the queue that owns its type
+   * The entry leaves the DLQ once the job is queued; a failed retry stays with its new error.
+   */
+  async retry(id: string): Promise<DeadLetterRetryResult> {
+    const entry = await this.get(id);
+    let queueName: QueueName | undefined;
+
+    const result = await this.deadLetterQueue.retry(id, async (event) => {
+      queueName = await this.requeue(id, event, entry.metadata?.queueName);
+    });
+
+    if (!result.success) {
+      this.logger.warn(`Retry of dead-letter entry ${id} failed: ${result.error}`);
+    }
+    return { id, ...result, queueName: result.success ? queueName : undefined };
+  }
+
+  /**
+   * Retry several entries one after another, unknown ids are reported as failed
+   */
+  async retryMany(ids: string[]): Promise<DeadLetterRetryResult[]> {
+    const results: DeadLetterRetryResult[] = [];
+    for (const id of ids) {
+      try {
+        results.push(await this.retry(id));
+      } catch (error) {
+        results.push({ id, success: false, error: (error as Error).message });
+      }
+    }
+    return results;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.get(id);
+    await this.deadLetterQueue.remove(id);
+  }
+
+  /**
+   * Drop every entry, or only the ones past the retention period
+   */
+  async purge(expiredOnly: boolean = false): Promise<{ purged: number }> {
+    const purged = expiredOnly
+      ? await this.deadLetterQueue.cleanup()
+      : await this.deadLetterQueue.clear();
+    return { purged };
+  }
+
+  /**
+   * The event goes back to the queue it failed on when that queue still carries its type,
+   * otherwise to the first queue of its route
+   */
+  private async requeue(dlqId: string, data: unknown, failedQueue: unknown): Promise<QueueName> {
+    const event = parseRoutedEvent(data);
+    const { queues } = getEventRoute(event.type);
+    const queueName = queues.find((queue) => queue === failedQueue) ?? queues[0]!;
+    const jobOptions = getEventJobOptions(event);
+
+    await this.workerManager.getQueue(queueName).add(
+      event.type,
+      { event, metadata: { source: 'dlq-retry', timestamp: new Date().toISOString() } },
+      // A fresh job id, the original one may still be held by the failed job
+      { ...jobOptions, jobId: `${jobOptions.jobId}-retry-${dlqId}` },
+    );
+    return queueName;
+  }
+}
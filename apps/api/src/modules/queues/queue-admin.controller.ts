@@ -0,0 +1,248 @@
+import { Body, Controller, Get, Headers, Param, Post, Query } from '@nestjs/common';
+import {
+  ApiBody,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { QueueAuditLog } from '@solana-eda/database';
+import { JOB_STATES, QueueAdminService, type CleanQueueInput } from './queue-admin.service';
+
+class JobDetailsDTO {
+  id?: string;
+  name!: string;
+  state!: string;
+  data!: Record<string, unknown>;
+  opts!: Record<string, unknown>;
+  attemptsMade!: number;
+  failedReason?: string;
+  stacktrace!: string[];
+  returnvalue!: unknown;
+  timestamp!: string;
+  processedOn?: string;
+  finishedOn?: string;
+  delay!: number;
+}
+
+class QueueAuditLogDTO {
+  id!: string;
+  action!: 'PAUSE' | 'RESUME' | 'DRAIN' | 'RETRY_FAILED' | 'CLEAN' | 'PROMOTE';
+  queueName!: string;
+  actor?: string | null;
+  params?: Record<string, unknown> | null;
+  result?: Record<string, unknown> | null;
+  success!: boolean;
+  error?: string | null;
+  createdAt!: string;
+}
+
+const QUEUE_NAME_PARAM = {
+  name: 'queueName',
+  description: 'Name of the queue (e.g., solana:burn-events, solana:trade-events)',
+  example: 'solana:burn-events',
+};
+
+const OPERATOR_HEADER = {
+  name: 'x-operator',
+  required: false,
+  description: 'Who is making the change, recorded in the audit log',
+};
+
+@ApiTags('queues')
+@Controller('api/queues')
+export class QueueAdminController {
+  constructor(private readonly queueAdminService: QueueAdminService) {}
+
+  @Get('audit')
+  @ApiOperation({
+    summary: 'Get queue audit log',
+    description: 'Retrieves recent administrative operations on queues, newest first.',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of entries to return (default: 50)',
+    example: 50,
+  })
+  @ApiQuery({
+    name: 'queueName',
+    required: false,
+    description: 'Only entries for this queue',
+    example: 'solana:burn-events',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved audit log',
+    type: [QueueAuditLogDTO],
+  })
+  async getAuditLog(
+    @Query('limit') limit: number = 50,
+    @Query('queueName') queueName?: string,
+  ): Promise<QueueAuditLog[]> {
+    return await this.queueAdminService.getAuditLog(Number(limit), queueName);
+  }
+
+  @Post(':queueName/pause')
+  @ApiOperation({
+    summary: 'Pause a queue',
+    description: 'Workers stop picking up new jobs; active jobs finish.',
+  })
+  @ApiParam(QUEUE_NAME_PARAM)
+  @ApiHeader(OPERATOR_HEADER)
+  @ApiResponse({ status: 201, description: 'Queue paused' })
+  @ApiResponse({ status: 404, description: 'Queue not found' })
+  async pause(@Param('queueName') queueName: string, @Headers('x-operator') operator?: string) {
+    return await this.queueAdminService.pause(queueName, operator);
+  }
+
+  @Post(':queueName/resume')
+  @ApiOperation({
+    summary: 'Resume a queue',
+    description: 'Workers pick up jobs again.',
+  })
+  @ApiParam(QUEUE_NAME_PARAM)
+  @ApiHeader(OPERATOR_HEADER)
+  @ApiResponse({ status: 201, description: 'Queue resumed' })
+  @ApiResponse({ status: 404, description: 'Queue not found' })
+  async resume(@Param('queueName') queueName: string, @Headers('x-operator') operator?: string) {
+    return await this.queueAdminService.resume(queueName, operator);
+  }
+
+  @Post(':queueName/drain')
+  @ApiOperation({
+    summary: 'Drain a queue',
+    description: 'Removes all waiting jobs, and delayed jobs when `delayed=true`.',
+  })
+  @ApiParam(QUEUE_NAME_PARAM)
+  @ApiQuery({
+    name: 'delayed',
+    required: false,
+    type: Boolean,
+    description: 'Also remove delayed jobs (default: false)',
+  })
+  @ApiHeader(OPERATOR_HEADER)
+  @ApiResponse({ status: 201, description: 'Queue drained' })
+  @ApiResponse({ status: 404, description: 'Queue not found' })
+  async drain(
+    @Param('queueName') queueName: string,
+    @Query('delayed') delayed?: string,
+    @Headers('x-operator') operator?: string,
+  ) {
+    return await this.queueAdminService.drain(queueName, delayed === 'true', operator);
+  }
+
+  @Post(':queueName/retry-failed')
+  @ApiOperation({
+    summary: 'Retry failed jobs',
+    description: 'Moves every failed job of the queue back to waiting.',
+  })
+  @ApiParam(QUEUE_NAME_PARAM)
+  @ApiHeader(OPERATOR_HEADER)
+  @ApiResponse({ status: 201, description: 'Failed jobs retried' })
+  @ApiResponse({ status: 404, description: 'Queue not found' })
+  async retryFailed(
+    @Param('queueName') queueName: string,
+    @Headers('x-operator') operator?: string,
+  ) {
+    return await this.queueAdminService.retryFailed(queueName, operator);
+  }
+
+  @Post(':queueName/clean')
+  @ApiOperation({
+    summary: 'Clean finished jobs',
+    description: 'Removes completed or failed jobs that finished more than N minutes ago.',
+  })
+  @ApiParam(QUEUE_NAME_PARAM)
+  @ApiHeader(OPERATOR_HEADER)
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['status', 'olderThanMinutes'],
+      properties: {
+        status: { type: 'string', enum: ['completed', 'failed'], example: 'completed' },
+        olderThanMinutes: { type: 'number', example: 1440 },
+        limit: { type: 'number', description: '0 removes all matching jobs', example: 1000 },
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Jobs removed' })
+  @ApiResponse({ status: 400, description: 'Invalid status, age or limit' })
+  @ApiResponse({ status: 404, description: 'Queue not found' })
+  async clean(
+    @Param('queueName') queueName: string,
+    @Body() body: CleanQueueInput,
+    @Headers('x-operator') operator?: string,
+  ) {
+    return await this.queueAdminService.clean(queueName, body, operator);
+  }
+
+  @Post(':queueName/promote')
+  @ApiOperation({
+    summary: 'Promote delayed jobs',
+    description: 'Moves every delayed job to waiting so it runs now.',
+  })
+  @ApiParam(QUEUE_NAME_PARAM)
+  @ApiHeader(OPERATOR_HEADER)
+  @ApiResponse({ status: 201, description: 'Delayed jobs promoted' })
+  @ApiResponse({ status: 404, description: 'Queue not found' })
+  async promote(@Param('queueName') queueName: string, @Headers('x-operator') operator?: string) {
+    return await this.queueAdminService.promoteDelayed(queueName, operator);
+  }
+
+  @Get(':queueName/jobs')
+  @ApiOperation({
+    summary: 'Get jobs of a queue',
+    description: 'Retrieves jobs in a given state with their failure reason and stack trace.',
+  })
+  @ApiParam(QUEUE_NAME_PARAM)
+  @ApiQuery({
+    name: 'state',
+    required: false,
+    enum: JOB_STATES,
+    description: 'Job state (default: failed)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of jobs to return (default: 50)',
+    example: 50,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved jobs',
+    type: [JobDetailsDTO],
+  })
+  @ApiResponse({ status: 404, description: 'Queue not found' })
+  async getJobs(
+    @Param('queueName') queueName: string,
+    @Query('state') state: string = 'failed',
+    @Query('limit') limit: number = 50,
+  ) {
+    return await this.queueAdminService.getJobs(queueName, state, Number(limit));
+  }
+
+  @Get(':queueName/jobs/:jobId')
+  @ApiOperation({
+    summary: 'Get a job',
+    description: 'Retrieves a job with its data, options, failure reason and stack trace.',
+  })
+  @ApiParam(QUEUE_NAME_PARAM)
+  @ApiParam({
+    name: 'jobId',
+    description: 'BullMQ job ID, the event id for routed events',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved job',
+    type: JobDetailsDTO,
+  })
+  @ApiResponse({ status: 404, description: 'Queue or job not found' })
+  async getJob(@Param('queueName') queueName: string, @Param('jobId') jobId: string) {
+    return await this.queueAdminService.getJob(queueName, jobId);
+  }
+}
@@ -0,0 +1,74 @@
+import type { QueueAuditLogData } from '@solana-eda/database';
+import { QUEUES } from '@solana-eda/events';
+import type { BullMQWorkerManager } from '../../bullmq';
+import type { PrismaService } from '../../prisma/prisma.service';
+import { QueueAdminService } from './queue-admin.service';
+
+function createService(options: { failPause?: boolean; failAudit?: boolean } = {}) {
+  const audits: QueueAuditLogData[] = [];
+  const prisma = {
+    queueAuditLog: {
+      create: async ({ data }: { data: QueueAuditLogData }) => {
+        if (options.failAudit) throw new Error('database unavailable');
+        audits.push(data);
+        return data;
+      },
+    },
+  };
+  const queue = {
+    name: QUEUES.BURN_EVENTS,
+    pause: async () => {
+      if (options.failPause) throw new Error('Redis unavailable');
+    },
+  };
+  const workerManager = { getQueue: () => queue };
+
+  const service = new QueueAdminService(
+    prisma as unknown as PrismaService,
+    workerManager as unknown as BullMQWorkerManager,
+  );
+  return { service, audits };
+}
+
+describe('QueueAdminService', () => {
+  it('should audit a queue change with its result', async () => {
+    const { service, audits } = createService();
+
+    expect(await service.pause(QUEUES.BURN_EVENTS, 'ops')).toEqual({
+      paused: true,
+      queueName: QUEUES.BURN_EVENTS,
+    });
+    expect(audits).toEqual([
+      expect.objectContaining({
+        action: 'PAUSE',
+        actor: 'ops',
+        result: { paused: true },
+        success: true,
+      }),
+    ]);
+  });
+
+  it('should report a queue change that happened even when auditing it fails', async () => {
+    const { service } = createService({ failAudit: true });
+
+    expect(await service.pause(QUEUES.BURN_EVENTS)).toEqual({
+      paused: true,
+      queueName: QUEUES.BURN_EVENTS,
+    });
+  });
+
+  it('should audit a failed queue change and rethrow its error', async () => {
+    const { service, audits } = createService({ failPause: true });
+
+    await expect(service.pause(QUEUES.BURN_EVENTS)).rejects.toThrow('Redis unavailable');
+    expect(audits).toEqual([
+      expect.objectContaining({ action: 'PAUSE', success: false, error: 'Redis unavailable' }),
+    ]);
+  });
+
+  it('should keep the error of a failed queue change when auditing it fails', async () => {
+    const { service } = createService({ failPause: true, failAudit: true });
+
+    await expect(service.pause(QUEUES.BURN_EVENTS)).rejects.toThrow('Redis unavailable');
+  });
+});
@@ -0,0 +1,227 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  QueueAuditLogRepository,
+  type QueueAuditLog,
+  type QueueAuditLogData,
+} from '@solana-eda/database';
+import { QUEUES, type QueueName } from '@solana-eda/events';
+import type { Job, JobType, Queue } from 'bullmq';
+import { BULLMQ_WORKER_MANAGER, BullMQWorkerManager } from '../../bullmq';
+import { PrismaService } from '../../prisma/prisma.service';
+
+export type QueueAdminAction = 'PAUSE' | 'RESUME' | 'DRAIN' | 'RETRY_FAILED' | 'CLEAN' | 'PROMOTE';
+
+export const JOB_STATES = [
+  'waiting',
+  'active',
+  'delayed',
+  'prioritized',
+  'paused',
+  'completed',
+  'failed',
+] as const satisfies readonly JobType[];
+
+export type JobState = (typeof JOB_STATES)[number];
+
+export const CLEANABLE_STATES = ['completed', 'failed'] as const;
+
+export interface CleanQueueInput {
+  status: (typeof CLEANABLE_STATES)[number];
+  /** Only jobs that finished longer ago than this are removed */
+  olderThanMinutes: number;
+  /** Maximum number of jobs to remove, 0 removes all matching jobs */
+  limit?: number;
+}
+
+export interface JobDetails {
+  id?: string;
+  name: string;
+  state: string;
+  data: unknown;
+  opts: unknown;
+  attemptsMade: number;
+  failedReason?: string;
+  stacktrace: string[];
+  returnvalue: unknown;
+  timestamp: string;
+  processedOn?: string;
+  finishedOn?: string;
+  delay: number;
+}
+
+/**
+ * Administrative operations on the BullMQ queues in QUEUES
+ * Every operation that changes a queue is written to the queue audit log,
+ * including the ones that fail.
+ */
+@Injectable()
+export class QueueAdminService {
+  private readonly logger = new Logger(QueueAdminService.name);
+  private auditLogRepo: QueueAuditLogRepository;
+
+  constructor(
+    @Inject('PRISMA') private prisma: PrismaService,
+    @Inject(BULLMQ_WORKER_MANAGER) private workerManager: BullMQWorkerManager,
+  ) {
+    this.auditLogRepo = new QueueAuditLogRepository(this.prisma);
+  }
+
+  async pause(queueName: string, actor?: string) {
+    const queue = this.getQueue(queueName);
+    return await this.audited('PAUSE', queue.name, actor, {}, async () => {
+      await queue.pause();
+      return { paused: true };
+    });
+  }
+
+  async resume(queueName: string, actor?: string) {
+    const queue = this.getQueue(queueName);
+    return await this.audited('RESUME', queue.name, actor, {}, async () => {
+      await queue.resume();
+      return { paused: false };
+    });
+  }
+
+  /**
+   * Remove waiting jobs, and delayed jobs too when `delayed` is set
+   */
+  async drain(queueName: string, delayed: boolean, actor?: string) {
+    const queue = this.getQueue(queueName);
+    return await this.audited('DRAIN', queue.name, actor, { delayed }, async () => {
+      const types = delayed
+        ? (['wait', 'paused', 'prioritized', 'delayed'] as const)
+        : (['wait', 'paused', 'prioritized'] as const);
+      const before = await queue.getJobCounts(...types);
+      await queue.drain(delayed);
+      return { removed: Object.values(before).reduce((sum, count) => sum + count, 0) };
+    });
+  }
+
+  /**
+   * Move every failed job back to waiting
+   */
+  async retryFailed(queueName: string, actor?: string) {
+    const queue = this.getQueue(queueName);
+    return await this.audited('RETRY_FAILED', queue.name, actor, {}, async () => {
+      const retried = await queue.getFailedCount();
+      await queue.retryJobs({ state: 'failed' });
+      return { retried };
+    });
+  }
+
+  async clean(queueName: string, input: CleanQueueInput, actor?: string) {
+    const queue = this.getQueue(queueName);
+    if (!(CLEANABLE_STATES as readonly string[]).includes(input.status)) {
+      throw new BadRequestException(`status must be one of ${CLEANABLE_STATES.join(', ')}`);
+    }
+    const olderThanMinutes = Number(input.olderThanMinutes);
+    const limit = Number(input.limit ?? 0);
+    if (!Number.isFinite(olderThanMinutes) || olderThanMinutes < 0) {
+      throw new BadRequestException('olderThanMinutes must be a non-negative number');
+    }
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new BadRequestException('limit must be a non-negative integer');
+    }
+
+    const params = { status: input.status, olderThanMinutes, limit };
+    return await this.audited('CLEAN', queue.name, actor, params, async () => {
+      const removed = await queue.clean(olderThanMinutes * 60_000, limit, input.status);
+      return { removed: removed.length };
+    });
+  }
+
+  /**
+   * Move every delayed job to waiting so it runs now
+   */
+  async promoteDelayed(queueName: string, actor?: string) {
+    const queue = this.getQueue(queueName);
+    return await this.audited('PROMOTE', queue.name, actor, {}, async () => {
+      const promoted = await queue.getDelayedCount();
+      await queue.promoteJobs();
+      return { promoted };
+    });
+  }
+
+  async getJobs(queueName: string, state: string = 'failed', limit: number = 50) {
+    const queue = this.getQueue(queueName);
+    if (!(JOB_STATES as readonly string[]).includes(state)) {
+      throw new BadRequestException(`state must be one of ${JOB_STATES.join(', ')}`);
+    }
+    const jobs = await queue.getJobs(state as JobState, 0, Math.max(limit, 1) - 1);
+    return await Promise.all(jobs.filter(Boolean).map((job) => this.toJobDetails(job)));
+  }
+
+  async getJob(queueName: string, jobId: string): Promise<JobDetails> {
+    const job = await this.getQueue(queueName).getJob(jobId);
+    if (!job) {
+      throw new NotFoundException(`Job ${jobId} not found in ${queueName}`);
+    }
+    return await this.toJobDetails(job);
+  }
+
+  async getAuditLog(limit: number = 50, queueName?: string): Promise<QueueAuditLog[]> {
+    return await this.auditLogRepo.findRecent(limit, queueName);
+  }
+
+  private getQueue(queueName: string): Queue {
+    if (!(Object.values(QUEUES) as string[]).includes(queueName)) {
+      throw new NotFoundException(`Unknown queue: ${queueName}`);
+    }
+    return this.workerManager.getQueue(queueName as QueueName);
+  }
+
+  /**
+   * Run an operation and record it in the audit log whether it succeeds or not
+   * A failed audit write is logged, it never turns the outcome of the operation around.
+   */
+  private async audited<T extends Record<string, unknown>>(
+    action: QueueAdminAction,
+    queueName: string,
+    actor: string | undefined,
+    params: Record<string, unknown>,
+    operation: () => Promise<T>,
+  ): Promise<T & { queueName: string }> {
+    let result: T;
+    try {
+      result = await operation();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`${action} ${queueName} failed: ${message}`);
+      await this.audit({ action, queueName, actor, params, success: false, error: message });
+      throw error;
+    }
+
+    this.logger.log(
+      `${action} ${queueName}${actor ? ` by ${actor}` : ''}: ${JSON.stringify(result)}`,
+    );
+    await this.audit({ action, queueName, actor, params, result, success: true });
+    return { ...result, queueName };
+  }
+
+  private async audit(entry: QueueAuditLogData): Promise<void> {
+    try {
+      await this.auditLogRepo.create(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to audit ${entry.action} ${entry.queueName}: ${message}`);
+    }
+  }
+
+  private async toJobDetails(job: Job): Promise<JobDetails> {
+    return {
+      id: job.id,
+      name: job.name,
+      state: await job.getState(),
+      data: job.data,
+      opts: job.opts,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason,
+      stacktrace: job.stacktrace ?? [],
+      returnvalue: job.returnvalue,
+      timestamp: new Date(job.timestamp).toISOString(),
+      processedOn: job.processedOn ? new Date(job.processedOn).toISOString() : undefined,
+      finishedOn: job.finishedOn ? new Date(job.finishedOn).toISOString() : undefined,
+      delay: job.delay,
+    };
+  }
+}
@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
+import { DeadLetterController } from './dead-letter.controller';
+import { DeadLetterService } from './dead-letter.service';
+import { QueueAdminController } from './queue-admin.controller';
+import { QueueAdminService } from './queue-admin.service';
 import { QueuesController } from './queues.controller';
 import { QueuesService } from './queues.service';
 
 @Module({
-  controllers: [QueuesController],
-  providers: [QueuesService],
+  // Fixed paths first, so `api/queues/:queueName` does not match `api/queues/dlq` or `api/queues/audit`
+  controllers: [DeadLetterController, QueueAdminController, QueuesController],
+  providers: [QueuesService, DeadLetterService, QueueAdminService],
   exports: [QueuesService],
 })
 export class QueuesModule {}
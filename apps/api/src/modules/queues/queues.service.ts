@@ -1,5 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { FeatureFlags } from '@solana-eda/events';
+import { FeatureFlags, QUEUES } from '@solana-eda/events';
 import {
   BullMQHealthChecker,
   BullMQQueueHealth,
@@ -9,7 +9,6 @@ import {
   type BullMQHealthConfig,
   HealthStatus,
 } from '@solana-eda/monitoring';
-import { BULLMQ_QUEUES } from '@solana-eda/queue-bullmq';
 import Redis from 'ioredis';
 
 /**
@@ -73,11 +72,12 @@ export class QueuesService {
       });
 
       // Get all queue names
-      const queueNames = Object.values(BULLMQ_QUEUES);
+      const queueNames = Object.values(QUEUES);
 
       const config: BullMQHealthConfig = {
         connection: this.redisConnection,
         queues: queueNames,
+        workerConcurrency: FeatureFlags.getBullMQConcurrency(),
       };
 
       this.bullMQChecker = new BullMQHealthChecker(config);
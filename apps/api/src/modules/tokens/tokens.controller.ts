@@ -0,0 +1,63 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { RugRiskFactorName } from '@solana-eda/types';
+import { TokensService } from './tokens.service';
+
+class RugRiskFactorDto {
+  factor!: RugRiskFactorName;
+  /** Configured weight, factors that could not be assessed are left out of the weighting */
+  weight!: number;
+  /** 0 (safe) to 1, null when the factor could not be assessed */
+  risk!: number | null;
+  /** Points the factor adds to the score */
+  contribution!: number;
+  reason!: string;
+}
+
+class TokenRiskDto {
+  token!: string;
+  /** 0 (safe) to 100 */
+  score!: number;
+  confidence!: number;
+  validatedAt!: string;
+  factors!: RugRiskFactorDto[];
+}
+
+@ApiTags('tokens')
+@Controller('tokens')
+export class TokensController {
+  constructor(private readonly tokensService: TokensService) {}
+
+  @Get(':mint/risk')
+  @ApiOperation({
+    summary: 'Get token rug risk',
+    description:
+      'Retrieves the rug-risk score of the latest validation of a token with the breakdown by ' +
+      'factor: authorities, holder concentration, LP lock duration, creator history, liquidity ' +
+      'depth and pool age.',
+  })
+  @ApiParam({
+    name: 'mint',
+    description: 'Token mint address',
+    example: 'So11111111111111111111111111111111111111112',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved token risk',
+    type: TokenRiskDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Token not validated or validated without a risk assessment',
+  })
+  async getTokenRisk(@Param('mint') mint: string): Promise<TokenRiskDto> {
+    const risk = await this.tokensService.getTokenRisk(mint);
+    return {
+      token: risk.token,
+      score: risk.score,
+      confidence: risk.confidence,
+      validatedAt: risk.validatedAt.toISOString(),
+      factors: risk.factors,
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { TokenValidationRepository } from '@solana-eda/database';
+import type { RugRiskAssessment } from '@solana-eda/types';
+import { PrismaService } from '../../prisma/prisma.service';
+
+export interface TokenRisk extends RugRiskAssessment {
+  token: string;
+  validatedAt: Date;
+  confidence: number;
+}
+
+@Injectable()
+export class TokensService {
+  constructor(@Inject('PRISMA') private prisma: PrismaService) {
+    this.validationRepo = new TokenValidationRepository(this.prisma);
+  }
+
+  private validationRepo: TokenValidationRepository;
+
+  /**
+   * Rug-risk assessment of the token's latest validation
+   */
+  async getTokenRisk(mint: string): Promise<TokenRisk> {
+    const validation = await this.validationRepo.findLatestByToken(mint);
+    if (!validation) {
+      throw new NotFoundException(`Token ${mint} has not been validated`);
+    }
+
+    const details = validation.validationDetails as { risk?: RugRiskAssessment } | null;
+    if (!details?.risk) {
+      throw new NotFoundException(`Latest validation of token ${mint} has no risk assessment`);
+    }
+
+    return {
+      token: validation.token,
+      validatedAt: validation.validatedAt,
+      confidence: Number(validation.confidence),
+      score: details.risk.score,
+      factors: details.risk.factors,
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { BacktestRecord } from '@solana-eda/database';
+import { BacktestsService, type CreateBacktestInput } from './backtests.service';
+
+class BacktestSummary {
+  initialCapital!: number;
+  finalEquity!: number;
+  totalPnl!: number;
+  totalReturnPercent!: number;
+  maxDrawdownPercent!: number;
+  winRate!: number;
+  sharpeRatio!: number;
+  averageHoldMs!: number;
+  tradeCount!: number;
+  closedPositions!: number;
+  openPositions!: number;
+  totalFees!: number;
+  skippedEntries!: number;
+}
+
+class BacktestReport {
+  summary!: BacktestSummary;
+  trades!: {
+    positionId: string;
+    token: string;
+    type: 'BUY' | 'SELL';
+    timestamp: string;
+    amount: number;
+    price: number;
+    fee: number;
+    reason?: string;
+  }[];
+  positions!: {
+    positionId: string;
+    token: string;
+    openedAt: string;
+    closedAt: string;
+    entryPrice: number;
+    pnl: number;
+    pnlPercent: number;
+    holdMs: number;
+    closeReason: string;
+  }[];
+  /** Plots with PnLChart: `pnl` is equity over the initial capital */
+  equityCurve!: { timestamp: string; equity: number; pnl: number }[];
+}
+
+class Backtest {
+  id!: string;
+  status!: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  settings!: Record<string, unknown>;
+  options!: Record<string, unknown>;
+  startDate!: string;
+  endDate!: string;
+  report?: BacktestReport | null;
+  error?: string | null;
+  createdAt!: string;
+  completedAt?: string | null;
+}
+
+@ApiTags('trading')
+@Controller('trading/backtests')
+export class BacktestsController {
+  constructor(private readonly backtestsService: BacktestsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Start a backtest',
+    description:
+      'Replays stored burn, price and pool history against a TradeSettings profile. ' +
+      'Runs in the background; poll the returned backtest until it is COMPLETED or FAILED.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['startDate', 'endDate'],
+      properties: {
+        startDate: { type: 'string', format: 'date-time', example: '2026-10-01T00:00:00Z' },
+        endDate: { type: 'string', format: 'date-time', example: '2026-10-15T00:00:00Z' },
+        settingsName: { type: 'string', example: 'default' },
+        settings: {
+          type: 'object',
+          description: 'TradeSettings overrides applied on top of the profile',
+          example: { stopLossPercent: 0.15, trailingStopPercent: 0.1 },
+        },
+        initialCapital: { type: 'number', example: 1000 },
+        tradeAmount: { type: 'number', example: 10 },
+        feeBps: { type: 'number', example: 25 },
+        slippageBps: { type: 'number', example: 100 },
+        maxHoldMinutes: { type: 'number', example: 1440 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Backtest queued',
+    type: Backtest,
+  })
+  async create(@Body() body: CreateBacktestInput): Promise<BacktestRecord> {
+    return await this.backtestsService.create(body);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get recent backtests',
+    description: 'Retrieves recent backtests without their reports.',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of backtests to return (default: 20)',
+    example: 20,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved backtests',
+    type: [Backtest],
+  })
+  async findRecent(@Query('limit') limit: number = 20): Promise<Omit<BacktestRecord, 'report'>[]> {
+    return await this.backtestsService.findRecent(limit);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get backtest by ID',
+    description: 'Retrieves a backtest with its report once completed.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Backtest ID',
+    example: 'clm123456789',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved backtest',
+    type: Backtest,
+  })
+  async findById(@Param('id') id: string): Promise<BacktestRecord | null> {
+    return await this.backtestsService.findById(id);
+  }
+}
@@ -0,0 +1,191 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  runBacktest,
+  type BacktestEvent,
+  type BacktestOptions,
+  type StrategySettings,
+} from '@solana-eda/backtest';
+import {
+  BacktestRepository,
+  BurnEventRepository,
+  LiquidityPoolRepository,
+  PriceRepository,
+  TradeSettingsRepository,
+} from '@solana-eda/database';
+import type { BacktestRecord, TakeProfitLadderStep } from '@solana-eda/database';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const DEFAULT_QUOTE_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+export interface CreateBacktestInput {
+  startDate: string;
+  endDate: string;
+  /** TradeSettings profile to start from, defaults to the first enabled profile */
+  settingsName?: string;
+  /** Overrides applied on top of the profile */
+  settings?: Partial<{
+    maxSlippage: number;
+    maxPositions: number;
+    stopLossPercent: number;
+    takeProfitPercent: number;
+    minBurnAmount: number;
+    trailingStopPercent: number | null;
+    takeProfitLadder: TakeProfitLadderStep[] | null;
+  }>;
+  initialCapital?: number;
+  /** Quote amount spent per position (UI amount) */
+  tradeAmount?: number;
+  feeBps?: number;
+  slippageBps?: number;
+  /** Close positions after this many minutes, 0 disables the timeout */
+  maxHoldMinutes?: number;
+}
+
+@Injectable()
+export class BacktestsService {
+  private readonly logger = new Logger(BacktestsService.name);
+
+  constructor(@Inject('PRISMA') private prisma: PrismaService) {
+    this.backtestRepo = new BacktestRepository(this.prisma);
+    this.settingsRepo = new TradeSettingsRepository(this.prisma);
+    this.burnRepo = new BurnEventRepository(this.prisma);
+    this.priceRepo = new PriceRepository(this.prisma);
+    this.poolRepo = new LiquidityPoolRepository(this.prisma);
+  }
+
+  private backtestRepo: BacktestRepository;
+  private settingsRepo: TradeSettingsRepository;
+  private burnRepo: BurnEventRepository;
+  private priceRepo: PriceRepository;
+  private poolRepo: LiquidityPoolRepository;
+
+  /**
+   * Store a PENDING backtest and run it in the background
+   */
+  async create(input: CreateBacktestInput): Promise<BacktestRecord> {
+    const startDate = new Date(input.startDate);
+    const endDate = new Date(input.endDate);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate >= endDate) {
+      throw new BadRequestException('startDate and endDate must be dates with startDate first');
+    }
+
+    const settings = await this.resolveSettings(input);
+    const options: BacktestOptions = {
+      quoteMint: process.env.QUOTE_MINT || DEFAULT_QUOTE_MINT,
+      initialCapital: input.initialCapital ?? 1000,
+      tradeAmount: input.tradeAmount ?? 10,
+      feeBps: input.feeBps ?? 25,
+      defaultSlippageBps: input.slippageBps ?? 100,
+      maxHoldMs: (input.maxHoldMinutes ?? 0) * 60_000,
+    };
+    if (!(options.tradeAmount > 0) || !(options.initialCapital >= options.tradeAmount)) {
+      throw new BadRequestException('tradeAmount must be positive and within initialCapital');
+    }
+
+    const backtest = await this.backtestRepo.create({
+      settings: { ...settings },
+      options: { ...options },
+      startDate,
+      endDate,
+    });
+
+    void this.run(backtest.id, settings, options, startDate, endDate);
+    return backtest;
+  }
+
+  async findRecent(limit: number = 20): Promise<Omit<BacktestRecord, 'report'>[]> {
+    return await this.backtestRepo.findRecent(limit);
+  }
+
+  async findById(id: string): Promise<BacktestRecord | null> {
+    return await this.backtestRepo.findById(id);
+  }
+
+  private async resolveSettings(input: CreateBacktestInput): Promise<StrategySettings> {
+    const profile = input.settingsName
+      ? await this.settingsRepo.findByName(input.settingsName)
+      : ((await this.settingsRepo.findEnabled())[0] ?? null);
+    if (input.settingsName && !profile) {
+      throw new NotFoundException(`Trade settings "${input.settingsName}" not found`);
+    }
+
+    const base: StrategySettings = {
+      maxSlippage: Number(profile?.maxSlippage ?? 0.03),
+      maxPositions: Number(profile?.maxPositions ?? 5),
+      stopLossPercent: Number(profile?.stopLossPercent ?? 0.1),
+      takeProfitPercent: Number(profile?.takeProfitPercent ?? 0.5),
+      minBurnAmount: Number(profile?.minBurnAmount ?? 1000),
+      trailingStopPercent:
+        profile?.trailingStopPercent != null ? Number(profile.trailingStopPercent) : null,
+      takeProfitLadder: profile?.takeProfitLadder ?? null,
+    };
+
+    return { ...base, ...input.settings };
+  }
+
+  /**
+   * Load the stored history of the range as backtest events
+   *
+   * Pools only keep their latest snapshot, so pool depth is known only for pools
+   * last updated within the range; other fills use the default slippage.
+   */
+  private async loadEvents(startDate: Date, endDate: Date): Promise<BacktestEvent[]> {
+    const [burns, prices, pools] = await Promise.all([
+      this.burnRepo.findInRange(startDate, endDate),
+      this.priceRepo.findInRange(startDate, endDate),
+      this.poolRepo.findUpdatedInRange(startDate, endDate),
+    ]);
+
+    // Equal timestamps keep this order, so a burn sees the price and depth at its own time
+    return [
+      ...pools.map(
+        (pool): BacktestEvent => ({
+          type: 'POOL',
+          timestamp: pool.updatedAt,
+          tokenA: pool.tokenA,
+          tokenB: pool.tokenB,
+          tvl: Number(pool.tvl),
+        }),
+      ),
+      ...prices.map(
+        (price): BacktestEvent => ({
+          type: 'PRICE',
+          timestamp: price.timestamp,
+          token: price.token,
+          price: Number(price.price),
+        }),
+      ),
+      ...burns.map(
+        (burn): BacktestEvent => ({
+          type: 'BURN',
+          timestamp: burn.timestamp,
+          token: burn.token,
+          amount: Number(burn.amount),
+          percentage: Number(burn.percentage),
+        }),
+      ),
+    ];
+  }
+
+  private async run(
+    id: string,
+    settings: StrategySettings,
+    options: BacktestOptions,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<void> {
+    try {
+      await this.backtestRepo.markRunning(id);
+      const events = await this.loadEvents(startDate, endDate);
+      const report = runBacktest(events, settings, options);
+      await this.backtestRepo.complete(id, report);
+      this.logger.log(
+        `Backtest ${id} completed: ${events.length} events, ${report.summary.tradeCount} trades`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Backtest ${id} failed: ${message}`);
+      await this.backtestRepo.fail(id, message).catch(() => undefined);
+    }
+  }
+}
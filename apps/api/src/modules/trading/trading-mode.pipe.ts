@@ -0,0 +1,8 @@
+import { ParseEnumPipe } from '@nestjs/common';
+
+const TRADING_MODES = { LIVE: 'LIVE', PAPER: 'PAPER' } as const;
+
+/**
+ * Validate an optional `mode` query parameter (LIVE or PAPER)
+ */
+export const parseTradingMode = () => new ParseEnumPipe(TRADING_MODES, { optional: true });
@@ -1,5 +1,7 @@
 import { Controller, Get, Put, Body, Param, Query, Patch } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam, ApiBody } from '@nestjs/swagger';
+import type { TradingMode } from '@solana-eda/database';
+import { parseTradingMode } from './trading-mode.pipe';
 import { TradingService } from './trading.service';
 
 interface TradePosition {
@@ -12,11 +14,14 @@ class TradeSettings {
   id!: string;
   name!: string;
   enabled!: boolean;
+  mode!: 'LIVE' | 'PAPER';
   maxSlippage!: number;
   maxPositions!: number;
   stopLossPercent!: number;
   takeProfitPercent!: number;
   minBurnAmount!: number;
+  trailingStopPercent?: number | null;
+  takeProfitLadder?: { gainPercent: number; sellFraction: number }[] | null;
   updatedAt!: string;
 }
 
@@ -28,6 +33,8 @@ class Trade {
   price!: string;
   signature!: string;
   slippage!: number;
+  fee!: string;
+  mode!: 'LIVE' | 'PAPER';
   timestamp!: string;
   position?: TradePosition;
 }
@@ -106,11 +113,29 @@ export class TradingController {
       type: 'object',
       properties: {
         enabled: { type: 'boolean', example: true },
+        mode: { type: 'string', enum: ['LIVE', 'PAPER'], example: 'PAPER' },
         maxSlippage: { type: 'number', example: 0.03 },
         maxPositions: { type: 'number', example: 5 },
         stopLossPercent: { type: 'number', example: 0.1 },
         takeProfitPercent: { type: 'number', example: 0.5 },
         minBurnAmount: { type: 'number', example: 1000000 },
+        trailingStopPercent: { type: 'number', nullable: true, example: 0.15 },
+        takeProfitLadder: {
+          type: 'array',
+          nullable: true,
+          items: {
+            type: 'object',
+            properties: {
+              gainPercent: { type: 'number', example: 0.25 },
+              sellFraction: { type: 'number', example: 0.3 },
+            },
+          },
+          example: [
+            { gainPercent: 0.25, sellFraction: 0.3 },
+            { gainPercent: 0.5, sellFraction: 0.3 },
+            { gainPercent: 1, sellFraction: 0.4 },
+          ],
+        },
       },
     },
   })
@@ -154,13 +179,22 @@ export class TradingController {
     description: 'Maximum number of trades to return (default: 50)',
     example: 50,
   })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['LIVE', 'PAPER'],
+    description: 'Only return LIVE or PAPER trades',
+  })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved trades',
     type: [Trade],
   })
-  async getTrades(@Query('limit') limit: number = 50) {
-    return await this.tradingService.getTrades(limit);
+  async getTrades(
+    @Query('limit') limit: number = 50,
+    @Query('mode', parseTradingMode()) mode?: TradingMode,
+  ) {
+    return await this.tradingService.getTrades(limit, mode);
   }
 
   @Get('trades/buy')
@@ -175,13 +209,22 @@ export class TradingController {
     description: 'Maximum number of trades to return (default: 50)',
     example: 50,
   })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['LIVE', 'PAPER'],
+    description: 'Only return LIVE or PAPER trades',
+  })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved buy trades',
     type: [Trade],
   })
-  async getBuyTrades(@Query('limit') limit: number = 50) {
-    return await this.tradingService.getBuyTrades(limit);
+  async getBuyTrades(
+    @Query('limit') limit: number = 50,
+    @Query('mode', parseTradingMode()) mode?: TradingMode,
+  ) {
+    return await this.tradingService.getBuyTrades(limit, mode);
   }
 
   @Get('trades/sell')
@@ -196,13 +239,22 @@ export class TradingController {
     description: 'Maximum number of trades to return (default: 50)',
     example: 50,
   })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['LIVE', 'PAPER'],
+    description: 'Only return LIVE or PAPER trades',
+  })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved sell trades',
     type: [Trade],
   })
-  async getSellTrades(@Query('limit') limit: number = 50) {
-    return await this.tradingService.getSellTrades(limit);
+  async getSellTrades(
+    @Query('limit') limit: number = 50,
+    @Query('mode', parseTradingMode()) mode?: TradingMode,
+  ) {
+    return await this.tradingService.getSellTrades(limit, mode);
   }
 
   @Get('stats/volume')
@@ -217,12 +269,21 @@ export class TradingController {
     description: 'Number of days to calculate volume for (default: 7)',
     example: 7,
   })
+  @ApiQuery({
+    name: 'mode',
+    required: false,
+    enum: ['LIVE', 'PAPER'],
+    description: 'Only return LIVE or PAPER trades',
+  })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved volume statistics',
     type: VolumeStats,
   })
-  async getVolumeStats(@Query('days') days: number = 7) {
-    return await this.tradingService.getVolumeStats(days);
+  async getVolumeStats(
+    @Query('days') days: number = 7,
+    @Query('mode', parseTradingMode()) mode?: TradingMode,
+  ) {
+    return await this.tradingService.getVolumeStats(days, mode);
   }
 }
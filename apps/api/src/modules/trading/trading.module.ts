@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
+import { BacktestsController } from './backtests.controller';
+import { BacktestsService } from './backtests.service';
 import { TradingController } from './trading.controller';
 import { TradingService } from './trading.service';
 
 @Module({
-  controllers: [TradingController],
-  providers: [TradingService],
+  controllers: [TradingController, BacktestsController],
+  providers: [TradingService, BacktestsService],
   exports: [TradingService],
 })
 export class TradingModule {}
@@ -1,7 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { Inject } from '@nestjs/common';
 import { TradeSettingsRepository, TradeRepository } from '@solana-eda/database';
-import type { TradeSettings, TradeWithPosition } from '@solana-eda/database';
+import type { TradeSettings, TradeWithPosition, TradingMode } from '@solana-eda/database';
 import { PrismaService } from '../../prisma/prisma.service';
 
 export interface VolumeStats {
@@ -41,27 +41,27 @@ export class TradingService {
     return await this.settingsRepo.toggleEnabled(id);
   }
 
-  async getTrades(limit: number = 50): Promise<TradeWithPosition[]> {
-    return await this.tradeRepo.findRecent(limit);
+  async getTrades(limit: number = 50, mode?: TradingMode): Promise<TradeWithPosition[]> {
+    return await this.tradeRepo.findRecent(limit, mode);
   }
 
-  async getBuyTrades(limit: number = 50): Promise<TradeWithPosition[]> {
-    return await this.tradeRepo.findTradesByType('BUY', limit);
+  async getBuyTrades(limit: number = 50, mode?: TradingMode): Promise<TradeWithPosition[]> {
+    return await this.tradeRepo.findTradesByType('BUY', limit, mode);
   }
 
-  async getSellTrades(limit: number = 50): Promise<TradeWithPosition[]> {
-    return await this.tradeRepo.findTradesByType('SELL', limit);
+  async getSellTrades(limit: number = 50, mode?: TradingMode): Promise<TradeWithPosition[]> {
+    return await this.tradeRepo.findTradesByType('SELL', limit, mode);
   }
 
-  async getVolumeStats(days: number = 7): Promise<VolumeStats> {
+  async getVolumeStats(days: number = 7, mode?: TradingMode): Promise<VolumeStats> {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
     const endDate = new Date();
 
-    const totalVolume = await this.tradeRepo.calculateTotalVolume(startDate, endDate);
-    const winRate = await this.tradeRepo.calculateWinRate(startDate, endDate);
-    const tradeCount = await this.tradeRepo.countTradesInRange(startDate, endDate);
+    const totalVolume = await this.tradeRepo.calculateTotalVolume(startDate, endDate, mode);
+    const winRate = await this.tradeRepo.calculateWinRate(startDate, endDate, mode);
+    const tradeCount = await this.tradeRepo.countTradesInRange(startDate, endDate, mode);
 
     return {
       period: `${days} days`,
@@ -2,6 +2,7 @@ import { Controller, Get, Param, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
 import { WorkersService } from './workers.service';
 import type { WorkerStatusRecord } from '@solana-eda/database';
+import type { WorkerHeartbeatHealth } from '@solana-eda/monitoring';
 
 class WorkerStatusDTO {
   id!: string;
@@ -11,6 +12,15 @@ class WorkerStatusDTO {
   metrics!: Record<string, unknown> | null;
 }
 
+class WorkerHealthDTO {
+  name!: string;
+  status!: 'HEALTHY' | 'DEGRADED' | 'UNHEALTHY';
+  reportedStatus!: string;
+  lastSeen!: string;
+  ageMs!: number;
+  issues!: string[];
+}
+
 @ApiTags('workers')
 @Controller('workers')
 export class WorkersController {
@@ -82,6 +92,22 @@ export class WorkersController {
     return await this.workersService.getStaleWorkers(olderThanMinutes);
   }
 
+  @Get('health')
+  @ApiOperation({
+    summary: 'Get worker health',
+    description:
+      'Rates each worker from its last heartbeat: DEGRADED when stopped or late, ' +
+      'UNHEALTHY when it reported an error or has not been seen for 5 minutes.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved worker health',
+    type: [WorkerHealthDTO],
+  })
+  async getWorkersHealth(): Promise<WorkerHeartbeatHealth[]> {
+    return await this.workersService.getWorkersHealth();
+  }
+
   @Get(':name')
   @ApiOperation({
     summary: 'Get worker by name',
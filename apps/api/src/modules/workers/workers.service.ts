@@ -2,6 +2,8 @@ import { Injectable } from '@nestjs/common';
 import { Inject } from '@nestjs/common';
 import { WorkerStatusRepository } from '@solana-eda/database';
 import type { WorkerStatusRecord } from '@solana-eda/database';
+import { getWorkerHeartbeatHealth, type WorkerHeartbeatHealth } from '@solana-eda/monitoring';
+import type { WorkerStatus } from '@solana-eda/types';
 import { PrismaService } from '../../prisma/prisma.service';
 
 @Injectable()
@@ -31,4 +33,18 @@ export class WorkersService {
   async getStaleWorkers(olderThanMinutes: number = 5): Promise<WorkerStatusRecord[]> {
     return await this.workerStatusRepo.findStaleWorkers(olderThanMinutes);
   }
+
+  /**
+   * Health of every worker from its last heartbeat
+   */
+  async getWorkersHealth(): Promise<WorkerHeartbeatHealth[]> {
+    const workers = await this.workerStatusRepo.findAll();
+    return workers.map((worker) =>
+      getWorkerHeartbeatHealth({
+        name: worker.name,
+        status: worker.status as WorkerStatus['status'],
+        lastSeen: worker.lastSeen,
+      }),
+    );
+  }
 }
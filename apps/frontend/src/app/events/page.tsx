@@ -109,7 +109,7 @@ export default function EventsPage() {
     } else if (event.type === 'trade' || activeTab === 'trades') {
       return `${event.type} ${formatNumber(event.amount)} @ ${formatCurrency(event.price)}`;
     } else if (event.type === 'position' || activeTab === 'positions') {
-      return `${event.token}: ${formatNumber(event.amount)} @ ${formatCurrency(event.entryPrice)} (P&L: ${event.pnl >= 0 ? '+' : ''}${event.pnl.toFixed(2)}%)`;
+      return `${event.token}: ${formatNumber(event.amount)} @ ${formatCurrency(event.entryPrice)} (P&L: ${event.pnlPercent >= 0 ? '+' : ''}${event.pnlPercent.toFixed(2)}%)`;
     }
     return 'Unknown event type';
   };
@@ -257,14 +257,14 @@ export default function EventsPage() {
                 </div>
               )}
 
-              {selectedEvent.pnl !== undefined && (
+              {selectedEvent.pnlPercent !== undefined && (
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">P&L</label>
                   <p
-                    className={`mt-1 ${selectedEvent.pnl >= 0 ? 'text-green-500' : 'text-red-500'}`}
+                    className={`mt-1 ${selectedEvent.pnlPercent >= 0 ? 'text-green-500' : 'text-red-500'}`}
                   >
-                    {selectedEvent.pnl >= 0 ? '+' : ''}
-                    {selectedEvent.pnl.toFixed(2)}%
+                    {selectedEvent.pnlPercent >= 0 ? '+' : ''}
+                    {selectedEvent.pnlPercent.toFixed(2)}%
                   </p>
                 </div>
               )}
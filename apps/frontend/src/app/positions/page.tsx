@@ -110,12 +110,7 @@ export default function PositionsPage() {
           </div>
           <div className="rounded-lg border bg-card p-6">
             <div className="text-sm text-muted-foreground">Win Rate</div>
-            <div className="mt-2 text-2xl font-bold">
-              {stats.totalPositions > 0
-                ? ((stats.winningPositions / stats.totalPositions) * 100).toFixed(1)
-                : '0'}
-              %
-            </div>
+            <div className="mt-2 text-2xl font-bold">{stats.winRate.toFixed(1)}%</div>
           </div>
         </div>
       )}
@@ -183,16 +178,16 @@ export default function PositionsPage() {
                       <span className="text-muted-foreground">P&L:</span>
                       <span
                         className={`font-medium flex items-center gap-1 ${
-                          position.pnl >= 0 ? 'text-green-500' : 'text-red-500'
+                          position.pnlPercent >= 0 ? 'text-green-500' : 'text-red-500'
                         }`}
                       >
-                        {position.pnl >= 0 ? (
+                        {position.pnlPercent >= 0 ? (
                           <TrendingUp className="h-3 w-3" />
                         ) : (
                           <TrendingDown className="h-3 w-3" />
                         )}
-                        {position.pnl >= 0 ? '+' : ''}
-                        {position.pnl.toFixed(2)}%
+                        {position.pnlPercent >= 0 ? '+' : ''}
+                        {position.pnlPercent.toFixed(2)}%
                       </span>
                     </div>
                     {position.stopLoss && (
@@ -259,14 +254,14 @@ export default function PositionsPage() {
                 </div>
               </div>
               <div
-                className={`p-4 rounded-lg border ${positionToClose.pnl >= 0 ? 'bg-green-500/10 border-green-500/20' : 'bg-red-500/10 border-red-500/20'}`}
+                className={`p-4 rounded-lg border ${positionToClose.pnlPercent >= 0 ? 'bg-green-500/10 border-green-500/20' : 'bg-red-500/10 border-red-500/20'}`}
               >
                 <div className="text-sm text-muted-foreground">Unrealized P&L</div>
                 <div
-                  className={`text-lg font-bold ${positionToClose.pnl >= 0 ? 'text-green-500' : 'text-red-500'}`}
+                  className={`text-lg font-bold ${positionToClose.pnlPercent >= 0 ? 'text-green-500' : 'text-red-500'}`}
                 >
-                  {positionToClose.pnl >= 0 ? '+' : ''}
-                  {positionToClose.pnl.toFixed(2)}%
+                  {positionToClose.pnlPercent >= 0 ? '+' : ''}
+                  {positionToClose.pnlPercent.toFixed(2)}%
                 </div>
               </div>
             </div>
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import DeadLetterQueue from '@/components/workers/DeadLetterQueue';
 import { formatTimestamp } from '@/lib/utils';
 import { workersAPI, type Worker } from '@/lib/api';
 import { CheckCircle, XCircle, Clock, Activity, Zap, AlertCircle } from 'lucide-react';
@@ -95,7 +97,7 @@ export default function WorkersPage() {
       <div className="mb-6 flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold">Workers</h1>
-          <p className="text-muted-foreground">Monitor worker status and metrics</p>
+          <p className="text-muted-foreground">Monitor worker status, metrics and failed events</p>
         </div>
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
           <Activity className="h-4 w-4" />
@@ -103,112 +105,125 @@ export default function WorkersPage() {
         </div>
       </div>
 
-      {loading ? (
-        <div className="flex items-center justify-center py-12">
-          <div className="text-muted-foreground">Loading workers...</div>
-        </div>
-      ) : workers.length === 0 ? (
-        <div className="flex items-center justify-center py-12">
-          <div className="text-muted-foreground">No workers found</div>
-        </div>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {workers.map((worker) => (
-            <div
-              key={worker.name}
-              className={`rounded-lg border-2 p-6 transition-all hover:shadow-lg ${getStatusColor(worker.status)}`}
-            >
-              {/* Header */}
-              <div className="mb-4 flex items-start justify-between">
-                <div className="flex items-center gap-3">
-                  {getStatusIcon(worker.status)}
-                  <div>
-                    <h3 className="font-semibold text-lg">{worker.name}</h3>
-                    <span
-                      className={`inline-block rounded px-2 py-0.5 text-xs font-medium ${getStatusBadgeColor(worker.status)}`}
-                    >
-                      {worker.status}
-                    </span>
-                  </div>
-                </div>
-                <div className="text-xs text-muted-foreground">
-                  {formatLastSeen(worker.lastSeen)}
-                </div>
-              </div>
+      <Tabs defaultValue="workers">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="workers">Workers ({workers.length})</TabsTrigger>
+          <TabsTrigger value="dlq">Dead Letter Queue</TabsTrigger>
+        </TabsList>
 
-              {/* Metrics */}
-              <div className="space-y-3">
-                {worker.metrics && (
-                  <>
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="rounded-md bg-muted/50 p-3">
-                        <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
-                          <Zap className="h-3 w-3" />
-                          Events Processed
-                        </div>
-                        <div className="text-lg font-semibold">
-                          {worker.metrics.eventsProcessed?.toLocaleString() || 0}
-                        </div>
-                      </div>
-                      <div
-                        className={`rounded-md bg-muted/50 p-3 ${worker.metrics.errors && worker.metrics.errors > 0 ? 'border border-red-500/20' : ''}`}
-                      >
-                        <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
-                          <AlertCircle
-                            className={`h-3 w-3 ${worker.metrics.errors && worker.metrics.errors > 0 ? 'text-red-500' : ''}`}
-                          />
-                          Errors
-                        </div>
-                        <div
-                          className={`text-lg font-semibold ${worker.metrics.errors && worker.metrics.errors > 0 ? 'text-red-500' : ''}`}
+        <TabsContent value="workers" className="mt-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-muted-foreground">Loading workers...</div>
+            </div>
+          ) : workers.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-muted-foreground">No workers found</div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {workers.map((worker) => (
+                <div
+                  key={worker.name}
+                  className={`rounded-lg border-2 p-6 transition-all hover:shadow-lg ${getStatusColor(worker.status)}`}
+                >
+                  {/* Header */}
+                  <div className="mb-4 flex items-start justify-between">
+                    <div className="flex items-center gap-3">
+                      {getStatusIcon(worker.status)}
+                      <div>
+                        <h3 className="font-semibold text-lg">{worker.name}</h3>
+                        <span
+                          className={`inline-block rounded px-2 py-0.5 text-xs font-medium ${getStatusBadgeColor(worker.status)}`}
                         >
-                          {worker.metrics.errors?.toLocaleString() || 0}
-                        </div>
+                          {worker.status}
+                        </span>
                       </div>
                     </div>
-
-                    <div className="rounded-md bg-muted/50 p-3">
-                      <div className="text-xs text-muted-foreground mb-1">Uptime</div>
-                      <div className="text-lg font-semibold">
-                        {formatUptime(worker.metrics.uptime)}
-                      </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatLastSeen(worker.lastSeen)}
                     </div>
+                  </div>
 
-                    {worker.metrics.lastEventAt && (
-                      <div className="text-xs text-muted-foreground">
-                        Last event: {formatLastSeen(worker.metrics.lastEventAt)}
-                      </div>
+                  {/* Metrics */}
+                  <div className="space-y-3">
+                    {worker.metrics && (
+                      <>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="rounded-md bg-muted/50 p-3">
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                              <Zap className="h-3 w-3" />
+                              Events Processed
+                            </div>
+                            <div className="text-lg font-semibold">
+                              {worker.metrics.eventsProcessed?.toLocaleString() || 0}
+                            </div>
+                          </div>
+                          <div
+                            className={`rounded-md bg-muted/50 p-3 ${worker.metrics.errors && worker.metrics.errors > 0 ? 'border border-red-500/20' : ''}`}
+                          >
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                              <AlertCircle
+                                className={`h-3 w-3 ${worker.metrics.errors && worker.metrics.errors > 0 ? 'text-red-500' : ''}`}
+                              />
+                              Errors
+                            </div>
+                            <div
+                              className={`text-lg font-semibold ${worker.metrics.errors && worker.metrics.errors > 0 ? 'text-red-500' : ''}`}
+                            >
+                              {worker.metrics.errors?.toLocaleString() || 0}
+                            </div>
+                          </div>
+                        </div>
+
+                        <div className="rounded-md bg-muted/50 p-3">
+                          <div className="text-xs text-muted-foreground mb-1">Uptime</div>
+                          <div className="text-lg font-semibold">
+                            {formatUptime(worker.metrics.uptime)}
+                          </div>
+                        </div>
+
+                        {worker.metrics.lastEventAt && (
+                          <div className="text-xs text-muted-foreground">
+                            Last event: {formatLastSeen(worker.metrics.lastEventAt)}
+                          </div>
+                        )}
+                      </>
                     )}
-                  </>
-                )}
 
-                {!worker.metrics && (
-                  <div className="text-sm text-muted-foreground">No metrics available</div>
-                )}
+                    {!worker.metrics && (
+                      <div className="text-sm text-muted-foreground">No metrics available</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Legend */}
+          <div className="mt-8 rounded-lg border bg-card p-4">
+            <h3 className="text-sm font-medium mb-3">Status Legend</h3>
+            <div className="flex flex-wrap gap-6 text-sm">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-4 w-4 text-green-500" />
+                <span>Running - Worker is actively processing events</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-yellow-500" />
+                <span>Stopped - Worker is not running</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <XCircle className="h-4 w-4 text-red-500" />
+                <span>Error - Worker has encountered an error</span>
               </div>
             </div>
-          ))}
-        </div>
-      )}
-
-      {/* Legend */}
-      <div className="mt-8 rounded-lg border bg-card p-4">
-        <h3 className="text-sm font-medium mb-3">Status Legend</h3>
-        <div className="flex flex-wrap gap-6 text-sm">
-          <div className="flex items-center gap-2">
-            <CheckCircle className="h-4 w-4 text-green-500" />
-            <span>Running - Worker is actively processing events</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Clock className="h-4 w-4 text-yellow-500" />
-            <span>Stopped - Worker is not running</span>
           </div>
-          <div className="flex items-center gap-2">
-            <XCircle className="h-4 w-4 text-red-500" />
-            <span>Error - Worker has encountered an error</span>
-          </div>
-        </div>
-      </div>
+        </TabsContent>
+
+        <TabsContent value="dlq" className="mt-6">
+          <DeadLetterQueue />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -11,7 +11,8 @@ interface Position {
   entryPrice: string;
   currentPrice: string;
   pnl: string;
-  status: 'OPEN' | 'CLOSED';
+  pnlPercent: string;
+  status: 'OPEN' | 'CLOSING' | 'CLOSED';
   openedAt: string;
 }
 
@@ -72,7 +73,7 @@ export default function PositionsOverview() {
           <div className="text-sm text-muted-foreground">Total P&L</div>
           <div className={`text-2xl font-bold flex items-center gap-2 ${getPnlColor(totalPnl)}`}>
             {getPnlIcon(totalPnl)}
-            {formatPercentage(totalPnl)}
+            {formatCurrency(totalPnl)}
           </div>
         </div>
       </div>
@@ -96,8 +97,8 @@ export default function PositionsOverview() {
                 </div>
               </div>
               <div className="text-right">
-                <div className={getPnlColor(Number(position.pnl))}>
-                  {formatPercentage(Number(position.pnl))}
+                <div className={getPnlColor(Number(position.pnlPercent))}>
+                  {formatPercentage(Number(position.pnlPercent))}
                 </div>
                 <div className="text-sm text-muted-foreground">
                   {formatTimestamp(position.openedAt)}
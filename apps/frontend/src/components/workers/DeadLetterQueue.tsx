@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { AlertTriangle, RotateCcw, Trash2 } from 'lucide-react';
+import { formatTimestamp } from '@/lib/utils';
+import { dlqAPI, type DeadLetterEvent, type DeadLetterStats } from '@/lib/api';
+
+export default function DeadLetterQueue() {
+  const [entries, setEntries] = useState<DeadLetterEvent[]>([]);
+  const [stats, setStats] = useState<DeadLetterStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const fetchEntries = async () => {
+    try {
+      const [entriesData, statsData] = await Promise.all([dlqAPI.getAll(), dlqAPI.getStats()]);
+      setEntries(entriesData);
+      setStats(statsData);
+    } catch (error) {
+      console.error('Error fetching dead-letter queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+
+    // Auto-refresh every 10 seconds
+    const interval = setInterval(fetchEntries, 10000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleRetry = async (entry: DeadLetterEvent) => {
+    setBusy(true);
+    try {
+      const result = await dlqAPI.retry(entry.id);
+      if (result.success) {
+        toast.success(`${entry.originalEvent.type} re-enqueued onto ${result.queueName}`);
+      } else {
+        toast.error(`Retry failed: ${result.error}`);
+      }
+      await fetchEntries();
+    } catch (error) {
+      toast.error('Failed to retry event');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRetryAll = async () => {
+    setBusy(true);
+    try {
+      const results = await dlqAPI.retryMany(entries.map((entry) => entry.id));
+      const failed = results.filter((result) => !result.success).length;
+      if (failed > 0) {
+        toast.error(`${results.length - failed} events re-enqueued, ${failed} failed`);
+      } else {
+        toast.success(`${results.length} events re-enqueued`);
+      }
+      await fetchEntries();
+    } catch (error) {
+      toast.error('Failed to retry events');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (entry: DeadLetterEvent) => {
+    setBusy(true);
+    try {
+      await dlqAPI.remove(entry.id);
+      toast.success('Event removed from dead-letter queue');
+      await fetchEntries();
+    } catch (error) {
+      toast.error('Failed to remove event');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!confirm('Remove every event from the dead-letter queue?')) return;
+
+    setBusy(true);
+    try {
+      const { purged } = await dlqAPI.purge();
+      toast.success(`Purged ${purged} events`);
+      await fetchEntries();
+    } catch (error) {
+      toast.error('Failed to purge dead-letter queue');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Stats */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-4">
+          <div className="rounded-lg border bg-card p-4">
+            <div className="text-xs text-muted-foreground mb-1">Failed Events</div>
+            <div className="text-2xl font-semibold">{stats?.total ?? 0}</div>
+          </div>
+          {stats &&
+            Object.entries(stats.byErrorType).map(([errorType, count]) => (
+              <div key={errorType} className="rounded-lg border bg-card p-4">
+                <div className="text-xs text-muted-foreground mb-1">{errorType}</div>
+                <div className="text-2xl font-semibold">{count}</div>
+              </div>
+            ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleRetryAll}
+            disabled={busy || entries.length === 0}
+            className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm font-medium hover:bg-muted disabled:opacity-50"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Retry all
+          </button>
+          <button
+            onClick={handlePurge}
+            disabled={busy || entries.length === 0}
+            className="flex items-center gap-2 rounded-md border border-red-500/20 px-3 py-2 text-sm font-medium text-red-500 hover:bg-red-500/10 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            Purge
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-muted-foreground">Loading dead-letter queue...</div>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-muted-foreground">No failed events</div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => (
+            <div key={entry.id} className="rounded-lg border border-red-500/20 bg-red-500/5 p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-red-500" />
+                    <span className="font-semibold">{entry.originalEvent.type}</span>
+                    <span className="rounded bg-red-500/10 px-2 py-0.5 text-xs font-medium text-red-500">
+                      {entry.errorType}
+                    </span>
+                  </div>
+                  <p className="break-words text-sm">{entry.error}</p>
+                  <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                    {entry.metadata?.queueName && <span>Queue: {entry.metadata.queueName}</span>}
+                    {entry.metadata?.attemptsMade !== undefined && (
+                      <span>Attempts: {entry.metadata.attemptsMade}</span>
+                    )}
+                    <span>Retries: {entry.retryCount}</span>
+                    <span>Failed: {formatTimestamp(entry.timestamp)}</span>
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    onClick={() => handleRetry(entry)}
+                    disabled={busy}
+                    className="rounded-md border p-2 hover:bg-muted disabled:opacity-50"
+                    title="Retry"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    disabled={busy}
+                    className="rounded-md border p-2 text-red-500 hover:bg-red-500/10 disabled:opacity-50"
+                    title="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
  * Centralized API client for Solana EDA backend
  */
 import type {
+  Backtest,
   BurnEvent,
   LiquidityEvent,
   TradeEvent,
@@ -12,6 +13,10 @@ import type {
   TradeSettings,
   VolumeStats,
   Worker,
+  CreateBacktestRequest,
+  DeadLetterEvent,
+  DeadLetterStats,
+  DeadLetterRetryResult,
 } from './types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
@@ -112,6 +117,46 @@ export const tradingAPI = {
   getVolumeStats: (days = 7) => fetchAPI<VolumeStats>(`/trading/stats/volume?days=${days}`),
 };
 
+/**
+ * Backtests API
+ */
+export const backtestsAPI = {
+  create: (data: CreateBacktestRequest) =>
+    fetchAPI<Backtest>('/trading/backtests', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+  getRecent: (limit = 20) => fetchAPI<Backtest[]>(`/trading/backtests?limit=${limit}`),
+  getById: (id: string) => fetchAPI<Backtest>(`/trading/backtests/${id}`),
+};
+
+/**
+ * Dead-letter queue API
+ */
+export const dlqAPI = {
+  getAll: (limit = 100, offset = 0) =>
+    fetchAPI<DeadLetterEvent[]>(`/api/queues/dlq?limit=${limit}&offset=${offset}`),
+  getStats: () => fetchAPI<DeadLetterStats>('/api/queues/dlq/stats'),
+  getById: (id: string) => fetchAPI<DeadLetterEvent>(`/api/queues/dlq/${id}`),
+  retry: (id: string) =>
+    fetchAPI<DeadLetterRetryResult>(`/api/queues/dlq/${id}/retry`, {
+      method: 'POST',
+    }),
+  retryMany: (ids: string[]) =>
+    fetchAPI<DeadLetterRetryResult[]>('/api/queues/dlq/retry', {
+      method: 'POST',
+      body: JSON.stringify({ ids }),
+    }),
+  remove: (id: string) =>
+    fetchAPI<{ id: string; removed: boolean }>(`/api/queues/dlq/${id}`, {
+      method: 'DELETE',
+    }),
+  purge: (expiredOnly = false) =>
+    fetchAPI<{ purged: number }>(`/api/queues/dlq${expiredOnly ? '?expired=true' : ''}`, {
+      method: 'DELETE',
+    }),
+};
+
 /**
  * Re-export types for convenience
  */
@@ -126,4 +171,9 @@ export type {
   TradeSettings,
   VolumeStats,
   PositionStats,
+  Backtest,
+  BacktestReport,
+  DeadLetterEvent,
+  DeadLetterStats,
+  DeadLetterRetryResult,
 } from './types';
@@ -56,7 +56,8 @@ export interface PositionEvent {
   entryPrice: string;
   currentPrice: string;
   pnl: number;
-  status: 'OPEN' | 'CLOSED';
+  pnlPercent: number;
+  status: 'OPEN' | 'CLOSING' | 'CLOSED';
   openedAt: string;
   closedAt?: string;
   stopLoss?: string;
@@ -87,11 +88,15 @@ export interface Position {
   entryPrice: number;
   currentPrice: number;
   pnl: number;
-  status: 'OPEN' | 'CLOSED';
+  pnlPercent: number;
+  realizedPnl: number;
+  status: 'OPEN' | 'CLOSING' | 'CLOSED';
+  mode: TradingMode;
   stopLoss?: number;
   takeProfit?: number;
   openedAt: string;
   closedAt?: string;
+  closeReason?: CloseReason;
   trades?: TradeEvent[];
 }
 
@@ -99,6 +104,7 @@ export interface TradeSettings {
   id: string;
   name: string;
   enabled: boolean;
+  mode: TradingMode;
   maxSlippage: number;
   maxPositions: number;
   stopLossPercent: number;
@@ -114,12 +120,130 @@ export interface VolumeStats {
   tradeCount: number;
 }
 
+export type TradingMode = 'LIVE' | 'PAPER';
+
+export type CloseReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'MANUAL' | 'TIMEOUT';
+
 export interface PositionStats {
+  totalPositions: number;
+  openPositions: number;
+  closedPositions: number;
   totalValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
   totalPnl: number;
   avgPnl: number;
   winningPositions: number;
   losingPositions: number;
+  winRate: number;
+  totalFees: number;
+  closeReasons: Record<CloseReason, number>;
+}
+
+export type BacktestStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface BacktestSummary {
+  initialCapital: number;
+  finalEquity: number;
+  totalPnl: number;
+  totalReturnPercent: number;
+  maxDrawdownPercent: number;
+  winRate: number;
+  sharpeRatio: number;
+  averageHoldMs: number;
+  tradeCount: number;
+  closedPositions: number;
+  openPositions: number;
+  totalFees: number;
+  skippedEntries: number;
+}
+
+export interface BacktestReport {
+  summary: BacktestSummary;
+  trades: {
+    positionId: string;
+    token: string;
+    type: 'BUY' | 'SELL';
+    timestamp: string;
+    amount: number;
+    price: number;
+    fee: number;
+    reason?: CloseReason;
+  }[];
+  positions: {
+    positionId: string;
+    token: string;
+    openedAt: string;
+    closedAt: string;
+    entryPrice: number;
+    pnl: number;
+    pnlPercent: number;
+    holdMs: number;
+    closeReason: CloseReason;
+  }[];
+  /** Can be passed to PnLChart as is */
+  equityCurve: { timestamp: string; equity: number; pnl: number }[];
+}
+
+export interface Backtest {
+  id: string;
+  status: BacktestStatus;
+  settings: Partial<TradeSettings>;
+  options: Record<string, unknown>;
+  startDate: string;
+  endDate: string;
+  report?: BacktestReport | null;
+  error?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+}
+
+export interface CreateBacktestRequest {
+  startDate: string;
+  endDate: string;
+  settingsName?: string;
+  settings?: Partial<
+    Pick<
+      TradeSettings,
+      'maxSlippage' | 'maxPositions' | 'stopLossPercent' | 'takeProfitPercent' | 'minBurnAmount'
+    >
+  >;
+  initialCapital?: number;
+  tradeAmount?: number;
+  feeBps?: number;
+  slippageBps?: number;
+  maxHoldMinutes?: number;
+}
+
+export interface DeadLetterEvent {
+  id: string;
+  originalEvent: { type: string; id: string; timestamp: string; [key: string]: unknown };
+  error: string;
+  errorType: string;
+  timestamp: string;
+  retryCount: number;
+  lastRetryAt?: string;
+  metadata?: {
+    jobId?: string;
+    jobName?: string;
+    queueName?: string;
+    attemptsMade?: number;
+    retryable?: boolean;
+    source?: string;
+  };
+}
+
+export interface DeadLetterStats {
+  total: number;
+  byErrorType: Record<string, number>;
+  byRetryCount: Record<string, number>;
+}
+
+export interface DeadLetterRetryResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  queueName?: string;
 }
 
 // WebSocket Event Types
@@ -0,0 +1,179 @@
+import { describe, it, expect } from '@jest/globals';
+import { runBacktest, sortEvents } from './engine.js';
+import { maxDrawdownPercent, sharpeRatio } from './metrics.js';
+import type { BacktestEvent, BacktestOptions, StrategySettings } from './types.js';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TOKEN = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const settings: StrategySettings = {
+  maxSlippage: 0.03,
+  maxPositions: 2,
+  stopLossPercent: 0.1,
+  takeProfitPercent: 0.5,
+  minBurnAmount: 1000,
+};
+
+const options: BacktestOptions = {
+  quoteMint: USDC,
+  initialCapital: 100,
+  tradeAmount: 10,
+  feeBps: 0,
+  defaultSlippageBps: 0,
+  maxHoldMs: 0,
+};
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1) + minutes * 60_000);
+const price = (minutes: number, value: number, token = TOKEN): BacktestEvent => ({
+  type: 'PRICE',
+  timestamp: at(minutes),
+  token,
+  price: value,
+});
+const burn = (minutes: number, amount = 5000, token = TOKEN): BacktestEvent => ({
+  type: 'BURN',
+  timestamp: at(minutes),
+  token,
+  amount,
+  percentage: 2.5,
+});
+
+describe('runBacktest', () => {
+  it('should buy on a burn and close at take-profit', () => {
+    const report = runBacktest(
+      [price(0, 0.025), burn(1), price(2, 0.03), price(3, 0.04)],
+      settings,
+      options,
+    );
+
+    expect(report.trades.map((trade) => trade.type)).toEqual(['BUY', 'SELL']);
+    expect(report.trades[0]!.amount).toBeCloseTo(400);
+    expect(report.positions).toEqual([
+      expect.objectContaining({
+        closeReason: 'TAKE_PROFIT',
+        pnl: expect.closeTo(6),
+        pnlPercent: expect.closeTo(60),
+        holdMs: 2 * 60_000,
+      }),
+    ]);
+    expect(report.summary).toMatchObject({
+      finalEquity: expect.closeTo(106),
+      totalReturnPercent: expect.closeTo(6),
+      winRate: 100,
+      openPositions: 0,
+    });
+  });
+
+  it('should replay events in timestamp order', () => {
+    const report = runBacktest([price(3, 0.02), burn(1), price(0, 0.025)], settings, options);
+
+    expect(report.positions[0]).toMatchObject({
+      closeReason: 'STOP_LOSS',
+      pnl: expect.closeTo(-2),
+    });
+    expect(report.summary.maxDrawdownPercent).toBeCloseTo(2);
+  });
+
+  it('should follow the trailing stop and sell take-profit ladder steps', () => {
+    const report = runBacktest(
+      [price(0, 0.025), burn(1), price(2, 0.03125), price(3, 0.04), price(4, 0.034)],
+      {
+        ...settings,
+        trailingStopPercent: 0.1,
+        takeProfitLadder: [
+          { gainPercent: 0.25, sellFraction: 0.5 },
+          { gainPercent: 1, sellFraction: 0.5 },
+        ],
+      },
+      options,
+    );
+
+    expect(report.trades.map((trade) => [trade.type, trade.amount, trade.reason])).toEqual([
+      ['BUY', expect.closeTo(400), undefined],
+      ['SELL', expect.closeTo(200), 'TAKE_PROFIT'],
+      ['SELL', expect.closeTo(200), 'STOP_LOSS'],
+    ]);
+    // 200 * 0.03125 + 200 * 0.034 - 10
+    expect(report.positions[0]!.pnl).toBeCloseTo(3.05);
+  });
+
+  it('should close positions held past maxHoldMs', () => {
+    const report = runBacktest([price(0, 0.025), burn(1), price(11, 0.026)], settings, {
+      ...options,
+      maxHoldMs: 10 * 60_000,
+    });
+
+    expect(report.positions[0]!.closeReason).toBe('TIMEOUT');
+  });
+
+  it('should skip entries the pool cannot fill within maxSlippage', () => {
+    const report = runBacktest(
+      [
+        price(0, 0.025),
+        { type: 'POOL', timestamp: at(0), tokenA: TOKEN, tokenB: USDC, tvl: 200 },
+        burn(1),
+      ],
+      settings,
+      options,
+    );
+
+    expect(report.trades).toEqual([]);
+    expect(report.summary.skippedEntries).toBe(1);
+  });
+
+  it('should apply minBurnAmount and maxPositions', () => {
+    const report = runBacktest(
+      [
+        price(0, 0.025),
+        price(0, 1, 'token-2'),
+        price(0, 1, 'token-3'),
+        burn(1, 999),
+        burn(2),
+        burn(3),
+        burn(4, 5000, 'token-2'),
+        burn(5, 5000, 'token-3'),
+      ],
+      settings,
+      options,
+    );
+
+    expect(report.trades.map((trade) => trade.token)).toEqual([TOKEN, 'token-2']);
+    expect(report.summary.openPositions).toBe(2);
+  });
+
+  it('should use a custom strategy', () => {
+    const report = runBacktest([price(0, 0.025), burn(1, 1)], settings, options, (event) =>
+      event.type === 'BURN' ? [{ action: 'OPEN', token: event.token }] : [],
+    );
+
+    expect(report.summary.openPositions).toBe(1);
+  });
+});
+
+describe('sortEvents', () => {
+  it('should keep the input order of simultaneous events', () => {
+    const events = [price(1, 2), price(0, 1), price(1, 3)];
+    expect(sortEvents(events)).toEqual([events[1], events[0], events[2]]);
+  });
+});
+
+describe('metrics', () => {
+  it('should measure the largest peak-to-trough drop', () => {
+    expect(
+      maxDrawdownPercent([{ equity: 100 }, { equity: 120 }, { equity: 90 }, { equity: 130 }]),
+    ).toBeCloseTo(25);
+  });
+
+  it('should annualize daily returns', () => {
+    const curve = [100, 101, 100, 102].map((equity, day) => ({
+      timestamp: new Date(Date.UTC(2026, 0, 1 + day)).toISOString(),
+      equity,
+    }));
+    const returns = [0.01, -1 / 101, 0.02];
+    const mean = returns.reduce((a, b) => a + b) / 3;
+    const std = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / 2);
+
+    expect(sharpeRatio(curve)).toBeCloseTo((mean / std) * Math.sqrt(365));
+    expect(sharpeRatio(curve.slice(0, 2))).toBe(0);
+  });
+});
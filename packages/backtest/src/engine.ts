@@ -0,0 +1,243 @@
+/**
+ * Backtest engine
+ * Replays stored events in timestamp order through a strategy, filling its
+ * orders with the paper-trading fill model
+ */
+
+import { simulateFill } from './fill-model.js';
+import { averageHoldMs, maxDrawdownPercent, sharpeRatio, winRate } from './metrics.js';
+import { buildTakeProfitLevels, computeExitLevels, parseTakeProfitLadder } from './rules.js';
+import { burnStrategy } from './strategy.js';
+import type {
+  BacktestEvent,
+  BacktestOptions,
+  BacktestPosition,
+  BacktestReport,
+  BacktestTrade,
+  EquityPoint,
+  SimulatedPosition,
+  Strategy,
+  StrategySettings,
+  StrategySignal,
+} from './types.js';
+
+/** Remaining amounts below this are treated as fully sold */
+const DUST = 1e-9;
+
+/**
+ * Sort events by timestamp, keeping the input order for equal timestamps
+ */
+export function sortEvents(events: BacktestEvent[]): BacktestEvent[] {
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.timestamp.getTime() - b.event.timestamp.getTime() || a.index - b.index)
+    .map(({ event }) => event);
+}
+
+/**
+ * Run a backtest over `events`
+ *
+ * Positions still open after the last event are valued at their last known price.
+ */
+export function runBacktest(
+  events: BacktestEvent[],
+  settings: StrategySettings,
+  options: BacktestOptions,
+  strategy: Strategy = burnStrategy,
+): BacktestReport {
+  const prices = new Map<string, number>();
+  const poolTvl = new Map<string, number>();
+  const open: SimulatedPosition[] = [];
+  const trades: BacktestTrade[] = [];
+  const closed: BacktestPosition[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let cash = options.initialCapital;
+  let totalFees = 0;
+  let skippedEntries = 0;
+  let nextId = 1;
+
+  const fill = (side: 'BUY' | 'SELL', token: string, amountIn: number, price: number) =>
+    simulateFill({
+      side,
+      amountIn,
+      price,
+      poolTvl: poolTvl.get(token) ?? null,
+      feeBps: options.feeBps,
+      defaultSlippageBps: options.defaultSlippageBps,
+    });
+
+  const openPosition = (token: string, now: Date) => {
+    const price = prices.get(token);
+    if (token === options.quoteMint || price === undefined || cash < options.tradeAmount) {
+      skippedEntries++;
+      return;
+    }
+
+    const buy = fill('BUY', token, options.tradeAmount, price);
+    // priceImpactPct is a percentage, maxSlippage a fraction
+    if (buy.priceImpactPct / 100 > Number(settings.maxSlippage) || !(buy.amountOut > 0)) {
+      skippedEntries++;
+      return;
+    }
+
+    const amount = buy.amountOut;
+    const entryPrice = options.tradeAmount / amount;
+    const { stopLoss, takeProfit: fixedTakeProfit } = computeExitLevels(entryPrice, settings);
+    const levels = buildTakeProfitLevels(
+      entryPrice,
+      amount,
+      parseTakeProfitLadder(settings.takeProfitLadder),
+    );
+    const position: SimulatedPosition = {
+      id: `backtest-${nextId++}`,
+      token,
+      amount,
+      entryPrice,
+      costBasis: options.tradeAmount,
+      proceeds: 0,
+      openedAt: now,
+      stopLoss,
+      takeProfit: levels.at(-1)?.targetPrice ?? fixedTakeProfit,
+      trailingStopPercent:
+        settings.trailingStopPercent != null ? Number(settings.trailingStopPercent) : null,
+      highWaterMark: entryPrice,
+      takeProfitLevels: levels.map((level, index) => ({
+        level: index + 1,
+        targetPrice: level.targetPrice,
+        amount: level.amount,
+        filled: false,
+      })),
+    };
+
+    cash -= options.tradeAmount;
+    totalFees += buy.fee;
+    open.push(position);
+    trades.push({
+      positionId: position.id,
+      token,
+      type: 'BUY',
+      timestamp: now.toISOString(),
+      amount,
+      price: (options.tradeAmount - buy.fee) / amount,
+      fee: buy.fee,
+    });
+  };
+
+  const sell = (signal: Extract<StrategySignal, { action: 'SELL' }>, now: Date) => {
+    const position = open.find((entry) => entry.id === signal.positionId);
+    const price = position ? prices.get(position.token) : undefined;
+    if (!position || price === undefined) return;
+
+    const amount = Math.min(signal.amount, position.amount);
+    if (!(amount > 0)) return;
+
+    const exit = fill('SELL', position.token, amount, price);
+    cash += exit.amountOut;
+    totalFees += exit.fee;
+    position.proceeds += exit.amountOut;
+    position.amount -= amount;
+    trades.push({
+      positionId: position.id,
+      token: position.token,
+      type: 'SELL',
+      timestamp: now.toISOString(),
+      amount,
+      // The trade price is before the fee, which is recorded separately
+      price: (exit.amountOut + exit.fee) / amount,
+      fee: exit.fee,
+      reason: signal.reason,
+    });
+
+    const level = position.takeProfitLevels.find((entry) => entry.level === signal.level);
+    if (level) level.filled = true;
+    if (signal.level !== undefined && position.amount > DUST) return;
+
+    const pnl = position.proceeds - position.costBasis;
+    open.splice(open.indexOf(position), 1);
+    closed.push({
+      positionId: position.id,
+      token: position.token,
+      openedAt: position.openedAt.toISOString(),
+      closedAt: now.toISOString(),
+      entryPrice: position.entryPrice,
+      pnl,
+      pnlPercent: (pnl / position.costBasis) * 100,
+      holdMs: now.getTime() - position.openedAt.getTime(),
+      closeReason: signal.reason,
+    });
+  };
+
+  const equity = () =>
+    open.reduce(
+      (sum, position) =>
+        sum + position.amount * (prices.get(position.token) ?? position.entryPrice),
+      cash,
+    );
+
+  for (const event of sortEvents(events)) {
+    if (event.type === 'PRICE' && event.price > 0) {
+      prices.set(event.token, event.price);
+    } else if (event.type === 'POOL') {
+      // Only pools against the quote mint give the depth of a token
+      if (event.tokenA === options.quoteMint) poolTvl.set(event.tokenB, event.tvl);
+      if (event.tokenB === options.quoteMint) poolTvl.set(event.tokenA, event.tvl);
+    }
+
+    const signals = strategy(event, {
+      settings,
+      now: event.timestamp,
+      positions: open,
+      getPrice: (token) => prices.get(token),
+      maxHoldMs: options.maxHoldMs,
+    });
+
+    for (const signal of signals) {
+      if (signal.action === 'OPEN') {
+        openPosition(signal.token, event.timestamp);
+      } else if (signal.action === 'TRAIL') {
+        const position = open.find((entry) => entry.id === signal.positionId);
+        if (position) {
+          position.highWaterMark = signal.highWaterMark;
+          position.stopLoss = signal.stopLoss;
+        }
+      } else {
+        sell(signal, event.timestamp);
+      }
+    }
+
+    // One point per change keeps the curve small over long price histories
+    const value = equity();
+    if (equityCurve.at(-1)?.equity !== value) {
+      equityCurve.push({
+        timestamp: event.timestamp.toISOString(),
+        equity: value,
+        pnl: value - options.initialCapital,
+      });
+    }
+  }
+
+  const finalEquity = equityCurve.at(-1)?.equity ?? options.initialCapital;
+  const totalPnl = finalEquity - options.initialCapital;
+
+  return {
+    summary: {
+      initialCapital: options.initialCapital,
+      finalEquity,
+      totalPnl,
+      totalReturnPercent:
+        options.initialCapital > 0 ? (totalPnl / options.initialCapital) * 100 : 0,
+      maxDrawdownPercent: maxDrawdownPercent([{ equity: options.initialCapital }, ...equityCurve]),
+      winRate: winRate(closed),
+      sharpeRatio: sharpeRatio(equityCurve),
+      averageHoldMs: averageHoldMs(closed),
+      tradeCount: trades.length,
+      closedPositions: closed.length,
+      openPositions: open.length,
+      totalFees,
+      skippedEntries,
+    },
+    trades,
+    positions: closed,
+    equityCurve,
+  };
+}
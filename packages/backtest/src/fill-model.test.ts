@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { simulateFill } from './fill-model.js';
+
+describe('simulateFill', () => {
+  it('should buy along the constant-product curve after the fee', () => {
+    // 10,000 USDC and 400,000 tokens on each side
+    const fill = simulateFill({
+      side: 'BUY',
+      amountIn: 100,
+      price: 0.025,
+      poolTvl: 20_000,
+      feeBps: 25,
+      defaultSlippageBps: 100,
+    });
+
+    expect(fill.fee).toBeCloseTo(0.25);
+    expect(fill.amountOut).toBeCloseTo((400_000 * 99.75) / (10_000 + 99.75));
+    expect(fill.priceImpactPct).toBeCloseTo((99.75 / 10_099.75) * 100);
+  });
+
+  it('should charge the fee on the proceeds of a sell', () => {
+    const fill = simulateFill({
+      side: 'SELL',
+      amountIn: 4000,
+      price: 0.025,
+      poolTvl: 20_000,
+      feeBps: 25,
+      defaultSlippageBps: 100,
+    });
+
+    const grossOut = (10_000 * 4000) / (400_000 + 4000);
+    expect(fill.fee).toBeCloseTo(grossOut * 0.0025);
+    expect(fill.amountOut).toBeCloseTo(grossOut * 0.9975);
+    expect(fill.priceImpactPct).toBeGreaterThan(0);
+  });
+
+  it('should fall back to the default slippage without a pool', () => {
+    const fill = simulateFill({
+      side: 'BUY',
+      amountIn: 10,
+      price: 0.025,
+      poolTvl: null,
+      feeBps: 0,
+      defaultSlippageBps: 100,
+    });
+
+    expect(fill.amountOut).toBeCloseTo(396);
+    expect(fill.priceImpactPct).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Fill model
+ * Simulated swaps used by paper trading and backtests
+ */
+
+export interface PaperFill {
+  /** UI amount received, net of the fee */
+  amountOut: number;
+  /** Fee in the quote mint */
+  fee: number;
+  priceImpactPct: number;
+}
+
+/**
+ * Simulate a swap against a constant-product pool holding half its TVL on each side
+ *
+ * BUY spends `amountIn` of the quote mint, SELL sells `amountIn` tokens. Without a
+ * known pool the fill is the price moved by `defaultSlippageBps`.
+ */
+export function simulateFill(params: {
+  side: 'BUY' | 'SELL';
+  amountIn: number;
+  price: number;
+  poolTvl: number | null;
+  feeBps: number;
+  defaultSlippageBps: number;
+}): PaperFill {
+  const { side, amountIn, price, poolTvl, feeBps, defaultSlippageBps } = params;
+  const quoteReserve = poolTvl && poolTvl > 0 ? poolTvl / 2 : null;
+  const tokenReserve = quoteReserve !== null ? quoteReserve / price : null;
+  const slippage = defaultSlippageBps / 10_000;
+
+  if (side === 'BUY') {
+    const fee = (amountIn * feeBps) / 10_000;
+    const netIn = amountIn - fee;
+    const amountOut =
+      quoteReserve !== null && tokenReserve !== null
+        ? (tokenReserve * netIn) / (quoteReserve + netIn)
+        : (netIn / price) * (1 - slippage);
+
+    return { amountOut, fee, priceImpactPct: (1 - (amountOut * price) / netIn) * 100 };
+  }
+
+  const grossOut =
+    quoteReserve !== null && tokenReserve !== null
+      ? (quoteReserve * amountIn) / (tokenReserve + amountIn)
+      : amountIn * price * (1 - slippage);
+  const fee = (grossOut * feeBps) / 10_000;
+
+  return {
+    amountOut: grossOut - fee,
+    fee,
+    priceImpactPct: (1 - grossOut / (amountIn * price)) * 100,
+  };
+}
@@ -0,0 +1,12 @@
+// Engine
+export { runBacktest, sortEvents } from './engine.js';
+export { burnStrategy } from './strategy.js';
+
+// Trading rules and fill model shared with the trading bot
+export { buildTakeProfitLevels, computeExitLevels, parseTakeProfitLadder } from './rules.js';
+export { simulateFill, type PaperFill } from './fill-model.js';
+
+// Metrics
+export { averageHoldMs, maxDrawdownPercent, sharpeRatio, winRate } from './metrics.js';
+
+export type * from './types.js';
@@ -0,0 +1,64 @@
+/**
+ * Backtest metrics
+ */
+
+import type { BacktestPosition, EquityPoint } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Largest peak-to-trough drop of the equity curve, as a percentage of the peak
+ */
+export function maxDrawdownPercent(curve: Pick<EquityPoint, 'equity'>[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+
+  for (const { equity } of curve) {
+    peak = Math.max(peak, equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+    }
+  }
+
+  return maxDrawdown;
+}
+
+/**
+ * Annualized Sharpe ratio of daily equity returns, assuming a zero risk-free rate
+ *
+ * Each UTC day is valued at its last equity point. Returns 0 with fewer than two
+ * daily returns or when returns do not vary.
+ */
+export function sharpeRatio(curve: Pick<EquityPoint, 'timestamp' | 'equity'>[]): number {
+  const daily = new Map<number, number>();
+  for (const point of curve) {
+    daily.set(Math.floor(new Date(point.timestamp).getTime() / DAY_MS), point.equity);
+  }
+
+  const values = [...daily.entries()].sort(([a], [b]) => a - b).map(([, equity]) => equity);
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    if (values[i - 1]! > 0) returns.push(values[i]! / values[i - 1]! - 1);
+  }
+  if (returns.length < 2) return 0;
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+
+  return stdDev > 0 ? (mean / stdDev) * Math.sqrt(365) : 0;
+}
+
+/**
+ * Share of closed positions with a positive PnL, as a percentage
+ */
+export function winRate(positions: Pick<BacktestPosition, 'pnl'>[]): number {
+  if (positions.length === 0) return 0;
+  return (positions.filter((position) => position.pnl > 0).length / positions.length) * 100;
+}
+
+export function averageHoldMs(positions: Pick<BacktestPosition, 'holdMs'>[]): number {
+  if (positions.length === 0) return 0;
+  return positions.reduce((sum, position) => sum + position.holdMs, 0) / positions.length;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildTakeProfitLevels, computeExitLevels, parseTakeProfitLadder } from './rules.js';
+
+describe('computeExitLevels', () => {
+  it('should apply TradeSettings fractions to the entry price', () => {
+    expect(computeExitLevels(2, { stopLossPercent: 0.1, takeProfitPercent: 0.5 })).toEqual({
+      stopLoss: 1.8,
+      takeProfit: 3,
+    });
+  });
+});
+
+describe('take-profit ladders', () => {
+  it('should drop malformed steps and normalize oversized fractions', () => {
+    expect(parseTakeProfitLadder(null)).toEqual([]);
+    expect(
+      parseTakeProfitLadder([
+        { gainPercent: 0.5, sellFraction: 1 },
+        { gainPercent: 'x', sellFraction: 0.5 },
+        { gainPercent: 0.2, sellFraction: 1 },
+      ]),
+    ).toEqual([
+      { gainPercent: 0.2, sellFraction: 0.5 },
+      { gainPercent: 0.5, sellFraction: 0.5 },
+    ]);
+  });
+
+  it('should let the last level sell the remainder', () => {
+    const levels = buildTakeProfitLevels(1, 10, [
+      { gainPercent: 0.1, sellFraction: 0.3 },
+      { gainPercent: 0.2, sellFraction: 0.3 },
+    ]);
+
+    expect(levels.map((level) => level.amount)).toEqual([3, 7]);
+  });
+});
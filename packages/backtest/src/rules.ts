@@ -0,0 +1,68 @@
+/**
+ * Trading rules
+ * Exit levels derived from TradeSettings, shared by live trading and backtests
+ */
+
+import type { TakeProfitLadderStep, TradeSettings } from '@solana-eda/database';
+
+/**
+ * Compute stop-loss and take-profit prices from TradeSettings fractions (0.1 = 10%)
+ */
+export function computeExitLevels(
+  entryPrice: number,
+  settings: Pick<TradeSettings, 'stopLossPercent' | 'takeProfitPercent'>,
+): { stopLoss: number; takeProfit: number } {
+  return {
+    stopLoss: entryPrice * (1 - Number(settings.stopLossPercent)),
+    takeProfit: entryPrice * (1 + Number(settings.takeProfitPercent)),
+  };
+}
+
+/**
+ * Read a take-profit ladder from TradeSettings, ignoring malformed steps
+ *
+ * Steps are sorted by target; sell fractions are scaled down if they add up to more than 1.
+ */
+export function parseTakeProfitLadder(value: unknown): TakeProfitLadderStep[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const steps = value
+    .map((step) => ({
+      gainPercent: Number((step as Partial<TakeProfitLadderStep>)?.gainPercent),
+      sellFraction: Number((step as Partial<TakeProfitLadderStep>)?.sellFraction),
+    }))
+    .filter((step) => step.gainPercent > 0 && step.sellFraction > 0)
+    .sort((a, b) => a.gainPercent - b.gainPercent);
+
+  const total = steps.reduce((sum, step) => sum + step.sellFraction, 0);
+  return total > 1
+    ? steps.map((step) => ({ ...step, sellFraction: step.sellFraction / total }))
+    : steps;
+}
+
+/**
+ * Turn a ladder into per-position take-profit levels
+ *
+ * The last level sells whatever is left so no dust remains after the ladder completes.
+ */
+export function buildTakeProfitLevels(
+  entryPrice: number,
+  amount: number,
+  ladder: TakeProfitLadderStep[],
+): { targetPrice: number; sellFraction: number; amount: number }[] {
+  let allocated = 0;
+
+  return ladder.map((step, index) => {
+    const isLast = index === ladder.length - 1;
+    const levelAmount = isLast ? amount - allocated : amount * step.sellFraction;
+    allocated += levelAmount;
+
+    return {
+      targetPrice: entryPrice * (1 + step.gainPercent),
+      sellFraction: step.sellFraction,
+      amount: levelAmount,
+    };
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Burn strategy
+ * The live trading rules as a backtest strategy: buy on large burns, then exit
+ * through the trailing stop, stop-loss, take-profit (or ladder) and max hold time
+ */
+
+import type { Strategy, StrategySignal } from './types.js';
+
+export const burnStrategy: Strategy = (event, context) => {
+  const { settings, positions } = context;
+
+  if (event.type === 'BURN') {
+    if (event.amount < Number(settings.minBurnAmount)) return [];
+    if (positions.some((position) => position.token === event.token)) return [];
+    if (positions.length >= Number(settings.maxPositions)) return [];
+    return [{ action: 'OPEN', token: event.token }];
+  }
+
+  if (event.type !== 'PRICE') return [];
+
+  const signals: StrategySignal[] = [];
+  const price = event.price;
+  const elapsed = (openedAt: Date) => context.now.getTime() - openedAt.getTime();
+
+  for (const position of positions) {
+    if (position.token !== event.token) continue;
+
+    let stopLoss = position.stopLoss;
+    if (position.trailingStopPercent !== null && price > position.highWaterMark) {
+      stopLoss = Math.max(stopLoss, price * (1 - position.trailingStopPercent));
+      signals.push({ action: 'TRAIL', positionId: position.id, highWaterMark: price, stopLoss });
+    }
+
+    const unfilled = position.takeProfitLevels.filter((level) => !level.filled);
+    const hasLadder = position.takeProfitLevels.length > 0;
+    const sellAll = (reason: 'TAKE_PROFIT' | 'STOP_LOSS' | 'TIMEOUT') =>
+      signals.push({ action: 'SELL', positionId: position.id, amount: position.amount, reason });
+
+    if (!hasLadder && price >= position.takeProfit) {
+      sellAll('TAKE_PROFIT');
+      continue;
+    }
+    if (price <= stopLoss) {
+      sellAll('STOP_LOSS');
+      continue;
+    }
+    if (context.maxHoldMs > 0 && elapsed(position.openedAt) >= context.maxHoldMs) {
+      sellAll('TIMEOUT');
+      continue;
+    }
+
+    const triggered = unfilled.filter((level) => price >= level.targetPrice);
+    if (triggered.length === 0) continue;
+
+    // The final ladder step sells whatever is left and closes the position
+    if (triggered.length === unfilled.length) {
+      sellAll('TAKE_PROFIT');
+      continue;
+    }
+    for (const level of triggered) {
+      signals.push({
+        action: 'SELL',
+        positionId: position.id,
+        amount: level.amount,
+        reason: 'TAKE_PROFIT',
+        level: level.level,
+      });
+    }
+  }
+
+  return signals;
+};
@@ -0,0 +1,131 @@
+/**
+ * Backtest types
+ */
+
+import type { CloseReason, TradeSettings } from '@solana-eda/database';
+
+/** TradeSettings fields a strategy runs with, the same ones live trading uses */
+export type StrategySettings = Pick<
+  TradeSettings,
+  | 'maxSlippage'
+  | 'maxPositions'
+  | 'stopLossPercent'
+  | 'takeProfitPercent'
+  | 'minBurnAmount'
+  | 'trailingStopPercent'
+  | 'takeProfitLadder'
+>;
+
+/** Stored history replayed in timestamp order */
+export type BacktestEvent =
+  | { type: 'BURN'; timestamp: Date; token: string; amount: number; percentage: number }
+  | { type: 'PRICE'; timestamp: Date; token: string; price: number }
+  | { type: 'POOL'; timestamp: Date; tokenA: string; tokenB: string; tvl: number };
+
+export interface SimulatedPosition {
+  id: string;
+  token: string;
+  /** Remaining token amount */
+  amount: number;
+  entryPrice: number;
+  /** Quote amount spent, fees included */
+  costBasis: number;
+  /** Quote amount received from sells so far, net of fees */
+  proceeds: number;
+  openedAt: Date;
+  stopLoss: number;
+  takeProfit: number;
+  trailingStopPercent: number | null;
+  highWaterMark: number;
+  takeProfitLevels: { level: number; targetPrice: number; amount: number; filled: boolean }[];
+}
+
+export type StrategySignal =
+  | { action: 'OPEN'; token: string }
+  | { action: 'SELL'; positionId: string; amount: number; reason: CloseReason; level?: number }
+  | { action: 'TRAIL'; positionId: string; highWaterMark: number; stopLoss: number };
+
+export interface StrategyContext {
+  settings: StrategySettings;
+  now: Date;
+  /** Open positions, read-only */
+  positions: readonly SimulatedPosition[];
+  getPrice: (token: string) => number | undefined;
+  /** Maximum time a position may stay open, 0 disables the timeout */
+  maxHoldMs: number;
+}
+
+/**
+ * Turn one replayed event into trading signals
+ */
+export type Strategy = (event: BacktestEvent, context: StrategyContext) => StrategySignal[];
+
+export interface BacktestOptions {
+  quoteMint: string;
+  /** Quote amount available at the start */
+  initialCapital: number;
+  /** Quote amount spent per position */
+  tradeAmount: number;
+  /** Pool fee charged on the quote side of every fill */
+  feeBps: number;
+  /** Price impact applied when the pool depth is unknown */
+  defaultSlippageBps: number;
+  maxHoldMs: number;
+}
+
+export interface BacktestTrade {
+  positionId: string;
+  token: string;
+  type: 'BUY' | 'SELL';
+  timestamp: string;
+  amount: number;
+  price: number;
+  fee: number;
+  reason?: CloseReason;
+}
+
+export interface BacktestPosition {
+  positionId: string;
+  token: string;
+  openedAt: string;
+  closedAt: string;
+  entryPrice: number;
+  pnl: number;
+  pnlPercent: number;
+  holdMs: number;
+  closeReason: CloseReason;
+}
+
+/** `pnl` is equity over the initial capital so the curve plots with PnLChart */
+export interface EquityPoint {
+  timestamp: string;
+  equity: number;
+  pnl: number;
+}
+
+export interface BacktestSummary {
+  initialCapital: number;
+  finalEquity: number;
+  totalPnl: number;
+  totalReturnPercent: number;
+  /** Largest peak-to-trough equity drop (12.5 = 12.5%) */
+  maxDrawdownPercent: number;
+  /** Share of closed positions with a positive PnL (55 = 55%) */
+  winRate: number;
+  /** Annualized from daily equity returns */
+  sharpeRatio: number;
+  averageHoldMs: number;
+  tradeCount: number;
+  closedPositions: number;
+  openPositions: number;
+  totalFees: number;
+  /** Burns the strategy wanted to buy but the fill model rejected */
+  skippedEntries: number;
+}
+
+export interface BacktestReport {
+  summary: BacktestSummary;
+  trades: BacktestTrade[];
+  positions: BacktestPosition[];
+  equityCurve: EquityPoint[];
+}
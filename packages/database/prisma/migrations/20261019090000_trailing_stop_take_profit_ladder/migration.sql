@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Position" ADD COLUMN     "highWaterMark" DECIMAL(65,30),
+ADD COLUMN     "trailingStopPercent" DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "TradeSettings" ADD COLUMN     "takeProfitLadder" JSONB,
+ADD COLUMN     "trailingStopPercent" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "TakeProfitLevel" (
+    "id" TEXT NOT NULL,
+    "positionId" TEXT NOT NULL,
+    "level" INTEGER NOT NULL,
+    "targetPrice" DECIMAL(65,30) NOT NULL,
+    "sellFraction" DECIMAL(65,30) NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "filledAt" TIMESTAMP(3),
+
+    CONSTRAINT "TakeProfitLevel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TakeProfitLevel_positionId_level_key" ON "TakeProfitLevel"("positionId", "level");
+
+-- AddForeignKey
+ALTER TABLE "TakeProfitLevel" ADD CONSTRAINT "TakeProfitLevel_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "Position"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Position" ADD COLUMN     "closeReason" TEXT,
+ADD COLUMN     "pnlPercent" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "realizedPnl" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN     "fee" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- Backfill: "pnl" used to hold a percent of the entry price
+UPDATE "Position" SET "pnlPercent" = "pnl",
+"pnl" = ("currentPrice" - "entryPrice") * "amount";
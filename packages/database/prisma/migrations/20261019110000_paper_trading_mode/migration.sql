@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Position" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'LIVE';
+
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'LIVE';
+
+-- AlterTable
+ALTER TABLE "TradeSettings" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'PAPER';
+
+-- CreateIndex
+CREATE INDEX "Position_mode_status_idx" ON "Position"("mode", "status");
+
+-- CreateIndex
+CREATE INDEX "Trade_mode_timestamp_idx" ON "Trade"("mode", "timestamp");
+
+-- Backfill: fills from the simulated executor carry a "sim-" signature
+UPDATE "Trade" SET "mode" = 'PAPER' WHERE "signature" LIKE 'sim-%';
+UPDATE "Position" SET "mode" = 'PAPER'
+WHERE "id" IN (SELECT "positionId" FROM "Trade" WHERE "mode" = 'PAPER');
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "StoredEvent" (
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "source" TEXT,
+    "slot" BIGINT,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "storedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StoredEvent_pkey" PRIMARY KEY ("eventId")
+);
+
+-- CreateIndex
+CREATE INDEX "StoredEvent_timestamp_eventId_idx" ON "StoredEvent"("timestamp", "eventId");
+
+-- CreateIndex
+CREATE INDEX "StoredEvent_type_timestamp_idx" ON "StoredEvent"("type", "timestamp");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "PriceRecord" ADD COLUMN "eventId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceRecord_eventId_key" ON "PriceRecord"("eventId");
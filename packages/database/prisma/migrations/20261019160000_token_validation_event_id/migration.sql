@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TokenValidationRecord" ADD COLUMN "eventId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenValidationRecord_eventId_key" ON "TokenValidationRecord"("eventId");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "QueueAuditLog" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "queueName" TEXT NOT NULL,
+    "actor" TEXT,
+    "params" JSONB,
+    "result" JSONB,
+    "success" BOOLEAN NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QueueAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QueueAuditLog_queueName_createdAt_idx" ON "QueueAuditLog"("queueName", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "QueueAuditLog_createdAt_idx" ON "QueueAuditLog"("createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "DiscoveredPool" ADD COLUMN "marketAddress" TEXT;
+
+-- CreateIndex
+CREATE INDEX "DiscoveredPool_marketAddress_idx" ON "DiscoveredPool"("marketAddress");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "DiscoveredPool" ADD COLUMN "creator" TEXT;
+
+-- CreateIndex
+CREATE INDEX "DiscoveredPool_creator_idx" ON "DiscoveredPool"("creator");
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "TradeIntent" (
+    "eventId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "positionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TradeIntent_pkey" PRIMARY KEY ("eventId")
+);
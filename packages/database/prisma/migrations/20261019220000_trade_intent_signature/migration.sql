@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TradeIntent" ADD COLUMN "signature" TEXT;
@@ -31,11 +31,21 @@ export type Transaction = Prisma.TransactionModel;
  *
  */
 export type Position = Prisma.PositionModel;
+/**
+ * Model TakeProfitLevel
+ *
+ */
+export type TakeProfitLevel = Prisma.TakeProfitLevelModel;
 /**
  * Model Trade
  *
  */
 export type Trade = Prisma.TradeModel;
+/**
+ * Model TradeIntent
+ *
+ */
+export type TradeIntent = Prisma.TradeIntentModel;
 /**
  * Model BurnEventRecord
  *
@@ -56,6 +66,11 @@ export type WorkerStatusRecord = Prisma.WorkerStatusRecordModel;
  *
  */
 export type TradeSettings = Prisma.TradeSettingsModel;
+/**
+ * Model BacktestRecord
+ *
+ */
+export type BacktestRecord = Prisma.BacktestRecordModel;
 /**
  * Model PriceRecord
  *
@@ -76,3 +91,18 @@ export type TokenValidationRecord = Prisma.TokenValidationRecordModel;
  *
  */
 export type DiscoveredPool = Prisma.DiscoveredPoolModel;
+/**
+ * Model OutboxEvent
+ *
+ */
+export type OutboxEvent = Prisma.OutboxEventModel;
+/**
+ * Model StoredEvent
+ *
+ */
+export type StoredEvent = Prisma.StoredEventModel;
+/**
+ * Model QueueAuditLog
+ *
+ */
+export type QueueAuditLog = Prisma.QueueAuditLogModel;
@@ -34,11 +34,21 @@ export type Transaction = Prisma.TransactionModel;
  *
  */
 export type Position = Prisma.PositionModel;
+/**
+ * Model TakeProfitLevel
+ *
+ */
+export type TakeProfitLevel = Prisma.TakeProfitLevelModel;
 /**
  * Model Trade
  *
  */
 export type Trade = Prisma.TradeModel;
+/**
+ * Model TradeIntent
+ *
+ */
+export type TradeIntent = Prisma.TradeIntentModel;
 /**
  * Model BurnEventRecord
  *
@@ -59,6 +69,11 @@ export type WorkerStatusRecord = Prisma.WorkerStatusRecordModel;
  *
  */
 export type TradeSettings = Prisma.TradeSettingsModel;
+/**
+ * Model BacktestRecord
+ *
+ */
+export type BacktestRecord = Prisma.BacktestRecordModel;
 /**
  * Model PriceRecord
  *
@@ -79,4 +94,19 @@ export type TokenValidationRecord = Prisma.TokenValidationRecordModel;
  *
  */
 export type DiscoveredPool = Prisma.DiscoveredPoolModel;
+/**
+ * Model OutboxEvent
+ *
+ */
+export type OutboxEvent = Prisma.OutboxEventModel;
+/**
+ * Model StoredEvent
+ *
+ */
+export type StoredEvent = Prisma.StoredEventModel;
+/**
+ * Model QueueAuditLog
+ *
+ */
+export type QueueAuditLog = Prisma.QueueAuditLogModel;
 //# sourceMappingURL=client.d.ts.map
\ No newline at end of file
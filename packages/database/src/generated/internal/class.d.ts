@@ -144,6 +144,17 @@ export interface PrismaClient<in LogOpts extends Prisma.LogLevel = never, in out
     get position(): Prisma.PositionDelegate<ExtArgs, {
         omit: OmitOpts;
     }>;
+    /**
+     * `prisma.takeProfitLevel`: Exposes CRUD operations for the **TakeProfitLevel** model.
+     * Example usage:
+     * ```ts
+     * // Fetch zero or more TakeProfitLevels
+     * const takeProfitLevels = await prisma.takeProfitLevel.findMany()
+     * ```
+     */
+    get takeProfitLevel(): Prisma.TakeProfitLevelDelegate<ExtArgs, {
+        omit: OmitOpts;
+    }>;
     /**
      * `prisma.trade`: Exposes CRUD operations for the **Trade** model.
      * Example usage:
@@ -155,6 +166,17 @@ export interface PrismaClient<in LogOpts extends Prisma.LogLevel = never, in out
     get trade(): Prisma.TradeDelegate<ExtArgs, {
         omit: OmitOpts;
     }>;
+    /**
+     * `prisma.tradeIntent`: Exposes CRUD operations for the **TradeIntent** model.
+     * Example usage:
+     * ```ts
+     * // Fetch zero or more TradeIntents
+     * const tradeIntents = await prisma.tradeIntent.findMany()
+     * ```
+     */
+    get tradeIntent(): Prisma.TradeIntentDelegate<ExtArgs, {
+        omit: OmitOpts;
+    }>;
     /**
      * `prisma.burnEventRecord`: Exposes CRUD operations for the **BurnEventRecord** model.
      * Example usage:
@@ -199,6 +221,17 @@ export interface PrismaClient<in LogOpts extends Prisma.LogLevel = never, in out
     get tradeSettings(): Prisma.TradeSettingsDelegate<ExtArgs, {
         omit: OmitOpts;
     }>;
+    /**
+     * `prisma.backtestRecord`: Exposes CRUD operations for the **BacktestRecord** model.
+     * Example usage:
+     * ```ts
+     * // Fetch zero or more BacktestRecords
+     * const backtestRecords = await prisma.backtestRecord.findMany()
+     * ```
+     */
+    get backtestRecord(): Prisma.BacktestRecordDelegate<ExtArgs, {
+        omit: OmitOpts;
+    }>;
     /**
      * `prisma.priceRecord`: Exposes CRUD operations for the **PriceRecord** model.
      * Example usage:
@@ -243,6 +276,39 @@ export interface PrismaClient<in LogOpts extends Prisma.LogLevel = never, in out
     get discoveredPool(): Prisma.DiscoveredPoolDelegate<ExtArgs, {
         omit: OmitOpts;
     }>;
+    /**
+     * `prisma.outboxEvent`: Exposes CRUD operations for the **OutboxEvent** model.
+     * Example usage:
+     * ```ts
+     * // Fetch zero or more OutboxEvents
+     * const outboxEvents = await prisma.outboxEvent.findMany()
+     * ```
+     */
+    get outboxEvent(): Prisma.OutboxEventDelegate<ExtArgs, {
+        omit: OmitOpts;
+    }>;
+    /**
+     * `prisma.storedEvent`: Exposes CRUD operations for the **StoredEvent** model.
+     * Example usage:
+     * ```ts
+     * // Fetch zero or more StoredEvents
+     * const storedEvents = await prisma.storedEvent.findMany()
+     * ```
+     */
+    get storedEvent(): Prisma.StoredEventDelegate<ExtArgs, {
+        omit: OmitOpts;
+    }>;
+    /**
+     * `prisma.queueAuditLog`: Exposes CRUD operations for the **QueueAuditLog** model.
+     * Example usage:
+     * ```ts
+     * // Fetch zero or more QueueAuditLogs
+     * const queueAuditLogs = await prisma.queueAuditLog.findMany()
+     * ```
+     */
+    get queueAuditLog(): Prisma.QueueAuditLogDelegate<ExtArgs, {
+        omit: OmitOpts;
+    }>;
 }
 export declare function getPrismaClientClass(): PrismaClientConstructor;
 //# sourceMappingURL=class.d.ts.map
\ No newline at end of file
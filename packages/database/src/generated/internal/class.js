@@ -15,14 +15,14 @@ const config = {
     clientVersion: '7.3.0',
     engineVersion: '9d6ad21cbbceab97458517b147a6a09ff43aa735',
     activeProvider: 'postgresql',
-    inlineSchema: "generator client {\n  provider   = \"prisma-client\"\n  output     = \"../src/generated\"\n  engineType = \"client\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Account {\n  id        String     @id @default(cuid())\n  publicKey String     @unique\n  balance   Decimal    @default(0)\n  createdAt DateTime   @default(now())\n  updatedAt DateTime   @updatedAt\n  positions Position[]\n}\n\nmodel Transaction {\n  id        String   @id @default(cuid())\n  signature String   @unique\n  type      String // 'BURN', 'SWAP', 'TRANSFER'\n  amount    Decimal\n  token     String\n  from      String?\n  to        String?\n  timestamp DateTime @default(now())\n}\n\nmodel Position {\n  id           String    @id @default(cuid())\n  accountId    String?\n  account      Account?  @relation(fields: [accountId], references: [id])\n  token        String\n  amount       Decimal\n  entryPrice   Decimal\n  currentPrice Decimal\n  pnl          Decimal   @default(0)\n  status       String // 'OPEN', 'CLOSED'\n  openedAt     DateTime  @default(now())\n  closedAt     DateTime?\n  stopLoss     Decimal?\n  takeProfit   Decimal?\n  trades       Trade[]\n}\n\nmodel Trade {\n  id         String   @id @default(cuid())\n  positionId String\n  position   Position @relation(fields: [positionId], references: [id])\n  type       String // 'BUY', 'SELL'\n  amount     Decimal\n  price      Decimal\n  signature  String   @unique\n  slippage   Decimal\n  timestamp  DateTime @default(now())\n}\n\nmodel BurnEventRecord {\n  id          String   @id @default(cuid())\n  txSignature String   @unique\n  token       String\n  amount      Decimal\n  percentage  Decimal\n  timestamp   DateTime @default(now())\n  processed   Boolean  @default(false)\n}\n\nmodel LiquidityPoolRecord {\n  id        String   @id @default(cuid())\n  address   String   @unique\n  tokenA    String\n  tokenB    String\n  tvl       Decimal\n  price     Decimal\n  volume24h Decimal\n  updatedAt DateTime @updatedAt\n}\n\nmodel WorkerStatusRecord {\n  id       String   @id @default(cuid())\n  name     String   @unique\n  status   String // 'RUNNING', 'STOPPED', 'ERROR'\n  lastSeen DateTime @default(now())\n  metrics  Json // { eventsProcessed: number, errors: number, uptime: number }\n}\n\nmodel TradeSettings {\n  id                String   @id @default(cuid())\n  name              String   @unique\n  enabled           Boolean  @default(true)\n  maxSlippage       Decimal  @default(0.03)\n  maxPositions      Int      @default(5)\n  stopLossPercent   Decimal  @default(0.10)\n  takeProfitPercent Decimal  @default(0.50)\n  minBurnAmount     Decimal  @default(1000)\n  updatedAt         DateTime @updatedAt\n}\n\nmodel PriceRecord {\n  id         String   @id @default(cuid())\n  token      String\n  price      Decimal\n  source     String\n  confidence Decimal\n  volume24h  Decimal?\n  timestamp  DateTime @default(now())\n\n  @@index([token, timestamp])\n  @@index([token])\n}\n\nmodel MarketRecord {\n  id           String   @id @default(cuid())\n  address      String   @unique\n  baseMint     String\n  quoteMint    String\n  dexType      String // 'OPENBOOK', 'RAYDIUM', 'ORCA', 'METEORA'\n  discoveredAt DateTime @default(now())\n  status       String   @default(\"DISCOVERED\") // DISCOVERED, VALIDATING, VALIDATED, REJECTED\n  validations  Json? // Store validation results\n  marketData   Json? // Additional market data (name, minOrderSize, tickSize, etc.)\n\n  @@index([baseMint])\n  @@index([quoteMint])\n  @@index([dexType])\n  @@index([status])\n}\n\nmodel TokenValidationRecord {\n  id                String   @id @default(cuid())\n  token             String\n  isRenounced       Boolean?\n  isBurned          Boolean?\n  isLocked          Boolean?\n  lpBurnedCount     Int?\n  confidence        Decimal\n  validatedAt       DateTime @default(now())\n  txSignature       String?\n  validationDetails Json? // Detailed validation results\n\n  @@index([token])\n  @@index([validatedAt])\n}\n\nmodel DiscoveredPool {\n  id           String   @id @default(cuid())\n  address      String   @unique\n  dexType      String // 'RAYDIUM', 'ORCA', 'METEORA'\n  tokenA       String\n  tokenB       String\n  initialTvl   Decimal\n  discoveredAt DateTime @default(now())\n  status       String   @default(\"MONITORING\") // MONITORING, IGNORED, ERROR\n  poolData     Json? // Additional pool data (lpMint, feeRate, etc.)\n\n  @@index([tokenA])\n  @@index([tokenB])\n  @@index([dexType])\n  @@index([status])\n}\n",
+    inlineSchema: "generator client {\n  provider   = \"prisma-client\"\n  output     = \"../src/generated\"\n  engineType = \"client\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Account {\n  id        String     @id @default(cuid())\n  publicKey String     @unique\n  balance   Decimal    @default(0)\n  createdAt DateTime   @default(now())\n  updatedAt DateTime   @updatedAt\n  positions Position[]\n}\n\nmodel Transaction {\n  id        String   @id @default(cuid())\n  signature String   @unique\n  type      String // 'BURN', 'SWAP', 'TRANSFER'\n  amount    Decimal\n  token     String\n  from      String?\n  to        String?\n  timestamp DateTime @default(now())\n}\n\nmodel Position {\n  id                  String            @id @default(cuid())\n  accountId           String?\n  account             Account?          @relation(fields: [accountId], references: [id])\n  token               String\n  amount              Decimal\n  entryPrice          Decimal\n  currentPrice        Decimal\n  pnl                 Decimal           @default(0) // Realized + unrealized, in the quote currency\n  pnlPercent          Decimal           @default(0) // pnl relative to the cost basis\n  realizedPnl         Decimal           @default(0)\n  status              String // 'OPEN', 'CLOSING', 'CLOSED'\n  mode                String            @default(\"LIVE\") // 'LIVE', 'PAPER'\n  openedAt            DateTime          @default(now())\n  closedAt            DateTime?\n  closeReason         String? // 'TAKE_PROFIT', 'STOP_LOSS', 'MANUAL', 'TIMEOUT'\n  stopLoss            Decimal?\n  takeProfit          Decimal?\n  // Trailing stop: stopLoss follows highWaterMark * (1 - trailingStopPercent)\n  trailingStopPercent Decimal?\n  highWaterMark       Decimal?\n  trades              Trade[]\n  takeProfitLevels    TakeProfitLevel[]\n\n  @@index([mode, status])\n}\n\nmodel TakeProfitLevel {\n  id           String    @id @default(cuid())\n  positionId   String\n  position     Position  @relation(fields: [positionId], references: [id])\n  level        Int // 1-based ladder step\n  targetPrice  Decimal\n  sellFraction Decimal // Fraction of the opening amount sold at this level\n  amount       Decimal // Token amount sold at this level\n  filledAt     DateTime?\n\n  @@unique([positionId, level])\n}\n\nmodel Trade {\n  id         String   @id @default(cuid())\n  positionId String\n  position   Position @relation(fields: [positionId], references: [id])\n  type       String // 'BUY', 'SELL'\n  amount     Decimal\n  price      Decimal\n  signature  String   @unique\n  slippage   Decimal\n  fee        Decimal  @default(0) // Swap fees in the quote currency\n  mode       String   @default(\"LIVE\") // 'LIVE', 'PAPER'\n  timestamp  DateTime @default(now())\n\n  @@index([mode, timestamp])\n}\n\n// Buy attempted for a BURN_DETECTED event, claimed before the swap so a retried job never buys twice\nmodel TradeIntent {\n  eventId    String   @id // BURN_DETECTED event the buy was attempted for\n  token      String\n  mode       String // 'LIVE', 'PAPER'\n  positionId String? // Position opened by the buy, null while the buy is in flight\n  signature  String? // Swap transaction, set before it is sent\n  createdAt  DateTime @default(now())\n}\n\nmodel BurnEventRecord {\n  id          String   @id @default(cuid())\n  txSignature String   @unique\n  token       String\n  amount      Decimal\n  percentage  Decimal\n  timestamp   DateTime @default(now())\n  processed   Boolean  @default(false)\n}\n\nmodel LiquidityPoolRecord {\n  id        String   @id @default(cuid())\n  address   String   @unique\n  tokenA    String\n  tokenB    String\n  tvl       Decimal\n  price     Decimal\n  volume24h Decimal\n  updatedAt DateTime @updatedAt\n}\n\nmodel WorkerStatusRecord {\n  id       String   @id @default(cuid())\n  name     String   @unique\n  status   String // 'RUNNING', 'STOPPED', 'ERROR'\n  lastSeen DateTime @default(now())\n  metrics  Json // { eventsProcessed: number, errors: number, uptime: number }\n}\n\nmodel TradeSettings {\n  id                  String   @id @default(cuid())\n  name                String   @unique\n  enabled             Boolean  @default(true)\n  // Execution backend: 'LIVE' sends swaps, 'PAPER' simulates fills\n  mode                String   @default(\"PAPER\")\n  maxSlippage         Decimal  @default(0.03)\n  maxPositions        Int      @default(5)\n  stopLossPercent     Decimal  @default(0.10)\n  takeProfitPercent   Decimal  @default(0.50)\n  minBurnAmount       Decimal  @default(1000)\n  // Trailing stop distance below the high-water mark (null disables)\n  trailingStopPercent Decimal?\n  // Take-profit ladder: [{ \"gainPercent\": 0.25, \"sellFraction\": 0.3 }, ...] (replaces takeProfitPercent)\n  takeProfitLadder    Json?\n  updatedAt           DateTime @updatedAt\n}\n\nmodel BacktestRecord {\n  id          String    @id @default(cuid())\n  status      String    @default(\"PENDING\") // 'PENDING', 'RUNNING', 'COMPLETED', 'FAILED'\n  settings    Json // TradeSettings fields the strategy ran with\n  options     Json // { quoteMint, initialCapital, tradeAmount, feeBps, defaultSlippageBps, maxHoldMs }\n  startDate   DateTime\n  endDate     DateTime\n  report      Json? // { summary, trades, positions, equityCurve }\n  error       String?\n  createdAt   DateTime  @default(now())\n  completedAt DateTime?\n\n  @@index([createdAt])\n}\n\nmodel PriceRecord {\n  id         String   @id @default(cuid())\n  eventId    String?  @unique // PRICE_UPDATE event the record was written for\n  token      String\n  price      Decimal\n  source     String\n  confidence Decimal\n  volume24h  Decimal?\n  timestamp  DateTime @default(now())\n\n  @@index([token, timestamp])\n  @@index([token])\n}\n\nmodel MarketRecord {\n  id           String   @id @default(cuid())\n  address      String   @unique\n  baseMint     String\n  quoteMint    String\n  dexType      String // 'OPENBOOK', 'RAYDIUM', 'ORCA', 'METEORA'\n  discoveredAt DateTime @default(now())\n  status       String   @default(\"DISCOVERED\") // DISCOVERED, VALIDATING, VALIDATED, REJECTED\n  validations  Json? // Store validation results\n  marketData   Json? // Additional market data (name, minOrderSize, tickSize, etc.)\n\n  @@index([baseMint])\n  @@index([quoteMint])\n  @@index([dexType])\n  @@index([status])\n}\n\nmodel TokenValidationRecord {\n  id                String   @id @default(cuid())\n  eventId           String?  @unique // TOKEN_VALIDATED event the record was written for\n  token             String\n  isRenounced       Boolean?\n  isBurned          Boolean?\n  isLocked          Boolean?\n  lpBurnedCount     Int?\n  confidence        Decimal\n  validatedAt       DateTime @default(now())\n  txSignature       String?\n  validationDetails Json? // Detailed validation results\n\n  @@index([token])\n  @@index([validatedAt])\n}\n\nmodel DiscoveredPool {\n  id            String   @id @default(cuid())\n  address       String   @unique\n  dexType       String // 'RAYDIUM', 'ORCA', 'METEORA'\n  tokenA        String\n  tokenB        String\n  initialTvl    Decimal\n  discoveredAt  DateTime @default(now())\n  status        String   @default(\"MONITORING\") // MONITORING, IGNORED, ERROR\n  poolData      Json? // Additional pool data (lpMint, feeRate, etc.)\n  marketAddress String? // MarketRecord trading the same mint pair\n  creator       String? // Fee payer of the pool creation transaction\n\n  @@index([tokenA])\n  @@index([tokenB])\n  @@index([dexType])\n  @@index([status])\n  @@index([marketAddress])\n  @@index([creator])\n}\n\nmodel OutboxEvent {\n  id        String    @id @default(cuid())\n  eventId   String    @unique // id of the event, relayed as the BullMQ job id\n  eventType String\n  payload   Json // the full event\n  status    String    @default(\"PENDING\") // 'PENDING', 'SENT', 'FAILED'\n  attempts  Int       @default(0) // times the event was marked FAILED\n  lastError String?\n  createdAt DateTime  @default(now())\n  sentAt    DateTime?\n\n  @@index([status, createdAt])\n}\n\nmodel StoredEvent {\n  eventId   String   @id\n  type      String\n  payload   Json // the full event\n  source    String? // worker that produced the event\n  slot      BigInt? // Solana slot, when the event carries one\n  timestamp DateTime // event time, replay order\n  storedAt  DateTime @default(now())\n\n  @@index([timestamp, eventId])\n  @@index([type, timestamp])\n}\n\nmodel QueueAuditLog {\n  id        String   @id @default(cuid())\n  action    String // 'PAUSE', 'RESUME', 'DRAIN', 'RETRY_FAILED', 'CLEAN', 'PROMOTE'\n  queueName String\n  actor     String? // operator that made the request, when given\n  params    Json?\n  result    Json?\n  success   Boolean\n  error     String?\n  createdAt DateTime @default(now())\n\n  @@index([queueName, createdAt])\n  @@index([createdAt])\n}\n",
     runtimeDataModel: {
         models: {},
         enums: {},
         types: {},
     },
 };
-config.runtimeDataModel = JSON.parse('{"models":{"Account":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"publicKey","kind":"scalar","type":"String"},{"name":"balance","kind":"scalar","type":"Decimal"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"positions","kind":"object","type":"Position","relationName":"AccountToPosition"}],"dbName":null},"Transaction":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"signature","kind":"scalar","type":"String"},{"name":"type","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"token","kind":"scalar","type":"String"},{"name":"from","kind":"scalar","type":"String"},{"name":"to","kind":"scalar","type":"String"},{"name":"timestamp","kind":"scalar","type":"DateTime"}],"dbName":null},"Position":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"accountId","kind":"scalar","type":"String"},{"name":"account","kind":"object","type":"Account","relationName":"AccountToPosition"},{"name":"token","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"entryPrice","kind":"scalar","type":"Decimal"},{"name":"currentPrice","kind":"scalar","type":"Decimal"},{"name":"pnl","kind":"scalar","type":"Decimal"},{"name":"status","kind":"scalar","type":"String"},{"name":"openedAt","kind":"scalar","type":"DateTime"},{"name":"closedAt","kind":"scalar","type":"DateTime"},{"name":"stopLoss","kind":"scalar","type":"Decimal"},{"name":"takeProfit","kind":"scalar","type":"Decimal"},{"name":"trades","kind":"object","type":"Trade","relationName":"PositionToTrade"}],"dbName":null},"Trade":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"positionId","kind":"scalar","type":"String"},{"name":"position","kind":"object","type":"Position","relationName":"PositionToTrade"},{"name":"type","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"price","kind":"scalar","type":"Decimal"},{"name":"signature","kind":"scalar","type":"String"},{"name":"slippage","kind":"scalar","type":"Decimal"},{"name":"timestamp","kind":"scalar","type":"DateTime"}],"dbName":null},"BurnEventRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"txSignature","kind":"scalar","type":"String"},{"name":"token","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"percentage","kind":"scalar","type":"Decimal"},{"name":"timestamp","kind":"scalar","type":"DateTime"},{"name":"processed","kind":"scalar","type":"Boolean"}],"dbName":null},"LiquidityPoolRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"address","kind":"scalar","type":"String"},{"name":"tokenA","kind":"scalar","type":"String"},{"name":"tokenB","kind":"scalar","type":"String"},{"name":"tvl","kind":"scalar","type":"Decimal"},{"name":"price","kind":"scalar","type":"Decimal"},{"name":"volume24h","kind":"scalar","type":"Decimal"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":null},"WorkerStatusRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"status","kind":"scalar","type":"String"},{"name":"lastSeen","kind":"scalar","type":"DateTime"},{"name":"metrics","kind":"scalar","type":"Json"}],"dbName":null},"TradeSettings":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"enabled","kind":"scalar","type":"Boolean"},{"name":"maxSlippage","kind":"scalar","type":"Decimal"},{"name":"maxPositions","kind":"scalar","type":"Int"},{"name":"stopLossPercent","kind":"scalar","type":"Decimal"},{"name":"takeProfitPercent","kind":"scalar","type":"Decimal"},{"name":"minBurnAmount","kind":"scalar","type":"Decimal"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":null},"PriceRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"token","kind":"scalar","type":"String"},{"name":"price","kind":"scalar","type":"Decimal"},{"name":"source","kind":"scalar","type":"String"},{"name":"confidence","kind":"scalar","type":"Decimal"},{"name":"volume24h","kind":"scalar","type":"Decimal"},{"name":"timestamp","kind":"scalar","type":"DateTime"}],"dbName":null},"MarketRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"address","kind":"scalar","type":"String"},{"name":"baseMint","kind":"scalar","type":"String"},{"name":"quoteMint","kind":"scalar","type":"String"},{"name":"dexType","kind":"scalar","type":"String"},{"name":"discoveredAt","kind":"scalar","type":"DateTime"},{"name":"status","kind":"scalar","type":"String"},{"name":"validations","kind":"scalar","type":"Json"},{"name":"marketData","kind":"scalar","type":"Json"}],"dbName":null},"TokenValidationRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"token","kind":"scalar","type":"String"},{"name":"isRenounced","kind":"scalar","type":"Boolean"},{"name":"isBurned","kind":"scalar","type":"Boolean"},{"name":"isLocked","kind":"scalar","type":"Boolean"},{"name":"lpBurnedCount","kind":"scalar","type":"Int"},{"name":"confidence","kind":"scalar","type":"Decimal"},{"name":"validatedAt","kind":"scalar","type":"DateTime"},{"name":"txSignature","kind":"scalar","type":"String"},{"name":"validationDetails","kind":"scalar","type":"Json"}],"dbName":null},"DiscoveredPool":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"address","kind":"scalar","type":"String"},{"name":"dexType","kind":"scalar","type":"String"},{"name":"tokenA","kind":"scalar","type":"String"},{"name":"tokenB","kind":"scalar","type":"String"},{"name":"initialTvl","kind":"scalar","type":"Decimal"},{"name":"discoveredAt","kind":"scalar","type":"DateTime"},{"name":"status","kind":"scalar","type":"String"},{"name":"poolData","kind":"scalar","type":"Json"}],"dbName":null}},"enums":{},"types":{}}');
+config.runtimeDataModel = JSON.parse('{"models":{"Account":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"publicKey","kind":"scalar","type":"String"},{"name":"balance","kind":"scalar","type":"Decimal"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"positions","kind":"object","type":"Position","relationName":"AccountToPosition"}],"dbName":null},"Transaction":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"signature","kind":"scalar","type":"String"},{"name":"type","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"token","kind":"scalar","type":"String"},{"name":"from","kind":"scalar","type":"String"},{"name":"to","kind":"scalar","type":"String"},{"name":"timestamp","kind":"scalar","type":"DateTime"}],"dbName":null},"Position":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"accountId","kind":"scalar","type":"String"},{"name":"account","kind":"object","type":"Account","relationName":"AccountToPosition"},{"name":"token","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"entryPrice","kind":"scalar","type":"Decimal"},{"name":"currentPrice","kind":"scalar","type":"Decimal"},{"name":"pnl","kind":"scalar","type":"Decimal"},{"name":"pnlPercent","kind":"scalar","type":"Decimal"},{"name":"realizedPnl","kind":"scalar","type":"Decimal"},{"name":"status","kind":"scalar","type":"String"},{"name":"mode","kind":"scalar","type":"String"},{"name":"openedAt","kind":"scalar","type":"DateTime"},{"name":"closedAt","kind":"scalar","type":"DateTime"},{"name":"closeReason","kind":"scalar","type":"String"},{"name":"stopLoss","kind":"scalar","type":"Decimal"},{"name":"takeProfit","kind":"scalar","type":"Decimal"},{"name":"trailingStopPercent","kind":"scalar","type":"Decimal"},{"name":"highWaterMark","kind":"scalar","type":"Decimal"},{"name":"trades","kind":"object","type":"Trade","relationName":"PositionToTrade"},{"name":"takeProfitLevels","kind":"object","type":"TakeProfitLevel","relationName":"PositionToTakeProfitLevel"}],"dbName":null},"TakeProfitLevel":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"positionId","kind":"scalar","type":"String"},{"name":"position","kind":"object","type":"Position","relationName":"PositionToTakeProfitLevel"},{"name":"level","kind":"scalar","type":"Int"},{"name":"targetPrice","kind":"scalar","type":"Decimal"},{"name":"sellFraction","kind":"scalar","type":"Decimal"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"filledAt","kind":"scalar","type":"DateTime"}],"dbName":null},"Trade":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"positionId","kind":"scalar","type":"String"},{"name":"position","kind":"object","type":"Position","relationName":"PositionToTrade"},{"name":"type","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"price","kind":"scalar","type":"Decimal"},{"name":"signature","kind":"scalar","type":"String"},{"name":"slippage","kind":"scalar","type":"Decimal"},{"name":"fee","kind":"scalar","type":"Decimal"},{"name":"mode","kind":"scalar","type":"String"},{"name":"timestamp","kind":"scalar","type":"DateTime"}],"dbName":null},"TradeIntent":{"fields":[{"name":"eventId","kind":"scalar","type":"String"},{"name":"token","kind":"scalar","type":"String"},{"name":"mode","kind":"scalar","type":"String"},{"name":"positionId","kind":"scalar","type":"String"},{"name":"signature","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"}],"dbName":null},"BurnEventRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"txSignature","kind":"scalar","type":"String"},{"name":"token","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"percentage","kind":"scalar","type":"Decimal"},{"name":"timestamp","kind":"scalar","type":"DateTime"},{"name":"processed","kind":"scalar","type":"Boolean"}],"dbName":null},"LiquidityPoolRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"address","kind":"scalar","type":"String"},{"name":"tokenA","kind":"scalar","type":"String"},{"name":"tokenB","kind":"scalar","type":"String"},{"name":"tvl","kind":"scalar","type":"Decimal"},{"name":"price","kind":"scalar","type":"Decimal"},{"name":"volume24h","kind":"scalar","type":"Decimal"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":null},"WorkerStatusRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"status","kind":"scalar","type":"String"},{"name":"lastSeen","kind":"scalar","type":"DateTime"},{"name":"metrics","kind":"scalar","type":"Json"}],"dbName":null},"TradeSettings":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"enabled","kind":"scalar","type":"Boolean"},{"name":"mode","kind":"scalar","type":"String"},{"name":"maxSlippage","kind":"scalar","type":"Decimal"},{"name":"maxPositions","kind":"scalar","type":"Int"},{"name":"stopLossPercent","kind":"scalar","type":"Decimal"},{"name":"takeProfitPercent","kind":"scalar","type":"Decimal"},{"name":"minBurnAmount","kind":"scalar","type":"Decimal"},{"name":"trailingStopPercent","kind":"scalar","type":"Decimal"},{"name":"takeProfitLadder","kind":"scalar","type":"Json"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":null},"BacktestRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"status","kind":"scalar","type":"String"},{"name":"settings","kind":"scalar","type":"Json"},{"name":"options","kind":"scalar","type":"Json"},{"name":"startDate","kind":"scalar","type":"DateTime"},{"name":"endDate","kind":"scalar","type":"DateTime"},{"name":"report","kind":"scalar","type":"Json"},{"name":"error","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"completedAt","kind":"scalar","type":"DateTime"}],"dbName":null},"PriceRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"eventId","kind":"scalar","type":"String"},{"name":"token","kind":"scalar","type":"String"},{"name":"price","kind":"scalar","type":"Decimal"},{"name":"source","kind":"scalar","type":"String"},{"name":"confidence","kind":"scalar","type":"Decimal"},{"name":"volume24h","kind":"scalar","type":"Decimal"},{"name":"timestamp","kind":"scalar","type":"DateTime"}],"dbName":null},"MarketRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"address","kind":"scalar","type":"String"},{"name":"baseMint","kind":"scalar","type":"String"},{"name":"quoteMint","kind":"scalar","type":"String"},{"name":"dexType","kind":"scalar","type":"String"},{"name":"discoveredAt","kind":"scalar","type":"DateTime"},{"name":"status","kind":"scalar","type":"String"},{"name":"validations","kind":"scalar","type":"Json"},{"name":"marketData","kind":"scalar","type":"Json"}],"dbName":null},"TokenValidationRecord":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"eventId","kind":"scalar","type":"String"},{"name":"token","kind":"scalar","type":"String"},{"name":"isRenounced","kind":"scalar","type":"Boolean"},{"name":"isBurned","kind":"scalar","type":"Boolean"},{"name":"isLocked","kind":"scalar","type":"Boolean"},{"name":"lpBurnedCount","kind":"scalar","type":"Int"},{"name":"confidence","kind":"scalar","type":"Decimal"},{"name":"validatedAt","kind":"scalar","type":"DateTime"},{"name":"txSignature","kind":"scalar","type":"String"},{"name":"validationDetails","kind":"scalar","type":"Json"}],"dbName":null},"DiscoveredPool":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"address","kind":"scalar","type":"String"},{"name":"dexType","kind":"scalar","type":"String"},{"name":"tokenA","kind":"scalar","type":"String"},{"name":"tokenB","kind":"scalar","type":"String"},{"name":"initialTvl","kind":"scalar","type":"Decimal"},{"name":"discoveredAt","kind":"scalar","type":"DateTime"},{"name":"status","kind":"scalar","type":"String"},{"name":"poolData","kind":"scalar","type":"Json"},{"name":"marketAddress","kind":"scalar","type":"String"},{"name":"creator","kind":"scalar","type":"String"}],"dbName":null},"OutboxEvent":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"eventId","kind":"scalar","type":"String"},{"name":"eventType","kind":"scalar","type":"String"},{"name":"payload","kind":"scalar","type":"Json"},{"name":"status","kind":"scalar","type":"String"},{"name":"attempts","kind":"scalar","type":"Int"},{"name":"lastError","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"sentAt","kind":"scalar","type":"DateTime"}],"dbName":null},"StoredEvent":{"fields":[{"name":"eventId","kind":"scalar","type":"String"},{"name":"type","kind":"scalar","type":"String"},{"name":"payload","kind":"scalar","type":"Json"},{"name":"source","kind":"scalar","type":"String"},{"name":"slot","kind":"scalar","type":"BigInt"},{"name":"timestamp","kind":"scalar","type":"DateTime"},{"name":"storedAt","kind":"scalar","type":"DateTime"}],"dbName":null},"QueueAuditLog":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"action","kind":"scalar","type":"String"},{"name":"queueName","kind":"scalar","type":"String"},{"name":"actor","kind":"scalar","type":"String"},{"name":"params","kind":"scalar","type":"Json"},{"name":"result","kind":"scalar","type":"Json"},{"name":"success","kind":"scalar","type":"Boolean"},{"name":"error","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"}],"dbName":null}},"enums":{},"types":{}}');
 async function decodeBase64AsWasm(wasmBase64) {
     const { Buffer } = await import('node:buffer');
     const wasmArray = Buffer.from(wasmBase64, 'base64');
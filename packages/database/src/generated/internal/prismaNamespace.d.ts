@@ -234,15 +234,21 @@ export declare const ModelName: {
     readonly Account: "Account";
     readonly Transaction: "Transaction";
     readonly Position: "Position";
+    readonly TakeProfitLevel: "TakeProfitLevel";
     readonly Trade: "Trade";
+    readonly TradeIntent: "TradeIntent";
     readonly BurnEventRecord: "BurnEventRecord";
     readonly LiquidityPoolRecord: "LiquidityPoolRecord";
     readonly WorkerStatusRecord: "WorkerStatusRecord";
     readonly TradeSettings: "TradeSettings";
+    readonly BacktestRecord: "BacktestRecord";
     readonly PriceRecord: "PriceRecord";
     readonly MarketRecord: "MarketRecord";
     readonly TokenValidationRecord: "TokenValidationRecord";
     readonly DiscoveredPool: "DiscoveredPool";
+    readonly OutboxEvent: "OutboxEvent";
+    readonly StoredEvent: "StoredEvent";
+    readonly QueueAuditLog: "QueueAuditLog";
 };
 export type ModelName = (typeof ModelName)[keyof typeof ModelName];
 export interface TypeMapCb<GlobalOmitOptions = {}> extends runtime.Types.Utils.Fn<{
@@ -255,7 +261,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         omit: GlobalOmitOptions;
     };
     meta: {
-        modelProps: 'account' | 'transaction' | 'position' | 'trade' | 'burnEventRecord' | 'liquidityPoolRecord' | 'workerStatusRecord' | 'tradeSettings' | 'priceRecord' | 'marketRecord' | 'tokenValidationRecord' | 'discoveredPool';
+        modelProps: 'account' | 'transaction' | 'position' | 'takeProfitLevel' | 'trade' | 'tradeIntent' | 'burnEventRecord' | 'liquidityPoolRecord' | 'workerStatusRecord' | 'tradeSettings' | 'backtestRecord' | 'priceRecord' | 'marketRecord' | 'tokenValidationRecord' | 'discoveredPool' | 'outboxEvent' | 'storedEvent' | 'queueAuditLog';
         txIsolationLevel: TransactionIsolationLevel;
     };
     model: {
@@ -481,6 +487,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
                 };
             };
         };
+        TakeProfitLevel: {
+            payload: Prisma.$TakeProfitLevelPayload<ExtArgs>;
+            fields: Prisma.TakeProfitLevelFieldRefs;
+            operations: {
+                findUnique: {
+                    args: Prisma.TakeProfitLevelFindUniqueArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload> | null;
+                };
+                findUniqueOrThrow: {
+                    args: Prisma.TakeProfitLevelFindUniqueOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+                };
+                findFirst: {
+                    args: Prisma.TakeProfitLevelFindFirstArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload> | null;
+                };
+                findFirstOrThrow: {
+                    args: Prisma.TakeProfitLevelFindFirstOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+                };
+                findMany: {
+                    args: Prisma.TakeProfitLevelFindManyArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>[];
+                };
+                create: {
+                    args: Prisma.TakeProfitLevelCreateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+                };
+                createMany: {
+                    args: Prisma.TakeProfitLevelCreateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                createManyAndReturn: {
+                    args: Prisma.TakeProfitLevelCreateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>[];
+                };
+                delete: {
+                    args: Prisma.TakeProfitLevelDeleteArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+                };
+                update: {
+                    args: Prisma.TakeProfitLevelUpdateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+                };
+                deleteMany: {
+                    args: Prisma.TakeProfitLevelDeleteManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateMany: {
+                    args: Prisma.TakeProfitLevelUpdateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateManyAndReturn: {
+                    args: Prisma.TakeProfitLevelUpdateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>[];
+                };
+                upsert: {
+                    args: Prisma.TakeProfitLevelUpsertArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+                };
+                aggregate: {
+                    args: Prisma.TakeProfitLevelAggregateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.AggregateTakeProfitLevel>;
+                };
+                groupBy: {
+                    args: Prisma.TakeProfitLevelGroupByArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.TakeProfitLevelGroupByOutputType>[];
+                };
+                count: {
+                    args: Prisma.TakeProfitLevelCountArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.TakeProfitLevelCountAggregateOutputType> | number;
+                };
+            };
+        };
         Trade: {
             payload: Prisma.$TradePayload<ExtArgs>;
             fields: Prisma.TradeFieldRefs;
@@ -555,6 +635,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
                 };
             };
         };
+        TradeIntent: {
+            payload: Prisma.$TradeIntentPayload<ExtArgs>;
+            fields: Prisma.TradeIntentFieldRefs;
+            operations: {
+                findUnique: {
+                    args: Prisma.TradeIntentFindUniqueArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload> | null;
+                };
+                findUniqueOrThrow: {
+                    args: Prisma.TradeIntentFindUniqueOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+                };
+                findFirst: {
+                    args: Prisma.TradeIntentFindFirstArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload> | null;
+                };
+                findFirstOrThrow: {
+                    args: Prisma.TradeIntentFindFirstOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+                };
+                findMany: {
+                    args: Prisma.TradeIntentFindManyArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>[];
+                };
+                create: {
+                    args: Prisma.TradeIntentCreateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+                };
+                createMany: {
+                    args: Prisma.TradeIntentCreateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                createManyAndReturn: {
+                    args: Prisma.TradeIntentCreateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>[];
+                };
+                delete: {
+                    args: Prisma.TradeIntentDeleteArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+                };
+                update: {
+                    args: Prisma.TradeIntentUpdateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+                };
+                deleteMany: {
+                    args: Prisma.TradeIntentDeleteManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateMany: {
+                    args: Prisma.TradeIntentUpdateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateManyAndReturn: {
+                    args: Prisma.TradeIntentUpdateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>[];
+                };
+                upsert: {
+                    args: Prisma.TradeIntentUpsertArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+                };
+                aggregate: {
+                    args: Prisma.TradeIntentAggregateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.AggregateTradeIntent>;
+                };
+                groupBy: {
+                    args: Prisma.TradeIntentGroupByArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.TradeIntentGroupByOutputType>[];
+                };
+                count: {
+                    args: Prisma.TradeIntentCountArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.TradeIntentCountAggregateOutputType> | number;
+                };
+            };
+        };
         BurnEventRecord: {
             payload: Prisma.$BurnEventRecordPayload<ExtArgs>;
             fields: Prisma.BurnEventRecordFieldRefs;
@@ -851,6 +1005,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
                 };
             };
         };
+        BacktestRecord: {
+            payload: Prisma.$BacktestRecordPayload<ExtArgs>;
+            fields: Prisma.BacktestRecordFieldRefs;
+            operations: {
+                findUnique: {
+                    args: Prisma.BacktestRecordFindUniqueArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload> | null;
+                };
+                findUniqueOrThrow: {
+                    args: Prisma.BacktestRecordFindUniqueOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+                };
+                findFirst: {
+                    args: Prisma.BacktestRecordFindFirstArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload> | null;
+                };
+                findFirstOrThrow: {
+                    args: Prisma.BacktestRecordFindFirstOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+                };
+                findMany: {
+                    args: Prisma.BacktestRecordFindManyArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>[];
+                };
+                create: {
+                    args: Prisma.BacktestRecordCreateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+                };
+                createMany: {
+                    args: Prisma.BacktestRecordCreateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                createManyAndReturn: {
+                    args: Prisma.BacktestRecordCreateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>[];
+                };
+                delete: {
+                    args: Prisma.BacktestRecordDeleteArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+                };
+                update: {
+                    args: Prisma.BacktestRecordUpdateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+                };
+                deleteMany: {
+                    args: Prisma.BacktestRecordDeleteManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateMany: {
+                    args: Prisma.BacktestRecordUpdateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateManyAndReturn: {
+                    args: Prisma.BacktestRecordUpdateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>[];
+                };
+                upsert: {
+                    args: Prisma.BacktestRecordUpsertArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+                };
+                aggregate: {
+                    args: Prisma.BacktestRecordAggregateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.AggregateBacktestRecord>;
+                };
+                groupBy: {
+                    args: Prisma.BacktestRecordGroupByArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.BacktestRecordGroupByOutputType>[];
+                };
+                count: {
+                    args: Prisma.BacktestRecordCountArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.BacktestRecordCountAggregateOutputType> | number;
+                };
+            };
+        };
         PriceRecord: {
             payload: Prisma.$PriceRecordPayload<ExtArgs>;
             fields: Prisma.PriceRecordFieldRefs;
@@ -1147,6 +1375,228 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
                 };
             };
         };
+        OutboxEvent: {
+            payload: Prisma.$OutboxEventPayload<ExtArgs>;
+            fields: Prisma.OutboxEventFieldRefs;
+            operations: {
+                findUnique: {
+                    args: Prisma.OutboxEventFindUniqueArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload> | null;
+                };
+                findUniqueOrThrow: {
+                    args: Prisma.OutboxEventFindUniqueOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+                };
+                findFirst: {
+                    args: Prisma.OutboxEventFindFirstArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload> | null;
+                };
+                findFirstOrThrow: {
+                    args: Prisma.OutboxEventFindFirstOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+                };
+                findMany: {
+                    args: Prisma.OutboxEventFindManyArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>[];
+                };
+                create: {
+                    args: Prisma.OutboxEventCreateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+                };
+                createMany: {
+                    args: Prisma.OutboxEventCreateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                createManyAndReturn: {
+                    args: Prisma.OutboxEventCreateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>[];
+                };
+                delete: {
+                    args: Prisma.OutboxEventDeleteArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+                };
+                update: {
+                    args: Prisma.OutboxEventUpdateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+                };
+                deleteMany: {
+                    args: Prisma.OutboxEventDeleteManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateMany: {
+                    args: Prisma.OutboxEventUpdateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateManyAndReturn: {
+                    args: Prisma.OutboxEventUpdateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>[];
+                };
+                upsert: {
+                    args: Prisma.OutboxEventUpsertArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+                };
+                aggregate: {
+                    args: Prisma.OutboxEventAggregateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.AggregateOutboxEvent>;
+                };
+                groupBy: {
+                    args: Prisma.OutboxEventGroupByArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.OutboxEventGroupByOutputType>[];
+                };
+                count: {
+                    args: Prisma.OutboxEventCountArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.OutboxEventCountAggregateOutputType> | number;
+                };
+            };
+        };
+        StoredEvent: {
+            payload: Prisma.$StoredEventPayload<ExtArgs>;
+            fields: Prisma.StoredEventFieldRefs;
+            operations: {
+                findUnique: {
+                    args: Prisma.StoredEventFindUniqueArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload> | null;
+                };
+                findUniqueOrThrow: {
+                    args: Prisma.StoredEventFindUniqueOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+                };
+                findFirst: {
+                    args: Prisma.StoredEventFindFirstArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload> | null;
+                };
+                findFirstOrThrow: {
+                    args: Prisma.StoredEventFindFirstOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+                };
+                findMany: {
+                    args: Prisma.StoredEventFindManyArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>[];
+                };
+                create: {
+                    args: Prisma.StoredEventCreateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+                };
+                createMany: {
+                    args: Prisma.StoredEventCreateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                createManyAndReturn: {
+                    args: Prisma.StoredEventCreateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>[];
+                };
+                delete: {
+                    args: Prisma.StoredEventDeleteArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+                };
+                update: {
+                    args: Prisma.StoredEventUpdateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+                };
+                deleteMany: {
+                    args: Prisma.StoredEventDeleteManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateMany: {
+                    args: Prisma.StoredEventUpdateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateManyAndReturn: {
+                    args: Prisma.StoredEventUpdateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>[];
+                };
+                upsert: {
+                    args: Prisma.StoredEventUpsertArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+                };
+                aggregate: {
+                    args: Prisma.StoredEventAggregateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.AggregateStoredEvent>;
+                };
+                groupBy: {
+                    args: Prisma.StoredEventGroupByArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.StoredEventGroupByOutputType>[];
+                };
+                count: {
+                    args: Prisma.StoredEventCountArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.StoredEventCountAggregateOutputType> | number;
+                };
+            };
+        };
+        QueueAuditLog: {
+            payload: Prisma.$QueueAuditLogPayload<ExtArgs>;
+            fields: Prisma.QueueAuditLogFieldRefs;
+            operations: {
+                findUnique: {
+                    args: Prisma.QueueAuditLogFindUniqueArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload> | null;
+                };
+                findUniqueOrThrow: {
+                    args: Prisma.QueueAuditLogFindUniqueOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+                };
+                findFirst: {
+                    args: Prisma.QueueAuditLogFindFirstArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload> | null;
+                };
+                findFirstOrThrow: {
+                    args: Prisma.QueueAuditLogFindFirstOrThrowArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+                };
+                findMany: {
+                    args: Prisma.QueueAuditLogFindManyArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>[];
+                };
+                create: {
+                    args: Prisma.QueueAuditLogCreateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+                };
+                createMany: {
+                    args: Prisma.QueueAuditLogCreateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                createManyAndReturn: {
+                    args: Prisma.QueueAuditLogCreateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>[];
+                };
+                delete: {
+                    args: Prisma.QueueAuditLogDeleteArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+                };
+                update: {
+                    args: Prisma.QueueAuditLogUpdateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+                };
+                deleteMany: {
+                    args: Prisma.QueueAuditLogDeleteManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateMany: {
+                    args: Prisma.QueueAuditLogUpdateManyArgs<ExtArgs>;
+                    result: BatchPayload;
+                };
+                updateManyAndReturn: {
+                    args: Prisma.QueueAuditLogUpdateManyAndReturnArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>[];
+                };
+                upsert: {
+                    args: Prisma.QueueAuditLogUpsertArgs<ExtArgs>;
+                    result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+                };
+                aggregate: {
+                    args: Prisma.QueueAuditLogAggregateArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.AggregateQueueAuditLog>;
+                };
+                groupBy: {
+                    args: Prisma.QueueAuditLogGroupByArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.QueueAuditLogGroupByOutputType>[];
+                };
+                count: {
+                    args: Prisma.QueueAuditLogCountArgs<ExtArgs>;
+                    result: runtime.Types.Utils.Optional<Prisma.QueueAuditLogCountAggregateOutputType> | number;
+                };
+            };
+        };
     };
 } & {
     other: {
@@ -1208,13 +1658,29 @@ export declare const PositionScalarFieldEnum: {
     readonly entryPrice: "entryPrice";
     readonly currentPrice: "currentPrice";
     readonly pnl: "pnl";
+    readonly pnlPercent: "pnlPercent";
+    readonly realizedPnl: "realizedPnl";
     readonly status: "status";
+    readonly mode: "mode";
     readonly openedAt: "openedAt";
     readonly closedAt: "closedAt";
+    readonly closeReason: "closeReason";
     readonly stopLoss: "stopLoss";
     readonly takeProfit: "takeProfit";
+    readonly trailingStopPercent: "trailingStopPercent";
+    readonly highWaterMark: "highWaterMark";
 };
 export type PositionScalarFieldEnum = (typeof PositionScalarFieldEnum)[keyof typeof PositionScalarFieldEnum];
+export declare const TakeProfitLevelScalarFieldEnum: {
+    readonly id: "id";
+    readonly positionId: "positionId";
+    readonly level: "level";
+    readonly targetPrice: "targetPrice";
+    readonly sellFraction: "sellFraction";
+    readonly amount: "amount";
+    readonly filledAt: "filledAt";
+};
+export type TakeProfitLevelScalarFieldEnum = (typeof TakeProfitLevelScalarFieldEnum)[keyof typeof TakeProfitLevelScalarFieldEnum];
 export declare const TradeScalarFieldEnum: {
     readonly id: "id";
     readonly positionId: "positionId";
@@ -1223,9 +1689,20 @@ export declare const TradeScalarFieldEnum: {
     readonly price: "price";
     readonly signature: "signature";
     readonly slippage: "slippage";
+    readonly fee: "fee";
+    readonly mode: "mode";
     readonly timestamp: "timestamp";
 };
 export type TradeScalarFieldEnum = (typeof TradeScalarFieldEnum)[keyof typeof TradeScalarFieldEnum];
+export declare const TradeIntentScalarFieldEnum: {
+    readonly eventId: "eventId";
+    readonly token: "token";
+    readonly mode: "mode";
+    readonly positionId: "positionId";
+    readonly signature: "signature";
+    readonly createdAt: "createdAt";
+};
+export type TradeIntentScalarFieldEnum = (typeof TradeIntentScalarFieldEnum)[keyof typeof TradeIntentScalarFieldEnum];
 export declare const BurnEventRecordScalarFieldEnum: {
     readonly id: "id";
     readonly txSignature: "txSignature";
@@ -1259,16 +1736,33 @@ export declare const TradeSettingsScalarFieldEnum: {
     readonly id: "id";
     readonly name: "name";
     readonly enabled: "enabled";
+    readonly mode: "mode";
     readonly maxSlippage: "maxSlippage";
     readonly maxPositions: "maxPositions";
     readonly stopLossPercent: "stopLossPercent";
     readonly takeProfitPercent: "takeProfitPercent";
     readonly minBurnAmount: "minBurnAmount";
+    readonly trailingStopPercent: "trailingStopPercent";
+    readonly takeProfitLadder: "takeProfitLadder";
     readonly updatedAt: "updatedAt";
 };
 export type TradeSettingsScalarFieldEnum = (typeof TradeSettingsScalarFieldEnum)[keyof typeof TradeSettingsScalarFieldEnum];
+export declare const BacktestRecordScalarFieldEnum: {
+    readonly id: "id";
+    readonly status: "status";
+    readonly settings: "settings";
+    readonly options: "options";
+    readonly startDate: "startDate";
+    readonly endDate: "endDate";
+    readonly report: "report";
+    readonly error: "error";
+    readonly createdAt: "createdAt";
+    readonly completedAt: "completedAt";
+};
+export type BacktestRecordScalarFieldEnum = (typeof BacktestRecordScalarFieldEnum)[keyof typeof BacktestRecordScalarFieldEnum];
 export declare const PriceRecordScalarFieldEnum: {
     readonly id: "id";
+    readonly eventId: "eventId";
     readonly token: "token";
     readonly price: "price";
     readonly source: "source";
@@ -1291,6 +1785,7 @@ export declare const MarketRecordScalarFieldEnum: {
 export type MarketRecordScalarFieldEnum = (typeof MarketRecordScalarFieldEnum)[keyof typeof MarketRecordScalarFieldEnum];
 export declare const TokenValidationRecordScalarFieldEnum: {
     readonly id: "id";
+    readonly eventId: "eventId";
     readonly token: "token";
     readonly isRenounced: "isRenounced";
     readonly isBurned: "isBurned";
@@ -1312,8 +1807,44 @@ export declare const DiscoveredPoolScalarFieldEnum: {
     readonly discoveredAt: "discoveredAt";
     readonly status: "status";
     readonly poolData: "poolData";
+    readonly marketAddress: "marketAddress";
+    readonly creator: "creator";
 };
 export type DiscoveredPoolScalarFieldEnum = (typeof DiscoveredPoolScalarFieldEnum)[keyof typeof DiscoveredPoolScalarFieldEnum];
+export declare const OutboxEventScalarFieldEnum: {
+    readonly id: "id";
+    readonly eventId: "eventId";
+    readonly eventType: "eventType";
+    readonly payload: "payload";
+    readonly status: "status";
+    readonly attempts: "attempts";
+    readonly lastError: "lastError";
+    readonly createdAt: "createdAt";
+    readonly sentAt: "sentAt";
+};
+export type OutboxEventScalarFieldEnum = (typeof OutboxEventScalarFieldEnum)[keyof typeof OutboxEventScalarFieldEnum];
+export declare const StoredEventScalarFieldEnum: {
+    readonly eventId: "eventId";
+    readonly type: "type";
+    readonly payload: "payload";
+    readonly source: "source";
+    readonly slot: "slot";
+    readonly timestamp: "timestamp";
+    readonly storedAt: "storedAt";
+};
+export type StoredEventScalarFieldEnum = (typeof StoredEventScalarFieldEnum)[keyof typeof StoredEventScalarFieldEnum];
+export declare const QueueAuditLogScalarFieldEnum: {
+    readonly id: "id";
+    readonly action: "action";
+    readonly queueName: "queueName";
+    readonly actor: "actor";
+    readonly params: "params";
+    readonly result: "result";
+    readonly success: "success";
+    readonly error: "error";
+    readonly createdAt: "createdAt";
+};
+export type QueueAuditLogScalarFieldEnum = (typeof QueueAuditLogScalarFieldEnum)[keyof typeof QueueAuditLogScalarFieldEnum];
 export declare const SortOrder: {
     readonly asc: "asc";
     readonly desc: "desc";
@@ -1371,6 +1902,14 @@ export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel
  * Reference to a field of type 'DateTime[]'
  */
 export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime[]'>;
+/**
+ * Reference to a field of type 'Int'
+ */
+export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>;
+/**
+ * Reference to a field of type 'Int[]'
+ */
+export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>;
 /**
  * Reference to a field of type 'Boolean'
  */
@@ -1384,13 +1923,13 @@ export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'J
  */
 export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>;
 /**
- * Reference to a field of type 'Int'
+ * Reference to a field of type 'BigInt'
  */
-export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>;
+export type BigIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BigInt'>;
 /**
- * Reference to a field of type 'Int[]'
+ * Reference to a field of type 'BigInt[]'
  */
-export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>;
+export type ListBigIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BigInt[]'>;
 /**
  * Reference to a field of type 'Float'
  */
@@ -1496,15 +2035,21 @@ export type GlobalOmitConfig = {
     account?: Prisma.AccountOmit;
     transaction?: Prisma.TransactionOmit;
     position?: Prisma.PositionOmit;
+    takeProfitLevel?: Prisma.TakeProfitLevelOmit;
     trade?: Prisma.TradeOmit;
+    tradeIntent?: Prisma.TradeIntentOmit;
     burnEventRecord?: Prisma.BurnEventRecordOmit;
     liquidityPoolRecord?: Prisma.LiquidityPoolRecordOmit;
     workerStatusRecord?: Prisma.WorkerStatusRecordOmit;
     tradeSettings?: Prisma.TradeSettingsOmit;
+    backtestRecord?: Prisma.BacktestRecordOmit;
     priceRecord?: Prisma.PriceRecordOmit;
     marketRecord?: Prisma.MarketRecordOmit;
     tokenValidationRecord?: Prisma.TokenValidationRecordOmit;
     discoveredPool?: Prisma.DiscoveredPoolOmit;
+    outboxEvent?: Prisma.OutboxEventOmit;
+    storedEvent?: Prisma.StoredEventOmit;
+    queueAuditLog?: Prisma.QueueAuditLogOmit;
 };
 export type LogLevel = 'info' | 'query' | 'warn' | 'error';
 export type LogDefinition = {
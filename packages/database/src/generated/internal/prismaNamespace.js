@@ -70,15 +70,21 @@ export const ModelName = {
     Account: 'Account',
     Transaction: 'Transaction',
     Position: 'Position',
+    TakeProfitLevel: 'TakeProfitLevel',
     Trade: 'Trade',
+    TradeIntent: 'TradeIntent',
     BurnEventRecord: 'BurnEventRecord',
     LiquidityPoolRecord: 'LiquidityPoolRecord',
     WorkerStatusRecord: 'WorkerStatusRecord',
     TradeSettings: 'TradeSettings',
+    BacktestRecord: 'BacktestRecord',
     PriceRecord: 'PriceRecord',
     MarketRecord: 'MarketRecord',
     TokenValidationRecord: 'TokenValidationRecord',
     DiscoveredPool: 'DiscoveredPool',
+    OutboxEvent: 'OutboxEvent',
+    StoredEvent: 'StoredEvent',
+    QueueAuditLog: 'QueueAuditLog',
 };
 /**
  * Enums
@@ -114,11 +120,26 @@ export const PositionScalarFieldEnum = {
     entryPrice: 'entryPrice',
     currentPrice: 'currentPrice',
     pnl: 'pnl',
+    pnlPercent: 'pnlPercent',
+    realizedPnl: 'realizedPnl',
     status: 'status',
+    mode: 'mode',
     openedAt: 'openedAt',
     closedAt: 'closedAt',
+    closeReason: 'closeReason',
     stopLoss: 'stopLoss',
     takeProfit: 'takeProfit',
+    trailingStopPercent: 'trailingStopPercent',
+    highWaterMark: 'highWaterMark',
+};
+export const TakeProfitLevelScalarFieldEnum = {
+    id: 'id',
+    positionId: 'positionId',
+    level: 'level',
+    targetPrice: 'targetPrice',
+    sellFraction: 'sellFraction',
+    amount: 'amount',
+    filledAt: 'filledAt',
 };
 export const TradeScalarFieldEnum = {
     id: 'id',
@@ -128,8 +149,18 @@ export const TradeScalarFieldEnum = {
     price: 'price',
     signature: 'signature',
     slippage: 'slippage',
+    fee: 'fee',
+    mode: 'mode',
     timestamp: 'timestamp',
 };
+export const TradeIntentScalarFieldEnum = {
+    eventId: 'eventId',
+    token: 'token',
+    mode: 'mode',
+    positionId: 'positionId',
+    signature: 'signature',
+    createdAt: 'createdAt',
+};
 export const BurnEventRecordScalarFieldEnum = {
     id: 'id',
     txSignature: 'txSignature',
@@ -160,15 +191,31 @@ export const TradeSettingsScalarFieldEnum = {
     id: 'id',
     name: 'name',
     enabled: 'enabled',
+    mode: 'mode',
     maxSlippage: 'maxSlippage',
     maxPositions: 'maxPositions',
     stopLossPercent: 'stopLossPercent',
     takeProfitPercent: 'takeProfitPercent',
     minBurnAmount: 'minBurnAmount',
+    trailingStopPercent: 'trailingStopPercent',
+    takeProfitLadder: 'takeProfitLadder',
     updatedAt: 'updatedAt',
 };
+export const BacktestRecordScalarFieldEnum = {
+    id: 'id',
+    status: 'status',
+    settings: 'settings',
+    options: 'options',
+    startDate: 'startDate',
+    endDate: 'endDate',
+    report: 'report',
+    error: 'error',
+    createdAt: 'createdAt',
+    completedAt: 'completedAt',
+};
 export const PriceRecordScalarFieldEnum = {
     id: 'id',
+    eventId: 'eventId',
     token: 'token',
     price: 'price',
     source: 'source',
@@ -189,6 +236,7 @@ export const MarketRecordScalarFieldEnum = {
 };
 export const TokenValidationRecordScalarFieldEnum = {
     id: 'id',
+    eventId: 'eventId',
     token: 'token',
     isRenounced: 'isRenounced',
     isBurned: 'isBurned',
@@ -209,6 +257,39 @@ export const DiscoveredPoolScalarFieldEnum = {
     discoveredAt: 'discoveredAt',
     status: 'status',
     poolData: 'poolData',
+    marketAddress: 'marketAddress',
+    creator: 'creator',
+};
+export const OutboxEventScalarFieldEnum = {
+    id: 'id',
+    eventId: 'eventId',
+    eventType: 'eventType',
+    payload: 'payload',
+    status: 'status',
+    attempts: 'attempts',
+    lastError: 'lastError',
+    createdAt: 'createdAt',
+    sentAt: 'sentAt',
+};
+export const StoredEventScalarFieldEnum = {
+    eventId: 'eventId',
+    type: 'type',
+    payload: 'payload',
+    source: 'source',
+    slot: 'slot',
+    timestamp: 'timestamp',
+    storedAt: 'storedAt',
+};
+export const QueueAuditLogScalarFieldEnum = {
+    id: 'id',
+    action: 'action',
+    queueName: 'queueName',
+    actor: 'actor',
+    params: 'params',
+    result: 'result',
+    success: 'success',
+    error: 'error',
+    createdAt: 'createdAt',
 };
 export const SortOrder = {
     asc: 'asc',
@@ -378,15 +378,21 @@ export const ModelName = {
   Account: 'Account',
   Transaction: 'Transaction',
   Position: 'Position',
+  TakeProfitLevel: 'TakeProfitLevel',
   Trade: 'Trade',
+  TradeIntent: 'TradeIntent',
   BurnEventRecord: 'BurnEventRecord',
   LiquidityPoolRecord: 'LiquidityPoolRecord',
   WorkerStatusRecord: 'WorkerStatusRecord',
   TradeSettings: 'TradeSettings',
+  BacktestRecord: 'BacktestRecord',
   PriceRecord: 'PriceRecord',
   MarketRecord: 'MarketRecord',
   TokenValidationRecord: 'TokenValidationRecord',
   DiscoveredPool: 'DiscoveredPool',
+  OutboxEvent: 'OutboxEvent',
+  StoredEvent: 'StoredEvent',
+  QueueAuditLog: 'QueueAuditLog',
 } as const;
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName];
@@ -410,15 +416,21 @@ export type TypeMap<
       | 'account'
       | 'transaction'
       | 'position'
+      | 'takeProfitLevel'
       | 'trade'
+      | 'tradeIntent'
       | 'burnEventRecord'
       | 'liquidityPoolRecord'
       | 'workerStatusRecord'
       | 'tradeSettings'
+      | 'backtestRecord'
       | 'priceRecord'
       | 'marketRecord'
       | 'tokenValidationRecord'
-      | 'discoveredPool';
+      | 'discoveredPool'
+      | 'outboxEvent'
+      | 'storedEvent'
+      | 'queueAuditLog';
     txIsolationLevel: TransactionIsolationLevel;
   };
   model: {
@@ -644,6 +656,82 @@ export type TypeMap<
         };
       };
     };
+    TakeProfitLevel: {
+      payload: Prisma.$TakeProfitLevelPayload<ExtArgs>;
+      fields: Prisma.TakeProfitLevelFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.TakeProfitLevelFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.TakeProfitLevelFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+        };
+        findFirst: {
+          args: Prisma.TakeProfitLevelFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.TakeProfitLevelFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+        };
+        findMany: {
+          args: Prisma.TakeProfitLevelFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>[];
+        };
+        create: {
+          args: Prisma.TakeProfitLevelCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+        };
+        createMany: {
+          args: Prisma.TakeProfitLevelCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.TakeProfitLevelCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>[];
+        };
+        delete: {
+          args: Prisma.TakeProfitLevelDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+        };
+        update: {
+          args: Prisma.TakeProfitLevelUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+        };
+        deleteMany: {
+          args: Prisma.TakeProfitLevelDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.TakeProfitLevelUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.TakeProfitLevelUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>[];
+        };
+        upsert: {
+          args: Prisma.TakeProfitLevelUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TakeProfitLevelPayload>;
+        };
+        aggregate: {
+          args: Prisma.TakeProfitLevelAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTakeProfitLevel>;
+        };
+        groupBy: {
+          args: Prisma.TakeProfitLevelGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.TakeProfitLevelGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.TakeProfitLevelCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.TakeProfitLevelCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
     Trade: {
       payload: Prisma.$TradePayload<ExtArgs>;
       fields: Prisma.TradeFieldRefs;
@@ -718,6 +806,80 @@ export type TypeMap<
         };
       };
     };
+    TradeIntent: {
+      payload: Prisma.$TradeIntentPayload<ExtArgs>;
+      fields: Prisma.TradeIntentFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.TradeIntentFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.TradeIntentFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+        };
+        findFirst: {
+          args: Prisma.TradeIntentFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.TradeIntentFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+        };
+        findMany: {
+          args: Prisma.TradeIntentFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>[];
+        };
+        create: {
+          args: Prisma.TradeIntentCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+        };
+        createMany: {
+          args: Prisma.TradeIntentCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.TradeIntentCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>[];
+        };
+        delete: {
+          args: Prisma.TradeIntentDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+        };
+        update: {
+          args: Prisma.TradeIntentUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+        };
+        deleteMany: {
+          args: Prisma.TradeIntentDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.TradeIntentUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.TradeIntentUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>[];
+        };
+        upsert: {
+          args: Prisma.TradeIntentUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TradeIntentPayload>;
+        };
+        aggregate: {
+          args: Prisma.TradeIntentAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTradeIntent>;
+        };
+        groupBy: {
+          args: Prisma.TradeIntentGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.TradeIntentGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.TradeIntentCountArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.TradeIntentCountAggregateOutputType> | number;
+        };
+      };
+    };
     BurnEventRecord: {
       payload: Prisma.$BurnEventRecordPayload<ExtArgs>;
       fields: Prisma.BurnEventRecordFieldRefs;
@@ -1022,6 +1184,82 @@ export type TypeMap<
         };
       };
     };
+    BacktestRecord: {
+      payload: Prisma.$BacktestRecordPayload<ExtArgs>;
+      fields: Prisma.BacktestRecordFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.BacktestRecordFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.BacktestRecordFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+        };
+        findFirst: {
+          args: Prisma.BacktestRecordFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.BacktestRecordFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+        };
+        findMany: {
+          args: Prisma.BacktestRecordFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>[];
+        };
+        create: {
+          args: Prisma.BacktestRecordCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+        };
+        createMany: {
+          args: Prisma.BacktestRecordCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.BacktestRecordCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>[];
+        };
+        delete: {
+          args: Prisma.BacktestRecordDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+        };
+        update: {
+          args: Prisma.BacktestRecordUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+        };
+        deleteMany: {
+          args: Prisma.BacktestRecordDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.BacktestRecordUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.BacktestRecordUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>[];
+        };
+        upsert: {
+          args: Prisma.BacktestRecordUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BacktestRecordPayload>;
+        };
+        aggregate: {
+          args: Prisma.BacktestRecordAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBacktestRecord>;
+        };
+        groupBy: {
+          args: Prisma.BacktestRecordGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.BacktestRecordGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.BacktestRecordCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.BacktestRecordCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
     PriceRecord: {
       payload: Prisma.$PriceRecordPayload<ExtArgs>;
       fields: Prisma.PriceRecordFieldRefs;
@@ -1324,6 +1562,230 @@ export type TypeMap<
         };
       };
     };
+    OutboxEvent: {
+      payload: Prisma.$OutboxEventPayload<ExtArgs>;
+      fields: Prisma.OutboxEventFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.OutboxEventFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.OutboxEventFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+        };
+        findFirst: {
+          args: Prisma.OutboxEventFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.OutboxEventFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+        };
+        findMany: {
+          args: Prisma.OutboxEventFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>[];
+        };
+        create: {
+          args: Prisma.OutboxEventCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+        };
+        createMany: {
+          args: Prisma.OutboxEventCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.OutboxEventCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>[];
+        };
+        delete: {
+          args: Prisma.OutboxEventDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+        };
+        update: {
+          args: Prisma.OutboxEventUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+        };
+        deleteMany: {
+          args: Prisma.OutboxEventDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.OutboxEventUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.OutboxEventUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>[];
+        };
+        upsert: {
+          args: Prisma.OutboxEventUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OutboxEventPayload>;
+        };
+        aggregate: {
+          args: Prisma.OutboxEventAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOutboxEvent>;
+        };
+        groupBy: {
+          args: Prisma.OutboxEventGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.OutboxEventGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.OutboxEventCountArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.OutboxEventCountAggregateOutputType> | number;
+        };
+      };
+    };
+    StoredEvent: {
+      payload: Prisma.$StoredEventPayload<ExtArgs>;
+      fields: Prisma.StoredEventFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.StoredEventFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.StoredEventFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+        };
+        findFirst: {
+          args: Prisma.StoredEventFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.StoredEventFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+        };
+        findMany: {
+          args: Prisma.StoredEventFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>[];
+        };
+        create: {
+          args: Prisma.StoredEventCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+        };
+        createMany: {
+          args: Prisma.StoredEventCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.StoredEventCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>[];
+        };
+        delete: {
+          args: Prisma.StoredEventDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+        };
+        update: {
+          args: Prisma.StoredEventUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+        };
+        deleteMany: {
+          args: Prisma.StoredEventDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.StoredEventUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.StoredEventUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>[];
+        };
+        upsert: {
+          args: Prisma.StoredEventUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StoredEventPayload>;
+        };
+        aggregate: {
+          args: Prisma.StoredEventAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateStoredEvent>;
+        };
+        groupBy: {
+          args: Prisma.StoredEventGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.StoredEventGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.StoredEventCountArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.StoredEventCountAggregateOutputType> | number;
+        };
+      };
+    };
+    QueueAuditLog: {
+      payload: Prisma.$QueueAuditLogPayload<ExtArgs>;
+      fields: Prisma.QueueAuditLogFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.QueueAuditLogFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.QueueAuditLogFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+        };
+        findFirst: {
+          args: Prisma.QueueAuditLogFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.QueueAuditLogFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+        };
+        findMany: {
+          args: Prisma.QueueAuditLogFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>[];
+        };
+        create: {
+          args: Prisma.QueueAuditLogCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+        };
+        createMany: {
+          args: Prisma.QueueAuditLogCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.QueueAuditLogCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>[];
+        };
+        delete: {
+          args: Prisma.QueueAuditLogDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+        };
+        update: {
+          args: Prisma.QueueAuditLogUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+        };
+        deleteMany: {
+          args: Prisma.QueueAuditLogDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.QueueAuditLogUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.QueueAuditLogUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>[];
+        };
+        upsert: {
+          args: Prisma.QueueAuditLogUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QueueAuditLogPayload>;
+        };
+        aggregate: {
+          args: Prisma.QueueAuditLogAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateQueueAuditLog>;
+        };
+        groupBy: {
+          args: Prisma.QueueAuditLogGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.QueueAuditLogGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.QueueAuditLogCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.QueueAuditLogCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
   };
 } & {
   other: {
@@ -1396,16 +1858,35 @@ export const PositionScalarFieldEnum = {
   entryPrice: 'entryPrice',
   currentPrice: 'currentPrice',
   pnl: 'pnl',
+  pnlPercent: 'pnlPercent',
+  realizedPnl: 'realizedPnl',
   status: 'status',
+  mode: 'mode',
   openedAt: 'openedAt',
   closedAt: 'closedAt',
+  closeReason: 'closeReason',
   stopLoss: 'stopLoss',
   takeProfit: 'takeProfit',
+  trailingStopPercent: 'trailingStopPercent',
+  highWaterMark: 'highWaterMark',
 } as const;
 
 export type PositionScalarFieldEnum =
   (typeof PositionScalarFieldEnum)[keyof typeof PositionScalarFieldEnum];
 
+export const TakeProfitLevelScalarFieldEnum = {
+  id: 'id',
+  positionId: 'positionId',
+  level: 'level',
+  targetPrice: 'targetPrice',
+  sellFraction: 'sellFraction',
+  amount: 'amount',
+  filledAt: 'filledAt',
+} as const;
+
+export type TakeProfitLevelScalarFieldEnum =
+  (typeof TakeProfitLevelScalarFieldEnum)[keyof typeof TakeProfitLevelScalarFieldEnum];
+
 export const TradeScalarFieldEnum = {
   id: 'id',
   positionId: 'positionId',
@@ -1414,11 +1895,25 @@ export const TradeScalarFieldEnum = {
   price: 'price',
   signature: 'signature',
   slippage: 'slippage',
+  fee: 'fee',
+  mode: 'mode',
   timestamp: 'timestamp',
 } as const;
 
 export type TradeScalarFieldEnum = (typeof TradeScalarFieldEnum)[keyof typeof TradeScalarFieldEnum];
 
+export const TradeIntentScalarFieldEnum = {
+  eventId: 'eventId',
+  token: 'token',
+  mode: 'mode',
+  positionId: 'positionId',
+  signature: 'signature',
+  createdAt: 'createdAt',
+} as const;
+
+export type TradeIntentScalarFieldEnum =
+  (typeof TradeIntentScalarFieldEnum)[keyof typeof TradeIntentScalarFieldEnum];
+
 export const BurnEventRecordScalarFieldEnum = {
   id: 'id',
   txSignature: 'txSignature',
@@ -1461,19 +1956,39 @@ export const TradeSettingsScalarFieldEnum = {
   id: 'id',
   name: 'name',
   enabled: 'enabled',
+  mode: 'mode',
   maxSlippage: 'maxSlippage',
   maxPositions: 'maxPositions',
   stopLossPercent: 'stopLossPercent',
   takeProfitPercent: 'takeProfitPercent',
   minBurnAmount: 'minBurnAmount',
+  trailingStopPercent: 'trailingStopPercent',
+  takeProfitLadder: 'takeProfitLadder',
   updatedAt: 'updatedAt',
 } as const;
 
 export type TradeSettingsScalarFieldEnum =
   (typeof TradeSettingsScalarFieldEnum)[keyof typeof TradeSettingsScalarFieldEnum];
 
+export const BacktestRecordScalarFieldEnum = {
+  id: 'id',
+  status: 'status',
+  settings: 'settings',
+  options: 'options',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  report: 'report',
+  error: 'error',
+  createdAt: 'createdAt',
+  completedAt: 'completedAt',
+} as const;
+
+export type BacktestRecordScalarFieldEnum =
+  (typeof BacktestRecordScalarFieldEnum)[keyof typeof BacktestRecordScalarFieldEnum];
+
 export const PriceRecordScalarFieldEnum = {
   id: 'id',
+  eventId: 'eventId',
   token: 'token',
   price: 'price',
   source: 'source',
@@ -1502,6 +2017,7 @@ export type MarketRecordScalarFieldEnum =
 
 export const TokenValidationRecordScalarFieldEnum = {
   id: 'id',
+  eventId: 'eventId',
   token: 'token',
   isRenounced: 'isRenounced',
   isBurned: 'isBurned',
@@ -1526,11 +2042,56 @@ export const DiscoveredPoolScalarFieldEnum = {
   discoveredAt: 'discoveredAt',
   status: 'status',
   poolData: 'poolData',
+  marketAddress: 'marketAddress',
+  creator: 'creator',
 } as const;
 
 export type DiscoveredPoolScalarFieldEnum =
   (typeof DiscoveredPoolScalarFieldEnum)[keyof typeof DiscoveredPoolScalarFieldEnum];
 
+export const OutboxEventScalarFieldEnum = {
+  id: 'id',
+  eventId: 'eventId',
+  eventType: 'eventType',
+  payload: 'payload',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  createdAt: 'createdAt',
+  sentAt: 'sentAt',
+} as const;
+
+export type OutboxEventScalarFieldEnum =
+  (typeof OutboxEventScalarFieldEnum)[keyof typeof OutboxEventScalarFieldEnum];
+
+export const StoredEventScalarFieldEnum = {
+  eventId: 'eventId',
+  type: 'type',
+  payload: 'payload',
+  source: 'source',
+  slot: 'slot',
+  timestamp: 'timestamp',
+  storedAt: 'storedAt',
+} as const;
+
+export type StoredEventScalarFieldEnum =
+  (typeof StoredEventScalarFieldEnum)[keyof typeof StoredEventScalarFieldEnum];
+
+export const QueueAuditLogScalarFieldEnum = {
+  id: 'id',
+  action: 'action',
+  queueName: 'queueName',
+  actor: 'actor',
+  params: 'params',
+  result: 'result',
+  success: 'success',
+  error: 'error',
+  createdAt: 'createdAt',
+} as const;
+
+export type QueueAuditLogScalarFieldEnum =
+  (typeof QueueAuditLogScalarFieldEnum)[keyof typeof QueueAuditLogScalarFieldEnum];
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc',
@@ -1608,6 +2169,16 @@ export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel
  */
 export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime[]'>;
 
+/**
+ * Reference to a field of type 'Int'
+ */
+export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>;
+
+/**
+ * Reference to a field of type 'Int[]'
+ */
+export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>;
+
 /**
  * Reference to a field of type 'Boolean'
  */
@@ -1624,14 +2195,14 @@ export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'J
 export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>;
 
 /**
- * Reference to a field of type 'Int'
+ * Reference to a field of type 'BigInt'
  */
-export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>;
+export type BigIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BigInt'>;
 
 /**
- * Reference to a field of type 'Int[]'
+ * Reference to a field of type 'BigInt[]'
  */
-export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>;
+export type ListBigIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BigInt[]'>;
 
 /**
  * Reference to a field of type 'Float'
@@ -1749,15 +2320,21 @@ export type GlobalOmitConfig = {
   account?: Prisma.AccountOmit;
   transaction?: Prisma.TransactionOmit;
   position?: Prisma.PositionOmit;
+  takeProfitLevel?: Prisma.TakeProfitLevelOmit;
   trade?: Prisma.TradeOmit;
+  tradeIntent?: Prisma.TradeIntentOmit;
   burnEventRecord?: Prisma.BurnEventRecordOmit;
   liquidityPoolRecord?: Prisma.LiquidityPoolRecordOmit;
   workerStatusRecord?: Prisma.WorkerStatusRecordOmit;
   tradeSettings?: Prisma.TradeSettingsOmit;
+  backtestRecord?: Prisma.BacktestRecordOmit;
   priceRecord?: Prisma.PriceRecordOmit;
   marketRecord?: Prisma.MarketRecordOmit;
   tokenValidationRecord?: Prisma.TokenValidationRecordOmit;
   discoveredPool?: Prisma.DiscoveredPoolOmit;
+  outboxEvent?: Prisma.OutboxEventOmit;
+  storedEvent?: Prisma.StoredEventOmit;
+  queueAuditLog?: Prisma.QueueAuditLogOmit;
 };
 
 /* Types for Logging */
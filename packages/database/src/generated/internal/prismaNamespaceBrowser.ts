@@ -51,15 +51,21 @@ export const ModelName = {
   Account: 'Account',
   Transaction: 'Transaction',
   Position: 'Position',
+  TakeProfitLevel: 'TakeProfitLevel',
   Trade: 'Trade',
+  TradeIntent: 'TradeIntent',
   BurnEventRecord: 'BurnEventRecord',
   LiquidityPoolRecord: 'LiquidityPoolRecord',
   WorkerStatusRecord: 'WorkerStatusRecord',
   TradeSettings: 'TradeSettings',
+  BacktestRecord: 'BacktestRecord',
   PriceRecord: 'PriceRecord',
   MarketRecord: 'MarketRecord',
   TokenValidationRecord: 'TokenValidationRecord',
   DiscoveredPool: 'DiscoveredPool',
+  OutboxEvent: 'OutboxEvent',
+  StoredEvent: 'StoredEvent',
+  QueueAuditLog: 'QueueAuditLog',
 } as const;
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName];
@@ -111,16 +117,35 @@ export const PositionScalarFieldEnum = {
   entryPrice: 'entryPrice',
   currentPrice: 'currentPrice',
   pnl: 'pnl',
+  pnlPercent: 'pnlPercent',
+  realizedPnl: 'realizedPnl',
   status: 'status',
+  mode: 'mode',
   openedAt: 'openedAt',
   closedAt: 'closedAt',
+  closeReason: 'closeReason',
   stopLoss: 'stopLoss',
   takeProfit: 'takeProfit',
+  trailingStopPercent: 'trailingStopPercent',
+  highWaterMark: 'highWaterMark',
 } as const;
 
 export type PositionScalarFieldEnum =
   (typeof PositionScalarFieldEnum)[keyof typeof PositionScalarFieldEnum];
 
+export const TakeProfitLevelScalarFieldEnum = {
+  id: 'id',
+  positionId: 'positionId',
+  level: 'level',
+  targetPrice: 'targetPrice',
+  sellFraction: 'sellFraction',
+  amount: 'amount',
+  filledAt: 'filledAt',
+} as const;
+
+export type TakeProfitLevelScalarFieldEnum =
+  (typeof TakeProfitLevelScalarFieldEnum)[keyof typeof TakeProfitLevelScalarFieldEnum];
+
 export const TradeScalarFieldEnum = {
   id: 'id',
   positionId: 'positionId',
@@ -129,11 +154,25 @@ export const TradeScalarFieldEnum = {
   price: 'price',
   signature: 'signature',
   slippage: 'slippage',
+  fee: 'fee',
+  mode: 'mode',
   timestamp: 'timestamp',
 } as const;
 
 export type TradeScalarFieldEnum = (typeof TradeScalarFieldEnum)[keyof typeof TradeScalarFieldEnum];
 
+export const TradeIntentScalarFieldEnum = {
+  eventId: 'eventId',
+  token: 'token',
+  mode: 'mode',
+  positionId: 'positionId',
+  signature: 'signature',
+  createdAt: 'createdAt',
+} as const;
+
+export type TradeIntentScalarFieldEnum =
+  (typeof TradeIntentScalarFieldEnum)[keyof typeof TradeIntentScalarFieldEnum];
+
 export const BurnEventRecordScalarFieldEnum = {
   id: 'id',
   txSignature: 'txSignature',
@@ -176,19 +215,39 @@ export const TradeSettingsScalarFieldEnum = {
   id: 'id',
   name: 'name',
   enabled: 'enabled',
+  mode: 'mode',
   maxSlippage: 'maxSlippage',
   maxPositions: 'maxPositions',
   stopLossPercent: 'stopLossPercent',
   takeProfitPercent: 'takeProfitPercent',
   minBurnAmount: 'minBurnAmount',
+  trailingStopPercent: 'trailingStopPercent',
+  takeProfitLadder: 'takeProfitLadder',
   updatedAt: 'updatedAt',
 } as const;
 
 export type TradeSettingsScalarFieldEnum =
   (typeof TradeSettingsScalarFieldEnum)[keyof typeof TradeSettingsScalarFieldEnum];
 
+export const BacktestRecordScalarFieldEnum = {
+  id: 'id',
+  status: 'status',
+  settings: 'settings',
+  options: 'options',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  report: 'report',
+  error: 'error',
+  createdAt: 'createdAt',
+  completedAt: 'completedAt',
+} as const;
+
+export type BacktestRecordScalarFieldEnum =
+  (typeof BacktestRecordScalarFieldEnum)[keyof typeof BacktestRecordScalarFieldEnum];
+
 export const PriceRecordScalarFieldEnum = {
   id: 'id',
+  eventId: 'eventId',
   token: 'token',
   price: 'price',
   source: 'source',
@@ -217,6 +276,7 @@ export type MarketRecordScalarFieldEnum =
 
 export const TokenValidationRecordScalarFieldEnum = {
   id: 'id',
+  eventId: 'eventId',
   token: 'token',
   isRenounced: 'isRenounced',
   isBurned: 'isBurned',
@@ -241,11 +301,56 @@ export const DiscoveredPoolScalarFieldEnum = {
   discoveredAt: 'discoveredAt',
   status: 'status',
   poolData: 'poolData',
+  marketAddress: 'marketAddress',
+  creator: 'creator',
 } as const;
 
 export type DiscoveredPoolScalarFieldEnum =
   (typeof DiscoveredPoolScalarFieldEnum)[keyof typeof DiscoveredPoolScalarFieldEnum];
 
+export const OutboxEventScalarFieldEnum = {
+  id: 'id',
+  eventId: 'eventId',
+  eventType: 'eventType',
+  payload: 'payload',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  createdAt: 'createdAt',
+  sentAt: 'sentAt',
+} as const;
+
+export type OutboxEventScalarFieldEnum =
+  (typeof OutboxEventScalarFieldEnum)[keyof typeof OutboxEventScalarFieldEnum];
+
+export const StoredEventScalarFieldEnum = {
+  eventId: 'eventId',
+  type: 'type',
+  payload: 'payload',
+  source: 'source',
+  slot: 'slot',
+  timestamp: 'timestamp',
+  storedAt: 'storedAt',
+} as const;
+
+export type StoredEventScalarFieldEnum =
+  (typeof StoredEventScalarFieldEnum)[keyof typeof StoredEventScalarFieldEnum];
+
+export const QueueAuditLogScalarFieldEnum = {
+  id: 'id',
+  action: 'action',
+  queueName: 'queueName',
+  actor: 'actor',
+  params: 'params',
+  result: 'result',
+  success: 'success',
+  error: 'error',
+  createdAt: 'createdAt',
+} as const;
+
+export type QueueAuditLogScalarFieldEnum =
+  (typeof QueueAuditLogScalarFieldEnum)[keyof typeof QueueAuditLogScalarFieldEnum];
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc',
@@ -1,14 +1,20 @@
 export type * from './models/Account';
 export type * from './models/Transaction';
 export type * from './models/Position';
+export type * from './models/TakeProfitLevel';
 export type * from './models/Trade';
+export type * from './models/TradeIntent';
 export type * from './models/BurnEventRecord';
 export type * from './models/LiquidityPoolRecord';
 export type * from './models/WorkerStatusRecord';
 export type * from './models/TradeSettings';
+export type * from './models/BacktestRecord';
 export type * from './models/PriceRecord';
 export type * from './models/MarketRecord';
 export type * from './models/TokenValidationRecord';
 export type * from './models/DiscoveredPool';
+export type * from './models/OutboxEvent';
+export type * from './models/StoredEvent';
+export type * from './models/QueueAuditLog';
 export type * from './commonInputTypes';
 //# sourceMappingURL=models.d.ts.map
\ No newline at end of file
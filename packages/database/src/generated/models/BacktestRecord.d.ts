@@ -0,0 +1,1111 @@
+import type * as runtime from '@prisma/client/runtime/client';
+import type * as Prisma from '../internal/prismaNamespace';
+/**
+ * Model BacktestRecord
+ *
+ */
+export type BacktestRecordModel = runtime.Types.Result.DefaultSelection<Prisma.$BacktestRecordPayload>;
+export type AggregateBacktestRecord = {
+    _count: BacktestRecordCountAggregateOutputType | null;
+    _min: BacktestRecordMinAggregateOutputType | null;
+    _max: BacktestRecordMaxAggregateOutputType | null;
+};
+export type BacktestRecordMinAggregateOutputType = {
+    id: string | null;
+    status: string | null;
+    startDate: Date | null;
+    endDate: Date | null;
+    error: string | null;
+    createdAt: Date | null;
+    completedAt: Date | null;
+};
+export type BacktestRecordMaxAggregateOutputType = {
+    id: string | null;
+    status: string | null;
+    startDate: Date | null;
+    endDate: Date | null;
+    error: string | null;
+    createdAt: Date | null;
+    completedAt: Date | null;
+};
+export type BacktestRecordCountAggregateOutputType = {
+    id: number;
+    status: number;
+    settings: number;
+    options: number;
+    startDate: number;
+    endDate: number;
+    report: number;
+    error: number;
+    createdAt: number;
+    completedAt: number;
+    _all: number;
+};
+export type BacktestRecordMinAggregateInputType = {
+    id?: true;
+    status?: true;
+    startDate?: true;
+    endDate?: true;
+    error?: true;
+    createdAt?: true;
+    completedAt?: true;
+};
+export type BacktestRecordMaxAggregateInputType = {
+    id?: true;
+    status?: true;
+    startDate?: true;
+    endDate?: true;
+    error?: true;
+    createdAt?: true;
+    completedAt?: true;
+};
+export type BacktestRecordCountAggregateInputType = {
+    id?: true;
+    status?: true;
+    settings?: true;
+    options?: true;
+    startDate?: true;
+    endDate?: true;
+    report?: true;
+    error?: true;
+    createdAt?: true;
+    completedAt?: true;
+    _all?: true;
+};
+export type BacktestRecordAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Filter which BacktestRecord to aggregate.
+     */
+    where?: Prisma.BacktestRecordWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of BacktestRecords to fetch.
+     */
+    orderBy?: Prisma.BacktestRecordOrderByWithRelationInput | Prisma.BacktestRecordOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the start position
+     */
+    cursor?: Prisma.BacktestRecordWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` BacktestRecords from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` BacktestRecords.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Count returned BacktestRecords
+     **/
+    _count?: true | BacktestRecordCountAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to find the minimum value
+     **/
+    _min?: BacktestRecordMinAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to find the maximum value
+     **/
+    _max?: BacktestRecordMaxAggregateInputType;
+};
+export type GetBacktestRecordAggregateType<T extends BacktestRecordAggregateArgs> = {
+    [P in keyof T & keyof AggregateBacktestRecord]: P extends '_count' | 'count' ? T[P] extends true ? number : Prisma.GetScalarType<T[P], AggregateBacktestRecord[P]> : Prisma.GetScalarType<T[P], AggregateBacktestRecord[P]>;
+};
+export type BacktestRecordGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    where?: Prisma.BacktestRecordWhereInput;
+    orderBy?: Prisma.BacktestRecordOrderByWithAggregationInput | Prisma.BacktestRecordOrderByWithAggregationInput[];
+    by: Prisma.BacktestRecordScalarFieldEnum[] | Prisma.BacktestRecordScalarFieldEnum;
+    having?: Prisma.BacktestRecordScalarWhereWithAggregatesInput;
+    take?: number;
+    skip?: number;
+    _count?: BacktestRecordCountAggregateInputType | true;
+    _min?: BacktestRecordMinAggregateInputType;
+    _max?: BacktestRecordMaxAggregateInputType;
+};
+export type BacktestRecordGroupByOutputType = {
+    id: string;
+    status: string;
+    settings: runtime.JsonValue;
+    options: runtime.JsonValue;
+    startDate: Date;
+    endDate: Date;
+    report: runtime.JsonValue | null;
+    error: string | null;
+    createdAt: Date;
+    completedAt: Date | null;
+    _count: BacktestRecordCountAggregateOutputType | null;
+    _min: BacktestRecordMinAggregateOutputType | null;
+    _max: BacktestRecordMaxAggregateOutputType | null;
+};
+type GetBacktestRecordGroupByPayload<T extends BacktestRecordGroupByArgs> = Prisma.PrismaPromise<Array<Prisma.PickEnumerable<BacktestRecordGroupByOutputType, T['by']> & {
+    [P in keyof T & keyof BacktestRecordGroupByOutputType]: P extends '_count' ? T[P] extends boolean ? number : Prisma.GetScalarType<T[P], BacktestRecordGroupByOutputType[P]> : Prisma.GetScalarType<T[P], BacktestRecordGroupByOutputType[P]>;
+}>>;
+export type BacktestRecordWhereInput = {
+    AND?: Prisma.BacktestRecordWhereInput | Prisma.BacktestRecordWhereInput[];
+    OR?: Prisma.BacktestRecordWhereInput[];
+    NOT?: Prisma.BacktestRecordWhereInput | Prisma.BacktestRecordWhereInput[];
+    id?: Prisma.StringFilter<'BacktestRecord'> | string;
+    status?: Prisma.StringFilter<'BacktestRecord'> | string;
+    settings?: Prisma.JsonFilter<'BacktestRecord'>;
+    options?: Prisma.JsonFilter<'BacktestRecord'>;
+    startDate?: Prisma.DateTimeFilter<'BacktestRecord'> | Date | string;
+    endDate?: Prisma.DateTimeFilter<'BacktestRecord'> | Date | string;
+    report?: Prisma.JsonNullableFilter<'BacktestRecord'>;
+    error?: Prisma.StringNullableFilter<'BacktestRecord'> | string | null;
+    createdAt?: Prisma.DateTimeFilter<'BacktestRecord'> | Date | string;
+    completedAt?: Prisma.DateTimeNullableFilter<'BacktestRecord'> | Date | string | null;
+};
+export type BacktestRecordOrderByWithRelationInput = {
+    id?: Prisma.SortOrder;
+    status?: Prisma.SortOrder;
+    settings?: Prisma.SortOrder;
+    options?: Prisma.SortOrder;
+    startDate?: Prisma.SortOrder;
+    endDate?: Prisma.SortOrder;
+    report?: Prisma.SortOrderInput | Prisma.SortOrder;
+    error?: Prisma.SortOrderInput | Prisma.SortOrder;
+    createdAt?: Prisma.SortOrder;
+    completedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+};
+export type BacktestRecordWhereUniqueInput = Prisma.AtLeast<{
+    id?: string;
+    AND?: Prisma.BacktestRecordWhereInput | Prisma.BacktestRecordWhereInput[];
+    OR?: Prisma.BacktestRecordWhereInput[];
+    NOT?: Prisma.BacktestRecordWhereInput | Prisma.BacktestRecordWhereInput[];
+    status?: Prisma.StringFilter<'BacktestRecord'> | string;
+    settings?: Prisma.JsonFilter<'BacktestRecord'>;
+    options?: Prisma.JsonFilter<'BacktestRecord'>;
+    startDate?: Prisma.DateTimeFilter<'BacktestRecord'> | Date | string;
+    endDate?: Prisma.DateTimeFilter<'BacktestRecord'> | Date | string;
+    report?: Prisma.JsonNullableFilter<'BacktestRecord'>;
+    error?: Prisma.StringNullableFilter<'BacktestRecord'> | string | null;
+    createdAt?: Prisma.DateTimeFilter<'BacktestRecord'> | Date | string;
+    completedAt?: Prisma.DateTimeNullableFilter<'BacktestRecord'> | Date | string | null;
+}, 'id'>;
+export type BacktestRecordOrderByWithAggregationInput = {
+    id?: Prisma.SortOrder;
+    status?: Prisma.SortOrder;
+    settings?: Prisma.SortOrder;
+    options?: Prisma.SortOrder;
+    startDate?: Prisma.SortOrder;
+    endDate?: Prisma.SortOrder;
+    report?: Prisma.SortOrderInput | Prisma.SortOrder;
+    error?: Prisma.SortOrderInput | Prisma.SortOrder;
+    createdAt?: Prisma.SortOrder;
+    completedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+    _count?: Prisma.BacktestRecordCountOrderByAggregateInput;
+    _max?: Prisma.BacktestRecordMaxOrderByAggregateInput;
+    _min?: Prisma.BacktestRecordMinOrderByAggregateInput;
+};
+export type BacktestRecordScalarWhereWithAggregatesInput = {
+    AND?: Prisma.BacktestRecordScalarWhereWithAggregatesInput | Prisma.BacktestRecordScalarWhereWithAggregatesInput[];
+    OR?: Prisma.BacktestRecordScalarWhereWithAggregatesInput[];
+    NOT?: Prisma.BacktestRecordScalarWhereWithAggregatesInput | Prisma.BacktestRecordScalarWhereWithAggregatesInput[];
+    id?: Prisma.StringWithAggregatesFilter<'BacktestRecord'> | string;
+    status?: Prisma.StringWithAggregatesFilter<'BacktestRecord'> | string;
+    settings?: Prisma.JsonWithAggregatesFilter<'BacktestRecord'>;
+    options?: Prisma.JsonWithAggregatesFilter<'BacktestRecord'>;
+    startDate?: Prisma.DateTimeWithAggregatesFilter<'BacktestRecord'> | Date | string;
+    endDate?: Prisma.DateTimeWithAggregatesFilter<'BacktestRecord'> | Date | string;
+    report?: Prisma.JsonNullableWithAggregatesFilter<'BacktestRecord'>;
+    error?: Prisma.StringNullableWithAggregatesFilter<'BacktestRecord'> | string | null;
+    createdAt?: Prisma.DateTimeWithAggregatesFilter<'BacktestRecord'> | Date | string;
+    completedAt?: Prisma.DateTimeNullableWithAggregatesFilter<'BacktestRecord'> | Date | string | null;
+};
+export type BacktestRecordCreateInput = {
+    id?: string;
+    status?: string;
+    settings: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    options: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    startDate: Date | string;
+    endDate: Date | string;
+    report?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    error?: string | null;
+    createdAt?: Date | string;
+    completedAt?: Date | string | null;
+};
+export type BacktestRecordUncheckedCreateInput = {
+    id?: string;
+    status?: string;
+    settings: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    options: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    startDate: Date | string;
+    endDate: Date | string;
+    report?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    error?: string | null;
+    createdAt?: Date | string;
+    completedAt?: Date | string | null;
+};
+export type BacktestRecordUpdateInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    status?: Prisma.StringFieldUpdateOperationsInput | string;
+    settings?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    options?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    report?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type BacktestRecordUncheckedUpdateInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    status?: Prisma.StringFieldUpdateOperationsInput | string;
+    settings?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    options?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    report?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type BacktestRecordCreateManyInput = {
+    id?: string;
+    status?: string;
+    settings: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    options: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    startDate: Date | string;
+    endDate: Date | string;
+    report?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    error?: string | null;
+    createdAt?: Date | string;
+    completedAt?: Date | string | null;
+};
+export type BacktestRecordUpdateManyMutationInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    status?: Prisma.StringFieldUpdateOperationsInput | string;
+    settings?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    options?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    report?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type BacktestRecordUncheckedUpdateManyInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    status?: Prisma.StringFieldUpdateOperationsInput | string;
+    settings?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    options?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    report?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type BacktestRecordCountOrderByAggregateInput = {
+    id?: Prisma.SortOrder;
+    status?: Prisma.SortOrder;
+    settings?: Prisma.SortOrder;
+    options?: Prisma.SortOrder;
+    startDate?: Prisma.SortOrder;
+    endDate?: Prisma.SortOrder;
+    report?: Prisma.SortOrder;
+    error?: Prisma.SortOrder;
+    createdAt?: Prisma.SortOrder;
+    completedAt?: Prisma.SortOrder;
+};
+export type BacktestRecordMaxOrderByAggregateInput = {
+    id?: Prisma.SortOrder;
+    status?: Prisma.SortOrder;
+    startDate?: Prisma.SortOrder;
+    endDate?: Prisma.SortOrder;
+    error?: Prisma.SortOrder;
+    createdAt?: Prisma.SortOrder;
+    completedAt?: Prisma.SortOrder;
+};
+export type BacktestRecordMinOrderByAggregateInput = {
+    id?: Prisma.SortOrder;
+    status?: Prisma.SortOrder;
+    startDate?: Prisma.SortOrder;
+    endDate?: Prisma.SortOrder;
+    error?: Prisma.SortOrder;
+    createdAt?: Prisma.SortOrder;
+    completedAt?: Prisma.SortOrder;
+};
+export type BacktestRecordSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+    id?: boolean;
+    status?: boolean;
+    settings?: boolean;
+    options?: boolean;
+    startDate?: boolean;
+    endDate?: boolean;
+    report?: boolean;
+    error?: boolean;
+    createdAt?: boolean;
+    completedAt?: boolean;
+}, ExtArgs['result']['backtestRecord']>;
+export type BacktestRecordSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+    id?: boolean;
+    status?: boolean;
+    settings?: boolean;
+    options?: boolean;
+    startDate?: boolean;
+    endDate?: boolean;
+    report?: boolean;
+    error?: boolean;
+    createdAt?: boolean;
+    completedAt?: boolean;
+}, ExtArgs['result']['backtestRecord']>;
+export type BacktestRecordSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+    id?: boolean;
+    status?: boolean;
+    settings?: boolean;
+    options?: boolean;
+    startDate?: boolean;
+    endDate?: boolean;
+    report?: boolean;
+    error?: boolean;
+    createdAt?: boolean;
+    completedAt?: boolean;
+}, ExtArgs['result']['backtestRecord']>;
+export type BacktestRecordSelectScalar = {
+    id?: boolean;
+    status?: boolean;
+    settings?: boolean;
+    options?: boolean;
+    startDate?: boolean;
+    endDate?: boolean;
+    report?: boolean;
+    error?: boolean;
+    createdAt?: boolean;
+    completedAt?: boolean;
+};
+export type BacktestRecordOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'status' | 'settings' | 'options' | 'startDate' | 'endDate' | 'report' | 'error' | 'createdAt' | 'completedAt', ExtArgs['result']['backtestRecord']>;
+export type $BacktestRecordPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    name: 'BacktestRecord';
+    objects: {};
+    scalars: runtime.Types.Extensions.GetPayloadResult<{
+        id: string;
+        status: string;
+        settings: runtime.JsonValue;
+        options: runtime.JsonValue;
+        startDate: Date;
+        endDate: Date;
+        report: runtime.JsonValue | null;
+        error: string | null;
+        createdAt: Date;
+        completedAt: Date | null;
+    }, ExtArgs['result']['backtestRecord']>;
+    composites: {};
+};
+export type BacktestRecordGetPayload<S extends boolean | null | undefined | BacktestRecordDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload, S>;
+export type BacktestRecordCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = Omit<BacktestRecordFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BacktestRecordCountAggregateInputType | true;
+};
+export interface BacktestRecordDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: {
+        types: Prisma.TypeMap<ExtArgs>['model']['BacktestRecord'];
+        meta: {
+            name: 'BacktestRecord';
+        };
+    };
+    /**
+     * Find zero or one BacktestRecord that matches the filter.
+     * @param {BacktestRecordFindUniqueArgs} args - Arguments to find a BacktestRecord
+     * @example
+     * // Get one BacktestRecord
+     * const backtestRecord = await prisma.backtestRecord.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends BacktestRecordFindUniqueArgs>(args: Prisma.SelectSubset<T, BacktestRecordFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BacktestRecordClient<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'findUnique', GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find one BacktestRecord that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {BacktestRecordFindUniqueOrThrowArgs} args - Arguments to find a BacktestRecord
+     * @example
+     * // Get one BacktestRecord
+     * const backtestRecord = await prisma.backtestRecord.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends BacktestRecordFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BacktestRecordFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BacktestRecordClient<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'findUniqueOrThrow', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find the first BacktestRecord that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BacktestRecordFindFirstArgs} args - Arguments to find a BacktestRecord
+     * @example
+     * // Get one BacktestRecord
+     * const backtestRecord = await prisma.backtestRecord.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends BacktestRecordFindFirstArgs>(args?: Prisma.SelectSubset<T, BacktestRecordFindFirstArgs<ExtArgs>>): Prisma.Prisma__BacktestRecordClient<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'findFirst', GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find the first BacktestRecord that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BacktestRecordFindFirstOrThrowArgs} args - Arguments to find a BacktestRecord
+     * @example
+     * // Get one BacktestRecord
+     * const backtestRecord = await prisma.backtestRecord.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends BacktestRecordFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BacktestRecordFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BacktestRecordClient<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'findFirstOrThrow', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find zero or more BacktestRecords that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BacktestRecordFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all BacktestRecords
+     * const backtestRecords = await prisma.backtestRecord.findMany()
+     *
+     * // Get first 10 BacktestRecords
+     * const backtestRecords = await prisma.backtestRecord.findMany({ take: 10 })
+     *
+     * // Only select the `id`
+     * const backtestRecordWithIdOnly = await prisma.backtestRecord.findMany({ select: { id: true } })
+     *
+     */
+    findMany<T extends BacktestRecordFindManyArgs>(args?: Prisma.SelectSubset<T, BacktestRecordFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'findMany', GlobalOmitOptions>>;
+    /**
+     * Create a BacktestRecord.
+     * @param {BacktestRecordCreateArgs} args - Arguments to create a BacktestRecord.
+     * @example
+     * // Create one BacktestRecord
+     * const BacktestRecord = await prisma.backtestRecord.create({
+     *   data: {
+     *     // ... data to create a BacktestRecord
+     *   }
+     * })
+     *
+     */
+    create<T extends BacktestRecordCreateArgs>(args: Prisma.SelectSubset<T, BacktestRecordCreateArgs<ExtArgs>>): Prisma.Prisma__BacktestRecordClient<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'create', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Create many BacktestRecords.
+     * @param {BacktestRecordCreateManyArgs} args - Arguments to create many BacktestRecords.
+     * @example
+     * // Create many BacktestRecords
+     * const backtestRecord = await prisma.backtestRecord.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     */
+    createMany<T extends BacktestRecordCreateManyArgs>(args?: Prisma.SelectSubset<T, BacktestRecordCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>;
+    /**
+     * Create many BacktestRecords and returns the data saved in the database.
+     * @param {BacktestRecordCreateManyAndReturnArgs} args - Arguments to create many BacktestRecords.
+     * @example
+     * // Create many BacktestRecords
+     * const backtestRecord = await prisma.backtestRecord.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     * // Create many BacktestRecords and only return the `id`
+     * const backtestRecordWithIdOnly = await prisma.backtestRecord.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     *
+     */
+    createManyAndReturn<T extends BacktestRecordCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BacktestRecordCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'createManyAndReturn', GlobalOmitOptions>>;
+    /**
+     * Delete a BacktestRecord.
+     * @param {BacktestRecordDeleteArgs} args - Arguments to delete one BacktestRecord.
+     * @example
+     * // Delete one BacktestRecord
+     * const BacktestRecord = await prisma.backtestRecord.delete({
+     *   where: {
+     *     // ... filter to delete one BacktestRecord
+     *   }
+     * })
+     *
+     */
+    delete<T extends BacktestRecordDeleteArgs>(args: Prisma.SelectSubset<T, BacktestRecordDeleteArgs<ExtArgs>>): Prisma.Prisma__BacktestRecordClient<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'delete', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Update one BacktestRecord.
+     * @param {BacktestRecordUpdateArgs} args - Arguments to update one BacktestRecord.
+     * @example
+     * // Update one BacktestRecord
+     * const backtestRecord = await prisma.backtestRecord.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     *
+     */
+    update<T extends BacktestRecordUpdateArgs>(args: Prisma.SelectSubset<T, BacktestRecordUpdateArgs<ExtArgs>>): Prisma.Prisma__BacktestRecordClient<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'update', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Delete zero or more BacktestRecords.
+     * @param {BacktestRecordDeleteManyArgs} args - Arguments to filter BacktestRecords to delete.
+     * @example
+     * // Delete a few BacktestRecords
+     * const { count } = await prisma.backtestRecord.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     *
+     */
+    deleteMany<T extends BacktestRecordDeleteManyArgs>(args?: Prisma.SelectSubset<T, BacktestRecordDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>;
+    /**
+     * Update zero or more BacktestRecords.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BacktestRecordUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many BacktestRecords
+     * const backtestRecord = await prisma.backtestRecord.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     *
+     */
+    updateMany<T extends BacktestRecordUpdateManyArgs>(args: Prisma.SelectSubset<T, BacktestRecordUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>;
+    /**
+     * Update zero or more BacktestRecords and returns the data updated in the database.
+     * @param {BacktestRecordUpdateManyAndReturnArgs} args - Arguments to update many BacktestRecords.
+     * @example
+     * // Update many BacktestRecords
+     * const backtestRecord = await prisma.backtestRecord.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     * // Update zero or more BacktestRecords and only return the `id`
+     * const backtestRecordWithIdOnly = await prisma.backtestRecord.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     *
+     */
+    updateManyAndReturn<T extends BacktestRecordUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BacktestRecordUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'updateManyAndReturn', GlobalOmitOptions>>;
+    /**
+     * Create or update one BacktestRecord.
+     * @param {BacktestRecordUpsertArgs} args - Arguments to update or create a BacktestRecord.
+     * @example
+     * // Update or create a BacktestRecord
+     * const backtestRecord = await prisma.backtestRecord.upsert({
+     *   create: {
+     *     // ... data to create a BacktestRecord
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the BacktestRecord we want to update
+     *   }
+     * })
+     */
+    upsert<T extends BacktestRecordUpsertArgs>(args: Prisma.SelectSubset<T, BacktestRecordUpsertArgs<ExtArgs>>): Prisma.Prisma__BacktestRecordClient<runtime.Types.Result.GetResult<Prisma.$BacktestRecordPayload<ExtArgs>, T, 'upsert', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Count the number of BacktestRecords.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BacktestRecordCountArgs} args - Arguments to filter BacktestRecords to count.
+     * @example
+     * // Count the number of BacktestRecords
+     * const count = await prisma.backtestRecord.count({
+     *   where: {
+     *     // ... the filter for the BacktestRecords we want to count
+     *   }
+     * })
+     **/
+    count<T extends BacktestRecordCountArgs>(args?: Prisma.Subset<T, BacktestRecordCountArgs>): Prisma.PrismaPromise<T extends runtime.Types.Utils.Record<'select', any> ? T['select'] extends true ? number : Prisma.GetScalarType<T['select'], BacktestRecordCountAggregateOutputType> : number>;
+    /**
+     * Allows you to perform aggregations operations on a BacktestRecord.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BacktestRecordAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+     **/
+    aggregate<T extends BacktestRecordAggregateArgs>(args: Prisma.Subset<T, BacktestRecordAggregateArgs>): Prisma.PrismaPromise<GetBacktestRecordAggregateType<T>>;
+    /**
+     * Group by BacktestRecord.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {BacktestRecordGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     *
+     **/
+    groupBy<T extends BacktestRecordGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<T>>, Prisma.Extends<'take', Prisma.Keys<T>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? {
+        orderBy: BacktestRecordGroupByArgs['orderBy'];
+    } : {
+        orderBy?: BacktestRecordGroupByArgs['orderBy'];
+    }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<T['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<T['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True ? `Error: "by" must not be empty.` : HavingValid extends Prisma.False ? {
+        [P in HavingFields]: P extends ByFields ? never : P extends string ? `Error: Field "${P}" used in "having" needs to be provided in "by".` : [Error, 'Field ', P, ` in "having" needs to be provided in "by"`];
+    }[HavingFields] : 'take' extends Prisma.Keys<T> ? 'orderBy' extends Prisma.Keys<T> ? ByValid extends Prisma.True ? {} : {
+        [P in OrderFields]: P extends ByFields ? never : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+    }[OrderFields] : 'Error: If you provide "take", you also need to provide "orderBy"' : 'skip' extends Prisma.Keys<T> ? 'orderBy' extends Prisma.Keys<T> ? ByValid extends Prisma.True ? {} : {
+        [P in OrderFields]: P extends ByFields ? never : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+    }[OrderFields] : 'Error: If you provide "skip", you also need to provide "orderBy"' : ByValid extends Prisma.True ? {} : {
+        [P in OrderFields]: P extends ByFields ? never : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+    }[OrderFields]>(args: Prisma.SubsetIntersection<T, BacktestRecordGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBacktestRecordGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+    /**
+     * Fields of the BacktestRecord model
+     */
+    readonly fields: BacktestRecordFieldRefs;
+}
+/**
+ * The delegate class that acts as a "Promise-like" for BacktestRecord.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BacktestRecordClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: 'PrismaPromise';
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>;
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+/**
+ * Fields of the BacktestRecord model
+ */
+export interface BacktestRecordFieldRefs {
+    readonly id: Prisma.FieldRef<'BacktestRecord', 'String'>;
+    readonly status: Prisma.FieldRef<'BacktestRecord', 'String'>;
+    readonly settings: Prisma.FieldRef<'BacktestRecord', 'Json'>;
+    readonly options: Prisma.FieldRef<'BacktestRecord', 'Json'>;
+    readonly startDate: Prisma.FieldRef<'BacktestRecord', 'DateTime'>;
+    readonly endDate: Prisma.FieldRef<'BacktestRecord', 'DateTime'>;
+    readonly report: Prisma.FieldRef<'BacktestRecord', 'Json'>;
+    readonly error: Prisma.FieldRef<'BacktestRecord', 'String'>;
+    readonly createdAt: Prisma.FieldRef<'BacktestRecord', 'DateTime'>;
+    readonly completedAt: Prisma.FieldRef<'BacktestRecord', 'DateTime'>;
+}
+/**
+ * BacktestRecord findUnique
+ */
+export type BacktestRecordFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * Filter, which BacktestRecord to fetch.
+     */
+    where: Prisma.BacktestRecordWhereUniqueInput;
+};
+/**
+ * BacktestRecord findUniqueOrThrow
+ */
+export type BacktestRecordFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * Filter, which BacktestRecord to fetch.
+     */
+    where: Prisma.BacktestRecordWhereUniqueInput;
+};
+/**
+ * BacktestRecord findFirst
+ */
+export type BacktestRecordFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * Filter, which BacktestRecord to fetch.
+     */
+    where?: Prisma.BacktestRecordWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of BacktestRecords to fetch.
+     */
+    orderBy?: Prisma.BacktestRecordOrderByWithRelationInput | Prisma.BacktestRecordOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for searching for BacktestRecords.
+     */
+    cursor?: Prisma.BacktestRecordWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` BacktestRecords from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` BacktestRecords.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     *
+     * Filter by unique combinations of BacktestRecords.
+     */
+    distinct?: Prisma.BacktestRecordScalarFieldEnum | Prisma.BacktestRecordScalarFieldEnum[];
+};
+/**
+ * BacktestRecord findFirstOrThrow
+ */
+export type BacktestRecordFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * Filter, which BacktestRecord to fetch.
+     */
+    where?: Prisma.BacktestRecordWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of BacktestRecords to fetch.
+     */
+    orderBy?: Prisma.BacktestRecordOrderByWithRelationInput | Prisma.BacktestRecordOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for searching for BacktestRecords.
+     */
+    cursor?: Prisma.BacktestRecordWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` BacktestRecords from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` BacktestRecords.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     *
+     * Filter by unique combinations of BacktestRecords.
+     */
+    distinct?: Prisma.BacktestRecordScalarFieldEnum | Prisma.BacktestRecordScalarFieldEnum[];
+};
+/**
+ * BacktestRecord findMany
+ */
+export type BacktestRecordFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * Filter, which BacktestRecords to fetch.
+     */
+    where?: Prisma.BacktestRecordWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of BacktestRecords to fetch.
+     */
+    orderBy?: Prisma.BacktestRecordOrderByWithRelationInput | Prisma.BacktestRecordOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for listing BacktestRecords.
+     */
+    cursor?: Prisma.BacktestRecordWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` BacktestRecords from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` BacktestRecords.
+     */
+    skip?: number;
+    distinct?: Prisma.BacktestRecordScalarFieldEnum | Prisma.BacktestRecordScalarFieldEnum[];
+};
+/**
+ * BacktestRecord create
+ */
+export type BacktestRecordCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * The data needed to create a BacktestRecord.
+     */
+    data: Prisma.XOR<Prisma.BacktestRecordCreateInput, Prisma.BacktestRecordUncheckedCreateInput>;
+};
+/**
+ * BacktestRecord createMany
+ */
+export type BacktestRecordCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many BacktestRecords.
+     */
+    data: Prisma.BacktestRecordCreateManyInput | Prisma.BacktestRecordCreateManyInput[];
+    skipDuplicates?: boolean;
+};
+/**
+ * BacktestRecord createManyAndReturn
+ */
+export type BacktestRecordCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelectCreateManyAndReturn<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * The data used to create many BacktestRecords.
+     */
+    data: Prisma.BacktestRecordCreateManyInput | Prisma.BacktestRecordCreateManyInput[];
+    skipDuplicates?: boolean;
+};
+/**
+ * BacktestRecord update
+ */
+export type BacktestRecordUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * The data needed to update a BacktestRecord.
+     */
+    data: Prisma.XOR<Prisma.BacktestRecordUpdateInput, Prisma.BacktestRecordUncheckedUpdateInput>;
+    /**
+     * Choose, which BacktestRecord to update.
+     */
+    where: Prisma.BacktestRecordWhereUniqueInput;
+};
+/**
+ * BacktestRecord updateMany
+ */
+export type BacktestRecordUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * The data used to update BacktestRecords.
+     */
+    data: Prisma.XOR<Prisma.BacktestRecordUpdateManyMutationInput, Prisma.BacktestRecordUncheckedUpdateManyInput>;
+    /**
+     * Filter which BacktestRecords to update
+     */
+    where?: Prisma.BacktestRecordWhereInput;
+    /**
+     * Limit how many BacktestRecords to update.
+     */
+    limit?: number;
+};
+/**
+ * BacktestRecord updateManyAndReturn
+ */
+export type BacktestRecordUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelectUpdateManyAndReturn<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * The data used to update BacktestRecords.
+     */
+    data: Prisma.XOR<Prisma.BacktestRecordUpdateManyMutationInput, Prisma.BacktestRecordUncheckedUpdateManyInput>;
+    /**
+     * Filter which BacktestRecords to update
+     */
+    where?: Prisma.BacktestRecordWhereInput;
+    /**
+     * Limit how many BacktestRecords to update.
+     */
+    limit?: number;
+};
+/**
+ * BacktestRecord upsert
+ */
+export type BacktestRecordUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * The filter to search for the BacktestRecord to update in case it exists.
+     */
+    where: Prisma.BacktestRecordWhereUniqueInput;
+    /**
+     * In case the BacktestRecord found by the `where` argument doesn't exist, create a new BacktestRecord with this data.
+     */
+    create: Prisma.XOR<Prisma.BacktestRecordCreateInput, Prisma.BacktestRecordUncheckedCreateInput>;
+    /**
+     * In case the BacktestRecord was found with the provided `where` argument, update it with this data.
+     */
+    update: Prisma.XOR<Prisma.BacktestRecordUpdateInput, Prisma.BacktestRecordUncheckedUpdateInput>;
+};
+/**
+ * BacktestRecord delete
+ */
+export type BacktestRecordDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+    /**
+     * Filter which BacktestRecord to delete.
+     */
+    where: Prisma.BacktestRecordWhereUniqueInput;
+};
+/**
+ * BacktestRecord deleteMany
+ */
+export type BacktestRecordDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Filter which BacktestRecords to delete
+     */
+    where?: Prisma.BacktestRecordWhereInput;
+    /**
+     * Limit how many BacktestRecords to delete.
+     */
+    limit?: number;
+};
+/**
+ * BacktestRecord without action
+ */
+export type BacktestRecordDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the BacktestRecord
+     */
+    select?: Prisma.BacktestRecordSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the BacktestRecord
+     */
+    omit?: Prisma.BacktestRecordOmit<ExtArgs> | null;
+};
+export {};
+//# sourceMappingURL=BacktestRecord.d.ts.map
\ No newline at end of file
@@ -0,0 +1,2 @@
+export {};
+//# sourceMappingURL=BacktestRecord.js.map
\ No newline at end of file
@@ -27,6 +27,8 @@ export type DiscoveredPoolMinAggregateOutputType = {
     initialTvl: runtime.Decimal | null;
     discoveredAt: Date | null;
     status: string | null;
+    marketAddress: string | null;
+    creator: string | null;
 };
 export type DiscoveredPoolMaxAggregateOutputType = {
     id: string | null;
@@ -37,6 +39,8 @@ export type DiscoveredPoolMaxAggregateOutputType = {
     initialTvl: runtime.Decimal | null;
     discoveredAt: Date | null;
     status: string | null;
+    marketAddress: string | null;
+    creator: string | null;
 };
 export type DiscoveredPoolCountAggregateOutputType = {
     id: number;
@@ -48,6 +52,8 @@ export type DiscoveredPoolCountAggregateOutputType = {
     discoveredAt: number;
     status: number;
     poolData: number;
+    marketAddress: number;
+    creator: number;
     _all: number;
 };
 export type DiscoveredPoolAvgAggregateInputType = {
@@ -65,6 +71,8 @@ export type DiscoveredPoolMinAggregateInputType = {
     initialTvl?: true;
     discoveredAt?: true;
     status?: true;
+    marketAddress?: true;
+    creator?: true;
 };
 export type DiscoveredPoolMaxAggregateInputType = {
     id?: true;
@@ -75,6 +83,8 @@ export type DiscoveredPoolMaxAggregateInputType = {
     initialTvl?: true;
     discoveredAt?: true;
     status?: true;
+    marketAddress?: true;
+    creator?: true;
 };
 export type DiscoveredPoolCountAggregateInputType = {
     id?: true;
@@ -86,6 +96,8 @@ export type DiscoveredPoolCountAggregateInputType = {
     discoveredAt?: true;
     status?: true;
     poolData?: true;
+    marketAddress?: true;
+    creator?: true;
     _all?: true;
 };
 export type DiscoveredPoolAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -174,6 +186,8 @@ export type DiscoveredPoolGroupByOutputType = {
     discoveredAt: Date;
     status: string;
     poolData: runtime.JsonValue | null;
+    marketAddress: string | null;
+    creator: string | null;
     _count: DiscoveredPoolCountAggregateOutputType | null;
     _avg: DiscoveredPoolAvgAggregateOutputType | null;
     _sum: DiscoveredPoolSumAggregateOutputType | null;
@@ -196,6 +210,8 @@ export type DiscoveredPoolWhereInput = {
     discoveredAt?: Prisma.DateTimeFilter<'DiscoveredPool'> | Date | string;
     status?: Prisma.StringFilter<'DiscoveredPool'> | string;
     poolData?: Prisma.JsonNullableFilter<'DiscoveredPool'>;
+    marketAddress?: Prisma.StringNullableFilter<'DiscoveredPool'> | string | null;
+    creator?: Prisma.StringNullableFilter<'DiscoveredPool'> | string | null;
 };
 export type DiscoveredPoolOrderByWithRelationInput = {
     id?: Prisma.SortOrder;
@@ -207,6 +223,8 @@ export type DiscoveredPoolOrderByWithRelationInput = {
     discoveredAt?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
     poolData?: Prisma.SortOrderInput | Prisma.SortOrder;
+    marketAddress?: Prisma.SortOrderInput | Prisma.SortOrder;
+    creator?: Prisma.SortOrderInput | Prisma.SortOrder;
 };
 export type DiscoveredPoolWhereUniqueInput = Prisma.AtLeast<{
     id?: string;
@@ -221,6 +239,8 @@ export type DiscoveredPoolWhereUniqueInput = Prisma.AtLeast<{
     discoveredAt?: Prisma.DateTimeFilter<'DiscoveredPool'> | Date | string;
     status?: Prisma.StringFilter<'DiscoveredPool'> | string;
     poolData?: Prisma.JsonNullableFilter<'DiscoveredPool'>;
+    marketAddress?: Prisma.StringNullableFilter<'DiscoveredPool'> | string | null;
+    creator?: Prisma.StringNullableFilter<'DiscoveredPool'> | string | null;
 }, 'id' | 'address'>;
 export type DiscoveredPoolOrderByWithAggregationInput = {
     id?: Prisma.SortOrder;
@@ -232,6 +252,8 @@ export type DiscoveredPoolOrderByWithAggregationInput = {
     discoveredAt?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
     poolData?: Prisma.SortOrderInput | Prisma.SortOrder;
+    marketAddress?: Prisma.SortOrderInput | Prisma.SortOrder;
+    creator?: Prisma.SortOrderInput | Prisma.SortOrder;
     _count?: Prisma.DiscoveredPoolCountOrderByAggregateInput;
     _avg?: Prisma.DiscoveredPoolAvgOrderByAggregateInput;
     _max?: Prisma.DiscoveredPoolMaxOrderByAggregateInput;
@@ -251,6 +273,8 @@ export type DiscoveredPoolScalarWhereWithAggregatesInput = {
     discoveredAt?: Prisma.DateTimeWithAggregatesFilter<'DiscoveredPool'> | Date | string;
     status?: Prisma.StringWithAggregatesFilter<'DiscoveredPool'> | string;
     poolData?: Prisma.JsonNullableWithAggregatesFilter<'DiscoveredPool'>;
+    marketAddress?: Prisma.StringNullableWithAggregatesFilter<'DiscoveredPool'> | string | null;
+    creator?: Prisma.StringNullableWithAggregatesFilter<'DiscoveredPool'> | string | null;
 };
 export type DiscoveredPoolCreateInput = {
     id?: string;
@@ -262,6 +286,8 @@ export type DiscoveredPoolCreateInput = {
     discoveredAt?: Date | string;
     status?: string;
     poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    marketAddress?: string | null;
+    creator?: string | null;
 };
 export type DiscoveredPoolUncheckedCreateInput = {
     id?: string;
@@ -273,6 +299,8 @@ export type DiscoveredPoolUncheckedCreateInput = {
     discoveredAt?: Date | string;
     status?: string;
     poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    marketAddress?: string | null;
+    creator?: string | null;
 };
 export type DiscoveredPoolUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -284,6 +312,8 @@ export type DiscoveredPoolUpdateInput = {
     discoveredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
     poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    marketAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    creator?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 export type DiscoveredPoolUncheckedUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -295,6 +325,8 @@ export type DiscoveredPoolUncheckedUpdateInput = {
     discoveredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
     poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    marketAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    creator?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 export type DiscoveredPoolCreateManyInput = {
     id?: string;
@@ -306,6 +338,8 @@ export type DiscoveredPoolCreateManyInput = {
     discoveredAt?: Date | string;
     status?: string;
     poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    marketAddress?: string | null;
+    creator?: string | null;
 };
 export type DiscoveredPoolUpdateManyMutationInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -317,6 +351,8 @@ export type DiscoveredPoolUpdateManyMutationInput = {
     discoveredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
     poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    marketAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    creator?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 export type DiscoveredPoolUncheckedUpdateManyInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -328,6 +364,8 @@ export type DiscoveredPoolUncheckedUpdateManyInput = {
     discoveredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
     poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+    marketAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    creator?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 export type DiscoveredPoolCountOrderByAggregateInput = {
     id?: Prisma.SortOrder;
@@ -339,6 +377,8 @@ export type DiscoveredPoolCountOrderByAggregateInput = {
     discoveredAt?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
     poolData?: Prisma.SortOrder;
+    marketAddress?: Prisma.SortOrder;
+    creator?: Prisma.SortOrder;
 };
 export type DiscoveredPoolAvgOrderByAggregateInput = {
     initialTvl?: Prisma.SortOrder;
@@ -352,6 +392,8 @@ export type DiscoveredPoolMaxOrderByAggregateInput = {
     initialTvl?: Prisma.SortOrder;
     discoveredAt?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
+    marketAddress?: Prisma.SortOrder;
+    creator?: Prisma.SortOrder;
 };
 export type DiscoveredPoolMinOrderByAggregateInput = {
     id?: Prisma.SortOrder;
@@ -362,6 +404,8 @@ export type DiscoveredPoolMinOrderByAggregateInput = {
     initialTvl?: Prisma.SortOrder;
     discoveredAt?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
+    marketAddress?: Prisma.SortOrder;
+    creator?: Prisma.SortOrder;
 };
 export type DiscoveredPoolSumOrderByAggregateInput = {
     initialTvl?: Prisma.SortOrder;
@@ -376,6 +420,8 @@ export type DiscoveredPoolSelect<ExtArgs extends runtime.Types.Extensions.Intern
     discoveredAt?: boolean;
     status?: boolean;
     poolData?: boolean;
+    marketAddress?: boolean;
+    creator?: boolean;
 }, ExtArgs['result']['discoveredPool']>;
 export type DiscoveredPoolSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
@@ -387,6 +433,8 @@ export type DiscoveredPoolSelectCreateManyAndReturn<ExtArgs extends runtime.Type
     discoveredAt?: boolean;
     status?: boolean;
     poolData?: boolean;
+    marketAddress?: boolean;
+    creator?: boolean;
 }, ExtArgs['result']['discoveredPool']>;
 export type DiscoveredPoolSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
@@ -398,6 +446,8 @@ export type DiscoveredPoolSelectUpdateManyAndReturn<ExtArgs extends runtime.Type
     discoveredAt?: boolean;
     status?: boolean;
     poolData?: boolean;
+    marketAddress?: boolean;
+    creator?: boolean;
 }, ExtArgs['result']['discoveredPool']>;
 export type DiscoveredPoolSelectScalar = {
     id?: boolean;
@@ -409,8 +459,10 @@ export type DiscoveredPoolSelectScalar = {
     discoveredAt?: boolean;
     status?: boolean;
     poolData?: boolean;
+    marketAddress?: boolean;
+    creator?: boolean;
 };
-export type DiscoveredPoolOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'address' | 'dexType' | 'tokenA' | 'tokenB' | 'initialTvl' | 'discoveredAt' | 'status' | 'poolData', ExtArgs['result']['discoveredPool']>;
+export type DiscoveredPoolOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'address' | 'dexType' | 'tokenA' | 'tokenB' | 'initialTvl' | 'discoveredAt' | 'status' | 'poolData' | 'marketAddress' | 'creator', ExtArgs['result']['discoveredPool']>;
 export type $DiscoveredPoolPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
     name: 'DiscoveredPool';
     objects: {};
@@ -424,6 +476,8 @@ export type $DiscoveredPoolPayload<ExtArgs extends runtime.Types.Extensions.Inte
         discoveredAt: Date;
         status: string;
         poolData: runtime.JsonValue | null;
+        marketAddress: string | null;
+        creator: string | null;
     }, ExtArgs['result']['discoveredPool']>;
     composites: {};
 };
@@ -782,6 +836,8 @@ export interface DiscoveredPoolFieldRefs {
     readonly discoveredAt: Prisma.FieldRef<'DiscoveredPool', 'DateTime'>;
     readonly status: Prisma.FieldRef<'DiscoveredPool', 'String'>;
     readonly poolData: Prisma.FieldRef<'DiscoveredPool', 'Json'>;
+    readonly marketAddress: Prisma.FieldRef<'DiscoveredPool', 'String'>;
+    readonly creator: Prisma.FieldRef<'DiscoveredPool', 'String'>;
 }
 /**
  * DiscoveredPool findUnique
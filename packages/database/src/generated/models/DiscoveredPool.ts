@@ -43,6 +43,8 @@ export type DiscoveredPoolMinAggregateOutputType = {
   initialTvl: runtime.Decimal | null;
   discoveredAt: Date | null;
   status: string | null;
+  marketAddress: string | null;
+  creator: string | null;
 };
 
 export type DiscoveredPoolMaxAggregateOutputType = {
@@ -54,6 +56,8 @@ export type DiscoveredPoolMaxAggregateOutputType = {
   initialTvl: runtime.Decimal | null;
   discoveredAt: Date | null;
   status: string | null;
+  marketAddress: string | null;
+  creator: string | null;
 };
 
 export type DiscoveredPoolCountAggregateOutputType = {
@@ -66,6 +70,8 @@ export type DiscoveredPoolCountAggregateOutputType = {
   discoveredAt: number;
   status: number;
   poolData: number;
+  marketAddress: number;
+  creator: number;
   _all: number;
 };
 
@@ -86,6 +92,8 @@ export type DiscoveredPoolMinAggregateInputType = {
   initialTvl?: true;
   discoveredAt?: true;
   status?: true;
+  marketAddress?: true;
+  creator?: true;
 };
 
 export type DiscoveredPoolMaxAggregateInputType = {
@@ -97,6 +105,8 @@ export type DiscoveredPoolMaxAggregateInputType = {
   initialTvl?: true;
   discoveredAt?: true;
   status?: true;
+  marketAddress?: true;
+  creator?: true;
 };
 
 export type DiscoveredPoolCountAggregateInputType = {
@@ -109,6 +119,8 @@ export type DiscoveredPoolCountAggregateInputType = {
   discoveredAt?: true;
   status?: true;
   poolData?: true;
+  marketAddress?: true;
+  creator?: true;
   _all?: true;
 };
 
@@ -213,6 +225,8 @@ export type DiscoveredPoolGroupByOutputType = {
   discoveredAt: Date;
   status: string;
   poolData: runtime.JsonValue | null;
+  marketAddress: string | null;
+  creator: string | null;
   _count: DiscoveredPoolCountAggregateOutputType | null;
   _avg: DiscoveredPoolAvgAggregateOutputType | null;
   _sum: DiscoveredPoolSumAggregateOutputType | null;
@@ -250,6 +264,8 @@ export type DiscoveredPoolWhereInput = {
   discoveredAt?: Prisma.DateTimeFilter<'DiscoveredPool'> | Date | string;
   status?: Prisma.StringFilter<'DiscoveredPool'> | string;
   poolData?: Prisma.JsonNullableFilter<'DiscoveredPool'>;
+  marketAddress?: Prisma.StringNullableFilter<'DiscoveredPool'> | string | null;
+  creator?: Prisma.StringNullableFilter<'DiscoveredPool'> | string | null;
 };
 
 export type DiscoveredPoolOrderByWithRelationInput = {
@@ -262,6 +278,8 @@ export type DiscoveredPoolOrderByWithRelationInput = {
   discoveredAt?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
   poolData?: Prisma.SortOrderInput | Prisma.SortOrder;
+  marketAddress?: Prisma.SortOrderInput | Prisma.SortOrder;
+  creator?: Prisma.SortOrderInput | Prisma.SortOrder;
 };
 
 export type DiscoveredPoolWhereUniqueInput = Prisma.AtLeast<
@@ -283,6 +301,8 @@ export type DiscoveredPoolWhereUniqueInput = Prisma.AtLeast<
     discoveredAt?: Prisma.DateTimeFilter<'DiscoveredPool'> | Date | string;
     status?: Prisma.StringFilter<'DiscoveredPool'> | string;
     poolData?: Prisma.JsonNullableFilter<'DiscoveredPool'>;
+    marketAddress?: Prisma.StringNullableFilter<'DiscoveredPool'> | string | null;
+    creator?: Prisma.StringNullableFilter<'DiscoveredPool'> | string | null;
   },
   'id' | 'address'
 >;
@@ -297,6 +317,8 @@ export type DiscoveredPoolOrderByWithAggregationInput = {
   discoveredAt?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
   poolData?: Prisma.SortOrderInput | Prisma.SortOrder;
+  marketAddress?: Prisma.SortOrderInput | Prisma.SortOrder;
+  creator?: Prisma.SortOrderInput | Prisma.SortOrder;
   _count?: Prisma.DiscoveredPoolCountOrderByAggregateInput;
   _avg?: Prisma.DiscoveredPoolAvgOrderByAggregateInput;
   _max?: Prisma.DiscoveredPoolMaxOrderByAggregateInput;
@@ -326,6 +348,8 @@ export type DiscoveredPoolScalarWhereWithAggregatesInput = {
   discoveredAt?: Prisma.DateTimeWithAggregatesFilter<'DiscoveredPool'> | Date | string;
   status?: Prisma.StringWithAggregatesFilter<'DiscoveredPool'> | string;
   poolData?: Prisma.JsonNullableWithAggregatesFilter<'DiscoveredPool'>;
+  marketAddress?: Prisma.StringNullableWithAggregatesFilter<'DiscoveredPool'> | string | null;
+  creator?: Prisma.StringNullableWithAggregatesFilter<'DiscoveredPool'> | string | null;
 };
 
 export type DiscoveredPoolCreateInput = {
@@ -338,6 +362,8 @@ export type DiscoveredPoolCreateInput = {
   discoveredAt?: Date | string;
   status?: string;
   poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  marketAddress?: string | null;
+  creator?: string | null;
 };
 
 export type DiscoveredPoolUncheckedCreateInput = {
@@ -350,6 +376,8 @@ export type DiscoveredPoolUncheckedCreateInput = {
   discoveredAt?: Date | string;
   status?: string;
   poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  marketAddress?: string | null;
+  creator?: string | null;
 };
 
 export type DiscoveredPoolUpdateInput = {
@@ -367,6 +395,8 @@ export type DiscoveredPoolUpdateInput = {
   discoveredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
   poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  marketAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  creator?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 
 export type DiscoveredPoolUncheckedUpdateInput = {
@@ -384,6 +414,8 @@ export type DiscoveredPoolUncheckedUpdateInput = {
   discoveredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
   poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  marketAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  creator?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 
 export type DiscoveredPoolCreateManyInput = {
@@ -396,6 +428,8 @@ export type DiscoveredPoolCreateManyInput = {
   discoveredAt?: Date | string;
   status?: string;
   poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  marketAddress?: string | null;
+  creator?: string | null;
 };
 
 export type DiscoveredPoolUpdateManyMutationInput = {
@@ -413,6 +447,8 @@ export type DiscoveredPoolUpdateManyMutationInput = {
   discoveredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
   poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  marketAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  creator?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 
 export type DiscoveredPoolUncheckedUpdateManyInput = {
@@ -430,6 +466,8 @@ export type DiscoveredPoolUncheckedUpdateManyInput = {
   discoveredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
   poolData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  marketAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  creator?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 
 export type DiscoveredPoolCountOrderByAggregateInput = {
@@ -442,6 +480,8 @@ export type DiscoveredPoolCountOrderByAggregateInput = {
   discoveredAt?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
   poolData?: Prisma.SortOrder;
+  marketAddress?: Prisma.SortOrder;
+  creator?: Prisma.SortOrder;
 };
 
 export type DiscoveredPoolAvgOrderByAggregateInput = {
@@ -457,6 +497,8 @@ export type DiscoveredPoolMaxOrderByAggregateInput = {
   initialTvl?: Prisma.SortOrder;
   discoveredAt?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  marketAddress?: Prisma.SortOrder;
+  creator?: Prisma.SortOrder;
 };
 
 export type DiscoveredPoolMinOrderByAggregateInput = {
@@ -468,6 +510,8 @@ export type DiscoveredPoolMinOrderByAggregateInput = {
   initialTvl?: Prisma.SortOrder;
   discoveredAt?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  marketAddress?: Prisma.SortOrder;
+  creator?: Prisma.SortOrder;
 };
 
 export type DiscoveredPoolSumOrderByAggregateInput = {
@@ -487,6 +531,8 @@ export type DiscoveredPoolSelect<
     discoveredAt?: boolean;
     status?: boolean;
     poolData?: boolean;
+    marketAddress?: boolean;
+    creator?: boolean;
   },
   ExtArgs['result']['discoveredPool']
 >;
@@ -504,6 +550,8 @@ export type DiscoveredPoolSelectCreateManyAndReturn<
     discoveredAt?: boolean;
     status?: boolean;
     poolData?: boolean;
+    marketAddress?: boolean;
+    creator?: boolean;
   },
   ExtArgs['result']['discoveredPool']
 >;
@@ -521,6 +569,8 @@ export type DiscoveredPoolSelectUpdateManyAndReturn<
     discoveredAt?: boolean;
     status?: boolean;
     poolData?: boolean;
+    marketAddress?: boolean;
+    creator?: boolean;
   },
   ExtArgs['result']['discoveredPool']
 >;
@@ -535,6 +585,8 @@ export type DiscoveredPoolSelectScalar = {
   discoveredAt?: boolean;
   status?: boolean;
   poolData?: boolean;
+  marketAddress?: boolean;
+  creator?: boolean;
 };
 
 export type DiscoveredPoolOmit<
@@ -548,7 +600,9 @@ export type DiscoveredPoolOmit<
   | 'initialTvl'
   | 'discoveredAt'
   | 'status'
-  | 'poolData',
+  | 'poolData'
+  | 'marketAddress'
+  | 'creator',
   ExtArgs['result']['discoveredPool']
 >;
 
@@ -568,6 +622,8 @@ export type $DiscoveredPoolPayload<
       discoveredAt: Date;
       status: string;
       poolData: runtime.JsonValue | null;
+      marketAddress: string | null;
+      creator: string | null;
     },
     ExtArgs['result']['discoveredPool']
   >;
@@ -1149,6 +1205,8 @@ export interface DiscoveredPoolFieldRefs {
   readonly discoveredAt: Prisma.FieldRef<'DiscoveredPool', 'DateTime'>;
   readonly status: Prisma.FieldRef<'DiscoveredPool', 'String'>;
   readonly poolData: Prisma.FieldRef<'DiscoveredPool', 'Json'>;
+  readonly marketAddress: Prisma.FieldRef<'DiscoveredPool', 'String'>;
+  readonly creator: Prisma.FieldRef<'DiscoveredPool', 'String'>;
 }
 
 // Custom InputTypes
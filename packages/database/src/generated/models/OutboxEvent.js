@@ -0,0 +1,2 @@
+export {};
+//# sourceMappingURL=OutboxEvent.js.map
\ No newline at end of file
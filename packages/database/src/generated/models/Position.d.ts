@@ -17,16 +17,24 @@ export type PositionAvgAggregateOutputType = {
     entryPrice: runtime.Decimal | null;
     currentPrice: runtime.Decimal | null;
     pnl: runtime.Decimal | null;
+    pnlPercent: runtime.Decimal | null;
+    realizedPnl: runtime.Decimal | null;
     stopLoss: runtime.Decimal | null;
     takeProfit: runtime.Decimal | null;
+    trailingStopPercent: runtime.Decimal | null;
+    highWaterMark: runtime.Decimal | null;
 };
 export type PositionSumAggregateOutputType = {
     amount: runtime.Decimal | null;
     entryPrice: runtime.Decimal | null;
     currentPrice: runtime.Decimal | null;
     pnl: runtime.Decimal | null;
+    pnlPercent: runtime.Decimal | null;
+    realizedPnl: runtime.Decimal | null;
     stopLoss: runtime.Decimal | null;
     takeProfit: runtime.Decimal | null;
+    trailingStopPercent: runtime.Decimal | null;
+    highWaterMark: runtime.Decimal | null;
 };
 export type PositionMinAggregateOutputType = {
     id: string | null;
@@ -36,11 +44,17 @@ export type PositionMinAggregateOutputType = {
     entryPrice: runtime.Decimal | null;
     currentPrice: runtime.Decimal | null;
     pnl: runtime.Decimal | null;
+    pnlPercent: runtime.Decimal | null;
+    realizedPnl: runtime.Decimal | null;
     status: string | null;
+    mode: string | null;
     openedAt: Date | null;
     closedAt: Date | null;
+    closeReason: string | null;
     stopLoss: runtime.Decimal | null;
     takeProfit: runtime.Decimal | null;
+    trailingStopPercent: runtime.Decimal | null;
+    highWaterMark: runtime.Decimal | null;
 };
 export type PositionMaxAggregateOutputType = {
     id: string | null;
@@ -50,11 +64,17 @@ export type PositionMaxAggregateOutputType = {
     entryPrice: runtime.Decimal | null;
     currentPrice: runtime.Decimal | null;
     pnl: runtime.Decimal | null;
+    pnlPercent: runtime.Decimal | null;
+    realizedPnl: runtime.Decimal | null;
     status: string | null;
+    mode: string | null;
     openedAt: Date | null;
     closedAt: Date | null;
+    closeReason: string | null;
     stopLoss: runtime.Decimal | null;
     takeProfit: runtime.Decimal | null;
+    trailingStopPercent: runtime.Decimal | null;
+    highWaterMark: runtime.Decimal | null;
 };
 export type PositionCountAggregateOutputType = {
     id: number;
@@ -64,11 +84,17 @@ export type PositionCountAggregateOutputType = {
     entryPrice: number;
     currentPrice: number;
     pnl: number;
+    pnlPercent: number;
+    realizedPnl: number;
     status: number;
+    mode: number;
     openedAt: number;
     closedAt: number;
+    closeReason: number;
     stopLoss: number;
     takeProfit: number;
+    trailingStopPercent: number;
+    highWaterMark: number;
     _all: number;
 };
 export type PositionAvgAggregateInputType = {
@@ -76,16 +102,24 @@ export type PositionAvgAggregateInputType = {
     entryPrice?: true;
     currentPrice?: true;
     pnl?: true;
+    pnlPercent?: true;
+    realizedPnl?: true;
     stopLoss?: true;
     takeProfit?: true;
+    trailingStopPercent?: true;
+    highWaterMark?: true;
 };
 export type PositionSumAggregateInputType = {
     amount?: true;
     entryPrice?: true;
     currentPrice?: true;
     pnl?: true;
+    pnlPercent?: true;
+    realizedPnl?: true;
     stopLoss?: true;
     takeProfit?: true;
+    trailingStopPercent?: true;
+    highWaterMark?: true;
 };
 export type PositionMinAggregateInputType = {
     id?: true;
@@ -95,11 +129,17 @@ export type PositionMinAggregateInputType = {
     entryPrice?: true;
     currentPrice?: true;
     pnl?: true;
+    pnlPercent?: true;
+    realizedPnl?: true;
     status?: true;
+    mode?: true;
     openedAt?: true;
     closedAt?: true;
+    closeReason?: true;
     stopLoss?: true;
     takeProfit?: true;
+    trailingStopPercent?: true;
+    highWaterMark?: true;
 };
 export type PositionMaxAggregateInputType = {
     id?: true;
@@ -109,11 +149,17 @@ export type PositionMaxAggregateInputType = {
     entryPrice?: true;
     currentPrice?: true;
     pnl?: true;
+    pnlPercent?: true;
+    realizedPnl?: true;
     status?: true;
+    mode?: true;
     openedAt?: true;
     closedAt?: true;
+    closeReason?: true;
     stopLoss?: true;
     takeProfit?: true;
+    trailingStopPercent?: true;
+    highWaterMark?: true;
 };
 export type PositionCountAggregateInputType = {
     id?: true;
@@ -123,11 +169,17 @@ export type PositionCountAggregateInputType = {
     entryPrice?: true;
     currentPrice?: true;
     pnl?: true;
+    pnlPercent?: true;
+    realizedPnl?: true;
     status?: true;
+    mode?: true;
     openedAt?: true;
     closedAt?: true;
+    closeReason?: true;
     stopLoss?: true;
     takeProfit?: true;
+    trailingStopPercent?: true;
+    highWaterMark?: true;
     _all?: true;
 };
 export type PositionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -214,11 +266,17 @@ export type PositionGroupByOutputType = {
     entryPrice: runtime.Decimal;
     currentPrice: runtime.Decimal;
     pnl: runtime.Decimal;
+    pnlPercent: runtime.Decimal;
+    realizedPnl: runtime.Decimal;
     status: string;
+    mode: string;
     openedAt: Date;
     closedAt: Date | null;
+    closeReason: string | null;
     stopLoss: runtime.Decimal | null;
     takeProfit: runtime.Decimal | null;
+    trailingStopPercent: runtime.Decimal | null;
+    highWaterMark: runtime.Decimal | null;
     _count: PositionCountAggregateOutputType | null;
     _avg: PositionAvgAggregateOutputType | null;
     _sum: PositionSumAggregateOutputType | null;
@@ -239,13 +297,20 @@ export type PositionWhereInput = {
     entryPrice?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFilter<'Position'> | string;
+    mode?: Prisma.StringFilter<'Position'> | string;
     openedAt?: Prisma.DateTimeFilter<'Position'> | Date | string;
     closedAt?: Prisma.DateTimeNullableFilter<'Position'> | Date | string | null;
+    closeReason?: Prisma.StringNullableFilter<'Position'> | string | null;
     stopLoss?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     account?: Prisma.XOR<Prisma.AccountNullableScalarRelationFilter, Prisma.AccountWhereInput> | null;
     trades?: Prisma.TradeListRelationFilter;
+    takeProfitLevels?: Prisma.TakeProfitLevelListRelationFilter;
 };
 export type PositionOrderByWithRelationInput = {
     id?: Prisma.SortOrder;
@@ -255,13 +320,20 @@ export type PositionOrderByWithRelationInput = {
     entryPrice?: Prisma.SortOrder;
     currentPrice?: Prisma.SortOrder;
     pnl?: Prisma.SortOrder;
+    pnlPercent?: Prisma.SortOrder;
+    realizedPnl?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     openedAt?: Prisma.SortOrder;
     closedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+    closeReason?: Prisma.SortOrderInput | Prisma.SortOrder;
     stopLoss?: Prisma.SortOrderInput | Prisma.SortOrder;
     takeProfit?: Prisma.SortOrderInput | Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrderInput | Prisma.SortOrder;
+    highWaterMark?: Prisma.SortOrderInput | Prisma.SortOrder;
     account?: Prisma.AccountOrderByWithRelationInput;
     trades?: Prisma.TradeOrderByRelationAggregateInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelOrderByRelationAggregateInput;
 };
 export type PositionWhereUniqueInput = Prisma.AtLeast<{
     id?: string;
@@ -274,13 +346,20 @@ export type PositionWhereUniqueInput = Prisma.AtLeast<{
     entryPrice?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFilter<'Position'> | string;
+    mode?: Prisma.StringFilter<'Position'> | string;
     openedAt?: Prisma.DateTimeFilter<'Position'> | Date | string;
     closedAt?: Prisma.DateTimeNullableFilter<'Position'> | Date | string | null;
+    closeReason?: Prisma.StringNullableFilter<'Position'> | string | null;
     stopLoss?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     account?: Prisma.XOR<Prisma.AccountNullableScalarRelationFilter, Prisma.AccountWhereInput> | null;
     trades?: Prisma.TradeListRelationFilter;
+    takeProfitLevels?: Prisma.TakeProfitLevelListRelationFilter;
 }, 'id'>;
 export type PositionOrderByWithAggregationInput = {
     id?: Prisma.SortOrder;
@@ -290,11 +369,17 @@ export type PositionOrderByWithAggregationInput = {
     entryPrice?: Prisma.SortOrder;
     currentPrice?: Prisma.SortOrder;
     pnl?: Prisma.SortOrder;
+    pnlPercent?: Prisma.SortOrder;
+    realizedPnl?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     openedAt?: Prisma.SortOrder;
     closedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+    closeReason?: Prisma.SortOrderInput | Prisma.SortOrder;
     stopLoss?: Prisma.SortOrderInput | Prisma.SortOrder;
     takeProfit?: Prisma.SortOrderInput | Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrderInput | Prisma.SortOrder;
+    highWaterMark?: Prisma.SortOrderInput | Prisma.SortOrder;
     _count?: Prisma.PositionCountOrderByAggregateInput;
     _avg?: Prisma.PositionAvgOrderByAggregateInput;
     _max?: Prisma.PositionMaxOrderByAggregateInput;
@@ -312,11 +397,17 @@ export type PositionScalarWhereWithAggregatesInput = {
     entryPrice?: Prisma.DecimalWithAggregatesFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalWithAggregatesFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalWithAggregatesFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalWithAggregatesFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalWithAggregatesFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringWithAggregatesFilter<'Position'> | string;
+    mode?: Prisma.StringWithAggregatesFilter<'Position'> | string;
     openedAt?: Prisma.DateTimeWithAggregatesFilter<'Position'> | Date | string;
     closedAt?: Prisma.DateTimeNullableWithAggregatesFilter<'Position'> | Date | string | null;
+    closeReason?: Prisma.StringNullableWithAggregatesFilter<'Position'> | string | null;
     stopLoss?: Prisma.DecimalNullableWithAggregatesFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.DecimalNullableWithAggregatesFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.DecimalNullableWithAggregatesFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.DecimalNullableWithAggregatesFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
 };
 export type PositionCreateInput = {
     id?: string;
@@ -325,13 +416,20 @@ export type PositionCreateInput = {
     entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     status: string;
+    mode?: string;
     openedAt?: Date | string;
     closedAt?: Date | string | null;
+    closeReason?: string | null;
     stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     account?: Prisma.AccountCreateNestedOneWithoutPositionsInput;
     trades?: Prisma.TradeCreateNestedManyWithoutPositionInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelCreateNestedManyWithoutPositionInput;
 };
 export type PositionUncheckedCreateInput = {
     id?: string;
@@ -341,12 +439,19 @@ export type PositionUncheckedCreateInput = {
     entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     status: string;
+    mode?: string;
     openedAt?: Date | string;
     closedAt?: Date | string | null;
+    closeReason?: string | null;
     stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     trades?: Prisma.TradeUncheckedCreateNestedManyWithoutPositionInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelUncheckedCreateNestedManyWithoutPositionInput;
 };
 export type PositionUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -355,13 +460,20 @@ export type PositionUpdateInput = {
     entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     account?: Prisma.AccountUpdateOneWithoutPositionsNestedInput;
     trades?: Prisma.TradeUpdateManyWithoutPositionNestedInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelUpdateManyWithoutPositionNestedInput;
 };
 export type PositionUncheckedUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -371,12 +483,19 @@ export type PositionUncheckedUpdateInput = {
     entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     trades?: Prisma.TradeUncheckedUpdateManyWithoutPositionNestedInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelUncheckedUpdateManyWithoutPositionNestedInput;
 };
 export type PositionCreateManyInput = {
     id?: string;
@@ -386,11 +505,17 @@ export type PositionCreateManyInput = {
     entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     status: string;
+    mode?: string;
     openedAt?: Date | string;
     closedAt?: Date | string | null;
+    closeReason?: string | null;
     stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
 };
 export type PositionUpdateManyMutationInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -399,11 +524,17 @@ export type PositionUpdateManyMutationInput = {
     entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
 };
 export type PositionUncheckedUpdateManyInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -413,11 +544,17 @@ export type PositionUncheckedUpdateManyInput = {
     entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
 };
 export type PositionListRelationFilter = {
     every?: Prisma.PositionWhereInput;
@@ -435,19 +572,29 @@ export type PositionCountOrderByAggregateInput = {
     entryPrice?: Prisma.SortOrder;
     currentPrice?: Prisma.SortOrder;
     pnl?: Prisma.SortOrder;
+    pnlPercent?: Prisma.SortOrder;
+    realizedPnl?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     openedAt?: Prisma.SortOrder;
     closedAt?: Prisma.SortOrder;
+    closeReason?: Prisma.SortOrder;
     stopLoss?: Prisma.SortOrder;
     takeProfit?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrder;
+    highWaterMark?: Prisma.SortOrder;
 };
 export type PositionAvgOrderByAggregateInput = {
     amount?: Prisma.SortOrder;
     entryPrice?: Prisma.SortOrder;
     currentPrice?: Prisma.SortOrder;
     pnl?: Prisma.SortOrder;
+    pnlPercent?: Prisma.SortOrder;
+    realizedPnl?: Prisma.SortOrder;
     stopLoss?: Prisma.SortOrder;
     takeProfit?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrder;
+    highWaterMark?: Prisma.SortOrder;
 };
 export type PositionMaxOrderByAggregateInput = {
     id?: Prisma.SortOrder;
@@ -457,11 +604,17 @@ export type PositionMaxOrderByAggregateInput = {
     entryPrice?: Prisma.SortOrder;
     currentPrice?: Prisma.SortOrder;
     pnl?: Prisma.SortOrder;
+    pnlPercent?: Prisma.SortOrder;
+    realizedPnl?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     openedAt?: Prisma.SortOrder;
     closedAt?: Prisma.SortOrder;
+    closeReason?: Prisma.SortOrder;
     stopLoss?: Prisma.SortOrder;
     takeProfit?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrder;
+    highWaterMark?: Prisma.SortOrder;
 };
 export type PositionMinOrderByAggregateInput = {
     id?: Prisma.SortOrder;
@@ -471,19 +624,29 @@ export type PositionMinOrderByAggregateInput = {
     entryPrice?: Prisma.SortOrder;
     currentPrice?: Prisma.SortOrder;
     pnl?: Prisma.SortOrder;
+    pnlPercent?: Prisma.SortOrder;
+    realizedPnl?: Prisma.SortOrder;
     status?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     openedAt?: Prisma.SortOrder;
     closedAt?: Prisma.SortOrder;
+    closeReason?: Prisma.SortOrder;
     stopLoss?: Prisma.SortOrder;
     takeProfit?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrder;
+    highWaterMark?: Prisma.SortOrder;
 };
 export type PositionSumOrderByAggregateInput = {
     amount?: Prisma.SortOrder;
     entryPrice?: Prisma.SortOrder;
     currentPrice?: Prisma.SortOrder;
     pnl?: Prisma.SortOrder;
+    pnlPercent?: Prisma.SortOrder;
+    realizedPnl?: Prisma.SortOrder;
     stopLoss?: Prisma.SortOrder;
     takeProfit?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrder;
+    highWaterMark?: Prisma.SortOrder;
 };
 export type PositionScalarRelationFilter = {
     is?: Prisma.PositionWhereInput;
@@ -537,6 +700,18 @@ export type NullableDecimalFieldUpdateOperationsInput = {
     multiply?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     divide?: runtime.Decimal | runtime.DecimalJsLike | number | string;
 };
+export type PositionCreateNestedOneWithoutTakeProfitLevelsInput = {
+    create?: Prisma.XOR<Prisma.PositionCreateWithoutTakeProfitLevelsInput, Prisma.PositionUncheckedCreateWithoutTakeProfitLevelsInput>;
+    connectOrCreate?: Prisma.PositionCreateOrConnectWithoutTakeProfitLevelsInput;
+    connect?: Prisma.PositionWhereUniqueInput;
+};
+export type PositionUpdateOneRequiredWithoutTakeProfitLevelsNestedInput = {
+    create?: Prisma.XOR<Prisma.PositionCreateWithoutTakeProfitLevelsInput, Prisma.PositionUncheckedCreateWithoutTakeProfitLevelsInput>;
+    connectOrCreate?: Prisma.PositionCreateOrConnectWithoutTakeProfitLevelsInput;
+    upsert?: Prisma.PositionUpsertWithoutTakeProfitLevelsInput;
+    connect?: Prisma.PositionWhereUniqueInput;
+    update?: Prisma.XOR<Prisma.XOR<Prisma.PositionUpdateToOneWithWhereWithoutTakeProfitLevelsInput, Prisma.PositionUpdateWithoutTakeProfitLevelsInput>, Prisma.PositionUncheckedUpdateWithoutTakeProfitLevelsInput>;
+};
 export type PositionCreateNestedOneWithoutTradesInput = {
     create?: Prisma.XOR<Prisma.PositionCreateWithoutTradesInput, Prisma.PositionUncheckedCreateWithoutTradesInput>;
     connectOrCreate?: Prisma.PositionCreateOrConnectWithoutTradesInput;
@@ -556,12 +731,19 @@ export type PositionCreateWithoutAccountInput = {
     entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     status: string;
+    mode?: string;
     openedAt?: Date | string;
     closedAt?: Date | string | null;
+    closeReason?: string | null;
     stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     trades?: Prisma.TradeCreateNestedManyWithoutPositionInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelCreateNestedManyWithoutPositionInput;
 };
 export type PositionUncheckedCreateWithoutAccountInput = {
     id?: string;
@@ -570,12 +752,19 @@ export type PositionUncheckedCreateWithoutAccountInput = {
     entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     status: string;
+    mode?: string;
     openedAt?: Date | string;
     closedAt?: Date | string | null;
+    closeReason?: string | null;
     stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     trades?: Prisma.TradeUncheckedCreateNestedManyWithoutPositionInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelUncheckedCreateNestedManyWithoutPositionInput;
 };
 export type PositionCreateOrConnectWithoutAccountInput = {
     where: Prisma.PositionWhereUniqueInput;
@@ -609,11 +798,114 @@ export type PositionScalarWhereInput = {
     entryPrice?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFilter<'Position'> | string;
+    mode?: Prisma.StringFilter<'Position'> | string;
     openedAt?: Prisma.DateTimeFilter<'Position'> | Date | string;
     closedAt?: Prisma.DateTimeNullableFilter<'Position'> | Date | string | null;
+    closeReason?: Prisma.StringNullableFilter<'Position'> | string | null;
     stopLoss?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.DecimalNullableFilter<'Position'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+};
+export type PositionCreateWithoutTakeProfitLevelsInput = {
+    id?: string;
+    token: string;
+    amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    status: string;
+    mode?: string;
+    openedAt?: Date | string;
+    closedAt?: Date | string | null;
+    closeReason?: string | null;
+    stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    account?: Prisma.AccountCreateNestedOneWithoutPositionsInput;
+    trades?: Prisma.TradeCreateNestedManyWithoutPositionInput;
+};
+export type PositionUncheckedCreateWithoutTakeProfitLevelsInput = {
+    id?: string;
+    accountId?: string | null;
+    token: string;
+    amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    status: string;
+    mode?: string;
+    openedAt?: Date | string;
+    closedAt?: Date | string | null;
+    closeReason?: string | null;
+    stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trades?: Prisma.TradeUncheckedCreateNestedManyWithoutPositionInput;
+};
+export type PositionCreateOrConnectWithoutTakeProfitLevelsInput = {
+    where: Prisma.PositionWhereUniqueInput;
+    create: Prisma.XOR<Prisma.PositionCreateWithoutTakeProfitLevelsInput, Prisma.PositionUncheckedCreateWithoutTakeProfitLevelsInput>;
+};
+export type PositionUpsertWithoutTakeProfitLevelsInput = {
+    update: Prisma.XOR<Prisma.PositionUpdateWithoutTakeProfitLevelsInput, Prisma.PositionUncheckedUpdateWithoutTakeProfitLevelsInput>;
+    create: Prisma.XOR<Prisma.PositionCreateWithoutTakeProfitLevelsInput, Prisma.PositionUncheckedCreateWithoutTakeProfitLevelsInput>;
+    where?: Prisma.PositionWhereInput;
+};
+export type PositionUpdateToOneWithWhereWithoutTakeProfitLevelsInput = {
+    where?: Prisma.PositionWhereInput;
+    data: Prisma.XOR<Prisma.PositionUpdateWithoutTakeProfitLevelsInput, Prisma.PositionUncheckedUpdateWithoutTakeProfitLevelsInput>;
+};
+export type PositionUpdateWithoutTakeProfitLevelsInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    token?: Prisma.StringFieldUpdateOperationsInput | string;
+    amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
+    openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    account?: Prisma.AccountUpdateOneWithoutPositionsNestedInput;
+    trades?: Prisma.TradeUpdateManyWithoutPositionNestedInput;
+};
+export type PositionUncheckedUpdateWithoutTakeProfitLevelsInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    token?: Prisma.StringFieldUpdateOperationsInput | string;
+    amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
+    openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trades?: Prisma.TradeUncheckedUpdateManyWithoutPositionNestedInput;
 };
 export type PositionCreateWithoutTradesInput = {
     id?: string;
@@ -622,12 +914,19 @@ export type PositionCreateWithoutTradesInput = {
     entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     status: string;
+    mode?: string;
     openedAt?: Date | string;
     closedAt?: Date | string | null;
+    closeReason?: string | null;
     stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     account?: Prisma.AccountCreateNestedOneWithoutPositionsInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelCreateNestedManyWithoutPositionInput;
 };
 export type PositionUncheckedCreateWithoutTradesInput = {
     id?: string;
@@ -637,11 +936,18 @@ export type PositionUncheckedCreateWithoutTradesInput = {
     entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     status: string;
+    mode?: string;
     openedAt?: Date | string;
     closedAt?: Date | string | null;
+    closeReason?: string | null;
     stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLevels?: Prisma.TakeProfitLevelUncheckedCreateNestedManyWithoutPositionInput;
 };
 export type PositionCreateOrConnectWithoutTradesInput = {
     where: Prisma.PositionWhereUniqueInput;
@@ -663,12 +969,19 @@ export type PositionUpdateWithoutTradesInput = {
     entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     account?: Prisma.AccountUpdateOneWithoutPositionsNestedInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelUpdateManyWithoutPositionNestedInput;
 };
 export type PositionUncheckedUpdateWithoutTradesInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -678,11 +991,18 @@ export type PositionUncheckedUpdateWithoutTradesInput = {
     entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLevels?: Prisma.TakeProfitLevelUncheckedUpdateManyWithoutPositionNestedInput;
 };
 export type PositionCreateManyAccountInput = {
     id?: string;
@@ -691,11 +1011,17 @@ export type PositionCreateManyAccountInput = {
     entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     status: string;
+    mode?: string;
     openedAt?: Date | string;
     closedAt?: Date | string | null;
+    closeReason?: string | null;
     stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
 };
 export type PositionUpdateWithoutAccountInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -704,12 +1030,19 @@ export type PositionUpdateWithoutAccountInput = {
     entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     trades?: Prisma.TradeUpdateManyWithoutPositionNestedInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelUpdateManyWithoutPositionNestedInput;
 };
 export type PositionUncheckedUpdateWithoutAccountInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -718,12 +1051,19 @@ export type PositionUncheckedUpdateWithoutAccountInput = {
     entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     trades?: Prisma.TradeUncheckedUpdateManyWithoutPositionNestedInput;
+    takeProfitLevels?: Prisma.TakeProfitLevelUncheckedUpdateManyWithoutPositionNestedInput;
 };
 export type PositionUncheckedUpdateManyWithoutAccountInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -732,20 +1072,28 @@ export type PositionUncheckedUpdateManyWithoutAccountInput = {
     entryPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     currentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     pnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    pnlPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    realizedPnl?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     status?: Prisma.StringFieldUpdateOperationsInput | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     stopLoss?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     takeProfit?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    highWaterMark?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
 };
 /**
  * Count Type PositionCountOutputType
  */
 export type PositionCountOutputType = {
     trades: number;
+    takeProfitLevels: number;
 };
 export type PositionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
     trades?: boolean | PositionCountOutputTypeCountTradesArgs;
+    takeProfitLevels?: boolean | PositionCountOutputTypeCountTakeProfitLevelsArgs;
 };
 /**
  * PositionCountOutputType without action
@@ -762,6 +1110,12 @@ export type PositionCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Ext
 export type PositionCountOutputTypeCountTradesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
     where?: Prisma.TradeWhereInput;
 };
+/**
+ * PositionCountOutputType without action
+ */
+export type PositionCountOutputTypeCountTakeProfitLevelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    where?: Prisma.TakeProfitLevelWhereInput;
+};
 export type PositionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
     accountId?: boolean;
@@ -770,13 +1124,20 @@ export type PositionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
     entryPrice?: boolean;
     currentPrice?: boolean;
     pnl?: boolean;
+    pnlPercent?: boolean;
+    realizedPnl?: boolean;
     status?: boolean;
+    mode?: boolean;
     openedAt?: boolean;
     closedAt?: boolean;
+    closeReason?: boolean;
     stopLoss?: boolean;
     takeProfit?: boolean;
+    trailingStopPercent?: boolean;
+    highWaterMark?: boolean;
     account?: boolean | Prisma.Position$accountArgs<ExtArgs>;
     trades?: boolean | Prisma.Position$tradesArgs<ExtArgs>;
+    takeProfitLevels?: boolean | Prisma.Position$takeProfitLevelsArgs<ExtArgs>;
     _count?: boolean | Prisma.PositionCountOutputTypeDefaultArgs<ExtArgs>;
 }, ExtArgs['result']['position']>;
 export type PositionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -787,11 +1148,17 @@ export type PositionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
     entryPrice?: boolean;
     currentPrice?: boolean;
     pnl?: boolean;
+    pnlPercent?: boolean;
+    realizedPnl?: boolean;
     status?: boolean;
+    mode?: boolean;
     openedAt?: boolean;
     closedAt?: boolean;
+    closeReason?: boolean;
     stopLoss?: boolean;
     takeProfit?: boolean;
+    trailingStopPercent?: boolean;
+    highWaterMark?: boolean;
     account?: boolean | Prisma.Position$accountArgs<ExtArgs>;
 }, ExtArgs['result']['position']>;
 export type PositionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -802,11 +1169,17 @@ export type PositionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
     entryPrice?: boolean;
     currentPrice?: boolean;
     pnl?: boolean;
+    pnlPercent?: boolean;
+    realizedPnl?: boolean;
     status?: boolean;
+    mode?: boolean;
     openedAt?: boolean;
     closedAt?: boolean;
+    closeReason?: boolean;
     stopLoss?: boolean;
     takeProfit?: boolean;
+    trailingStopPercent?: boolean;
+    highWaterMark?: boolean;
     account?: boolean | Prisma.Position$accountArgs<ExtArgs>;
 }, ExtArgs['result']['position']>;
 export type PositionSelectScalar = {
@@ -817,16 +1190,23 @@ export type PositionSelectScalar = {
     entryPrice?: boolean;
     currentPrice?: boolean;
     pnl?: boolean;
+    pnlPercent?: boolean;
+    realizedPnl?: boolean;
     status?: boolean;
+    mode?: boolean;
     openedAt?: boolean;
     closedAt?: boolean;
+    closeReason?: boolean;
     stopLoss?: boolean;
     takeProfit?: boolean;
+    trailingStopPercent?: boolean;
+    highWaterMark?: boolean;
 };
-export type PositionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'accountId' | 'token' | 'amount' | 'entryPrice' | 'currentPrice' | 'pnl' | 'status' | 'openedAt' | 'closedAt' | 'stopLoss' | 'takeProfit', ExtArgs['result']['position']>;
+export type PositionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'accountId' | 'token' | 'amount' | 'entryPrice' | 'currentPrice' | 'pnl' | 'pnlPercent' | 'realizedPnl' | 'status' | 'mode' | 'openedAt' | 'closedAt' | 'closeReason' | 'stopLoss' | 'takeProfit' | 'trailingStopPercent' | 'highWaterMark', ExtArgs['result']['position']>;
 export type PositionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
     account?: boolean | Prisma.Position$accountArgs<ExtArgs>;
     trades?: boolean | Prisma.Position$tradesArgs<ExtArgs>;
+    takeProfitLevels?: boolean | Prisma.Position$takeProfitLevelsArgs<ExtArgs>;
     _count?: boolean | Prisma.PositionCountOutputTypeDefaultArgs<ExtArgs>;
 };
 export type PositionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -840,6 +1220,7 @@ export type $PositionPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     objects: {
         account: Prisma.$AccountPayload<ExtArgs> | null;
         trades: Prisma.$TradePayload<ExtArgs>[];
+        takeProfitLevels: Prisma.$TakeProfitLevelPayload<ExtArgs>[];
     };
     scalars: runtime.Types.Extensions.GetPayloadResult<{
         id: string;
@@ -849,11 +1230,17 @@ export type $PositionPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
         entryPrice: runtime.Decimal;
         currentPrice: runtime.Decimal;
         pnl: runtime.Decimal;
+        pnlPercent: runtime.Decimal;
+        realizedPnl: runtime.Decimal;
         status: string;
+        mode: string;
         openedAt: Date;
         closedAt: Date | null;
+        closeReason: string | null;
         stopLoss: runtime.Decimal | null;
         takeProfit: runtime.Decimal | null;
+        trailingStopPercent: runtime.Decimal | null;
+        highWaterMark: runtime.Decimal | null;
     }, ExtArgs['result']['position']>;
     composites: {};
 };
@@ -1180,6 +1567,7 @@ export interface Prisma__PositionClient<T, Null = never, ExtArgs extends runtime
     readonly [Symbol.toStringTag]: 'PrismaPromise';
     account<T extends Prisma.Position$accountArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Position$accountArgs<ExtArgs>>): Prisma.Prisma__AccountClient<runtime.Types.Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, 'findUniqueOrThrow', GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>;
     trades<T extends Prisma.Position$tradesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Position$tradesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TradePayload<ExtArgs>, T, 'findMany', GlobalOmitOptions> | Null>;
+    takeProfitLevels<T extends Prisma.Position$takeProfitLevelsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Position$takeProfitLevelsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'findMany', GlobalOmitOptions> | Null>;
     /**
      * Attaches callbacks for the resolution and/or rejection of the Promise.
      * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1212,11 +1600,17 @@ export interface PositionFieldRefs {
     readonly entryPrice: Prisma.FieldRef<'Position', 'Decimal'>;
     readonly currentPrice: Prisma.FieldRef<'Position', 'Decimal'>;
     readonly pnl: Prisma.FieldRef<'Position', 'Decimal'>;
+    readonly pnlPercent: Prisma.FieldRef<'Position', 'Decimal'>;
+    readonly realizedPnl: Prisma.FieldRef<'Position', 'Decimal'>;
     readonly status: Prisma.FieldRef<'Position', 'String'>;
+    readonly mode: Prisma.FieldRef<'Position', 'String'>;
     readonly openedAt: Prisma.FieldRef<'Position', 'DateTime'>;
     readonly closedAt: Prisma.FieldRef<'Position', 'DateTime'>;
+    readonly closeReason: Prisma.FieldRef<'Position', 'String'>;
     readonly stopLoss: Prisma.FieldRef<'Position', 'Decimal'>;
     readonly takeProfit: Prisma.FieldRef<'Position', 'Decimal'>;
+    readonly trailingStopPercent: Prisma.FieldRef<'Position', 'Decimal'>;
+    readonly highWaterMark: Prisma.FieldRef<'Position', 'Decimal'>;
 }
 /**
  * Position findUnique
@@ -1636,6 +2030,29 @@ export type Position$tradesArgs<ExtArgs extends runtime.Types.Extensions.Interna
     skip?: number;
     distinct?: Prisma.TradeScalarFieldEnum | Prisma.TradeScalarFieldEnum[];
 };
+/**
+ * Position.takeProfitLevels
+ */
+export type Position$takeProfitLevelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    where?: Prisma.TakeProfitLevelWhereInput;
+    orderBy?: Prisma.TakeProfitLevelOrderByWithRelationInput | Prisma.TakeProfitLevelOrderByWithRelationInput[];
+    cursor?: Prisma.TakeProfitLevelWhereUniqueInput;
+    take?: number;
+    skip?: number;
+    distinct?: Prisma.TakeProfitLevelScalarFieldEnum | Prisma.TakeProfitLevelScalarFieldEnum[];
+};
 /**
  * Position without action
  */
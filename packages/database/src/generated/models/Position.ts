@@ -30,8 +30,12 @@ export type PositionAvgAggregateOutputType = {
   entryPrice: runtime.Decimal | null;
   currentPrice: runtime.Decimal | null;
   pnl: runtime.Decimal | null;
+  pnlPercent: runtime.Decimal | null;
+  realizedPnl: runtime.Decimal | null;
   stopLoss: runtime.Decimal | null;
   takeProfit: runtime.Decimal | null;
+  trailingStopPercent: runtime.Decimal | null;
+  highWaterMark: runtime.Decimal | null;
 };
 
 export type PositionSumAggregateOutputType = {
@@ -39,8 +43,12 @@ export type PositionSumAggregateOutputType = {
   entryPrice: runtime.Decimal | null;
   currentPrice: runtime.Decimal | null;
   pnl: runtime.Decimal | null;
+  pnlPercent: runtime.Decimal | null;
+  realizedPnl: runtime.Decimal | null;
   stopLoss: runtime.Decimal | null;
   takeProfit: runtime.Decimal | null;
+  trailingStopPercent: runtime.Decimal | null;
+  highWaterMark: runtime.Decimal | null;
 };
 
 export type PositionMinAggregateOutputType = {
@@ -51,11 +59,17 @@ export type PositionMinAggregateOutputType = {
   entryPrice: runtime.Decimal | null;
   currentPrice: runtime.Decimal | null;
   pnl: runtime.Decimal | null;
+  pnlPercent: runtime.Decimal | null;
+  realizedPnl: runtime.Decimal | null;
   status: string | null;
+  mode: string | null;
   openedAt: Date | null;
   closedAt: Date | null;
+  closeReason: string | null;
   stopLoss: runtime.Decimal | null;
   takeProfit: runtime.Decimal | null;
+  trailingStopPercent: runtime.Decimal | null;
+  highWaterMark: runtime.Decimal | null;
 };
 
 export type PositionMaxAggregateOutputType = {
@@ -66,11 +80,17 @@ export type PositionMaxAggregateOutputType = {
   entryPrice: runtime.Decimal | null;
   currentPrice: runtime.Decimal | null;
   pnl: runtime.Decimal | null;
+  pnlPercent: runtime.Decimal | null;
+  realizedPnl: runtime.Decimal | null;
   status: string | null;
+  mode: string | null;
   openedAt: Date | null;
   closedAt: Date | null;
+  closeReason: string | null;
   stopLoss: runtime.Decimal | null;
   takeProfit: runtime.Decimal | null;
+  trailingStopPercent: runtime.Decimal | null;
+  highWaterMark: runtime.Decimal | null;
 };
 
 export type PositionCountAggregateOutputType = {
@@ -81,11 +101,17 @@ export type PositionCountAggregateOutputType = {
   entryPrice: number;
   currentPrice: number;
   pnl: number;
+  pnlPercent: number;
+  realizedPnl: number;
   status: number;
+  mode: number;
   openedAt: number;
   closedAt: number;
+  closeReason: number;
   stopLoss: number;
   takeProfit: number;
+  trailingStopPercent: number;
+  highWaterMark: number;
   _all: number;
 };
 
@@ -94,8 +120,12 @@ export type PositionAvgAggregateInputType = {
   entryPrice?: true;
   currentPrice?: true;
   pnl?: true;
+  pnlPercent?: true;
+  realizedPnl?: true;
   stopLoss?: true;
   takeProfit?: true;
+  trailingStopPercent?: true;
+  highWaterMark?: true;
 };
 
 export type PositionSumAggregateInputType = {
@@ -103,8 +133,12 @@ export type PositionSumAggregateInputType = {
   entryPrice?: true;
   currentPrice?: true;
   pnl?: true;
+  pnlPercent?: true;
+  realizedPnl?: true;
   stopLoss?: true;
   takeProfit?: true;
+  trailingStopPercent?: true;
+  highWaterMark?: true;
 };
 
 export type PositionMinAggregateInputType = {
@@ -115,11 +149,17 @@ export type PositionMinAggregateInputType = {
   entryPrice?: true;
   currentPrice?: true;
   pnl?: true;
+  pnlPercent?: true;
+  realizedPnl?: true;
   status?: true;
+  mode?: true;
   openedAt?: true;
   closedAt?: true;
+  closeReason?: true;
   stopLoss?: true;
   takeProfit?: true;
+  trailingStopPercent?: true;
+  highWaterMark?: true;
 };
 
 export type PositionMaxAggregateInputType = {
@@ -130,11 +170,17 @@ export type PositionMaxAggregateInputType = {
   entryPrice?: true;
   currentPrice?: true;
   pnl?: true;
+  pnlPercent?: true;
+  realizedPnl?: true;
   status?: true;
+  mode?: true;
   openedAt?: true;
   closedAt?: true;
+  closeReason?: true;
   stopLoss?: true;
   takeProfit?: true;
+  trailingStopPercent?: true;
+  highWaterMark?: true;
 };
 
 export type PositionCountAggregateInputType = {
@@ -145,11 +191,17 @@ export type PositionCountAggregateInputType = {
   entryPrice?: true;
   currentPrice?: true;
   pnl?: true;
+  pnlPercent?: true;
+  realizedPnl?: true;
   status?: true;
+  mode?: true;
   openedAt?: true;
   closedAt?: true;
+  closeReason?: true;
   stopLoss?: true;
   takeProfit?: true;
+  trailingStopPercent?: true;
+  highWaterMark?: true;
   _all?: true;
 };
 
@@ -250,11 +302,17 @@ export type PositionGroupByOutputType = {
   entryPrice: runtime.Decimal;
   currentPrice: runtime.Decimal;
   pnl: runtime.Decimal;
+  pnlPercent: runtime.Decimal;
+  realizedPnl: runtime.Decimal;
   status: string;
+  mode: string;
   openedAt: Date;
   closedAt: Date | null;
+  closeReason: string | null;
   stopLoss: runtime.Decimal | null;
   takeProfit: runtime.Decimal | null;
+  trailingStopPercent: runtime.Decimal | null;
+  highWaterMark: runtime.Decimal | null;
   _count: PositionCountAggregateOutputType | null;
   _avg: PositionAvgAggregateOutputType | null;
   _sum: PositionSumAggregateOutputType | null;
@@ -305,9 +363,23 @@ export type PositionWhereInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFilter<'Position'> | string;
+  mode?: Prisma.StringFilter<'Position'> | string;
   openedAt?: Prisma.DateTimeFilter<'Position'> | Date | string;
   closedAt?: Prisma.DateTimeNullableFilter<'Position'> | Date | string | null;
+  closeReason?: Prisma.StringNullableFilter<'Position'> | string | null;
   stopLoss?:
     | Prisma.DecimalNullableFilter<'Position'>
     | runtime.Decimal
@@ -322,8 +394,23 @@ export type PositionWhereInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.DecimalNullableFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.DecimalNullableFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
   account?: Prisma.XOR<Prisma.AccountNullableScalarRelationFilter, Prisma.AccountWhereInput> | null;
   trades?: Prisma.TradeListRelationFilter;
+  takeProfitLevels?: Prisma.TakeProfitLevelListRelationFilter;
 };
 
 export type PositionOrderByWithRelationInput = {
@@ -334,13 +421,20 @@ export type PositionOrderByWithRelationInput = {
   entryPrice?: Prisma.SortOrder;
   currentPrice?: Prisma.SortOrder;
   pnl?: Prisma.SortOrder;
+  pnlPercent?: Prisma.SortOrder;
+  realizedPnl?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   openedAt?: Prisma.SortOrder;
   closedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  closeReason?: Prisma.SortOrderInput | Prisma.SortOrder;
   stopLoss?: Prisma.SortOrderInput | Prisma.SortOrder;
   takeProfit?: Prisma.SortOrderInput | Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrderInput | Prisma.SortOrder;
+  highWaterMark?: Prisma.SortOrderInput | Prisma.SortOrder;
   account?: Prisma.AccountOrderByWithRelationInput;
   trades?: Prisma.TradeOrderByRelationAggregateInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelOrderByRelationAggregateInput;
 };
 
 export type PositionWhereUniqueInput = Prisma.AtLeast<
@@ -375,9 +469,23 @@ export type PositionWhereUniqueInput = Prisma.AtLeast<
       | runtime.DecimalJsLike
       | number
       | string;
+    pnlPercent?:
+      | Prisma.DecimalFilter<'Position'>
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string;
+    realizedPnl?:
+      | Prisma.DecimalFilter<'Position'>
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string;
     status?: Prisma.StringFilter<'Position'> | string;
+    mode?: Prisma.StringFilter<'Position'> | string;
     openedAt?: Prisma.DateTimeFilter<'Position'> | Date | string;
     closedAt?: Prisma.DateTimeNullableFilter<'Position'> | Date | string | null;
+    closeReason?: Prisma.StringNullableFilter<'Position'> | string | null;
     stopLoss?:
       | Prisma.DecimalNullableFilter<'Position'>
       | runtime.Decimal
@@ -392,11 +500,26 @@ export type PositionWhereUniqueInput = Prisma.AtLeast<
       | number
       | string
       | null;
+    trailingStopPercent?:
+      | Prisma.DecimalNullableFilter<'Position'>
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string
+      | null;
+    highWaterMark?:
+      | Prisma.DecimalNullableFilter<'Position'>
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string
+      | null;
     account?: Prisma.XOR<
       Prisma.AccountNullableScalarRelationFilter,
       Prisma.AccountWhereInput
     > | null;
     trades?: Prisma.TradeListRelationFilter;
+    takeProfitLevels?: Prisma.TakeProfitLevelListRelationFilter;
   },
   'id'
 >;
@@ -409,11 +532,17 @@ export type PositionOrderByWithAggregationInput = {
   entryPrice?: Prisma.SortOrder;
   currentPrice?: Prisma.SortOrder;
   pnl?: Prisma.SortOrder;
+  pnlPercent?: Prisma.SortOrder;
+  realizedPnl?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   openedAt?: Prisma.SortOrder;
   closedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  closeReason?: Prisma.SortOrderInput | Prisma.SortOrder;
   stopLoss?: Prisma.SortOrderInput | Prisma.SortOrder;
   takeProfit?: Prisma.SortOrderInput | Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrderInput | Prisma.SortOrder;
+  highWaterMark?: Prisma.SortOrderInput | Prisma.SortOrder;
   _count?: Prisma.PositionCountOrderByAggregateInput;
   _avg?: Prisma.PositionAvgOrderByAggregateInput;
   _max?: Prisma.PositionMaxOrderByAggregateInput;
@@ -456,9 +585,23 @@ export type PositionScalarWhereWithAggregatesInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalWithAggregatesFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalWithAggregatesFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringWithAggregatesFilter<'Position'> | string;
+  mode?: Prisma.StringWithAggregatesFilter<'Position'> | string;
   openedAt?: Prisma.DateTimeWithAggregatesFilter<'Position'> | Date | string;
   closedAt?: Prisma.DateTimeNullableWithAggregatesFilter<'Position'> | Date | string | null;
+  closeReason?: Prisma.StringNullableWithAggregatesFilter<'Position'> | string | null;
   stopLoss?:
     | Prisma.DecimalNullableWithAggregatesFilter<'Position'>
     | runtime.Decimal
@@ -473,6 +616,20 @@ export type PositionScalarWhereWithAggregatesInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.DecimalNullableWithAggregatesFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.DecimalNullableWithAggregatesFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
 };
 
 export type PositionCreateInput = {
@@ -482,13 +639,20 @@ export type PositionCreateInput = {
   entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   status: string;
+  mode?: string;
   openedAt?: Date | string;
   closedAt?: Date | string | null;
+  closeReason?: string | null;
   stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   account?: Prisma.AccountCreateNestedOneWithoutPositionsInput;
   trades?: Prisma.TradeCreateNestedManyWithoutPositionInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelCreateNestedManyWithoutPositionInput;
 };
 
 export type PositionUncheckedCreateInput = {
@@ -499,12 +663,19 @@ export type PositionUncheckedCreateInput = {
   entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   status: string;
+  mode?: string;
   openedAt?: Date | string;
   closedAt?: Date | string | null;
+  closeReason?: string | null;
   stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   trades?: Prisma.TradeUncheckedCreateNestedManyWithoutPositionInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelUncheckedCreateNestedManyWithoutPositionInput;
 };
 
 export type PositionUpdateInput = {
@@ -534,9 +705,23 @@ export type PositionUpdateInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
     | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -551,8 +736,23 @@ export type PositionUpdateInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
   account?: Prisma.AccountUpdateOneWithoutPositionsNestedInput;
   trades?: Prisma.TradeUpdateManyWithoutPositionNestedInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelUpdateManyWithoutPositionNestedInput;
 };
 
 export type PositionUncheckedUpdateInput = {
@@ -583,9 +783,23 @@ export type PositionUncheckedUpdateInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
     | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -600,7 +814,22 @@ export type PositionUncheckedUpdateInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
   trades?: Prisma.TradeUncheckedUpdateManyWithoutPositionNestedInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelUncheckedUpdateManyWithoutPositionNestedInput;
 };
 
 export type PositionCreateManyInput = {
@@ -611,11 +840,17 @@ export type PositionCreateManyInput = {
   entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   status: string;
+  mode?: string;
   openedAt?: Date | string;
   closedAt?: Date | string | null;
+  closeReason?: string | null;
   stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
 };
 
 export type PositionUpdateManyMutationInput = {
@@ -645,9 +880,23 @@ export type PositionUpdateManyMutationInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
     | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -662,6 +911,20 @@ export type PositionUpdateManyMutationInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
 };
 
 export type PositionUncheckedUpdateManyInput = {
@@ -692,9 +955,23 @@ export type PositionUncheckedUpdateManyInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
     | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -709,6 +986,20 @@ export type PositionUncheckedUpdateManyInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
 };
 
 export type PositionListRelationFilter = {
@@ -729,11 +1020,17 @@ export type PositionCountOrderByAggregateInput = {
   entryPrice?: Prisma.SortOrder;
   currentPrice?: Prisma.SortOrder;
   pnl?: Prisma.SortOrder;
+  pnlPercent?: Prisma.SortOrder;
+  realizedPnl?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   openedAt?: Prisma.SortOrder;
   closedAt?: Prisma.SortOrder;
+  closeReason?: Prisma.SortOrder;
   stopLoss?: Prisma.SortOrder;
   takeProfit?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrder;
+  highWaterMark?: Prisma.SortOrder;
 };
 
 export type PositionAvgOrderByAggregateInput = {
@@ -741,8 +1038,12 @@ export type PositionAvgOrderByAggregateInput = {
   entryPrice?: Prisma.SortOrder;
   currentPrice?: Prisma.SortOrder;
   pnl?: Prisma.SortOrder;
+  pnlPercent?: Prisma.SortOrder;
+  realizedPnl?: Prisma.SortOrder;
   stopLoss?: Prisma.SortOrder;
   takeProfit?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrder;
+  highWaterMark?: Prisma.SortOrder;
 };
 
 export type PositionMaxOrderByAggregateInput = {
@@ -753,11 +1054,17 @@ export type PositionMaxOrderByAggregateInput = {
   entryPrice?: Prisma.SortOrder;
   currentPrice?: Prisma.SortOrder;
   pnl?: Prisma.SortOrder;
+  pnlPercent?: Prisma.SortOrder;
+  realizedPnl?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   openedAt?: Prisma.SortOrder;
   closedAt?: Prisma.SortOrder;
+  closeReason?: Prisma.SortOrder;
   stopLoss?: Prisma.SortOrder;
   takeProfit?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrder;
+  highWaterMark?: Prisma.SortOrder;
 };
 
 export type PositionMinOrderByAggregateInput = {
@@ -768,11 +1075,17 @@ export type PositionMinOrderByAggregateInput = {
   entryPrice?: Prisma.SortOrder;
   currentPrice?: Prisma.SortOrder;
   pnl?: Prisma.SortOrder;
+  pnlPercent?: Prisma.SortOrder;
+  realizedPnl?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   openedAt?: Prisma.SortOrder;
   closedAt?: Prisma.SortOrder;
+  closeReason?: Prisma.SortOrder;
   stopLoss?: Prisma.SortOrder;
   takeProfit?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrder;
+  highWaterMark?: Prisma.SortOrder;
 };
 
 export type PositionSumOrderByAggregateInput = {
@@ -780,8 +1093,12 @@ export type PositionSumOrderByAggregateInput = {
   entryPrice?: Prisma.SortOrder;
   currentPrice?: Prisma.SortOrder;
   pnl?: Prisma.SortOrder;
+  pnlPercent?: Prisma.SortOrder;
+  realizedPnl?: Prisma.SortOrder;
   stopLoss?: Prisma.SortOrder;
   takeProfit?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrder;
+  highWaterMark?: Prisma.SortOrder;
 };
 
 export type PositionScalarRelationFilter = {
@@ -887,6 +1204,32 @@ export type NullableDecimalFieldUpdateOperationsInput = {
   divide?: runtime.Decimal | runtime.DecimalJsLike | number | string;
 };
 
+export type PositionCreateNestedOneWithoutTakeProfitLevelsInput = {
+  create?: Prisma.XOR<
+    Prisma.PositionCreateWithoutTakeProfitLevelsInput,
+    Prisma.PositionUncheckedCreateWithoutTakeProfitLevelsInput
+  >;
+  connectOrCreate?: Prisma.PositionCreateOrConnectWithoutTakeProfitLevelsInput;
+  connect?: Prisma.PositionWhereUniqueInput;
+};
+
+export type PositionUpdateOneRequiredWithoutTakeProfitLevelsNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.PositionCreateWithoutTakeProfitLevelsInput,
+    Prisma.PositionUncheckedCreateWithoutTakeProfitLevelsInput
+  >;
+  connectOrCreate?: Prisma.PositionCreateOrConnectWithoutTakeProfitLevelsInput;
+  upsert?: Prisma.PositionUpsertWithoutTakeProfitLevelsInput;
+  connect?: Prisma.PositionWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.PositionUpdateToOneWithWhereWithoutTakeProfitLevelsInput,
+      Prisma.PositionUpdateWithoutTakeProfitLevelsInput
+    >,
+    Prisma.PositionUncheckedUpdateWithoutTakeProfitLevelsInput
+  >;
+};
+
 export type PositionCreateNestedOneWithoutTradesInput = {
   create?: Prisma.XOR<
     Prisma.PositionCreateWithoutTradesInput,
@@ -920,12 +1263,19 @@ export type PositionCreateWithoutAccountInput = {
   entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   status: string;
+  mode?: string;
   openedAt?: Date | string;
   closedAt?: Date | string | null;
+  closeReason?: string | null;
   stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   trades?: Prisma.TradeCreateNestedManyWithoutPositionInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelCreateNestedManyWithoutPositionInput;
 };
 
 export type PositionUncheckedCreateWithoutAccountInput = {
@@ -935,12 +1285,19 @@ export type PositionUncheckedCreateWithoutAccountInput = {
   entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   status: string;
+  mode?: string;
   openedAt?: Date | string;
   closedAt?: Date | string | null;
+  closeReason?: string | null;
   stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   trades?: Prisma.TradeUncheckedCreateNestedManyWithoutPositionInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelUncheckedCreateNestedManyWithoutPositionInput;
 };
 
 export type PositionCreateOrConnectWithoutAccountInput = {
@@ -984,54 +1341,306 @@ export type PositionUpdateManyWithWhereWithoutAccountInput = {
   >;
 };
 
-export type PositionScalarWhereInput = {
-  AND?: Prisma.PositionScalarWhereInput | Prisma.PositionScalarWhereInput[];
-  OR?: Prisma.PositionScalarWhereInput[];
-  NOT?: Prisma.PositionScalarWhereInput | Prisma.PositionScalarWhereInput[];
-  id?: Prisma.StringFilter<'Position'> | string;
-  accountId?: Prisma.StringNullableFilter<'Position'> | string | null;
-  token?: Prisma.StringFilter<'Position'> | string;
+export type PositionScalarWhereInput = {
+  AND?: Prisma.PositionScalarWhereInput | Prisma.PositionScalarWhereInput[];
+  OR?: Prisma.PositionScalarWhereInput[];
+  NOT?: Prisma.PositionScalarWhereInput | Prisma.PositionScalarWhereInput[];
+  id?: Prisma.StringFilter<'Position'> | string;
+  accountId?: Prisma.StringNullableFilter<'Position'> | string | null;
+  token?: Prisma.StringFilter<'Position'> | string;
+  amount?:
+    | Prisma.DecimalFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  entryPrice?:
+    | Prisma.DecimalFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currentPrice?:
+    | Prisma.DecimalFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  pnl?:
+    | Prisma.DecimalFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  pnlPercent?:
+    | Prisma.DecimalFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  status?: Prisma.StringFilter<'Position'> | string;
+  mode?: Prisma.StringFilter<'Position'> | string;
+  openedAt?: Prisma.DateTimeFilter<'Position'> | Date | string;
+  closedAt?: Prisma.DateTimeNullableFilter<'Position'> | Date | string | null;
+  closeReason?: Prisma.StringNullableFilter<'Position'> | string | null;
+  stopLoss?:
+    | Prisma.DecimalNullableFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  takeProfit?:
+    | Prisma.DecimalNullableFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  trailingStopPercent?:
+    | Prisma.DecimalNullableFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.DecimalNullableFilter<'Position'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+};
+
+export type PositionCreateWithoutTakeProfitLevelsInput = {
+  id?: string;
+  token: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  status: string;
+  mode?: string;
+  openedAt?: Date | string;
+  closedAt?: Date | string | null;
+  closeReason?: string | null;
+  stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  account?: Prisma.AccountCreateNestedOneWithoutPositionsInput;
+  trades?: Prisma.TradeCreateNestedManyWithoutPositionInput;
+};
+
+export type PositionUncheckedCreateWithoutTakeProfitLevelsInput = {
+  id?: string;
+  accountId?: string | null;
+  token: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  status: string;
+  mode?: string;
+  openedAt?: Date | string;
+  closedAt?: Date | string | null;
+  closeReason?: string | null;
+  stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trades?: Prisma.TradeUncheckedCreateNestedManyWithoutPositionInput;
+};
+
+export type PositionCreateOrConnectWithoutTakeProfitLevelsInput = {
+  where: Prisma.PositionWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.PositionCreateWithoutTakeProfitLevelsInput,
+    Prisma.PositionUncheckedCreateWithoutTakeProfitLevelsInput
+  >;
+};
+
+export type PositionUpsertWithoutTakeProfitLevelsInput = {
+  update: Prisma.XOR<
+    Prisma.PositionUpdateWithoutTakeProfitLevelsInput,
+    Prisma.PositionUncheckedUpdateWithoutTakeProfitLevelsInput
+  >;
+  create: Prisma.XOR<
+    Prisma.PositionCreateWithoutTakeProfitLevelsInput,
+    Prisma.PositionUncheckedCreateWithoutTakeProfitLevelsInput
+  >;
+  where?: Prisma.PositionWhereInput;
+};
+
+export type PositionUpdateToOneWithWhereWithoutTakeProfitLevelsInput = {
+  where?: Prisma.PositionWhereInput;
+  data: Prisma.XOR<
+    Prisma.PositionUpdateWithoutTakeProfitLevelsInput,
+    Prisma.PositionUncheckedUpdateWithoutTakeProfitLevelsInput
+  >;
+};
+
+export type PositionUpdateWithoutTakeProfitLevelsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  token?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  entryPrice?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currentPrice?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  pnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
+  openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  stopLoss?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  takeProfit?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  account?: Prisma.AccountUpdateOneWithoutPositionsNestedInput;
+  trades?: Prisma.TradeUpdateManyWithoutPositionNestedInput;
+};
+
+export type PositionUncheckedUpdateWithoutTakeProfitLevelsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  token?: Prisma.StringFieldUpdateOperationsInput | string;
   amount?:
-    | Prisma.DecimalFilter<'Position'>
+    | Prisma.DecimalFieldUpdateOperationsInput
     | runtime.Decimal
     | runtime.DecimalJsLike
     | number
     | string;
   entryPrice?:
-    | Prisma.DecimalFilter<'Position'>
+    | Prisma.DecimalFieldUpdateOperationsInput
     | runtime.Decimal
     | runtime.DecimalJsLike
     | number
     | string;
   currentPrice?:
-    | Prisma.DecimalFilter<'Position'>
+    | Prisma.DecimalFieldUpdateOperationsInput
     | runtime.Decimal
     | runtime.DecimalJsLike
     | number
     | string;
   pnl?:
-    | Prisma.DecimalFilter<'Position'>
+    | Prisma.DecimalFieldUpdateOperationsInput
     | runtime.Decimal
     | runtime.DecimalJsLike
     | number
     | string;
-  status?: Prisma.StringFilter<'Position'> | string;
-  openedAt?: Prisma.DateTimeFilter<'Position'> | Date | string;
-  closedAt?: Prisma.DateTimeNullableFilter<'Position'> | Date | string | null;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
+  openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
-    | Prisma.DecimalNullableFilter<'Position'>
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
     | runtime.DecimalJsLike
     | number
     | string
     | null;
   takeProfit?:
-    | Prisma.DecimalNullableFilter<'Position'>
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
     | runtime.DecimalJsLike
     | number
     | string
     | null;
+  trades?: Prisma.TradeUncheckedUpdateManyWithoutPositionNestedInput;
 };
 
 export type PositionCreateWithoutTradesInput = {
@@ -1041,12 +1650,19 @@ export type PositionCreateWithoutTradesInput = {
   entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   status: string;
+  mode?: string;
   openedAt?: Date | string;
   closedAt?: Date | string | null;
+  closeReason?: string | null;
   stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   account?: Prisma.AccountCreateNestedOneWithoutPositionsInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelCreateNestedManyWithoutPositionInput;
 };
 
 export type PositionUncheckedCreateWithoutTradesInput = {
@@ -1057,11 +1673,18 @@ export type PositionUncheckedCreateWithoutTradesInput = {
   entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   status: string;
+  mode?: string;
   openedAt?: Date | string;
   closedAt?: Date | string | null;
+  closeReason?: string | null;
   stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  takeProfitLevels?: Prisma.TakeProfitLevelUncheckedCreateNestedManyWithoutPositionInput;
 };
 
 export type PositionCreateOrConnectWithoutTradesInput = {
@@ -1119,9 +1742,23 @@ export type PositionUpdateWithoutTradesInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
     | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -1136,7 +1773,22 @@ export type PositionUpdateWithoutTradesInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
   account?: Prisma.AccountUpdateOneWithoutPositionsNestedInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelUpdateManyWithoutPositionNestedInput;
 };
 
 export type PositionUncheckedUpdateWithoutTradesInput = {
@@ -1167,9 +1819,23 @@ export type PositionUncheckedUpdateWithoutTradesInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
     | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -1184,6 +1850,21 @@ export type PositionUncheckedUpdateWithoutTradesInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  takeProfitLevels?: Prisma.TakeProfitLevelUncheckedUpdateManyWithoutPositionNestedInput;
 };
 
 export type PositionCreateManyAccountInput = {
@@ -1193,11 +1874,17 @@ export type PositionCreateManyAccountInput = {
   entryPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   currentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
   pnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  pnlPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  realizedPnl?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   status: string;
+  mode?: string;
   openedAt?: Date | string;
   closedAt?: Date | string | null;
+  closeReason?: string | null;
   stopLoss?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
   takeProfit?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  highWaterMark?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
 };
 
 export type PositionUpdateWithoutAccountInput = {
@@ -1227,9 +1914,23 @@ export type PositionUpdateWithoutAccountInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
     | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -1244,7 +1945,22 @@ export type PositionUpdateWithoutAccountInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
   trades?: Prisma.TradeUpdateManyWithoutPositionNestedInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelUpdateManyWithoutPositionNestedInput;
 };
 
 export type PositionUncheckedUpdateWithoutAccountInput = {
@@ -1274,9 +1990,23 @@ export type PositionUncheckedUpdateWithoutAccountInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
     | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -1291,7 +2021,22 @@ export type PositionUncheckedUpdateWithoutAccountInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
   trades?: Prisma.TradeUncheckedUpdateManyWithoutPositionNestedInput;
+  takeProfitLevels?: Prisma.TakeProfitLevelUncheckedUpdateManyWithoutPositionNestedInput;
 };
 
 export type PositionUncheckedUpdateManyWithoutAccountInput = {
@@ -1321,9 +2066,23 @@ export type PositionUncheckedUpdateManyWithoutAccountInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  pnlPercent?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  realizedPnl?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
   status?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   openedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  closeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   stopLoss?:
     | Prisma.NullableDecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -1338,6 +2097,20 @@ export type PositionUncheckedUpdateManyWithoutAccountInput = {
     | number
     | string
     | null;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  highWaterMark?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
 };
 
 /**
@@ -1346,12 +2119,14 @@ export type PositionUncheckedUpdateManyWithoutAccountInput = {
 
 export type PositionCountOutputType = {
   trades: number;
+  takeProfitLevels: number;
 };
 
 export type PositionCountOutputTypeSelect<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = {
   trades?: boolean | PositionCountOutputTypeCountTradesArgs;
+  takeProfitLevels?: boolean | PositionCountOutputTypeCountTakeProfitLevelsArgs;
 };
 
 /**
@@ -1375,6 +2150,15 @@ export type PositionCountOutputTypeCountTradesArgs<
   where?: Prisma.TradeWhereInput;
 };
 
+/**
+ * PositionCountOutputType without action
+ */
+export type PositionCountOutputTypeCountTakeProfitLevelsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  where?: Prisma.TakeProfitLevelWhereInput;
+};
+
 export type PositionSelect<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = runtime.Types.Extensions.GetSelect<
@@ -1386,13 +2170,20 @@ export type PositionSelect<
     entryPrice?: boolean;
     currentPrice?: boolean;
     pnl?: boolean;
+    pnlPercent?: boolean;
+    realizedPnl?: boolean;
     status?: boolean;
+    mode?: boolean;
     openedAt?: boolean;
     closedAt?: boolean;
+    closeReason?: boolean;
     stopLoss?: boolean;
     takeProfit?: boolean;
+    trailingStopPercent?: boolean;
+    highWaterMark?: boolean;
     account?: boolean | Prisma.Position$accountArgs<ExtArgs>;
     trades?: boolean | Prisma.Position$tradesArgs<ExtArgs>;
+    takeProfitLevels?: boolean | Prisma.Position$takeProfitLevelsArgs<ExtArgs>;
     _count?: boolean | Prisma.PositionCountOutputTypeDefaultArgs<ExtArgs>;
   },
   ExtArgs['result']['position']
@@ -1409,11 +2200,17 @@ export type PositionSelectCreateManyAndReturn<
     entryPrice?: boolean;
     currentPrice?: boolean;
     pnl?: boolean;
+    pnlPercent?: boolean;
+    realizedPnl?: boolean;
     status?: boolean;
+    mode?: boolean;
     openedAt?: boolean;
     closedAt?: boolean;
+    closeReason?: boolean;
     stopLoss?: boolean;
     takeProfit?: boolean;
+    trailingStopPercent?: boolean;
+    highWaterMark?: boolean;
     account?: boolean | Prisma.Position$accountArgs<ExtArgs>;
   },
   ExtArgs['result']['position']
@@ -1430,11 +2227,17 @@ export type PositionSelectUpdateManyAndReturn<
     entryPrice?: boolean;
     currentPrice?: boolean;
     pnl?: boolean;
+    pnlPercent?: boolean;
+    realizedPnl?: boolean;
     status?: boolean;
+    mode?: boolean;
     openedAt?: boolean;
     closedAt?: boolean;
+    closeReason?: boolean;
     stopLoss?: boolean;
     takeProfit?: boolean;
+    trailingStopPercent?: boolean;
+    highWaterMark?: boolean;
     account?: boolean | Prisma.Position$accountArgs<ExtArgs>;
   },
   ExtArgs['result']['position']
@@ -1448,11 +2251,17 @@ export type PositionSelectScalar = {
   entryPrice?: boolean;
   currentPrice?: boolean;
   pnl?: boolean;
+  pnlPercent?: boolean;
+  realizedPnl?: boolean;
   status?: boolean;
+  mode?: boolean;
   openedAt?: boolean;
   closedAt?: boolean;
+  closeReason?: boolean;
   stopLoss?: boolean;
   takeProfit?: boolean;
+  trailingStopPercent?: boolean;
+  highWaterMark?: boolean;
 };
 
 export type PositionOmit<
@@ -1465,11 +2274,17 @@ export type PositionOmit<
   | 'entryPrice'
   | 'currentPrice'
   | 'pnl'
+  | 'pnlPercent'
+  | 'realizedPnl'
   | 'status'
+  | 'mode'
   | 'openedAt'
   | 'closedAt'
+  | 'closeReason'
   | 'stopLoss'
-  | 'takeProfit',
+  | 'takeProfit'
+  | 'trailingStopPercent'
+  | 'highWaterMark',
   ExtArgs['result']['position']
 >;
 export type PositionInclude<
@@ -1477,6 +2292,7 @@ export type PositionInclude<
 > = {
   account?: boolean | Prisma.Position$accountArgs<ExtArgs>;
   trades?: boolean | Prisma.Position$tradesArgs<ExtArgs>;
+  takeProfitLevels?: boolean | Prisma.Position$takeProfitLevelsArgs<ExtArgs>;
   _count?: boolean | Prisma.PositionCountOutputTypeDefaultArgs<ExtArgs>;
 };
 export type PositionIncludeCreateManyAndReturn<
@@ -1497,6 +2313,7 @@ export type $PositionPayload<
   objects: {
     account: Prisma.$AccountPayload<ExtArgs> | null;
     trades: Prisma.$TradePayload<ExtArgs>[];
+    takeProfitLevels: Prisma.$TakeProfitLevelPayload<ExtArgs>[];
   };
   scalars: runtime.Types.Extensions.GetPayloadResult<
     {
@@ -1507,11 +2324,17 @@ export type $PositionPayload<
       entryPrice: runtime.Decimal;
       currentPrice: runtime.Decimal;
       pnl: runtime.Decimal;
+      pnlPercent: runtime.Decimal;
+      realizedPnl: runtime.Decimal;
       status: string;
+      mode: string;
       openedAt: Date;
       closedAt: Date | null;
+      closeReason: string | null;
       stopLoss: runtime.Decimal | null;
       takeProfit: runtime.Decimal | null;
+      trailingStopPercent: runtime.Decimal | null;
+      highWaterMark: runtime.Decimal | null;
     },
     ExtArgs['result']['position']
   >;
@@ -2071,6 +2894,17 @@ export interface Prisma__PositionClient<
       >
     | Null
   >;
+  takeProfitLevels<T extends Prisma.Position$takeProfitLevelsArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Position$takeProfitLevelsArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$TakeProfitLevelPayload<ExtArgs>,
+        T,
+        'findMany',
+        GlobalOmitOptions
+      >
+    | Null
+  >;
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2109,11 +2943,17 @@ export interface PositionFieldRefs {
   readonly entryPrice: Prisma.FieldRef<'Position', 'Decimal'>;
   readonly currentPrice: Prisma.FieldRef<'Position', 'Decimal'>;
   readonly pnl: Prisma.FieldRef<'Position', 'Decimal'>;
+  readonly pnlPercent: Prisma.FieldRef<'Position', 'Decimal'>;
+  readonly realizedPnl: Prisma.FieldRef<'Position', 'Decimal'>;
   readonly status: Prisma.FieldRef<'Position', 'String'>;
+  readonly mode: Prisma.FieldRef<'Position', 'String'>;
   readonly openedAt: Prisma.FieldRef<'Position', 'DateTime'>;
   readonly closedAt: Prisma.FieldRef<'Position', 'DateTime'>;
+  readonly closeReason: Prisma.FieldRef<'Position', 'String'>;
   readonly stopLoss: Prisma.FieldRef<'Position', 'Decimal'>;
   readonly takeProfit: Prisma.FieldRef<'Position', 'Decimal'>;
+  readonly trailingStopPercent: Prisma.FieldRef<'Position', 'Decimal'>;
+  readonly highWaterMark: Prisma.FieldRef<'Position', 'Decimal'>;
 }
 
 // Custom InputTypes
@@ -2583,6 +3423,34 @@ export type Position$tradesArgs<
   distinct?: Prisma.TradeScalarFieldEnum | Prisma.TradeScalarFieldEnum[];
 };
 
+/**
+ * Position.takeProfitLevels
+ */
+export type Position$takeProfitLevelsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TakeProfitLevel
+   */
+  select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TakeProfitLevel
+   */
+  omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+  where?: Prisma.TakeProfitLevelWhereInput;
+  orderBy?:
+    | Prisma.TakeProfitLevelOrderByWithRelationInput
+    | Prisma.TakeProfitLevelOrderByWithRelationInput[];
+  cursor?: Prisma.TakeProfitLevelWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.TakeProfitLevelScalarFieldEnum | Prisma.TakeProfitLevelScalarFieldEnum[];
+};
+
 /**
  * Position without action
  */
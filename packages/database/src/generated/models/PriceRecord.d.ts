@@ -24,6 +24,7 @@ export type PriceRecordSumAggregateOutputType = {
 };
 export type PriceRecordMinAggregateOutputType = {
     id: string | null;
+    eventId: string | null;
     token: string | null;
     price: runtime.Decimal | null;
     source: string | null;
@@ -33,6 +34,7 @@ export type PriceRecordMinAggregateOutputType = {
 };
 export type PriceRecordMaxAggregateOutputType = {
     id: string | null;
+    eventId: string | null;
     token: string | null;
     price: runtime.Decimal | null;
     source: string | null;
@@ -42,6 +44,7 @@ export type PriceRecordMaxAggregateOutputType = {
 };
 export type PriceRecordCountAggregateOutputType = {
     id: number;
+    eventId: number;
     token: number;
     price: number;
     source: number;
@@ -62,6 +65,7 @@ export type PriceRecordSumAggregateInputType = {
 };
 export type PriceRecordMinAggregateInputType = {
     id?: true;
+    eventId?: true;
     token?: true;
     price?: true;
     source?: true;
@@ -71,6 +75,7 @@ export type PriceRecordMinAggregateInputType = {
 };
 export type PriceRecordMaxAggregateInputType = {
     id?: true;
+    eventId?: true;
     token?: true;
     price?: true;
     source?: true;
@@ -80,6 +85,7 @@ export type PriceRecordMaxAggregateInputType = {
 };
 export type PriceRecordCountAggregateInputType = {
     id?: true;
+    eventId?: true;
     token?: true;
     price?: true;
     source?: true;
@@ -166,6 +172,7 @@ export type PriceRecordGroupByArgs<ExtArgs extends runtime.Types.Extensions.Inte
 };
 export type PriceRecordGroupByOutputType = {
     id: string;
+    eventId: string | null;
     token: string;
     price: runtime.Decimal;
     source: string;
@@ -186,6 +193,7 @@ export type PriceRecordWhereInput = {
     OR?: Prisma.PriceRecordWhereInput[];
     NOT?: Prisma.PriceRecordWhereInput | Prisma.PriceRecordWhereInput[];
     id?: Prisma.StringFilter<'PriceRecord'> | string;
+    eventId?: Prisma.StringNullableFilter<'PriceRecord'> | string | null;
     token?: Prisma.StringFilter<'PriceRecord'> | string;
     price?: Prisma.DecimalFilter<'PriceRecord'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     source?: Prisma.StringFilter<'PriceRecord'> | string;
@@ -195,6 +203,7 @@ export type PriceRecordWhereInput = {
 };
 export type PriceRecordOrderByWithRelationInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrderInput | Prisma.SortOrder;
     token?: Prisma.SortOrder;
     price?: Prisma.SortOrder;
     source?: Prisma.SortOrder;
@@ -204,6 +213,7 @@ export type PriceRecordOrderByWithRelationInput = {
 };
 export type PriceRecordWhereUniqueInput = Prisma.AtLeast<{
     id?: string;
+    eventId?: string;
     AND?: Prisma.PriceRecordWhereInput | Prisma.PriceRecordWhereInput[];
     OR?: Prisma.PriceRecordWhereInput[];
     NOT?: Prisma.PriceRecordWhereInput | Prisma.PriceRecordWhereInput[];
@@ -213,9 +223,10 @@ export type PriceRecordWhereUniqueInput = Prisma.AtLeast<{
     confidence?: Prisma.DecimalFilter<'PriceRecord'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     volume24h?: Prisma.DecimalNullableFilter<'PriceRecord'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
     timestamp?: Prisma.DateTimeFilter<'PriceRecord'> | Date | string;
-}, 'id'>;
+}, 'id' | 'eventId'>;
 export type PriceRecordOrderByWithAggregationInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrderInput | Prisma.SortOrder;
     token?: Prisma.SortOrder;
     price?: Prisma.SortOrder;
     source?: Prisma.SortOrder;
@@ -233,6 +244,7 @@ export type PriceRecordScalarWhereWithAggregatesInput = {
     OR?: Prisma.PriceRecordScalarWhereWithAggregatesInput[];
     NOT?: Prisma.PriceRecordScalarWhereWithAggregatesInput | Prisma.PriceRecordScalarWhereWithAggregatesInput[];
     id?: Prisma.StringWithAggregatesFilter<'PriceRecord'> | string;
+    eventId?: Prisma.StringNullableWithAggregatesFilter<'PriceRecord'> | string | null;
     token?: Prisma.StringWithAggregatesFilter<'PriceRecord'> | string;
     price?: Prisma.DecimalWithAggregatesFilter<'PriceRecord'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     source?: Prisma.StringWithAggregatesFilter<'PriceRecord'> | string;
@@ -242,6 +254,7 @@ export type PriceRecordScalarWhereWithAggregatesInput = {
 };
 export type PriceRecordCreateInput = {
     id?: string;
+    eventId?: string | null;
     token: string;
     price: runtime.Decimal | runtime.DecimalJsLike | number | string;
     source: string;
@@ -251,6 +264,7 @@ export type PriceRecordCreateInput = {
 };
 export type PriceRecordUncheckedCreateInput = {
     id?: string;
+    eventId?: string | null;
     token: string;
     price: runtime.Decimal | runtime.DecimalJsLike | number | string;
     source: string;
@@ -260,6 +274,7 @@ export type PriceRecordUncheckedCreateInput = {
 };
 export type PriceRecordUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
+    eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     token?: Prisma.StringFieldUpdateOperationsInput | string;
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     source?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -269,6 +284,7 @@ export type PriceRecordUpdateInput = {
 };
 export type PriceRecordUncheckedUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
+    eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     token?: Prisma.StringFieldUpdateOperationsInput | string;
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     source?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -278,6 +294,7 @@ export type PriceRecordUncheckedUpdateInput = {
 };
 export type PriceRecordCreateManyInput = {
     id?: string;
+    eventId?: string | null;
     token: string;
     price: runtime.Decimal | runtime.DecimalJsLike | number | string;
     source: string;
@@ -287,6 +304,7 @@ export type PriceRecordCreateManyInput = {
 };
 export type PriceRecordUpdateManyMutationInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
+    eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     token?: Prisma.StringFieldUpdateOperationsInput | string;
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     source?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -296,6 +314,7 @@ export type PriceRecordUpdateManyMutationInput = {
 };
 export type PriceRecordUncheckedUpdateManyInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
+    eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     token?: Prisma.StringFieldUpdateOperationsInput | string;
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     source?: Prisma.StringFieldUpdateOperationsInput | string;
@@ -305,6 +324,7 @@ export type PriceRecordUncheckedUpdateManyInput = {
 };
 export type PriceRecordCountOrderByAggregateInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrder;
     token?: Prisma.SortOrder;
     price?: Prisma.SortOrder;
     source?: Prisma.SortOrder;
@@ -319,6 +339,7 @@ export type PriceRecordAvgOrderByAggregateInput = {
 };
 export type PriceRecordMaxOrderByAggregateInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrder;
     token?: Prisma.SortOrder;
     price?: Prisma.SortOrder;
     source?: Prisma.SortOrder;
@@ -328,6 +349,7 @@ export type PriceRecordMaxOrderByAggregateInput = {
 };
 export type PriceRecordMinOrderByAggregateInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrder;
     token?: Prisma.SortOrder;
     price?: Prisma.SortOrder;
     source?: Prisma.SortOrder;
@@ -342,6 +364,7 @@ export type PriceRecordSumOrderByAggregateInput = {
 };
 export type PriceRecordSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     price?: boolean;
     source?: boolean;
@@ -351,6 +374,7 @@ export type PriceRecordSelect<ExtArgs extends runtime.Types.Extensions.InternalA
 }, ExtArgs['result']['priceRecord']>;
 export type PriceRecordSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     price?: boolean;
     source?: boolean;
@@ -360,6 +384,7 @@ export type PriceRecordSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
 }, ExtArgs['result']['priceRecord']>;
 export type PriceRecordSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     price?: boolean;
     source?: boolean;
@@ -369,6 +394,7 @@ export type PriceRecordSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
 }, ExtArgs['result']['priceRecord']>;
 export type PriceRecordSelectScalar = {
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     price?: boolean;
     source?: boolean;
@@ -376,12 +402,13 @@ export type PriceRecordSelectScalar = {
     volume24h?: boolean;
     timestamp?: boolean;
 };
-export type PriceRecordOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'token' | 'price' | 'source' | 'confidence' | 'volume24h' | 'timestamp', ExtArgs['result']['priceRecord']>;
+export type PriceRecordOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'eventId' | 'token' | 'price' | 'source' | 'confidence' | 'volume24h' | 'timestamp', ExtArgs['result']['priceRecord']>;
 export type $PriceRecordPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
     name: 'PriceRecord';
     objects: {};
     scalars: runtime.Types.Extensions.GetPayloadResult<{
         id: string;
+        eventId: string | null;
         token: string;
         price: runtime.Decimal;
         source: string;
@@ -738,6 +765,7 @@ export interface Prisma__PriceRecordClient<T, Null = never, ExtArgs extends runt
  */
 export interface PriceRecordFieldRefs {
     readonly id: Prisma.FieldRef<'PriceRecord', 'String'>;
+    readonly eventId: Prisma.FieldRef<'PriceRecord', 'String'>;
     readonly token: Prisma.FieldRef<'PriceRecord', 'String'>;
     readonly price: Prisma.FieldRef<'PriceRecord', 'Decimal'>;
     readonly source: Prisma.FieldRef<'PriceRecord', 'String'>;
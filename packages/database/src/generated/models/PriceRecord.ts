@@ -39,6 +39,7 @@ export type PriceRecordSumAggregateOutputType = {
 
 export type PriceRecordMinAggregateOutputType = {
   id: string | null;
+  eventId: string | null;
   token: string | null;
   price: runtime.Decimal | null;
   source: string | null;
@@ -49,6 +50,7 @@ export type PriceRecordMinAggregateOutputType = {
 
 export type PriceRecordMaxAggregateOutputType = {
   id: string | null;
+  eventId: string | null;
   token: string | null;
   price: runtime.Decimal | null;
   source: string | null;
@@ -59,6 +61,7 @@ export type PriceRecordMaxAggregateOutputType = {
 
 export type PriceRecordCountAggregateOutputType = {
   id: number;
+  eventId: number;
   token: number;
   price: number;
   source: number;
@@ -82,6 +85,7 @@ export type PriceRecordSumAggregateInputType = {
 
 export type PriceRecordMinAggregateInputType = {
   id?: true;
+  eventId?: true;
   token?: true;
   price?: true;
   source?: true;
@@ -92,6 +96,7 @@ export type PriceRecordMinAggregateInputType = {
 
 export type PriceRecordMaxAggregateInputType = {
   id?: true;
+  eventId?: true;
   token?: true;
   price?: true;
   source?: true;
@@ -102,6 +107,7 @@ export type PriceRecordMaxAggregateInputType = {
 
 export type PriceRecordCountAggregateInputType = {
   id?: true;
+  eventId?: true;
   token?: true;
   price?: true;
   source?: true;
@@ -204,6 +210,7 @@ export type PriceRecordGroupByArgs<
 
 export type PriceRecordGroupByOutputType = {
   id: string;
+  eventId: string | null;
   token: string;
   price: runtime.Decimal;
   source: string;
@@ -234,6 +241,7 @@ export type PriceRecordWhereInput = {
   OR?: Prisma.PriceRecordWhereInput[];
   NOT?: Prisma.PriceRecordWhereInput | Prisma.PriceRecordWhereInput[];
   id?: Prisma.StringFilter<'PriceRecord'> | string;
+  eventId?: Prisma.StringNullableFilter<'PriceRecord'> | string | null;
   token?: Prisma.StringFilter<'PriceRecord'> | string;
   price?:
     | Prisma.DecimalFilter<'PriceRecord'>
@@ -260,6 +268,7 @@ export type PriceRecordWhereInput = {
 
 export type PriceRecordOrderByWithRelationInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrderInput | Prisma.SortOrder;
   token?: Prisma.SortOrder;
   price?: Prisma.SortOrder;
   source?: Prisma.SortOrder;
@@ -271,6 +280,7 @@ export type PriceRecordOrderByWithRelationInput = {
 export type PriceRecordWhereUniqueInput = Prisma.AtLeast<
   {
     id?: string;
+    eventId?: string;
     AND?: Prisma.PriceRecordWhereInput | Prisma.PriceRecordWhereInput[];
     OR?: Prisma.PriceRecordWhereInput[];
     NOT?: Prisma.PriceRecordWhereInput | Prisma.PriceRecordWhereInput[];
@@ -297,11 +307,12 @@ export type PriceRecordWhereUniqueInput = Prisma.AtLeast<
       | null;
     timestamp?: Prisma.DateTimeFilter<'PriceRecord'> | Date | string;
   },
-  'id'
+  'id' | 'eventId'
 >;
 
 export type PriceRecordOrderByWithAggregationInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrderInput | Prisma.SortOrder;
   token?: Prisma.SortOrder;
   price?: Prisma.SortOrder;
   source?: Prisma.SortOrder;
@@ -324,6 +335,7 @@ export type PriceRecordScalarWhereWithAggregatesInput = {
     | Prisma.PriceRecordScalarWhereWithAggregatesInput
     | Prisma.PriceRecordScalarWhereWithAggregatesInput[];
   id?: Prisma.StringWithAggregatesFilter<'PriceRecord'> | string;
+  eventId?: Prisma.StringNullableWithAggregatesFilter<'PriceRecord'> | string | null;
   token?: Prisma.StringWithAggregatesFilter<'PriceRecord'> | string;
   price?:
     | Prisma.DecimalWithAggregatesFilter<'PriceRecord'>
@@ -350,6 +362,7 @@ export type PriceRecordScalarWhereWithAggregatesInput = {
 
 export type PriceRecordCreateInput = {
   id?: string;
+  eventId?: string | null;
   token: string;
   price: runtime.Decimal | runtime.DecimalJsLike | number | string;
   source: string;
@@ -360,6 +373,7 @@ export type PriceRecordCreateInput = {
 
 export type PriceRecordUncheckedCreateInput = {
   id?: string;
+  eventId?: string | null;
   token: string;
   price: runtime.Decimal | runtime.DecimalJsLike | number | string;
   source: string;
@@ -370,6 +384,7 @@ export type PriceRecordUncheckedCreateInput = {
 
 export type PriceRecordUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   token?: Prisma.StringFieldUpdateOperationsInput | string;
   price?:
     | Prisma.DecimalFieldUpdateOperationsInput
@@ -396,6 +411,7 @@ export type PriceRecordUpdateInput = {
 
 export type PriceRecordUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   token?: Prisma.StringFieldUpdateOperationsInput | string;
   price?:
     | Prisma.DecimalFieldUpdateOperationsInput
@@ -422,6 +438,7 @@ export type PriceRecordUncheckedUpdateInput = {
 
 export type PriceRecordCreateManyInput = {
   id?: string;
+  eventId?: string | null;
   token: string;
   price: runtime.Decimal | runtime.DecimalJsLike | number | string;
   source: string;
@@ -432,6 +449,7 @@ export type PriceRecordCreateManyInput = {
 
 export type PriceRecordUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   token?: Prisma.StringFieldUpdateOperationsInput | string;
   price?:
     | Prisma.DecimalFieldUpdateOperationsInput
@@ -458,6 +476,7 @@ export type PriceRecordUpdateManyMutationInput = {
 
 export type PriceRecordUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   token?: Prisma.StringFieldUpdateOperationsInput | string;
   price?:
     | Prisma.DecimalFieldUpdateOperationsInput
@@ -484,6 +503,7 @@ export type PriceRecordUncheckedUpdateManyInput = {
 
 export type PriceRecordCountOrderByAggregateInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrder;
   token?: Prisma.SortOrder;
   price?: Prisma.SortOrder;
   source?: Prisma.SortOrder;
@@ -500,6 +520,7 @@ export type PriceRecordAvgOrderByAggregateInput = {
 
 export type PriceRecordMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrder;
   token?: Prisma.SortOrder;
   price?: Prisma.SortOrder;
   source?: Prisma.SortOrder;
@@ -510,6 +531,7 @@ export type PriceRecordMaxOrderByAggregateInput = {
 
 export type PriceRecordMinOrderByAggregateInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrder;
   token?: Prisma.SortOrder;
   price?: Prisma.SortOrder;
   source?: Prisma.SortOrder;
@@ -529,6 +551,7 @@ export type PriceRecordSelect<
 > = runtime.Types.Extensions.GetSelect<
   {
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     price?: boolean;
     source?: boolean;
@@ -544,6 +567,7 @@ export type PriceRecordSelectCreateManyAndReturn<
 > = runtime.Types.Extensions.GetSelect<
   {
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     price?: boolean;
     source?: boolean;
@@ -559,6 +583,7 @@ export type PriceRecordSelectUpdateManyAndReturn<
 > = runtime.Types.Extensions.GetSelect<
   {
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     price?: boolean;
     source?: boolean;
@@ -571,6 +596,7 @@ export type PriceRecordSelectUpdateManyAndReturn<
 
 export type PriceRecordSelectScalar = {
   id?: boolean;
+  eventId?: boolean;
   token?: boolean;
   price?: boolean;
   source?: boolean;
@@ -582,7 +608,7 @@ export type PriceRecordSelectScalar = {
 export type PriceRecordOmit<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = runtime.Types.Extensions.GetOmit<
-  'id' | 'token' | 'price' | 'source' | 'confidence' | 'volume24h' | 'timestamp',
+  'id' | 'eventId' | 'token' | 'price' | 'source' | 'confidence' | 'volume24h' | 'timestamp',
   ExtArgs['result']['priceRecord']
 >;
 
@@ -594,6 +620,7 @@ export type $PriceRecordPayload<
   scalars: runtime.Types.Extensions.GetPayloadResult<
     {
       id: string;
+      eventId: string | null;
       token: string;
       price: runtime.Decimal;
       source: string;
@@ -1170,6 +1197,7 @@ export interface Prisma__PriceRecordClient<
  */
 export interface PriceRecordFieldRefs {
   readonly id: Prisma.FieldRef<'PriceRecord', 'String'>;
+  readonly eventId: Prisma.FieldRef<'PriceRecord', 'String'>;
   readonly token: Prisma.FieldRef<'PriceRecord', 'String'>;
   readonly price: Prisma.FieldRef<'PriceRecord', 'Decimal'>;
   readonly source: Prisma.FieldRef<'PriceRecord', 'String'>;
@@ -0,0 +1,2 @@
+export {};
+//# sourceMappingURL=QueueAuditLog.js.map
\ No newline at end of file
@@ -0,0 +1,1461 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `QueueAuditLog` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from '@prisma/client/runtime/client';
+import type * as $Enums from '../enums';
+import type * as Prisma from '../internal/prismaNamespace';
+
+/**
+ * Model QueueAuditLog
+ *
+ */
+export type QueueAuditLogModel =
+  runtime.Types.Result.DefaultSelection<Prisma.$QueueAuditLogPayload>;
+
+export type AggregateQueueAuditLog = {
+  _count: QueueAuditLogCountAggregateOutputType | null;
+  _min: QueueAuditLogMinAggregateOutputType | null;
+  _max: QueueAuditLogMaxAggregateOutputType | null;
+};
+
+export type QueueAuditLogMinAggregateOutputType = {
+  id: string | null;
+  action: string | null;
+  queueName: string | null;
+  actor: string | null;
+  success: boolean | null;
+  error: string | null;
+  createdAt: Date | null;
+};
+
+export type QueueAuditLogMaxAggregateOutputType = {
+  id: string | null;
+  action: string | null;
+  queueName: string | null;
+  actor: string | null;
+  success: boolean | null;
+  error: string | null;
+  createdAt: Date | null;
+};
+
+export type QueueAuditLogCountAggregateOutputType = {
+  id: number;
+  action: number;
+  queueName: number;
+  actor: number;
+  params: number;
+  result: number;
+  success: number;
+  error: number;
+  createdAt: number;
+  _all: number;
+};
+
+export type QueueAuditLogMinAggregateInputType = {
+  id?: true;
+  action?: true;
+  queueName?: true;
+  actor?: true;
+  success?: true;
+  error?: true;
+  createdAt?: true;
+};
+
+export type QueueAuditLogMaxAggregateInputType = {
+  id?: true;
+  action?: true;
+  queueName?: true;
+  actor?: true;
+  success?: true;
+  error?: true;
+  createdAt?: true;
+};
+
+export type QueueAuditLogCountAggregateInputType = {
+  id?: true;
+  action?: true;
+  queueName?: true;
+  actor?: true;
+  params?: true;
+  result?: true;
+  success?: true;
+  error?: true;
+  createdAt?: true;
+  _all?: true;
+};
+
+export type QueueAuditLogAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which QueueAuditLog to aggregate.
+   */
+  where?: Prisma.QueueAuditLogWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of QueueAuditLogs to fetch.
+   */
+  orderBy?:
+    | Prisma.QueueAuditLogOrderByWithRelationInput
+    | Prisma.QueueAuditLogOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.QueueAuditLogWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` QueueAuditLogs from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` QueueAuditLogs.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned QueueAuditLogs
+   **/
+  _count?: true | QueueAuditLogCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: QueueAuditLogMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: QueueAuditLogMaxAggregateInputType;
+};
+
+export type GetQueueAuditLogAggregateType<T extends QueueAuditLogAggregateArgs> = {
+  [P in keyof T & keyof AggregateQueueAuditLog]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateQueueAuditLog[P]>
+    : Prisma.GetScalarType<T[P], AggregateQueueAuditLog[P]>;
+};
+
+export type QueueAuditLogGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  where?: Prisma.QueueAuditLogWhereInput;
+  orderBy?:
+    | Prisma.QueueAuditLogOrderByWithAggregationInput
+    | Prisma.QueueAuditLogOrderByWithAggregationInput[];
+  by: Prisma.QueueAuditLogScalarFieldEnum[] | Prisma.QueueAuditLogScalarFieldEnum;
+  having?: Prisma.QueueAuditLogScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: QueueAuditLogCountAggregateInputType | true;
+  _min?: QueueAuditLogMinAggregateInputType;
+  _max?: QueueAuditLogMaxAggregateInputType;
+};
+
+export type QueueAuditLogGroupByOutputType = {
+  id: string;
+  action: string;
+  queueName: string;
+  actor: string | null;
+  params: runtime.JsonValue | null;
+  result: runtime.JsonValue | null;
+  success: boolean;
+  error: string | null;
+  createdAt: Date;
+  _count: QueueAuditLogCountAggregateOutputType | null;
+  _min: QueueAuditLogMinAggregateOutputType | null;
+  _max: QueueAuditLogMaxAggregateOutputType | null;
+};
+
+type GetQueueAuditLogGroupByPayload<T extends QueueAuditLogGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<QueueAuditLogGroupByOutputType, T['by']> & {
+      [P in keyof T & keyof QueueAuditLogGroupByOutputType]: P extends '_count'
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], QueueAuditLogGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], QueueAuditLogGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type QueueAuditLogWhereInput = {
+  AND?: Prisma.QueueAuditLogWhereInput | Prisma.QueueAuditLogWhereInput[];
+  OR?: Prisma.QueueAuditLogWhereInput[];
+  NOT?: Prisma.QueueAuditLogWhereInput | Prisma.QueueAuditLogWhereInput[];
+  id?: Prisma.StringFilter<'QueueAuditLog'> | string;
+  action?: Prisma.StringFilter<'QueueAuditLog'> | string;
+  queueName?: Prisma.StringFilter<'QueueAuditLog'> | string;
+  actor?: Prisma.StringNullableFilter<'QueueAuditLog'> | string | null;
+  params?: Prisma.JsonNullableFilter<'QueueAuditLog'>;
+  result?: Prisma.JsonNullableFilter<'QueueAuditLog'>;
+  success?: Prisma.BoolFilter<'QueueAuditLog'> | boolean;
+  error?: Prisma.StringNullableFilter<'QueueAuditLog'> | string | null;
+  createdAt?: Prisma.DateTimeFilter<'QueueAuditLog'> | Date | string;
+};
+
+export type QueueAuditLogOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  queueName?: Prisma.SortOrder;
+  actor?: Prisma.SortOrderInput | Prisma.SortOrder;
+  params?: Prisma.SortOrderInput | Prisma.SortOrder;
+  result?: Prisma.SortOrderInput | Prisma.SortOrder;
+  success?: Prisma.SortOrder;
+  error?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type QueueAuditLogWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    AND?: Prisma.QueueAuditLogWhereInput | Prisma.QueueAuditLogWhereInput[];
+    OR?: Prisma.QueueAuditLogWhereInput[];
+    NOT?: Prisma.QueueAuditLogWhereInput | Prisma.QueueAuditLogWhereInput[];
+    action?: Prisma.StringFilter<'QueueAuditLog'> | string;
+    queueName?: Prisma.StringFilter<'QueueAuditLog'> | string;
+    actor?: Prisma.StringNullableFilter<'QueueAuditLog'> | string | null;
+    params?: Prisma.JsonNullableFilter<'QueueAuditLog'>;
+    result?: Prisma.JsonNullableFilter<'QueueAuditLog'>;
+    success?: Prisma.BoolFilter<'QueueAuditLog'> | boolean;
+    error?: Prisma.StringNullableFilter<'QueueAuditLog'> | string | null;
+    createdAt?: Prisma.DateTimeFilter<'QueueAuditLog'> | Date | string;
+  },
+  'id'
+>;
+
+export type QueueAuditLogOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  queueName?: Prisma.SortOrder;
+  actor?: Prisma.SortOrderInput | Prisma.SortOrder;
+  params?: Prisma.SortOrderInput | Prisma.SortOrder;
+  result?: Prisma.SortOrderInput | Prisma.SortOrder;
+  success?: Prisma.SortOrder;
+  error?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  _count?: Prisma.QueueAuditLogCountOrderByAggregateInput;
+  _max?: Prisma.QueueAuditLogMaxOrderByAggregateInput;
+  _min?: Prisma.QueueAuditLogMinOrderByAggregateInput;
+};
+
+export type QueueAuditLogScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.QueueAuditLogScalarWhereWithAggregatesInput
+    | Prisma.QueueAuditLogScalarWhereWithAggregatesInput[];
+  OR?: Prisma.QueueAuditLogScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.QueueAuditLogScalarWhereWithAggregatesInput
+    | Prisma.QueueAuditLogScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<'QueueAuditLog'> | string;
+  action?: Prisma.StringWithAggregatesFilter<'QueueAuditLog'> | string;
+  queueName?: Prisma.StringWithAggregatesFilter<'QueueAuditLog'> | string;
+  actor?: Prisma.StringNullableWithAggregatesFilter<'QueueAuditLog'> | string | null;
+  params?: Prisma.JsonNullableWithAggregatesFilter<'QueueAuditLog'>;
+  result?: Prisma.JsonNullableWithAggregatesFilter<'QueueAuditLog'>;
+  success?: Prisma.BoolWithAggregatesFilter<'QueueAuditLog'> | boolean;
+  error?: Prisma.StringNullableWithAggregatesFilter<'QueueAuditLog'> | string | null;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<'QueueAuditLog'> | Date | string;
+};
+
+export type QueueAuditLogCreateInput = {
+  id?: string;
+  action: string;
+  queueName: string;
+  actor?: string | null;
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  result?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  success: boolean;
+  error?: string | null;
+  createdAt?: Date | string;
+};
+
+export type QueueAuditLogUncheckedCreateInput = {
+  id?: string;
+  action: string;
+  queueName: string;
+  actor?: string | null;
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  result?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  success: boolean;
+  error?: string | null;
+  createdAt?: Date | string;
+};
+
+export type QueueAuditLogUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.StringFieldUpdateOperationsInput | string;
+  queueName?: Prisma.StringFieldUpdateOperationsInput | string;
+  actor?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  result?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type QueueAuditLogUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.StringFieldUpdateOperationsInput | string;
+  queueName?: Prisma.StringFieldUpdateOperationsInput | string;
+  actor?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  result?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type QueueAuditLogCreateManyInput = {
+  id?: string;
+  action: string;
+  queueName: string;
+  actor?: string | null;
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  result?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  success: boolean;
+  error?: string | null;
+  createdAt?: Date | string;
+};
+
+export type QueueAuditLogUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.StringFieldUpdateOperationsInput | string;
+  queueName?: Prisma.StringFieldUpdateOperationsInput | string;
+  actor?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  result?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type QueueAuditLogUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.StringFieldUpdateOperationsInput | string;
+  queueName?: Prisma.StringFieldUpdateOperationsInput | string;
+  actor?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  params?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  result?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type QueueAuditLogCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  queueName?: Prisma.SortOrder;
+  actor?: Prisma.SortOrder;
+  params?: Prisma.SortOrder;
+  result?: Prisma.SortOrder;
+  success?: Prisma.SortOrder;
+  error?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type QueueAuditLogMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  queueName?: Prisma.SortOrder;
+  actor?: Prisma.SortOrder;
+  success?: Prisma.SortOrder;
+  error?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type QueueAuditLogMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  queueName?: Prisma.SortOrder;
+  actor?: Prisma.SortOrder;
+  success?: Prisma.SortOrder;
+  error?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type QueueAuditLogSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    action?: boolean;
+    queueName?: boolean;
+    actor?: boolean;
+    params?: boolean;
+    result?: boolean;
+    success?: boolean;
+    error?: boolean;
+    createdAt?: boolean;
+  },
+  ExtArgs['result']['queueAuditLog']
+>;
+
+export type QueueAuditLogSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    action?: boolean;
+    queueName?: boolean;
+    actor?: boolean;
+    params?: boolean;
+    result?: boolean;
+    success?: boolean;
+    error?: boolean;
+    createdAt?: boolean;
+  },
+  ExtArgs['result']['queueAuditLog']
+>;
+
+export type QueueAuditLogSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    action?: boolean;
+    queueName?: boolean;
+    actor?: boolean;
+    params?: boolean;
+    result?: boolean;
+    success?: boolean;
+    error?: boolean;
+    createdAt?: boolean;
+  },
+  ExtArgs['result']['queueAuditLog']
+>;
+
+export type QueueAuditLogSelectScalar = {
+  id?: boolean;
+  action?: boolean;
+  queueName?: boolean;
+  actor?: boolean;
+  params?: boolean;
+  result?: boolean;
+  success?: boolean;
+  error?: boolean;
+  createdAt?: boolean;
+};
+
+export type QueueAuditLogOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+  'id' | 'action' | 'queueName' | 'actor' | 'params' | 'result' | 'success' | 'error' | 'createdAt',
+  ExtArgs['result']['queueAuditLog']
+>;
+
+export type $QueueAuditLogPayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  name: 'QueueAuditLog';
+  objects: {};
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      action: string;
+      queueName: string;
+      actor: string | null;
+      params: runtime.JsonValue | null;
+      result: runtime.JsonValue | null;
+      success: boolean;
+      error: string | null;
+      createdAt: Date;
+    },
+    ExtArgs['result']['queueAuditLog']
+  >;
+  composites: {};
+};
+
+export type QueueAuditLogGetPayload<
+  S extends boolean | null | undefined | QueueAuditLogDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$QueueAuditLogPayload, S>;
+
+export type QueueAuditLogCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<QueueAuditLogFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+  select?: QueueAuditLogCountAggregateInputType | true;
+};
+
+export interface QueueAuditLogDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>['model']['QueueAuditLog'];
+    meta: { name: 'QueueAuditLog' };
+  };
+  /**
+   * Find zero or one QueueAuditLog that matches the filter.
+   * @param {QueueAuditLogFindUniqueArgs} args - Arguments to find a QueueAuditLog
+   * @example
+   * // Get one QueueAuditLog
+   * const queueAuditLog = await prisma.queueAuditLog.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends QueueAuditLogFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, QueueAuditLogFindUniqueArgs<ExtArgs>>,
+  ): Prisma.Prisma__QueueAuditLogClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'findUnique',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one QueueAuditLog that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {QueueAuditLogFindUniqueOrThrowArgs} args - Arguments to find a QueueAuditLog
+   * @example
+   * // Get one QueueAuditLog
+   * const queueAuditLog = await prisma.queueAuditLog.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends QueueAuditLogFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, QueueAuditLogFindUniqueOrThrowArgs<ExtArgs>>,
+  ): Prisma.Prisma__QueueAuditLogClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'findUniqueOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first QueueAuditLog that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QueueAuditLogFindFirstArgs} args - Arguments to find a QueueAuditLog
+   * @example
+   * // Get one QueueAuditLog
+   * const queueAuditLog = await prisma.queueAuditLog.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends QueueAuditLogFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, QueueAuditLogFindFirstArgs<ExtArgs>>,
+  ): Prisma.Prisma__QueueAuditLogClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'findFirst',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first QueueAuditLog that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QueueAuditLogFindFirstOrThrowArgs} args - Arguments to find a QueueAuditLog
+   * @example
+   * // Get one QueueAuditLog
+   * const queueAuditLog = await prisma.queueAuditLog.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends QueueAuditLogFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, QueueAuditLogFindFirstOrThrowArgs<ExtArgs>>,
+  ): Prisma.Prisma__QueueAuditLogClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'findFirstOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more QueueAuditLogs that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QueueAuditLogFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all QueueAuditLogs
+   * const queueAuditLogs = await prisma.queueAuditLog.findMany()
+   *
+   * // Get first 10 QueueAuditLogs
+   * const queueAuditLogs = await prisma.queueAuditLog.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const queueAuditLogWithIdOnly = await prisma.queueAuditLog.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends QueueAuditLogFindManyArgs>(
+    args?: Prisma.SelectSubset<T, QueueAuditLogFindManyArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'findMany',
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a QueueAuditLog.
+   * @param {QueueAuditLogCreateArgs} args - Arguments to create a QueueAuditLog.
+   * @example
+   * // Create one QueueAuditLog
+   * const QueueAuditLog = await prisma.queueAuditLog.create({
+   *   data: {
+   *     // ... data to create a QueueAuditLog
+   *   }
+   * })
+   *
+   */
+  create<T extends QueueAuditLogCreateArgs>(
+    args: Prisma.SelectSubset<T, QueueAuditLogCreateArgs<ExtArgs>>,
+  ): Prisma.Prisma__QueueAuditLogClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'create',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many QueueAuditLogs.
+   * @param {QueueAuditLogCreateManyArgs} args - Arguments to create many QueueAuditLogs.
+   * @example
+   * // Create many QueueAuditLogs
+   * const queueAuditLog = await prisma.queueAuditLog.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends QueueAuditLogCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, QueueAuditLogCreateManyArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many QueueAuditLogs and returns the data saved in the database.
+   * @param {QueueAuditLogCreateManyAndReturnArgs} args - Arguments to create many QueueAuditLogs.
+   * @example
+   * // Create many QueueAuditLogs
+   * const queueAuditLog = await prisma.queueAuditLog.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many QueueAuditLogs and only return the `id`
+   * const queueAuditLogWithIdOnly = await prisma.queueAuditLog.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends QueueAuditLogCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, QueueAuditLogCreateManyAndReturnArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'createManyAndReturn',
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a QueueAuditLog.
+   * @param {QueueAuditLogDeleteArgs} args - Arguments to delete one QueueAuditLog.
+   * @example
+   * // Delete one QueueAuditLog
+   * const QueueAuditLog = await prisma.queueAuditLog.delete({
+   *   where: {
+   *     // ... filter to delete one QueueAuditLog
+   *   }
+   * })
+   *
+   */
+  delete<T extends QueueAuditLogDeleteArgs>(
+    args: Prisma.SelectSubset<T, QueueAuditLogDeleteArgs<ExtArgs>>,
+  ): Prisma.Prisma__QueueAuditLogClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'delete',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one QueueAuditLog.
+   * @param {QueueAuditLogUpdateArgs} args - Arguments to update one QueueAuditLog.
+   * @example
+   * // Update one QueueAuditLog
+   * const queueAuditLog = await prisma.queueAuditLog.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends QueueAuditLogUpdateArgs>(
+    args: Prisma.SelectSubset<T, QueueAuditLogUpdateArgs<ExtArgs>>,
+  ): Prisma.Prisma__QueueAuditLogClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'update',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more QueueAuditLogs.
+   * @param {QueueAuditLogDeleteManyArgs} args - Arguments to filter QueueAuditLogs to delete.
+   * @example
+   * // Delete a few QueueAuditLogs
+   * const { count } = await prisma.queueAuditLog.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends QueueAuditLogDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, QueueAuditLogDeleteManyArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more QueueAuditLogs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QueueAuditLogUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many QueueAuditLogs
+   * const queueAuditLog = await prisma.queueAuditLog.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends QueueAuditLogUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, QueueAuditLogUpdateManyArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more QueueAuditLogs and returns the data updated in the database.
+   * @param {QueueAuditLogUpdateManyAndReturnArgs} args - Arguments to update many QueueAuditLogs.
+   * @example
+   * // Update many QueueAuditLogs
+   * const queueAuditLog = await prisma.queueAuditLog.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more QueueAuditLogs and only return the `id`
+   * const queueAuditLogWithIdOnly = await prisma.queueAuditLog.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends QueueAuditLogUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, QueueAuditLogUpdateManyAndReturnArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'updateManyAndReturn',
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one QueueAuditLog.
+   * @param {QueueAuditLogUpsertArgs} args - Arguments to update or create a QueueAuditLog.
+   * @example
+   * // Update or create a QueueAuditLog
+   * const queueAuditLog = await prisma.queueAuditLog.upsert({
+   *   create: {
+   *     // ... data to create a QueueAuditLog
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the QueueAuditLog we want to update
+   *   }
+   * })
+   */
+  upsert<T extends QueueAuditLogUpsertArgs>(
+    args: Prisma.SelectSubset<T, QueueAuditLogUpsertArgs<ExtArgs>>,
+  ): Prisma.Prisma__QueueAuditLogClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$QueueAuditLogPayload<ExtArgs>,
+      T,
+      'upsert',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of QueueAuditLogs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QueueAuditLogCountArgs} args - Arguments to filter QueueAuditLogs to count.
+   * @example
+   * // Count the number of QueueAuditLogs
+   * const count = await prisma.queueAuditLog.count({
+   *   where: {
+   *     // ... the filter for the QueueAuditLogs we want to count
+   *   }
+   * })
+   **/
+  count<T extends QueueAuditLogCountArgs>(
+    args?: Prisma.Subset<T, QueueAuditLogCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], QueueAuditLogCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a QueueAuditLog.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QueueAuditLogAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends QueueAuditLogAggregateArgs>(
+    args: Prisma.Subset<T, QueueAuditLogAggregateArgs>,
+  ): Prisma.PrismaPromise<GetQueueAuditLogAggregateType<T>>;
+
+  /**
+   * Group by QueueAuditLog.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QueueAuditLogGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends QueueAuditLogGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: QueueAuditLogGroupByArgs['orderBy'] }
+      : { orderBy?: QueueAuditLogGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, 'Field ', P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : 'take' extends Prisma.Keys<T>
+          ? 'orderBy' extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : 'skip' extends Prisma.Keys<T>
+            ? 'orderBy' extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields],
+  >(
+    args: Prisma.SubsetIntersection<T, QueueAuditLogGroupByArgs, OrderByArg> & InputErrors,
+  ): {} extends InputErrors ? GetQueueAuditLogGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the QueueAuditLog model
+   */
+  readonly fields: QueueAuditLogFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for QueueAuditLog.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__QueueAuditLogClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: 'PrismaPromise';
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null,
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null,
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the QueueAuditLog model
+ */
+export interface QueueAuditLogFieldRefs {
+  readonly id: Prisma.FieldRef<'QueueAuditLog', 'String'>;
+  readonly action: Prisma.FieldRef<'QueueAuditLog', 'String'>;
+  readonly queueName: Prisma.FieldRef<'QueueAuditLog', 'String'>;
+  readonly actor: Prisma.FieldRef<'QueueAuditLog', 'String'>;
+  readonly params: Prisma.FieldRef<'QueueAuditLog', 'Json'>;
+  readonly result: Prisma.FieldRef<'QueueAuditLog', 'Json'>;
+  readonly success: Prisma.FieldRef<'QueueAuditLog', 'Boolean'>;
+  readonly error: Prisma.FieldRef<'QueueAuditLog', 'String'>;
+  readonly createdAt: Prisma.FieldRef<'QueueAuditLog', 'DateTime'>;
+}
+
+// Custom InputTypes
+/**
+ * QueueAuditLog findUnique
+ */
+export type QueueAuditLogFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * Filter, which QueueAuditLog to fetch.
+   */
+  where: Prisma.QueueAuditLogWhereUniqueInput;
+};
+
+/**
+ * QueueAuditLog findUniqueOrThrow
+ */
+export type QueueAuditLogFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * Filter, which QueueAuditLog to fetch.
+   */
+  where: Prisma.QueueAuditLogWhereUniqueInput;
+};
+
+/**
+ * QueueAuditLog findFirst
+ */
+export type QueueAuditLogFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * Filter, which QueueAuditLog to fetch.
+   */
+  where?: Prisma.QueueAuditLogWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of QueueAuditLogs to fetch.
+   */
+  orderBy?:
+    | Prisma.QueueAuditLogOrderByWithRelationInput
+    | Prisma.QueueAuditLogOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for QueueAuditLogs.
+   */
+  cursor?: Prisma.QueueAuditLogWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` QueueAuditLogs from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` QueueAuditLogs.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of QueueAuditLogs.
+   */
+  distinct?: Prisma.QueueAuditLogScalarFieldEnum | Prisma.QueueAuditLogScalarFieldEnum[];
+};
+
+/**
+ * QueueAuditLog findFirstOrThrow
+ */
+export type QueueAuditLogFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * Filter, which QueueAuditLog to fetch.
+   */
+  where?: Prisma.QueueAuditLogWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of QueueAuditLogs to fetch.
+   */
+  orderBy?:
+    | Prisma.QueueAuditLogOrderByWithRelationInput
+    | Prisma.QueueAuditLogOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for QueueAuditLogs.
+   */
+  cursor?: Prisma.QueueAuditLogWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` QueueAuditLogs from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` QueueAuditLogs.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of QueueAuditLogs.
+   */
+  distinct?: Prisma.QueueAuditLogScalarFieldEnum | Prisma.QueueAuditLogScalarFieldEnum[];
+};
+
+/**
+ * QueueAuditLog findMany
+ */
+export type QueueAuditLogFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * Filter, which QueueAuditLogs to fetch.
+   */
+  where?: Prisma.QueueAuditLogWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of QueueAuditLogs to fetch.
+   */
+  orderBy?:
+    | Prisma.QueueAuditLogOrderByWithRelationInput
+    | Prisma.QueueAuditLogOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing QueueAuditLogs.
+   */
+  cursor?: Prisma.QueueAuditLogWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` QueueAuditLogs from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` QueueAuditLogs.
+   */
+  skip?: number;
+  distinct?: Prisma.QueueAuditLogScalarFieldEnum | Prisma.QueueAuditLogScalarFieldEnum[];
+};
+
+/**
+ * QueueAuditLog create
+ */
+export type QueueAuditLogCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * The data needed to create a QueueAuditLog.
+   */
+  data: Prisma.XOR<Prisma.QueueAuditLogCreateInput, Prisma.QueueAuditLogUncheckedCreateInput>;
+};
+
+/**
+ * QueueAuditLog createMany
+ */
+export type QueueAuditLogCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to create many QueueAuditLogs.
+   */
+  data: Prisma.QueueAuditLogCreateManyInput | Prisma.QueueAuditLogCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * QueueAuditLog createManyAndReturn
+ */
+export type QueueAuditLogCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * The data used to create many QueueAuditLogs.
+   */
+  data: Prisma.QueueAuditLogCreateManyInput | Prisma.QueueAuditLogCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * QueueAuditLog update
+ */
+export type QueueAuditLogUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * The data needed to update a QueueAuditLog.
+   */
+  data: Prisma.XOR<Prisma.QueueAuditLogUpdateInput, Prisma.QueueAuditLogUncheckedUpdateInput>;
+  /**
+   * Choose, which QueueAuditLog to update.
+   */
+  where: Prisma.QueueAuditLogWhereUniqueInput;
+};
+
+/**
+ * QueueAuditLog updateMany
+ */
+export type QueueAuditLogUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to update QueueAuditLogs.
+   */
+  data: Prisma.XOR<
+    Prisma.QueueAuditLogUpdateManyMutationInput,
+    Prisma.QueueAuditLogUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which QueueAuditLogs to update
+   */
+  where?: Prisma.QueueAuditLogWhereInput;
+  /**
+   * Limit how many QueueAuditLogs to update.
+   */
+  limit?: number;
+};
+
+/**
+ * QueueAuditLog updateManyAndReturn
+ */
+export type QueueAuditLogUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * The data used to update QueueAuditLogs.
+   */
+  data: Prisma.XOR<
+    Prisma.QueueAuditLogUpdateManyMutationInput,
+    Prisma.QueueAuditLogUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which QueueAuditLogs to update
+   */
+  where?: Prisma.QueueAuditLogWhereInput;
+  /**
+   * Limit how many QueueAuditLogs to update.
+   */
+  limit?: number;
+};
+
+/**
+ * QueueAuditLog upsert
+ */
+export type QueueAuditLogUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * The filter to search for the QueueAuditLog to update in case it exists.
+   */
+  where: Prisma.QueueAuditLogWhereUniqueInput;
+  /**
+   * In case the QueueAuditLog found by the `where` argument doesn't exist, create a new QueueAuditLog with this data.
+   */
+  create: Prisma.XOR<Prisma.QueueAuditLogCreateInput, Prisma.QueueAuditLogUncheckedCreateInput>;
+  /**
+   * In case the QueueAuditLog was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.QueueAuditLogUpdateInput, Prisma.QueueAuditLogUncheckedUpdateInput>;
+};
+
+/**
+ * QueueAuditLog delete
+ */
+export type QueueAuditLogDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+  /**
+   * Filter which QueueAuditLog to delete.
+   */
+  where: Prisma.QueueAuditLogWhereUniqueInput;
+};
+
+/**
+ * QueueAuditLog deleteMany
+ */
+export type QueueAuditLogDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which QueueAuditLogs to delete
+   */
+  where?: Prisma.QueueAuditLogWhereInput;
+  /**
+   * Limit how many QueueAuditLogs to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * QueueAuditLog without action
+ */
+export type QueueAuditLogDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the QueueAuditLog
+   */
+  select?: Prisma.QueueAuditLogSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the QueueAuditLog
+   */
+  omit?: Prisma.QueueAuditLogOmit<ExtArgs> | null;
+};
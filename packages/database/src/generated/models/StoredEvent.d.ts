@@ -0,0 +1,1084 @@
+import type * as runtime from '@prisma/client/runtime/client';
+import type * as Prisma from '../internal/prismaNamespace';
+/**
+ * Model StoredEvent
+ *
+ */
+export type StoredEventModel = runtime.Types.Result.DefaultSelection<Prisma.$StoredEventPayload>;
+export type AggregateStoredEvent = {
+    _count: StoredEventCountAggregateOutputType | null;
+    _avg: StoredEventAvgAggregateOutputType | null;
+    _sum: StoredEventSumAggregateOutputType | null;
+    _min: StoredEventMinAggregateOutputType | null;
+    _max: StoredEventMaxAggregateOutputType | null;
+};
+export type StoredEventAvgAggregateOutputType = {
+    slot: number | null;
+};
+export type StoredEventSumAggregateOutputType = {
+    slot: bigint | null;
+};
+export type StoredEventMinAggregateOutputType = {
+    eventId: string | null;
+    type: string | null;
+    source: string | null;
+    slot: bigint | null;
+    timestamp: Date | null;
+    storedAt: Date | null;
+};
+export type StoredEventMaxAggregateOutputType = {
+    eventId: string | null;
+    type: string | null;
+    source: string | null;
+    slot: bigint | null;
+    timestamp: Date | null;
+    storedAt: Date | null;
+};
+export type StoredEventCountAggregateOutputType = {
+    eventId: number;
+    type: number;
+    payload: number;
+    source: number;
+    slot: number;
+    timestamp: number;
+    storedAt: number;
+    _all: number;
+};
+export type StoredEventAvgAggregateInputType = {
+    slot?: true;
+};
+export type StoredEventSumAggregateInputType = {
+    slot?: true;
+};
+export type StoredEventMinAggregateInputType = {
+    eventId?: true;
+    type?: true;
+    source?: true;
+    slot?: true;
+    timestamp?: true;
+    storedAt?: true;
+};
+export type StoredEventMaxAggregateInputType = {
+    eventId?: true;
+    type?: true;
+    source?: true;
+    slot?: true;
+    timestamp?: true;
+    storedAt?: true;
+};
+export type StoredEventCountAggregateInputType = {
+    eventId?: true;
+    type?: true;
+    payload?: true;
+    source?: true;
+    slot?: true;
+    timestamp?: true;
+    storedAt?: true;
+    _all?: true;
+};
+export type StoredEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Filter which StoredEvent to aggregate.
+     */
+    where?: Prisma.StoredEventWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of StoredEvents to fetch.
+     */
+    orderBy?: Prisma.StoredEventOrderByWithRelationInput | Prisma.StoredEventOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the start position
+     */
+    cursor?: Prisma.StoredEventWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` StoredEvents from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` StoredEvents.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Count returned StoredEvents
+     **/
+    _count?: true | StoredEventCountAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to average
+     **/
+    _avg?: StoredEventAvgAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to sum
+     **/
+    _sum?: StoredEventSumAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to find the minimum value
+     **/
+    _min?: StoredEventMinAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to find the maximum value
+     **/
+    _max?: StoredEventMaxAggregateInputType;
+};
+export type GetStoredEventAggregateType<T extends StoredEventAggregateArgs> = {
+    [P in keyof T & keyof AggregateStoredEvent]: P extends '_count' | 'count' ? T[P] extends true ? number : Prisma.GetScalarType<T[P], AggregateStoredEvent[P]> : Prisma.GetScalarType<T[P], AggregateStoredEvent[P]>;
+};
+export type StoredEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    where?: Prisma.StoredEventWhereInput;
+    orderBy?: Prisma.StoredEventOrderByWithAggregationInput | Prisma.StoredEventOrderByWithAggregationInput[];
+    by: Prisma.StoredEventScalarFieldEnum[] | Prisma.StoredEventScalarFieldEnum;
+    having?: Prisma.StoredEventScalarWhereWithAggregatesInput;
+    take?: number;
+    skip?: number;
+    _count?: StoredEventCountAggregateInputType | true;
+    _avg?: StoredEventAvgAggregateInputType;
+    _sum?: StoredEventSumAggregateInputType;
+    _min?: StoredEventMinAggregateInputType;
+    _max?: StoredEventMaxAggregateInputType;
+};
+export type StoredEventGroupByOutputType = {
+    eventId: string;
+    type: string;
+    payload: runtime.JsonValue;
+    source: string | null;
+    slot: bigint | null;
+    timestamp: Date;
+    storedAt: Date;
+    _count: StoredEventCountAggregateOutputType | null;
+    _avg: StoredEventAvgAggregateOutputType | null;
+    _sum: StoredEventSumAggregateOutputType | null;
+    _min: StoredEventMinAggregateOutputType | null;
+    _max: StoredEventMaxAggregateOutputType | null;
+};
+type GetStoredEventGroupByPayload<T extends StoredEventGroupByArgs> = Prisma.PrismaPromise<Array<Prisma.PickEnumerable<StoredEventGroupByOutputType, T['by']> & {
+    [P in keyof T & keyof StoredEventGroupByOutputType]: P extends '_count' ? T[P] extends boolean ? number : Prisma.GetScalarType<T[P], StoredEventGroupByOutputType[P]> : Prisma.GetScalarType<T[P], StoredEventGroupByOutputType[P]>;
+}>>;
+export type StoredEventWhereInput = {
+    AND?: Prisma.StoredEventWhereInput | Prisma.StoredEventWhereInput[];
+    OR?: Prisma.StoredEventWhereInput[];
+    NOT?: Prisma.StoredEventWhereInput | Prisma.StoredEventWhereInput[];
+    eventId?: Prisma.StringFilter<'StoredEvent'> | string;
+    type?: Prisma.StringFilter<'StoredEvent'> | string;
+    payload?: Prisma.JsonFilter<'StoredEvent'>;
+    source?: Prisma.StringNullableFilter<'StoredEvent'> | string | null;
+    slot?: Prisma.BigIntNullableFilter<'StoredEvent'> | bigint | number | null;
+    timestamp?: Prisma.DateTimeFilter<'StoredEvent'> | Date | string;
+    storedAt?: Prisma.DateTimeFilter<'StoredEvent'> | Date | string;
+};
+export type StoredEventOrderByWithRelationInput = {
+    eventId?: Prisma.SortOrder;
+    type?: Prisma.SortOrder;
+    payload?: Prisma.SortOrder;
+    source?: Prisma.SortOrderInput | Prisma.SortOrder;
+    slot?: Prisma.SortOrderInput | Prisma.SortOrder;
+    timestamp?: Prisma.SortOrder;
+    storedAt?: Prisma.SortOrder;
+};
+export type StoredEventWhereUniqueInput = Prisma.AtLeast<{
+    eventId?: string;
+    AND?: Prisma.StoredEventWhereInput | Prisma.StoredEventWhereInput[];
+    OR?: Prisma.StoredEventWhereInput[];
+    NOT?: Prisma.StoredEventWhereInput | Prisma.StoredEventWhereInput[];
+    type?: Prisma.StringFilter<'StoredEvent'> | string;
+    payload?: Prisma.JsonFilter<'StoredEvent'>;
+    source?: Prisma.StringNullableFilter<'StoredEvent'> | string | null;
+    slot?: Prisma.BigIntNullableFilter<'StoredEvent'> | bigint | number | null;
+    timestamp?: Prisma.DateTimeFilter<'StoredEvent'> | Date | string;
+    storedAt?: Prisma.DateTimeFilter<'StoredEvent'> | Date | string;
+}, 'eventId'>;
+export type StoredEventOrderByWithAggregationInput = {
+    eventId?: Prisma.SortOrder;
+    type?: Prisma.SortOrder;
+    payload?: Prisma.SortOrder;
+    source?: Prisma.SortOrderInput | Prisma.SortOrder;
+    slot?: Prisma.SortOrderInput | Prisma.SortOrder;
+    timestamp?: Prisma.SortOrder;
+    storedAt?: Prisma.SortOrder;
+    _count?: Prisma.StoredEventCountOrderByAggregateInput;
+    _avg?: Prisma.StoredEventAvgOrderByAggregateInput;
+    _max?: Prisma.StoredEventMaxOrderByAggregateInput;
+    _min?: Prisma.StoredEventMinOrderByAggregateInput;
+    _sum?: Prisma.StoredEventSumOrderByAggregateInput;
+};
+export type StoredEventScalarWhereWithAggregatesInput = {
+    AND?: Prisma.StoredEventScalarWhereWithAggregatesInput | Prisma.StoredEventScalarWhereWithAggregatesInput[];
+    OR?: Prisma.StoredEventScalarWhereWithAggregatesInput[];
+    NOT?: Prisma.StoredEventScalarWhereWithAggregatesInput | Prisma.StoredEventScalarWhereWithAggregatesInput[];
+    eventId?: Prisma.StringWithAggregatesFilter<'StoredEvent'> | string;
+    type?: Prisma.StringWithAggregatesFilter<'StoredEvent'> | string;
+    payload?: Prisma.JsonWithAggregatesFilter<'StoredEvent'>;
+    source?: Prisma.StringNullableWithAggregatesFilter<'StoredEvent'> | string | null;
+    slot?: Prisma.BigIntNullableWithAggregatesFilter<'StoredEvent'> | bigint | number | null;
+    timestamp?: Prisma.DateTimeWithAggregatesFilter<'StoredEvent'> | Date | string;
+    storedAt?: Prisma.DateTimeWithAggregatesFilter<'StoredEvent'> | Date | string;
+};
+export type StoredEventCreateInput = {
+    eventId: string;
+    type: string;
+    payload: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    source?: string | null;
+    slot?: bigint | number | null;
+    timestamp: Date | string;
+    storedAt?: Date | string;
+};
+export type StoredEventUncheckedCreateInput = {
+    eventId: string;
+    type: string;
+    payload: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    source?: string | null;
+    slot?: bigint | number | null;
+    timestamp: Date | string;
+    storedAt?: Date | string;
+};
+export type StoredEventUpdateInput = {
+    eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+    type?: Prisma.StringFieldUpdateOperationsInput | string;
+    payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    slot?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null;
+    timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    storedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+export type StoredEventUncheckedUpdateInput = {
+    eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+    type?: Prisma.StringFieldUpdateOperationsInput | string;
+    payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    slot?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null;
+    timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    storedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+export type StoredEventCreateManyInput = {
+    eventId: string;
+    type: string;
+    payload: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    source?: string | null;
+    slot?: bigint | number | null;
+    timestamp: Date | string;
+    storedAt?: Date | string;
+};
+export type StoredEventUpdateManyMutationInput = {
+    eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+    type?: Prisma.StringFieldUpdateOperationsInput | string;
+    payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    slot?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null;
+    timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    storedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+export type StoredEventUncheckedUpdateManyInput = {
+    eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+    type?: Prisma.StringFieldUpdateOperationsInput | string;
+    payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+    source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+    slot?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null;
+    timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+    storedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+export type StoredEventCountOrderByAggregateInput = {
+    eventId?: Prisma.SortOrder;
+    type?: Prisma.SortOrder;
+    payload?: Prisma.SortOrder;
+    source?: Prisma.SortOrder;
+    slot?: Prisma.SortOrder;
+    timestamp?: Prisma.SortOrder;
+    storedAt?: Prisma.SortOrder;
+};
+export type StoredEventAvgOrderByAggregateInput = {
+    slot?: Prisma.SortOrder;
+};
+export type StoredEventMaxOrderByAggregateInput = {
+    eventId?: Prisma.SortOrder;
+    type?: Prisma.SortOrder;
+    source?: Prisma.SortOrder;
+    slot?: Prisma.SortOrder;
+    timestamp?: Prisma.SortOrder;
+    storedAt?: Prisma.SortOrder;
+};
+export type StoredEventMinOrderByAggregateInput = {
+    eventId?: Prisma.SortOrder;
+    type?: Prisma.SortOrder;
+    source?: Prisma.SortOrder;
+    slot?: Prisma.SortOrder;
+    timestamp?: Prisma.SortOrder;
+    storedAt?: Prisma.SortOrder;
+};
+export type StoredEventSumOrderByAggregateInput = {
+    slot?: Prisma.SortOrder;
+};
+export type NullableBigIntFieldUpdateOperationsInput = {
+    set?: bigint | number | null;
+    increment?: bigint | number;
+    decrement?: bigint | number;
+    multiply?: bigint | number;
+    divide?: bigint | number;
+};
+export type StoredEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+    eventId?: boolean;
+    type?: boolean;
+    payload?: boolean;
+    source?: boolean;
+    slot?: boolean;
+    timestamp?: boolean;
+    storedAt?: boolean;
+}, ExtArgs['result']['storedEvent']>;
+export type StoredEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+    eventId?: boolean;
+    type?: boolean;
+    payload?: boolean;
+    source?: boolean;
+    slot?: boolean;
+    timestamp?: boolean;
+    storedAt?: boolean;
+}, ExtArgs['result']['storedEvent']>;
+export type StoredEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+    eventId?: boolean;
+    type?: boolean;
+    payload?: boolean;
+    source?: boolean;
+    slot?: boolean;
+    timestamp?: boolean;
+    storedAt?: boolean;
+}, ExtArgs['result']['storedEvent']>;
+export type StoredEventSelectScalar = {
+    eventId?: boolean;
+    type?: boolean;
+    payload?: boolean;
+    source?: boolean;
+    slot?: boolean;
+    timestamp?: boolean;
+    storedAt?: boolean;
+};
+export type StoredEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'eventId' | 'type' | 'payload' | 'source' | 'slot' | 'timestamp' | 'storedAt', ExtArgs['result']['storedEvent']>;
+export type $StoredEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    name: 'StoredEvent';
+    objects: {};
+    scalars: runtime.Types.Extensions.GetPayloadResult<{
+        eventId: string;
+        type: string;
+        payload: runtime.JsonValue;
+        source: string | null;
+        slot: bigint | null;
+        timestamp: Date;
+        storedAt: Date;
+    }, ExtArgs['result']['storedEvent']>;
+    composites: {};
+};
+export type StoredEventGetPayload<S extends boolean | null | undefined | StoredEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$StoredEventPayload, S>;
+export type StoredEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = Omit<StoredEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: StoredEventCountAggregateInputType | true;
+};
+export interface StoredEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: {
+        types: Prisma.TypeMap<ExtArgs>['model']['StoredEvent'];
+        meta: {
+            name: 'StoredEvent';
+        };
+    };
+    /**
+     * Find zero or one StoredEvent that matches the filter.
+     * @param {StoredEventFindUniqueArgs} args - Arguments to find a StoredEvent
+     * @example
+     * // Get one StoredEvent
+     * const storedEvent = await prisma.storedEvent.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends StoredEventFindUniqueArgs>(args: Prisma.SelectSubset<T, StoredEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__StoredEventClient<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'findUnique', GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find one StoredEvent that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {StoredEventFindUniqueOrThrowArgs} args - Arguments to find a StoredEvent
+     * @example
+     * // Get one StoredEvent
+     * const storedEvent = await prisma.storedEvent.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends StoredEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, StoredEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__StoredEventClient<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'findUniqueOrThrow', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find the first StoredEvent that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {StoredEventFindFirstArgs} args - Arguments to find a StoredEvent
+     * @example
+     * // Get one StoredEvent
+     * const storedEvent = await prisma.storedEvent.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends StoredEventFindFirstArgs>(args?: Prisma.SelectSubset<T, StoredEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__StoredEventClient<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'findFirst', GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find the first StoredEvent that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {StoredEventFindFirstOrThrowArgs} args - Arguments to find a StoredEvent
+     * @example
+     * // Get one StoredEvent
+     * const storedEvent = await prisma.storedEvent.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends StoredEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, StoredEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__StoredEventClient<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'findFirstOrThrow', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find zero or more StoredEvents that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {StoredEventFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all StoredEvents
+     * const storedEvents = await prisma.storedEvent.findMany()
+     *
+     * // Get first 10 StoredEvents
+     * const storedEvents = await prisma.storedEvent.findMany({ take: 10 })
+     *
+     * // Only select the `eventId`
+     * const storedEventWithEventIdOnly = await prisma.storedEvent.findMany({ select: { eventId: true } })
+     *
+     */
+    findMany<T extends StoredEventFindManyArgs>(args?: Prisma.SelectSubset<T, StoredEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'findMany', GlobalOmitOptions>>;
+    /**
+     * Create a StoredEvent.
+     * @param {StoredEventCreateArgs} args - Arguments to create a StoredEvent.
+     * @example
+     * // Create one StoredEvent
+     * const StoredEvent = await prisma.storedEvent.create({
+     *   data: {
+     *     // ... data to create a StoredEvent
+     *   }
+     * })
+     *
+     */
+    create<T extends StoredEventCreateArgs>(args: Prisma.SelectSubset<T, StoredEventCreateArgs<ExtArgs>>): Prisma.Prisma__StoredEventClient<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'create', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Create many StoredEvents.
+     * @param {StoredEventCreateManyArgs} args - Arguments to create many StoredEvents.
+     * @example
+     * // Create many StoredEvents
+     * const storedEvent = await prisma.storedEvent.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     */
+    createMany<T extends StoredEventCreateManyArgs>(args?: Prisma.SelectSubset<T, StoredEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>;
+    /**
+     * Create many StoredEvents and returns the data saved in the database.
+     * @param {StoredEventCreateManyAndReturnArgs} args - Arguments to create many StoredEvents.
+     * @example
+     * // Create many StoredEvents
+     * const storedEvent = await prisma.storedEvent.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     * // Create many StoredEvents and only return the `eventId`
+     * const storedEventWithEventIdOnly = await prisma.storedEvent.createManyAndReturn({
+     *   select: { eventId: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     *
+     */
+    createManyAndReturn<T extends StoredEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, StoredEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'createManyAndReturn', GlobalOmitOptions>>;
+    /**
+     * Delete a StoredEvent.
+     * @param {StoredEventDeleteArgs} args - Arguments to delete one StoredEvent.
+     * @example
+     * // Delete one StoredEvent
+     * const StoredEvent = await prisma.storedEvent.delete({
+     *   where: {
+     *     // ... filter to delete one StoredEvent
+     *   }
+     * })
+     *
+     */
+    delete<T extends StoredEventDeleteArgs>(args: Prisma.SelectSubset<T, StoredEventDeleteArgs<ExtArgs>>): Prisma.Prisma__StoredEventClient<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'delete', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Update one StoredEvent.
+     * @param {StoredEventUpdateArgs} args - Arguments to update one StoredEvent.
+     * @example
+     * // Update one StoredEvent
+     * const storedEvent = await prisma.storedEvent.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     *
+     */
+    update<T extends StoredEventUpdateArgs>(args: Prisma.SelectSubset<T, StoredEventUpdateArgs<ExtArgs>>): Prisma.Prisma__StoredEventClient<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'update', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Delete zero or more StoredEvents.
+     * @param {StoredEventDeleteManyArgs} args - Arguments to filter StoredEvents to delete.
+     * @example
+     * // Delete a few StoredEvents
+     * const { count } = await prisma.storedEvent.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     *
+     */
+    deleteMany<T extends StoredEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, StoredEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>;
+    /**
+     * Update zero or more StoredEvents.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {StoredEventUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many StoredEvents
+     * const storedEvent = await prisma.storedEvent.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     *
+     */
+    updateMany<T extends StoredEventUpdateManyArgs>(args: Prisma.SelectSubset<T, StoredEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>;
+    /**
+     * Update zero or more StoredEvents and returns the data updated in the database.
+     * @param {StoredEventUpdateManyAndReturnArgs} args - Arguments to update many StoredEvents.
+     * @example
+     * // Update many StoredEvents
+     * const storedEvent = await prisma.storedEvent.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     * // Update zero or more StoredEvents and only return the `eventId`
+     * const storedEventWithEventIdOnly = await prisma.storedEvent.updateManyAndReturn({
+     *   select: { eventId: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     *
+     */
+    updateManyAndReturn<T extends StoredEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, StoredEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'updateManyAndReturn', GlobalOmitOptions>>;
+    /**
+     * Create or update one StoredEvent.
+     * @param {StoredEventUpsertArgs} args - Arguments to update or create a StoredEvent.
+     * @example
+     * // Update or create a StoredEvent
+     * const storedEvent = await prisma.storedEvent.upsert({
+     *   create: {
+     *     // ... data to create a StoredEvent
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the StoredEvent we want to update
+     *   }
+     * })
+     */
+    upsert<T extends StoredEventUpsertArgs>(args: Prisma.SelectSubset<T, StoredEventUpsertArgs<ExtArgs>>): Prisma.Prisma__StoredEventClient<runtime.Types.Result.GetResult<Prisma.$StoredEventPayload<ExtArgs>, T, 'upsert', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Count the number of StoredEvents.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {StoredEventCountArgs} args - Arguments to filter StoredEvents to count.
+     * @example
+     * // Count the number of StoredEvents
+     * const count = await prisma.storedEvent.count({
+     *   where: {
+     *     // ... the filter for the StoredEvents we want to count
+     *   }
+     * })
+     **/
+    count<T extends StoredEventCountArgs>(args?: Prisma.Subset<T, StoredEventCountArgs>): Prisma.PrismaPromise<T extends runtime.Types.Utils.Record<'select', any> ? T['select'] extends true ? number : Prisma.GetScalarType<T['select'], StoredEventCountAggregateOutputType> : number>;
+    /**
+     * Allows you to perform aggregations operations on a StoredEvent.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {StoredEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+     **/
+    aggregate<T extends StoredEventAggregateArgs>(args: Prisma.Subset<T, StoredEventAggregateArgs>): Prisma.PrismaPromise<GetStoredEventAggregateType<T>>;
+    /**
+     * Group by StoredEvent.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {StoredEventGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     *
+     **/
+    groupBy<T extends StoredEventGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<T>>, Prisma.Extends<'take', Prisma.Keys<T>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? {
+        orderBy: StoredEventGroupByArgs['orderBy'];
+    } : {
+        orderBy?: StoredEventGroupByArgs['orderBy'];
+    }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<T['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<T['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True ? `Error: "by" must not be empty.` : HavingValid extends Prisma.False ? {
+        [P in HavingFields]: P extends ByFields ? never : P extends string ? `Error: Field "${P}" used in "having" needs to be provided in "by".` : [Error, 'Field ', P, ` in "having" needs to be provided in "by"`];
+    }[HavingFields] : 'take' extends Prisma.Keys<T> ? 'orderBy' extends Prisma.Keys<T> ? ByValid extends Prisma.True ? {} : {
+        [P in OrderFields]: P extends ByFields ? never : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+    }[OrderFields] : 'Error: If you provide "take", you also need to provide "orderBy"' : 'skip' extends Prisma.Keys<T> ? 'orderBy' extends Prisma.Keys<T> ? ByValid extends Prisma.True ? {} : {
+        [P in OrderFields]: P extends ByFields ? never : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+    }[OrderFields] : 'Error: If you provide "skip", you also need to provide "orderBy"' : ByValid extends Prisma.True ? {} : {
+        [P in OrderFields]: P extends ByFields ? never : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+    }[OrderFields]>(args: Prisma.SubsetIntersection<T, StoredEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetStoredEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+    /**
+     * Fields of the StoredEvent model
+     */
+    readonly fields: StoredEventFieldRefs;
+}
+/**
+ * The delegate class that acts as a "Promise-like" for StoredEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__StoredEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: 'PrismaPromise';
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>;
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+/**
+ * Fields of the StoredEvent model
+ */
+export interface StoredEventFieldRefs {
+    readonly eventId: Prisma.FieldRef<'StoredEvent', 'String'>;
+    readonly type: Prisma.FieldRef<'StoredEvent', 'String'>;
+    readonly payload: Prisma.FieldRef<'StoredEvent', 'Json'>;
+    readonly source: Prisma.FieldRef<'StoredEvent', 'String'>;
+    readonly slot: Prisma.FieldRef<'StoredEvent', 'BigInt'>;
+    readonly timestamp: Prisma.FieldRef<'StoredEvent', 'DateTime'>;
+    readonly storedAt: Prisma.FieldRef<'StoredEvent', 'DateTime'>;
+}
+/**
+ * StoredEvent findUnique
+ */
+export type StoredEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * Filter, which StoredEvent to fetch.
+     */
+    where: Prisma.StoredEventWhereUniqueInput;
+};
+/**
+ * StoredEvent findUniqueOrThrow
+ */
+export type StoredEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * Filter, which StoredEvent to fetch.
+     */
+    where: Prisma.StoredEventWhereUniqueInput;
+};
+/**
+ * StoredEvent findFirst
+ */
+export type StoredEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * Filter, which StoredEvent to fetch.
+     */
+    where?: Prisma.StoredEventWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of StoredEvents to fetch.
+     */
+    orderBy?: Prisma.StoredEventOrderByWithRelationInput | Prisma.StoredEventOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for searching for StoredEvents.
+     */
+    cursor?: Prisma.StoredEventWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` StoredEvents from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` StoredEvents.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     *
+     * Filter by unique combinations of StoredEvents.
+     */
+    distinct?: Prisma.StoredEventScalarFieldEnum | Prisma.StoredEventScalarFieldEnum[];
+};
+/**
+ * StoredEvent findFirstOrThrow
+ */
+export type StoredEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * Filter, which StoredEvent to fetch.
+     */
+    where?: Prisma.StoredEventWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of StoredEvents to fetch.
+     */
+    orderBy?: Prisma.StoredEventOrderByWithRelationInput | Prisma.StoredEventOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for searching for StoredEvents.
+     */
+    cursor?: Prisma.StoredEventWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` StoredEvents from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` StoredEvents.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     *
+     * Filter by unique combinations of StoredEvents.
+     */
+    distinct?: Prisma.StoredEventScalarFieldEnum | Prisma.StoredEventScalarFieldEnum[];
+};
+/**
+ * StoredEvent findMany
+ */
+export type StoredEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * Filter, which StoredEvents to fetch.
+     */
+    where?: Prisma.StoredEventWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of StoredEvents to fetch.
+     */
+    orderBy?: Prisma.StoredEventOrderByWithRelationInput | Prisma.StoredEventOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for listing StoredEvents.
+     */
+    cursor?: Prisma.StoredEventWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` StoredEvents from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` StoredEvents.
+     */
+    skip?: number;
+    distinct?: Prisma.StoredEventScalarFieldEnum | Prisma.StoredEventScalarFieldEnum[];
+};
+/**
+ * StoredEvent create
+ */
+export type StoredEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * The data needed to create a StoredEvent.
+     */
+    data: Prisma.XOR<Prisma.StoredEventCreateInput, Prisma.StoredEventUncheckedCreateInput>;
+};
+/**
+ * StoredEvent createMany
+ */
+export type StoredEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many StoredEvents.
+     */
+    data: Prisma.StoredEventCreateManyInput | Prisma.StoredEventCreateManyInput[];
+    skipDuplicates?: boolean;
+};
+/**
+ * StoredEvent createManyAndReturn
+ */
+export type StoredEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelectCreateManyAndReturn<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * The data used to create many StoredEvents.
+     */
+    data: Prisma.StoredEventCreateManyInput | Prisma.StoredEventCreateManyInput[];
+    skipDuplicates?: boolean;
+};
+/**
+ * StoredEvent update
+ */
+export type StoredEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * The data needed to update a StoredEvent.
+     */
+    data: Prisma.XOR<Prisma.StoredEventUpdateInput, Prisma.StoredEventUncheckedUpdateInput>;
+    /**
+     * Choose, which StoredEvent to update.
+     */
+    where: Prisma.StoredEventWhereUniqueInput;
+};
+/**
+ * StoredEvent updateMany
+ */
+export type StoredEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * The data used to update StoredEvents.
+     */
+    data: Prisma.XOR<Prisma.StoredEventUpdateManyMutationInput, Prisma.StoredEventUncheckedUpdateManyInput>;
+    /**
+     * Filter which StoredEvents to update
+     */
+    where?: Prisma.StoredEventWhereInput;
+    /**
+     * Limit how many StoredEvents to update.
+     */
+    limit?: number;
+};
+/**
+ * StoredEvent updateManyAndReturn
+ */
+export type StoredEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelectUpdateManyAndReturn<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * The data used to update StoredEvents.
+     */
+    data: Prisma.XOR<Prisma.StoredEventUpdateManyMutationInput, Prisma.StoredEventUncheckedUpdateManyInput>;
+    /**
+     * Filter which StoredEvents to update
+     */
+    where?: Prisma.StoredEventWhereInput;
+    /**
+     * Limit how many StoredEvents to update.
+     */
+    limit?: number;
+};
+/**
+ * StoredEvent upsert
+ */
+export type StoredEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * The filter to search for the StoredEvent to update in case it exists.
+     */
+    where: Prisma.StoredEventWhereUniqueInput;
+    /**
+     * In case the StoredEvent found by the `where` argument doesn't exist, create a new StoredEvent with this data.
+     */
+    create: Prisma.XOR<Prisma.StoredEventCreateInput, Prisma.StoredEventUncheckedCreateInput>;
+    /**
+     * In case the StoredEvent was found with the provided `where` argument, update it with this data.
+     */
+    update: Prisma.XOR<Prisma.StoredEventUpdateInput, Prisma.StoredEventUncheckedUpdateInput>;
+};
+/**
+ * StoredEvent delete
+ */
+export type StoredEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+    /**
+     * Filter which StoredEvent to delete.
+     */
+    where: Prisma.StoredEventWhereUniqueInput;
+};
+/**
+ * StoredEvent deleteMany
+ */
+export type StoredEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Filter which StoredEvents to delete
+     */
+    where?: Prisma.StoredEventWhereInput;
+    /**
+     * Limit how many StoredEvents to delete.
+     */
+    limit?: number;
+};
+/**
+ * StoredEvent without action
+ */
+export type StoredEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the StoredEvent
+     */
+    select?: Prisma.StoredEventSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the StoredEvent
+     */
+    omit?: Prisma.StoredEventOmit<ExtArgs> | null;
+};
+export {};
+//# sourceMappingURL=StoredEvent.d.ts.map
\ No newline at end of file
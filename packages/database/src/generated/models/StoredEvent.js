@@ -0,0 +1,2 @@
+export {};
+//# sourceMappingURL=StoredEvent.js.map
\ No newline at end of file
@@ -0,0 +1,1305 @@
+import type * as runtime from '@prisma/client/runtime/client';
+import type * as Prisma from '../internal/prismaNamespace';
+/**
+ * Model TakeProfitLevel
+ *
+ */
+export type TakeProfitLevelModel = runtime.Types.Result.DefaultSelection<Prisma.$TakeProfitLevelPayload>;
+export type AggregateTakeProfitLevel = {
+    _count: TakeProfitLevelCountAggregateOutputType | null;
+    _avg: TakeProfitLevelAvgAggregateOutputType | null;
+    _sum: TakeProfitLevelSumAggregateOutputType | null;
+    _min: TakeProfitLevelMinAggregateOutputType | null;
+    _max: TakeProfitLevelMaxAggregateOutputType | null;
+};
+export type TakeProfitLevelAvgAggregateOutputType = {
+    level: number | null;
+    targetPrice: runtime.Decimal | null;
+    sellFraction: runtime.Decimal | null;
+    amount: runtime.Decimal | null;
+};
+export type TakeProfitLevelSumAggregateOutputType = {
+    level: number | null;
+    targetPrice: runtime.Decimal | null;
+    sellFraction: runtime.Decimal | null;
+    amount: runtime.Decimal | null;
+};
+export type TakeProfitLevelMinAggregateOutputType = {
+    id: string | null;
+    positionId: string | null;
+    level: number | null;
+    targetPrice: runtime.Decimal | null;
+    sellFraction: runtime.Decimal | null;
+    amount: runtime.Decimal | null;
+    filledAt: Date | null;
+};
+export type TakeProfitLevelMaxAggregateOutputType = {
+    id: string | null;
+    positionId: string | null;
+    level: number | null;
+    targetPrice: runtime.Decimal | null;
+    sellFraction: runtime.Decimal | null;
+    amount: runtime.Decimal | null;
+    filledAt: Date | null;
+};
+export type TakeProfitLevelCountAggregateOutputType = {
+    id: number;
+    positionId: number;
+    level: number;
+    targetPrice: number;
+    sellFraction: number;
+    amount: number;
+    filledAt: number;
+    _all: number;
+};
+export type TakeProfitLevelAvgAggregateInputType = {
+    level?: true;
+    targetPrice?: true;
+    sellFraction?: true;
+    amount?: true;
+};
+export type TakeProfitLevelSumAggregateInputType = {
+    level?: true;
+    targetPrice?: true;
+    sellFraction?: true;
+    amount?: true;
+};
+export type TakeProfitLevelMinAggregateInputType = {
+    id?: true;
+    positionId?: true;
+    level?: true;
+    targetPrice?: true;
+    sellFraction?: true;
+    amount?: true;
+    filledAt?: true;
+};
+export type TakeProfitLevelMaxAggregateInputType = {
+    id?: true;
+    positionId?: true;
+    level?: true;
+    targetPrice?: true;
+    sellFraction?: true;
+    amount?: true;
+    filledAt?: true;
+};
+export type TakeProfitLevelCountAggregateInputType = {
+    id?: true;
+    positionId?: true;
+    level?: true;
+    targetPrice?: true;
+    sellFraction?: true;
+    amount?: true;
+    filledAt?: true;
+    _all?: true;
+};
+export type TakeProfitLevelAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Filter which TakeProfitLevel to aggregate.
+     */
+    where?: Prisma.TakeProfitLevelWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of TakeProfitLevels to fetch.
+     */
+    orderBy?: Prisma.TakeProfitLevelOrderByWithRelationInput | Prisma.TakeProfitLevelOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the start position
+     */
+    cursor?: Prisma.TakeProfitLevelWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` TakeProfitLevels from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` TakeProfitLevels.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Count returned TakeProfitLevels
+     **/
+    _count?: true | TakeProfitLevelCountAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to average
+     **/
+    _avg?: TakeProfitLevelAvgAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to sum
+     **/
+    _sum?: TakeProfitLevelSumAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to find the minimum value
+     **/
+    _min?: TakeProfitLevelMinAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to find the maximum value
+     **/
+    _max?: TakeProfitLevelMaxAggregateInputType;
+};
+export type GetTakeProfitLevelAggregateType<T extends TakeProfitLevelAggregateArgs> = {
+    [P in keyof T & keyof AggregateTakeProfitLevel]: P extends '_count' | 'count' ? T[P] extends true ? number : Prisma.GetScalarType<T[P], AggregateTakeProfitLevel[P]> : Prisma.GetScalarType<T[P], AggregateTakeProfitLevel[P]>;
+};
+export type TakeProfitLevelGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    where?: Prisma.TakeProfitLevelWhereInput;
+    orderBy?: Prisma.TakeProfitLevelOrderByWithAggregationInput | Prisma.TakeProfitLevelOrderByWithAggregationInput[];
+    by: Prisma.TakeProfitLevelScalarFieldEnum[] | Prisma.TakeProfitLevelScalarFieldEnum;
+    having?: Prisma.TakeProfitLevelScalarWhereWithAggregatesInput;
+    take?: number;
+    skip?: number;
+    _count?: TakeProfitLevelCountAggregateInputType | true;
+    _avg?: TakeProfitLevelAvgAggregateInputType;
+    _sum?: TakeProfitLevelSumAggregateInputType;
+    _min?: TakeProfitLevelMinAggregateInputType;
+    _max?: TakeProfitLevelMaxAggregateInputType;
+};
+export type TakeProfitLevelGroupByOutputType = {
+    id: string;
+    positionId: string;
+    level: number;
+    targetPrice: runtime.Decimal;
+    sellFraction: runtime.Decimal;
+    amount: runtime.Decimal;
+    filledAt: Date | null;
+    _count: TakeProfitLevelCountAggregateOutputType | null;
+    _avg: TakeProfitLevelAvgAggregateOutputType | null;
+    _sum: TakeProfitLevelSumAggregateOutputType | null;
+    _min: TakeProfitLevelMinAggregateOutputType | null;
+    _max: TakeProfitLevelMaxAggregateOutputType | null;
+};
+type GetTakeProfitLevelGroupByPayload<T extends TakeProfitLevelGroupByArgs> = Prisma.PrismaPromise<Array<Prisma.PickEnumerable<TakeProfitLevelGroupByOutputType, T['by']> & {
+    [P in keyof T & keyof TakeProfitLevelGroupByOutputType]: P extends '_count' ? T[P] extends boolean ? number : Prisma.GetScalarType<T[P], TakeProfitLevelGroupByOutputType[P]> : Prisma.GetScalarType<T[P], TakeProfitLevelGroupByOutputType[P]>;
+}>>;
+export type TakeProfitLevelWhereInput = {
+    AND?: Prisma.TakeProfitLevelWhereInput | Prisma.TakeProfitLevelWhereInput[];
+    OR?: Prisma.TakeProfitLevelWhereInput[];
+    NOT?: Prisma.TakeProfitLevelWhereInput | Prisma.TakeProfitLevelWhereInput[];
+    id?: Prisma.StringFilter<'TakeProfitLevel'> | string;
+    positionId?: Prisma.StringFilter<'TakeProfitLevel'> | string;
+    level?: Prisma.IntFilter<'TakeProfitLevel'> | number;
+    targetPrice?: Prisma.DecimalFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.DateTimeNullableFilter<'TakeProfitLevel'> | Date | string | null;
+    position?: Prisma.XOR<Prisma.PositionScalarRelationFilter, Prisma.PositionWhereInput>;
+};
+export type TakeProfitLevelOrderByWithRelationInput = {
+    id?: Prisma.SortOrder;
+    positionId?: Prisma.SortOrder;
+    level?: Prisma.SortOrder;
+    targetPrice?: Prisma.SortOrder;
+    sellFraction?: Prisma.SortOrder;
+    amount?: Prisma.SortOrder;
+    filledAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+    position?: Prisma.PositionOrderByWithRelationInput;
+};
+export type TakeProfitLevelWhereUniqueInput = Prisma.AtLeast<{
+    id?: string;
+    positionId_level?: Prisma.TakeProfitLevelPositionIdLevelCompoundUniqueInput;
+    AND?: Prisma.TakeProfitLevelWhereInput | Prisma.TakeProfitLevelWhereInput[];
+    OR?: Prisma.TakeProfitLevelWhereInput[];
+    NOT?: Prisma.TakeProfitLevelWhereInput | Prisma.TakeProfitLevelWhereInput[];
+    positionId?: Prisma.StringFilter<'TakeProfitLevel'> | string;
+    level?: Prisma.IntFilter<'TakeProfitLevel'> | number;
+    targetPrice?: Prisma.DecimalFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.DateTimeNullableFilter<'TakeProfitLevel'> | Date | string | null;
+    position?: Prisma.XOR<Prisma.PositionScalarRelationFilter, Prisma.PositionWhereInput>;
+}, 'id' | 'positionId_level'>;
+export type TakeProfitLevelOrderByWithAggregationInput = {
+    id?: Prisma.SortOrder;
+    positionId?: Prisma.SortOrder;
+    level?: Prisma.SortOrder;
+    targetPrice?: Prisma.SortOrder;
+    sellFraction?: Prisma.SortOrder;
+    amount?: Prisma.SortOrder;
+    filledAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+    _count?: Prisma.TakeProfitLevelCountOrderByAggregateInput;
+    _avg?: Prisma.TakeProfitLevelAvgOrderByAggregateInput;
+    _max?: Prisma.TakeProfitLevelMaxOrderByAggregateInput;
+    _min?: Prisma.TakeProfitLevelMinOrderByAggregateInput;
+    _sum?: Prisma.TakeProfitLevelSumOrderByAggregateInput;
+};
+export type TakeProfitLevelScalarWhereWithAggregatesInput = {
+    AND?: Prisma.TakeProfitLevelScalarWhereWithAggregatesInput | Prisma.TakeProfitLevelScalarWhereWithAggregatesInput[];
+    OR?: Prisma.TakeProfitLevelScalarWhereWithAggregatesInput[];
+    NOT?: Prisma.TakeProfitLevelScalarWhereWithAggregatesInput | Prisma.TakeProfitLevelScalarWhereWithAggregatesInput[];
+    id?: Prisma.StringWithAggregatesFilter<'TakeProfitLevel'> | string;
+    positionId?: Prisma.StringWithAggregatesFilter<'TakeProfitLevel'> | string;
+    level?: Prisma.IntWithAggregatesFilter<'TakeProfitLevel'> | number;
+    targetPrice?: Prisma.DecimalWithAggregatesFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalWithAggregatesFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalWithAggregatesFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.DateTimeNullableWithAggregatesFilter<'TakeProfitLevel'> | Date | string | null;
+};
+export type TakeProfitLevelCreateInput = {
+    id?: string;
+    level: number;
+    targetPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Date | string | null;
+    position: Prisma.PositionCreateNestedOneWithoutTakeProfitLevelsInput;
+};
+export type TakeProfitLevelUncheckedCreateInput = {
+    id?: string;
+    positionId: string;
+    level: number;
+    targetPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Date | string | null;
+};
+export type TakeProfitLevelUpdateInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    level?: Prisma.IntFieldUpdateOperationsInput | number;
+    targetPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    position?: Prisma.PositionUpdateOneRequiredWithoutTakeProfitLevelsNestedInput;
+};
+export type TakeProfitLevelUncheckedUpdateInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    positionId?: Prisma.StringFieldUpdateOperationsInput | string;
+    level?: Prisma.IntFieldUpdateOperationsInput | number;
+    targetPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type TakeProfitLevelCreateManyInput = {
+    id?: string;
+    positionId: string;
+    level: number;
+    targetPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Date | string | null;
+};
+export type TakeProfitLevelUpdateManyMutationInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    level?: Prisma.IntFieldUpdateOperationsInput | number;
+    targetPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type TakeProfitLevelUncheckedUpdateManyInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    positionId?: Prisma.StringFieldUpdateOperationsInput | string;
+    level?: Prisma.IntFieldUpdateOperationsInput | number;
+    targetPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type TakeProfitLevelListRelationFilter = {
+    every?: Prisma.TakeProfitLevelWhereInput;
+    some?: Prisma.TakeProfitLevelWhereInput;
+    none?: Prisma.TakeProfitLevelWhereInput;
+};
+export type TakeProfitLevelOrderByRelationAggregateInput = {
+    _count?: Prisma.SortOrder;
+};
+export type TakeProfitLevelPositionIdLevelCompoundUniqueInput = {
+    positionId: string;
+    level: number;
+};
+export type TakeProfitLevelCountOrderByAggregateInput = {
+    id?: Prisma.SortOrder;
+    positionId?: Prisma.SortOrder;
+    level?: Prisma.SortOrder;
+    targetPrice?: Prisma.SortOrder;
+    sellFraction?: Prisma.SortOrder;
+    amount?: Prisma.SortOrder;
+    filledAt?: Prisma.SortOrder;
+};
+export type TakeProfitLevelAvgOrderByAggregateInput = {
+    level?: Prisma.SortOrder;
+    targetPrice?: Prisma.SortOrder;
+    sellFraction?: Prisma.SortOrder;
+    amount?: Prisma.SortOrder;
+};
+export type TakeProfitLevelMaxOrderByAggregateInput = {
+    id?: Prisma.SortOrder;
+    positionId?: Prisma.SortOrder;
+    level?: Prisma.SortOrder;
+    targetPrice?: Prisma.SortOrder;
+    sellFraction?: Prisma.SortOrder;
+    amount?: Prisma.SortOrder;
+    filledAt?: Prisma.SortOrder;
+};
+export type TakeProfitLevelMinOrderByAggregateInput = {
+    id?: Prisma.SortOrder;
+    positionId?: Prisma.SortOrder;
+    level?: Prisma.SortOrder;
+    targetPrice?: Prisma.SortOrder;
+    sellFraction?: Prisma.SortOrder;
+    amount?: Prisma.SortOrder;
+    filledAt?: Prisma.SortOrder;
+};
+export type TakeProfitLevelSumOrderByAggregateInput = {
+    level?: Prisma.SortOrder;
+    targetPrice?: Prisma.SortOrder;
+    sellFraction?: Prisma.SortOrder;
+    amount?: Prisma.SortOrder;
+};
+export type TakeProfitLevelCreateNestedManyWithoutPositionInput = {
+    create?: Prisma.XOR<Prisma.TakeProfitLevelCreateWithoutPositionInput, Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput> | Prisma.TakeProfitLevelCreateWithoutPositionInput[] | Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput[];
+    connectOrCreate?: Prisma.TakeProfitLevelCreateOrConnectWithoutPositionInput | Prisma.TakeProfitLevelCreateOrConnectWithoutPositionInput[];
+    createMany?: Prisma.TakeProfitLevelCreateManyPositionInputEnvelope;
+    connect?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+};
+export type TakeProfitLevelUncheckedCreateNestedManyWithoutPositionInput = {
+    create?: Prisma.XOR<Prisma.TakeProfitLevelCreateWithoutPositionInput, Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput> | Prisma.TakeProfitLevelCreateWithoutPositionInput[] | Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput[];
+    connectOrCreate?: Prisma.TakeProfitLevelCreateOrConnectWithoutPositionInput | Prisma.TakeProfitLevelCreateOrConnectWithoutPositionInput[];
+    createMany?: Prisma.TakeProfitLevelCreateManyPositionInputEnvelope;
+    connect?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+};
+export type TakeProfitLevelUpdateManyWithoutPositionNestedInput = {
+    create?: Prisma.XOR<Prisma.TakeProfitLevelCreateWithoutPositionInput, Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput> | Prisma.TakeProfitLevelCreateWithoutPositionInput[] | Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput[];
+    connectOrCreate?: Prisma.TakeProfitLevelCreateOrConnectWithoutPositionInput | Prisma.TakeProfitLevelCreateOrConnectWithoutPositionInput[];
+    upsert?: Prisma.TakeProfitLevelUpsertWithWhereUniqueWithoutPositionInput | Prisma.TakeProfitLevelUpsertWithWhereUniqueWithoutPositionInput[];
+    createMany?: Prisma.TakeProfitLevelCreateManyPositionInputEnvelope;
+    set?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+    disconnect?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+    delete?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+    connect?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+    update?: Prisma.TakeProfitLevelUpdateWithWhereUniqueWithoutPositionInput | Prisma.TakeProfitLevelUpdateWithWhereUniqueWithoutPositionInput[];
+    updateMany?: Prisma.TakeProfitLevelUpdateManyWithWhereWithoutPositionInput | Prisma.TakeProfitLevelUpdateManyWithWhereWithoutPositionInput[];
+    deleteMany?: Prisma.TakeProfitLevelScalarWhereInput | Prisma.TakeProfitLevelScalarWhereInput[];
+};
+export type TakeProfitLevelUncheckedUpdateManyWithoutPositionNestedInput = {
+    create?: Prisma.XOR<Prisma.TakeProfitLevelCreateWithoutPositionInput, Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput> | Prisma.TakeProfitLevelCreateWithoutPositionInput[] | Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput[];
+    connectOrCreate?: Prisma.TakeProfitLevelCreateOrConnectWithoutPositionInput | Prisma.TakeProfitLevelCreateOrConnectWithoutPositionInput[];
+    upsert?: Prisma.TakeProfitLevelUpsertWithWhereUniqueWithoutPositionInput | Prisma.TakeProfitLevelUpsertWithWhereUniqueWithoutPositionInput[];
+    createMany?: Prisma.TakeProfitLevelCreateManyPositionInputEnvelope;
+    set?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+    disconnect?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+    delete?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+    connect?: Prisma.TakeProfitLevelWhereUniqueInput | Prisma.TakeProfitLevelWhereUniqueInput[];
+    update?: Prisma.TakeProfitLevelUpdateWithWhereUniqueWithoutPositionInput | Prisma.TakeProfitLevelUpdateWithWhereUniqueWithoutPositionInput[];
+    updateMany?: Prisma.TakeProfitLevelUpdateManyWithWhereWithoutPositionInput | Prisma.TakeProfitLevelUpdateManyWithWhereWithoutPositionInput[];
+    deleteMany?: Prisma.TakeProfitLevelScalarWhereInput | Prisma.TakeProfitLevelScalarWhereInput[];
+};
+export type IntFieldUpdateOperationsInput = {
+    set?: number;
+    increment?: number;
+    decrement?: number;
+    multiply?: number;
+    divide?: number;
+};
+export type TakeProfitLevelCreateWithoutPositionInput = {
+    id?: string;
+    level: number;
+    targetPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Date | string | null;
+};
+export type TakeProfitLevelUncheckedCreateWithoutPositionInput = {
+    id?: string;
+    level: number;
+    targetPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Date | string | null;
+};
+export type TakeProfitLevelCreateOrConnectWithoutPositionInput = {
+    where: Prisma.TakeProfitLevelWhereUniqueInput;
+    create: Prisma.XOR<Prisma.TakeProfitLevelCreateWithoutPositionInput, Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput>;
+};
+export type TakeProfitLevelCreateManyPositionInputEnvelope = {
+    data: Prisma.TakeProfitLevelCreateManyPositionInput | Prisma.TakeProfitLevelCreateManyPositionInput[];
+    skipDuplicates?: boolean;
+};
+export type TakeProfitLevelUpsertWithWhereUniqueWithoutPositionInput = {
+    where: Prisma.TakeProfitLevelWhereUniqueInput;
+    update: Prisma.XOR<Prisma.TakeProfitLevelUpdateWithoutPositionInput, Prisma.TakeProfitLevelUncheckedUpdateWithoutPositionInput>;
+    create: Prisma.XOR<Prisma.TakeProfitLevelCreateWithoutPositionInput, Prisma.TakeProfitLevelUncheckedCreateWithoutPositionInput>;
+};
+export type TakeProfitLevelUpdateWithWhereUniqueWithoutPositionInput = {
+    where: Prisma.TakeProfitLevelWhereUniqueInput;
+    data: Prisma.XOR<Prisma.TakeProfitLevelUpdateWithoutPositionInput, Prisma.TakeProfitLevelUncheckedUpdateWithoutPositionInput>;
+};
+export type TakeProfitLevelUpdateManyWithWhereWithoutPositionInput = {
+    where: Prisma.TakeProfitLevelScalarWhereInput;
+    data: Prisma.XOR<Prisma.TakeProfitLevelUpdateManyMutationInput, Prisma.TakeProfitLevelUncheckedUpdateManyWithoutPositionInput>;
+};
+export type TakeProfitLevelScalarWhereInput = {
+    AND?: Prisma.TakeProfitLevelScalarWhereInput | Prisma.TakeProfitLevelScalarWhereInput[];
+    OR?: Prisma.TakeProfitLevelScalarWhereInput[];
+    NOT?: Prisma.TakeProfitLevelScalarWhereInput | Prisma.TakeProfitLevelScalarWhereInput[];
+    id?: Prisma.StringFilter<'TakeProfitLevel'> | string;
+    positionId?: Prisma.StringFilter<'TakeProfitLevel'> | string;
+    level?: Prisma.IntFilter<'TakeProfitLevel'> | number;
+    targetPrice?: Prisma.DecimalFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFilter<'TakeProfitLevel'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.DateTimeNullableFilter<'TakeProfitLevel'> | Date | string | null;
+};
+export type TakeProfitLevelCreateManyPositionInput = {
+    id?: string;
+    level: number;
+    targetPrice: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Date | string | null;
+};
+export type TakeProfitLevelUpdateWithoutPositionInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    level?: Prisma.IntFieldUpdateOperationsInput | number;
+    targetPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type TakeProfitLevelUncheckedUpdateWithoutPositionInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    level?: Prisma.IntFieldUpdateOperationsInput | number;
+    targetPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type TakeProfitLevelUncheckedUpdateManyWithoutPositionInput = {
+    id?: Prisma.StringFieldUpdateOperationsInput | string;
+    level?: Prisma.IntFieldUpdateOperationsInput | number;
+    targetPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    sellFraction?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    filledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+};
+export type TakeProfitLevelSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+    id?: boolean;
+    positionId?: boolean;
+    level?: boolean;
+    targetPrice?: boolean;
+    sellFraction?: boolean;
+    amount?: boolean;
+    filledAt?: boolean;
+    position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
+}, ExtArgs['result']['takeProfitLevel']>;
+export type TakeProfitLevelSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+    id?: boolean;
+    positionId?: boolean;
+    level?: boolean;
+    targetPrice?: boolean;
+    sellFraction?: boolean;
+    amount?: boolean;
+    filledAt?: boolean;
+    position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
+}, ExtArgs['result']['takeProfitLevel']>;
+export type TakeProfitLevelSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+    id?: boolean;
+    positionId?: boolean;
+    level?: boolean;
+    targetPrice?: boolean;
+    sellFraction?: boolean;
+    amount?: boolean;
+    filledAt?: boolean;
+    position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
+}, ExtArgs['result']['takeProfitLevel']>;
+export type TakeProfitLevelSelectScalar = {
+    id?: boolean;
+    positionId?: boolean;
+    level?: boolean;
+    targetPrice?: boolean;
+    sellFraction?: boolean;
+    amount?: boolean;
+    filledAt?: boolean;
+};
+export type TakeProfitLevelOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'positionId' | 'level' | 'targetPrice' | 'sellFraction' | 'amount' | 'filledAt', ExtArgs['result']['takeProfitLevel']>;
+export type TakeProfitLevelInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
+};
+export type TakeProfitLevelIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
+};
+export type TakeProfitLevelIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
+};
+export type $TakeProfitLevelPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    name: 'TakeProfitLevel';
+    objects: {
+        position: Prisma.$PositionPayload<ExtArgs>;
+    };
+    scalars: runtime.Types.Extensions.GetPayloadResult<{
+        id: string;
+        positionId: string;
+        level: number;
+        targetPrice: runtime.Decimal;
+        sellFraction: runtime.Decimal;
+        amount: runtime.Decimal;
+        filledAt: Date | null;
+    }, ExtArgs['result']['takeProfitLevel']>;
+    composites: {};
+};
+export type TakeProfitLevelGetPayload<S extends boolean | null | undefined | TakeProfitLevelDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload, S>;
+export type TakeProfitLevelCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = Omit<TakeProfitLevelFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TakeProfitLevelCountAggregateInputType | true;
+};
+export interface TakeProfitLevelDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: {
+        types: Prisma.TypeMap<ExtArgs>['model']['TakeProfitLevel'];
+        meta: {
+            name: 'TakeProfitLevel';
+        };
+    };
+    /**
+     * Find zero or one TakeProfitLevel that matches the filter.
+     * @param {TakeProfitLevelFindUniqueArgs} args - Arguments to find a TakeProfitLevel
+     * @example
+     * // Get one TakeProfitLevel
+     * const takeProfitLevel = await prisma.takeProfitLevel.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends TakeProfitLevelFindUniqueArgs>(args: Prisma.SelectSubset<T, TakeProfitLevelFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TakeProfitLevelClient<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'findUnique', GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find one TakeProfitLevel that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {TakeProfitLevelFindUniqueOrThrowArgs} args - Arguments to find a TakeProfitLevel
+     * @example
+     * // Get one TakeProfitLevel
+     * const takeProfitLevel = await prisma.takeProfitLevel.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends TakeProfitLevelFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TakeProfitLevelFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TakeProfitLevelClient<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'findUniqueOrThrow', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find the first TakeProfitLevel that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TakeProfitLevelFindFirstArgs} args - Arguments to find a TakeProfitLevel
+     * @example
+     * // Get one TakeProfitLevel
+     * const takeProfitLevel = await prisma.takeProfitLevel.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends TakeProfitLevelFindFirstArgs>(args?: Prisma.SelectSubset<T, TakeProfitLevelFindFirstArgs<ExtArgs>>): Prisma.Prisma__TakeProfitLevelClient<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'findFirst', GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find the first TakeProfitLevel that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TakeProfitLevelFindFirstOrThrowArgs} args - Arguments to find a TakeProfitLevel
+     * @example
+     * // Get one TakeProfitLevel
+     * const takeProfitLevel = await prisma.takeProfitLevel.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends TakeProfitLevelFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TakeProfitLevelFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TakeProfitLevelClient<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'findFirstOrThrow', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Find zero or more TakeProfitLevels that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TakeProfitLevelFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all TakeProfitLevels
+     * const takeProfitLevels = await prisma.takeProfitLevel.findMany()
+     *
+     * // Get first 10 TakeProfitLevels
+     * const takeProfitLevels = await prisma.takeProfitLevel.findMany({ take: 10 })
+     *
+     * // Only select the `id`
+     * const takeProfitLevelWithIdOnly = await prisma.takeProfitLevel.findMany({ select: { id: true } })
+     *
+     */
+    findMany<T extends TakeProfitLevelFindManyArgs>(args?: Prisma.SelectSubset<T, TakeProfitLevelFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'findMany', GlobalOmitOptions>>;
+    /**
+     * Create a TakeProfitLevel.
+     * @param {TakeProfitLevelCreateArgs} args - Arguments to create a TakeProfitLevel.
+     * @example
+     * // Create one TakeProfitLevel
+     * const TakeProfitLevel = await prisma.takeProfitLevel.create({
+     *   data: {
+     *     // ... data to create a TakeProfitLevel
+     *   }
+     * })
+     *
+     */
+    create<T extends TakeProfitLevelCreateArgs>(args: Prisma.SelectSubset<T, TakeProfitLevelCreateArgs<ExtArgs>>): Prisma.Prisma__TakeProfitLevelClient<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'create', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Create many TakeProfitLevels.
+     * @param {TakeProfitLevelCreateManyArgs} args - Arguments to create many TakeProfitLevels.
+     * @example
+     * // Create many TakeProfitLevels
+     * const takeProfitLevel = await prisma.takeProfitLevel.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     */
+    createMany<T extends TakeProfitLevelCreateManyArgs>(args?: Prisma.SelectSubset<T, TakeProfitLevelCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>;
+    /**
+     * Create many TakeProfitLevels and returns the data saved in the database.
+     * @param {TakeProfitLevelCreateManyAndReturnArgs} args - Arguments to create many TakeProfitLevels.
+     * @example
+     * // Create many TakeProfitLevels
+     * const takeProfitLevel = await prisma.takeProfitLevel.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     * // Create many TakeProfitLevels and only return the `id`
+     * const takeProfitLevelWithIdOnly = await prisma.takeProfitLevel.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     *
+     */
+    createManyAndReturn<T extends TakeProfitLevelCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TakeProfitLevelCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'createManyAndReturn', GlobalOmitOptions>>;
+    /**
+     * Delete a TakeProfitLevel.
+     * @param {TakeProfitLevelDeleteArgs} args - Arguments to delete one TakeProfitLevel.
+     * @example
+     * // Delete one TakeProfitLevel
+     * const TakeProfitLevel = await prisma.takeProfitLevel.delete({
+     *   where: {
+     *     // ... filter to delete one TakeProfitLevel
+     *   }
+     * })
+     *
+     */
+    delete<T extends TakeProfitLevelDeleteArgs>(args: Prisma.SelectSubset<T, TakeProfitLevelDeleteArgs<ExtArgs>>): Prisma.Prisma__TakeProfitLevelClient<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'delete', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Update one TakeProfitLevel.
+     * @param {TakeProfitLevelUpdateArgs} args - Arguments to update one TakeProfitLevel.
+     * @example
+     * // Update one TakeProfitLevel
+     * const takeProfitLevel = await prisma.takeProfitLevel.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     *
+     */
+    update<T extends TakeProfitLevelUpdateArgs>(args: Prisma.SelectSubset<T, TakeProfitLevelUpdateArgs<ExtArgs>>): Prisma.Prisma__TakeProfitLevelClient<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'update', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Delete zero or more TakeProfitLevels.
+     * @param {TakeProfitLevelDeleteManyArgs} args - Arguments to filter TakeProfitLevels to delete.
+     * @example
+     * // Delete a few TakeProfitLevels
+     * const { count } = await prisma.takeProfitLevel.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     *
+     */
+    deleteMany<T extends TakeProfitLevelDeleteManyArgs>(args?: Prisma.SelectSubset<T, TakeProfitLevelDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>;
+    /**
+     * Update zero or more TakeProfitLevels.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TakeProfitLevelUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many TakeProfitLevels
+     * const takeProfitLevel = await prisma.takeProfitLevel.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     *
+     */
+    updateMany<T extends TakeProfitLevelUpdateManyArgs>(args: Prisma.SelectSubset<T, TakeProfitLevelUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>;
+    /**
+     * Update zero or more TakeProfitLevels and returns the data updated in the database.
+     * @param {TakeProfitLevelUpdateManyAndReturnArgs} args - Arguments to update many TakeProfitLevels.
+     * @example
+     * // Update many TakeProfitLevels
+     * const takeProfitLevel = await prisma.takeProfitLevel.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     * // Update zero or more TakeProfitLevels and only return the `id`
+     * const takeProfitLevelWithIdOnly = await prisma.takeProfitLevel.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     *
+     */
+    updateManyAndReturn<T extends TakeProfitLevelUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TakeProfitLevelUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'updateManyAndReturn', GlobalOmitOptions>>;
+    /**
+     * Create or update one TakeProfitLevel.
+     * @param {TakeProfitLevelUpsertArgs} args - Arguments to update or create a TakeProfitLevel.
+     * @example
+     * // Update or create a TakeProfitLevel
+     * const takeProfitLevel = await prisma.takeProfitLevel.upsert({
+     *   create: {
+     *     // ... data to create a TakeProfitLevel
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the TakeProfitLevel we want to update
+     *   }
+     * })
+     */
+    upsert<T extends TakeProfitLevelUpsertArgs>(args: Prisma.SelectSubset<T, TakeProfitLevelUpsertArgs<ExtArgs>>): Prisma.Prisma__TakeProfitLevelClient<runtime.Types.Result.GetResult<Prisma.$TakeProfitLevelPayload<ExtArgs>, T, 'upsert', GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Count the number of TakeProfitLevels.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TakeProfitLevelCountArgs} args - Arguments to filter TakeProfitLevels to count.
+     * @example
+     * // Count the number of TakeProfitLevels
+     * const count = await prisma.takeProfitLevel.count({
+     *   where: {
+     *     // ... the filter for the TakeProfitLevels we want to count
+     *   }
+     * })
+     **/
+    count<T extends TakeProfitLevelCountArgs>(args?: Prisma.Subset<T, TakeProfitLevelCountArgs>): Prisma.PrismaPromise<T extends runtime.Types.Utils.Record<'select', any> ? T['select'] extends true ? number : Prisma.GetScalarType<T['select'], TakeProfitLevelCountAggregateOutputType> : number>;
+    /**
+     * Allows you to perform aggregations operations on a TakeProfitLevel.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TakeProfitLevelAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+     **/
+    aggregate<T extends TakeProfitLevelAggregateArgs>(args: Prisma.Subset<T, TakeProfitLevelAggregateArgs>): Prisma.PrismaPromise<GetTakeProfitLevelAggregateType<T>>;
+    /**
+     * Group by TakeProfitLevel.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TakeProfitLevelGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     *
+     **/
+    groupBy<T extends TakeProfitLevelGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<T>>, Prisma.Extends<'take', Prisma.Keys<T>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? {
+        orderBy: TakeProfitLevelGroupByArgs['orderBy'];
+    } : {
+        orderBy?: TakeProfitLevelGroupByArgs['orderBy'];
+    }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<T['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<T['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True ? `Error: "by" must not be empty.` : HavingValid extends Prisma.False ? {
+        [P in HavingFields]: P extends ByFields ? never : P extends string ? `Error: Field "${P}" used in "having" needs to be provided in "by".` : [Error, 'Field ', P, ` in "having" needs to be provided in "by"`];
+    }[HavingFields] : 'take' extends Prisma.Keys<T> ? 'orderBy' extends Prisma.Keys<T> ? ByValid extends Prisma.True ? {} : {
+        [P in OrderFields]: P extends ByFields ? never : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+    }[OrderFields] : 'Error: If you provide "take", you also need to provide "orderBy"' : 'skip' extends Prisma.Keys<T> ? 'orderBy' extends Prisma.Keys<T> ? ByValid extends Prisma.True ? {} : {
+        [P in OrderFields]: P extends ByFields ? never : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+    }[OrderFields] : 'Error: If you provide "skip", you also need to provide "orderBy"' : ByValid extends Prisma.True ? {} : {
+        [P in OrderFields]: P extends ByFields ? never : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+    }[OrderFields]>(args: Prisma.SubsetIntersection<T, TakeProfitLevelGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTakeProfitLevelGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+    /**
+     * Fields of the TakeProfitLevel model
+     */
+    readonly fields: TakeProfitLevelFieldRefs;
+}
+/**
+ * The delegate class that acts as a "Promise-like" for TakeProfitLevel.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TakeProfitLevelClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: 'PrismaPromise';
+    position<T extends Prisma.PositionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PositionDefaultArgs<ExtArgs>>): Prisma.Prisma__PositionClient<runtime.Types.Result.GetResult<Prisma.$PositionPayload<ExtArgs>, T, 'findUniqueOrThrow', GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>;
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>;
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+/**
+ * Fields of the TakeProfitLevel model
+ */
+export interface TakeProfitLevelFieldRefs {
+    readonly id: Prisma.FieldRef<'TakeProfitLevel', 'String'>;
+    readonly positionId: Prisma.FieldRef<'TakeProfitLevel', 'String'>;
+    readonly level: Prisma.FieldRef<'TakeProfitLevel', 'Int'>;
+    readonly targetPrice: Prisma.FieldRef<'TakeProfitLevel', 'Decimal'>;
+    readonly sellFraction: Prisma.FieldRef<'TakeProfitLevel', 'Decimal'>;
+    readonly amount: Prisma.FieldRef<'TakeProfitLevel', 'Decimal'>;
+    readonly filledAt: Prisma.FieldRef<'TakeProfitLevel', 'DateTime'>;
+}
+/**
+ * TakeProfitLevel findUnique
+ */
+export type TakeProfitLevelFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    /**
+     * Filter, which TakeProfitLevel to fetch.
+     */
+    where: Prisma.TakeProfitLevelWhereUniqueInput;
+};
+/**
+ * TakeProfitLevel findUniqueOrThrow
+ */
+export type TakeProfitLevelFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    /**
+     * Filter, which TakeProfitLevel to fetch.
+     */
+    where: Prisma.TakeProfitLevelWhereUniqueInput;
+};
+/**
+ * TakeProfitLevel findFirst
+ */
+export type TakeProfitLevelFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    /**
+     * Filter, which TakeProfitLevel to fetch.
+     */
+    where?: Prisma.TakeProfitLevelWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of TakeProfitLevels to fetch.
+     */
+    orderBy?: Prisma.TakeProfitLevelOrderByWithRelationInput | Prisma.TakeProfitLevelOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for searching for TakeProfitLevels.
+     */
+    cursor?: Prisma.TakeProfitLevelWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` TakeProfitLevels from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` TakeProfitLevels.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     *
+     * Filter by unique combinations of TakeProfitLevels.
+     */
+    distinct?: Prisma.TakeProfitLevelScalarFieldEnum | Prisma.TakeProfitLevelScalarFieldEnum[];
+};
+/**
+ * TakeProfitLevel findFirstOrThrow
+ */
+export type TakeProfitLevelFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    /**
+     * Filter, which TakeProfitLevel to fetch.
+     */
+    where?: Prisma.TakeProfitLevelWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of TakeProfitLevels to fetch.
+     */
+    orderBy?: Prisma.TakeProfitLevelOrderByWithRelationInput | Prisma.TakeProfitLevelOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for searching for TakeProfitLevels.
+     */
+    cursor?: Prisma.TakeProfitLevelWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` TakeProfitLevels from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` TakeProfitLevels.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     *
+     * Filter by unique combinations of TakeProfitLevels.
+     */
+    distinct?: Prisma.TakeProfitLevelScalarFieldEnum | Prisma.TakeProfitLevelScalarFieldEnum[];
+};
+/**
+ * TakeProfitLevel findMany
+ */
+export type TakeProfitLevelFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    /**
+     * Filter, which TakeProfitLevels to fetch.
+     */
+    where?: Prisma.TakeProfitLevelWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of TakeProfitLevels to fetch.
+     */
+    orderBy?: Prisma.TakeProfitLevelOrderByWithRelationInput | Prisma.TakeProfitLevelOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for listing TakeProfitLevels.
+     */
+    cursor?: Prisma.TakeProfitLevelWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` TakeProfitLevels from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` TakeProfitLevels.
+     */
+    skip?: number;
+    distinct?: Prisma.TakeProfitLevelScalarFieldEnum | Prisma.TakeProfitLevelScalarFieldEnum[];
+};
+/**
+ * TakeProfitLevel create
+ */
+export type TakeProfitLevelCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    /**
+     * The data needed to create a TakeProfitLevel.
+     */
+    data: Prisma.XOR<Prisma.TakeProfitLevelCreateInput, Prisma.TakeProfitLevelUncheckedCreateInput>;
+};
+/**
+ * TakeProfitLevel createMany
+ */
+export type TakeProfitLevelCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many TakeProfitLevels.
+     */
+    data: Prisma.TakeProfitLevelCreateManyInput | Prisma.TakeProfitLevelCreateManyInput[];
+    skipDuplicates?: boolean;
+};
+/**
+ * TakeProfitLevel createManyAndReturn
+ */
+export type TakeProfitLevelCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelectCreateManyAndReturn<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * The data used to create many TakeProfitLevels.
+     */
+    data: Prisma.TakeProfitLevelCreateManyInput | Prisma.TakeProfitLevelCreateManyInput[];
+    skipDuplicates?: boolean;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+/**
+ * TakeProfitLevel update
+ */
+export type TakeProfitLevelUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    /**
+     * The data needed to update a TakeProfitLevel.
+     */
+    data: Prisma.XOR<Prisma.TakeProfitLevelUpdateInput, Prisma.TakeProfitLevelUncheckedUpdateInput>;
+    /**
+     * Choose, which TakeProfitLevel to update.
+     */
+    where: Prisma.TakeProfitLevelWhereUniqueInput;
+};
+/**
+ * TakeProfitLevel updateMany
+ */
+export type TakeProfitLevelUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * The data used to update TakeProfitLevels.
+     */
+    data: Prisma.XOR<Prisma.TakeProfitLevelUpdateManyMutationInput, Prisma.TakeProfitLevelUncheckedUpdateManyInput>;
+    /**
+     * Filter which TakeProfitLevels to update
+     */
+    where?: Prisma.TakeProfitLevelWhereInput;
+    /**
+     * Limit how many TakeProfitLevels to update.
+     */
+    limit?: number;
+};
+/**
+ * TakeProfitLevel updateManyAndReturn
+ */
+export type TakeProfitLevelUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelectUpdateManyAndReturn<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * The data used to update TakeProfitLevels.
+     */
+    data: Prisma.XOR<Prisma.TakeProfitLevelUpdateManyMutationInput, Prisma.TakeProfitLevelUncheckedUpdateManyInput>;
+    /**
+     * Filter which TakeProfitLevels to update
+     */
+    where?: Prisma.TakeProfitLevelWhereInput;
+    /**
+     * Limit how many TakeProfitLevels to update.
+     */
+    limit?: number;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+/**
+ * TakeProfitLevel upsert
+ */
+export type TakeProfitLevelUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    /**
+     * The filter to search for the TakeProfitLevel to update in case it exists.
+     */
+    where: Prisma.TakeProfitLevelWhereUniqueInput;
+    /**
+     * In case the TakeProfitLevel found by the `where` argument doesn't exist, create a new TakeProfitLevel with this data.
+     */
+    create: Prisma.XOR<Prisma.TakeProfitLevelCreateInput, Prisma.TakeProfitLevelUncheckedCreateInput>;
+    /**
+     * In case the TakeProfitLevel was found with the provided `where` argument, update it with this data.
+     */
+    update: Prisma.XOR<Prisma.TakeProfitLevelUpdateInput, Prisma.TakeProfitLevelUncheckedUpdateInput>;
+};
+/**
+ * TakeProfitLevel delete
+ */
+export type TakeProfitLevelDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+    /**
+     * Filter which TakeProfitLevel to delete.
+     */
+    where: Prisma.TakeProfitLevelWhereUniqueInput;
+};
+/**
+ * TakeProfitLevel deleteMany
+ */
+export type TakeProfitLevelDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Filter which TakeProfitLevels to delete
+     */
+    where?: Prisma.TakeProfitLevelWhereInput;
+    /**
+     * Limit how many TakeProfitLevels to delete.
+     */
+    limit?: number;
+};
+/**
+ * TakeProfitLevel without action
+ */
+export type TakeProfitLevelDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TakeProfitLevel
+     */
+    select?: Prisma.TakeProfitLevelSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the TakeProfitLevel
+     */
+    omit?: Prisma.TakeProfitLevelOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: Prisma.TakeProfitLevelInclude<ExtArgs> | null;
+};
+export {};
+//# sourceMappingURL=TakeProfitLevel.d.ts.map
\ No newline at end of file
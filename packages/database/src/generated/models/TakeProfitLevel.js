@@ -0,0 +1,2 @@
+export {};
+//# sourceMappingURL=TakeProfitLevel.js.map
\ No newline at end of file
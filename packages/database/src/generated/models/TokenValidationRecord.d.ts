@@ -22,6 +22,7 @@ export type TokenValidationRecordSumAggregateOutputType = {
 };
 export type TokenValidationRecordMinAggregateOutputType = {
     id: string | null;
+    eventId: string | null;
     token: string | null;
     isRenounced: boolean | null;
     isBurned: boolean | null;
@@ -33,6 +34,7 @@ export type TokenValidationRecordMinAggregateOutputType = {
 };
 export type TokenValidationRecordMaxAggregateOutputType = {
     id: string | null;
+    eventId: string | null;
     token: string | null;
     isRenounced: boolean | null;
     isBurned: boolean | null;
@@ -44,6 +46,7 @@ export type TokenValidationRecordMaxAggregateOutputType = {
 };
 export type TokenValidationRecordCountAggregateOutputType = {
     id: number;
+    eventId: number;
     token: number;
     isRenounced: number;
     isBurned: number;
@@ -65,6 +68,7 @@ export type TokenValidationRecordSumAggregateInputType = {
 };
 export type TokenValidationRecordMinAggregateInputType = {
     id?: true;
+    eventId?: true;
     token?: true;
     isRenounced?: true;
     isBurned?: true;
@@ -76,6 +80,7 @@ export type TokenValidationRecordMinAggregateInputType = {
 };
 export type TokenValidationRecordMaxAggregateInputType = {
     id?: true;
+    eventId?: true;
     token?: true;
     isRenounced?: true;
     isBurned?: true;
@@ -87,6 +92,7 @@ export type TokenValidationRecordMaxAggregateInputType = {
 };
 export type TokenValidationRecordCountAggregateInputType = {
     id?: true;
+    eventId?: true;
     token?: true;
     isRenounced?: true;
     isBurned?: true;
@@ -176,6 +182,7 @@ export type TokenValidationRecordGroupByArgs<ExtArgs extends runtime.Types.Exten
 };
 export type TokenValidationRecordGroupByOutputType = {
     id: string;
+    eventId: string | null;
     token: string;
     isRenounced: boolean | null;
     isBurned: boolean | null;
@@ -199,6 +206,7 @@ export type TokenValidationRecordWhereInput = {
     OR?: Prisma.TokenValidationRecordWhereInput[];
     NOT?: Prisma.TokenValidationRecordWhereInput | Prisma.TokenValidationRecordWhereInput[];
     id?: Prisma.StringFilter<'TokenValidationRecord'> | string;
+    eventId?: Prisma.StringNullableFilter<'TokenValidationRecord'> | string | null;
     token?: Prisma.StringFilter<'TokenValidationRecord'> | string;
     isRenounced?: Prisma.BoolNullableFilter<'TokenValidationRecord'> | boolean | null;
     isBurned?: Prisma.BoolNullableFilter<'TokenValidationRecord'> | boolean | null;
@@ -211,6 +219,7 @@ export type TokenValidationRecordWhereInput = {
 };
 export type TokenValidationRecordOrderByWithRelationInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrderInput | Prisma.SortOrder;
     token?: Prisma.SortOrder;
     isRenounced?: Prisma.SortOrderInput | Prisma.SortOrder;
     isBurned?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -223,6 +232,7 @@ export type TokenValidationRecordOrderByWithRelationInput = {
 };
 export type TokenValidationRecordWhereUniqueInput = Prisma.AtLeast<{
     id?: string;
+    eventId?: string;
     AND?: Prisma.TokenValidationRecordWhereInput | Prisma.TokenValidationRecordWhereInput[];
     OR?: Prisma.TokenValidationRecordWhereInput[];
     NOT?: Prisma.TokenValidationRecordWhereInput | Prisma.TokenValidationRecordWhereInput[];
@@ -235,9 +245,10 @@ export type TokenValidationRecordWhereUniqueInput = Prisma.AtLeast<{
     validatedAt?: Prisma.DateTimeFilter<'TokenValidationRecord'> | Date | string;
     txSignature?: Prisma.StringNullableFilter<'TokenValidationRecord'> | string | null;
     validationDetails?: Prisma.JsonNullableFilter<'TokenValidationRecord'>;
-}, 'id'>;
+}, 'id' | 'eventId'>;
 export type TokenValidationRecordOrderByWithAggregationInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrderInput | Prisma.SortOrder;
     token?: Prisma.SortOrder;
     isRenounced?: Prisma.SortOrderInput | Prisma.SortOrder;
     isBurned?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -258,6 +269,7 @@ export type TokenValidationRecordScalarWhereWithAggregatesInput = {
     OR?: Prisma.TokenValidationRecordScalarWhereWithAggregatesInput[];
     NOT?: Prisma.TokenValidationRecordScalarWhereWithAggregatesInput | Prisma.TokenValidationRecordScalarWhereWithAggregatesInput[];
     id?: Prisma.StringWithAggregatesFilter<'TokenValidationRecord'> | string;
+    eventId?: Prisma.StringNullableWithAggregatesFilter<'TokenValidationRecord'> | string | null;
     token?: Prisma.StringWithAggregatesFilter<'TokenValidationRecord'> | string;
     isRenounced?: Prisma.BoolNullableWithAggregatesFilter<'TokenValidationRecord'> | boolean | null;
     isBurned?: Prisma.BoolNullableWithAggregatesFilter<'TokenValidationRecord'> | boolean | null;
@@ -270,6 +282,7 @@ export type TokenValidationRecordScalarWhereWithAggregatesInput = {
 };
 export type TokenValidationRecordCreateInput = {
     id?: string;
+    eventId?: string | null;
     token: string;
     isRenounced?: boolean | null;
     isBurned?: boolean | null;
@@ -282,6 +295,7 @@ export type TokenValidationRecordCreateInput = {
 };
 export type TokenValidationRecordUncheckedCreateInput = {
     id?: string;
+    eventId?: string | null;
     token: string;
     isRenounced?: boolean | null;
     isBurned?: boolean | null;
@@ -294,6 +308,7 @@ export type TokenValidationRecordUncheckedCreateInput = {
 };
 export type TokenValidationRecordUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
+    eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     token?: Prisma.StringFieldUpdateOperationsInput | string;
     isRenounced?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
     isBurned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
@@ -306,6 +321,7 @@ export type TokenValidationRecordUpdateInput = {
 };
 export type TokenValidationRecordUncheckedUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
+    eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     token?: Prisma.StringFieldUpdateOperationsInput | string;
     isRenounced?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
     isBurned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
@@ -318,6 +334,7 @@ export type TokenValidationRecordUncheckedUpdateInput = {
 };
 export type TokenValidationRecordCreateManyInput = {
     id?: string;
+    eventId?: string | null;
     token: string;
     isRenounced?: boolean | null;
     isBurned?: boolean | null;
@@ -330,6 +347,7 @@ export type TokenValidationRecordCreateManyInput = {
 };
 export type TokenValidationRecordUpdateManyMutationInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
+    eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     token?: Prisma.StringFieldUpdateOperationsInput | string;
     isRenounced?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
     isBurned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
@@ -342,6 +360,7 @@ export type TokenValidationRecordUpdateManyMutationInput = {
 };
 export type TokenValidationRecordUncheckedUpdateManyInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
+    eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
     token?: Prisma.StringFieldUpdateOperationsInput | string;
     isRenounced?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
     isBurned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
@@ -354,6 +373,7 @@ export type TokenValidationRecordUncheckedUpdateManyInput = {
 };
 export type TokenValidationRecordCountOrderByAggregateInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrder;
     token?: Prisma.SortOrder;
     isRenounced?: Prisma.SortOrder;
     isBurned?: Prisma.SortOrder;
@@ -370,6 +390,7 @@ export type TokenValidationRecordAvgOrderByAggregateInput = {
 };
 export type TokenValidationRecordMaxOrderByAggregateInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrder;
     token?: Prisma.SortOrder;
     isRenounced?: Prisma.SortOrder;
     isBurned?: Prisma.SortOrder;
@@ -381,6 +402,7 @@ export type TokenValidationRecordMaxOrderByAggregateInput = {
 };
 export type TokenValidationRecordMinOrderByAggregateInput = {
     id?: Prisma.SortOrder;
+    eventId?: Prisma.SortOrder;
     token?: Prisma.SortOrder;
     isRenounced?: Prisma.SortOrder;
     isBurned?: Prisma.SortOrder;
@@ -406,6 +428,7 @@ export type NullableIntFieldUpdateOperationsInput = {
 };
 export type TokenValidationRecordSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     isRenounced?: boolean;
     isBurned?: boolean;
@@ -418,6 +441,7 @@ export type TokenValidationRecordSelect<ExtArgs extends runtime.Types.Extensions
 }, ExtArgs['result']['tokenValidationRecord']>;
 export type TokenValidationRecordSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     isRenounced?: boolean;
     isBurned?: boolean;
@@ -430,6 +454,7 @@ export type TokenValidationRecordSelectCreateManyAndReturn<ExtArgs extends runti
 }, ExtArgs['result']['tokenValidationRecord']>;
 export type TokenValidationRecordSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     isRenounced?: boolean;
     isBurned?: boolean;
@@ -442,6 +467,7 @@ export type TokenValidationRecordSelectUpdateManyAndReturn<ExtArgs extends runti
 }, ExtArgs['result']['tokenValidationRecord']>;
 export type TokenValidationRecordSelectScalar = {
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     isRenounced?: boolean;
     isBurned?: boolean;
@@ -452,12 +478,13 @@ export type TokenValidationRecordSelectScalar = {
     txSignature?: boolean;
     validationDetails?: boolean;
 };
-export type TokenValidationRecordOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'token' | 'isRenounced' | 'isBurned' | 'isLocked' | 'lpBurnedCount' | 'confidence' | 'validatedAt' | 'txSignature' | 'validationDetails', ExtArgs['result']['tokenValidationRecord']>;
+export type TokenValidationRecordOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'eventId' | 'token' | 'isRenounced' | 'isBurned' | 'isLocked' | 'lpBurnedCount' | 'confidence' | 'validatedAt' | 'txSignature' | 'validationDetails', ExtArgs['result']['tokenValidationRecord']>;
 export type $TokenValidationRecordPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
     name: 'TokenValidationRecord';
     objects: {};
     scalars: runtime.Types.Extensions.GetPayloadResult<{
         id: string;
+        eventId: string | null;
         token: string;
         isRenounced: boolean | null;
         isBurned: boolean | null;
@@ -817,6 +844,7 @@ export interface Prisma__TokenValidationRecordClient<T, Null = never, ExtArgs ex
  */
 export interface TokenValidationRecordFieldRefs {
     readonly id: Prisma.FieldRef<'TokenValidationRecord', 'String'>;
+    readonly eventId: Prisma.FieldRef<'TokenValidationRecord', 'String'>;
     readonly token: Prisma.FieldRef<'TokenValidationRecord', 'String'>;
     readonly isRenounced: Prisma.FieldRef<'TokenValidationRecord', 'Boolean'>;
     readonly isBurned: Prisma.FieldRef<'TokenValidationRecord', 'Boolean'>;
@@ -38,6 +38,7 @@ export type TokenValidationRecordSumAggregateOutputType = {
 
 export type TokenValidationRecordMinAggregateOutputType = {
   id: string | null;
+  eventId: string | null;
   token: string | null;
   isRenounced: boolean | null;
   isBurned: boolean | null;
@@ -50,6 +51,7 @@ export type TokenValidationRecordMinAggregateOutputType = {
 
 export type TokenValidationRecordMaxAggregateOutputType = {
   id: string | null;
+  eventId: string | null;
   token: string | null;
   isRenounced: boolean | null;
   isBurned: boolean | null;
@@ -62,6 +64,7 @@ export type TokenValidationRecordMaxAggregateOutputType = {
 
 export type TokenValidationRecordCountAggregateOutputType = {
   id: number;
+  eventId: number;
   token: number;
   isRenounced: number;
   isBurned: number;
@@ -86,6 +89,7 @@ export type TokenValidationRecordSumAggregateInputType = {
 
 export type TokenValidationRecordMinAggregateInputType = {
   id?: true;
+  eventId?: true;
   token?: true;
   isRenounced?: true;
   isBurned?: true;
@@ -98,6 +102,7 @@ export type TokenValidationRecordMinAggregateInputType = {
 
 export type TokenValidationRecordMaxAggregateInputType = {
   id?: true;
+  eventId?: true;
   token?: true;
   isRenounced?: true;
   isBurned?: true;
@@ -110,6 +115,7 @@ export type TokenValidationRecordMaxAggregateInputType = {
 
 export type TokenValidationRecordCountAggregateInputType = {
   id?: true;
+  eventId?: true;
   token?: true;
   isRenounced?: true;
   isBurned?: true;
@@ -215,6 +221,7 @@ export type TokenValidationRecordGroupByArgs<
 
 export type TokenValidationRecordGroupByOutputType = {
   id: string;
+  eventId: string | null;
   token: string;
   isRenounced: boolean | null;
   isBurned: boolean | null;
@@ -249,6 +256,7 @@ export type TokenValidationRecordWhereInput = {
   OR?: Prisma.TokenValidationRecordWhereInput[];
   NOT?: Prisma.TokenValidationRecordWhereInput | Prisma.TokenValidationRecordWhereInput[];
   id?: Prisma.StringFilter<'TokenValidationRecord'> | string;
+  eventId?: Prisma.StringNullableFilter<'TokenValidationRecord'> | string | null;
   token?: Prisma.StringFilter<'TokenValidationRecord'> | string;
   isRenounced?: Prisma.BoolNullableFilter<'TokenValidationRecord'> | boolean | null;
   isBurned?: Prisma.BoolNullableFilter<'TokenValidationRecord'> | boolean | null;
@@ -267,6 +275,7 @@ export type TokenValidationRecordWhereInput = {
 
 export type TokenValidationRecordOrderByWithRelationInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrderInput | Prisma.SortOrder;
   token?: Prisma.SortOrder;
   isRenounced?: Prisma.SortOrderInput | Prisma.SortOrder;
   isBurned?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -281,6 +290,7 @@ export type TokenValidationRecordOrderByWithRelationInput = {
 export type TokenValidationRecordWhereUniqueInput = Prisma.AtLeast<
   {
     id?: string;
+    eventId?: string;
     AND?: Prisma.TokenValidationRecordWhereInput | Prisma.TokenValidationRecordWhereInput[];
     OR?: Prisma.TokenValidationRecordWhereInput[];
     NOT?: Prisma.TokenValidationRecordWhereInput | Prisma.TokenValidationRecordWhereInput[];
@@ -299,11 +309,12 @@ export type TokenValidationRecordWhereUniqueInput = Prisma.AtLeast<
     txSignature?: Prisma.StringNullableFilter<'TokenValidationRecord'> | string | null;
     validationDetails?: Prisma.JsonNullableFilter<'TokenValidationRecord'>;
   },
-  'id'
+  'id' | 'eventId'
 >;
 
 export type TokenValidationRecordOrderByWithAggregationInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrderInput | Prisma.SortOrder;
   token?: Prisma.SortOrder;
   isRenounced?: Prisma.SortOrderInput | Prisma.SortOrder;
   isBurned?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -329,6 +340,7 @@ export type TokenValidationRecordScalarWhereWithAggregatesInput = {
     | Prisma.TokenValidationRecordScalarWhereWithAggregatesInput
     | Prisma.TokenValidationRecordScalarWhereWithAggregatesInput[];
   id?: Prisma.StringWithAggregatesFilter<'TokenValidationRecord'> | string;
+  eventId?: Prisma.StringNullableWithAggregatesFilter<'TokenValidationRecord'> | string | null;
   token?: Prisma.StringWithAggregatesFilter<'TokenValidationRecord'> | string;
   isRenounced?: Prisma.BoolNullableWithAggregatesFilter<'TokenValidationRecord'> | boolean | null;
   isBurned?: Prisma.BoolNullableWithAggregatesFilter<'TokenValidationRecord'> | boolean | null;
@@ -347,6 +359,7 @@ export type TokenValidationRecordScalarWhereWithAggregatesInput = {
 
 export type TokenValidationRecordCreateInput = {
   id?: string;
+  eventId?: string | null;
   token: string;
   isRenounced?: boolean | null;
   isBurned?: boolean | null;
@@ -360,6 +373,7 @@ export type TokenValidationRecordCreateInput = {
 
 export type TokenValidationRecordUncheckedCreateInput = {
   id?: string;
+  eventId?: string | null;
   token: string;
   isRenounced?: boolean | null;
   isBurned?: boolean | null;
@@ -373,6 +387,7 @@ export type TokenValidationRecordUncheckedCreateInput = {
 
 export type TokenValidationRecordUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   token?: Prisma.StringFieldUpdateOperationsInput | string;
   isRenounced?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
   isBurned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
@@ -391,6 +406,7 @@ export type TokenValidationRecordUpdateInput = {
 
 export type TokenValidationRecordUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   token?: Prisma.StringFieldUpdateOperationsInput | string;
   isRenounced?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
   isBurned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
@@ -409,6 +425,7 @@ export type TokenValidationRecordUncheckedUpdateInput = {
 
 export type TokenValidationRecordCreateManyInput = {
   id?: string;
+  eventId?: string | null;
   token: string;
   isRenounced?: boolean | null;
   isBurned?: boolean | null;
@@ -422,6 +439,7 @@ export type TokenValidationRecordCreateManyInput = {
 
 export type TokenValidationRecordUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   token?: Prisma.StringFieldUpdateOperationsInput | string;
   isRenounced?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
   isBurned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
@@ -440,6 +458,7 @@ export type TokenValidationRecordUpdateManyMutationInput = {
 
 export type TokenValidationRecordUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  eventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   token?: Prisma.StringFieldUpdateOperationsInput | string;
   isRenounced?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
   isBurned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
@@ -458,6 +477,7 @@ export type TokenValidationRecordUncheckedUpdateManyInput = {
 
 export type TokenValidationRecordCountOrderByAggregateInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrder;
   token?: Prisma.SortOrder;
   isRenounced?: Prisma.SortOrder;
   isBurned?: Prisma.SortOrder;
@@ -476,6 +496,7 @@ export type TokenValidationRecordAvgOrderByAggregateInput = {
 
 export type TokenValidationRecordMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrder;
   token?: Prisma.SortOrder;
   isRenounced?: Prisma.SortOrder;
   isBurned?: Prisma.SortOrder;
@@ -488,6 +509,7 @@ export type TokenValidationRecordMaxOrderByAggregateInput = {
 
 export type TokenValidationRecordMinOrderByAggregateInput = {
   id?: Prisma.SortOrder;
+  eventId?: Prisma.SortOrder;
   token?: Prisma.SortOrder;
   isRenounced?: Prisma.SortOrder;
   isBurned?: Prisma.SortOrder;
@@ -520,6 +542,7 @@ export type TokenValidationRecordSelect<
 > = runtime.Types.Extensions.GetSelect<
   {
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     isRenounced?: boolean;
     isBurned?: boolean;
@@ -538,6 +561,7 @@ export type TokenValidationRecordSelectCreateManyAndReturn<
 > = runtime.Types.Extensions.GetSelect<
   {
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     isRenounced?: boolean;
     isBurned?: boolean;
@@ -556,6 +580,7 @@ export type TokenValidationRecordSelectUpdateManyAndReturn<
 > = runtime.Types.Extensions.GetSelect<
   {
     id?: boolean;
+    eventId?: boolean;
     token?: boolean;
     isRenounced?: boolean;
     isBurned?: boolean;
@@ -571,6 +596,7 @@ export type TokenValidationRecordSelectUpdateManyAndReturn<
 
 export type TokenValidationRecordSelectScalar = {
   id?: boolean;
+  eventId?: boolean;
   token?: boolean;
   isRenounced?: boolean;
   isBurned?: boolean;
@@ -586,6 +612,7 @@ export type TokenValidationRecordOmit<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = runtime.Types.Extensions.GetOmit<
   | 'id'
+  | 'eventId'
   | 'token'
   | 'isRenounced'
   | 'isBurned'
@@ -606,6 +633,7 @@ export type $TokenValidationRecordPayload<
   scalars: runtime.Types.Extensions.GetPayloadResult<
     {
       id: string;
+      eventId: string | null;
       token: string;
       isRenounced: boolean | null;
       isBurned: boolean | null;
@@ -1188,6 +1216,7 @@ export interface Prisma__TokenValidationRecordClient<
  */
 export interface TokenValidationRecordFieldRefs {
   readonly id: Prisma.FieldRef<'TokenValidationRecord', 'String'>;
+  readonly eventId: Prisma.FieldRef<'TokenValidationRecord', 'String'>;
   readonly token: Prisma.FieldRef<'TokenValidationRecord', 'String'>;
   readonly isRenounced: Prisma.FieldRef<'TokenValidationRecord', 'Boolean'>;
   readonly isBurned: Prisma.FieldRef<'TokenValidationRecord', 'Boolean'>;
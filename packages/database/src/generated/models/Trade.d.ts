@@ -16,11 +16,13 @@ export type TradeAvgAggregateOutputType = {
     amount: runtime.Decimal | null;
     price: runtime.Decimal | null;
     slippage: runtime.Decimal | null;
+    fee: runtime.Decimal | null;
 };
 export type TradeSumAggregateOutputType = {
     amount: runtime.Decimal | null;
     price: runtime.Decimal | null;
     slippage: runtime.Decimal | null;
+    fee: runtime.Decimal | null;
 };
 export type TradeMinAggregateOutputType = {
     id: string | null;
@@ -30,6 +32,8 @@ export type TradeMinAggregateOutputType = {
     price: runtime.Decimal | null;
     signature: string | null;
     slippage: runtime.Decimal | null;
+    fee: runtime.Decimal | null;
+    mode: string | null;
     timestamp: Date | null;
 };
 export type TradeMaxAggregateOutputType = {
@@ -40,6 +44,8 @@ export type TradeMaxAggregateOutputType = {
     price: runtime.Decimal | null;
     signature: string | null;
     slippage: runtime.Decimal | null;
+    fee: runtime.Decimal | null;
+    mode: string | null;
     timestamp: Date | null;
 };
 export type TradeCountAggregateOutputType = {
@@ -50,6 +56,8 @@ export type TradeCountAggregateOutputType = {
     price: number;
     signature: number;
     slippage: number;
+    fee: number;
+    mode: number;
     timestamp: number;
     _all: number;
 };
@@ -57,11 +65,13 @@ export type TradeAvgAggregateInputType = {
     amount?: true;
     price?: true;
     slippage?: true;
+    fee?: true;
 };
 export type TradeSumAggregateInputType = {
     amount?: true;
     price?: true;
     slippage?: true;
+    fee?: true;
 };
 export type TradeMinAggregateInputType = {
     id?: true;
@@ -71,6 +81,8 @@ export type TradeMinAggregateInputType = {
     price?: true;
     signature?: true;
     slippage?: true;
+    fee?: true;
+    mode?: true;
     timestamp?: true;
 };
 export type TradeMaxAggregateInputType = {
@@ -81,6 +93,8 @@ export type TradeMaxAggregateInputType = {
     price?: true;
     signature?: true;
     slippage?: true;
+    fee?: true;
+    mode?: true;
     timestamp?: true;
 };
 export type TradeCountAggregateInputType = {
@@ -91,6 +105,8 @@ export type TradeCountAggregateInputType = {
     price?: true;
     signature?: true;
     slippage?: true;
+    fee?: true;
+    mode?: true;
     timestamp?: true;
     _all?: true;
 };
@@ -178,6 +194,8 @@ export type TradeGroupByOutputType = {
     price: runtime.Decimal;
     signature: string;
     slippage: runtime.Decimal;
+    fee: runtime.Decimal;
+    mode: string;
     timestamp: Date;
     _count: TradeCountAggregateOutputType | null;
     _avg: TradeAvgAggregateOutputType | null;
@@ -199,6 +217,8 @@ export type TradeWhereInput = {
     price?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringFilter<'Trade'> | string;
     slippage?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFilter<'Trade'> | string;
     timestamp?: Prisma.DateTimeFilter<'Trade'> | Date | string;
     position?: Prisma.XOR<Prisma.PositionScalarRelationFilter, Prisma.PositionWhereInput>;
 };
@@ -210,6 +230,8 @@ export type TradeOrderByWithRelationInput = {
     price?: Prisma.SortOrder;
     signature?: Prisma.SortOrder;
     slippage?: Prisma.SortOrder;
+    fee?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     timestamp?: Prisma.SortOrder;
     position?: Prisma.PositionOrderByWithRelationInput;
 };
@@ -224,6 +246,8 @@ export type TradeWhereUniqueInput = Prisma.AtLeast<{
     amount?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     price?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     slippage?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFilter<'Trade'> | string;
     timestamp?: Prisma.DateTimeFilter<'Trade'> | Date | string;
     position?: Prisma.XOR<Prisma.PositionScalarRelationFilter, Prisma.PositionWhereInput>;
 }, 'id' | 'signature'>;
@@ -235,6 +259,8 @@ export type TradeOrderByWithAggregationInput = {
     price?: Prisma.SortOrder;
     signature?: Prisma.SortOrder;
     slippage?: Prisma.SortOrder;
+    fee?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     timestamp?: Prisma.SortOrder;
     _count?: Prisma.TradeCountOrderByAggregateInput;
     _avg?: Prisma.TradeAvgOrderByAggregateInput;
@@ -253,6 +279,8 @@ export type TradeScalarWhereWithAggregatesInput = {
     price?: Prisma.DecimalWithAggregatesFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringWithAggregatesFilter<'Trade'> | string;
     slippage?: Prisma.DecimalWithAggregatesFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalWithAggregatesFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringWithAggregatesFilter<'Trade'> | string;
     timestamp?: Prisma.DateTimeWithAggregatesFilter<'Trade'> | Date | string;
 };
 export type TradeCreateInput = {
@@ -262,6 +290,8 @@ export type TradeCreateInput = {
     price: runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature: string;
     slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: string;
     timestamp?: Date | string;
     position: Prisma.PositionCreateNestedOneWithoutTradesInput;
 };
@@ -273,6 +303,8 @@ export type TradeUncheckedCreateInput = {
     price: runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature: string;
     slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: string;
     timestamp?: Date | string;
 };
 export type TradeUpdateInput = {
@@ -282,6 +314,8 @@ export type TradeUpdateInput = {
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringFieldUpdateOperationsInput | string;
     slippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
     position?: Prisma.PositionUpdateOneRequiredWithoutTradesNestedInput;
 };
@@ -293,6 +327,8 @@ export type TradeUncheckedUpdateInput = {
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringFieldUpdateOperationsInput | string;
     slippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeCreateManyInput = {
@@ -303,6 +339,8 @@ export type TradeCreateManyInput = {
     price: runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature: string;
     slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: string;
     timestamp?: Date | string;
 };
 export type TradeUpdateManyMutationInput = {
@@ -312,6 +350,8 @@ export type TradeUpdateManyMutationInput = {
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringFieldUpdateOperationsInput | string;
     slippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeUncheckedUpdateManyInput = {
@@ -322,6 +362,8 @@ export type TradeUncheckedUpdateManyInput = {
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringFieldUpdateOperationsInput | string;
     slippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeListRelationFilter = {
@@ -340,12 +382,15 @@ export type TradeCountOrderByAggregateInput = {
     price?: Prisma.SortOrder;
     signature?: Prisma.SortOrder;
     slippage?: Prisma.SortOrder;
+    fee?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     timestamp?: Prisma.SortOrder;
 };
 export type TradeAvgOrderByAggregateInput = {
     amount?: Prisma.SortOrder;
     price?: Prisma.SortOrder;
     slippage?: Prisma.SortOrder;
+    fee?: Prisma.SortOrder;
 };
 export type TradeMaxOrderByAggregateInput = {
     id?: Prisma.SortOrder;
@@ -355,6 +400,8 @@ export type TradeMaxOrderByAggregateInput = {
     price?: Prisma.SortOrder;
     signature?: Prisma.SortOrder;
     slippage?: Prisma.SortOrder;
+    fee?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     timestamp?: Prisma.SortOrder;
 };
 export type TradeMinOrderByAggregateInput = {
@@ -365,12 +412,15 @@ export type TradeMinOrderByAggregateInput = {
     price?: Prisma.SortOrder;
     signature?: Prisma.SortOrder;
     slippage?: Prisma.SortOrder;
+    fee?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     timestamp?: Prisma.SortOrder;
 };
 export type TradeSumOrderByAggregateInput = {
     amount?: Prisma.SortOrder;
     price?: Prisma.SortOrder;
     slippage?: Prisma.SortOrder;
+    fee?: Prisma.SortOrder;
 };
 export type TradeCreateNestedManyWithoutPositionInput = {
     create?: Prisma.XOR<Prisma.TradeCreateWithoutPositionInput, Prisma.TradeUncheckedCreateWithoutPositionInput> | Prisma.TradeCreateWithoutPositionInput[] | Prisma.TradeUncheckedCreateWithoutPositionInput[];
@@ -417,6 +467,8 @@ export type TradeCreateWithoutPositionInput = {
     price: runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature: string;
     slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: string;
     timestamp?: Date | string;
 };
 export type TradeUncheckedCreateWithoutPositionInput = {
@@ -426,6 +478,8 @@ export type TradeUncheckedCreateWithoutPositionInput = {
     price: runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature: string;
     slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: string;
     timestamp?: Date | string;
 };
 export type TradeCreateOrConnectWithoutPositionInput = {
@@ -460,6 +514,8 @@ export type TradeScalarWhereInput = {
     price?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringFilter<'Trade'> | string;
     slippage?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFilter<'Trade'> | string;
     timestamp?: Prisma.DateTimeFilter<'Trade'> | Date | string;
 };
 export type TradeCreateManyPositionInput = {
@@ -469,6 +525,8 @@ export type TradeCreateManyPositionInput = {
     price: runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature: string;
     slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: string;
     timestamp?: Date | string;
 };
 export type TradeUpdateWithoutPositionInput = {
@@ -478,6 +536,8 @@ export type TradeUpdateWithoutPositionInput = {
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringFieldUpdateOperationsInput | string;
     slippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeUncheckedUpdateWithoutPositionInput = {
@@ -487,6 +547,8 @@ export type TradeUncheckedUpdateWithoutPositionInput = {
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringFieldUpdateOperationsInput | string;
     slippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeUncheckedUpdateManyWithoutPositionInput = {
@@ -496,6 +558,8 @@ export type TradeUncheckedUpdateManyWithoutPositionInput = {
     price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     signature?: Prisma.StringFieldUpdateOperationsInput | string;
     slippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    fee?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -506,6 +570,8 @@ export type TradeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     price?: boolean;
     signature?: boolean;
     slippage?: boolean;
+    fee?: boolean;
+    mode?: boolean;
     timestamp?: boolean;
     position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
 }, ExtArgs['result']['trade']>;
@@ -517,6 +583,8 @@ export type TradeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensi
     price?: boolean;
     signature?: boolean;
     slippage?: boolean;
+    fee?: boolean;
+    mode?: boolean;
     timestamp?: boolean;
     position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
 }, ExtArgs['result']['trade']>;
@@ -528,6 +596,8 @@ export type TradeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensi
     price?: boolean;
     signature?: boolean;
     slippage?: boolean;
+    fee?: boolean;
+    mode?: boolean;
     timestamp?: boolean;
     position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
 }, ExtArgs['result']['trade']>;
@@ -539,9 +609,11 @@ export type TradeSelectScalar = {
     price?: boolean;
     signature?: boolean;
     slippage?: boolean;
+    fee?: boolean;
+    mode?: boolean;
     timestamp?: boolean;
 };
-export type TradeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'positionId' | 'type' | 'amount' | 'price' | 'signature' | 'slippage' | 'timestamp', ExtArgs['result']['trade']>;
+export type TradeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'positionId' | 'type' | 'amount' | 'price' | 'signature' | 'slippage' | 'fee' | 'mode' | 'timestamp', ExtArgs['result']['trade']>;
 export type TradeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
     position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
 };
@@ -564,6 +636,8 @@ export type $TradePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
         price: runtime.Decimal;
         signature: string;
         slippage: runtime.Decimal;
+        fee: runtime.Decimal;
+        mode: string;
         timestamp: Date;
     }, ExtArgs['result']['trade']>;
     composites: {};
@@ -922,6 +996,8 @@ export interface TradeFieldRefs {
     readonly price: Prisma.FieldRef<'Trade', 'Decimal'>;
     readonly signature: Prisma.FieldRef<'Trade', 'String'>;
     readonly slippage: Prisma.FieldRef<'Trade', 'Decimal'>;
+    readonly fee: Prisma.FieldRef<'Trade', 'Decimal'>;
+    readonly mode: Prisma.FieldRef<'Trade', 'String'>;
     readonly timestamp: Prisma.FieldRef<'Trade', 'DateTime'>;
 }
 /**
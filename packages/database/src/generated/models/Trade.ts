@@ -29,12 +29,14 @@ export type TradeAvgAggregateOutputType = {
   amount: runtime.Decimal | null;
   price: runtime.Decimal | null;
   slippage: runtime.Decimal | null;
+  fee: runtime.Decimal | null;
 };
 
 export type TradeSumAggregateOutputType = {
   amount: runtime.Decimal | null;
   price: runtime.Decimal | null;
   slippage: runtime.Decimal | null;
+  fee: runtime.Decimal | null;
 };
 
 export type TradeMinAggregateOutputType = {
@@ -45,6 +47,8 @@ export type TradeMinAggregateOutputType = {
   price: runtime.Decimal | null;
   signature: string | null;
   slippage: runtime.Decimal | null;
+  fee: runtime.Decimal | null;
+  mode: string | null;
   timestamp: Date | null;
 };
 
@@ -56,6 +60,8 @@ export type TradeMaxAggregateOutputType = {
   price: runtime.Decimal | null;
   signature: string | null;
   slippage: runtime.Decimal | null;
+  fee: runtime.Decimal | null;
+  mode: string | null;
   timestamp: Date | null;
 };
 
@@ -67,6 +73,8 @@ export type TradeCountAggregateOutputType = {
   price: number;
   signature: number;
   slippage: number;
+  fee: number;
+  mode: number;
   timestamp: number;
   _all: number;
 };
@@ -75,12 +83,14 @@ export type TradeAvgAggregateInputType = {
   amount?: true;
   price?: true;
   slippage?: true;
+  fee?: true;
 };
 
 export type TradeSumAggregateInputType = {
   amount?: true;
   price?: true;
   slippage?: true;
+  fee?: true;
 };
 
 export type TradeMinAggregateInputType = {
@@ -91,6 +101,8 @@ export type TradeMinAggregateInputType = {
   price?: true;
   signature?: true;
   slippage?: true;
+  fee?: true;
+  mode?: true;
   timestamp?: true;
 };
 
@@ -102,6 +114,8 @@ export type TradeMaxAggregateInputType = {
   price?: true;
   signature?: true;
   slippage?: true;
+  fee?: true;
+  mode?: true;
   timestamp?: true;
 };
 
@@ -113,6 +127,8 @@ export type TradeCountAggregateInputType = {
   price?: true;
   signature?: true;
   slippage?: true;
+  fee?: true;
+  mode?: true;
   timestamp?: true;
   _all?: true;
 };
@@ -212,6 +228,8 @@ export type TradeGroupByOutputType = {
   price: runtime.Decimal;
   signature: string;
   slippage: runtime.Decimal;
+  fee: runtime.Decimal;
+  mode: string;
   timestamp: Date;
   _count: TradeCountAggregateOutputType | null;
   _avg: TradeAvgAggregateOutputType | null;
@@ -253,6 +271,8 @@ export type TradeWhereInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+  mode?: Prisma.StringFilter<'Trade'> | string;
   timestamp?: Prisma.DateTimeFilter<'Trade'> | Date | string;
   position?: Prisma.XOR<Prisma.PositionScalarRelationFilter, Prisma.PositionWhereInput>;
 };
@@ -265,6 +285,8 @@ export type TradeOrderByWithRelationInput = {
   price?: Prisma.SortOrder;
   signature?: Prisma.SortOrder;
   slippage?: Prisma.SortOrder;
+  fee?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   timestamp?: Prisma.SortOrder;
   position?: Prisma.PositionOrderByWithRelationInput;
 };
@@ -296,6 +318,8 @@ export type TradeWhereUniqueInput = Prisma.AtLeast<
       | runtime.DecimalJsLike
       | number
       | string;
+    fee?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    mode?: Prisma.StringFilter<'Trade'> | string;
     timestamp?: Prisma.DateTimeFilter<'Trade'> | Date | string;
     position?: Prisma.XOR<Prisma.PositionScalarRelationFilter, Prisma.PositionWhereInput>;
   },
@@ -310,6 +334,8 @@ export type TradeOrderByWithAggregationInput = {
   price?: Prisma.SortOrder;
   signature?: Prisma.SortOrder;
   slippage?: Prisma.SortOrder;
+  fee?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   timestamp?: Prisma.SortOrder;
   _count?: Prisma.TradeCountOrderByAggregateInput;
   _avg?: Prisma.TradeAvgOrderByAggregateInput;
@@ -344,6 +370,13 @@ export type TradeScalarWhereWithAggregatesInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?:
+    | Prisma.DecimalWithAggregatesFilter<'Trade'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  mode?: Prisma.StringWithAggregatesFilter<'Trade'> | string;
   timestamp?: Prisma.DateTimeWithAggregatesFilter<'Trade'> | Date | string;
 };
 
@@ -354,6 +387,8 @@ export type TradeCreateInput = {
   price: runtime.Decimal | runtime.DecimalJsLike | number | string;
   signature: string;
   slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  mode?: string;
   timestamp?: Date | string;
   position: Prisma.PositionCreateNestedOneWithoutTradesInput;
 };
@@ -366,6 +401,8 @@ export type TradeUncheckedCreateInput = {
   price: runtime.Decimal | runtime.DecimalJsLike | number | string;
   signature: string;
   slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  mode?: string;
   timestamp?: Date | string;
 };
 
@@ -391,6 +428,13 @@ export type TradeUpdateInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   position?: Prisma.PositionUpdateOneRequiredWithoutTradesNestedInput;
 };
@@ -418,6 +462,13 @@ export type TradeUncheckedUpdateInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -429,6 +480,8 @@ export type TradeCreateManyInput = {
   price: runtime.Decimal | runtime.DecimalJsLike | number | string;
   signature: string;
   slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  mode?: string;
   timestamp?: Date | string;
 };
 
@@ -454,6 +507,13 @@ export type TradeUpdateManyMutationInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -480,6 +540,13 @@ export type TradeUncheckedUpdateManyInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -501,6 +568,8 @@ export type TradeCountOrderByAggregateInput = {
   price?: Prisma.SortOrder;
   signature?: Prisma.SortOrder;
   slippage?: Prisma.SortOrder;
+  fee?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   timestamp?: Prisma.SortOrder;
 };
 
@@ -508,6 +577,7 @@ export type TradeAvgOrderByAggregateInput = {
   amount?: Prisma.SortOrder;
   price?: Prisma.SortOrder;
   slippage?: Prisma.SortOrder;
+  fee?: Prisma.SortOrder;
 };
 
 export type TradeMaxOrderByAggregateInput = {
@@ -518,6 +588,8 @@ export type TradeMaxOrderByAggregateInput = {
   price?: Prisma.SortOrder;
   signature?: Prisma.SortOrder;
   slippage?: Prisma.SortOrder;
+  fee?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   timestamp?: Prisma.SortOrder;
 };
 
@@ -529,6 +601,8 @@ export type TradeMinOrderByAggregateInput = {
   price?: Prisma.SortOrder;
   signature?: Prisma.SortOrder;
   slippage?: Prisma.SortOrder;
+  fee?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   timestamp?: Prisma.SortOrder;
 };
 
@@ -536,6 +610,7 @@ export type TradeSumOrderByAggregateInput = {
   amount?: Prisma.SortOrder;
   price?: Prisma.SortOrder;
   slippage?: Prisma.SortOrder;
+  fee?: Prisma.SortOrder;
 };
 
 export type TradeCreateNestedManyWithoutPositionInput = {
@@ -631,6 +706,8 @@ export type TradeCreateWithoutPositionInput = {
   price: runtime.Decimal | runtime.DecimalJsLike | number | string;
   signature: string;
   slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  mode?: string;
   timestamp?: Date | string;
 };
 
@@ -641,6 +718,8 @@ export type TradeUncheckedCreateWithoutPositionInput = {
   price: runtime.Decimal | runtime.DecimalJsLike | number | string;
   signature: string;
   slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  mode?: string;
   timestamp?: Date | string;
 };
 
@@ -706,6 +785,8 @@ export type TradeScalarWhereInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?: Prisma.DecimalFilter<'Trade'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+  mode?: Prisma.StringFilter<'Trade'> | string;
   timestamp?: Prisma.DateTimeFilter<'Trade'> | Date | string;
 };
 
@@ -716,6 +797,8 @@ export type TradeCreateManyPositionInput = {
   price: runtime.Decimal | runtime.DecimalJsLike | number | string;
   signature: string;
   slippage: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  fee?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  mode?: string;
   timestamp?: Date | string;
 };
 
@@ -741,6 +824,13 @@ export type TradeUpdateWithoutPositionInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -766,6 +856,13 @@ export type TradeUncheckedUpdateWithoutPositionInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -791,6 +888,13 @@ export type TradeUncheckedUpdateManyWithoutPositionInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  fee?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   timestamp?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -805,6 +909,8 @@ export type TradeSelect<
     price?: boolean;
     signature?: boolean;
     slippage?: boolean;
+    fee?: boolean;
+    mode?: boolean;
     timestamp?: boolean;
     position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
   },
@@ -822,6 +928,8 @@ export type TradeSelectCreateManyAndReturn<
     price?: boolean;
     signature?: boolean;
     slippage?: boolean;
+    fee?: boolean;
+    mode?: boolean;
     timestamp?: boolean;
     position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
   },
@@ -839,6 +947,8 @@ export type TradeSelectUpdateManyAndReturn<
     price?: boolean;
     signature?: boolean;
     slippage?: boolean;
+    fee?: boolean;
+    mode?: boolean;
     timestamp?: boolean;
     position?: boolean | Prisma.PositionDefaultArgs<ExtArgs>;
   },
@@ -853,13 +963,24 @@ export type TradeSelectScalar = {
   price?: boolean;
   signature?: boolean;
   slippage?: boolean;
+  fee?: boolean;
+  mode?: boolean;
   timestamp?: boolean;
 };
 
 export type TradeOmit<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = runtime.Types.Extensions.GetOmit<
-  'id' | 'positionId' | 'type' | 'amount' | 'price' | 'signature' | 'slippage' | 'timestamp',
+  | 'id'
+  | 'positionId'
+  | 'type'
+  | 'amount'
+  | 'price'
+  | 'signature'
+  | 'slippage'
+  | 'fee'
+  | 'mode'
+  | 'timestamp',
   ExtArgs['result']['trade']
 >;
 export type TradeInclude<
@@ -894,6 +1015,8 @@ export type $TradePayload<
       price: runtime.Decimal;
       signature: string;
       slippage: runtime.Decimal;
+      fee: runtime.Decimal;
+      mode: string;
       timestamp: Date;
     },
     ExtArgs['result']['trade']
@@ -1457,6 +1580,8 @@ export interface TradeFieldRefs {
   readonly price: Prisma.FieldRef<'Trade', 'Decimal'>;
   readonly signature: Prisma.FieldRef<'Trade', 'String'>;
   readonly slippage: Prisma.FieldRef<'Trade', 'Decimal'>;
+  readonly fee: Prisma.FieldRef<'Trade', 'Decimal'>;
+  readonly mode: Prisma.FieldRef<'Trade', 'String'>;
   readonly timestamp: Prisma.FieldRef<'Trade', 'DateTime'>;
 }
 
@@ -0,0 +1,2 @@
+export {};
+//# sourceMappingURL=TradeIntent.js.map
\ No newline at end of file
@@ -0,0 +1,1387 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `TradeIntent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from '@prisma/client/runtime/client';
+import type * as $Enums from '../enums';
+import type * as Prisma from '../internal/prismaNamespace';
+
+/**
+ * Model TradeIntent
+ *
+ */
+export type TradeIntentModel = runtime.Types.Result.DefaultSelection<Prisma.$TradeIntentPayload>;
+
+export type AggregateTradeIntent = {
+  _count: TradeIntentCountAggregateOutputType | null;
+  _min: TradeIntentMinAggregateOutputType | null;
+  _max: TradeIntentMaxAggregateOutputType | null;
+};
+
+export type TradeIntentMinAggregateOutputType = {
+  eventId: string | null;
+  token: string | null;
+  mode: string | null;
+  positionId: string | null;
+  signature: string | null;
+  createdAt: Date | null;
+};
+
+export type TradeIntentMaxAggregateOutputType = {
+  eventId: string | null;
+  token: string | null;
+  mode: string | null;
+  positionId: string | null;
+  signature: string | null;
+  createdAt: Date | null;
+};
+
+export type TradeIntentCountAggregateOutputType = {
+  eventId: number;
+  token: number;
+  mode: number;
+  positionId: number;
+  signature: number;
+  createdAt: number;
+  _all: number;
+};
+
+export type TradeIntentMinAggregateInputType = {
+  eventId?: true;
+  token?: true;
+  mode?: true;
+  positionId?: true;
+  signature?: true;
+  createdAt?: true;
+};
+
+export type TradeIntentMaxAggregateInputType = {
+  eventId?: true;
+  token?: true;
+  mode?: true;
+  positionId?: true;
+  signature?: true;
+  createdAt?: true;
+};
+
+export type TradeIntentCountAggregateInputType = {
+  eventId?: true;
+  token?: true;
+  mode?: true;
+  positionId?: true;
+  signature?: true;
+  createdAt?: true;
+  _all?: true;
+};
+
+export type TradeIntentAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which TradeIntent to aggregate.
+   */
+  where?: Prisma.TradeIntentWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of TradeIntents to fetch.
+   */
+  orderBy?:
+    | Prisma.TradeIntentOrderByWithRelationInput
+    | Prisma.TradeIntentOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.TradeIntentWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` TradeIntents from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` TradeIntents.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned TradeIntents
+   **/
+  _count?: true | TradeIntentCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: TradeIntentMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: TradeIntentMaxAggregateInputType;
+};
+
+export type GetTradeIntentAggregateType<T extends TradeIntentAggregateArgs> = {
+  [P in keyof T & keyof AggregateTradeIntent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTradeIntent[P]>
+    : Prisma.GetScalarType<T[P], AggregateTradeIntent[P]>;
+};
+
+export type TradeIntentGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  where?: Prisma.TradeIntentWhereInput;
+  orderBy?:
+    | Prisma.TradeIntentOrderByWithAggregationInput
+    | Prisma.TradeIntentOrderByWithAggregationInput[];
+  by: Prisma.TradeIntentScalarFieldEnum[] | Prisma.TradeIntentScalarFieldEnum;
+  having?: Prisma.TradeIntentScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: TradeIntentCountAggregateInputType | true;
+  _min?: TradeIntentMinAggregateInputType;
+  _max?: TradeIntentMaxAggregateInputType;
+};
+
+export type TradeIntentGroupByOutputType = {
+  eventId: string;
+  token: string;
+  mode: string;
+  positionId: string | null;
+  signature: string | null;
+  createdAt: Date;
+  _count: TradeIntentCountAggregateOutputType | null;
+  _min: TradeIntentMinAggregateOutputType | null;
+  _max: TradeIntentMaxAggregateOutputType | null;
+};
+
+type GetTradeIntentGroupByPayload<T extends TradeIntentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TradeIntentGroupByOutputType, T['by']> & {
+      [P in keyof T & keyof TradeIntentGroupByOutputType]: P extends '_count'
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], TradeIntentGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], TradeIntentGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type TradeIntentWhereInput = {
+  AND?: Prisma.TradeIntentWhereInput | Prisma.TradeIntentWhereInput[];
+  OR?: Prisma.TradeIntentWhereInput[];
+  NOT?: Prisma.TradeIntentWhereInput | Prisma.TradeIntentWhereInput[];
+  eventId?: Prisma.StringFilter<'TradeIntent'> | string;
+  token?: Prisma.StringFilter<'TradeIntent'> | string;
+  mode?: Prisma.StringFilter<'TradeIntent'> | string;
+  positionId?: Prisma.StringNullableFilter<'TradeIntent'> | string | null;
+  signature?: Prisma.StringNullableFilter<'TradeIntent'> | string | null;
+  createdAt?: Prisma.DateTimeFilter<'TradeIntent'> | Date | string;
+};
+
+export type TradeIntentOrderByWithRelationInput = {
+  eventId?: Prisma.SortOrder;
+  token?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
+  positionId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  signature?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type TradeIntentWhereUniqueInput = Prisma.AtLeast<
+  {
+    eventId?: string;
+    AND?: Prisma.TradeIntentWhereInput | Prisma.TradeIntentWhereInput[];
+    OR?: Prisma.TradeIntentWhereInput[];
+    NOT?: Prisma.TradeIntentWhereInput | Prisma.TradeIntentWhereInput[];
+    token?: Prisma.StringFilter<'TradeIntent'> | string;
+    mode?: Prisma.StringFilter<'TradeIntent'> | string;
+    positionId?: Prisma.StringNullableFilter<'TradeIntent'> | string | null;
+    signature?: Prisma.StringNullableFilter<'TradeIntent'> | string | null;
+    createdAt?: Prisma.DateTimeFilter<'TradeIntent'> | Date | string;
+  },
+  'eventId'
+>;
+
+export type TradeIntentOrderByWithAggregationInput = {
+  eventId?: Prisma.SortOrder;
+  token?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
+  positionId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  signature?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  _count?: Prisma.TradeIntentCountOrderByAggregateInput;
+  _max?: Prisma.TradeIntentMaxOrderByAggregateInput;
+  _min?: Prisma.TradeIntentMinOrderByAggregateInput;
+};
+
+export type TradeIntentScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.TradeIntentScalarWhereWithAggregatesInput
+    | Prisma.TradeIntentScalarWhereWithAggregatesInput[];
+  OR?: Prisma.TradeIntentScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.TradeIntentScalarWhereWithAggregatesInput
+    | Prisma.TradeIntentScalarWhereWithAggregatesInput[];
+  eventId?: Prisma.StringWithAggregatesFilter<'TradeIntent'> | string;
+  token?: Prisma.StringWithAggregatesFilter<'TradeIntent'> | string;
+  mode?: Prisma.StringWithAggregatesFilter<'TradeIntent'> | string;
+  positionId?: Prisma.StringNullableWithAggregatesFilter<'TradeIntent'> | string | null;
+  signature?: Prisma.StringNullableWithAggregatesFilter<'TradeIntent'> | string | null;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<'TradeIntent'> | Date | string;
+};
+
+export type TradeIntentCreateInput = {
+  eventId: string;
+  token: string;
+  mode: string;
+  positionId?: string | null;
+  signature?: string | null;
+  createdAt?: Date | string;
+};
+
+export type TradeIntentUncheckedCreateInput = {
+  eventId: string;
+  token: string;
+  mode: string;
+  positionId?: string | null;
+  signature?: string | null;
+  createdAt?: Date | string;
+};
+
+export type TradeIntentUpdateInput = {
+  eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+  token?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
+  positionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  signature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TradeIntentUncheckedUpdateInput = {
+  eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+  token?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
+  positionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  signature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TradeIntentCreateManyInput = {
+  eventId: string;
+  token: string;
+  mode: string;
+  positionId?: string | null;
+  signature?: string | null;
+  createdAt?: Date | string;
+};
+
+export type TradeIntentUpdateManyMutationInput = {
+  eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+  token?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
+  positionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  signature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TradeIntentUncheckedUpdateManyInput = {
+  eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+  token?: Prisma.StringFieldUpdateOperationsInput | string;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
+  positionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  signature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TradeIntentCountOrderByAggregateInput = {
+  eventId?: Prisma.SortOrder;
+  token?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
+  positionId?: Prisma.SortOrder;
+  signature?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type TradeIntentMaxOrderByAggregateInput = {
+  eventId?: Prisma.SortOrder;
+  token?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
+  positionId?: Prisma.SortOrder;
+  signature?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type TradeIntentMinOrderByAggregateInput = {
+  eventId?: Prisma.SortOrder;
+  token?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
+  positionId?: Prisma.SortOrder;
+  signature?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type TradeIntentSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    eventId?: boolean;
+    token?: boolean;
+    mode?: boolean;
+    positionId?: boolean;
+    signature?: boolean;
+    createdAt?: boolean;
+  },
+  ExtArgs['result']['tradeIntent']
+>;
+
+export type TradeIntentSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    eventId?: boolean;
+    token?: boolean;
+    mode?: boolean;
+    positionId?: boolean;
+    signature?: boolean;
+    createdAt?: boolean;
+  },
+  ExtArgs['result']['tradeIntent']
+>;
+
+export type TradeIntentSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+  {
+    eventId?: boolean;
+    token?: boolean;
+    mode?: boolean;
+    positionId?: boolean;
+    signature?: boolean;
+    createdAt?: boolean;
+  },
+  ExtArgs['result']['tradeIntent']
+>;
+
+export type TradeIntentSelectScalar = {
+  eventId?: boolean;
+  token?: boolean;
+  mode?: boolean;
+  positionId?: boolean;
+  signature?: boolean;
+  createdAt?: boolean;
+};
+
+export type TradeIntentOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+  'eventId' | 'token' | 'mode' | 'positionId' | 'signature' | 'createdAt',
+  ExtArgs['result']['tradeIntent']
+>;
+
+export type $TradeIntentPayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  name: 'TradeIntent';
+  objects: {};
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      eventId: string;
+      token: string;
+      mode: string;
+      positionId: string | null;
+      signature: string | null;
+      createdAt: Date;
+    },
+    ExtArgs['result']['tradeIntent']
+  >;
+  composites: {};
+};
+
+export type TradeIntentGetPayload<S extends boolean | null | undefined | TradeIntentDefaultArgs> =
+  runtime.Types.Result.GetResult<Prisma.$TradeIntentPayload, S>;
+
+export type TradeIntentCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<TradeIntentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+  select?: TradeIntentCountAggregateInputType | true;
+};
+
+export interface TradeIntentDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>['model']['TradeIntent'];
+    meta: { name: 'TradeIntent' };
+  };
+  /**
+   * Find zero or one TradeIntent that matches the filter.
+   * @param {TradeIntentFindUniqueArgs} args - Arguments to find a TradeIntent
+   * @example
+   * // Get one TradeIntent
+   * const tradeIntent = await prisma.tradeIntent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TradeIntentFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, TradeIntentFindUniqueArgs<ExtArgs>>,
+  ): Prisma.Prisma__TradeIntentClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'findUnique',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one TradeIntent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TradeIntentFindUniqueOrThrowArgs} args - Arguments to find a TradeIntent
+   * @example
+   * // Get one TradeIntent
+   * const tradeIntent = await prisma.tradeIntent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TradeIntentFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, TradeIntentFindUniqueOrThrowArgs<ExtArgs>>,
+  ): Prisma.Prisma__TradeIntentClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'findUniqueOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first TradeIntent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TradeIntentFindFirstArgs} args - Arguments to find a TradeIntent
+   * @example
+   * // Get one TradeIntent
+   * const tradeIntent = await prisma.tradeIntent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TradeIntentFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, TradeIntentFindFirstArgs<ExtArgs>>,
+  ): Prisma.Prisma__TradeIntentClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'findFirst',
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first TradeIntent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TradeIntentFindFirstOrThrowArgs} args - Arguments to find a TradeIntent
+   * @example
+   * // Get one TradeIntent
+   * const tradeIntent = await prisma.tradeIntent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TradeIntentFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, TradeIntentFindFirstOrThrowArgs<ExtArgs>>,
+  ): Prisma.Prisma__TradeIntentClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'findFirstOrThrow',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more TradeIntents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TradeIntentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TradeIntents
+   * const tradeIntents = await prisma.tradeIntent.findMany()
+   *
+   * // Get first 10 TradeIntents
+   * const tradeIntents = await prisma.tradeIntent.findMany({ take: 10 })
+   *
+   * // Only select the `eventId`
+   * const tradeIntentWithEventIdOnly = await prisma.tradeIntent.findMany({ select: { eventId: true } })
+   *
+   */
+  findMany<T extends TradeIntentFindManyArgs>(
+    args?: Prisma.SelectSubset<T, TradeIntentFindManyArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'findMany',
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a TradeIntent.
+   * @param {TradeIntentCreateArgs} args - Arguments to create a TradeIntent.
+   * @example
+   * // Create one TradeIntent
+   * const TradeIntent = await prisma.tradeIntent.create({
+   *   data: {
+   *     // ... data to create a TradeIntent
+   *   }
+   * })
+   *
+   */
+  create<T extends TradeIntentCreateArgs>(
+    args: Prisma.SelectSubset<T, TradeIntentCreateArgs<ExtArgs>>,
+  ): Prisma.Prisma__TradeIntentClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'create',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many TradeIntents.
+   * @param {TradeIntentCreateManyArgs} args - Arguments to create many TradeIntents.
+   * @example
+   * // Create many TradeIntents
+   * const tradeIntent = await prisma.tradeIntent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends TradeIntentCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, TradeIntentCreateManyArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many TradeIntents and returns the data saved in the database.
+   * @param {TradeIntentCreateManyAndReturnArgs} args - Arguments to create many TradeIntents.
+   * @example
+   * // Create many TradeIntents
+   * const tradeIntent = await prisma.tradeIntent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many TradeIntents and only return the `eventId`
+   * const tradeIntentWithEventIdOnly = await prisma.tradeIntent.createManyAndReturn({
+   *   select: { eventId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends TradeIntentCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, TradeIntentCreateManyAndReturnArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'createManyAndReturn',
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a TradeIntent.
+   * @param {TradeIntentDeleteArgs} args - Arguments to delete one TradeIntent.
+   * @example
+   * // Delete one TradeIntent
+   * const TradeIntent = await prisma.tradeIntent.delete({
+   *   where: {
+   *     // ... filter to delete one TradeIntent
+   *   }
+   * })
+   *
+   */
+  delete<T extends TradeIntentDeleteArgs>(
+    args: Prisma.SelectSubset<T, TradeIntentDeleteArgs<ExtArgs>>,
+  ): Prisma.Prisma__TradeIntentClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'delete',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one TradeIntent.
+   * @param {TradeIntentUpdateArgs} args - Arguments to update one TradeIntent.
+   * @example
+   * // Update one TradeIntent
+   * const tradeIntent = await prisma.tradeIntent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends TradeIntentUpdateArgs>(
+    args: Prisma.SelectSubset<T, TradeIntentUpdateArgs<ExtArgs>>,
+  ): Prisma.Prisma__TradeIntentClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'update',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more TradeIntents.
+   * @param {TradeIntentDeleteManyArgs} args - Arguments to filter TradeIntents to delete.
+   * @example
+   * // Delete a few TradeIntents
+   * const { count } = await prisma.tradeIntent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends TradeIntentDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, TradeIntentDeleteManyArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more TradeIntents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TradeIntentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TradeIntents
+   * const tradeIntent = await prisma.tradeIntent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends TradeIntentUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, TradeIntentUpdateManyArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more TradeIntents and returns the data updated in the database.
+   * @param {TradeIntentUpdateManyAndReturnArgs} args - Arguments to update many TradeIntents.
+   * @example
+   * // Update many TradeIntents
+   * const tradeIntent = await prisma.tradeIntent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more TradeIntents and only return the `eventId`
+   * const tradeIntentWithEventIdOnly = await prisma.tradeIntent.updateManyAndReturn({
+   *   select: { eventId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends TradeIntentUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, TradeIntentUpdateManyAndReturnArgs<ExtArgs>>,
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'updateManyAndReturn',
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one TradeIntent.
+   * @param {TradeIntentUpsertArgs} args - Arguments to update or create a TradeIntent.
+   * @example
+   * // Update or create a TradeIntent
+   * const tradeIntent = await prisma.tradeIntent.upsert({
+   *   create: {
+   *     // ... data to create a TradeIntent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TradeIntent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TradeIntentUpsertArgs>(
+    args: Prisma.SelectSubset<T, TradeIntentUpsertArgs<ExtArgs>>,
+  ): Prisma.Prisma__TradeIntentClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$TradeIntentPayload<ExtArgs>,
+      T,
+      'upsert',
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of TradeIntents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TradeIntentCountArgs} args - Arguments to filter TradeIntents to count.
+   * @example
+   * // Count the number of TradeIntents
+   * const count = await prisma.tradeIntent.count({
+   *   where: {
+   *     // ... the filter for the TradeIntents we want to count
+   *   }
+   * })
+   **/
+  count<T extends TradeIntentCountArgs>(
+    args?: Prisma.Subset<T, TradeIntentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TradeIntentCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a TradeIntent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TradeIntentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends TradeIntentAggregateArgs>(
+    args: Prisma.Subset<T, TradeIntentAggregateArgs>,
+  ): Prisma.PrismaPromise<GetTradeIntentAggregateType<T>>;
+
+  /**
+   * Group by TradeIntent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TradeIntentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends TradeIntentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TradeIntentGroupByArgs['orderBy'] }
+      : { orderBy?: TradeIntentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, 'Field ', P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : 'take' extends Prisma.Keys<T>
+          ? 'orderBy' extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : 'skip' extends Prisma.Keys<T>
+            ? 'orderBy' extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields],
+  >(
+    args: Prisma.SubsetIntersection<T, TradeIntentGroupByArgs, OrderByArg> & InputErrors,
+  ): {} extends InputErrors ? GetTradeIntentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the TradeIntent model
+   */
+  readonly fields: TradeIntentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TradeIntent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TradeIntentClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: 'PrismaPromise';
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null,
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null,
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the TradeIntent model
+ */
+export interface TradeIntentFieldRefs {
+  readonly eventId: Prisma.FieldRef<'TradeIntent', 'String'>;
+  readonly token: Prisma.FieldRef<'TradeIntent', 'String'>;
+  readonly mode: Prisma.FieldRef<'TradeIntent', 'String'>;
+  readonly positionId: Prisma.FieldRef<'TradeIntent', 'String'>;
+  readonly signature: Prisma.FieldRef<'TradeIntent', 'String'>;
+  readonly createdAt: Prisma.FieldRef<'TradeIntent', 'DateTime'>;
+}
+
+// Custom InputTypes
+/**
+ * TradeIntent findUnique
+ */
+export type TradeIntentFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * Filter, which TradeIntent to fetch.
+   */
+  where: Prisma.TradeIntentWhereUniqueInput;
+};
+
+/**
+ * TradeIntent findUniqueOrThrow
+ */
+export type TradeIntentFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * Filter, which TradeIntent to fetch.
+   */
+  where: Prisma.TradeIntentWhereUniqueInput;
+};
+
+/**
+ * TradeIntent findFirst
+ */
+export type TradeIntentFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * Filter, which TradeIntent to fetch.
+   */
+  where?: Prisma.TradeIntentWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of TradeIntents to fetch.
+   */
+  orderBy?:
+    | Prisma.TradeIntentOrderByWithRelationInput
+    | Prisma.TradeIntentOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for TradeIntents.
+   */
+  cursor?: Prisma.TradeIntentWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` TradeIntents from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` TradeIntents.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of TradeIntents.
+   */
+  distinct?: Prisma.TradeIntentScalarFieldEnum | Prisma.TradeIntentScalarFieldEnum[];
+};
+
+/**
+ * TradeIntent findFirstOrThrow
+ */
+export type TradeIntentFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * Filter, which TradeIntent to fetch.
+   */
+  where?: Prisma.TradeIntentWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of TradeIntents to fetch.
+   */
+  orderBy?:
+    | Prisma.TradeIntentOrderByWithRelationInput
+    | Prisma.TradeIntentOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for TradeIntents.
+   */
+  cursor?: Prisma.TradeIntentWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` TradeIntents from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` TradeIntents.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of TradeIntents.
+   */
+  distinct?: Prisma.TradeIntentScalarFieldEnum | Prisma.TradeIntentScalarFieldEnum[];
+};
+
+/**
+ * TradeIntent findMany
+ */
+export type TradeIntentFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * Filter, which TradeIntents to fetch.
+   */
+  where?: Prisma.TradeIntentWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of TradeIntents to fetch.
+   */
+  orderBy?:
+    | Prisma.TradeIntentOrderByWithRelationInput
+    | Prisma.TradeIntentOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing TradeIntents.
+   */
+  cursor?: Prisma.TradeIntentWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` TradeIntents from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` TradeIntents.
+   */
+  skip?: number;
+  distinct?: Prisma.TradeIntentScalarFieldEnum | Prisma.TradeIntentScalarFieldEnum[];
+};
+
+/**
+ * TradeIntent create
+ */
+export type TradeIntentCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * The data needed to create a TradeIntent.
+   */
+  data: Prisma.XOR<Prisma.TradeIntentCreateInput, Prisma.TradeIntentUncheckedCreateInput>;
+};
+
+/**
+ * TradeIntent createMany
+ */
+export type TradeIntentCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to create many TradeIntents.
+   */
+  data: Prisma.TradeIntentCreateManyInput | Prisma.TradeIntentCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * TradeIntent createManyAndReturn
+ */
+export type TradeIntentCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * The data used to create many TradeIntents.
+   */
+  data: Prisma.TradeIntentCreateManyInput | Prisma.TradeIntentCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * TradeIntent update
+ */
+export type TradeIntentUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * The data needed to update a TradeIntent.
+   */
+  data: Prisma.XOR<Prisma.TradeIntentUpdateInput, Prisma.TradeIntentUncheckedUpdateInput>;
+  /**
+   * Choose, which TradeIntent to update.
+   */
+  where: Prisma.TradeIntentWhereUniqueInput;
+};
+
+/**
+ * TradeIntent updateMany
+ */
+export type TradeIntentUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * The data used to update TradeIntents.
+   */
+  data: Prisma.XOR<
+    Prisma.TradeIntentUpdateManyMutationInput,
+    Prisma.TradeIntentUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which TradeIntents to update
+   */
+  where?: Prisma.TradeIntentWhereInput;
+  /**
+   * Limit how many TradeIntents to update.
+   */
+  limit?: number;
+};
+
+/**
+ * TradeIntent updateManyAndReturn
+ */
+export type TradeIntentUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * The data used to update TradeIntents.
+   */
+  data: Prisma.XOR<
+    Prisma.TradeIntentUpdateManyMutationInput,
+    Prisma.TradeIntentUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which TradeIntents to update
+   */
+  where?: Prisma.TradeIntentWhereInput;
+  /**
+   * Limit how many TradeIntents to update.
+   */
+  limit?: number;
+};
+
+/**
+ * TradeIntent upsert
+ */
+export type TradeIntentUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * The filter to search for the TradeIntent to update in case it exists.
+   */
+  where: Prisma.TradeIntentWhereUniqueInput;
+  /**
+   * In case the TradeIntent found by the `where` argument doesn't exist, create a new TradeIntent with this data.
+   */
+  create: Prisma.XOR<Prisma.TradeIntentCreateInput, Prisma.TradeIntentUncheckedCreateInput>;
+  /**
+   * In case the TradeIntent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TradeIntentUpdateInput, Prisma.TradeIntentUncheckedUpdateInput>;
+};
+
+/**
+ * TradeIntent delete
+ */
+export type TradeIntentDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+  /**
+   * Filter which TradeIntent to delete.
+   */
+  where: Prisma.TradeIntentWhereUniqueInput;
+};
+
+/**
+ * TradeIntent deleteMany
+ */
+export type TradeIntentDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Filter which TradeIntents to delete
+   */
+  where?: Prisma.TradeIntentWhereInput;
+  /**
+   * Limit how many TradeIntents to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * TradeIntent without action
+ */
+export type TradeIntentDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+  /**
+   * Select specific fields to fetch from the TradeIntent
+   */
+  select?: Prisma.TradeIntentSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the TradeIntent
+   */
+  omit?: Prisma.TradeIntentOmit<ExtArgs> | null;
+};
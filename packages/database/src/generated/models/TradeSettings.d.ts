@@ -18,6 +18,7 @@ export type TradeSettingsAvgAggregateOutputType = {
     stopLossPercent: runtime.Decimal | null;
     takeProfitPercent: runtime.Decimal | null;
     minBurnAmount: runtime.Decimal | null;
+    trailingStopPercent: runtime.Decimal | null;
 };
 export type TradeSettingsSumAggregateOutputType = {
     maxSlippage: runtime.Decimal | null;
@@ -25,38 +26,46 @@ export type TradeSettingsSumAggregateOutputType = {
     stopLossPercent: runtime.Decimal | null;
     takeProfitPercent: runtime.Decimal | null;
     minBurnAmount: runtime.Decimal | null;
+    trailingStopPercent: runtime.Decimal | null;
 };
 export type TradeSettingsMinAggregateOutputType = {
     id: string | null;
     name: string | null;
     enabled: boolean | null;
+    mode: string | null;
     maxSlippage: runtime.Decimal | null;
     maxPositions: number | null;
     stopLossPercent: runtime.Decimal | null;
     takeProfitPercent: runtime.Decimal | null;
     minBurnAmount: runtime.Decimal | null;
+    trailingStopPercent: runtime.Decimal | null;
     updatedAt: Date | null;
 };
 export type TradeSettingsMaxAggregateOutputType = {
     id: string | null;
     name: string | null;
     enabled: boolean | null;
+    mode: string | null;
     maxSlippage: runtime.Decimal | null;
     maxPositions: number | null;
     stopLossPercent: runtime.Decimal | null;
     takeProfitPercent: runtime.Decimal | null;
     minBurnAmount: runtime.Decimal | null;
+    trailingStopPercent: runtime.Decimal | null;
     updatedAt: Date | null;
 };
 export type TradeSettingsCountAggregateOutputType = {
     id: number;
     name: number;
     enabled: number;
+    mode: number;
     maxSlippage: number;
     maxPositions: number;
     stopLossPercent: number;
     takeProfitPercent: number;
     minBurnAmount: number;
+    trailingStopPercent: number;
+    takeProfitLadder: number;
     updatedAt: number;
     _all: number;
 };
@@ -66,6 +75,7 @@ export type TradeSettingsAvgAggregateInputType = {
     stopLossPercent?: true;
     takeProfitPercent?: true;
     minBurnAmount?: true;
+    trailingStopPercent?: true;
 };
 export type TradeSettingsSumAggregateInputType = {
     maxSlippage?: true;
@@ -73,38 +83,46 @@ export type TradeSettingsSumAggregateInputType = {
     stopLossPercent?: true;
     takeProfitPercent?: true;
     minBurnAmount?: true;
+    trailingStopPercent?: true;
 };
 export type TradeSettingsMinAggregateInputType = {
     id?: true;
     name?: true;
     enabled?: true;
+    mode?: true;
     maxSlippage?: true;
     maxPositions?: true;
     stopLossPercent?: true;
     takeProfitPercent?: true;
     minBurnAmount?: true;
+    trailingStopPercent?: true;
     updatedAt?: true;
 };
 export type TradeSettingsMaxAggregateInputType = {
     id?: true;
     name?: true;
     enabled?: true;
+    mode?: true;
     maxSlippage?: true;
     maxPositions?: true;
     stopLossPercent?: true;
     takeProfitPercent?: true;
     minBurnAmount?: true;
+    trailingStopPercent?: true;
     updatedAt?: true;
 };
 export type TradeSettingsCountAggregateInputType = {
     id?: true;
     name?: true;
     enabled?: true;
+    mode?: true;
     maxSlippage?: true;
     maxPositions?: true;
     stopLossPercent?: true;
     takeProfitPercent?: true;
     minBurnAmount?: true;
+    trailingStopPercent?: true;
+    takeProfitLadder?: true;
     updatedAt?: true;
     _all?: true;
 };
@@ -188,11 +206,14 @@ export type TradeSettingsGroupByOutputType = {
     id: string;
     name: string;
     enabled: boolean;
+    mode: string;
     maxSlippage: runtime.Decimal;
     maxPositions: number;
     stopLossPercent: runtime.Decimal;
     takeProfitPercent: runtime.Decimal;
     minBurnAmount: runtime.Decimal;
+    trailingStopPercent: runtime.Decimal | null;
+    takeProfitLadder: runtime.JsonValue | null;
     updatedAt: Date;
     _count: TradeSettingsCountAggregateOutputType | null;
     _avg: TradeSettingsAvgAggregateOutputType | null;
@@ -210,22 +231,28 @@ export type TradeSettingsWhereInput = {
     id?: Prisma.StringFilter<'TradeSettings'> | string;
     name?: Prisma.StringFilter<'TradeSettings'> | string;
     enabled?: Prisma.BoolFilter<'TradeSettings'> | boolean;
+    mode?: Prisma.StringFilter<'TradeSettings'> | string;
     maxSlippage?: Prisma.DecimalFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: Prisma.IntFilter<'TradeSettings'> | number;
     stopLossPercent?: Prisma.DecimalFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: Prisma.DecimalFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: Prisma.DecimalFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: Prisma.DecimalNullableFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.JsonNullableFilter<'TradeSettings'>;
     updatedAt?: Prisma.DateTimeFilter<'TradeSettings'> | Date | string;
 };
 export type TradeSettingsOrderByWithRelationInput = {
     id?: Prisma.SortOrder;
     name?: Prisma.SortOrder;
     enabled?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     maxSlippage?: Prisma.SortOrder;
     maxPositions?: Prisma.SortOrder;
     stopLossPercent?: Prisma.SortOrder;
     takeProfitPercent?: Prisma.SortOrder;
     minBurnAmount?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrderInput | Prisma.SortOrder;
+    takeProfitLadder?: Prisma.SortOrderInput | Prisma.SortOrder;
     updatedAt?: Prisma.SortOrder;
 };
 export type TradeSettingsWhereUniqueInput = Prisma.AtLeast<{
@@ -235,22 +262,28 @@ export type TradeSettingsWhereUniqueInput = Prisma.AtLeast<{
     OR?: Prisma.TradeSettingsWhereInput[];
     NOT?: Prisma.TradeSettingsWhereInput | Prisma.TradeSettingsWhereInput[];
     enabled?: Prisma.BoolFilter<'TradeSettings'> | boolean;
+    mode?: Prisma.StringFilter<'TradeSettings'> | string;
     maxSlippage?: Prisma.DecimalFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: Prisma.IntFilter<'TradeSettings'> | number;
     stopLossPercent?: Prisma.DecimalFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: Prisma.DecimalFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: Prisma.DecimalFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: Prisma.DecimalNullableFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.JsonNullableFilter<'TradeSettings'>;
     updatedAt?: Prisma.DateTimeFilter<'TradeSettings'> | Date | string;
 }, 'id' | 'name'>;
 export type TradeSettingsOrderByWithAggregationInput = {
     id?: Prisma.SortOrder;
     name?: Prisma.SortOrder;
     enabled?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     maxSlippage?: Prisma.SortOrder;
     maxPositions?: Prisma.SortOrder;
     stopLossPercent?: Prisma.SortOrder;
     takeProfitPercent?: Prisma.SortOrder;
     minBurnAmount?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrderInput | Prisma.SortOrder;
+    takeProfitLadder?: Prisma.SortOrderInput | Prisma.SortOrder;
     updatedAt?: Prisma.SortOrder;
     _count?: Prisma.TradeSettingsCountOrderByAggregateInput;
     _avg?: Prisma.TradeSettingsAvgOrderByAggregateInput;
@@ -265,99 +298,126 @@ export type TradeSettingsScalarWhereWithAggregatesInput = {
     id?: Prisma.StringWithAggregatesFilter<'TradeSettings'> | string;
     name?: Prisma.StringWithAggregatesFilter<'TradeSettings'> | string;
     enabled?: Prisma.BoolWithAggregatesFilter<'TradeSettings'> | boolean;
+    mode?: Prisma.StringWithAggregatesFilter<'TradeSettings'> | string;
     maxSlippage?: Prisma.DecimalWithAggregatesFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: Prisma.IntWithAggregatesFilter<'TradeSettings'> | number;
     stopLossPercent?: Prisma.DecimalWithAggregatesFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: Prisma.DecimalWithAggregatesFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: Prisma.DecimalWithAggregatesFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: Prisma.DecimalNullableWithAggregatesFilter<'TradeSettings'> | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.JsonNullableWithAggregatesFilter<'TradeSettings'>;
     updatedAt?: Prisma.DateTimeWithAggregatesFilter<'TradeSettings'> | Date | string;
 };
 export type TradeSettingsCreateInput = {
     id?: string;
     name: string;
     enabled?: boolean;
+    mode?: string;
     maxSlippage?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: number;
     stopLossPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
     updatedAt?: Date | string;
 };
 export type TradeSettingsUncheckedCreateInput = {
     id?: string;
     name: string;
     enabled?: boolean;
+    mode?: string;
     maxSlippage?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: number;
     stopLossPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
     updatedAt?: Date | string;
 };
 export type TradeSettingsUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
     name?: Prisma.StringFieldUpdateOperationsInput | string;
     enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     maxSlippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: Prisma.IntFieldUpdateOperationsInput | number;
     stopLossPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
     updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeSettingsUncheckedUpdateInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
     name?: Prisma.StringFieldUpdateOperationsInput | string;
     enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     maxSlippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: Prisma.IntFieldUpdateOperationsInput | number;
     stopLossPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
     updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeSettingsCreateManyInput = {
     id?: string;
     name: string;
     enabled?: boolean;
+    mode?: string;
     maxSlippage?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: number;
     stopLossPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
     updatedAt?: Date | string;
 };
 export type TradeSettingsUpdateManyMutationInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
     name?: Prisma.StringFieldUpdateOperationsInput | string;
     enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     maxSlippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: Prisma.IntFieldUpdateOperationsInput | number;
     stopLossPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
     updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeSettingsUncheckedUpdateManyInput = {
     id?: Prisma.StringFieldUpdateOperationsInput | string;
     name?: Prisma.StringFieldUpdateOperationsInput | string;
     enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+    mode?: Prisma.StringFieldUpdateOperationsInput | string;
     maxSlippage?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     maxPositions?: Prisma.IntFieldUpdateOperationsInput | number;
     stopLossPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     takeProfitPercent?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
     minBurnAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string;
+    trailingStopPercent?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+    takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
     updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 export type TradeSettingsCountOrderByAggregateInput = {
     id?: Prisma.SortOrder;
     name?: Prisma.SortOrder;
     enabled?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     maxSlippage?: Prisma.SortOrder;
     maxPositions?: Prisma.SortOrder;
     stopLossPercent?: Prisma.SortOrder;
     takeProfitPercent?: Prisma.SortOrder;
     minBurnAmount?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrder;
+    takeProfitLadder?: Prisma.SortOrder;
     updatedAt?: Prisma.SortOrder;
 };
 export type TradeSettingsAvgOrderByAggregateInput = {
@@ -366,27 +426,32 @@ export type TradeSettingsAvgOrderByAggregateInput = {
     stopLossPercent?: Prisma.SortOrder;
     takeProfitPercent?: Prisma.SortOrder;
     minBurnAmount?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrder;
 };
 export type TradeSettingsMaxOrderByAggregateInput = {
     id?: Prisma.SortOrder;
     name?: Prisma.SortOrder;
     enabled?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     maxSlippage?: Prisma.SortOrder;
     maxPositions?: Prisma.SortOrder;
     stopLossPercent?: Prisma.SortOrder;
     takeProfitPercent?: Prisma.SortOrder;
     minBurnAmount?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrder;
     updatedAt?: Prisma.SortOrder;
 };
 export type TradeSettingsMinOrderByAggregateInput = {
     id?: Prisma.SortOrder;
     name?: Prisma.SortOrder;
     enabled?: Prisma.SortOrder;
+    mode?: Prisma.SortOrder;
     maxSlippage?: Prisma.SortOrder;
     maxPositions?: Prisma.SortOrder;
     stopLossPercent?: Prisma.SortOrder;
     takeProfitPercent?: Prisma.SortOrder;
     minBurnAmount?: Prisma.SortOrder;
+    trailingStopPercent?: Prisma.SortOrder;
     updatedAt?: Prisma.SortOrder;
 };
 export type TradeSettingsSumOrderByAggregateInput = {
@@ -395,59 +460,65 @@ export type TradeSettingsSumOrderByAggregateInput = {
     stopLossPercent?: Prisma.SortOrder;
     takeProfitPercent?: Prisma.SortOrder;
     minBurnAmount?: Prisma.SortOrder;
-};
-export type IntFieldUpdateOperationsInput = {
-    set?: number;
-    increment?: number;
-    decrement?: number;
-    multiply?: number;
-    divide?: number;
+    trailingStopPercent?: Prisma.SortOrder;
 };
 export type TradeSettingsSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
     name?: boolean;
     enabled?: boolean;
+    mode?: boolean;
     maxSlippage?: boolean;
     maxPositions?: boolean;
     stopLossPercent?: boolean;
     takeProfitPercent?: boolean;
     minBurnAmount?: boolean;
+    trailingStopPercent?: boolean;
+    takeProfitLadder?: boolean;
     updatedAt?: boolean;
 }, ExtArgs['result']['tradeSettings']>;
 export type TradeSettingsSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
     name?: boolean;
     enabled?: boolean;
+    mode?: boolean;
     maxSlippage?: boolean;
     maxPositions?: boolean;
     stopLossPercent?: boolean;
     takeProfitPercent?: boolean;
     minBurnAmount?: boolean;
+    trailingStopPercent?: boolean;
+    takeProfitLadder?: boolean;
     updatedAt?: boolean;
 }, ExtArgs['result']['tradeSettings']>;
 export type TradeSettingsSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
     id?: boolean;
     name?: boolean;
     enabled?: boolean;
+    mode?: boolean;
     maxSlippage?: boolean;
     maxPositions?: boolean;
     stopLossPercent?: boolean;
     takeProfitPercent?: boolean;
     minBurnAmount?: boolean;
+    trailingStopPercent?: boolean;
+    takeProfitLadder?: boolean;
     updatedAt?: boolean;
 }, ExtArgs['result']['tradeSettings']>;
 export type TradeSettingsSelectScalar = {
     id?: boolean;
     name?: boolean;
     enabled?: boolean;
+    mode?: boolean;
     maxSlippage?: boolean;
     maxPositions?: boolean;
     stopLossPercent?: boolean;
     takeProfitPercent?: boolean;
     minBurnAmount?: boolean;
+    trailingStopPercent?: boolean;
+    takeProfitLadder?: boolean;
     updatedAt?: boolean;
 };
-export type TradeSettingsOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'name' | 'enabled' | 'maxSlippage' | 'maxPositions' | 'stopLossPercent' | 'takeProfitPercent' | 'minBurnAmount' | 'updatedAt', ExtArgs['result']['tradeSettings']>;
+export type TradeSettingsOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<'id' | 'name' | 'enabled' | 'mode' | 'maxSlippage' | 'maxPositions' | 'stopLossPercent' | 'takeProfitPercent' | 'minBurnAmount' | 'trailingStopPercent' | 'takeProfitLadder' | 'updatedAt', ExtArgs['result']['tradeSettings']>;
 export type $TradeSettingsPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
     name: 'TradeSettings';
     objects: {};
@@ -455,11 +526,14 @@ export type $TradeSettingsPayload<ExtArgs extends runtime.Types.Extensions.Inter
         id: string;
         name: string;
         enabled: boolean;
+        mode: string;
         maxSlippage: runtime.Decimal;
         maxPositions: number;
         stopLossPercent: runtime.Decimal;
         takeProfitPercent: runtime.Decimal;
         minBurnAmount: runtime.Decimal;
+        trailingStopPercent: runtime.Decimal | null;
+        takeProfitLadder: runtime.JsonValue | null;
         updatedAt: Date;
     }, ExtArgs['result']['tradeSettings']>;
     composites: {};
@@ -813,11 +887,14 @@ export interface TradeSettingsFieldRefs {
     readonly id: Prisma.FieldRef<'TradeSettings', 'String'>;
     readonly name: Prisma.FieldRef<'TradeSettings', 'String'>;
     readonly enabled: Prisma.FieldRef<'TradeSettings', 'Boolean'>;
+    readonly mode: Prisma.FieldRef<'TradeSettings', 'String'>;
     readonly maxSlippage: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
     readonly maxPositions: Prisma.FieldRef<'TradeSettings', 'Int'>;
     readonly stopLossPercent: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
     readonly takeProfitPercent: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
     readonly minBurnAmount: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
+    readonly trailingStopPercent: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
+    readonly takeProfitLadder: Prisma.FieldRef<'TradeSettings', 'Json'>;
     readonly updatedAt: Prisma.FieldRef<'TradeSettings', 'DateTime'>;
 }
 /**
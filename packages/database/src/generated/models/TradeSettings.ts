@@ -32,6 +32,7 @@ export type TradeSettingsAvgAggregateOutputType = {
   stopLossPercent: runtime.Decimal | null;
   takeProfitPercent: runtime.Decimal | null;
   minBurnAmount: runtime.Decimal | null;
+  trailingStopPercent: runtime.Decimal | null;
 };
 
 export type TradeSettingsSumAggregateOutputType = {
@@ -40,17 +41,20 @@ export type TradeSettingsSumAggregateOutputType = {
   stopLossPercent: runtime.Decimal | null;
   takeProfitPercent: runtime.Decimal | null;
   minBurnAmount: runtime.Decimal | null;
+  trailingStopPercent: runtime.Decimal | null;
 };
 
 export type TradeSettingsMinAggregateOutputType = {
   id: string | null;
   name: string | null;
   enabled: boolean | null;
+  mode: string | null;
   maxSlippage: runtime.Decimal | null;
   maxPositions: number | null;
   stopLossPercent: runtime.Decimal | null;
   takeProfitPercent: runtime.Decimal | null;
   minBurnAmount: runtime.Decimal | null;
+  trailingStopPercent: runtime.Decimal | null;
   updatedAt: Date | null;
 };
 
@@ -58,11 +62,13 @@ export type TradeSettingsMaxAggregateOutputType = {
   id: string | null;
   name: string | null;
   enabled: boolean | null;
+  mode: string | null;
   maxSlippage: runtime.Decimal | null;
   maxPositions: number | null;
   stopLossPercent: runtime.Decimal | null;
   takeProfitPercent: runtime.Decimal | null;
   minBurnAmount: runtime.Decimal | null;
+  trailingStopPercent: runtime.Decimal | null;
   updatedAt: Date | null;
 };
 
@@ -70,11 +76,14 @@ export type TradeSettingsCountAggregateOutputType = {
   id: number;
   name: number;
   enabled: number;
+  mode: number;
   maxSlippage: number;
   maxPositions: number;
   stopLossPercent: number;
   takeProfitPercent: number;
   minBurnAmount: number;
+  trailingStopPercent: number;
+  takeProfitLadder: number;
   updatedAt: number;
   _all: number;
 };
@@ -85,6 +94,7 @@ export type TradeSettingsAvgAggregateInputType = {
   stopLossPercent?: true;
   takeProfitPercent?: true;
   minBurnAmount?: true;
+  trailingStopPercent?: true;
 };
 
 export type TradeSettingsSumAggregateInputType = {
@@ -93,17 +103,20 @@ export type TradeSettingsSumAggregateInputType = {
   stopLossPercent?: true;
   takeProfitPercent?: true;
   minBurnAmount?: true;
+  trailingStopPercent?: true;
 };
 
 export type TradeSettingsMinAggregateInputType = {
   id?: true;
   name?: true;
   enabled?: true;
+  mode?: true;
   maxSlippage?: true;
   maxPositions?: true;
   stopLossPercent?: true;
   takeProfitPercent?: true;
   minBurnAmount?: true;
+  trailingStopPercent?: true;
   updatedAt?: true;
 };
 
@@ -111,11 +124,13 @@ export type TradeSettingsMaxAggregateInputType = {
   id?: true;
   name?: true;
   enabled?: true;
+  mode?: true;
   maxSlippage?: true;
   maxPositions?: true;
   stopLossPercent?: true;
   takeProfitPercent?: true;
   minBurnAmount?: true;
+  trailingStopPercent?: true;
   updatedAt?: true;
 };
 
@@ -123,11 +138,14 @@ export type TradeSettingsCountAggregateInputType = {
   id?: true;
   name?: true;
   enabled?: true;
+  mode?: true;
   maxSlippage?: true;
   maxPositions?: true;
   stopLossPercent?: true;
   takeProfitPercent?: true;
   minBurnAmount?: true;
+  trailingStopPercent?: true;
+  takeProfitLadder?: true;
   updatedAt?: true;
   _all?: true;
 };
@@ -227,11 +245,14 @@ export type TradeSettingsGroupByOutputType = {
   id: string;
   name: string;
   enabled: boolean;
+  mode: string;
   maxSlippage: runtime.Decimal;
   maxPositions: number;
   stopLossPercent: runtime.Decimal;
   takeProfitPercent: runtime.Decimal;
   minBurnAmount: runtime.Decimal;
+  trailingStopPercent: runtime.Decimal | null;
+  takeProfitLadder: runtime.JsonValue | null;
   updatedAt: Date;
   _count: TradeSettingsCountAggregateOutputType | null;
   _avg: TradeSettingsAvgAggregateOutputType | null;
@@ -259,6 +280,7 @@ export type TradeSettingsWhereInput = {
   id?: Prisma.StringFilter<'TradeSettings'> | string;
   name?: Prisma.StringFilter<'TradeSettings'> | string;
   enabled?: Prisma.BoolFilter<'TradeSettings'> | boolean;
+  mode?: Prisma.StringFilter<'TradeSettings'> | string;
   maxSlippage?:
     | Prisma.DecimalFilter<'TradeSettings'>
     | runtime.Decimal
@@ -284,6 +306,14 @@ export type TradeSettingsWhereInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  trailingStopPercent?:
+    | Prisma.DecimalNullableFilter<'TradeSettings'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  takeProfitLadder?: Prisma.JsonNullableFilter<'TradeSettings'>;
   updatedAt?: Prisma.DateTimeFilter<'TradeSettings'> | Date | string;
 };
 
@@ -291,11 +321,14 @@ export type TradeSettingsOrderByWithRelationInput = {
   id?: Prisma.SortOrder;
   name?: Prisma.SortOrder;
   enabled?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   maxSlippage?: Prisma.SortOrder;
   maxPositions?: Prisma.SortOrder;
   stopLossPercent?: Prisma.SortOrder;
   takeProfitPercent?: Prisma.SortOrder;
   minBurnAmount?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrderInput | Prisma.SortOrder;
+  takeProfitLadder?: Prisma.SortOrderInput | Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
@@ -307,6 +340,7 @@ export type TradeSettingsWhereUniqueInput = Prisma.AtLeast<
     OR?: Prisma.TradeSettingsWhereInput[];
     NOT?: Prisma.TradeSettingsWhereInput | Prisma.TradeSettingsWhereInput[];
     enabled?: Prisma.BoolFilter<'TradeSettings'> | boolean;
+    mode?: Prisma.StringFilter<'TradeSettings'> | string;
     maxSlippage?:
       | Prisma.DecimalFilter<'TradeSettings'>
       | runtime.Decimal
@@ -332,6 +366,14 @@ export type TradeSettingsWhereUniqueInput = Prisma.AtLeast<
       | runtime.DecimalJsLike
       | number
       | string;
+    trailingStopPercent?:
+      | Prisma.DecimalNullableFilter<'TradeSettings'>
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string
+      | null;
+    takeProfitLadder?: Prisma.JsonNullableFilter<'TradeSettings'>;
     updatedAt?: Prisma.DateTimeFilter<'TradeSettings'> | Date | string;
   },
   'id' | 'name'
@@ -341,11 +383,14 @@ export type TradeSettingsOrderByWithAggregationInput = {
   id?: Prisma.SortOrder;
   name?: Prisma.SortOrder;
   enabled?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   maxSlippage?: Prisma.SortOrder;
   maxPositions?: Prisma.SortOrder;
   stopLossPercent?: Prisma.SortOrder;
   takeProfitPercent?: Prisma.SortOrder;
   minBurnAmount?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrderInput | Prisma.SortOrder;
+  takeProfitLadder?: Prisma.SortOrderInput | Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   _count?: Prisma.TradeSettingsCountOrderByAggregateInput;
   _avg?: Prisma.TradeSettingsAvgOrderByAggregateInput;
@@ -365,6 +410,7 @@ export type TradeSettingsScalarWhereWithAggregatesInput = {
   id?: Prisma.StringWithAggregatesFilter<'TradeSettings'> | string;
   name?: Prisma.StringWithAggregatesFilter<'TradeSettings'> | string;
   enabled?: Prisma.BoolWithAggregatesFilter<'TradeSettings'> | boolean;
+  mode?: Prisma.StringWithAggregatesFilter<'TradeSettings'> | string;
   maxSlippage?:
     | Prisma.DecimalWithAggregatesFilter<'TradeSettings'>
     | runtime.Decimal
@@ -390,6 +436,14 @@ export type TradeSettingsScalarWhereWithAggregatesInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  trailingStopPercent?:
+    | Prisma.DecimalNullableWithAggregatesFilter<'TradeSettings'>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  takeProfitLadder?: Prisma.JsonNullableWithAggregatesFilter<'TradeSettings'>;
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<'TradeSettings'> | Date | string;
 };
 
@@ -397,11 +451,14 @@ export type TradeSettingsCreateInput = {
   id?: string;
   name: string;
   enabled?: boolean;
+  mode?: string;
   maxSlippage?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   maxPositions?: number;
   stopLossPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   takeProfitPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   minBurnAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   updatedAt?: Date | string;
 };
 
@@ -409,11 +466,14 @@ export type TradeSettingsUncheckedCreateInput = {
   id?: string;
   name: string;
   enabled?: boolean;
+  mode?: string;
   maxSlippage?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   maxPositions?: number;
   stopLossPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   takeProfitPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   minBurnAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   updatedAt?: Date | string;
 };
 
@@ -421,6 +481,7 @@ export type TradeSettingsUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   name?: Prisma.StringFieldUpdateOperationsInput | string;
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   maxSlippage?:
     | Prisma.DecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -446,6 +507,14 @@ export type TradeSettingsUpdateInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -453,6 +522,7 @@ export type TradeSettingsUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   name?: Prisma.StringFieldUpdateOperationsInput | string;
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   maxSlippage?:
     | Prisma.DecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -478,6 +548,14 @@ export type TradeSettingsUncheckedUpdateInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -485,11 +563,14 @@ export type TradeSettingsCreateManyInput = {
   id?: string;
   name: string;
   enabled?: boolean;
+  mode?: string;
   maxSlippage?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   maxPositions?: number;
   stopLossPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   takeProfitPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   minBurnAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  trailingStopPercent?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   updatedAt?: Date | string;
 };
 
@@ -497,6 +578,7 @@ export type TradeSettingsUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   name?: Prisma.StringFieldUpdateOperationsInput | string;
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   maxSlippage?:
     | Prisma.DecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -522,6 +604,14 @@ export type TradeSettingsUpdateManyMutationInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -529,6 +619,7 @@ export type TradeSettingsUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   name?: Prisma.StringFieldUpdateOperationsInput | string;
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  mode?: Prisma.StringFieldUpdateOperationsInput | string;
   maxSlippage?:
     | Prisma.DecimalFieldUpdateOperationsInput
     | runtime.Decimal
@@ -554,6 +645,14 @@ export type TradeSettingsUncheckedUpdateManyInput = {
     | runtime.DecimalJsLike
     | number
     | string;
+  trailingStopPercent?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  takeProfitLadder?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
@@ -561,11 +660,14 @@ export type TradeSettingsCountOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   name?: Prisma.SortOrder;
   enabled?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   maxSlippage?: Prisma.SortOrder;
   maxPositions?: Prisma.SortOrder;
   stopLossPercent?: Prisma.SortOrder;
   takeProfitPercent?: Prisma.SortOrder;
   minBurnAmount?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrder;
+  takeProfitLadder?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
@@ -575,17 +677,20 @@ export type TradeSettingsAvgOrderByAggregateInput = {
   stopLossPercent?: Prisma.SortOrder;
   takeProfitPercent?: Prisma.SortOrder;
   minBurnAmount?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrder;
 };
 
 export type TradeSettingsMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   name?: Prisma.SortOrder;
   enabled?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   maxSlippage?: Prisma.SortOrder;
   maxPositions?: Prisma.SortOrder;
   stopLossPercent?: Prisma.SortOrder;
   takeProfitPercent?: Prisma.SortOrder;
   minBurnAmount?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
@@ -593,11 +698,13 @@ export type TradeSettingsMinOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   name?: Prisma.SortOrder;
   enabled?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   maxSlippage?: Prisma.SortOrder;
   maxPositions?: Prisma.SortOrder;
   stopLossPercent?: Prisma.SortOrder;
   takeProfitPercent?: Prisma.SortOrder;
   minBurnAmount?: Prisma.SortOrder;
+  trailingStopPercent?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
@@ -607,14 +714,7 @@ export type TradeSettingsSumOrderByAggregateInput = {
   stopLossPercent?: Prisma.SortOrder;
   takeProfitPercent?: Prisma.SortOrder;
   minBurnAmount?: Prisma.SortOrder;
-};
-
-export type IntFieldUpdateOperationsInput = {
-  set?: number;
-  increment?: number;
-  decrement?: number;
-  multiply?: number;
-  divide?: number;
+  trailingStopPercent?: Prisma.SortOrder;
 };
 
 export type TradeSettingsSelect<
@@ -624,11 +724,14 @@ export type TradeSettingsSelect<
     id?: boolean;
     name?: boolean;
     enabled?: boolean;
+    mode?: boolean;
     maxSlippage?: boolean;
     maxPositions?: boolean;
     stopLossPercent?: boolean;
     takeProfitPercent?: boolean;
     minBurnAmount?: boolean;
+    trailingStopPercent?: boolean;
+    takeProfitLadder?: boolean;
     updatedAt?: boolean;
   },
   ExtArgs['result']['tradeSettings']
@@ -641,11 +744,14 @@ export type TradeSettingsSelectCreateManyAndReturn<
     id?: boolean;
     name?: boolean;
     enabled?: boolean;
+    mode?: boolean;
     maxSlippage?: boolean;
     maxPositions?: boolean;
     stopLossPercent?: boolean;
     takeProfitPercent?: boolean;
     minBurnAmount?: boolean;
+    trailingStopPercent?: boolean;
+    takeProfitLadder?: boolean;
     updatedAt?: boolean;
   },
   ExtArgs['result']['tradeSettings']
@@ -658,11 +764,14 @@ export type TradeSettingsSelectUpdateManyAndReturn<
     id?: boolean;
     name?: boolean;
     enabled?: boolean;
+    mode?: boolean;
     maxSlippage?: boolean;
     maxPositions?: boolean;
     stopLossPercent?: boolean;
     takeProfitPercent?: boolean;
     minBurnAmount?: boolean;
+    trailingStopPercent?: boolean;
+    takeProfitLadder?: boolean;
     updatedAt?: boolean;
   },
   ExtArgs['result']['tradeSettings']
@@ -672,11 +781,14 @@ export type TradeSettingsSelectScalar = {
   id?: boolean;
   name?: boolean;
   enabled?: boolean;
+  mode?: boolean;
   maxSlippage?: boolean;
   maxPositions?: boolean;
   stopLossPercent?: boolean;
   takeProfitPercent?: boolean;
   minBurnAmount?: boolean;
+  trailingStopPercent?: boolean;
+  takeProfitLadder?: boolean;
   updatedAt?: boolean;
 };
 
@@ -686,11 +798,14 @@ export type TradeSettingsOmit<
   | 'id'
   | 'name'
   | 'enabled'
+  | 'mode'
   | 'maxSlippage'
   | 'maxPositions'
   | 'stopLossPercent'
   | 'takeProfitPercent'
   | 'minBurnAmount'
+  | 'trailingStopPercent'
+  | 'takeProfitLadder'
   | 'updatedAt',
   ExtArgs['result']['tradeSettings']
 >;
@@ -705,11 +820,14 @@ export type $TradeSettingsPayload<
       id: string;
       name: string;
       enabled: boolean;
+      mode: string;
       maxSlippage: runtime.Decimal;
       maxPositions: number;
       stopLossPercent: runtime.Decimal;
       takeProfitPercent: runtime.Decimal;
       minBurnAmount: runtime.Decimal;
+      trailingStopPercent: runtime.Decimal | null;
+      takeProfitLadder: runtime.JsonValue | null;
       updatedAt: Date;
     },
     ExtArgs['result']['tradeSettings']
@@ -1284,11 +1402,14 @@ export interface TradeSettingsFieldRefs {
   readonly id: Prisma.FieldRef<'TradeSettings', 'String'>;
   readonly name: Prisma.FieldRef<'TradeSettings', 'String'>;
   readonly enabled: Prisma.FieldRef<'TradeSettings', 'Boolean'>;
+  readonly mode: Prisma.FieldRef<'TradeSettings', 'String'>;
   readonly maxSlippage: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
   readonly maxPositions: Prisma.FieldRef<'TradeSettings', 'Int'>;
   readonly stopLossPercent: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
   readonly takeProfitPercent: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
   readonly minBurnAmount: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
+  readonly trailingStopPercent: Prisma.FieldRef<'TradeSettings', 'Decimal'>;
+  readonly takeProfitLadder: Prisma.FieldRef<'TradeSettings', 'Json'>;
   readonly updatedAt: Prisma.FieldRef<'TradeSettings', 'DateTime'>;
 }
 
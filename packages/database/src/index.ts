@@ -5,17 +5,28 @@ export * from './repositories/liquidity-pool.repository';
 export * from './repositories/position.repository';
 export * from './repositories/price.repository';
 export * from './repositories/trade.repository';
+export * from './repositories/trade-intent.repository';
 export * from './repositories/worker-status.repository';
 export * from './repositories/trade-settings.repository';
 export * from './repositories/market.repository';
 export * from './repositories/token-validation.repository';
 export * from './repositories/discovered-pool.repository';
+export * from './repositories/backtest.repository';
+export * from './repositories/outbox.repository';
+export * from './repositories/event-store.repository';
+export * from './repositories/queue-audit-log.repository';
 
 // Re-export commonly used types (portable interfaces, not Prisma-generated)
 export type {
+  CloseReason,
+  PortfolioStats,
   Position,
   PositionWithTrades,
+  PositionPnl,
+  TakeProfitLevel,
+  TakeProfitLadderStep,
   Trade,
   TradeWithPosition,
   TradeSettings,
+  TradingMode,
 } from './types';
@@ -0,0 +1,64 @@
+import { Prisma, PrismaClient } from '../generated/client';
+import type { BacktestRecord } from '../generated/client';
+
+export class BacktestRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    settings: Record<string, unknown>;
+    options: Record<string, unknown>;
+    startDate: Date;
+    endDate: Date;
+  }): Promise<BacktestRecord> {
+    return await this.prisma.backtestRecord.create({
+      data: {
+        settings: data.settings as Prisma.InputJsonValue,
+        options: data.options as Prisma.InputJsonValue,
+        startDate: data.startDate,
+        endDate: data.endDate,
+      },
+    });
+  }
+
+  async findById(id: string): Promise<BacktestRecord | null> {
+    return await this.prisma.backtestRecord.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Recent backtests without their reports, which can be large
+   */
+  async findRecent(limit: number = 20): Promise<Omit<BacktestRecord, 'report'>[]> {
+    return await this.prisma.backtestRecord.findMany({
+      omit: { report: true },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  async markRunning(id: string): Promise<BacktestRecord> {
+    return await this.prisma.backtestRecord.update({
+      where: { id },
+      data: { status: 'RUNNING' },
+    });
+  }
+
+  async complete(id: string, report: object): Promise<BacktestRecord> {
+    return await this.prisma.backtestRecord.update({
+      where: { id },
+      data: {
+        status: 'COMPLETED',
+        report: report as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  async fail(id: string, error: string): Promise<BacktestRecord> {
+    return await this.prisma.backtestRecord.update({
+      where: { id },
+      data: { status: 'FAILED', error, completedAt: new Date() },
+    });
+  }
+}
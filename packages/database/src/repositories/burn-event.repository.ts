@@ -7,7 +7,7 @@ export class BurnEventRepository {
   async create(data: {
     txSignature: string;
     token: string;
-    amount: number;
+    amount: number | string;
     percentage: number;
   }): Promise<BurnEventRecord> {
     return await this.prisma.burnEventRecord.create({
@@ -18,6 +18,24 @@ export class BurnEventRepository {
     });
   }
 
+  /**
+   * Store a burn unless one with the same transaction signature exists
+   * Returns false when it was already stored.
+   */
+  async createIfNew(data: {
+    txSignature: string;
+    token: string;
+    amount: number | string;
+    percentage: number;
+    timestamp?: Date;
+  }): Promise<boolean> {
+    const result = await this.prisma.burnEventRecord.createMany({
+      data,
+      skipDuplicates: true,
+    });
+    return result.count === 1;
+  }
+
   async findBySignature(signature: string): Promise<BurnEventRecord | null> {
     return await this.prisma.burnEventRecord.findUnique({
       where: { txSignature: signature },
@@ -54,6 +72,33 @@ export class BurnEventRepository {
     });
   }
 
+  /**
+   * Total amount burned of a token and the number of recorded burns
+   */
+  async getTotalBurnedByToken(token: string): Promise<{ amount: string; count: number }> {
+    const result = await this.prisma.burnEventRecord.aggregate({
+      where: { token },
+      _sum: { amount: true },
+      _count: true,
+    });
+    return { amount: result._sum.amount?.toFixed(0) ?? '0', count: result._count };
+  }
+
+  /**
+   * Burns in a time range, oldest first
+   */
+  async findInRange(start: Date, end: Date): Promise<BurnEventRecord[]> {
+    return await this.prisma.burnEventRecord.findMany({
+      where: {
+        timestamp: {
+          gte: start,
+          lte: end,
+        },
+      },
+      orderBy: { timestamp: 'asc' },
+    });
+  }
+
   async deleteOlderThan(days: number): Promise<{ count: number }> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
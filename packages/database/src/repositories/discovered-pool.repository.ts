@@ -10,6 +10,8 @@ export interface DiscoveredPoolData {
   discoveredAt?: Date;
   status?: 'MONITORING' | 'IGNORED' | 'ERROR';
   poolData?: any;
+  marketAddress?: string | null;
+  creator?: string | null;
 }
 
 export class DiscoveredPoolRepository {
@@ -57,6 +59,17 @@ export class DiscoveredPoolRepository {
     });
   }
 
+  /**
+   * Pools created by a wallet, newest first
+   */
+  async findByCreator(creator: string, limit: number = 20): Promise<DiscoveredPool[]> {
+    return await this.prisma.discoveredPool.findMany({
+      where: { creator },
+      orderBy: { discoveredAt: 'desc' },
+      take: limit,
+    });
+  }
+
   async findByDexType(dexType: string, limit: number = 50): Promise<DiscoveredPool[]> {
     return await this.prisma.discoveredPool.findMany({
       where: { dexType },
@@ -79,6 +92,8 @@ export class DiscoveredPoolRepository {
       update: {
         status: data.status,
         poolData: data.poolData,
+        marketAddress: data.marketAddress,
+        creator: data.creator,
       },
       create: {
         ...data,
@@ -0,0 +1,75 @@
+import { Prisma, PrismaClient } from '../generated/client';
+import type { StoredEvent } from '../generated/client';
+
+/**
+ * An event to store, the payload is kept as is
+ */
+export interface EventStoreInput {
+  id: string;
+  type: string;
+  timestamp: string;
+  eventId?: string;
+  data?: unknown;
+}
+
+export interface EventStoreFilter {
+  from?: Date;
+  to?: Date;
+  types?: string[];
+}
+
+function getSlot(data: unknown): bigint | undefined {
+  const slot = (data as { slot?: unknown } | null | undefined)?.slot;
+  return typeof slot === 'number' || typeof slot === 'bigint' ? BigInt(slot) : undefined;
+}
+
+/**
+ * Append-only store of every consumed event, in event time order
+ */
+export class EventStoreRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Store an event, returns false when it was already stored
+   */
+  async append(event: EventStoreInput, source?: string): Promise<boolean> {
+    const result = await this.prisma.storedEvent.createMany({
+      data: {
+        eventId: event.eventId || event.id,
+        type: event.type,
+        payload: event as unknown as Prisma.InputJsonValue,
+        source,
+        slot: getSlot(event.data),
+        timestamp: new Date(event.timestamp),
+      },
+      skipDuplicates: true,
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * A page of stored events in replay order
+   * Pass the last eventId of the previous page as `after` to get the next one.
+   */
+  async findInRange(
+    filter: EventStoreFilter,
+    limit: number = 500,
+    after?: string,
+  ): Promise<StoredEvent[]> {
+    return await this.prisma.storedEvent.findMany({
+      where: {
+        timestamp: { gte: filter.from, lte: filter.to },
+        type: filter.types?.length ? { in: filter.types } : undefined,
+      },
+      orderBy: [{ timestamp: 'asc' }, { eventId: 'asc' }],
+      take: limit,
+      ...(after ? { cursor: { eventId: after }, skip: 1 } : {}),
+    });
+  }
+
+  async findById(eventId: string): Promise<StoredEvent | null> {
+    return await this.prisma.storedEvent.findUnique({
+      where: { eventId },
+    });
+  }
+}
@@ -23,12 +23,46 @@ export class LiquidityPoolRepository {
     });
   }
 
+  /**
+   * Store a pool snapshot taken at `updatedAt` unless a newer one is stored
+   * Returns false when the stored snapshot is as new or newer, so a redelivered
+   * event never rolls a pool back.
+   */
+  async upsertIfNewer(data: {
+    address: string;
+    tokenA: string;
+    tokenB: string;
+    tvl: number;
+    price: number;
+    updatedAt: Date;
+  }): Promise<boolean> {
+    const updated = await this.prisma.liquidityPoolRecord.updateMany({
+      where: { address: data.address, updatedAt: { lt: data.updatedAt } },
+      data: { tvl: data.tvl, price: data.price, updatedAt: data.updatedAt },
+    });
+    if (updated.count > 0) {
+      return true;
+    }
+
+    const created = await this.prisma.liquidityPoolRecord.createMany({
+      data: { ...data, volume24h: 0 },
+      skipDuplicates: true,
+    });
+    return created.count === 1;
+  }
+
   async findByAddress(address: string): Promise<LiquidityPoolRecord | null> {
     return await this.prisma.liquidityPoolRecord.findUnique({
       where: { address },
     });
   }
 
+  async findByAddresses(addresses: string[]): Promise<LiquidityPoolRecord[]> {
+    return await this.prisma.liquidityPoolRecord.findMany({
+      where: { address: { in: addresses } },
+    });
+  }
+
   async findAll(limit: number = 50): Promise<LiquidityPoolRecord[]> {
     return await this.prisma.liquidityPoolRecord.findMany({
       orderBy: { updatedAt: 'desc' },
@@ -47,6 +81,33 @@ export class LiquidityPoolRepository {
     });
   }
 
+  async findByToken(token: string, limit: number = 50): Promise<LiquidityPoolRecord[]> {
+    return await this.prisma.liquidityPoolRecord.findMany({
+      where: {
+        OR: [{ tokenA: token }, { tokenB: token }],
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Pools last updated in a time range, oldest first
+   *
+   * Only the latest snapshot of each pool is stored.
+   */
+  async findUpdatedInRange(start: Date, end: Date): Promise<LiquidityPoolRecord[]> {
+    return await this.prisma.liquidityPoolRecord.findMany({
+      where: {
+        updatedAt: {
+          gte: start,
+          lte: end,
+        },
+      },
+      orderBy: { updatedAt: 'asc' },
+    });
+  }
+
   async findHighVolumePools(
     minVolume: number = 10000,
     limit: number = 20,
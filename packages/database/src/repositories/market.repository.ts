@@ -47,6 +47,21 @@ export class MarketRepository {
     });
   }
 
+  /**
+   * Most recently discovered market trading the two mints, in either base/quote order
+   */
+  async findByMintPair(mintA: string, mintB: string): Promise<MarketRecord | null> {
+    return await this.prisma.marketRecord.findFirst({
+      where: {
+        OR: [
+          { AND: [{ baseMint: mintA }, { quoteMint: mintB }] },
+          { AND: [{ baseMint: mintB }, { quoteMint: mintA }] },
+        ],
+      },
+      orderBy: { discoveredAt: 'desc' },
+    });
+  }
+
   async findByDexType(dexType: string, limit: number = 50): Promise<MarketRecord[]> {
     return await this.prisma.marketRecord.findMany({
       where: { dexType },
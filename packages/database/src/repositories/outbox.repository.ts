@@ -0,0 +1,124 @@
+import { Prisma, PrismaClient } from '../generated/client';
+import type { OutboxEvent } from '../generated/client';
+
+/**
+ * An event to relay, stored as is in the outbox payload
+ */
+export interface OutboxEventInput {
+  id: string;
+  type: string;
+  eventId?: string;
+}
+
+function toOutboxRow(event: OutboxEventInput) {
+  return {
+    eventId: event.eventId || event.id,
+    eventType: event.type,
+    payload: event as unknown as Prisma.InputJsonValue,
+  };
+}
+
+/**
+ * Write database records and their events in one transaction
+ *
+ * The events are stored as PENDING outbox rows and published by the outbox relay, so
+ * a crash can neither publish an event without its record nor store a record without
+ * its event. `write` gets the transaction client, repositories can be built on it but
+ * must not start transactions of their own.
+ */
+export async function writeWithOutbox<T>(
+  prisma: PrismaClient,
+  write: (tx: PrismaClient) => Promise<T>,
+  events: OutboxEventInput[] | ((result: T) => OutboxEventInput[]),
+): Promise<T> {
+  return await prisma.$transaction(async (tx) => {
+    const result = await write(tx as unknown as PrismaClient);
+    const pending = typeof events === 'function' ? events(result) : events;
+
+    if (pending.length > 0) {
+      await tx.outboxEvent.createMany({ data: pending.map(toOutboxRow) });
+    }
+    return result;
+  });
+}
+
+export class OutboxRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Queue events that have no record of their own
+   */
+  async add(events: OutboxEventInput[]): Promise<void> {
+    await this.prisma.outboxEvent.createMany({ data: events.map(toOutboxRow) });
+  }
+
+  /**
+   * Oldest pending events first, so the relay keeps their order
+   */
+  async findPending(limit: number = 100): Promise<OutboxEvent[]> {
+    return await this.prisma.outboxEvent.findMany({
+      where: { status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  async markSent(id: string): Promise<void> {
+    await this.prisma.outboxEvent.update({
+      where: { id },
+      data: { status: 'SENT', sentAt: new Date() },
+    });
+  }
+
+  /**
+   * Keep the error of a relay attempt that will be retried
+   */
+  async recordError(id: string, error: string): Promise<void> {
+    await this.prisma.outboxEvent.update({
+      where: { id },
+      data: { lastError: error },
+    });
+  }
+
+  /**
+   * Give up on an event that cannot be relayed until it is re-driven
+   */
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.prisma.outboxEvent.update({
+      where: { id },
+      data: { status: 'FAILED', attempts: { increment: 1 }, lastError: error },
+    });
+  }
+
+  /**
+   * Oldest failed events first
+   */
+  async findFailed(limit: number = 100): Promise<OutboxEvent[]> {
+    return await this.prisma.outboxEvent.findMany({
+      where: { status: 'FAILED' },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Return failed events to PENDING, all of them when no ids are given
+   */
+  async redriveFailed(ids?: string[]): Promise<number> {
+    const result = await this.prisma.outboxEvent.updateMany({
+      where: { status: 'FAILED', id: ids ? { in: ids } : undefined },
+      data: { status: 'PENDING' },
+    });
+    return result.count;
+  }
+
+  /**
+   * Remove sent events older than the given date
+   */
+  async deleteSentBefore(date: Date): Promise<number> {
+    const result = await this.prisma.outboxEvent.deleteMany({
+      where: { status: 'SENT', sentAt: { lt: date } },
+    });
+    return result.count;
+  }
+}
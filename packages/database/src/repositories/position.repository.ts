@@ -1,5 +1,69 @@
 import type { PrismaClient } from '../generated/client';
-import type { Position, PositionWithTrades } from '../types';
+import type {
+  CloseReason,
+  PortfolioStats,
+  Position,
+  PositionPnl,
+  PositionWithTrades,
+  Trade,
+  TradingMode,
+} from '../types';
+
+const POSITION_INCLUDE = {
+  trades: true,
+  takeProfitLevels: { orderBy: { level: 'asc' as const } },
+};
+
+/**
+ * Work out PnL from the position's trades
+ *
+ * The cost basis is the BUY cost plus buy fees, realized PnL is SELL proceeds net of
+ * sell fees over the average cost of the amount sold, and unrealized PnL values the
+ * remaining amount at currentPrice. Positions without BUY trades fall back to entryPrice.
+ */
+export function computePositionPnl(
+  position: Pick<Position, 'amount' | 'entryPrice' | 'currentPrice' | 'status'>,
+  trades: Pick<Trade, 'type' | 'amount' | 'price' | 'fee'>[],
+): PositionPnl {
+  const buys = trades.filter((trade) => trade.type === 'BUY');
+  const sells = trades.filter((trade) => trade.type === 'SELL');
+  const remaining = position.status === 'CLOSED' ? 0 : Number(position.amount);
+
+  const soldAmount = sells.reduce((sum, trade) => sum + Number(trade.amount), 0);
+  const proceeds = sells.reduce(
+    (sum, trade) => sum + Number(trade.amount) * Number(trade.price),
+    0,
+  );
+  const sellFees = sells.reduce((sum, trade) => sum + Number(trade.fee ?? 0), 0);
+  const buyFees = buys.reduce((sum, trade) => sum + Number(trade.fee ?? 0), 0);
+
+  const boughtAmount =
+    buys.length > 0
+      ? buys.reduce((sum, trade) => sum + Number(trade.amount), 0)
+      : soldAmount + remaining;
+  const costBasis =
+    buys.length > 0
+      ? buys.reduce((sum, trade) => sum + Number(trade.amount) * Number(trade.price), 0) + buyFees
+      : Number(position.entryPrice) * boughtAmount;
+  const averageCost = boughtAmount > 0 ? costBasis / boughtAmount : Number(position.entryPrice);
+
+  const realized = proceeds - sellFees - averageCost * soldAmount;
+  const unrealized = (Number(position.currentPrice) - averageCost) * remaining;
+  const total = realized + unrealized;
+
+  return {
+    costBasis,
+    realized,
+    unrealized,
+    total,
+    totalPercent: costBasis > 0 ? (total / costBasis) * 100 : 0,
+    fees: buyFees + sellFees,
+  };
+}
+
+function toPnlFields(pnl: PositionPnl) {
+  return { pnl: pnl.total, pnlPercent: pnl.totalPercent, realizedPnl: pnl.realized };
+}
 
 export class PositionRepository {
   constructor(private prisma: PrismaClient) {}
@@ -12,29 +76,36 @@ export class PositionRepository {
     currentPrice: number;
     stopLoss?: number;
     takeProfit?: number;
+    trailingStopPercent?: number;
+    takeProfitLevels?: { targetPrice: number; sellFraction: number; amount: number }[];
+    mode?: TradingMode;
   }): Promise<PositionWithTrades> {
-    const result = await this.prisma.position.create({
-      data: data.accountId
+    const fields = {
+      token: data.token,
+      amount: data.amount,
+      entryPrice: data.entryPrice,
+      currentPrice: data.currentPrice,
+      stopLoss: data.stopLoss,
+      takeProfit: data.takeProfit,
+      trailingStopPercent: data.trailingStopPercent,
+      highWaterMark: data.trailingStopPercent !== undefined ? data.entryPrice : undefined,
+      status: 'OPEN',
+      mode: data.mode,
+      takeProfitLevels: data.takeProfitLevels?.length
         ? {
-            token: data.token,
-            amount: data.amount,
-            entryPrice: data.entryPrice,
-            currentPrice: data.currentPrice,
-            stopLoss: data.stopLoss,
-            takeProfit: data.takeProfit,
-            accountId: data.accountId,
-            status: 'OPEN',
+            create: data.takeProfitLevels.map((level, index) => ({
+              level: index + 1,
+              targetPrice: level.targetPrice,
+              sellFraction: level.sellFraction,
+              amount: level.amount,
+            })),
           }
-        : {
-            token: data.token,
-            amount: data.amount,
-            entryPrice: data.entryPrice,
-            currentPrice: data.currentPrice,
-            stopLoss: data.stopLoss,
-            takeProfit: data.takeProfit,
-            status: 'OPEN',
-          },
-      include: { trades: true },
+        : undefined,
+    };
+
+    const result = await this.prisma.position.create({
+      data: data.accountId ? { ...fields, accountId: data.accountId } : fields,
+      include: POSITION_INCLUDE,
     });
     return result as unknown as PositionWithTrades;
   }
@@ -42,83 +113,237 @@ export class PositionRepository {
   async findById(id: string): Promise<PositionWithTrades | null> {
     const result = await this.prisma.position.findUnique({
       where: { id },
-      include: { trades: true },
+      include: POSITION_INCLUDE,
     });
     return result as unknown as PositionWithTrades | null;
   }
 
-  async findOpenPositions(): Promise<PositionWithTrades[]> {
+  async findOpenPositions(mode?: TradingMode): Promise<PositionWithTrades[]> {
     const result = await this.prisma.position.findMany({
-      where: { status: 'OPEN' },
-      include: { trades: true },
+      where: { status: 'OPEN', mode },
+      include: POSITION_INCLUDE,
       orderBy: { openedAt: 'desc' },
     });
     return result as unknown as PositionWithTrades[];
   }
 
-  async findClosedPositions(limit: number = 50): Promise<PositionWithTrades[]> {
+  async findClosedPositions(limit: number = 50, mode?: TradingMode): Promise<PositionWithTrades[]> {
     const result = await this.prisma.position.findMany({
-      where: { status: 'CLOSED' },
-      include: { trades: true },
+      where: { status: 'CLOSED', mode },
+      include: POSITION_INCLUDE,
       orderBy: { closedAt: 'desc' },
       take: limit,
     });
     return result as unknown as PositionWithTrades[];
   }
 
-  async findByToken(token: string): Promise<PositionWithTrades[]> {
+  async findByToken(token: string, mode?: TradingMode): Promise<PositionWithTrades[]> {
     const result = await this.prisma.position.findMany({
-      where: { token },
-      include: { trades: true },
+      where: { token, mode },
+      include: POSITION_INCLUDE,
       orderBy: { openedAt: 'desc' },
     });
     return result as unknown as PositionWithTrades[];
   }
 
-  async updateCurrentPrice(id: string, currentPrice: number): Promise<Position | null> {
-    const position = await this.prisma.position.findUnique({
-      where: { id },
+  async findOpenPositionsByToken(token: string): Promise<PositionWithTrades[]> {
+    const result = await this.prisma.position.findMany({
+      where: { token, status: 'OPEN' },
+      include: POSITION_INCLUDE,
+      orderBy: { openedAt: 'asc' },
     });
+    return result as unknown as PositionWithTrades[];
+  }
+
+  async updateCurrentPrice(id: string, currentPrice: number): Promise<Position | null> {
+    const position = await this.findById(id);
 
     if (!position) return null;
 
-    const entryPrice = Number(position.entryPrice);
-    const pnl = ((currentPrice - entryPrice) / entryPrice) * 100;
+    const pnl = computePositionPnl({ ...position, currentPrice }, position.trades);
 
     const result = await this.prisma.position.update({
       where: { id },
-      data: { currentPrice, pnl },
+      data: { currentPrice, ...toPnlFields(pnl) },
     });
     return result as unknown as Position | null;
   }
 
+  /**
+   * Mark a position closed, storing the close reason and its final PnL.
+   * The exit SELL trade must already be recorded.
+   */
   async closePosition(
     id: string,
     exitPrice: number,
-    closeReason: 'TAKE_PROFIT' | 'STOP_LOSS' | 'MANUAL' | 'TIMEOUT',
+    closeReason: CloseReason,
   ): Promise<PositionWithTrades> {
+    const position = await this.findById(id);
+    const pnl = position
+      ? computePositionPnl(
+          { ...position, currentPrice: exitPrice, status: 'CLOSED' },
+          position.trades,
+        )
+      : null;
+
     const result = await this.prisma.position.update({
       where: { id },
       data: {
         currentPrice: exitPrice,
         status: 'CLOSED',
         closedAt: new Date(),
+        closeReason,
+        ...(pnl ? toPnlFields(pnl) : {}),
       },
-      include: { trades: true },
+      include: POSITION_INCLUDE,
     });
     return result as unknown as PositionWithTrades;
   }
 
-  async countOpenPositions(): Promise<number> {
+  /**
+   * Raise the high-water mark and move the trailing stop up with it
+   */
+  async updateTrailingStop(id: string, highWaterMark: number, stopLoss: number): Promise<void> {
+    await this.prisma.position.update({
+      where: { id },
+      data: { highWaterMark, stopLoss },
+    });
+  }
+
+  /**
+   * Record a partial take-profit sell on a claimed (CLOSING) position and reopen it.
+   * Build the repository on a transaction client (writeWithOutbox) to apply it atomically.
+   */
+  async recordPartialExit(
+    id: string,
+    takeProfitLevelId: string,
+    amountSold: number,
+  ): Promise<void> {
+    await this.prisma.takeProfitLevel.update({
+      where: { id: takeProfitLevelId },
+      data: { filledAt: new Date() },
+    });
+    await this.prisma.position.update({
+      where: { id },
+      data: { amount: { decrement: amountSold }, status: 'OPEN' },
+    });
+
+    await this.refreshPnl(id);
+  }
+
+  /**
+   * Recompute the stored PnL columns from the position's trades
+   */
+  private async refreshPnl(id: string): Promise<void> {
+    const position = await this.findById(id);
+    if (!position) return;
+
+    await this.prisma.position.update({
+      where: { id },
+      data: toPnlFields(computePositionPnl(position, position.trades)),
+    });
+  }
+
+  /**
+   * Get realized and unrealized PnL of a position
+   */
+  async getPnl(id: string): Promise<PositionPnl | null> {
+    const position = await this.findById(id);
+    if (!position) return null;
+
+    return computePositionPnl(position, position.trades);
+  }
+
+  /**
+   * Atomically move an OPEN position to CLOSING.
+   * Returns false when another process already claimed or closed it.
+   */
+  async claimForClose(id: string): Promise<boolean> {
+    const result = await this.prisma.position.updateMany({
+      where: { id, status: 'OPEN' },
+      data: { status: 'CLOSING' },
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Return a CLOSING position to OPEN after a failed close
+   */
+  async releaseClaim(id: string): Promise<void> {
+    await this.prisma.position.updateMany({
+      where: { id, status: 'CLOSING' },
+      data: { status: 'OPEN' },
+    });
+  }
+
+  /**
+   * Count open positions, including CLOSING ones whose exit is in flight
+   */
+  async countOpenPositions(mode?: TradingMode): Promise<number> {
     return await this.prisma.position.count({
-      where: { status: 'OPEN' },
+      where: { status: { in: ['OPEN', 'CLOSING'] }, mode },
     });
   }
 
-  async hasOpenPositionForToken(token: string): Promise<boolean> {
+  async hasOpenPositionForToken(token: string, mode?: TradingMode): Promise<boolean> {
     const count = await this.prisma.position.count({
-      where: { token, status: 'OPEN' },
+      where: { token, status: { in: ['OPEN', 'CLOSING'] }, mode },
     });
     return count > 0;
   }
+
+  /**
+   * Aggregate PnL over open and closed positions
+   */
+  async getPortfolioStats(mode?: TradingMode): Promise<PortfolioStats> {
+    const positions = (await this.prisma.position.findMany({
+      where: { mode },
+      include: { trades: true },
+    })) as unknown as (Position & { trades: Trade[] })[];
+
+    const stats: PortfolioStats = {
+      totalPositions: positions.length,
+      openPositions: 0,
+      closedPositions: 0,
+      totalValue: 0,
+      realizedPnl: 0,
+      unrealizedPnl: 0,
+      totalPnl: 0,
+      avgPnl: 0,
+      winningPositions: 0,
+      losingPositions: 0,
+      winRate: 0,
+      totalFees: 0,
+      closeReasons: { TAKE_PROFIT: 0, STOP_LOSS: 0, MANUAL: 0, TIMEOUT: 0 },
+    };
+    let closedWinners = 0;
+    let pnlPercentSum = 0;
+
+    for (const position of positions) {
+      const pnl = computePositionPnl(position, position.trades);
+
+      stats.realizedPnl += pnl.realized;
+      stats.unrealizedPnl += pnl.unrealized;
+      stats.totalFees += pnl.fees;
+      pnlPercentSum += pnl.totalPercent;
+
+      if (pnl.total > 0) stats.winningPositions++;
+      else if (pnl.total < 0) stats.losingPositions++;
+
+      if (position.status === 'CLOSED') {
+        stats.closedPositions++;
+        if (pnl.total > 0) closedWinners++;
+        if (position.closeReason) stats.closeReasons[position.closeReason]++;
+      } else {
+        stats.openPositions++;
+        stats.totalValue += Number(position.amount) * Number(position.currentPrice);
+      }
+    }
+
+    stats.totalPnl = stats.realizedPnl + stats.unrealizedPnl;
+    stats.avgPnl = positions.length > 0 ? pnlPercentSum / positions.length : 0;
+    stats.winRate = stats.closedPositions > 0 ? (closedWinners / stats.closedPositions) * 100 : 0;
+
+    return stats;
+  }
 }
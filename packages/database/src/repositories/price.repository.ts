@@ -5,6 +5,7 @@ export class PriceRepository {
   constructor(private prisma: PrismaClient) {}
 
   async create(data: {
+    eventId?: string;
     token: string;
     price: number;
     source: string;
@@ -13,6 +14,7 @@ export class PriceRepository {
   }): Promise<PriceRecord> {
     return await this.prisma.priceRecord.create({
       data: {
+        eventId: data.eventId,
         token: data.token,
         price: data.price,
         source: data.source,
@@ -22,6 +24,26 @@ export class PriceRepository {
     });
   }
 
+  /**
+   * Store the price of a PRICE_UPDATE event unless it was stored already
+   * Returns false when a record for the event exists.
+   */
+  async createIfNew(data: {
+    eventId: string;
+    token: string;
+    price: number;
+    source: string;
+    confidence: number;
+    volume24h?: number;
+    timestamp?: Date;
+  }): Promise<boolean> {
+    const result = await this.prisma.priceRecord.createMany({
+      data,
+      skipDuplicates: true,
+    });
+    return result.count === 1;
+  }
+
   async findLatestByToken(token: string): Promise<PriceRecord | null> {
     return await this.prisma.priceRecord.findFirst({
       where: { token },
@@ -50,6 +72,21 @@ export class PriceRepository {
     });
   }
 
+  /**
+   * Prices of every token in a time range, oldest first
+   */
+  async findInRange(start: Date, end: Date): Promise<PriceRecord[]> {
+    return await this.prisma.priceRecord.findMany({
+      where: {
+        timestamp: {
+          gte: start,
+          lte: end,
+        },
+      },
+      orderBy: { timestamp: 'asc' },
+    });
+  }
+
   async cleanup(olderThanDays: number): Promise<{ count: number }> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
@@ -0,0 +1,41 @@
+import { Prisma, PrismaClient } from '../generated/client';
+import type { QueueAuditLog } from '../generated/client';
+
+export interface QueueAuditLogData {
+  action: string;
+  queueName: string;
+  actor?: string;
+  params?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Audit trail of administrative operations on BullMQ queues
+ */
+export class QueueAuditLogRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: QueueAuditLogData): Promise<QueueAuditLog> {
+    return await this.prisma.queueAuditLog.create({
+      data: {
+        action: data.action,
+        queueName: data.queueName,
+        actor: data.actor,
+        params: data.params as Prisma.InputJsonValue | undefined,
+        result: data.result as Prisma.InputJsonValue | undefined,
+        success: data.success,
+        error: data.error,
+      },
+    });
+  }
+
+  async findRecent(limit: number = 50, queueName?: string): Promise<QueueAuditLog[]> {
+    return await this.prisma.queueAuditLog.findMany({
+      where: { queueName },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+}
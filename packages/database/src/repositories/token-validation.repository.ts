@@ -2,6 +2,7 @@ import { PrismaClient } from '../generated/client';
 import type { TokenValidationRecord } from '../generated/client';
 
 export interface TokenValidationData {
+  eventId?: string;
   token: string;
   isRenounced?: boolean;
   isBurned?: boolean;
@@ -25,6 +26,21 @@ export class TokenValidationRepository {
     });
   }
 
+  /**
+   * Store the validation of a TOKEN_VALIDATED event unless it was stored already
+   * Returns false when a record for the event exists.
+   */
+  async createIfNew(data: TokenValidationData & { eventId: string }): Promise<boolean> {
+    const result = await this.prisma.tokenValidationRecord.createMany({
+      data: {
+        ...data,
+        validatedAt: data.validatedAt ?? new Date(),
+      },
+      skipDuplicates: true,
+    });
+    return result.count === 1;
+  }
+
   async findById(id: string): Promise<TokenValidationRecord | null> {
     return await this.prisma.tokenValidationRecord.findUnique({
       where: { id },
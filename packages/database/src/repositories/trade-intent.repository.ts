@@ -0,0 +1,57 @@
+import type { PrismaClient, TradeIntent } from '../generated/client';
+import type { TradingMode } from '../types';
+
+/**
+ * Buys claimed per BURN_DETECTED event
+ *
+ * An intent with a signature but no position is a swap that was sent without being recorded,
+ * a redelivered event reconciles it from the transaction instead of buying again.
+ */
+export class TradeIntentRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Claim the buy for an event before swapping.
+   * Returns false when the event was claimed already.
+   */
+  async claim(data: { eventId: string; token: string; mode: TradingMode }): Promise<boolean> {
+    const result = await this.prisma.tradeIntent.createMany({
+      data,
+      skipDuplicates: true,
+    });
+    return result.count === 1;
+  }
+
+  async findByEventId(eventId: string): Promise<TradeIntent | null> {
+    return await this.prisma.tradeIntent.findUnique({ where: { eventId } });
+  }
+
+  /**
+   * Store the swap signature before the transaction is sent
+   */
+  async recordSignature(eventId: string, signature: string): Promise<void> {
+    await this.prisma.tradeIntent.update({
+      where: { eventId },
+      data: { signature },
+    });
+  }
+
+  /**
+   * Link the claim to the position the buy opened
+   */
+  async complete(eventId: string, positionId: string): Promise<void> {
+    await this.prisma.tradeIntent.update({
+      where: { eventId },
+      data: { positionId },
+    });
+  }
+
+  /**
+   * Drop a claim whose swap did not go through, so the event can be retried
+   */
+  async release(eventId: string): Promise<void> {
+    await this.prisma.tradeIntent.deleteMany({
+      where: { eventId, positionId: null },
+    });
+  }
+}
@@ -1,5 +1,16 @@
-import type { PrismaClient } from '../generated/client';
-import type { TradeSettings } from '../types';
+import { Prisma, type PrismaClient } from '../generated/client';
+import type { TakeProfitLadderStep, TradeSettings, TradingMode } from '../types';
+
+/**
+ * Map a ladder to the Json column input (null clears the ladder)
+ */
+function toLadderInput(
+  ladder: TakeProfitLadderStep[] | null | undefined,
+): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+  if (ladder === undefined) return undefined;
+  if (ladder === null) return Prisma.DbNull;
+  return ladder.map((step) => ({ gainPercent: step.gainPercent, sellFraction: step.sellFraction }));
+}
 
 export class TradeSettingsRepository {
   constructor(private prisma: PrismaClient) {}
@@ -7,15 +18,19 @@ export class TradeSettingsRepository {
   async create(data: {
     name: string;
     enabled?: boolean;
+    mode?: TradingMode;
     maxSlippage?: number;
     maxPositions?: number;
     stopLossPercent?: number;
     takeProfitPercent?: number;
     minBurnAmount?: number;
+    trailingStopPercent?: number | null;
+    takeProfitLadder?: TakeProfitLadderStep[] | null;
   }): Promise<TradeSettings> {
     const result = await this.prisma.tradeSettings.create({
       data: {
         ...data,
+        takeProfitLadder: toLadderInput(data.takeProfitLadder),
         maxSlippage: data.maxSlippage || 0.03,
         maxPositions: data.maxPositions || 5,
         stopLossPercent: data.stopLossPercent || 0.1,
@@ -56,16 +71,23 @@ export class TradeSettingsRepository {
     id: string,
     data: Partial<{
       enabled: boolean;
+      mode: TradingMode;
       maxSlippage: number;
       maxPositions: number;
       stopLossPercent: number;
       takeProfitPercent: number;
       minBurnAmount: number;
+      trailingStopPercent: number | null;
+      takeProfitLadder: TakeProfitLadderStep[] | null;
     }>,
   ): Promise<TradeSettings> {
     const result = await this.prisma.tradeSettings.update({
       where: { id },
-      data: { ...data, updatedAt: new Date() },
+      data: {
+        ...data,
+        takeProfitLadder: toLadderInput(data.takeProfitLadder),
+        updatedAt: new Date(),
+      },
     });
     return result as unknown as TradeSettings;
   }
@@ -74,16 +96,23 @@ export class TradeSettingsRepository {
     name: string,
     data: Partial<{
       enabled: boolean;
+      mode: TradingMode;
       maxSlippage: number;
       maxPositions: number;
       stopLossPercent: number;
       takeProfitPercent: number;
       minBurnAmount: number;
+      trailingStopPercent: number | null;
+      takeProfitLadder: TakeProfitLadderStep[] | null;
     }>,
   ): Promise<TradeSettings> {
     const result = await this.prisma.tradeSettings.update({
       where: { name },
-      data: { ...data, updatedAt: new Date() },
+      data: {
+        ...data,
+        takeProfitLadder: toLadderInput(data.takeProfitLadder),
+        updatedAt: new Date(),
+      },
     });
     return result as unknown as TradeSettings;
   }
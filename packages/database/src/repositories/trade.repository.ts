@@ -1,5 +1,5 @@
 import type { PrismaClient } from '../generated/client';
-import type { Trade, TradeWithPosition } from '../types';
+import type { Trade, TradeWithPosition, TradingMode } from '../types';
 
 export class TradeRepository {
   constructor(private prisma: PrismaClient) {}
@@ -11,6 +11,9 @@ export class TradeRepository {
     price: number;
     signature: string;
     slippage: number;
+    /** Swap fees in the quote currency */
+    fee?: number;
+    mode?: TradingMode;
   }): Promise<Trade> {
     const result = await this.prisma.trade.create({
       data: {
@@ -47,8 +50,9 @@ export class TradeRepository {
     return result as unknown as TradeWithPosition | null;
   }
 
-  async findRecent(limit: number = 50): Promise<TradeWithPosition[]> {
+  async findRecent(limit: number = 50, mode?: TradingMode): Promise<TradeWithPosition[]> {
     const result = await this.prisma.trade.findMany({
+      where: { mode },
       orderBy: { timestamp: 'desc' },
       take: limit,
       include: { position: true },
@@ -56,9 +60,13 @@ export class TradeRepository {
     return result as unknown as TradeWithPosition[];
   }
 
-  async findTradesByType(type: 'BUY' | 'SELL', limit: number = 50): Promise<TradeWithPosition[]> {
+  async findTradesByType(
+    type: 'BUY' | 'SELL',
+    limit: number = 50,
+    mode?: TradingMode,
+  ): Promise<TradeWithPosition[]> {
     const result = await this.prisma.trade.findMany({
-      where: { type },
+      where: { type, mode },
       orderBy: { timestamp: 'desc' },
       take: limit,
       include: { position: true },
@@ -66,13 +74,14 @@ export class TradeRepository {
     return result as unknown as TradeWithPosition[];
   }
 
-  async calculateTotalVolume(startDate: Date, endDate: Date): Promise<number> {
+  async calculateTotalVolume(startDate: Date, endDate: Date, mode?: TradingMode): Promise<number> {
     const result = await this.prisma.trade.aggregate({
       where: {
         timestamp: {
           gte: startDate,
           lte: endDate,
         },
+        mode,
       },
       _sum: {
         amount: true,
@@ -82,7 +91,7 @@ export class TradeRepository {
     return Number(result._sum.amount || 0);
   }
 
-  async calculateWinRate(startDate: Date, endDate: Date): Promise<number> {
+  async calculateWinRate(startDate: Date, endDate: Date, mode?: TradingMode): Promise<number> {
     const trades = await this.prisma.trade.findMany({
       where: {
         timestamp: {
@@ -90,6 +99,7 @@ export class TradeRepository {
           lte: endDate,
         },
         type: 'SELL',
+        mode,
       },
       include: { position: true },
     });
@@ -103,13 +113,14 @@ export class TradeRepository {
     return (winningTrades.length / trades.length) * 100;
   }
 
-  async countTradesInRange(startDate: Date, endDate: Date): Promise<number> {
+  async countTradesInRange(startDate: Date, endDate: Date, mode?: TradingMode): Promise<number> {
     return await this.prisma.trade.count({
       where: {
         timestamp: {
           gte: startDate,
           lte: endDate,
         },
+        mode,
       },
     });
   }
@@ -24,6 +24,36 @@ export class WorkerStatusRepository {
     });
   }
 
+  /**
+   * Store a status reported at `lastSeen` unless a newer one is stored
+   * Returns false when the stored status is as new or newer.
+   */
+  async upsertIfNewer(data: {
+    name: string;
+    status: 'RUNNING' | 'STOPPED' | 'ERROR';
+    metrics: Record<string, unknown>;
+    lastSeen: Date;
+  }): Promise<boolean> {
+    const record = {
+      status: data.status,
+      lastSeen: data.lastSeen,
+      metrics: data.metrics as Prisma.InputJsonValue,
+    };
+    const updated = await this.prisma.workerStatusRecord.updateMany({
+      where: { name: data.name, lastSeen: { lt: data.lastSeen } },
+      data: record,
+    });
+    if (updated.count > 0) {
+      return true;
+    }
+
+    const created = await this.prisma.workerStatusRecord.createMany({
+      data: { name: data.name, ...record },
+      skipDuplicates: true,
+    });
+    return created.count === 1;
+  }
+
   async findByName(name: string): Promise<WorkerStatusRecord | null> {
     return await this.prisma.workerStatusRecord.findUnique({
       where: { name },
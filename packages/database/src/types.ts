@@ -3,6 +3,8 @@
  * These are portable interfaces that don't reference internal pnpm paths.
  */
 
+export type TradingMode = 'LIVE' | 'PAPER';
+
 export interface Trade {
   id: string;
   positionId: string;
@@ -10,6 +12,9 @@ export interface Trade {
   amount: number;
   price: number;
   slippage: number;
+  /** Swap fees in the quote currency */
+  fee: number;
+  mode: TradingMode;
   timestamp: Date;
   txSignature?: string | null;
   createdAt: Date;
@@ -23,16 +28,71 @@ export interface Position {
   currentPrice: number;
   stopLoss?: number | null;
   takeProfit?: number | null;
-  status: 'OPEN' | 'CLOSED';
+  trailingStopPercent?: number | null;
+  highWaterMark?: number | null;
+  status: 'OPEN' | 'CLOSING' | 'CLOSED';
+  mode: TradingMode;
+  /** Realized + unrealized PnL in the quote currency */
   pnl?: number | null;
+  /** pnl relative to the cost basis (5 = +5%) */
+  pnlPercent?: number | null;
+  realizedPnl?: number | null;
   accountId?: string | null;
   openedAt: Date;
   closedAt?: Date | null;
+  closeReason?: CloseReason | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export type PositionWithTrades = Position & { trades: Trade[] };
+export type CloseReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'MANUAL' | 'TIMEOUT';
+
+export interface TakeProfitLevel {
+  id: string;
+  positionId: string;
+  level: number;
+  targetPrice: number;
+  sellFraction: number;
+  amount: number;
+  filledAt?: Date | null;
+}
+
+export type PositionWithTrades = Position & {
+  trades: Trade[];
+  takeProfitLevels: TakeProfitLevel[];
+};
+
+export interface PositionPnl {
+  /** BUY cost including buy fees */
+  costBasis: number;
+  /** PnL locked in by SELL trades, net of sell fees */
+  realized: number;
+  /** PnL of the remaining amount at currentPrice */
+  unrealized: number;
+  total: number;
+  /** total relative to the cost basis (5 = +5%) */
+  totalPercent: number;
+  fees: number;
+}
+
+export interface PortfolioStats {
+  totalPositions: number;
+  openPositions: number;
+  closedPositions: number;
+  /** Market value of open positions */
+  totalValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+  /** Average pnlPercent over all positions */
+  avgPnl: number;
+  winningPositions: number;
+  losingPositions: number;
+  /** Share of closed positions with a positive PnL (55 = 55%) */
+  winRate: number;
+  totalFees: number;
+  closeReasons: Record<CloseReason, number>;
+}
 
 export type TradeWithPosition = Trade & { position: Position | null };
 
@@ -40,11 +100,22 @@ export interface TradeSettings {
   id: string;
   name: string;
   enabled: boolean;
+  /** Execution backend used by positions opened with this profile */
+  mode: TradingMode;
   maxSlippage: number;
   maxPositions: number;
   stopLossPercent: number;
   takeProfitPercent: number;
   minBurnAmount: number;
+  trailingStopPercent?: number | null;
+  takeProfitLadder?: TakeProfitLadderStep[] | null;
   createdAt: Date;
   updatedAt: Date;
 }
+
+export interface TakeProfitLadderStep {
+  /** Gain over the entry price that triggers this step (0.25 = +25%) */
+  gainPercent: number;
+  /** Fraction of the opening amount sold at this step (0.3 = 30%) */
+  sellFraction: number;
+}
@@ -146,9 +146,9 @@ export class DeadLetterQueue {
   }
 
   /**
-   * Clear all events from the DLQ
+   * Clear all events from the DLQ, returns how many were removed
    */
-  async clear(): Promise<void> {
+  async clear(): Promise<number> {
     const ids = await this.redis.zrange(`${this.keyPrefix}:index`, 0, -1);
 
     if (ids.length > 0) {
@@ -157,6 +157,8 @@ export class DeadLetterQueue {
     }
 
     console.log(`[DLQ] Cleared ${ids.length} events from dead letter queue`);
+
+    return ids.length;
   }
 
   /**
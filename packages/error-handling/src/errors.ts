@@ -14,6 +14,14 @@ export class BaseError extends Error {
     Error.captureStackTrace(this, this.constructor);
   }
 
+  /**
+   * Whether the failed operation may succeed if tried again
+   * Rate limits and server-side failures may, bad input and missing resources won't.
+   */
+  get retryable(): boolean {
+    return this.statusCode === 429 || this.statusCode >= 500;
+  }
+
   toJSON() {
     return {
       name: this.name,
@@ -157,6 +165,18 @@ export function isBaseError(error: unknown): error is BaseError {
   return error instanceof BaseError;
 }
 
+/**
+ * Whether an error is worth retrying
+ * Errors outside the BaseError hierarchy are treated as transient (connection
+ * resets, timeouts), except schema validation failures.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isBaseError(error)) {
+    return error.retryable;
+  }
+  return !(error instanceof Error && error.name === 'ZodError');
+}
+
 /**
  * Format error for logging
  */
@@ -1,5 +1,6 @@
 import type { JobsOptions } from 'bullmq';
 import type { AnyEvent } from './index';
+import { getEventJobOptions, getEventRoute, type QueueName } from './routing';
 import type {
   DEXQuoteComparisonEvent,
   BurnDetectedEvent,
@@ -12,6 +13,7 @@ import type {
   MarketDiscoveredEvent,
   TokenValidatedEvent,
   PoolDiscoveredEvent,
+  RugRiskAssessment,
 } from '@solana-eda/types';
 
 // Re-export deduplication utilities for BullMQ jobs
@@ -21,76 +23,11 @@ export {
   checkJobDuplicate,
 } from './deduplication';
 
-/**
- * BullMQ queue names for each event type
- */
-export const QUEUE_NAMES = {
-  BURN: 'events:burn',
-  LIQUIDITY: 'events:liquidity',
-  TRADES: 'events:trades',
-  POSITIONS: 'events:positions',
-  DEX_COMPARISON: 'events:dex-comparison',
-  PRICE: 'events:price',
-  MARKETS: 'events:markets',
-  TOKENS: 'events:tokens',
-  POOLS: 'events:pools',
-  WORKERS_STATUS: 'workers:status',
-} as const;
-
-/**
- * Job priority mapping for event types
- * Lower number = higher priority
- */
-export const JOB_PRIORITIES = {
-  BURN_DETECTED: 1,      // highest priority
-  TRADE_EXECUTED: 2,
-  POSITION_OPENED: 2,
-  POSITION_CLOSED: 2,
-  LIQUIDITY_CHANGED: 5,
-  DEX_QUOTE_COMPARISON: 5,
-  MARKET_DISCOVERED: 5,
-  TOKEN_VALIDATED: 5,
-  POOL_DISCOVERED: 5,
-  WORKER_STATUS: 5,
-  PRICE_UPDATE: 10,      // lowest priority (high frequency)
-} as const;
-
-/**
- * Default job options for BullMQ jobs
- */
-export const DEFAULT_JOB_OPTIONS: JobsOptions = {
-  attempts: 3,
-  backoff: {
-    type: 'exponential',
-    delay: 1000,
-  },
-};
-
 /**
  * Get priority for an event type
  */
 export function getEventPriority(eventType: AnyEvent['type']): number {
-  return JOB_PRIORITIES[eventType as keyof typeof JOB_PRIORITIES] ?? 5;
-}
-
-/**
- * Get queue name for an event type
- */
-export function getQueueNameForEvent(eventType: AnyEvent['type']): string {
-  const queueMapping: Record<string, string> = {
-    BURN_DETECTED: QUEUE_NAMES.BURN,
-    LIQUIDITY_CHANGED: QUEUE_NAMES.LIQUIDITY,
-    TRADE_EXECUTED: QUEUE_NAMES.TRADES,
-    POSITION_OPENED: QUEUE_NAMES.POSITIONS,
-    POSITION_CLOSED: QUEUE_NAMES.POSITIONS,
-    WORKER_STATUS: QUEUE_NAMES.WORKERS_STATUS,
-    PRICE_UPDATE: QUEUE_NAMES.PRICE,
-    DEX_QUOTE_COMPARISON: QUEUE_NAMES.DEX_COMPARISON,
-    MARKET_DISCOVERED: QUEUE_NAMES.MARKETS,
-    TOKEN_VALIDATED: QUEUE_NAMES.TOKENS,
-    POOL_DISCOVERED: QUEUE_NAMES.POOLS,
-  };
-  return queueMapping[eventType] ?? 'events:default';
+  return getEventRoute(eventType).priority;
 }
 
 /**
@@ -305,6 +242,16 @@ export interface TokenValidatedJobData {
       supplyBurnedPercent?: number;
       lpTokensBurned: boolean;
       liquidityLocked: boolean;
+      freezeAuthorityRenounced?: boolean;
+      transferFeeBps?: number;
+      permanentDelegate?: string;
+      transferHookProgram?: string;
+      lpBurnedPercent?: number;
+      lpLockedPercent?: number;
+      lockerPrograms?: string[];
+      topHoldersPercent?: number;
+      largestHolderPercent?: number;
+      risk?: RugRiskAssessment;
     };
   };
 }
@@ -325,6 +272,9 @@ export interface PoolDiscoveredJobData {
     initialTvl: string;
     discoveredAt: string;
     discoverySource: string;
+    marketAddress?: string;
+    creator?: string;
+    initialPrice?: string;
     poolData?: {
       lpMint?: string;
       feeRate?: number;
@@ -359,16 +309,13 @@ export function eventToJobData(event: AnyEvent): EventJobData {
  * Create BullMQ job options for an event
  * Uses eventId (UUID) when available for deduplication, otherwise falls back to legacy id
  */
-export function createJobOptions(
-  event: AnyEvent,
-  customOptions?: JobsOptions,
-): JobsOptions {
-  const priority = getEventPriority(event.type);
+export function createJobOptions(event: AnyEvent, customOptions?: JobsOptions): JobsOptions {
+  const { priority, jobId, ...retry } = getEventJobOptions(event);
   return {
-    ...DEFAULT_JOB_OPTIONS,
+    ...retry,
     ...customOptions,
     priority,
-    jobId: event.eventId || event.id,
+    jobId,
   };
 }
 
@@ -570,8 +517,8 @@ export function createJobFromEvent(event: AnyEvent, customOptions?: JobsOptions)
 }
 
 /**
- * Get the queue name for a given event
+ * Get the queues an event is routed to
  */
-export function getQueueForEvent(event: AnyEvent): string {
-  return getQueueNameForEvent(event.type);
+export function getQueuesForEvent(event: AnyEvent): readonly QueueName[] {
+  return getEventRoute(event.type).queues;
 }
@@ -6,6 +6,13 @@ import {
   validateEvent,
   BurnEventSchema,
   isBurnEvent,
+  EVENT_ROUTES,
+  EVENT_TYPES,
+  JOB_PRIORITY,
+  QUEUES,
+  getEventJobOptions,
+  getEventTypesForQueue,
+  parseRoutedEvent,
 } from '@solana-eda/events';
 
 describe('Events', () => {
@@ -51,7 +58,7 @@ describe('Events', () => {
       };
 
       const result = validateEvent(event);
-      expect(result).toEqual(event);
+      expect(result).toEqual({ ...event, schemaVersion: 1 });
     });
 
     it('should throw on invalid event', () => {
@@ -65,4 +72,53 @@ describe('Events', () => {
       expect(() => validateEvent(invalidEvent)).toThrow();
     });
   });
+
+  describe('routing', () => {
+    const burn = createBurnEvent({
+      token: 'So11111111111111111111111111111111111111112',
+      amount: '1000000',
+      percentage: 0.05,
+      txSignature: 'test-signature',
+      burner: 'test-burner',
+      preSupply: '10000000000',
+      postSupply: '9999000000',
+    });
+
+    it('should route every queue to at least one event type', () => {
+      for (const queue of Object.values(QUEUES)) {
+        expect(getEventTypesForQueue(queue).length).toBeGreaterThan(0);
+      }
+    });
+
+    it('should fan burns out to the API and trading bot queues', () => {
+      expect(EVENT_ROUTES.BURN_DETECTED.queues).toEqual([
+        QUEUES.BURN_EVENTS,
+        QUEUES.TRADING_BURN_EVENTS,
+      ]);
+      expect(getEventTypesForQueue(QUEUES.TOKEN_VALIDATOR_EVENTS)).toEqual([
+        'MARKET_DISCOVERED',
+        'POOL_DISCOVERED',
+      ]);
+      expect(getEventTypesForQueue(QUEUES.POSITION_EVENTS)).toEqual([
+        'POSITION_OPENED',
+        'POSITION_CLOSED',
+      ]);
+    });
+
+    it('should build job options from the route', () => {
+      expect(getEventJobOptions(burn)).toEqual({
+        priority: JOB_PRIORITY.CRITICAL,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 1000 },
+        jobId: burn.eventId,
+      });
+    });
+
+    it('should validate events against their route schema', () => {
+      expect(parseRoutedEvent(burn)).toEqual(burn);
+      expect(() => parseRoutedEvent({ ...burn, data: {} })).toThrow();
+      expect(() => parseRoutedEvent({ ...burn, type: 'INVALID_TYPE' })).toThrow();
+      expect(EVENT_TYPES).toHaveLength(11);
+    });
+  });
 });
@@ -14,6 +14,22 @@ import type {
   PoolDiscoveredEvent,
 } from '@solana-eda/types';
 import Redis from 'ioredis';
+import {
+  BurnEventSchema,
+  LiquidityEventSchema,
+  TradeEventSchema,
+  PositionOpenedEventSchema,
+  PositionClosedEventSchema,
+  WorkerStatusEventSchema,
+  PriceUpdateEventSchema,
+  DEXQuoteComparisonEventSchema,
+  MarketDiscoveredEventSchema,
+  TokenValidatedEventSchema,
+  PoolDiscoveredEventSchema,
+  EventSchema,
+  type AnyEvent,
+} from './schemas';
+import { upcastEvent } from './upcasting';
 
 // Re-export deduplication utilities
 export * from './deduplication';
@@ -31,6 +47,15 @@ export const isBullMQEnabled = (): boolean => FeatureFlags.isBullMQEnabled();
 export const getBullMQRedisUrl = (): string => FeatureFlags.getBullMQRedisUrl();
 export const getBullMQConcurrency = (): number => FeatureFlags.getBullMQConcurrency();
 
+// Re-export event schemas
+export * from './schemas';
+
+// Re-export schema version upcasting
+export * from './upcasting';
+
+// Re-export the event routing table
+export * from './routing';
+
 // Re-export BullMQ support
 export * from './bullmq';
 
@@ -52,242 +77,6 @@ export const CHANNELS = {
   COMMANDS_WORKERS: 'commands:workers',
 } as const;
 
-// Event schemas for validation
-export const BurnEventSchema = z.object({
-  type: z.literal('BURN_DETECTED'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    token: z.string(),
-    amount: z.string(),
-    percentage: z.number(),
-    txSignature: z.string(),
-    burner: z.string(),
-    preSupply: z.string(),
-    postSupply: z.string(),
-  }),
-});
-
-export const LiquidityEventSchema = z.object({
-  type: z.literal('LIQUIDITY_CHANGED'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    poolAddress: z.string(),
-    tokenA: z.string(),
-    tokenB: z.string(),
-    oldTvl: z.string(),
-    newTvl: z.string(),
-    price: z.string(),
-    changePercentage: z.number(),
-  }),
-});
-
-export const TradeEventSchema = z.object({
-  type: z.literal('TRADE_EXECUTED'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    tradeId: z.string(),
-    type: z.enum(['BUY', 'SELL']),
-    tokenIn: z.string(),
-    tokenOut: z.string(),
-    amountIn: z.string(),
-    amountOut: z.string(),
-    price: z.string(),
-    slippage: z.number(),
-    txSignature: z.string(),
-    positionId: z.string(),
-  }),
-});
-
-export const PositionOpenedEventSchema = z.object({
-  type: z.literal('POSITION_OPENED'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    positionId: z.string(),
-    token: z.string(),
-    amount: z.string(),
-    entryPrice: z.string(),
-    stopLoss: z.string().optional(),
-    takeProfit: z.string().optional(),
-  }),
-});
-
-export const PositionClosedEventSchema = z.object({
-  type: z.literal('POSITION_CLOSED'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    positionId: z.string(),
-    token: z.string(),
-    exitPrice: z.string(),
-    pnl: z.string(),
-    pnlPercent: z.number(),
-    holdDuration: z.number(),
-    closeReason: z.enum(['TAKE_PROFIT', 'STOP_LOSS', 'MANUAL', 'TIMEOUT']),
-  }),
-});
-
-export const WorkerStatusEventSchema = z.object({
-  type: z.literal('WORKER_STATUS'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    workerName: z.string(),
-    status: z.enum(['RUNNING', 'STOPPED', 'ERROR']),
-    metrics: z.object({
-      eventsProcessed: z.number(),
-      errors: z.number(),
-      uptime: z.number(),
-      lastEventAt: z.string().optional(),
-    }),
-  }),
-});
-
-export const PriceUpdateEventSchema = z.object({
-  type: z.literal('PRICE_UPDATE'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    token: z.string(),
-    price: z.string(),
-    source: z.string(),
-    confidence: z.number(),
-    volume24h: z.string().optional(),
-    priceChange24h: z.number().optional(),
-    sources: z.array(
-      z.object({
-        dex: z.string(),
-        price: z.string(),
-        volume24h: z.string().optional(),
-      }),
-    ),
-  }),
-});
-
-export const DEXQuoteComparisonEventSchema = z.object({
-  type: z.literal('DEX_QUOTE_COMPARISON'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    inputMint: z.string(),
-    outputMint: z.string(),
-    amount: z.string(),
-    quotes: z.array(
-      z.object({
-        dex: z.string(),
-        outAmount: z.string(),
-        priceImpactPct: z.number(),
-      }),
-    ),
-    selectedDEX: z.string(),
-    bestQuote: z.object({
-      dex: z.string(),
-      outAmount: z.string(),
-      priceImpactPct: z.number(),
-    }),
-  }),
-});
-
-export const MarketDiscoveredEventSchema = z.object({
-  type: z.literal('MARKET_DISCOVERED'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    marketAddress: z.string(),
-    baseMint: z.string(),
-    quoteMint: z.string(),
-    dexType: z.enum(['OPENBOOK', 'RAYDIUM', 'ORCA', 'METEORA']),
-    discoveredAt: z.string(),
-    source: z.string(),
-    marketData: z
-      .object({
-        name: z.string().optional(),
-        minOrderSize: z.string().optional(),
-        tickSize: z.string().optional(),
-      })
-      .optional(),
-  }),
-});
-
-export const TokenValidatedEventSchema = z.object({
-  type: z.literal('TOKEN_VALIDATED'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    token: z.string(),
-    isRenounced: z.boolean().optional(),
-    isBurned: z.boolean().optional(),
-    isLocked: z.boolean().optional(),
-    lpBurnedCount: z.number().optional(),
-    confidence: z.number(),
-    validatedAt: z.string(),
-    txSignature: z.string().optional(),
-    validationDetails: z
-      .object({
-        mintAuthorityRenounced: z.boolean(),
-        supplyBurned: z.boolean(),
-        supplyBurnedPercent: z.number().optional(),
-        lpTokensBurned: z.boolean(),
-        liquidityLocked: z.boolean(),
-      })
-      .optional(),
-  }),
-});
-
-export const PoolDiscoveredEventSchema = z.object({
-  type: z.literal('POOL_DISCOVERED'),
-  timestamp: z.string(),
-  id: z.string(),
-  eventId: z.string().optional(),
-  data: z.object({
-    poolAddress: z.string(),
-    dexType: z.enum(['RAYDIUM', 'ORCA', 'METEORA']),
-    tokenA: z.string(),
-    tokenB: z.string(),
-    initialTvl: z.string(),
-    discoveredAt: z.string(),
-    discoverySource: z.string(),
-    poolData: z
-      .object({
-        lpMint: z.string().optional(),
-        feeRate: z.number().optional(),
-      })
-      .optional(),
-  }),
-});
-
-// Combined event schema for validation
-export const EventSchema = z.discriminatedUnion('type', [
-  BurnEventSchema,
-  LiquidityEventSchema,
-  TradeEventSchema,
-  PositionOpenedEventSchema,
-  PositionClosedEventSchema,
-  WorkerStatusEventSchema,
-  PriceUpdateEventSchema,
-  DEXQuoteComparisonEventSchema,
-  MarketDiscoveredEventSchema,
-  TokenValidatedEventSchema,
-  PoolDiscoveredEventSchema,
-]);
-
-// Event type inference for type safety
-export type EventUnion = z.infer<typeof EventSchema>;
-export type AnyEvent = EventUnion;
-
 // Type guards
 export function isBurnEvent(event: AnyEvent): event is BurnDetectedEvent {
   return event.type === 'BURN_DETECTED';
@@ -334,10 +123,10 @@ export function isPoolDiscoveredEvent(event: AnyEvent): event is PoolDiscoveredE
 }
 
 /**
- * Validate a Solana event
+ * Validate a Solana event, upcasting older schema versions first
  */
 export function validateEvent(data: unknown): AnyEvent {
-  return EventSchema.parse(data);
+  return EventSchema.parse(upcastEvent(data));
 }
 
 // Event factory functions
@@ -347,6 +136,7 @@ export function createBurnEvent(data: z.infer<typeof BurnEventSchema>['data']):
     timestamp: new Date().toISOString(),
     id: `burn-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -357,6 +147,7 @@ export function createLiquidityEvent(data: z.infer<typeof LiquidityEventSchema>[
     timestamp: new Date().toISOString(),
     id: `liquidity-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -367,6 +158,7 @@ export function createTradeEvent(data: z.infer<typeof TradeEventSchema>['data'])
     timestamp: new Date().toISOString(),
     id: `trade-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -379,6 +171,7 @@ export function createPositionOpenedEvent(
     timestamp: new Date().toISOString(),
     id: `pos-open-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -391,6 +184,7 @@ export function createPositionClosedEvent(
     timestamp: new Date().toISOString(),
     id: `pos-close-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -403,6 +197,7 @@ export function createWorkerStatusEvent(
     timestamp: new Date().toISOString(),
     id: `worker-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -415,6 +210,7 @@ export function createPriceUpdateEvent(
     timestamp: new Date().toISOString(),
     id: `price-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -427,6 +223,7 @@ export function createDEXQuoteComparisonEvent(
     timestamp: new Date().toISOString(),
     id: `dex-comparison-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -439,6 +236,7 @@ export function createMarketDiscoveredEvent(
     timestamp: new Date().toISOString(),
     id: `market-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -451,6 +249,7 @@ export function createTokenValidatedEvent(
     timestamp: new Date().toISOString(),
     id: `validation-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -463,6 +262,7 @@ export function createPoolDiscoveredEvent(
     timestamp: new Date().toISOString(),
     id: `pool-${Date.now()}`,
     eventId: randomUUID(),
+    schemaVersion: 1,
     data,
   };
 }
@@ -0,0 +1,213 @@
+/**
+ * Event routing table
+ * The single place that maps each event type to its queues, pub/sub channel,
+ * priority, retry policy and schema. Producers and consumers are built from it.
+ */
+
+import type { JobsOptions } from 'bullmq';
+import type { z } from 'zod';
+import type { EventType } from '@solana-eda/types';
+import {
+  BurnEventSchema,
+  DEXQuoteComparisonEventSchema,
+  LiquidityEventSchema,
+  MarketDiscoveredEventSchema,
+  PoolDiscoveredEventSchema,
+  PositionClosedEventSchema,
+  PositionOpenedEventSchema,
+  PriceUpdateEventSchema,
+  TokenValidatedEventSchema,
+  TradeEventSchema,
+  WorkerStatusEventSchema,
+  type AnyEvent,
+} from './schemas';
+import { CHANNELS } from './worker-publisher';
+import { upcastEvent } from './upcasting';
+
+/**
+ * BullMQ queue names
+ *
+ * Every job in a queue is taken by one worker, so each consuming service has its
+ * own queue and an event routed to several queues is fanned out to all of them.
+ */
+export const QUEUES = {
+  BURN_EVENTS: 'solana:burn-events',
+  LIQUIDITY_EVENTS: 'solana:liquidity-events',
+  TRADE_EVENTS: 'solana:trade-events',
+  POSITION_EVENTS: 'solana:position-events',
+  PRICE_EVENTS: 'solana:price-events',
+  MARKET_EVENTS: 'solana:market-events',
+  TOKEN_EVENTS: 'solana:token-events',
+  POOL_EVENTS: 'solana:pool-events',
+  WORKER_STATUS: 'solana:worker-status',
+  DEX_COMPARISON: 'solana:dex-comparison',
+  /** Burns consumed by the trading bot */
+  TRADING_BURN_EVENTS: 'solana:trading:burn-events',
+  /** Market and pool discoveries consumed by the token validator */
+  TOKEN_VALIDATOR_EVENTS: 'solana:validator:discovery-events',
+} as const;
+
+export type QueueName = (typeof QUEUES)[keyof typeof QUEUES];
+
+/**
+ * Job priority levels (lower number = higher priority)
+ */
+export const JOB_PRIORITY = {
+  CRITICAL: 1,
+  HIGH: 3,
+  NORMAL: 5,
+  LOW: 7,
+} as const;
+
+export interface RetryPolicy {
+  attempts: number;
+  backoff: { type: 'exponential' | 'fixed'; delay: number };
+}
+
+export interface EventRoute<T extends EventType = EventType> {
+  queues: readonly QueueName[];
+  /** Redis pub/sub channel for live subscribers */
+  channel: string;
+  priority: number;
+  retry: RetryPolicy;
+  schema: z.ZodType<Extract<AnyEvent, { type: T }>>;
+}
+
+/** Requires a route for every EventType, checked at compile time */
+type EventRouteTable = { readonly [T in EventType]: EventRoute<T> };
+
+const DEFAULT_RETRY: RetryPolicy = { attempts: 3, backoff: { type: 'exponential', delay: 1000 } };
+
+/** Trades and positions move funds and get more attempts */
+const FINANCIAL_RETRY: RetryPolicy = {
+  attempts: 5,
+  backoff: { type: 'exponential', delay: 1000 },
+};
+
+export const EVENT_ROUTES = {
+  BURN_DETECTED: {
+    queues: [QUEUES.BURN_EVENTS, QUEUES.TRADING_BURN_EVENTS],
+    channel: CHANNELS.EVENTS_BURN,
+    priority: JOB_PRIORITY.CRITICAL,
+    retry: DEFAULT_RETRY,
+    schema: BurnEventSchema,
+  },
+  LIQUIDITY_CHANGED: {
+    queues: [QUEUES.LIQUIDITY_EVENTS],
+    channel: CHANNELS.EVENTS_LIQUIDITY,
+    priority: JOB_PRIORITY.HIGH,
+    retry: DEFAULT_RETRY,
+    schema: LiquidityEventSchema,
+  },
+  TRADE_EXECUTED: {
+    queues: [QUEUES.TRADE_EVENTS],
+    channel: CHANNELS.EVENTS_TRADES,
+    priority: JOB_PRIORITY.CRITICAL,
+    retry: FINANCIAL_RETRY,
+    schema: TradeEventSchema,
+  },
+  POSITION_OPENED: {
+    queues: [QUEUES.POSITION_EVENTS],
+    channel: CHANNELS.EVENTS_POSITIONS,
+    priority: JOB_PRIORITY.CRITICAL,
+    retry: FINANCIAL_RETRY,
+    schema: PositionOpenedEventSchema,
+  },
+  POSITION_CLOSED: {
+    queues: [QUEUES.POSITION_EVENTS],
+    channel: CHANNELS.EVENTS_POSITIONS,
+    priority: JOB_PRIORITY.CRITICAL,
+    retry: FINANCIAL_RETRY,
+    schema: PositionClosedEventSchema,
+  },
+  WORKER_STATUS: {
+    queues: [QUEUES.WORKER_STATUS],
+    channel: CHANNELS.WORKERS_STATUS,
+    priority: JOB_PRIORITY.HIGH,
+    // A missed heartbeat is superseded by the next one
+    retry: { attempts: 1, backoff: { type: 'fixed', delay: 0 } },
+    schema: WorkerStatusEventSchema,
+  },
+  DEX_QUOTE_COMPARISON: {
+    queues: [QUEUES.DEX_COMPARISON],
+    channel: CHANNELS.EVENTS_DEX_COMPARISON,
+    priority: JOB_PRIORITY.NORMAL,
+    retry: DEFAULT_RETRY,
+    schema: DEXQuoteComparisonEventSchema,
+  },
+  PRICE_UPDATE: {
+    queues: [QUEUES.PRICE_EVENTS],
+    channel: CHANNELS.EVENTS_PRICE,
+    // High frequency, a newer price soon replaces a delayed one
+    priority: JOB_PRIORITY.LOW,
+    retry: DEFAULT_RETRY,
+    schema: PriceUpdateEventSchema,
+  },
+  MARKET_DISCOVERED: {
+    queues: [QUEUES.MARKET_EVENTS, QUEUES.TOKEN_VALIDATOR_EVENTS],
+    channel: CHANNELS.EVENTS_MARKETS,
+    priority: JOB_PRIORITY.NORMAL,
+    retry: DEFAULT_RETRY,
+    schema: MarketDiscoveredEventSchema,
+  },
+  TOKEN_VALIDATED: {
+    queues: [QUEUES.TOKEN_EVENTS],
+    channel: CHANNELS.EVENTS_TOKENS,
+    priority: JOB_PRIORITY.NORMAL,
+    retry: DEFAULT_RETRY,
+    schema: TokenValidatedEventSchema,
+  },
+  POOL_DISCOVERED: {
+    queues: [QUEUES.POOL_EVENTS, QUEUES.TOKEN_VALIDATOR_EVENTS],
+    channel: CHANNELS.EVENTS_POOLS,
+    priority: JOB_PRIORITY.NORMAL,
+    retry: DEFAULT_RETRY,
+    schema: PoolDiscoveredEventSchema,
+  },
+} as const satisfies EventRouteTable;
+
+/** Fails to compile when a queue in QUEUES receives no event type */
+type UnroutedQueue = Exclude<QueueName, (typeof EVENT_ROUTES)[EventType]['queues'][number]>;
+const everyQueueRouted: [UnroutedQueue] extends [never] ? true : UnroutedQueue = true;
+void everyQueueRouted;
+
+export const EVENT_TYPES = Object.keys(EVENT_ROUTES) as EventType[];
+
+export function getEventRoute<T extends EventType>(type: T): EventRoute<T> {
+  const routes: EventRouteTable = EVENT_ROUTES;
+  return routes[type];
+}
+
+/**
+ * BullMQ job options for an event: priority and retry policy from its route,
+ * and the event id as job id so a re-published event is not queued twice
+ */
+export function getEventJobOptions(event: Pick<AnyEvent, 'type' | 'id' | 'eventId'>): JobsOptions {
+  const { priority, retry } = getEventRoute(event.type);
+  return {
+    priority,
+    attempts: retry.attempts,
+    backoff: retry.backoff,
+    jobId: event.eventId || event.id,
+  };
+}
+
+/**
+ * Event types routed to a queue
+ */
+export function getEventTypesForQueue(queue: QueueName): EventType[] {
+  return EVENT_TYPES.filter((type) =>
+    (EVENT_ROUTES[type].queues as readonly QueueName[]).includes(queue),
+  );
+}
+
+/**
+ * Validate an event against the schema of its route, upcasting older schema versions first
+ */
+export function parseRoutedEvent(data: unknown): AnyEvent {
+  const type = (data as { type?: unknown } | null)?.type;
+  if (typeof type !== 'string' || !(type in EVENT_ROUTES)) {
+    throw new Error(`No route for event type: ${String(type)}`);
+  }
+  return getEventRoute(type as EventType).schema.parse(upcastEvent(data));
+}
@@ -0,0 +1,304 @@
+/**
+ * Event schemas
+ * Zod schemas validating every event before it is published or consumed
+ */
+
+import { z } from 'zod';
+
+export const BurnEventSchema = z.object({
+  type: z.literal('BURN_DETECTED'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    token: z.string(),
+    amount: z.string(),
+    percentage: z.number(),
+    txSignature: z.string(),
+    burner: z.string(),
+    preSupply: z.string(),
+    postSupply: z.string(),
+  }),
+});
+
+export const LiquidityEventSchema = z.object({
+  type: z.literal('LIQUIDITY_CHANGED'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    poolAddress: z.string(),
+    tokenA: z.string(),
+    tokenB: z.string(),
+    oldTvl: z.string(),
+    newTvl: z.string(),
+    price: z.string(),
+    changePercentage: z.number(),
+  }),
+});
+
+export const TradeEventSchema = z.object({
+  type: z.literal('TRADE_EXECUTED'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    tradeId: z.string(),
+    type: z.enum(['BUY', 'SELL']),
+    tokenIn: z.string(),
+    tokenOut: z.string(),
+    amountIn: z.string(),
+    amountOut: z.string(),
+    price: z.string(),
+    slippage: z.number(),
+    txSignature: z.string(),
+    positionId: z.string(),
+  }),
+});
+
+export const PositionOpenedEventSchema = z.object({
+  type: z.literal('POSITION_OPENED'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    positionId: z.string(),
+    token: z.string(),
+    amount: z.string(),
+    entryPrice: z.string(),
+    stopLoss: z.string().optional(),
+    takeProfit: z.string().optional(),
+  }),
+});
+
+export const PositionClosedEventSchema = z.object({
+  type: z.literal('POSITION_CLOSED'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    positionId: z.string(),
+    token: z.string(),
+    exitPrice: z.string(),
+    pnl: z.string(),
+    pnlPercent: z.number(),
+    holdDuration: z.number(),
+    closeReason: z.enum(['TAKE_PROFIT', 'STOP_LOSS', 'MANUAL', 'TIMEOUT']),
+  }),
+});
+
+export const WorkerStatusEventSchema = z.object({
+  type: z.literal('WORKER_STATUS'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    workerName: z.string(),
+    status: z.enum(['RUNNING', 'STOPPED', 'ERROR']),
+    metrics: z.object({
+      eventsProcessed: z.number(),
+      errors: z.number(),
+      uptime: z.number(),
+      lastEventAt: z.string().optional(),
+    }),
+  }),
+});
+
+export const PriceUpdateEventSchema = z.object({
+  type: z.literal('PRICE_UPDATE'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    token: z.string(),
+    price: z.string(),
+    source: z.string(),
+    confidence: z.number(),
+    volume24h: z.string().optional(),
+    priceChange24h: z.number().optional(),
+    sources: z.array(
+      z.object({
+        dex: z.string(),
+        price: z.string(),
+        volume24h: z.string().optional(),
+      }),
+    ),
+  }),
+});
+
+export const DEXQuoteComparisonEventSchema = z.object({
+  type: z.literal('DEX_QUOTE_COMPARISON'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    inputMint: z.string(),
+    outputMint: z.string(),
+    amount: z.string(),
+    quotes: z.array(
+      z.object({
+        dex: z.string(),
+        outAmount: z.string(),
+        priceImpactPct: z.number(),
+      }),
+    ),
+    selectedDEX: z.string(),
+    bestQuote: z.object({
+      dex: z.string(),
+      outAmount: z.string(),
+      priceImpactPct: z.number(),
+    }),
+  }),
+});
+
+export const MarketDiscoveredEventSchema = z.object({
+  type: z.literal('MARKET_DISCOVERED'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    marketAddress: z.string(),
+    baseMint: z.string(),
+    quoteMint: z.string(),
+    dexType: z.enum(['OPENBOOK', 'RAYDIUM', 'ORCA', 'METEORA']),
+    discoveredAt: z.string(),
+    source: z.string(),
+    marketData: z
+      .object({
+        name: z.string().optional(),
+        minOrderSize: z.string().optional(),
+        tickSize: z.string().optional(),
+      })
+      .optional(),
+  }),
+});
+
+export const TokenValidatedEventSchema = z.object({
+  type: z.literal('TOKEN_VALIDATED'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    token: z.string(),
+    isRenounced: z.boolean().optional(),
+    isBurned: z.boolean().optional(),
+    isLocked: z.boolean().optional(),
+    lpBurnedCount: z.number().optional(),
+    confidence: z.number(),
+    validatedAt: z.string(),
+    txSignature: z.string().optional(),
+    validationDetails: z
+      .object({
+        mintAuthorityRenounced: z.boolean(),
+        supplyBurned: z.boolean(),
+        supplyBurnedPercent: z.number().optional(),
+        lpTokensBurned: z.boolean(),
+        liquidityLocked: z.boolean(),
+        freezeAuthorityRenounced: z.boolean().optional(),
+        transferFeeBps: z.number().optional(),
+        permanentDelegate: z.string().optional(),
+        transferHookProgram: z.string().optional(),
+        lpBurnedPercent: z.number().optional(),
+        lpLockedPercent: z.number().optional(),
+        lockerPrograms: z.array(z.string()).optional(),
+        topHoldersPercent: z.number().optional(),
+        largestHolderPercent: z.number().optional(),
+        risk: z
+          .object({
+            score: z.number(),
+            factors: z.array(
+              z.object({
+                factor: z.enum([
+                  'AUTHORITY',
+                  'HOLDER_CONCENTRATION',
+                  'LP_LOCK_DURATION',
+                  'CREATOR_HISTORY',
+                  'LIQUIDITY_DEPTH',
+                  'POOL_AGE',
+                ]),
+                weight: z.number(),
+                risk: z.number().nullable(),
+                contribution: z.number(),
+                reason: z.string(),
+              }),
+            ),
+          })
+          .optional(),
+      })
+      .optional(),
+  }),
+});
+
+export const PoolDiscoveredEventSchema = z.object({
+  type: z.literal('POOL_DISCOVERED'),
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+  data: z.object({
+    poolAddress: z.string(),
+    dexType: z.enum(['RAYDIUM', 'ORCA', 'METEORA']),
+    tokenA: z.string(),
+    tokenB: z.string(),
+    initialTvl: z.string(),
+    discoveredAt: z.string(),
+    discoverySource: z.string(),
+    marketAddress: z.string().optional(),
+    creator: z.string().optional(),
+    initialPrice: z.string().optional(),
+    poolData: z
+      .object({
+        lpMint: z.string().optional(),
+        feeRate: z.number().optional(),
+      })
+      .optional(),
+  }),
+});
+
+// Combined event schema for validation
+export const EventSchema = z.discriminatedUnion('type', [
+  BurnEventSchema,
+  LiquidityEventSchema,
+  TradeEventSchema,
+  PositionOpenedEventSchema,
+  PositionClosedEventSchema,
+  WorkerStatusEventSchema,
+  PriceUpdateEventSchema,
+  DEXQuoteComparisonEventSchema,
+  MarketDiscoveredEventSchema,
+  TokenValidatedEventSchema,
+  PoolDiscoveredEventSchema,
+]);
+
+// Event type inference for type safety
+export type EventUnion = z.infer<typeof EventSchema>;
+export type AnyEvent = EventUnion;
+
+/**
+ * Every schema version of each event type, the highest one is current
+ * When a type changes shape, keep its old schema here and register an upcaster
+ * from it in upcasting.ts.
+ */
+export const VERSIONED_EVENT_SCHEMAS = {
+  BURN_DETECTED: { 1: BurnEventSchema },
+  LIQUIDITY_CHANGED: { 1: LiquidityEventSchema },
+  TRADE_EXECUTED: { 1: TradeEventSchema },
+  POSITION_OPENED: { 1: PositionOpenedEventSchema },
+  POSITION_CLOSED: { 1: PositionClosedEventSchema },
+  WORKER_STATUS: { 1: WorkerStatusEventSchema },
+  PRICE_UPDATE: { 1: PriceUpdateEventSchema },
+  DEX_QUOTE_COMPARISON: { 1: DEXQuoteComparisonEventSchema },
+  MARKET_DISCOVERED: { 1: MarketDiscoveredEventSchema },
+  TOKEN_VALIDATED: { 1: TokenValidatedEventSchema },
+  POOL_DISCOVERED: { 1: PoolDiscoveredEventSchema },
+} satisfies Record<AnyEvent['type'], Record<number, z.ZodTypeAny>>;
@@ -0,0 +1,164 @@
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import {
+  EVENT_TYPES,
+  EventUpcasterRegistry,
+  VERSIONED_EVENT_SCHEMAS,
+  createBurnEvent,
+  eventUpcasters,
+  parseRoutedEvent,
+  validateEvent,
+} from '@solana-eda/events';
+
+const burnData = {
+  token: 'So11111111111111111111111111111111111111112',
+  amount: '1000000',
+  percentage: 0.05,
+  txSignature: 'test-signature',
+  burner: 'test-burner',
+  preSupply: '10000000000',
+  postSupply: '9999000000',
+};
+
+const envelope = {
+  timestamp: z.string(),
+  id: z.string(),
+  eventId: z.string().optional(),
+  schemaVersion: z.number().int().positive(),
+};
+
+// A price event that renamed `value` to `price` in v2 and added `currency` in v3
+const PriceV1 = z.object({
+  ...envelope,
+  type: z.literal('PRICE'),
+  data: z.object({ value: z.string() }),
+});
+const PriceV2 = z.object({
+  ...envelope,
+  type: z.literal('PRICE'),
+  data: z.object({ price: z.string() }),
+});
+const PriceV3 = z.object({
+  ...envelope,
+  type: z.literal('PRICE'),
+  data: z.object({ price: z.string(), currency: z.string() }),
+});
+
+function createPriceRegistry(): EventUpcasterRegistry {
+  return new EventUpcasterRegistry({ PRICE: { 1: PriceV1, 2: PriceV2, 3: PriceV3 } })
+    .register('PRICE', 1, (event) => {
+      const { value } = event.data as { value: string };
+      return { ...event, data: { price: value } };
+    })
+    .register('PRICE', 2, (event) => ({
+      ...event,
+      data: { ...(event.data as object), currency: 'USD' },
+    }));
+}
+
+describe('upcasting', () => {
+  describe('event schemas', () => {
+    it('should have an upcaster for every older version of every event type', () => {
+      for (const type of EVENT_TYPES) {
+        const current = eventUpcasters.getCurrentVersion(type);
+        expect(VERSIONED_EVENT_SCHEMAS[type][current as 1]).toBeDefined();
+        for (let version = 1; version < current; version++) {
+          expect(eventUpcasters.has(type, version)).toBe(true);
+        }
+      }
+    });
+
+    it('should stamp new events with the current version', () => {
+      expect(createBurnEvent(burnData).schemaVersion).toBe(
+        eventUpcasters.getCurrentVersion('BURN_DETECTED'),
+      );
+    });
+
+    it('should read events without a schemaVersion as version 1', () => {
+      const { schemaVersion: _, ...legacy } = createBurnEvent(burnData);
+
+      expect(validateEvent(legacy).schemaVersion).toBe(1);
+      expect(parseRoutedEvent(legacy).schemaVersion).toBe(1);
+    });
+
+    it('should reject events newer than the supported version', () => {
+      const event = { ...createBurnEvent(burnData), schemaVersion: 99 };
+
+      expect(() => validateEvent(event)).toThrow(
+        'BURN_DETECTED v99 is newer than the supported v1',
+      );
+    });
+  });
+
+  describe('EventUpcasterRegistry', () => {
+    const v1 = {
+      type: 'PRICE',
+      timestamp: new Date().toISOString(),
+      id: 'price-1',
+      data: { value: '0.03' },
+    };
+
+    it('should migrate v1 to v2', () => {
+      const registry = new EventUpcasterRegistry({ PRICE: { 1: PriceV1, 2: PriceV2 } }).register(
+        'PRICE',
+        1,
+        (event) => ({ ...event, data: { price: (event.data as { value: string }).value } }),
+      );
+
+      expect(registry.upcast({ ...v1, schemaVersion: 1 })).toEqual({
+        ...v1,
+        schemaVersion: 2,
+        data: { price: '0.03' },
+      });
+    });
+
+    it('should migrate v2 to v3', () => {
+      const v2 = { ...v1, schemaVersion: 2, data: { price: '0.03' } };
+
+      expect(createPriceRegistry().upcast(v2)).toEqual({
+        ...v1,
+        schemaVersion: 3,
+        data: { price: '0.03', currency: 'USD' },
+      });
+    });
+
+    it('should chain migrations from an unversioned payload', () => {
+      const result = createPriceRegistry().upcast(v1);
+
+      expect(PriceV3.parse(result)).toEqual({
+        ...v1,
+        schemaVersion: 3,
+        data: { price: '0.03', currency: 'USD' },
+      });
+    });
+
+    it('should leave current payloads and unknown types unchanged', () => {
+      const v3 = { ...v1, schemaVersion: 3, data: { price: '0.03', currency: 'USD' } };
+      const unknown = { ...v1, type: 'UNKNOWN' };
+
+      expect(createPriceRegistry().upcast(v3)).toEqual(v3);
+      expect(createPriceRegistry().upcast(unknown)).toBe(unknown);
+    });
+
+    it('should validate a payload against its own version before migrating it', () => {
+      expect(() => createPriceRegistry().upcast({ ...v1, data: { price: '0.03' } })).toThrow();
+    });
+
+    it('should fail when a migration is missing', () => {
+      const registry = new EventUpcasterRegistry({ PRICE: { 1: PriceV1, 2: PriceV2 } });
+
+      expect(() => registry.upcast(v1)).toThrow('No upcaster for PRICE v1 -> v2');
+    });
+
+    it('should reject upcasters without schemas or registered twice', () => {
+      const registry = createPriceRegistry();
+
+      expect(() => registry.register('PRICE', 3, (event) => event)).toThrow(
+        'No schemas for PRICE v3 -> v4',
+      );
+      expect(() => registry.register('PRICE', 1, (event) => event)).toThrow(
+        'Upcaster already registered for PRICE v1',
+      );
+    });
+  });
+});
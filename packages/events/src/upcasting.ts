@@ -0,0 +1,112 @@
+/**
+ * Event schema upcasting
+ * Migrates payloads written under an older schema version to the current shape,
+ * so queued jobs and stored events keep validating after a schema change.
+ *
+ * Events without a schemaVersion predate versioning and are read as version 1.
+ */
+
+import type { z } from 'zod';
+import { VERSIONED_EVENT_SCHEMAS } from './schemas';
+
+/**
+ * Migrates an event payload from one schema version to the next
+ */
+export type EventUpcaster = (event: Record<string, unknown>) => Record<string, unknown>;
+
+export type VersionedSchemas = Record<string, Record<number, z.ZodTypeAny>>;
+
+export class EventUpcasterRegistry {
+  private upcasters = new Map<string, EventUpcaster>();
+
+  constructor(private schemas: VersionedSchemas) {}
+
+  /**
+   * Current schema version of an event type
+   */
+  getCurrentVersion(type: string): number {
+    const versions = this.schemas[type];
+    if (!versions) {
+      throw new Error(`No schemas for event type: ${type}`);
+    }
+    return Math.max(...Object.keys(versions).map(Number));
+  }
+
+  /**
+   * Register the migration of an event type from `fromVersion` to `fromVersion + 1`
+   */
+  register(type: string, fromVersion: number, upcaster: EventUpcaster): this {
+    if (!this.schemas[type]?.[fromVersion] || !this.schemas[type]?.[fromVersion + 1]) {
+      throw new Error(`No schemas for ${type} v${fromVersion} -> v${fromVersion + 1}`);
+    }
+    const key = this.getKey(type, fromVersion);
+    if (this.upcasters.has(key)) {
+      throw new Error(`Upcaster already registered for ${type} v${fromVersion}`);
+    }
+    this.upcasters.set(key, upcaster);
+    return this;
+  }
+
+  /**
+   * Whether a migration from `fromVersion` is registered
+   */
+  has(type: string, fromVersion: number): boolean {
+    return this.upcasters.has(this.getKey(type, fromVersion));
+  }
+
+  /**
+   * Bring an event payload to the current schema version of its type
+   * Each older version is validated against its own schema before it is migrated.
+   * Payloads of unknown types are returned as is for the caller's schema to reject.
+   */
+  upcast(data: unknown): unknown {
+    if (typeof data !== 'object' || data === null) {
+      return data;
+    }
+
+    let event = data as Record<string, unknown>;
+    const type = event.type;
+    if (typeof type !== 'string' || !this.schemas[type]) {
+      return data;
+    }
+
+    const current = this.getCurrentVersion(type);
+    let version = event.schemaVersion ?? 1;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid schemaVersion for ${type}: ${String(version)}`);
+    }
+    if (version > current) {
+      throw new Error(`${type} v${version} is newer than the supported v${current}`);
+    }
+
+    while (version < current) {
+      const upcaster = this.upcasters.get(this.getKey(type, version));
+      if (!upcaster) {
+        throw new Error(`No upcaster for ${type} v${version} -> v${version + 1}`);
+      }
+      const previous = this.schemas[type]![version]!.parse({ ...event, schemaVersion: version });
+      event = { ...upcaster(previous), schemaVersion: version + 1 };
+      version++;
+    }
+
+    return { ...event, schemaVersion: current };
+  }
+
+  private getKey(type: string, fromVersion: number): string {
+    return `${type}:${fromVersion}`;
+  }
+}
+
+/**
+ * Upcasters for the event schemas in schemas.ts
+ * Register each migration next to the schema version bump, e.g.
+ * `eventUpcasters.register('BURN_DETECTED', 1, (event) => ({ ...event, ... }))`
+ */
+export const eventUpcasters = new EventUpcasterRegistry(VERSIONED_EVENT_SCHEMAS);
+
+/**
+ * Bring an event payload to the current schema version of its type
+ */
+export function upcastEvent(data: unknown): unknown {
+  return eventUpcasters.upcast(data);
+}
@@ -0,0 +1,225 @@
+import { Queue } from 'bullmq';
+import {
+  HealthStatus,
+  type BullMQHealthConfig,
+  type BullMQQueueHealth,
+  type BullMQSystemHealth,
+  type BullMQWorkerHealth,
+  type QueueHealthThresholds,
+  type QueueMetrics,
+} from './types';
+
+export const DEFAULT_QUEUE_THRESHOLDS: QueueHealthThresholds = {
+  waiting: { degraded: 1000, unhealthy: 10000 },
+  active: { degraded: 100, unhealthy: 500 },
+  failed: { degraded: 100, unhealthy: 1000 },
+};
+
+const STATUS_ORDER = [HealthStatus.HEALTHY, HealthStatus.DEGRADED, HealthStatus.UNHEALTHY];
+
+/**
+ * The worst of the given statuses, HEALTHY when there are none
+ */
+export function worstStatus(statuses: Iterable<HealthStatus>): HealthStatus {
+  let worst = HealthStatus.HEALTHY;
+  for (const status of statuses) {
+    if (STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(worst)) {
+      worst = status;
+    }
+  }
+  return worst;
+}
+
+/**
+ * Health of a queue from its job counts
+ */
+export function evaluateQueueHealth(
+  metrics: QueueMetrics,
+  thresholds: QueueHealthThresholds = DEFAULT_QUEUE_THRESHOLDS,
+): { status: HealthStatus; issues: string[] } {
+  const statuses: HealthStatus[] = [];
+  const issues: string[] = [];
+
+  for (const state of ['waiting', 'active', 'failed'] as const) {
+    const { degraded, unhealthy } = thresholds[state];
+    const count = metrics[state];
+    if (count >= unhealthy) {
+      statuses.push(HealthStatus.UNHEALTHY);
+      issues.push(`${count} ${state} jobs (unhealthy at ${unhealthy})`);
+    } else if (count >= degraded) {
+      statuses.push(HealthStatus.DEGRADED);
+      issues.push(`${count} ${state} jobs (degraded at ${degraded})`);
+    }
+  }
+
+  if (metrics.paused) {
+    statuses.push(HealthStatus.DEGRADED);
+    issues.push('Queue is paused');
+  }
+
+  return { status: worstStatus(statuses), issues };
+}
+
+/**
+ * Health checks over a fixed set of BullMQ queues and the workers consuming them
+ * The Redis connection belongs to the caller and is not closed by `close()`.
+ */
+export class BullMQHealthChecker {
+  private queues = new Map<string, Queue>();
+  private thresholds: QueueHealthThresholds;
+
+  constructor(private config: BullMQHealthConfig) {
+    this.thresholds = { ...DEFAULT_QUEUE_THRESHOLDS, ...config.thresholds };
+  }
+
+  /**
+   * Job counts of a queue, null for a queue the checker was not configured with
+   */
+  async getQueueMetrics(queueName: string): Promise<QueueMetrics | null> {
+    const queue = this.getQueue(queueName);
+    if (!queue) {
+      return null;
+    }
+
+    const [counts, paused] = await Promise.all([
+      queue.getJobCounts(
+        'wait',
+        'paused',
+        'prioritized',
+        'active',
+        'completed',
+        'failed',
+        'delayed',
+      ),
+      queue.isPaused(),
+    ]);
+
+    return {
+      waiting: (counts.wait ?? 0) + (counts.paused ?? 0) + (counts.prioritized ?? 0),
+      active: counts.active ?? 0,
+      completed: counts.completed ?? 0,
+      failed: counts.failed ?? 0,
+      delayed: counts.delayed ?? 0,
+      paused,
+      isPaused: paused,
+    };
+  }
+
+  async getAllQueueMetrics(): Promise<Record<string, QueueMetrics>> {
+    const entries = await Promise.all(
+      this.config.queues.map(async (queueName) => {
+        const metrics = await this.getQueueMetrics(queueName);
+        return [queueName, metrics!] as const;
+      }),
+    );
+    return Object.fromEntries(entries);
+  }
+
+  async getQueueHealth(queueName: string): Promise<BullMQQueueHealth> {
+    const metrics = await this.getQueueMetrics(queueName);
+    const timestamp = new Date().toISOString();
+
+    if (!metrics) {
+      return {
+        queueName,
+        status: HealthStatus.UNHEALTHY,
+        metrics: {
+          waiting: 0,
+          active: 0,
+          completed: 0,
+          failed: 0,
+          delayed: 0,
+          paused: false,
+          isPaused: false,
+        },
+        issues: ['Unknown queue'],
+        timestamp,
+      };
+    }
+
+    return { queueName, ...evaluateQueueHealth(metrics, this.thresholds), metrics, timestamp };
+  }
+
+  /**
+   * Health of the workers of a queue, null for a queue the checker was not configured with
+   * UNHEALTHY when no worker is connected, DEGRADED when too many processed jobs failed.
+   */
+  async getWorkerHealth(workerName: string): Promise<BullMQWorkerHealth | null> {
+    const queue = this.getQueue(workerName);
+    if (!queue) {
+      return null;
+    }
+
+    const [workers, counts, completed, failed] = await Promise.all([
+      queue.getWorkers(),
+      queue.getJobCounts('active'),
+      queue.getMetrics('completed', 0, 0),
+      queue.getMetrics('failed', 0, 0),
+    ]);
+
+    const jobsProcessed = completed.meta.count;
+    const jobsFailed = failed.meta.count;
+    const total = jobsProcessed + jobsFailed;
+    const maxFailureRate = this.config.maxWorkerFailureRate ?? 0.1;
+
+    let status = HealthStatus.HEALTHY;
+    if (workers.length === 0) {
+      status = HealthStatus.UNHEALTHY;
+    } else if (total > 0 && jobsFailed / total > maxFailureRate) {
+      status = HealthStatus.DEGRADED;
+    }
+
+    return {
+      workerName,
+      status,
+      isRunning: workers.length > 0,
+      isProcessing: (counts.active ?? 0) > 0,
+      concurrency: this.config.workerConcurrency ?? 1,
+      jobsProcessed,
+      jobsFailed,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async getSystemHealth(): Promise<BullMQSystemHealth> {
+    const [queues, workers] = await Promise.all([
+      Promise.all(this.config.queues.map((queueName) => this.getQueueHealth(queueName))),
+      Promise.all(this.config.queues.map((queueName) => this.getWorkerHealth(queueName))),
+    ]);
+
+    const workersByName: Record<string, BullMQWorkerHealth> = {};
+    for (const worker of workers) {
+      if (worker) {
+        workersByName[worker.workerName] = worker;
+      }
+    }
+
+    return {
+      status: worstStatus([
+        ...queues.map((queue) => queue.status),
+        ...Object.values(workersByName).map((worker) => worker.status),
+      ]),
+      queues: Object.fromEntries(queues.map((queue) => [queue.queueName, queue])),
+      workers: workersByName,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([...this.queues.values()].map((queue) => queue.close()));
+    this.queues.clear();
+  }
+
+  private getQueue(queueName: string): Queue | null {
+    if (!this.config.queues.includes(queueName)) {
+      return null;
+    }
+
+    let queue = this.queues.get(queueName);
+    if (!queue) {
+      queue = new Queue(queueName, { connection: this.config.connection });
+      this.queues.set(queueName, queue);
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import type { WorkerStatus } from '@solana-eda/types';
+import { checkDependencies, checkRedis, checkWorkerHealth, runCheck } from './checks';
+
+const status: WorkerStatus = {
+  name: 'burn-detector',
+  status: 'RUNNING',
+  lastSeen: '2026-10-19T12:00:00.000Z',
+  metrics: { eventsProcessed: 1, errors: 0, uptime: 60 },
+};
+
+const redis = { ping: async () => 'PONG' };
+const database = { $queryRawUnsafe: async () => [{ '?column?': 1 }] };
+const solana = { getSlot: async () => 123 };
+
+describe('runCheck', () => {
+  it('should fail a probe that rejects or times out', async () => {
+    const rejected = await runCheck(async () => {
+      throw new Error('connection refused');
+    });
+    const timedOut = await runCheck(() => new Promise(() => {}), 10);
+
+    expect(rejected).toMatchObject({ healthy: false, error: 'connection refused' });
+    expect(timedOut).toMatchObject({ healthy: false, error: 'Timed out after 10ms' });
+  });
+
+  it('should reject an unexpected PING reply', async () => {
+    expect(await checkRedis({ ping: async () => 'LOADING' })).toMatchObject({
+      healthy: false,
+      error: 'Unexpected PING reply: LOADING',
+    });
+  });
+});
+
+describe('checkDependencies', () => {
+  it('should only check the dependencies that are given', async () => {
+    const results = await checkDependencies({ redis, solana });
+    expect(Object.keys(results).sort()).toEqual(['redis', 'solana']);
+    expect(results.redis?.healthy).toBe(true);
+  });
+});
+
+describe('checkWorkerHealth', () => {
+  it('should fill in every check', async () => {
+    expect(await checkWorkerHealth(status, { redis, database, solana })).toEqual({
+      healthy: true,
+      status,
+      checks: { redis: true, database: true, solana: true },
+    });
+  });
+
+  it('should be unhealthy when a dependency fails', async () => {
+    const failingSolana = {
+      getSlot: async (): Promise<number> => {
+        throw new Error('429 Too Many Requests');
+      },
+    };
+    const health = await checkWorkerHealth(status, { redis, solana: failingSolana });
+    expect(health.healthy).toBe(false);
+    expect(health.checks).toEqual({ redis: true, database: true, solana: false });
+  });
+
+  it('should be unhealthy when the worker reported an error', async () => {
+    const health = await checkWorkerHealth({ ...status, status: 'ERROR' }, { redis });
+    expect(health.healthy).toBe(false);
+  });
+});
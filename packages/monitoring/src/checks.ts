@@ -0,0 +1,131 @@
+import type { WorkerHealthCheck, WorkerStatus } from '@solana-eda/types';
+
+/**
+ * The parts of the ioredis, Prisma and web3.js clients the checks call,
+ * so workers pass the clients they already hold
+ */
+export interface RedisPingable {
+  ping(): Promise<string>;
+}
+
+export interface DatabaseQueryable {
+  $queryRawUnsafe(query: string): Promise<unknown>;
+}
+
+export interface SolanaRpcClient {
+  getSlot(): Promise<number>;
+}
+
+export interface DependencyCheckResult {
+  healthy: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface WorkerDependencies {
+  redis?: RedisPingable;
+  database?: DatabaseQueryable;
+  solana?: SolanaRpcClient;
+}
+
+export const DEFAULT_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Time a probe, failing it when it rejects or takes longer than `timeoutMs`
+ */
+export async function runCheck(
+  probe: () => Promise<unknown>,
+  timeoutMs: number = DEFAULT_CHECK_TIMEOUT_MS,
+): Promise<DependencyCheckResult> {
+  const start = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    await Promise.race([
+      probe(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+    return { healthy: true, latencyMs: Date.now() - start };
+  } catch (error) {
+    return {
+      healthy: false,
+      latencyMs: Date.now() - start,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function checkRedis(
+  redis: RedisPingable,
+  timeoutMs?: number,
+): Promise<DependencyCheckResult> {
+  return await runCheck(async () => {
+    const reply = await redis.ping();
+    if (reply !== 'PONG') {
+      throw new Error(`Unexpected PING reply: ${reply}`);
+    }
+  }, timeoutMs);
+}
+
+export async function checkDatabase(
+  database: DatabaseQueryable,
+  timeoutMs?: number,
+): Promise<DependencyCheckResult> {
+  return await runCheck(() => database.$queryRawUnsafe('SELECT 1'), timeoutMs);
+}
+
+export async function checkSolanaRpc(
+  solana: SolanaRpcClient,
+  timeoutMs?: number,
+): Promise<DependencyCheckResult> {
+  return await runCheck(() => solana.getSlot(), timeoutMs);
+}
+
+/**
+ * Check the dependencies a worker uses, in parallel
+ * A dependency the worker does not use is left out of the result.
+ */
+export async function checkDependencies(
+  dependencies: WorkerDependencies,
+  timeoutMs?: number,
+): Promise<Partial<Record<keyof WorkerDependencies, DependencyCheckResult>>> {
+  const { redis, database, solana } = dependencies;
+  const [redisResult, databaseResult, solanaResult] = await Promise.all([
+    redis ? checkRedis(redis, timeoutMs) : undefined,
+    database ? checkDatabase(database, timeoutMs) : undefined,
+    solana ? checkSolanaRpc(solana, timeoutMs) : undefined,
+  ]);
+
+  return {
+    ...(redisResult && { redis: redisResult }),
+    ...(databaseResult && { database: databaseResult }),
+    ...(solanaResult && { solana: solanaResult }),
+  };
+}
+
+/**
+ * Health check of a worker: its own status plus Redis, Postgres and Solana RPC checks
+ * Dependencies the worker does not use count as passing.
+ */
+export async function checkWorkerHealth(
+  status: WorkerStatus,
+  dependencies: WorkerDependencies,
+  timeoutMs?: number,
+): Promise<WorkerHealthCheck> {
+  const results = await checkDependencies(dependencies, timeoutMs);
+  const checks: WorkerHealthCheck['checks'] = {
+    redis: results.redis?.healthy ?? true,
+    database: results.database?.healthy ?? true,
+    solana: results.solana?.healthy ?? true,
+  };
+
+  return {
+    healthy: status.status !== 'ERROR' && Object.values(checks).every(Boolean),
+    status,
+    checks,
+  };
+}
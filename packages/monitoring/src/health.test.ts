@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import { evaluateQueueHealth, worstStatus } from './bullmq-health';
+import { getWorkerHeartbeatHealth } from './heartbeat';
+import { HealthStatus, type QueueMetrics } from './types';
+
+const idle: QueueMetrics = {
+  waiting: 0,
+  active: 0,
+  completed: 10,
+  failed: 0,
+  delayed: 0,
+  paused: false,
+  isPaused: false,
+};
+
+describe('evaluateQueueHealth', () => {
+  it('should report a queue under every threshold as healthy', () => {
+    expect(evaluateQueueHealth(idle)).toEqual({ status: HealthStatus.HEALTHY, issues: [] });
+  });
+
+  it('should take the worst status across waiting, active and failed', () => {
+    const { status, issues } = evaluateQueueHealth({ ...idle, waiting: 1500, failed: 2000 });
+    expect(status).toBe(HealthStatus.UNHEALTHY);
+    expect(issues).toEqual([
+      '1500 waiting jobs (degraded at 1000)',
+      '2000 failed jobs (unhealthy at 1000)',
+    ]);
+  });
+
+  it('should apply custom thresholds', () => {
+    const thresholds = {
+      waiting: { degraded: 1, unhealthy: 5 },
+      active: { degraded: 1, unhealthy: 5 },
+      failed: { degraded: 1, unhealthy: 5 },
+    };
+    expect(evaluateQueueHealth({ ...idle, active: 2 }, thresholds).status).toBe(
+      HealthStatus.DEGRADED,
+    );
+  });
+
+  it('should report a paused queue as degraded', () => {
+    expect(evaluateQueueHealth({ ...idle, paused: true, isPaused: true })).toEqual({
+      status: HealthStatus.DEGRADED,
+      issues: ['Queue is paused'],
+    });
+  });
+});
+
+describe('worstStatus', () => {
+  it('should order statuses from healthy to unhealthy', () => {
+    expect(worstStatus([])).toBe(HealthStatus.HEALTHY);
+    expect(worstStatus([HealthStatus.DEGRADED, HealthStatus.HEALTHY])).toBe(HealthStatus.DEGRADED);
+    expect(worstStatus([HealthStatus.UNHEALTHY, HealthStatus.DEGRADED])).toBe(
+      HealthStatus.UNHEALTHY,
+    );
+  });
+});
+
+describe('getWorkerHeartbeatHealth', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+  const seenAgo = (ms: number) => new Date(now - ms).toISOString();
+
+  it('should report a running worker with a recent heartbeat as healthy', () => {
+    const health = getWorkerHeartbeatHealth(
+      { name: 'burn-detector', status: 'RUNNING', lastSeen: seenAgo(30_000) },
+      undefined,
+      now,
+    );
+    expect(health).toMatchObject({ status: HealthStatus.HEALTHY, ageMs: 30_000, issues: [] });
+  });
+
+  it('should degrade a late heartbeat and fail a missing one', () => {
+    const late = getWorkerHeartbeatHealth(
+      { name: 'burn-detector', status: 'RUNNING', lastSeen: seenAgo(120_000) },
+      undefined,
+      now,
+    );
+    const gone = getWorkerHeartbeatHealth(
+      { name: 'burn-detector', status: 'RUNNING', lastSeen: seenAgo(600_000) },
+      undefined,
+      now,
+    );
+    expect(late.status).toBe(HealthStatus.DEGRADED);
+    expect(late.issues).toEqual(['Heartbeat late by 30s']);
+    expect(gone.status).toBe(HealthStatus.UNHEALTHY);
+    expect(gone.issues).toEqual(['No heartbeat for 600s']);
+  });
+
+  it('should follow the status the worker reported', () => {
+    const stopped = getWorkerHeartbeatHealth(
+      { name: 'trading-bot', status: 'STOPPED', lastSeen: seenAgo(0) },
+      undefined,
+      now,
+    );
+    const failing = getWorkerHeartbeatHealth(
+      { name: 'trading-bot', status: 'ERROR', lastSeen: seenAgo(120_000) },
+      undefined,
+      now,
+    );
+    expect(stopped.status).toBe(HealthStatus.DEGRADED);
+    expect(failing.status).toBe(HealthStatus.UNHEALTHY);
+    expect(failing.issues).toEqual(['Worker reported an error', 'Heartbeat late by 30s']);
+  });
+});
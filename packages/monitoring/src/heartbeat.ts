@@ -0,0 +1,65 @@
+import type { WorkerStatus } from '@solana-eda/types';
+import { HealthStatus } from './types';
+
+export interface HeartbeatThresholds {
+  /** A worker not seen for this long is DEGRADED */
+  degradedAfterMs: number;
+  /** A worker not seen for this long is UNHEALTHY */
+  unhealthyAfterMs: number;
+}
+
+/** Workers publish their status every 30 seconds by default */
+export const DEFAULT_HEARTBEAT_THRESHOLDS: HeartbeatThresholds = {
+  degradedAfterMs: 90_000,
+  unhealthyAfterMs: 300_000,
+};
+
+export interface WorkerHeartbeatHealth {
+  name: string;
+  status: HealthStatus;
+  /** Status the worker last reported */
+  reportedStatus: WorkerStatus['status'];
+  lastSeen: string;
+  /** Time since the last heartbeat */
+  ageMs: number;
+  issues: string[];
+}
+
+/**
+ * Health of a worker from the last status it published
+ * A worker that reported ERROR or went quiet is UNHEALTHY, a STOPPED or late one is DEGRADED.
+ */
+export function getWorkerHeartbeatHealth(
+  worker: Pick<WorkerStatus, 'name' | 'status'> & { lastSeen: string | Date },
+  thresholds: HeartbeatThresholds = DEFAULT_HEARTBEAT_THRESHOLDS,
+  now: number = Date.now(),
+): WorkerHeartbeatHealth {
+  const ageMs = Math.max(0, now - new Date(worker.lastSeen).getTime());
+  const issues: string[] = [];
+  let status = HealthStatus.HEALTHY;
+
+  if (worker.status === 'ERROR') {
+    status = HealthStatus.UNHEALTHY;
+    issues.push('Worker reported an error');
+  } else if (worker.status === 'STOPPED') {
+    status = HealthStatus.DEGRADED;
+    issues.push('Worker is stopped');
+  }
+
+  if (ageMs >= thresholds.unhealthyAfterMs) {
+    status = HealthStatus.UNHEALTHY;
+    issues.push(`No heartbeat for ${Math.round(ageMs / 1000)}s`);
+  } else if (ageMs >= thresholds.degradedAfterMs) {
+    if (status === HealthStatus.HEALTHY) status = HealthStatus.DEGRADED;
+    issues.push(`Heartbeat late by ${Math.round((ageMs - thresholds.degradedAfterMs) / 1000)}s`);
+  }
+
+  return {
+    name: worker.name,
+    status,
+    reportedStatus: worker.status,
+    lastSeen: new Date(worker.lastSeen).toISOString(),
+    ageMs,
+    issues,
+  };
+}
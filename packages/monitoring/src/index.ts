@@ -0,0 +1,5 @@
+export * from './types';
+export * from './bullmq-health';
+export * from './heartbeat';
+export * from './checks';
+export * from './logger';
@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { createLogger, type LogLevel } from './logger';
+
+function capture() {
+  const lines: { line: string; level: LogLevel }[] = [];
+  return { lines, write: (line: string, level: LogLevel) => lines.push({ line, level }) };
+}
+
+describe('createLogger', () => {
+  it('should write one JSON object per entry with the service and context', () => {
+    const { lines, write } = capture();
+    const logger = createLogger('burn-detector', { write, format: 'json' });
+
+    logger.info('Burn detected', { token: 'mint', amount: 10n });
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]!.line)).toMatchObject({
+      level: 'info',
+      service: 'burn-detector',
+      msg: 'Burn detected',
+      token: 'mint',
+      amount: '10',
+    });
+  });
+
+  it('should serialize errors with their message and stack', () => {
+    const { lines, write } = capture();
+    createLogger('trading-bot', { write, format: 'json' }).error('Trade failed', {
+      error: new Error('slippage exceeded'),
+    });
+
+    const entry = JSON.parse(lines[0]!.line);
+    expect(entry.error).toMatchObject({ name: 'Error', message: 'slippage exceeded' });
+    expect(entry.error.stack).toContain('slippage exceeded');
+    expect(lines[0]!.level).toBe('error');
+  });
+
+  it('should drop entries below the level', () => {
+    const { lines, write } = capture();
+    const logger = createLogger('outbox-relay', { write, level: 'warn' });
+
+    logger.debug('polling');
+    logger.info('relayed');
+    logger.warn('retrying');
+
+    expect(lines.map(({ level }) => level)).toEqual(['warn']);
+  });
+
+  it('should add child bindings to every entry', () => {
+    const { lines, write } = capture();
+    const logger = createLogger('liquidity-monitor', { write, format: 'json' }).child({
+      pool: 'abc',
+    });
+
+    logger.info('TVL changed', { tvl: 5 });
+
+    expect(JSON.parse(lines[0]!.line)).toMatchObject({ pool: 'abc', tvl: 5 });
+  });
+
+  it('should write readable lines in pretty format', () => {
+    const { lines, write } = capture();
+    createLogger('price-aggregator', { write, format: 'pretty' }).warn('Source down', {
+      source: 'jupiter',
+    });
+
+    expect(lines[0]!.line).toMatch(
+      /^\S+ WARN  \[price-aggregator\] Source down \{"source":"jupiter"\}$/,
+    );
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Structured logger shared by the workers
+ * Writes one JSON object per line, or a readable line with LOG_FORMAT=pretty.
+ * Errors in the context are serialized with their name, message and stack.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'json' | 'pretty';
+
+export type LogContext = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+  /** Logger that adds `bindings` to every entry */
+  child(bindings: LogContext): Logger;
+}
+
+export interface LoggerOptions {
+  /** Minimum level written, defaults to LOG_LEVEL or 'info' */
+  level?: LogLevel;
+  /** Defaults to LOG_FORMAT or 'json' */
+  format?: LogFormat;
+  bindings?: LogContext;
+  /** Output sink, defaults to stdout, and stderr for warnings and errors */
+  write?: (line: string, level: LogLevel) => void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  const level = value?.toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : undefined;
+}
+
+function defaultWrite(line: string, level: LogLevel): void {
+  const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/** Token amounts and slots can be bigints, which JSON.stringify rejects */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function serializeContext(context: LogContext): LogContext {
+  return Object.fromEntries(Object.entries(context).map(([key, value]) => [key, serialize(value)]));
+}
+
+class StructuredLogger implements Logger {
+  constructor(
+    private service: string,
+    private level: LogLevel,
+    private format: LogFormat,
+    private bindings: LogContext,
+    private write: (line: string, level: LogLevel) => void,
+  ) {}
+
+  debug(message: string, context?: LogContext): void {
+    this.log('debug', message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.log('info', message, context);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.log('warn', message, context);
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.log('error', message, context);
+  }
+
+  child(bindings: LogContext): Logger {
+    return new StructuredLogger(
+      this.service,
+      this.level,
+      this.format,
+      { ...this.bindings, ...bindings },
+      this.write,
+    );
+  }
+
+  private log(level: LogLevel, message: string, context?: LogContext): void {
+    if (LEVELS[level] < LEVELS[this.level]) {
+      return;
+    }
+
+    const time = new Date().toISOString();
+    const fields = serializeContext({ ...this.bindings, ...context });
+
+    if (this.format === 'pretty') {
+      const extra =
+        Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields, jsonReplacer)}` : '';
+      this.write(
+        `${time} ${level.toUpperCase().padEnd(5)} [${this.service}] ${message}${extra}`,
+        level,
+      );
+      return;
+    }
+
+    this.write(
+      JSON.stringify({ time, level, service: this.service, msg: message, ...fields }, jsonReplacer),
+      level,
+    );
+  }
+}
+
+export function createLogger(service: string, options: LoggerOptions = {}): Logger {
+  return new StructuredLogger(
+    service,
+    options.level ?? parseLevel(process.env.LOG_LEVEL) ?? 'info',
+    options.format ?? (process.env.LOG_FORMAT === 'pretty' ? 'pretty' : 'json'),
+    options.bindings ?? {},
+    options.write ?? defaultWrite,
+  );
+}
@@ -0,0 +1,77 @@
+import type Redis from 'ioredis';
+
+export enum HealthStatus {
+  HEALTHY = 'HEALTHY',
+  DEGRADED = 'DEGRADED',
+  UNHEALTHY = 'UNHEALTHY',
+}
+
+/**
+ * Job counts and pause state of a BullMQ queue
+ */
+export interface QueueMetrics {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+  paused: boolean;
+  /** Same as `paused`, kept for API responses that already expose it */
+  isPaused: boolean;
+}
+
+/**
+ * A queue is DEGRADED at or above `degraded` jobs in a state and UNHEALTHY at or above `unhealthy`
+ */
+export interface Threshold {
+  degraded: number;
+  unhealthy: number;
+}
+
+export interface QueueHealthThresholds {
+  waiting: Threshold;
+  active: Threshold;
+  failed: Threshold;
+}
+
+export interface BullMQQueueHealth {
+  queueName: string;
+  status: HealthStatus;
+  metrics: QueueMetrics;
+  /** Why the queue is not HEALTHY */
+  issues: string[];
+  timestamp: string;
+}
+
+/**
+ * Health of the workers consuming a queue, named after the queue
+ */
+export interface BullMQWorkerHealth {
+  workerName: string;
+  status: HealthStatus;
+  /** At least one worker is connected to the queue */
+  isRunning: boolean;
+  isProcessing: boolean;
+  concurrency: number;
+  /** Totals from BullMQ metrics, zero unless the workers collect metrics */
+  jobsProcessed: number;
+  jobsFailed: number;
+  timestamp: string;
+}
+
+export interface BullMQSystemHealth {
+  status: HealthStatus;
+  queues: Record<string, BullMQQueueHealth>;
+  workers: Record<string, BullMQWorkerHealth>;
+  timestamp: string;
+}
+
+export interface BullMQHealthConfig {
+  connection: Redis;
+  queues: string[];
+  thresholds?: Partial<QueueHealthThresholds>;
+  /** Concurrency the workers were started with, reported as is */
+  workerConcurrency?: number;
+  /** Failed share of processed jobs above which workers are DEGRADED (default: 0.1) */
+  maxWorkerFailureRate?: number;
+}
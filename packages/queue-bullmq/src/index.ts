@@ -17,17 +17,16 @@ export { BullMQProducer } from './producer';
 
 // Types
 export {
-  BULLMQ_QUEUES,
-  type BullMQQueueName,
-  type SolanaEventType,
   type SolanaJobData,
   type BullMQProducerConfig,
   type BullMQProducerMetrics,
   type BullMQWorkerConfig,
   type JobHandler,
-  QUEUE_BY_EVENT_TYPE,
 } from './types';
 
+// Queue names come from the event routing table
+export { QUEUES, type QueueName } from '@solana-eda/events';
+
 // Worker utilities
 export {
   initWorkerBullMQ,
@@ -5,15 +5,11 @@
 
 import { Queue } from 'bullmq';
 import Redis from 'ioredis';
-import type {
-  BullMQProducerConfig,
-  BullMQProducerMetrics,
-  BullMQQueueName,
-  SolanaJobData,
-} from './types';
+import { getEventJobOptions, type QueueName } from '@solana-eda/events';
+import type { BullMQProducerConfig, BullMQProducerMetrics, SolanaJobData } from './types';
 
 export class BullMQProducer {
-  private queues: Map<BullMQQueueName, Queue> = new Map();
+  private queues: Map<QueueName, Queue> = new Map();
   private connection: Redis;
   private metrics: BullMQProducerMetrics = {
     jobsAdded: 0,
@@ -54,7 +50,7 @@ export class BullMQProducer {
    * Add a job to the specified queue
    */
   async addJob(
-    queueName: BullMQQueueName,
+    queueName: QueueName,
     jobData: SolanaJobData,
     options?: any
   ): Promise<void> {
@@ -69,10 +65,9 @@ export class BullMQProducer {
         this.queues.set(queueName, queue);
       }
 
-      const jobName = `${jobData.eventType}:${jobData.eventId}`;
-
-      await queue.add(jobName, jobData, {
+      await queue.add(jobData.event.type, jobData, {
         ...this.defaultJobOptions,
+        ...getEventJobOptions(jobData.event),
         ...options,
       });
 
@@ -88,7 +83,7 @@ export class BullMQProducer {
    * Add multiple jobs in bulk
    */
   async addBulkJobs(
-    queueName: BullMQQueueName,
+    queueName: QueueName,
     jobs: Array<{ name: string; data: SolanaJobData; opts?: any }>
   ): Promise<void> {
     try {
@@ -150,7 +145,7 @@ export class BullMQProducer {
   /**
    * Get queue instance for a specific queue name
    */
-  getQueue(queueName: BullMQQueueName): Queue | undefined {
+  getQueue(queueName: QueueName): Queue | undefined {
     return this.queues.get(queueName);
   }
 }
@@ -5,7 +5,9 @@
 
 import Redis from 'ioredis';
 import { BullMQProducer } from './producer';
-import type { BullMQQueueName, SolanaJobData } from './types';
+import { getEventRoute } from '@solana-eda/events';
+import type { AnyEvent } from '@solana-eda/types';
+import type { SolanaJobData } from './types';
 
 export interface WorkerBullMQConfig {
   redisUrl?: string;
@@ -68,23 +70,18 @@ export async function initWorkerBullMQ(config: WorkerBullMQConfig = {}): Promise
 }
 
 /**
- * Publish event from worker to BullMQ
+ * Publish event from worker to every queue its route fans out to
  */
-export async function publishWorkerEvent(
-  producer: BullMQProducer,
-  queueName: BullMQQueueName,
-  eventType: string,
-  eventId: string,
-  data: Record<string, unknown>
-): Promise<void> {
+export async function publishWorkerEvent(producer: BullMQProducer, event: AnyEvent): Promise<void> {
+  const route = getEventRoute(event.type);
+  route.schema.parse(event);
+
   const jobData: SolanaJobData = {
-    eventType: eventType as any,
-    eventId,
-    timestamp: new Date().toISOString(),
-    data,
+    event,
+    metadata: { timestamp: new Date().toISOString() },
   };
 
-  await producer.addJob(queueName, jobData);
+  await Promise.all(route.queues.map((queueName) => producer.addJob(queueName, jobData)));
 }
 
 /**
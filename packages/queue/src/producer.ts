@@ -1,7 +1,8 @@
 import { Queue, JobsOptions } from 'bullmq';
 import type { AnyEvent } from '@solana-eda/types';
+import { getEventJobOptions, getEventRoute } from '@solana-eda/events';
 import { getRedisConnection, loadQueueConfig, type QueueConfig } from './config';
-import { QUEUE_NAMES, JOB_PRIORITY, getQueueForEventType, type QueueName } from './queues';
+import type { QueueName } from './queues';
 
 /**
  * Base producer options
@@ -33,16 +34,18 @@ export interface JobData<T = AnyEvent> {
  * Result of adding a job
  */
 export interface JobResult {
-  /** Job ID */
+  /** Job ID, the same in every queue */
   jobId: string;
-  /** Queue name */
-  queueName: string;
+  /** Queues the event was added to */
+  queueNames: QueueName[];
   /** Event type */
   eventType: string;
 }
 
 /**
  * Base Producer class for adding jobs to BullMQ queues
+ *
+ * Queues, priority and retry policy of each event come from the routing table.
  */
 export class BaseProducer {
   private queues: Map<QueueName, Queue> = new Map();
@@ -61,10 +64,7 @@ export class BaseProducer {
     if (!this.queues.has(queueName)) {
       const queue = new Queue(queueName, {
         connection: this.connection,
-        defaultJobOptions: {
-          ...this.config.defaultJobOptions,
-          ...this.getQueueSpecificOptions(queueName),
-        },
+        defaultJobOptions: this.config.defaultJobOptions,
       });
 
       this.queues.set(queueName, queue);
@@ -74,40 +74,7 @@ export class BaseProducer {
   }
 
   /**
-   * Get queue-specific options based on the queue name
-   */
-  private getQueueSpecificOptions(queueName: QueueName): Partial<JobsOptions> {
-    switch (queueName) {
-      case QUEUE_NAMES.WORKERS_STATUS:
-        // High priority for worker status
-        return {
-          priority: JOB_PRIORITY.HIGH,
-          attempts: 1, // Don't retry status updates
-        };
-
-      case QUEUE_NAMES.TRADE_EVENTS:
-      case QUEUE_NAMES.POSITION_EVENTS:
-        // Critical for trades and positions
-        return {
-          priority: JOB_PRIORITY.CRITICAL,
-          attempts: 5, // More retries for financial events
-        };
-
-      case QUEUE_NAMES.BURN_EVENTS:
-      case QUEUE_NAMES.LIQUIDITY_EVENTS:
-      case QUEUE_NAMES.PRICE_EVENTS:
-        // High priority for market events
-        return {
-          priority: JOB_PRIORITY.HIGH,
-        };
-
-      default:
-        return {};
-    }
-  }
-
-  /**
-   * Add an event to a queue
+   * Validate an event and add it to every queue it is routed to
    */
   async add(
     event: AnyEvent,
@@ -117,13 +84,13 @@ export class BaseProducer {
       metadata?: JobData['metadata'];
     } = {},
   ): Promise<JobResult> {
-    const queueName = options.queueName || (getQueueForEventType(event.type) as QueueName | null);
-    if (!queueName) {
+    const route = getEventRoute(event.type);
+    if (!route) {
       throw new Error(`No queue found for event type: ${event.type}`);
     }
+    route.schema.parse(event);
 
-    const queue = this.getQueue(queueName as QueueName);
-
+    const queueNames = options.queueName ? [options.queueName] : [...route.queues];
     const jobData: JobData = {
       event,
       metadata: {
@@ -131,16 +98,15 @@ export class BaseProducer {
         ...options.metadata,
       },
     };
+    const jobOptions = { ...getEventJobOptions(event), ...options.jobOptions };
 
-    const job = await queue.add(
-      event.type,
-      jobData,
-      options.jobOptions,
+    const jobs = await Promise.all(
+      queueNames.map((queueName) => this.getQueue(queueName).add(event.type, jobData, jobOptions)),
     );
 
     return {
-      jobId: job.id ?? '',
-      queueName,
+      jobId: jobs[0]?.id ?? '',
+      queueNames,
       eventType: event.type,
     };
   }
@@ -11,6 +11,24 @@ export {
   getDefaultQuoteMints,
   getOpenBookProgramIds,
 } from './openbook-client.js';
+export {
+  OPENBOOK_V2_PROGRAM_ID,
+  OPENBOOK_V2_MARKET_DISCRIMINATOR,
+  OPENBOOK_V2_MARKET_SIZE,
+  decodeOpenBookV2Market,
+  getOpenBookV2MarketFilters,
+  isOpenBookV2Market,
+} from './openbook-v2.js';
+export type { OpenBookV2Market } from './openbook-v2.js';
+
+// Jupiter client
+export {
+  JupiterClient,
+  createJupiterClient,
+  createQuoteComparisonEvent,
+  selectBestQuote,
+  getDexLabels,
+} from './jupiter-client.js';
 
 // Types
 export type {
@@ -24,6 +42,14 @@ export type {
   MarketErrorCallback,
   OpenBookClientConfig,
   AccountChangeResult,
+  MarketScanResult,
+  JupiterClientConfig,
+  JupiterQuoteParams,
+  JupiterQuote,
+  DEXQuote,
+  DEXQuoteComparison,
+  JupiterSwapOptions,
+  JupiterSwapTransaction,
 } from './types.js';
 
 export { ConnectionState as ConnectionStateEnum } from './types.js';
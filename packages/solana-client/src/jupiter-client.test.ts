@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Keypair, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { JupiterClient, createQuoteComparisonEvent, selectBestQuote } from './jupiter-client.js';
+import type { DEXQuote, JupiterQuote } from './types.js';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SOL = 'So11111111111111111111111111111111111111112';
+
+/** outAmount returned by the mock server per `dexes` query value */
+const DEX_OUT_AMOUNTS: Record<string, string> = {
+  'Whirlpool,Orca V2': '6100000',
+  'Raydium,Raydium CLMM,Raydium CP': '6250000',
+  'Meteora DLMM,Meteora': '6200000',
+};
+
+interface RecordedRequest {
+  method: string;
+  url: URL;
+  body?: Record<string, unknown>;
+}
+
+const payer = Keypair.generate();
+const unsignedTransaction = new VersionedTransaction(
+  new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: '11111111111111111111111111111111',
+    instructions: [],
+  }).compileToV0Message(),
+);
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown> | undefined> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString()) : undefined;
+}
+
+describe('JupiterClient', () => {
+  let server: Server;
+  let client: JupiterClient;
+  let requests: RecordedRequest[];
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const body = await readBody(req);
+      requests.push({ method: req.method ?? 'GET', url, body });
+
+      if (url.pathname === '/quote') {
+        const dexes = url.searchParams.get('dexes');
+        const outAmount = dexes ? DEX_OUT_AMOUNTS[dexes] : '6300000';
+        if (!outAmount) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'No routes found' }));
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            inputMint: url.searchParams.get('inputMint'),
+            outputMint: url.searchParams.get('outputMint'),
+            inAmount: url.searchParams.get('amount'),
+            outAmount,
+            otherAmountThreshold: '6000000',
+            swapMode: 'ExactIn',
+            slippageBps: Number(url.searchParams.get('slippageBps')),
+            priceImpactPct: '0.0012',
+            routePlan: [
+              {
+                swapInfo: {
+                  ammKey: 'amm',
+                  label: dexes?.split(',')[0] ?? 'Whirlpool',
+                  inputMint: url.searchParams.get('inputMint'),
+                  outputMint: url.searchParams.get('outputMint'),
+                  inAmount: url.searchParams.get('amount'),
+                  outAmount,
+                  feeAmount: '100',
+                  feeMint: url.searchParams.get('inputMint'),
+                },
+                percent: 100,
+              },
+            ],
+          }),
+        );
+        return;
+      }
+
+      if (url.pathname === '/swap' && req.method === 'POST') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            swapTransaction: Buffer.from(unsignedTransaction.serialize()).toString('base64'),
+            lastValidBlockHeight: 1234,
+          }),
+        );
+        return;
+      }
+
+      res.writeHead(404);
+      res.end('Not found');
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new JupiterClient({ apiUrl: `http://127.0.0.1:${port}/` });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should return a SwapQuote with the raw response', async () => {
+    const quote = await client.getQuote({
+      inputMint: USDC,
+      outputMint: SOL,
+      amount: '1000000000',
+      slippageBps: 100,
+    });
+
+    expect(quote).toMatchObject({
+      inputMint: USDC,
+      outputMint: SOL,
+      inAmount: '1000000000',
+      outAmount: '6300000',
+      otherAmountThreshold: '6000000',
+      slippageBps: 100,
+      priceImpactPct: 0.0012,
+    });
+    expect(quote.routePlan[0]!.swapInfo.label).toBe('Whirlpool');
+    expect(quote.raw.swapMode).toBe('ExactIn');
+
+    const [request] = requests;
+    expect(request!.url.pathname).toBe('/quote');
+    expect(request!.url.searchParams.get('slippageBps')).toBe('100');
+    expect(request!.url.searchParams.has('dexes')).toBe(false);
+  });
+
+  it('should restrict routes to DEX labels', async () => {
+    await client.getQuote({
+      inputMint: USDC,
+      outputMint: SOL,
+      amount: '1000000000',
+      dexes: ['Whirlpool', 'Orca V2'],
+      onlyDirectRoutes: true,
+    });
+
+    expect(requests[0]!.url.searchParams.get('dexes')).toBe('Whirlpool,Orca V2');
+    expect(requests[0]!.url.searchParams.get('onlyDirectRoutes')).toBe('true');
+    expect(requests[0]!.url.searchParams.get('slippageBps')).toBe('50');
+  });
+
+  it('should throw on API errors', async () => {
+    await expect(
+      client.getQuote({ inputMint: USDC, outputMint: SOL, amount: '1', dexes: ['Unknown'] }),
+    ).rejects.toThrow('Jupiter request /quote');
+  });
+
+  it('should compare quotes across Orca, Raydium and Meteora', async () => {
+    const comparison = await client.compareDexQuotes({
+      inputMint: USDC,
+      outputMint: SOL,
+      amount: '1000000000',
+    });
+
+    expect(comparison.quotes.map((quote) => [quote.dex, quote.outAmount])).toEqual([
+      ['orca', '6100000'],
+      ['raydium', '6250000'],
+      ['meteora', '6200000'],
+    ]);
+    expect(comparison.best.dex).toBe('raydium');
+    expect(comparison.failures).toEqual([]);
+    expect(requests.map((request) => request.url.searchParams.get('dexes')).sort()).toEqual(
+      Object.keys(DEX_OUT_AMOUNTS).sort(),
+    );
+  });
+
+  it('should report DEXes without routes as failures', async () => {
+    const comparison = await client.compareDexQuotes(
+      { inputMint: USDC, outputMint: SOL, amount: '1000000000' },
+      ['orca', 'Phoenix'],
+    );
+
+    expect(comparison.quotes.map((quote) => quote.dex)).toEqual(['orca']);
+    expect(comparison.failures).toEqual([
+      { dex: 'Phoenix', error: expect.stringContaining('No routes found') },
+    ]);
+  });
+
+  it('should throw when no DEX returns a quote', async () => {
+    await expect(
+      client.compareDexQuotes({ inputMint: USDC, outputMint: SOL, amount: '1' }, ['Phoenix']),
+    ).rejects.toThrow('No DEX returned a quote');
+  });
+
+  it('should build an unsigned swap transaction', async () => {
+    const quote = await client.getQuote({ inputMint: USDC, outputMint: SOL, amount: '1000000' });
+    const swap = await client.buildSwapTransaction(quote, payer.publicKey);
+
+    expect(swap.lastValidBlockHeight).toBe(1234);
+    expect(swap.transaction.message.staticAccountKeys[0]!.equals(payer.publicKey)).toBe(true);
+    expect(swap.transaction.signatures.every((signature) => signature.every((b) => b === 0))).toBe(
+      true,
+    );
+
+    const swapRequest = requests.find((request) => request.url.pathname === '/swap');
+    expect(swapRequest!.body).toEqual({
+      quoteResponse: quote.raw,
+      userPublicKey: payer.publicKey.toBase58(),
+      wrapAndUnwrapSol: true,
+    });
+  });
+});
+
+describe('selectBestQuote', () => {
+  const dexQuote = (dex: string, outAmount: string, priceImpactPct: number): DEXQuote => ({
+    dex,
+    outAmount,
+    priceImpactPct,
+    quote: {} as JupiterQuote,
+  });
+
+  it('should compare raw amounts as integers', () => {
+    expect(
+      selectBestQuote([dexQuote('orca', '999', 0.1), dexQuote('raydium', '1000', 0.1)])!.dex,
+    ).toBe('raydium');
+  });
+
+  it('should prefer lower price impact on ties', () => {
+    expect(
+      selectBestQuote([dexQuote('orca', '1000', 0.2), dexQuote('meteora', '1000', 0.1)])!.dex,
+    ).toBe('meteora');
+  });
+
+  it('should return null without quotes', () => {
+    expect(selectBestQuote([])).toBeNull();
+  });
+});
+
+describe('createQuoteComparisonEvent', () => {
+  it('should build a DEX_QUOTE_COMPARISON event', () => {
+    const orca: DEXQuote = {
+      dex: 'orca',
+      outAmount: '6100000',
+      priceImpactPct: 0.1,
+      quote: {} as JupiterQuote,
+    };
+    const raydium: DEXQuote = { ...orca, dex: 'raydium', outAmount: '6250000' };
+
+    const event = createQuoteComparisonEvent({
+      inputMint: USDC,
+      outputMint: SOL,
+      amount: '1000000000',
+      quotes: [orca, raydium],
+      best: raydium,
+      failures: [],
+    });
+
+    expect(event.type).toBe('DEX_QUOTE_COMPARISON');
+    expect(event.data).toEqual({
+      inputMint: USDC,
+      outputMint: SOL,
+      amount: '1000000000',
+      quotes: [
+        { dex: 'orca', outAmount: '6100000', priceImpactPct: 0.1 },
+        { dex: 'raydium', outAmount: '6250000', priceImpactPct: 0.1 },
+      ],
+      selectedDEX: 'raydium',
+      bestQuote: { dex: 'raydium', outAmount: '6250000', priceImpactPct: 0.1 },
+    });
+  });
+});
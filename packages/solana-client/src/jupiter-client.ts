@@ -0,0 +1,246 @@
+import { VersionedTransaction, type PublicKey } from '@solana/web3.js';
+import { createDEXQuoteComparisonEvent, FeatureFlags } from '@solana-eda/events';
+import type { AnyEvent, RouteStep } from '@solana-eda/types';
+import type {
+  DEXQuote,
+  DEXQuoteComparison,
+  JupiterClientConfig,
+  JupiterQuote,
+  JupiterQuoteParams,
+  JupiterSwapOptions,
+  JupiterSwapTransaction,
+} from './types.js';
+
+/**
+ * Jupiter route labels per DEX, used to restrict quotes to a single venue
+ */
+const JUPITER_DEX_LABELS: Record<string, string[]> = {
+  orca: ['Whirlpool', 'Orca V2'],
+  raydium: ['Raydium', 'Raydium CLMM', 'Raydium CP'],
+  meteora: ['Meteora DLMM', 'Meteora'],
+};
+
+const DEFAULT_SLIPPAGE_BPS = 50;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Raw Jupiter v6 quote response (fields used by this client)
+ */
+interface JupiterQuoteResponse extends Record<string, unknown> {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  slippageBps: number;
+  priceImpactPct: string;
+  routePlan: RouteStep[];
+}
+
+/**
+ * Jupiter Aggregator Client
+ *
+ * Fetches swap quotes from the Jupiter v6 API, compares routes across
+ * individual DEXes and builds unsigned swap transactions.
+ */
+export class JupiterClient {
+  private apiUrl: string;
+  private timeoutMs: number;
+
+  /**
+   * Create a new JupiterClient
+   */
+  constructor(config: JupiterClientConfig = {}) {
+    this.apiUrl = (config.apiUrl || FeatureFlags.getJupiterApiUrl()).replace(/\/+$/, '');
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Perform a request against the Jupiter API and parse the JSON body
+   */
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      ...init,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Jupiter request ${path} failed: ${response.status} ${await response.text()}`,
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Get a swap quote
+   */
+  async getQuote(params: JupiterQuoteParams): Promise<JupiterQuote> {
+    const query = new URLSearchParams({
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      amount: params.amount,
+      slippageBps: (params.slippageBps ?? DEFAULT_SLIPPAGE_BPS).toString(),
+    });
+
+    if (params.dexes && params.dexes.length > 0) {
+      query.set('dexes', params.dexes.join(','));
+    }
+    if (params.onlyDirectRoutes) {
+      query.set('onlyDirectRoutes', 'true');
+    }
+
+    const raw = await this.request<JupiterQuoteResponse>(`/quote?${query.toString()}`);
+
+    return {
+      inputMint: raw.inputMint,
+      outputMint: raw.outputMint,
+      inAmount: raw.inAmount,
+      outAmount: raw.outAmount,
+      otherAmountThreshold: raw.otherAmountThreshold,
+      slippageBps: raw.slippageBps,
+      priceImpactPct: Number(raw.priceImpactPct),
+      routePlan: raw.routePlan,
+      raw,
+    };
+  }
+
+  /**
+   * Quote the same swap on each DEX separately and pick the best output
+   *
+   * DEXes without a route are reported in `failures`; throws only when no DEX returns a quote.
+   */
+  async compareDexQuotes(
+    params: Omit<JupiterQuoteParams, 'dexes'>,
+    dexes: string[] = Object.keys(JUPITER_DEX_LABELS),
+  ): Promise<DEXQuoteComparison> {
+    const results = await Promise.allSettled(
+      dexes.map((dex) => this.getQuote({ ...params, dexes: getDexLabels(dex) })),
+    );
+
+    const quotes: DEXQuote[] = [];
+    const failures: DEXQuoteComparison['failures'] = [];
+
+    results.forEach((result, index) => {
+      const dex = dexes[index]!;
+      if (result.status === 'fulfilled') {
+        quotes.push({
+          dex,
+          outAmount: result.value.outAmount,
+          priceImpactPct: result.value.priceImpactPct,
+          quote: result.value,
+        });
+      } else {
+        const reason = result.reason as Error;
+        failures.push({ dex, error: reason?.message ?? String(reason) });
+      }
+    });
+
+    const best = selectBestQuote(quotes);
+    if (!best) {
+      throw new Error(
+        `No DEX returned a quote for ${params.inputMint} -> ${params.outputMint}: ` +
+          failures.map((failure) => `${failure.dex}: ${failure.error}`).join('; '),
+      );
+    }
+
+    return {
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      amount: params.amount,
+      quotes,
+      best,
+      failures,
+    };
+  }
+
+  /**
+   * Build an unsigned swap transaction for a quote
+   */
+  async buildSwapTransaction(
+    quote: JupiterQuote,
+    userPublicKey: PublicKey | string,
+    options: JupiterSwapOptions = {},
+  ): Promise<JupiterSwapTransaction> {
+    const response = await this.request<{ swapTransaction: string; lastValidBlockHeight: number }>(
+      '/swap',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          quoteResponse: quote.raw,
+          userPublicKey: userPublicKey.toString(),
+          wrapAndUnwrapSol: options.wrapAndUnwrapSol ?? true,
+          prioritizationFeeLamports: options.prioritizationFeeLamports,
+        }),
+      },
+    );
+
+    return {
+      transaction: VersionedTransaction.deserialize(
+        Buffer.from(response.swapTransaction, 'base64'),
+      ),
+      lastValidBlockHeight: response.lastValidBlockHeight,
+    };
+  }
+}
+
+/**
+ * Pick the quote with the largest output, preferring lower price impact on ties
+ */
+export function selectBestQuote(quotes: DEXQuote[]): DEXQuote | null {
+  let best: DEXQuote | null = null;
+
+  for (const quote of quotes) {
+    if (!best) {
+      best = quote;
+      continue;
+    }
+
+    const outAmount = BigInt(quote.outAmount);
+    const bestOutAmount = BigInt(best.outAmount);
+    if (
+      outAmount > bestOutAmount ||
+      (outAmount === bestOutAmount && quote.priceImpactPct < best.priceImpactPct)
+    ) {
+      best = quote;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Build a DEX_QUOTE_COMPARISON event from a comparison
+ */
+export function createQuoteComparisonEvent(comparison: DEXQuoteComparison): AnyEvent {
+  const summarize = ({ dex, outAmount, priceImpactPct }: DEXQuote) => ({
+    dex,
+    outAmount,
+    priceImpactPct,
+  });
+
+  return createDEXQuoteComparisonEvent({
+    inputMint: comparison.inputMint,
+    outputMint: comparison.outputMint,
+    amount: comparison.amount,
+    quotes: comparison.quotes.map(summarize),
+    selectedDEX: comparison.best.dex,
+    bestQuote: summarize(comparison.best),
+  });
+}
+
+/**
+ * Get the Jupiter route labels for a DEX name, or treat the name as a label
+ */
+export function getDexLabels(dex: string): string[] {
+  return JUPITER_DEX_LABELS[dex.toLowerCase()] ?? [dex];
+}
+
+/**
+ * Create a JupiterClient instance
+ */
+export function createJupiterClient(config?: JupiterClientConfig): JupiterClient {
+  return new JupiterClient(config);
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { Connection, PublicKey, type KeyedAccountInfo } from '@solana/web3.js';
+import solUsdcMarket from './fixtures/openbook-v2-sol-usdc-market.json';
+import { OpenBookClient } from './openbook-client.js';
+import {
+  OPENBOOK_V2_MARKET_SIZE,
+  OPENBOOK_V2_PROGRAM_ID,
+  getOpenBookV2MarketFilters,
+} from './openbook-v2.js';
+import type { MarketState } from './types.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const OTHER_ACCOUNT = 'H6ARHf6YXhGYeQfUzQNGk6rDNnLBQKrenN712K4AQJEG';
+
+function marketData(): Buffer {
+  return Buffer.from(solUsdcMarket.account.data[0]!, 'base64');
+}
+
+function accountInfo(data: Buffer) {
+  return {
+    data,
+    owner: new PublicKey(OPENBOOK_V2_PROGRAM_ID),
+    executable: false,
+    lamports: 1,
+  };
+}
+
+/**
+ * Connection stub serving getProgramAccounts from a fixed account list and
+ * recording program and slot subscriptions
+ */
+function stubConnection(accounts: Array<{ pubkey: string; data: Buffer }>, slot = 300_000_000) {
+  const calls: unknown[] = [];
+  const subscriptions: Array<{
+    filters: unknown;
+    callback: (info: KeyedAccountInfo, context: { slot: number }) => void;
+  }> = [];
+  const removed: number[] = [];
+  const slotListeners = new Map<number, () => void>();
+  const notifySlot = () => slotListeners.forEach((listener) => listener());
+
+  const connection = {
+    async getProgramAccounts(programId: PublicKey, config: unknown) {
+      calls.push({ programId: programId.toBase58(), config });
+      return {
+        context: { slot },
+        value: accounts.map(({ pubkey, data }) => ({
+          pubkey: new PublicKey(pubkey),
+          account: accountInfo(data),
+        })),
+      };
+    },
+    onProgramAccountChange(
+      _programId: PublicKey,
+      callback: (info: KeyedAccountInfo, context: { slot: number }) => void,
+      _commitment: string,
+      filters: unknown,
+    ) {
+      subscriptions.push({ filters, callback });
+      return subscriptions.length - 1;
+    },
+    async removeProgramAccountChangeListener(id: number) {
+      removed.push(id);
+    },
+    onSlotChange(callback: () => void) {
+      slotListeners.set(slotListeners.size, callback);
+      return slotListeners.size - 1;
+    },
+    async removeSlotChangeListener(id: number) {
+      slotListeners.delete(id);
+    },
+  } as unknown as Connection;
+
+  return { connection, calls, subscriptions, removed, slotListeners, notifySlot };
+}
+
+describe('OpenBookClient', () => {
+  describe('scanMarkets', () => {
+    it('should decode markets returned by getProgramAccounts with the scan slot', async () => {
+      const { connection, calls } = stubConnection([
+        { pubkey: solUsdcMarket.pubkey, data: marketData() },
+      ]);
+      const client = new OpenBookClient({ connection, onMarketDiscovered: () => {} });
+
+      const { slot, markets } = await client.scanMarkets(USDC);
+
+      expect(calls).toEqual([
+        {
+          programId: OPENBOOK_V2_PROGRAM_ID,
+          config: {
+            filters: getOpenBookV2MarketFilters(USDC),
+            commitment: 'confirmed',
+            withContext: true,
+          },
+        },
+      ]);
+      expect(slot).toBe(300_000_000);
+      expect(markets).toHaveLength(1);
+      expect(markets[0]).toMatchObject({
+        address: solUsdcMarket.pubkey,
+        slot: 300_000_000,
+        name: 'SOL-USDC',
+        baseMint: SOL,
+        quoteMint: USDC,
+      });
+    });
+
+    it('should skip accounts that are not markets and apply base mint filters', async () => {
+      const { connection } = stubConnection([
+        { pubkey: solUsdcMarket.pubkey, data: marketData() },
+        { pubkey: OTHER_ACCOUNT, data: Buffer.alloc(OPENBOOK_V2_MARKET_SIZE) },
+      ]);
+
+      const all = new OpenBookClient({ connection, onMarketDiscovered: () => {} });
+      const bonkOnly = new OpenBookClient({
+        connection,
+        onMarketDiscovered: () => {},
+        filters: { baseMints: ['DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263'] },
+      });
+
+      expect(await all.getExistingMarkets()).toHaveLength(1);
+      expect(await bonkOnly.getExistingMarkets()).toEqual([]);
+    });
+  });
+
+  describe('startMonitoring', () => {
+    it('should subscribe with the market filters and emit decoded markets', async () => {
+      const { connection, subscriptions } = stubConnection([]);
+      const discovered: MarketState[] = [];
+      const client = new OpenBookClient({
+        connection,
+        filters: { quoteMint: USDC },
+        onMarketDiscovered: (market) => {
+          discovered.push(market);
+        },
+      });
+
+      await client.startMonitoring();
+      subscriptions[0]!.callback(
+        { accountId: new PublicKey(solUsdcMarket.pubkey), accountInfo: accountInfo(marketData()) },
+        { slot: 300_000_123 },
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(client.isActive()).toBe(true);
+      await client.stopMonitoring();
+      expect(subscriptions[0]!.filters).toEqual(getOpenBookV2MarketFilters(USDC));
+      expect(discovered).toHaveLength(1);
+      expect(discovered[0]).toMatchObject({
+        address: solUsdcMarket.pubkey,
+        slot: 300_000_123,
+        quoteMint: USDC,
+      });
+    });
+
+    it('should go inactive when slot notifications stop and fill the gap once they resume', async () => {
+      jest.useFakeTimers();
+      try {
+        const { connection, removed, slotListeners, notifySlot } = stubConnection([]);
+        let reconnects = 0;
+        const client = new OpenBookClient({
+          connection,
+          onMarketDiscovered: () => {},
+          onReconnect: () => {
+            reconnects++;
+          },
+          staleAfterMs: 10_000,
+        });
+
+        await client.startMonitoring();
+        jest.advanceTimersByTime(8_000);
+        notifySlot();
+        jest.advanceTimersByTime(8_000);
+        expect(client.isActive()).toBe(true);
+
+        jest.advanceTimersByTime(5_000);
+        expect(client.isActive()).toBe(false);
+        expect(reconnects).toBe(0);
+
+        notifySlot();
+        notifySlot();
+        expect(client.isActive()).toBe(true);
+        expect(reconnects).toBe(1);
+
+        await client.stopMonitoring();
+        expect(client.isActive()).toBe(false);
+        expect(removed).toEqual([0]);
+        expect(slotListeners.size).toBe(0);
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
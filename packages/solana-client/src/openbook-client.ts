@@ -1,13 +1,10 @@
+import { Connection, PublicKey, type Commitment } from '@solana/web3.js';
 import {
-  Connection,
-  PublicKey,
-  Commitment,
-  AccountInfo,
-} from '@solana/web3.js';
-import {
-  MARKET_STATE_LAYOUT_V3,
-  MAINNET_PROGRAM_ID,
-} from '@raydium-io/raydium-sdk';
+  OPENBOOK_V2_PROGRAM_ID,
+  decodeOpenBookV2Market,
+  getOpenBookV2MarketFilters,
+  isOpenBookV2Market,
+} from './openbook-v2.js';
 import type {
   MarketState,
   MarketFilters,
@@ -15,16 +12,23 @@ import type {
   MarketErrorCallback,
   OpenBookClientConfig,
   AccountChangeResult,
+  MarketScanResult,
 } from './types.js';
 
 /**
- * OpenBook program IDs
+ * OpenBook v2 program IDs, the program is deployed at the same address on every cluster
  */
 const OPENBOOK_PROGRAM_IDS = {
-  MAINNET: new PublicKey('srmqPvymJeFQ6fTL15sRKbGtWxGWKbLFXfNxGVqY5n'),
-  DEVNET: new PublicKey('DEXy5ZkeTMYnp4ASd1zHkmXDJqt ZwzdSuBvZgHPoEED'),
+  MAINNET: new PublicKey(OPENBOOK_V2_PROGRAM_ID),
+  DEVNET: new PublicKey(OPENBOOK_V2_PROGRAM_ID),
 };
 
+/**
+ * Time without slot notifications after which the WebSocket counts as down.
+ * Slots advance every ~400ms, so a healthy socket is never this quiet.
+ */
+const DEFAULT_STALE_AFTER_MS = 30_000;
+
 /**
  * Default quote mints to monitor
  */
@@ -38,14 +42,18 @@ const DEFAULT_QUOTE_MINTS = {
 /**
  * OpenBook Market Discovery Client
  *
- * Monitors for new OpenBook markets using onProgramAccountChange
- * with filtering by dataSize and memcmp for quote mint.
+ * Monitors OpenBook v2 markets using onProgramAccountChange, filtered by
+ * the Market account discriminator and size and optionally by quote mint.
  */
 export class OpenBookClient {
   private connection: Connection;
   private config: OpenBookClientConfig;
   private subscriptionId: number | null = null;
   private isMonitoring = false;
+  private slotSubscriptionId: number | null = null;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private lastSlotAt = 0;
+  private isSocketUp = false;
 
   /**
    * Create a new OpenBookClient
@@ -68,14 +76,11 @@ export class OpenBookClient {
     }
 
     const programId = this.config.programId!;
-    const commitment = this.config.filters?.commitment || 'confirmed';
-
-    // Build filters
-    const filters = this.buildFilters();
+    const commitment = this.getCommitment();
 
     try {
       // Subscribe to program account changes
-      const subscription = this.connection.onProgramAccountChange(
+      this.subscriptionId = this.connection.onProgramAccountChange(
         programId,
         (keyedAccountInfo, context) => {
           const result: AccountChangeResult = {
@@ -93,54 +98,53 @@ export class OpenBookClient {
           this.handleAccountChange(result);
         },
         commitment,
-        filters
+        getOpenBookV2MarketFilters(this.config.filters?.quoteMint),
       );
-
-      this.subscriptionId = subscription as unknown as number;
       this.isMonitoring = true;
+      this.watchSocketHealth();
     } catch (error) {
       await this.handleError(error as Error);
     }
   }
 
   /**
-   * Build filters for market discovery
+   * Track the WebSocket through slot notifications.
+   * The socket counts as down once they stop for staleAfterMs; the first notification after
+   * that means web3.js reconnected and resubscribed, so onReconnect is called to fill the gap.
    */
-  private buildFilters(): any[] {
-    const filters: any[] = [];
+  private watchSocketHealth(): void {
+    const staleAfterMs = this.config.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+    this.lastSlotAt = Date.now();
+    this.isSocketUp = true;
+
+    this.slotSubscriptionId = this.connection.onSlotChange(() => {
+      this.lastSlotAt = Date.now();
+      if (this.isSocketUp) {
+        return;
+      }
 
-    // Filter by market state data size
-    filters.push({
-      dataSize: MARKET_STATE_LAYOUT_V3.span,
+      this.isSocketUp = true;
+      if (this.config.onReconnect) {
+        Promise.resolve(this.config.onReconnect()).catch((error) =>
+          this.handleError(error as Error),
+        );
+      }
     });
 
-    // Filter by quote mint if specified
-    const quoteMint = this.config.filters?.quoteMint;
-    if (quoteMint) {
-      const quoteMintPubkey =
-        quoteMint instanceof PublicKey
-          ? quoteMint
-          : new PublicKey(quoteMint);
-
-      const quoteMintOffset = MARKET_STATE_LAYOUT_V3.offsetOf('quoteMint');
-
-      filters.push({
-        memcmp: {
-          offset: quoteMintOffset,
-          bytes: quoteMintPubkey.toBase58(),
-        },
-      });
-    }
-
-    return filters;
+    this.healthTimer = setInterval(
+      () => {
+        if (Date.now() - this.lastSlotAt >= staleAfterMs) {
+          this.isSocketUp = false;
+        }
+      },
+      Math.max(1, Math.floor(staleAfterMs / 2)),
+    );
   }
 
   /**
    * Handle account change callback
    */
-  private async handleAccountChange(
-    result: AccountChangeResult
-  ): Promise<void> {
+  private async handleAccountChange(result: AccountChangeResult): Promise<void> {
     try {
       const market = this.decodeMarketState(result);
       if (!market) {
@@ -160,40 +164,21 @@ export class OpenBookClient {
   }
 
   /**
-   * Decode market state from account info
+   * Decode market state from account info, null for accounts that are not v2 markets
    */
   private decodeMarketState(result: AccountChangeResult): MarketState | null {
-    try {
-      const { account_id, account_info } = result;
-      const marketAddress = new PublicKey(account_id);
-      const data = Buffer.from(account_info.data);
-
-      // Decode the market state layout
-      const marketState = MARKET_STATE_LAYOUT_V3.decode(data);
-
-      // Extract relevant fields based on actual raydium-sdk layout
-      const market: MarketState = {
-        address: marketAddress,
-        baseMint: marketState.baseMint,
-        quoteMint: marketState.quoteMint,
-        bids: marketState.bids,
-        asks: marketState.asks,
-        eventQueue: marketState.eventQueue,
-        baseVault: marketState.baseVault,
-        quoteVault: marketState.quoteVault,
-        baseLotSize: BigInt(marketState.baseLotSize.toString()),
-        quoteLotSize: BigInt(marketState.quoteLotSize.toString()),
-        feeRateBps: marketState.feeRateBps,
-        // Set default values for optional fields that may not be in the layout
-        flags: 0,
-        exists: true,
-      };
-
-      return market;
-    } catch (error) {
-      console.error('Failed to decode market state:', error);
+    const { account_id, account_info, context } = result;
+    const data = Buffer.from(account_info.data);
+
+    if (!isOpenBookV2Market(data)) {
       return null;
     }
+
+    return {
+      address: account_id,
+      slot: context.slot,
+      ...decodeOpenBookV2Market(data),
+    };
   }
 
   /**
@@ -208,11 +193,9 @@ export class OpenBookClient {
 
     // Filter by base mints if specified
     if (filters.baseMints && filters.baseMints.length > 0) {
-      const baseMintAddress = market.baseMint.toBase58();
-      const matches = filters.baseMints.some(mint => {
-        const mintAddress = mint instanceof PublicKey ? mint : new PublicKey(mint);
-        return mintAddress.toBase58() === baseMintAddress;
-      });
+      const matches = filters.baseMints.some(
+        (mint) => new PublicKey(mint).toBase58() === market.baseMint,
+      );
 
       if (!matches) {
         return false;
@@ -233,6 +216,10 @@ export class OpenBookClient {
     }
   }
 
+  private getCommitment(): Commitment {
+    return this.config.filters?.commitment || 'confirmed';
+  }
+
   /**
    * Stop monitoring for new markets
    */
@@ -241,79 +228,94 @@ export class OpenBookClient {
       return;
     }
 
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+
     try {
-      await this.connection.removeAccountChangeListener(this.subscriptionId);
+      await this.connection.removeProgramAccountChangeListener(this.subscriptionId);
+      if (this.slotSubscriptionId !== null) {
+        await this.connection.removeSlotChangeListener(this.slotSubscriptionId);
+      }
     } catch (error) {
-      console.error('Failed to remove account change listener:', error);
+      console.error('Failed to remove subscription listeners:', error);
     }
 
     this.subscriptionId = null;
+    this.slotSubscriptionId = null;
     this.isMonitoring = false;
+    this.isSocketUp = false;
   }
 
   /**
-   * Check if currently monitoring
+   * Check if currently monitoring with a live WebSocket
    */
   isActive(): boolean {
-    return this.isMonitoring;
+    return this.isMonitoring && this.isSocketUp;
   }
 
   /**
    * Get existing markets for a given quote mint
+   * Throws when the RPC request fails so callers can retry.
    */
-  async getExistingMarkets(quoteMint?: PublicKey): Promise<MarketState[]> {
-    const programId = this.config.programId!;
-    const filters = [];
-
-    // Filter by market state data size
-    filters.push({
-      dataSize: MARKET_STATE_LAYOUT_V3.span,
-    });
-
-    // Filter by quote mint if specified
-    const targetQuoteMint = quoteMint || this.config.filters?.quoteMint;
-    if (targetQuoteMint) {
-      const quoteMintPubkey =
-        targetQuoteMint instanceof PublicKey
-          ? targetQuoteMint
-          : new PublicKey(targetQuoteMint);
-
-      const quoteMintOffset = MARKET_STATE_LAYOUT_V3.offsetOf('quoteMint');
-
-      filters.push({
-        memcmp: {
-          offset: quoteMintOffset,
-          bytes: quoteMintPubkey.toBase58(),
-        },
-      });
-    }
-
-    try {
-      const accounts = await this.connection.getProgramAccounts(programId, {
-        filters,
-        commitment: this.config.filters?.commitment || 'confirmed',
-      });
-
-      const markets: MarketState[] = [];
+  async getExistingMarkets(quoteMint?: string | PublicKey): Promise<MarketState[]> {
+    const { markets } = await this.scanMarkets(quoteMint);
+    return markets;
+  }
 
-      for (const account of accounts) {
-        const result: AccountChangeResult = {
+  /**
+   * Scan every market for a given quote mint, along with the slot the scan was served at
+   * Throws when the RPC request fails so callers can retry.
+   */
+  async scanMarkets(quoteMint?: string | PublicKey): Promise<MarketScanResult> {
+    const { context, value: accounts } = await this.connection.getProgramAccounts(
+      this.config.programId!,
+      {
+        filters: getOpenBookV2MarketFilters(quoteMint || this.config.filters?.quoteMint),
+        commitment: this.getCommitment(),
+        withContext: true,
+      },
+    );
+
+    const markets: MarketState[] = [];
+
+    for (const account of accounts) {
+      try {
+        const market = this.decodeMarketState({
           account_id: account.pubkey.toBase58(),
           account_info: account.account,
-          context: { slot: 0 },
-        };
-
-        const market = this.decodeMarketState(result);
+          context: { slot: context.slot },
+        });
         if (market && this.passesFilters(market)) {
           markets.push(market);
         }
+      } catch (error) {
+        await this.handleError(error as Error);
       }
+    }
 
-      return markets;
-    } catch (error) {
-      await this.handleError(error as Error);
-      return [];
+    return { slot: context.slot, markets };
+  }
+
+  /**
+   * Get a single market, null when the account does not exist or is not a v2 market
+   */
+  async getMarket(address: string | PublicKey): Promise<MarketState | null> {
+    const marketAddress = new PublicKey(address);
+    const { context, value } = await this.connection.getAccountInfoAndContext(marketAddress, {
+      commitment: this.getCommitment(),
+    });
+
+    if (!value || !value.owner.equals(this.config.programId!)) {
+      return null;
     }
+
+    return this.decodeMarketState({
+      account_id: marketAddress.toBase58(),
+      account_info: value,
+      context: { slot: context.slot },
+    });
   }
 }
 
@@ -0,0 +1,117 @@
+import { describe, it, expect } from '@jest/globals';
+import { PublicKey } from '@solana/web3.js';
+import solUsdcMarket from './fixtures/openbook-v2-sol-usdc-market.json';
+import {
+  OPENBOOK_V2_MARKET_DISCRIMINATOR,
+  OPENBOOK_V2_MARKET_SIZE,
+  decodeOpenBookV2Market,
+  getOpenBookV2MarketFilters,
+  isOpenBookV2Market,
+} from './openbook-v2.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const PYTH_SOL_USD = 'H6ARHf6YXhGYeQfUzQNGk6rDNnLBQKrenN712K4AQJEG';
+
+function marketData(): Buffer {
+  return Buffer.from(solUsdcMarket.account.data[0]!, 'base64');
+}
+
+describe('OpenBook v2 market layout', () => {
+  it('should use the Anchor discriminator of the Market account', () => {
+    expect(OPENBOOK_V2_MARKET_DISCRIMINATOR.toString('hex')).toBe('dbbed53700e3c69a');
+    expect(marketData().length).toBe(OPENBOOK_V2_MARKET_SIZE);
+  });
+
+  describe('decodeOpenBookV2Market', () => {
+    it('should decode mints, vaults, lot sizes, fees and name', () => {
+      const market = decodeOpenBookV2Market(marketData());
+
+      expect(market).toMatchObject({
+        name: 'SOL-USDC',
+        baseMint: SOL,
+        quoteMint: USDC,
+        baseVault: '2Rn9AGHZLqpLZKmdsFYdBC8QCRAN4iJbjbB6mygW1Wzo',
+        quoteVault: 'Bjp7xMTnaCczz3azjcREoPh9uzyAza6wQz4NHQFMDuGP',
+        baseDecimals: 9,
+        quoteDecimals: 6,
+        bids: 'CqNqVxsyTTw5vbzYx6KaQeJgR8NjrTGh5bEYphQ4yq1f',
+        asks: 'EYZybmrrUNdi9yUXcWGk2PT4MwgkBrL3rRc2kSbETh9d',
+        eventHeap: 'BZr3j6QvxcWbDcp56vLH3ZdHRE1xHKhaQy3DhudYbrnc',
+        marketAuthority: 'CWg5HzZ9HM7WvQBU9K99HmdiQdQFKreY35DEyCwm3kWV',
+        collectFeeAdmin: 'GuBgRvLmXHGNa2rEWYBtwMXaQ5Ns1BwFB28HTYnBFZEb',
+        baseLotSize: 1_000_000n,
+        quoteLotSize: 1n,
+        makerFee: -100n,
+        takerFee: 400n,
+        makerFeeRate: -0.0001,
+        takerFeeRate: 0.0004,
+        baseDepositTotal: 152_300_000_000n,
+        quoteDepositTotal: 21_480_000_000n,
+        seqNum: 8_812_345n,
+        timeExpiry: 0,
+        registrationTime: 1_704_931_200,
+      });
+    });
+
+    it('should derive tick size and minimum order size in UI units', () => {
+      const market = decodeOpenBookV2Market(marketData());
+
+      expect(market.tickSize).toBeCloseTo(0.001, 12);
+      expect(market.minOrderSize).toBeCloseTo(0.001, 12);
+    });
+
+    it('should decode unset optional keys as null', () => {
+      const market = decodeOpenBookV2Market(marketData());
+
+      expect(market.oracleA).toBe(PYTH_SOL_USD);
+      expect(market.oracleB).toBeNull();
+      expect(market.openOrdersAdmin).toBeNull();
+      expect(market.consumeEventsAdmin).toBeNull();
+      expect(market.closeMarketAdmin).toBeNull();
+    });
+
+    it('should stop the name at the first zero byte', () => {
+      const data = marketData();
+      Buffer.from('BONK-SOL\0\0junk').copy(data, 184);
+
+      expect(decodeOpenBookV2Market(data).name).toBe('BONK-SOL');
+    });
+
+    it('should reject accounts with another discriminator', () => {
+      const data = marketData();
+      data.fill(0, 0, 8);
+
+      expect(isOpenBookV2Market(data)).toBe(false);
+      expect(() => decodeOpenBookV2Market(data)).toThrow('discriminator mismatch');
+    });
+
+    it('should reject truncated accounts', () => {
+      expect(() => decodeOpenBookV2Market(marketData().subarray(0, 600))).toThrow(
+        'expected 848 bytes, got 600',
+      );
+    });
+  });
+
+  describe('getOpenBookV2MarketFilters', () => {
+    it('should match the Market size and discriminator', () => {
+      expect(getOpenBookV2MarketFilters()).toEqual([
+        { dataSize: 848 },
+        { memcmp: { offset: 0, bytes: '277VNwDjxpo=', encoding: 'base64' } },
+      ]);
+    });
+
+    it('should filter on the quote mint when given', () => {
+      const filters = getOpenBookV2MarketFilters(USDC);
+      const quoteMintFilter = filters[2] as { memcmp: { offset: number; bytes: string } };
+      const data = marketData();
+
+      expect(quoteMintFilter.memcmp.bytes).toBe(USDC);
+      expect(
+        new PublicKey(
+          data.subarray(quoteMintFilter.memcmp.offset, quoteMintFilter.memcmp.offset + 32),
+        ).toBase58(),
+      ).toBe(USDC);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * OpenBook v2 market layout
+ * Decodes the zero-copy `Market` account of the OpenBook v2 Anchor program
+ */
+
+import { createHash } from 'node:crypto';
+import { PublicKey, type GetProgramAccountsFilter } from '@solana/web3.js';
+
+export const OPENBOOK_V2_PROGRAM_ID = 'opnb2LAfJYbBMAqJfpSkHg3XV55hukunQEHy2Ybto5v';
+
+/**
+ * Anchor account discriminator, the first 8 bytes of sha256("account:Market")
+ */
+export const OPENBOOK_V2_MARKET_DISCRIMINATOR = createHash('sha256')
+  .update('account:Market')
+  .digest()
+  .subarray(0, 8);
+
+/**
+ * Discriminator plus the 840-byte Market struct
+ */
+export const OPENBOOK_V2_MARKET_SIZE = 848;
+
+/**
+ * Market field offsets (after the 8-byte Anchor discriminator)
+ */
+const MARKET_OFFSETS = {
+  baseDecimals: 9,
+  quoteDecimals: 10,
+  marketAuthority: 16,
+  timeExpiry: 48,
+  collectFeeAdmin: 56,
+  openOrdersAdmin: 88,
+  consumeEventsAdmin: 120,
+  closeMarketAdmin: 152,
+  name: 184,
+  bids: 200,
+  asks: 232,
+  eventHeap: 264,
+  oracleA: 296,
+  oracleB: 328,
+  quoteLotSize: 448,
+  baseLotSize: 456,
+  seqNum: 464,
+  registrationTime: 472,
+  makerFee: 480,
+  takerFee: 488,
+  baseMint: 576,
+  quoteMint: 608,
+  marketBaseVault: 640,
+  baseDepositTotal: 672,
+  marketQuoteVault: 680,
+  quoteDepositTotal: 712,
+} as const;
+
+const NAME_LENGTH = 16;
+
+/**
+ * Fees are stored in millionths of the traded quote amount
+ */
+const FEE_DENOMINATOR = 1_000_000;
+
+/**
+ * Decoded OpenBook v2 market account
+ * Lot sizes, fees and deposits are raw on-chain integers, tick size and minimum order size
+ * are in UI units of the quote and base token.
+ */
+export interface OpenBookV2Market {
+  name: string;
+  baseMint: string;
+  quoteMint: string;
+  baseVault: string;
+  quoteVault: string;
+  baseDecimals: number;
+  quoteDecimals: number;
+  marketAuthority: string;
+  bids: string;
+  asks: string;
+  eventHeap: string;
+  /** Null when the market has no oracle */
+  oracleA: string | null;
+  oracleB: string | null;
+  /** Admins are null when the role is not set */
+  openOrdersAdmin: string | null;
+  consumeEventsAdmin: string | null;
+  closeMarketAdmin: string | null;
+  collectFeeAdmin: string;
+  baseLotSize: bigint;
+  quoteLotSize: bigint;
+  /** Price increment of one base token, in quote tokens */
+  tickSize: number;
+  /** Smallest order, in base tokens */
+  minOrderSize: number;
+  /** Maker fee in millionths, negative when makers earn a rebate */
+  makerFee: bigint;
+  takerFee: bigint;
+  /** Fees as a fraction of the quote amount */
+  makerFeeRate: number;
+  takerFeeRate: number;
+  baseDepositTotal: bigint;
+  quoteDepositTotal: bigint;
+  seqNum: bigint;
+  /** Unix seconds, 0 when the market never expires */
+  timeExpiry: number;
+  registrationTime: number;
+}
+
+function readPublicKey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+/**
+ * NonZeroPubkeyOption: an all-zero key means None
+ */
+function readOptionalPublicKey(data: Buffer, offset: number): string | null {
+  const key = data.subarray(offset, offset + 32);
+  return key.every((byte) => byte === 0) ? null : new PublicKey(key).toBase58();
+}
+
+function readName(data: Buffer): string {
+  const bytes = data.subarray(MARKET_OFFSETS.name, MARKET_OFFSETS.name + NAME_LENGTH);
+  const end = bytes.indexOf(0);
+  return bytes.subarray(0, end === -1 ? NAME_LENGTH : end).toString('utf8');
+}
+
+/**
+ * Whether account data starts with the Market discriminator
+ */
+export function isOpenBookV2Market(data: Buffer): boolean {
+  return (
+    data.length >= OPENBOOK_V2_MARKET_DISCRIMINATOR.length &&
+    data
+      .subarray(0, OPENBOOK_V2_MARKET_DISCRIMINATOR.length)
+      .equals(OPENBOOK_V2_MARKET_DISCRIMINATOR)
+  );
+}
+
+/**
+ * Decode an OpenBook v2 Market account
+ */
+export function decodeOpenBookV2Market(data: Buffer): OpenBookV2Market {
+  if (data.length < OPENBOOK_V2_MARKET_SIZE) {
+    throw new Error(
+      `Invalid OpenBook v2 market account: expected ${OPENBOOK_V2_MARKET_SIZE} bytes, got ${data.length}`,
+    );
+  }
+  if (!isOpenBookV2Market(data)) {
+    throw new Error('Invalid OpenBook v2 market account: discriminator mismatch');
+  }
+
+  const baseDecimals = data.readUInt8(MARKET_OFFSETS.baseDecimals);
+  const quoteDecimals = data.readUInt8(MARKET_OFFSETS.quoteDecimals);
+  const baseLotSize = data.readBigInt64LE(MARKET_OFFSETS.baseLotSize);
+  const quoteLotSize = data.readBigInt64LE(MARKET_OFFSETS.quoteLotSize);
+  const makerFee = data.readBigInt64LE(MARKET_OFFSETS.makerFee);
+  const takerFee = data.readBigInt64LE(MARKET_OFFSETS.takerFee);
+
+  return {
+    name: readName(data),
+    baseMint: readPublicKey(data, MARKET_OFFSETS.baseMint),
+    quoteMint: readPublicKey(data, MARKET_OFFSETS.quoteMint),
+    baseVault: readPublicKey(data, MARKET_OFFSETS.marketBaseVault),
+    quoteVault: readPublicKey(data, MARKET_OFFSETS.marketQuoteVault),
+    baseDecimals,
+    quoteDecimals,
+    marketAuthority: readPublicKey(data, MARKET_OFFSETS.marketAuthority),
+    bids: readPublicKey(data, MARKET_OFFSETS.bids),
+    asks: readPublicKey(data, MARKET_OFFSETS.asks),
+    eventHeap: readPublicKey(data, MARKET_OFFSETS.eventHeap),
+    oracleA: readOptionalPublicKey(data, MARKET_OFFSETS.oracleA),
+    oracleB: readOptionalPublicKey(data, MARKET_OFFSETS.oracleB),
+    openOrdersAdmin: readOptionalPublicKey(data, MARKET_OFFSETS.openOrdersAdmin),
+    consumeEventsAdmin: readOptionalPublicKey(data, MARKET_OFFSETS.consumeEventsAdmin),
+    closeMarketAdmin: readOptionalPublicKey(data, MARKET_OFFSETS.closeMarketAdmin),
+    collectFeeAdmin: readPublicKey(data, MARKET_OFFSETS.collectFeeAdmin),
+    baseLotSize,
+    quoteLotSize,
+    tickSize:
+      (Number(quoteLotSize) * 10 ** baseDecimals) / (Number(baseLotSize) * 10 ** quoteDecimals),
+    minOrderSize: Number(baseLotSize) / 10 ** baseDecimals,
+    makerFee,
+    takerFee,
+    makerFeeRate: Number(makerFee) / FEE_DENOMINATOR,
+    takerFeeRate: Number(takerFee) / FEE_DENOMINATOR,
+    baseDepositTotal: data.readBigUInt64LE(MARKET_OFFSETS.baseDepositTotal),
+    quoteDepositTotal: data.readBigUInt64LE(MARKET_OFFSETS.quoteDepositTotal),
+    seqNum: data.readBigUInt64LE(MARKET_OFFSETS.seqNum),
+    timeExpiry: Number(data.readBigInt64LE(MARKET_OFFSETS.timeExpiry)),
+    registrationTime: Number(data.readBigInt64LE(MARKET_OFFSETS.registrationTime)),
+  };
+}
+
+/**
+ * getProgramAccounts / onProgramAccountChange filters matching Market accounts,
+ * optionally only those quoted in `quoteMint`
+ */
+export function getOpenBookV2MarketFilters(
+  quoteMint?: string | PublicKey,
+): GetProgramAccountsFilter[] {
+  const filters: GetProgramAccountsFilter[] = [
+    { dataSize: OPENBOOK_V2_MARKET_SIZE },
+    {
+      memcmp: {
+        offset: 0,
+        bytes: OPENBOOK_V2_MARKET_DISCRIMINATOR.toString('base64'),
+        encoding: 'base64',
+      },
+    },
+  ];
+
+  if (quoteMint) {
+    filters.push({
+      memcmp: { offset: MARKET_OFFSETS.quoteMint, bytes: new PublicKey(quoteMint).toBase58() },
+    });
+  }
+
+  return filters;
+}
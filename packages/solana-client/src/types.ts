@@ -1,4 +1,6 @@
-import type { Commitment, Connection, PublicKey } from '@solana/web3.js';
+import type { Commitment, Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import type { SwapQuote } from '@solana-eda/types';
+import type { OpenBookV2Market } from './openbook-v2.js';
 
 /**
  * Connection configuration options
@@ -56,35 +58,13 @@ export interface RpcPoolEntry {
 }
 
 /**
- * OpenBook market state (simplified from MARKET_STATE_LAYOUT_V3)
+ * OpenBook v2 market seen by the client
  */
-export interface MarketState {
+export interface MarketState extends OpenBookV2Market {
   /** Market account address */
-  address: PublicKey;
-  /** Base token mint */
-  baseMint: PublicKey;
-  /** Quote token mint */
-  quoteMint: PublicKey;
-  /** Bids address */
-  bids: PublicKey;
-  /** Asks address */
-  asks: PublicKey;
-  /** Event queue address */
-  eventQueue: PublicKey;
-  /** Coin vault address */
-  baseVault: PublicKey;
-  /** PC vault address */
-  quoteVault: PublicKey;
-  /** Base lot size */
-  baseLotSize: bigint;
-  /** Quote lot size */
-  quoteLotSize: bigint;
-  /** Fee rate BPS */
-  feeRateBps: number;
-  /** Market flags (default: 0) */
-  flags?: number;
-  /** Exists flag (default: true) */
-  exists?: boolean;
+  address: string;
+  /** Slot the account was read at, 0 for accounts fetched with getProgramAccounts */
+  slot: number;
 }
 
 /**
@@ -121,10 +101,29 @@ export interface OpenBookClientConfig {
   onMarketDiscovered: MarketDiscoveryCallback;
   /** Callback when an error occurs */
   onError?: MarketErrorCallback;
-  /** OpenBook program ID (default: MAINNET) */
+  /**
+   * Callback when the WebSocket reconnects while monitoring.
+   * Subscriptions are restored automatically but changes made while disconnected are missed.
+   */
+  onReconnect?: () => void | Promise<void>;
+  /**
+   * Time without slot notifications after which the WebSocket counts as down and
+   * isActive() returns false (default: 30000ms)
+   */
+  staleAfterMs?: number;
+  /** OpenBook v2 program ID (default: mainnet) */
   programId?: PublicKey;
 }
 
+/**
+ * Markets found by a full program account scan
+ */
+export interface MarketScanResult {
+  /** Slot the scan was served at */
+  slot: number;
+  markets: MarketState[];
+}
+
 /**
  * Account change callback result
  */
@@ -140,3 +139,80 @@ export interface AccountChangeResult {
     slot: number;
   };
 }
+
+/**
+ * Jupiter client configuration
+ */
+export interface JupiterClientConfig {
+  /** Jupiter API base URL (default: FeatureFlags.getJupiterApiUrl()) */
+  apiUrl?: string;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Jupiter quote request parameters
+ */
+export interface JupiterQuoteParams {
+  inputMint: string;
+  outputMint: string;
+  /** Raw input amount */
+  amount: string;
+  /** Slippage tolerance in basis points (default: 50) */
+  slippageBps?: number;
+  /** Restrict routing to these Jupiter DEX labels (e.g. 'Whirlpool', 'Raydium') */
+  dexes?: string[];
+  /** Only use single-hop routes */
+  onlyDirectRoutes?: boolean;
+}
+
+/**
+ * Swap quote with the raw Jupiter response needed to build the swap transaction
+ */
+export interface JupiterQuote extends SwapQuote {
+  slippageBps: number;
+  otherAmountThreshold: string;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Per-DEX quote in a comparison
+ */
+export interface DEXQuote {
+  /** DEX name (e.g. 'orca', 'raydium', 'meteora') */
+  dex: string;
+  outAmount: string;
+  priceImpactPct: number;
+  quote: JupiterQuote;
+}
+
+/**
+ * Result of quoting the same swap on several DEXes
+ */
+export interface DEXQuoteComparison {
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+  quotes: DEXQuote[];
+  best: DEXQuote;
+  /** DEXes that returned no route or failed */
+  failures: { dex: string; error: string }[];
+}
+
+/**
+ * Options for building a swap transaction
+ */
+export interface JupiterSwapOptions {
+  /** Wrap and unwrap SOL automatically (default: true) */
+  wrapAndUnwrapSol?: boolean;
+  /** Priority fee in lamports, or 'auto' */
+  prioritizationFeeLamports?: number | 'auto';
+}
+
+/**
+ * Unsigned swap transaction built by Jupiter
+ */
+export interface JupiterSwapTransaction {
+  transaction: VersionedTransaction;
+  lastValidBlockHeight: number;
+}
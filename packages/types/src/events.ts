@@ -19,6 +19,8 @@ export interface BaseEvent {
   id: string;
   /** Unique event ID for deduplication (UUID) */
   eventId?: string;
+  /** Version of the event type's schema the payload was written with */
+  schemaVersion: number;
 }
 
 export interface BurnDetectedEvent extends BaseEvent {
@@ -156,6 +158,35 @@ export interface MarketDiscoveredEvent extends BaseEvent {
   };
 }
 
+/**
+ * Factors of the rug-risk score
+ */
+export type RugRiskFactorName =
+  | 'AUTHORITY'
+  | 'HOLDER_CONCENTRATION'
+  | 'LP_LOCK_DURATION'
+  | 'CREATOR_HISTORY'
+  | 'LIQUIDITY_DEPTH'
+  | 'POOL_AGE';
+
+export interface RugRiskFactor {
+  factor: RugRiskFactorName;
+  /** Configured weight of the factor */
+  weight: number;
+  /** Risk from 0 (safe) to 1, null when the factor could not be assessed */
+  risk: number | null;
+  /** Points the factor adds to the score */
+  contribution: number;
+  /** Why the factor scored as it did */
+  reason: string;
+}
+
+export interface RugRiskAssessment {
+  /** Weighted risk from 0 (safe) to 100 over the factors that could be assessed */
+  score: number;
+  factors: RugRiskFactor[];
+}
+
 export interface TokenValidatedEvent extends BaseEvent {
   type: 'TOKEN_VALIDATED';
   data: {
@@ -173,6 +204,20 @@ export interface TokenValidatedEvent extends BaseEvent {
       supplyBurnedPercent?: number;
       lpTokensBurned: boolean;
       liquidityLocked: boolean;
+      freezeAuthorityRenounced?: boolean;
+      /** Token-2022 extensions */
+      transferFeeBps?: number;
+      permanentDelegate?: string;
+      transferHookProgram?: string;
+      /** Share of LP tokens burned or held by locker programs */
+      lpBurnedPercent?: number;
+      lpLockedPercent?: number;
+      lockerPrograms?: string[];
+      /** Share of supply held by the largest wallets */
+      topHoldersPercent?: number;
+      largestHolderPercent?: number;
+      /** Rug-risk score with its per-factor breakdown */
+      risk?: RugRiskAssessment;
     };
   };
 }
@@ -187,6 +232,12 @@ export interface PoolDiscoveredEvent extends BaseEvent {
     initialTvl: string;
     discoveredAt: string;
     discoverySource: string;
+    /** OpenBook market trading the same mint pair, when one is known */
+    marketAddress?: string;
+    /** Fee payer of the pool creation transaction */
+    creator?: string;
+    /** Price of token A in token B when the pool was created */
+    initialPrice?: string;
     poolData?: {
       lpMint?: string;
       feeRate?: number;
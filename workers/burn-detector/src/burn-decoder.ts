@@ -0,0 +1,146 @@
+/**
+ * Burn instruction decoder
+ * Extracts SPL Token / Token-2022 Burn and BurnChecked instructions from parsed transactions
+ */
+
+import type {
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+const TOKEN_PROGRAM_IDS = new Set([TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]);
+
+const BURN_LOG_PATTERN = /^Program log: Instruction: Burn(Checked)?$/;
+
+/**
+ * Precision used when converting burned share of supply to a percentage
+ */
+const PERCENTAGE_SCALE = 1_000_000n;
+
+export type BurnInstructionType = 'burn' | 'burnChecked';
+
+export interface DecodedBurn {
+  programId: string;
+  instruction: BurnInstructionType;
+  mint: string;
+  account: string;
+  authority: string;
+  amount: bigint;
+  decimals?: number;
+}
+
+export interface SupplyChange {
+  preSupply: bigint;
+  postSupply: bigint;
+  percentage: number;
+}
+
+interface BurnInstructionInfo {
+  account: string;
+  mint: string;
+  authority?: string;
+  multisigAuthority?: string;
+  amount?: string;
+  tokenAmount?: {
+    amount: string;
+    decimals: number;
+  };
+}
+
+/**
+ * Check whether program logs contain a Burn or BurnChecked instruction
+ */
+export function hasBurnInstruction(logs: string[]): boolean {
+  return logs.some((line) => BURN_LOG_PATTERN.test(line));
+}
+
+/**
+ * Decode all burn instructions (top-level and inner) from a parsed transaction
+ */
+export function decodeBurnInstructions(tx: ParsedTransactionWithMeta): DecodedBurn[] {
+  if (tx.meta?.err) {
+    return [];
+  }
+
+  const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+
+  const burns: DecodedBurn[] = [];
+  for (const instruction of instructions) {
+    const burn = decodeBurnInstruction(instruction);
+    if (burn) {
+      burns.push(burn);
+    }
+  }
+  return burns;
+}
+
+/**
+ * Decode a single instruction, returning null if it is not a token burn
+ */
+export function decodeBurnInstruction(
+  instruction: ParsedInstruction | PartiallyDecodedInstruction,
+): DecodedBurn | null {
+  const programId = instruction.programId.toString();
+  if (!TOKEN_PROGRAM_IDS.has(programId) || !('parsed' in instruction)) {
+    return null;
+  }
+
+  const parsed = instruction.parsed as { type?: string; info?: BurnInstructionInfo };
+  if ((parsed.type !== 'burn' && parsed.type !== 'burnChecked') || !parsed.info) {
+    return null;
+  }
+
+  const info = parsed.info;
+  const rawAmount = parsed.type === 'burnChecked' ? info.tokenAmount?.amount : info.amount;
+  if (rawAmount === undefined) {
+    return null;
+  }
+
+  return {
+    programId,
+    instruction: parsed.type,
+    mint: info.mint,
+    account: info.account,
+    authority: info.authority ?? info.multisigAuthority ?? '',
+    amount: BigInt(rawAmount),
+    decimals: info.tokenAmount?.decimals,
+  };
+}
+
+/**
+ * Merge burns of the same mint within a transaction into a single burn
+ */
+export function aggregateBurnsByMint(burns: DecodedBurn[]): DecodedBurn[] {
+  const byMint = new Map<string, DecodedBurn>();
+
+  for (const burn of burns) {
+    const existing = byMint.get(burn.mint);
+    if (existing) {
+      byMint.set(burn.mint, { ...existing, amount: existing.amount + burn.amount });
+    } else {
+      byMint.set(burn.mint, { ...burn });
+    }
+  }
+
+  return [...byMint.values()];
+}
+
+/**
+ * Compute supply before the burn and the burned percentage from the post-burn supply
+ */
+export function computeSupplyChange(amount: bigint, postSupply: bigint): SupplyChange {
+  const preSupply = postSupply + amount;
+  const percentage =
+    preSupply === 0n
+      ? 0
+      : Number((amount * 100n * PERCENTAGE_SCALE) / preSupply) / Number(PERCENTAGE_SCALE);
+
+  return { preSupply, postSupply, percentage };
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from '@jest/globals';
+import type { ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import {
+  aggregateBurnsByMint,
+  computeSupplyChange,
+  decodeBurnInstructions,
+  hasBurnInstruction,
+} from './burn-decoder.js';
+import { BurnDetector, type BurnTransactionSource } from './burn-detector.js';
+import splTokenBurn from './fixtures/spl-token-burn.json';
+import token2022BurnChecked from './fixtures/token-2022-burn-checked.json';
+import failedBurn from './fixtures/failed-burn.json';
+
+const fixtures: Record<string, ParsedTransactionWithMeta> = {
+  [splTokenBurn.transaction.signatures[0]!]: splTokenBurn as unknown as ParsedTransactionWithMeta,
+  [token2022BurnChecked.transaction.signatures[0]!]:
+    token2022BurnChecked as unknown as ParsedTransactionWithMeta,
+  [failedBurn.transaction.signatures[0]!]: failedBurn as unknown as ParsedTransactionWithMeta,
+};
+
+// Post-burn supplies recorded alongside the transactions
+const supplies: Record<string, { amount: string; decimals: number }> = {
+  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: { amount: '97500000000000', decimals: 5 },
+  '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo': { amount: '199000000000', decimals: 6 },
+};
+
+const fixtureSource: BurnTransactionSource = {
+  async getParsedTransaction(signature) {
+    return fixtures[signature] ?? null;
+  },
+  async getTokenSupply(mint: PublicKey) {
+    const supply = supplies[mint.toBase58()];
+    if (!supply) {
+      throw new Error(`No supply fixture for ${mint.toBase58()}`);
+    }
+    return {
+      context: { slot: 0 },
+      value: { ...supply, uiAmount: null, uiAmountString: '' },
+    };
+  },
+};
+
+describe('Burn decoder', () => {
+  describe('hasBurnInstruction', () => {
+    it('should match Burn and BurnChecked logs', () => {
+      expect(hasBurnInstruction(splTokenBurn.meta.logMessages)).toBe(true);
+      expect(hasBurnInstruction(token2022BurnChecked.meta.logMessages)).toBe(true);
+    });
+
+    it('should ignore other token instructions', () => {
+      expect(
+        hasBurnInstruction([
+          'Program TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA invoke [1]',
+          'Program log: Instruction: Transfer',
+        ]),
+      ).toBe(false);
+    });
+  });
+
+  describe('decodeBurnInstructions', () => {
+    it('should decode a top-level SPL Token burn', () => {
+      const burns = decodeBurnInstructions(splTokenBurn as unknown as ParsedTransactionWithMeta);
+
+      expect(burns).toHaveLength(1);
+      expect(burns[0]).toMatchObject({
+        instruction: 'burn',
+        mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+        authority: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+        amount: 2500000000000n,
+      });
+    });
+
+    it('should decode inner Token-2022 burnChecked instructions', () => {
+      const burns = decodeBurnInstructions(
+        token2022BurnChecked as unknown as ParsedTransactionWithMeta,
+      );
+
+      expect(burns).toHaveLength(2);
+      expect(burns.every((burn) => burn.instruction === 'burnChecked')).toBe(true);
+      expect(burns[0]?.decimals).toBe(6);
+    });
+
+    it('should ignore failed transactions', () => {
+      expect(decodeBurnInstructions(failedBurn as unknown as ParsedTransactionWithMeta)).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('aggregateBurnsByMint', () => {
+    it('should sum burns of the same mint', () => {
+      const burns = aggregateBurnsByMint(
+        decodeBurnInstructions(token2022BurnChecked as unknown as ParsedTransactionWithMeta),
+      );
+
+      expect(burns).toHaveLength(1);
+      expect(burns[0]?.amount).toBe(1000000000n);
+    });
+  });
+
+  describe('computeSupplyChange', () => {
+    it('should derive pre-supply and percentage from post-supply', () => {
+      expect(computeSupplyChange(25n, 75n)).toEqual({
+        preSupply: 100n,
+        postSupply: 75n,
+        percentage: 25,
+      });
+    });
+
+    it('should handle a fully burned supply of zero', () => {
+      expect(computeSupplyChange(0n, 0n).percentage).toBe(0);
+    });
+  });
+});
+
+describe('BurnDetector', () => {
+  it('should produce burn event data from a recorded transaction', async () => {
+    const detector = new BurnDetector(fixtureSource);
+    const signature = splTokenBurn.transaction.signatures[0]!;
+
+    const burn = await detector.detect(signature);
+
+    expect(burn).toEqual({
+      token: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+      amount: '2500000000000',
+      percentage: 2.5,
+      txSignature: signature,
+      burner: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+      preSupply: '100000000000000',
+      postSupply: '97500000000000',
+    });
+  });
+
+  it('should aggregate multiple burns of the same mint', async () => {
+    const detector = new BurnDetector(fixtureSource);
+
+    const burn = await detector.detect(token2022BurnChecked.transaction.signatures[0]!);
+
+    expect(burn?.amount).toBe('1000000000');
+    expect(burn?.preSupply).toBe('200000000000');
+    expect(burn?.percentage).toBe(0.5);
+  });
+
+  it('should skip burns below the minimum percentage', async () => {
+    const detector = new BurnDetector(fixtureSource, { minBurnPercentage: 1 });
+
+    expect(await detector.detect(token2022BurnChecked.transaction.signatures[0]!)).toBeNull();
+  });
+
+  it('should return null for failed or unknown transactions', async () => {
+    const detector = new BurnDetector(fixtureSource);
+
+    expect(await detector.detect(failedBurn.transaction.signatures[0]!)).toBeNull();
+    expect(await detector.detect('unknown-signature')).toBeNull();
+  });
+});
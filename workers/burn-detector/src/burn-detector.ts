@@ -0,0 +1,93 @@
+/**
+ * Burn Detector
+ * Turns a transaction signature into BURN_DETECTED event data
+ */
+
+import {
+  PublicKey,
+  type ParsedTransactionWithMeta,
+  type RpcResponseAndContext,
+  type TokenAmount,
+} from '@solana/web3.js';
+import type { BurnDetectedEvent } from '@solana-eda/types';
+import {
+  aggregateBurnsByMint,
+  computeSupplyChange,
+  decodeBurnInstructions,
+} from './burn-decoder.js';
+
+/**
+ * Subset of the Solana Connection used by the detector.
+ * A Connection satisfies it directly; tests provide recorded fixtures instead.
+ */
+export interface BurnTransactionSource {
+  getParsedTransaction(
+    signature: string,
+    config: { commitment: 'confirmed'; maxSupportedTransactionVersion: number },
+  ): Promise<ParsedTransactionWithMeta | null>;
+  getTokenSupply(mint: PublicKey): Promise<RpcResponseAndContext<TokenAmount>>;
+}
+
+export interface BurnDetectorOptions {
+  /** Minimum burned share of supply (percent) to report */
+  minBurnPercentage?: number;
+}
+
+export type BurnEventData = BurnDetectedEvent['data'];
+
+export class BurnDetector {
+  private minBurnPercentage: number;
+
+  constructor(
+    private source: BurnTransactionSource,
+    options: BurnDetectorOptions = {},
+  ) {
+    this.minBurnPercentage = options.minBurnPercentage ?? 0;
+  }
+
+  /**
+   * Detect the burn in a transaction.
+   * BurnEventRecord is unique per signature, so when several mints are burned in the
+   * same transaction only the one with the largest share of supply is reported.
+   */
+  async detect(signature: string): Promise<BurnEventData | null> {
+    const tx = await this.source.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (!tx) {
+      return null;
+    }
+
+    const burns = aggregateBurnsByMint(decodeBurnInstructions(tx));
+    let detected: BurnEventData | null = null;
+
+    for (const burn of burns) {
+      if (burn.amount === 0n) {
+        continue;
+      }
+
+      const supply = await this.source.getTokenSupply(new PublicKey(burn.mint));
+      const change = computeSupplyChange(burn.amount, BigInt(supply.value.amount));
+
+      if (!detected || change.percentage > detected.percentage) {
+        detected = {
+          token: burn.mint,
+          amount: burn.amount.toString(),
+          percentage: change.percentage,
+          txSignature: signature,
+          burner: burn.authority,
+          preSupply: change.preSupply.toString(),
+          postSupply: change.postSupply.toString(),
+        };
+      }
+    }
+
+    if (!detected || detected.percentage < this.minBurnPercentage) {
+      return null;
+    }
+
+    return detected;
+  }
+}
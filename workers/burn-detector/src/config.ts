@@ -0,0 +1,76 @@
+/**
+ * Configuration for the burn-detector worker
+ * Loads environment variables and provides typed configuration
+ */
+
+interface Config {
+  // Solana RPC configuration
+  solanaRpcUrl: string;
+  solanaWsUrl?: string;
+
+  // Token programs to subscribe to (SPL Token and Token-2022)
+  tokenProgramIds: string[];
+
+  // Redis configuration
+  redisUrl: string;
+
+  // Database configuration
+  databaseUrl: string;
+
+  // Worker identification
+  workerName: string;
+
+  // Deduplication window (ms)
+  deduplicationWindowMs: number;
+
+  // Minimum share of supply burned before an event is emitted (percent)
+  minBurnPercentage: number;
+
+  // Interval for publishing worker status (ms)
+  statusIntervalMs: number;
+}
+
+function getEnvVar(name: string, defaultValue?: string): string {
+  const value = process.env[name];
+  if (value === undefined && defaultValue === undefined) {
+    throw new Error(`Required environment variable ${name} is not set`);
+  }
+  return value ?? defaultValue ?? '';
+}
+
+function parseStringList(value: string, defaultValue: string[]): string[] {
+  if (!value || value.trim() === '') {
+    return defaultValue;
+  }
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function loadConfig(): Config {
+  return {
+    solanaRpcUrl: getEnvVar('SOLANA_RPC_URL', 'https://api.devnet.solana.com'),
+    solanaWsUrl: getEnvVar('SOLANA_WS_URL', '') || undefined,
+    tokenProgramIds: parseStringList(getEnvVar('TOKEN_PROGRAM_IDS', ''), [
+      // SPL Token
+      'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+      // Token-2022
+      'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+    ]),
+    redisUrl: getEnvVar('REDIS_URL', 'redis://localhost:6379'),
+    databaseUrl: getEnvVar('DATABASE_URL'),
+    workerName: getEnvVar('WORKER_NAME', 'burn-detector'),
+    deduplicationWindowMs: parseInt(
+      getEnvVar('DEDUPLICATION_WINDOW_MS', '300000'), // 5 minutes
+      10,
+    ),
+    minBurnPercentage: parseFloat(getEnvVar('MIN_BURN_PERCENTAGE', '0')),
+    statusIntervalMs: parseInt(
+      getEnvVar('STATUS_INTERVAL_MS', '30000'), // 30 seconds
+      10,
+    ),
+  };
+}
+
+export const config = loadConfig();
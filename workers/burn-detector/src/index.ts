@@ -0,0 +1,315 @@
+/**
+ * Burn Detector Worker
+ * Subscribes to SPL Token / Token-2022 program logs and detects token burns
+ * Writes BURN_DETECTED events to the outbox with their burn records
+ */
+
+import Redis from 'ioredis';
+import { PublicKey, type Logs } from '@solana/web3.js';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { PrismaClient, BurnEventRepository, writeWithOutbox } from '@solana-eda/database';
+import {
+  createBurnEvent,
+  DeduplicationStrategy,
+  EventDeduplicator,
+  WorkerPublisher,
+} from '@solana-eda/events';
+import { createConnectionManager, type SolanaConnectionManager } from '@solana-eda/solana-client';
+import { retryWithBackoff } from '@solana-eda/error-handling';
+import { createLogger } from '@solana-eda/monitoring';
+import { hasBurnInstruction } from './burn-decoder.js';
+import { BurnDetector, type BurnEventData } from './burn-detector.js';
+import { config } from './config.js';
+
+const logger = createLogger(config.workerName);
+
+interface BurnDetectorMetrics {
+  burnsDetected: number;
+  duplicatesSkipped: number;
+  errors: number;
+  startTime: Date;
+  lastEventAt?: Date;
+}
+
+class BurnDetectorWorker {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private connectionManager: SolanaConnectionManager;
+  private burnEventRepository: BurnEventRepository;
+  private detector: BurnDetector;
+  private deduplicator: EventDeduplicator;
+  private publisher: WorkerPublisher;
+  private metrics: BurnDetectorMetrics;
+  private inFlight = new Set<string>();
+  private subscriptionIds: number[] = [];
+  private running = false;
+  private statusTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient({
+      adapter: new PrismaPg({ connectionString: config.databaseUrl }),
+    });
+    this.redis = new Redis(config.redisUrl);
+    this.connectionManager = createConnectionManager({
+      httpUrl: config.solanaRpcUrl,
+      wsUrl: config.solanaWsUrl,
+      commitment: 'confirmed',
+    });
+    this.burnEventRepository = new BurnEventRepository(this.prisma);
+    this.detector = new BurnDetector(this.connectionManager.getConnection(), {
+      minBurnPercentage: config.minBurnPercentage,
+    });
+    this.deduplicator = new EventDeduplicator({
+      redis: this.redis,
+      windowMs: config.deduplicationWindowMs,
+      strategy: DeduplicationStrategy.KEY,
+      enableMetrics: true,
+    });
+    this.publisher = WorkerPublisher.create({
+      redis: this.redis,
+      workerName: config.workerName,
+    });
+    this.metrics = {
+      burnsDetected: 0,
+      duplicatesSkipped: 0,
+      errors: 0,
+      startTime: new Date(),
+    };
+  }
+
+  /**
+   * Subscribe to token program logs
+   */
+  private subscribe(): void {
+    const connection =
+      this.connectionManager.getWebSocketConnection() ?? this.connectionManager.getConnection();
+
+    for (const programId of config.tokenProgramIds) {
+      const listenerId = connection.onLogs(
+        new PublicKey(programId),
+        (logs) => this.handleLogs(logs),
+        'confirmed',
+      );
+
+      this.subscriptionIds.push(
+        this.connectionManager.registerSubscription(() => {
+          connection.removeOnLogsListener(listenerId).catch(() => {
+            // Ignore cleanup errors
+          });
+        }),
+      );
+    }
+  }
+
+  /**
+   * Handle program logs, processing only successful transactions containing a burn
+   */
+  private handleLogs(logs: Logs): void {
+    if (logs.err || !hasBurnInstruction(logs.logs) || this.inFlight.has(logs.signature)) {
+      return;
+    }
+
+    this.inFlight.add(logs.signature);
+    this.processSignature(logs.signature)
+      .catch((error) => {
+        this.metrics.errors++;
+        logger.error(`Error processing burn transaction ${logs.signature}`, { error });
+      })
+      .finally(() => {
+        this.inFlight.delete(logs.signature);
+      });
+  }
+
+  /**
+   * Detect the burn in a transaction and store it with its event
+   */
+  private async processSignature(signature: string): Promise<void> {
+    const existing = await this.burnEventRepository.findBySignature(signature);
+    if (existing) {
+      this.metrics.duplicatesSkipped++;
+      return;
+    }
+
+    const burn = await retryWithBackoff(() => this.detector.detect(signature), {
+      maxAttempts: 3,
+      baseDelay: 500,
+    });
+
+    if (!burn) {
+      return;
+    }
+
+    await this.handleBurnDetected(burn);
+  }
+
+  /**
+   * Handle detected burn
+   */
+  private async handleBurnDetected(burn: BurnEventData): Promise<void> {
+    const event = createBurnEvent(burn);
+
+    const deduplicationResult = await this.deduplicator.check(event);
+    if (deduplicationResult.isDuplicate) {
+      this.metrics.duplicatesSkipped++;
+      return;
+    }
+
+    await writeWithOutbox(
+      this.prisma,
+      (tx) =>
+        new BurnEventRepository(tx).create({
+          txSignature: burn.txSignature,
+          token: burn.token,
+          amount: burn.amount,
+          percentage: burn.percentage,
+        }),
+      [event],
+    );
+
+    this.metrics.burnsDetected++;
+    this.metrics.lastEventAt = new Date();
+    logger.info('Burn detected', {
+      token: burn.token,
+      amount: burn.amount,
+      percentage: burn.percentage,
+      txSignature: burn.txSignature,
+    });
+  }
+
+  /**
+   * Publish worker status
+   */
+  private async publishStatus(status: 'RUNNING' | 'STOPPED' | 'ERROR'): Promise<void> {
+    const uptime = Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000);
+
+    await this.publisher.publishStatus(status, {
+      eventsProcessed: this.metrics.burnsDetected,
+      errors: this.metrics.errors,
+      uptime,
+      lastEventAt: this.metrics.lastEventAt?.toISOString(),
+      burnsDetected: this.metrics.burnsDetected,
+    });
+  }
+
+  /**
+   * Start the worker
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      logger.info('Worker is already running');
+      return;
+    }
+
+    this.running = true;
+    this.metrics.startTime = new Date();
+
+    logger.info(`Starting ${config.workerName} worker...`);
+    logger.info(`RPC URL: ${config.solanaRpcUrl}`);
+    logger.info(`Token programs: ${config.tokenProgramIds.join(', ')}`);
+    logger.info(`Minimum burn percentage: ${config.minBurnPercentage}%`);
+
+    await this.publishStatus('RUNNING');
+
+    this.subscribe();
+
+    this.statusTimer = setInterval(async () => {
+      if (this.running) {
+        await this.publishStatus('RUNNING');
+      }
+    }, config.statusIntervalMs);
+
+    logger.info(`${config.workerName} worker started`);
+  }
+
+  /**
+   * Stop the worker
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      logger.info('Worker is not running');
+      return;
+    }
+
+    logger.info(`Stopping ${config.workerName} worker...`);
+    this.running = false;
+
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+
+    for (const id of this.subscriptionIds) {
+      this.connectionManager.unregisterSubscription(id);
+    }
+    this.subscriptionIds = [];
+
+    await this.publishStatus('STOPPED');
+    await this.connectionManager.disconnect();
+    await this.redis.quit();
+    await this.prisma.$disconnect();
+
+    logger.info(`${config.workerName} worker stopped`);
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): BurnDetectorMetrics & { uptime: number } {
+    return {
+      ...this.metrics,
+      uptime: Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000),
+    };
+  }
+
+  /**
+   * Get deduplication metrics
+   */
+  getDeduplicationMetrics() {
+    return this.deduplicator.getMetrics();
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const worker = new BurnDetectorWorker();
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string): Promise<void> => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    await worker.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGUSR2', () => shutdown('SIGUSR2')); // nodemon
+
+  // Handle uncaught errors
+  process.on('uncaughtException', (error) => {
+    logger.error('Uncaught exception', { error });
+    shutdown('UNCAUGHT_EXCEPTION').catch(() => process.exit(1));
+  });
+
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', { error: reason });
+    shutdown('UNHANDLED_REJECTION').catch(() => process.exit(1));
+  });
+
+  // Start the worker
+  await worker.start();
+
+  // Keep the process alive
+  logger.info('Worker is running. Press Ctrl+C to stop.');
+}
+
+// Run if this is the main module
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    logger.error('Failed to start worker', { error });
+    process.exit(1);
+  });
+}
+
+export { BurnDetectorWorker, main };
@@ -0,0 +1,65 @@
+/**
+ * Configuration for the liquidity-monitor worker
+ * Loads environment variables and provides typed configuration
+ */
+
+interface Config {
+  // Solana RPC configuration
+  solanaRpcUrl: string;
+  solanaWsUrl?: string;
+
+  // Redis configuration
+  redisUrl: string;
+
+  // Database configuration
+  databaseUrl: string;
+
+  // Worker identification
+  workerName: string;
+
+  // TVL change (percent) that triggers a LIQUIDITY_CHANGED event
+  tvlChangeThreshold: number;
+
+  // Maximum number of pools to subscribe to
+  maxPools: number;
+
+  // Detect pool creation on the supported DEX programs and emit POOL_DISCOVERED
+  poolDiscoveryEnabled: boolean;
+
+  // Interval for reloading the monitored pool list (ms)
+  poolRefreshIntervalMs: number;
+
+  // Interval for publishing worker status (ms)
+  statusIntervalMs: number;
+}
+
+function getEnvVar(name: string, defaultValue?: string): string {
+  const value = process.env[name];
+  if (value === undefined && defaultValue === undefined) {
+    throw new Error(`Required environment variable ${name} is not set`);
+  }
+  return value ?? defaultValue ?? '';
+}
+
+export function loadConfig(): Config {
+  return {
+    solanaRpcUrl: getEnvVar('SOLANA_RPC_URL', 'https://api.devnet.solana.com'),
+    solanaWsUrl: getEnvVar('SOLANA_WS_URL', '') || undefined,
+    redisUrl: getEnvVar('REDIS_URL', 'redis://localhost:6379'),
+    databaseUrl: getEnvVar('DATABASE_URL'),
+    workerName: getEnvVar('WORKER_NAME', 'liquidity-monitor'),
+    tvlChangeThreshold: parseFloat(getEnvVar('TVL_CHANGE_THRESHOLD', '5')),
+    maxPools: parseInt(getEnvVar('MAX_POOLS', '100'), 10),
+    poolDiscoveryEnabled: getEnvVar('POOL_DISCOVERY_ENABLED', 'true') === 'true',
+    poolRefreshIntervalMs: parseInt(
+      getEnvVar('POOL_REFRESH_INTERVAL_MS', '300000'), // 5 minutes
+      10,
+    ),
+    statusIntervalMs: parseInt(
+      getEnvVar('STATUS_INTERVAL_MS', '30000'), // 30 seconds
+      10,
+    ),
+  };
+}
+
+export const config = loadConfig();
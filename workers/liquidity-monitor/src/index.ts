@@ -0,0 +1,547 @@
+/**
+ * Liquidity Monitor Worker
+ * Subscribes to Raydium, Orca and Meteora pool accounts and tracks their TVL
+ * Writes LIQUIDITY_CHANGED events to the outbox with the updated pool records
+ * Detects pool creation on the same DEX programs and writes POOL_DISCOVERED events
+ */
+
+import Redis from 'ioredis';
+import { PublicKey, type AccountInfo, type Connection, type Logs } from '@solana/web3.js';
+import { PrismaPg } from '@prisma/adapter-pg';
+import {
+  PrismaClient,
+  DiscoveredPoolRepository,
+  LiquidityPoolRepository,
+  MarketRepository,
+  writeWithOutbox,
+} from '@solana-eda/database';
+import {
+  createLiquidityEvent,
+  createPoolDiscoveredEvent,
+  WorkerPublisher,
+} from '@solana-eda/events';
+import { createConnectionManager, type SolanaConnectionManager } from '@solana-eda/solana-client';
+import { retryWithBackoff } from '@solana-eda/error-handling';
+import { createLogger } from '@solana-eda/monitoring';
+import {
+  decodeMintDecimals,
+  decodePoolAccount,
+  decodeTokenAccountAmount,
+  type PoolState,
+} from './pool-layouts.js';
+import { POOL_PROGRAM_IDS, hasPoolInitialization } from './pool-decoder.js';
+import { PoolDiscoverer, type PoolDiscovery } from './pool-discovery.js';
+import { PoolTracker, type PoolEvaluation } from './pool-tracker.js';
+import { config } from './config.js';
+
+const logger = createLogger(config.workerName);
+
+interface LiquidityMonitorMetrics {
+  poolsMonitored: number;
+  changesDetected: number;
+  poolsDiscovered: number;
+  errors: number;
+  startTime: Date;
+  lastEventAt?: Date;
+}
+
+class LiquidityMonitorWorker {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private connectionManager: SolanaConnectionManager;
+  private discoveredPoolRepository: DiscoveredPoolRepository;
+  private liquidityPoolRepository: LiquidityPoolRepository;
+  private marketRepository: MarketRepository;
+  private publisher: WorkerPublisher;
+  private tracker: PoolTracker;
+  private discoverer: PoolDiscoverer;
+  private subscriptions: Map<string, number[]> = new Map();
+  private discoverySubscriptionIds: number[] = [];
+  private inFlight = new Set<string>();
+  private volumes: Map<string, number> = new Map();
+  private metrics: LiquidityMonitorMetrics;
+  private running = false;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private statusTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient({
+      adapter: new PrismaPg({ connectionString: config.databaseUrl }),
+    });
+    this.redis = new Redis(config.redisUrl);
+    this.connectionManager = createConnectionManager({
+      httpUrl: config.solanaRpcUrl,
+      wsUrl: config.solanaWsUrl,
+      commitment: 'confirmed',
+    });
+    this.discoveredPoolRepository = new DiscoveredPoolRepository(this.prisma);
+    this.liquidityPoolRepository = new LiquidityPoolRepository(this.prisma);
+    this.marketRepository = new MarketRepository(this.prisma);
+    this.publisher = WorkerPublisher.create({
+      redis: this.redis,
+      workerName: config.workerName,
+    });
+    this.tracker = new PoolTracker(config.tvlChangeThreshold);
+    this.discoverer = new PoolDiscoverer(this.connectionManager.getConnection());
+    this.metrics = {
+      poolsMonitored: 0,
+      changesDetected: 0,
+      poolsDiscovered: 0,
+      errors: 0,
+      startTime: new Date(),
+    };
+  }
+
+  /**
+   * Load pools from DiscoveredPool and LiquidityPoolRecord and sync subscriptions
+   */
+  private async refreshPools(): Promise<void> {
+    const [discovered, records] = await Promise.all([
+      this.discoveredPoolRepository.findByStatus('MONITORING', config.maxPools),
+      this.liquidityPoolRepository.findAll(config.maxPools),
+    ]);
+
+    const baselines = new Map<string, number | null>();
+    for (const pool of discovered) {
+      baselines.set(pool.address, null);
+    }
+    for (const record of records) {
+      baselines.set(record.address, Number(record.tvl));
+      this.volumes.set(record.address, Number(record.volume24h));
+    }
+
+    for (const address of this.tracker.addresses()) {
+      if (!baselines.has(address)) {
+        this.unsubscribePool(address);
+      }
+    }
+
+    for (const [address, baseline] of baselines) {
+      if (this.subscriptions.has(address) || this.subscriptions.size >= config.maxPools) {
+        continue;
+      }
+
+      try {
+        await retryWithBackoff(() => this.subscribePool(address, baseline), {
+          maxAttempts: 3,
+          baseDelay: 1000,
+        });
+      } catch (error) {
+        this.metrics.errors++;
+        logger.error(`Failed to subscribe to pool ${address}`, { error });
+      }
+    }
+
+    this.metrics.poolsMonitored = this.subscriptions.size;
+  }
+
+  /**
+   * Decode a pool, fetch its vaults and subscribe to pool and vault changes
+   */
+  private async subscribePool(address: string, baselineTvl: number | null): Promise<void> {
+    const connection = this.connectionManager.getConnection();
+    const poolKey = new PublicKey(address);
+
+    const poolAccount = await connection.getAccountInfo(poolKey);
+    if (!poolAccount) {
+      logger.warn(`Pool account not found: ${address}`);
+      return;
+    }
+
+    const owner = poolAccount.owner.toBase58();
+    const state = decodePoolAccount(owner, poolAccount.data);
+    if (!state) {
+      logger.warn(`Unsupported pool program ${owner} for pool ${address}`);
+      return;
+    }
+
+    const decimals = await this.getDecimals(connection, state);
+    const [vaultA, vaultB] = await connection.getMultipleAccountsInfo([
+      new PublicKey(state.vaultA),
+      new PublicKey(state.vaultB),
+    ]);
+
+    this.tracker.track(address, state, decimals, baselineTvl);
+    if (vaultA) {
+      this.handleEvaluation(
+        this.tracker.updateVaultBalance(address, 'A', decodeTokenAccountAmount(vaultA.data)),
+      );
+    }
+    if (vaultB) {
+      this.handleEvaluation(
+        this.tracker.updateVaultBalance(address, 'B', decodeTokenAccountAmount(vaultB.data)),
+      );
+    }
+
+    const ws = this.connectionManager.getWebSocketConnection() ?? connection;
+    const subscribe = (key: PublicKey, onChange: (account: AccountInfo<Buffer>) => void) => {
+      const listenerId = ws.onAccountChange(key, onChange, 'confirmed');
+      return this.connectionManager.registerSubscription(() => {
+        ws.removeAccountChangeListener(listenerId).catch(() => {
+          // Ignore cleanup errors
+        });
+      });
+    };
+
+    this.subscriptions.set(address, [
+      subscribe(poolKey, (account) => {
+        const updated = decodePoolAccount(owner, account.data);
+        if (updated) {
+          this.handleEvaluation(this.tracker.updateState(address, updated));
+        }
+      }),
+      subscribe(new PublicKey(state.vaultA), (account) => {
+        this.handleEvaluation(
+          this.tracker.updateVaultBalance(address, 'A', decodeTokenAccountAmount(account.data)),
+        );
+      }),
+      subscribe(new PublicKey(state.vaultB), (account) => {
+        this.handleEvaluation(
+          this.tracker.updateVaultBalance(address, 'B', decodeTokenAccountAmount(account.data)),
+        );
+      }),
+    ]);
+
+    logger.info(`Monitoring ${state.dexType} pool ${address} (${state.mintA}/${state.mintB})`);
+  }
+
+  /**
+   * Remove pool subscriptions
+   */
+  private unsubscribePool(address: string): void {
+    for (const id of this.subscriptions.get(address) ?? []) {
+      this.connectionManager.unregisterSubscription(id);
+    }
+    this.subscriptions.delete(address);
+    this.tracker.untrack(address);
+  }
+
+  /**
+   * Resolve token decimals from the pool account or the mint accounts
+   */
+  private async getDecimals(
+    connection: Connection,
+    state: PoolState,
+  ): Promise<{ a: number; b: number }> {
+    if (state.decimalsA !== undefined && state.decimalsB !== undefined) {
+      return { a: state.decimalsA, b: state.decimalsB };
+    }
+
+    const [mintA, mintB] = await connection.getMultipleAccountsInfo([
+      new PublicKey(state.mintA),
+      new PublicKey(state.mintB),
+    ]);
+    if (!mintA || !mintB) {
+      throw new Error(`Mint accounts not found for ${state.mintA}/${state.mintB}`);
+    }
+
+    return { a: decodeMintDecimals(mintA.data), b: decodeMintDecimals(mintB.data) };
+  }
+
+  /**
+   * Subscribe to the logs of every supported pool program to catch pool creation
+   */
+  private subscribeDiscovery(): void {
+    const connection =
+      this.connectionManager.getWebSocketConnection() ?? this.connectionManager.getConnection();
+
+    for (const programId of POOL_PROGRAM_IDS) {
+      const listenerId = connection.onLogs(
+        new PublicKey(programId),
+        (logs) => this.handleLogs(logs),
+        'confirmed',
+      );
+
+      this.discoverySubscriptionIds.push(
+        this.connectionManager.registerSubscription(() => {
+          connection.removeOnLogsListener(listenerId).catch(() => {
+            // Ignore cleanup errors
+          });
+        }),
+      );
+    }
+  }
+
+  /**
+   * Handle program logs, processing only successful transactions that initialize a pool
+   */
+  private handleLogs(logs: Logs): void {
+    if (logs.err || !hasPoolInitialization(logs.logs) || this.inFlight.has(logs.signature)) {
+      return;
+    }
+
+    this.inFlight.add(logs.signature);
+    this.processPoolCreation(logs.signature)
+      .catch((error) => {
+        this.metrics.errors++;
+        logger.error(`Error processing pool creation ${logs.signature}`, { error });
+      })
+      .finally(() => {
+        this.inFlight.delete(logs.signature);
+      });
+  }
+
+  /**
+   * Discover the pools created in a transaction, store them with their events and
+   * start monitoring them
+   */
+  private async processPoolCreation(signature: string): Promise<void> {
+    const pools = await retryWithBackoff(() => this.discoverer.discover(signature), {
+      maxAttempts: 3,
+      baseDelay: 500,
+    });
+
+    for (const pool of pools) {
+      const existing = await this.discoveredPoolRepository.findByAddress(pool.poolAddress);
+      if (existing) {
+        continue;
+      }
+
+      await this.handlePoolDiscovered(pool, signature);
+
+      if (!this.subscriptions.has(pool.poolAddress) && this.subscriptions.size < config.maxPools) {
+        await this.subscribePool(pool.poolAddress, Number(pool.initialTvl));
+        this.metrics.poolsMonitored = this.subscriptions.size;
+      }
+    }
+  }
+
+  /**
+   * Link a discovered pool to its market and write it with its POOL_DISCOVERED event
+   */
+  private async handlePoolDiscovered(pool: PoolDiscovery, signature: string): Promise<void> {
+    const { instructionMarket, ...data } = pool;
+    const market =
+      (instructionMarket && (await this.marketRepository.findByAddress(instructionMarket))) ||
+      (await this.marketRepository.findByMintPair(data.tokenA, data.tokenB));
+
+    const discoveredAt = new Date();
+    const event = createPoolDiscoveredEvent({
+      ...data,
+      discoveredAt: discoveredAt.toISOString(),
+      discoverySource: signature,
+      marketAddress: market?.address,
+    });
+
+    await writeWithOutbox(
+      this.prisma,
+      (tx) =>
+        new DiscoveredPoolRepository(tx).create({
+          address: data.poolAddress,
+          dexType: data.dexType,
+          tokenA: data.tokenA,
+          tokenB: data.tokenB,
+          initialTvl: data.initialTvl,
+          discoveredAt,
+          poolData: data.poolData,
+          marketAddress: market?.address,
+          creator: data.creator,
+        }),
+      [event],
+    );
+
+    this.metrics.poolsDiscovered++;
+    this.metrics.lastEventAt = new Date();
+    logger.info(`Discovered ${data.dexType} pool ${data.poolAddress}`, {
+      tokenA: data.tokenA,
+      tokenB: data.tokenB,
+      initialTvl: data.initialTvl,
+      market: market?.address,
+    });
+  }
+
+  /**
+   * Handle a pool evaluation, publishing and persisting threshold crossings
+   */
+  private handleEvaluation(evaluation: PoolEvaluation | null): void {
+    if (!evaluation?.change) {
+      return;
+    }
+
+    this.handleLiquidityChanged(evaluation).catch((error) => {
+      this.metrics.errors++;
+      logger.error(`Error handling liquidity change for ${evaluation.snapshot.address}`, { error });
+    });
+  }
+
+  /**
+   * Handle liquidity change
+   */
+  private async handleLiquidityChanged(evaluation: PoolEvaluation): Promise<void> {
+    const { snapshot, change } = evaluation;
+    if (!change) {
+      return;
+    }
+
+    const event = createLiquidityEvent(change);
+    await writeWithOutbox(
+      this.prisma,
+      (tx) =>
+        new LiquidityPoolRepository(tx).upsert({
+          address: snapshot.address,
+          tokenA: snapshot.tokenA,
+          tokenB: snapshot.tokenB,
+          tvl: snapshot.tvl,
+          price: snapshot.price,
+          volume24h: this.volumes.get(snapshot.address) ?? 0,
+        }),
+      [event],
+    );
+
+    this.metrics.changesDetected++;
+    this.metrics.lastEventAt = new Date();
+    logger.info('Liquidity changed', {
+      pool: snapshot.address,
+      oldTvl: change.oldTvl,
+      newTvl: change.newTvl,
+      changePercentage: Number(change.changePercentage.toFixed(2)),
+    });
+  }
+
+  /**
+   * Publish worker status
+   */
+  private async publishStatus(status: 'RUNNING' | 'STOPPED' | 'ERROR'): Promise<void> {
+    const uptime = Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000);
+
+    await this.publisher.publishStatus(status, {
+      eventsProcessed: this.metrics.changesDetected + this.metrics.poolsDiscovered,
+      errors: this.metrics.errors,
+      uptime,
+      lastEventAt: this.metrics.lastEventAt?.toISOString(),
+    });
+  }
+
+  /**
+   * Start the worker
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      logger.info('Worker is already running');
+      return;
+    }
+
+    this.running = true;
+    this.metrics.startTime = new Date();
+
+    logger.info(`Starting ${config.workerName} worker...`);
+    logger.info(`RPC URL: ${config.solanaRpcUrl}`);
+    logger.info(`TVL change threshold: ${config.tvlChangeThreshold}%`);
+
+    await this.publishStatus('RUNNING');
+
+    await this.refreshPools();
+    if (config.poolDiscoveryEnabled) {
+      this.subscribeDiscovery();
+    }
+
+    this.refreshTimer = setInterval(async () => {
+      if (this.running) {
+        await this.refreshPools().catch((error) => {
+          this.metrics.errors++;
+          logger.error('Pool refresh failed', { error });
+        });
+      }
+    }, config.poolRefreshIntervalMs);
+
+    this.statusTimer = setInterval(async () => {
+      if (this.running) {
+        await this.publishStatus('RUNNING');
+      }
+    }, config.statusIntervalMs);
+
+    logger.info(`${config.workerName} worker started (${this.metrics.poolsMonitored} pools)`);
+  }
+
+  /**
+   * Stop the worker
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      logger.info('Worker is not running');
+      return;
+    }
+
+    logger.info(`Stopping ${config.workerName} worker...`);
+    this.running = false;
+
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+
+    for (const address of [...this.subscriptions.keys()]) {
+      this.unsubscribePool(address);
+    }
+    for (const id of this.discoverySubscriptionIds) {
+      this.connectionManager.unregisterSubscription(id);
+    }
+    this.discoverySubscriptionIds = [];
+
+    await this.publishStatus('STOPPED');
+    await this.connectionManager.disconnect();
+    await this.redis.quit();
+    await this.prisma.$disconnect();
+
+    logger.info(`${config.workerName} worker stopped`);
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): LiquidityMonitorMetrics & { uptime: number } {
+    return {
+      ...this.metrics,
+      uptime: Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000),
+    };
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const worker = new LiquidityMonitorWorker();
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string): Promise<void> => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    await worker.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGUSR2', () => shutdown('SIGUSR2')); // nodemon
+
+  // Handle uncaught errors
+  process.on('uncaughtException', (error) => {
+    logger.error('Uncaught exception', { error });
+    shutdown('UNCAUGHT_EXCEPTION').catch(() => process.exit(1));
+  });
+
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', { error: reason });
+    shutdown('UNHANDLED_REJECTION').catch(() => process.exit(1));
+  });
+
+  // Start the worker
+  await worker.start();
+
+  // Keep the process alive
+  logger.info('Worker is running. Press Ctrl+C to stop.');
+}
+
+// Run if this is the main module
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    logger.error('Failed to start worker', { error });
+    process.exit(1);
+  });
+}
+
+export { LiquidityMonitorWorker, main };
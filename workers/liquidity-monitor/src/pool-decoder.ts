@@ -0,0 +1,231 @@
+/**
+ * Pool initialization decoder
+ * Extracts Raydium AMM v4 / CPMM, Orca Whirlpool and Meteora DLMM pool creation
+ * instructions from parsed transactions
+ */
+
+import { createHash } from 'node:crypto';
+import bs58 from 'bs58';
+import type {
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+import {
+  METEORA_DLMM_PROGRAM_ID,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  RAYDIUM_AMM_V4_PROGRAM_ID,
+  RAYDIUM_CPMM_PROGRAM_ID,
+  type PoolState,
+} from './pool-layouts.js';
+
+export const POOL_PROGRAM_IDS = [
+  RAYDIUM_AMM_V4_PROGRAM_ID,
+  RAYDIUM_CPMM_PROGRAM_ID,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  METEORA_DLMM_PROGRAM_ID,
+];
+
+/**
+ * Raydium AMM v4 logs `initialize2: InitializeInstruction2 { .. }`, the Anchor programs log
+ * the instruction name
+ */
+const POOL_INITIALIZATION_LOG_PATTERN =
+  /^Program log: (initialize2: |Instruction: (Initialize|InitializePool|InitializeLbPair)$)/;
+
+/**
+ * Raydium AMM v4 instruction tag of initialize2 and its data length
+ * (tag, nonce u8, open_time u64, init_pc_amount u64, init_coin_amount u64)
+ */
+const RAYDIUM_INITIALIZE2_TAG = 1;
+const RAYDIUM_INITIALIZE2_DATA_LENGTH = 26;
+
+/**
+ * Anchor instruction discriminator, the first 8 bytes of sha256("global:<name>")
+ */
+function instructionDiscriminator(name: string): Buffer {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8);
+}
+
+export type PoolInstructionType =
+  | 'initialize2'
+  | 'initialize'
+  | 'initializePool'
+  | 'initializeLbPair';
+
+export interface DecodedPoolInitialization {
+  programId: string;
+  instruction: PoolInstructionType;
+  dexType: PoolState['dexType'];
+  pool: string;
+  mintA: string;
+  mintB: string;
+  vaultA: string;
+  vaultB: string;
+  lpMint?: string;
+  /** OpenBook market the pool was created against (Raydium AMM v4 only) */
+  market?: string;
+  /** Account holding the fee rate when the pool does not store it (Raydium CPMM AMM config) */
+  feeConfig?: string;
+}
+
+/**
+ * Positions of the pool accounts in an instruction's account list
+ */
+interface InitializationAccounts {
+  pool: number;
+  mintA: number;
+  mintB: number;
+  vaultA: number;
+  vaultB: number;
+  lpMint?: number;
+  market?: number;
+  feeConfig?: number;
+}
+
+interface AnchorInitialization {
+  programId: string;
+  instruction: PoolInstructionType;
+  dexType: PoolState['dexType'];
+  discriminator: Buffer;
+  accounts: InitializationAccounts;
+}
+
+/**
+ * Anchor pool initialization instructions
+ */
+const ANCHOR_INITIALIZATIONS: AnchorInitialization[] = [
+  {
+    programId: RAYDIUM_CPMM_PROGRAM_ID,
+    instruction: 'initialize',
+    dexType: 'RAYDIUM',
+    discriminator: instructionDiscriminator('initialize'),
+    accounts: { pool: 3, mintA: 4, mintB: 5, vaultA: 10, vaultB: 11, lpMint: 6, feeConfig: 1 },
+  },
+  {
+    programId: ORCA_WHIRLPOOL_PROGRAM_ID,
+    instruction: 'initializePool',
+    dexType: 'ORCA',
+    discriminator: instructionDiscriminator('initialize_pool'),
+    accounts: { pool: 4, mintA: 1, mintB: 2, vaultA: 5, vaultB: 6 },
+  },
+  {
+    programId: METEORA_DLMM_PROGRAM_ID,
+    instruction: 'initializeLbPair',
+    dexType: 'METEORA',
+    discriminator: instructionDiscriminator('initialize_lb_pair'),
+    accounts: { pool: 0, mintA: 2, mintB: 3, vaultA: 4, vaultB: 5 },
+  },
+];
+
+/**
+ * Raydium AMM v4 initialize2 accounts
+ */
+const RAYDIUM_INITIALIZE2_ACCOUNTS: InitializationAccounts = {
+  pool: 4,
+  lpMint: 7,
+  mintA: 8,
+  mintB: 9,
+  vaultA: 10,
+  vaultB: 11,
+  market: 16,
+};
+
+/**
+ * Check whether program logs contain a pool initialization
+ */
+export function hasPoolInitialization(logs: string[]): boolean {
+  return logs.some((line) => POOL_INITIALIZATION_LOG_PATTERN.test(line));
+}
+
+/**
+ * Decode all pool initializations (top-level and inner) from a parsed transaction
+ */
+export function decodePoolInitializations(
+  tx: ParsedTransactionWithMeta,
+): DecodedPoolInitialization[] {
+  if (tx.meta?.err) {
+    return [];
+  }
+
+  const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+
+  const initializations: DecodedPoolInitialization[] = [];
+  for (const instruction of instructions) {
+    const initialization = decodePoolInitialization(instruction);
+    if (initialization) {
+      initializations.push(initialization);
+    }
+  }
+
+  return initializations;
+}
+
+/**
+ * Decode a single pool initialization instruction, null for anything else
+ */
+export function decodePoolInitialization(
+  instruction: ParsedInstruction | PartiallyDecodedInstruction,
+): DecodedPoolInitialization | null {
+  if (!('data' in instruction)) {
+    return null;
+  }
+
+  const programId = instruction.programId.toBase58();
+  const data = Buffer.from(bs58.decode(instruction.data));
+
+  let instructionType: PoolInstructionType;
+  let dexType: PoolState['dexType'];
+  let keys: InitializationAccounts;
+
+  if (programId === RAYDIUM_AMM_V4_PROGRAM_ID) {
+    if (data.length !== RAYDIUM_INITIALIZE2_DATA_LENGTH || data[0] !== RAYDIUM_INITIALIZE2_TAG) {
+      return null;
+    }
+    instructionType = 'initialize2';
+    dexType = 'RAYDIUM';
+    keys = RAYDIUM_INITIALIZE2_ACCOUNTS;
+  } else {
+    const layout = ANCHOR_INITIALIZATIONS.find(
+      (candidate) =>
+        candidate.programId === programId &&
+        data.subarray(0, candidate.discriminator.length).equals(candidate.discriminator),
+    );
+    if (!layout) {
+      return null;
+    }
+    instructionType = layout.instruction;
+    dexType = layout.dexType;
+    keys = layout.accounts;
+  }
+
+  const accounts = instruction.accounts.map((account) => account.toBase58());
+  const account = (index: number | undefined) =>
+    index === undefined ? undefined : accounts[index];
+
+  const pool = account(keys.pool);
+  const mintA = account(keys.mintA);
+  const mintB = account(keys.mintB);
+  const vaultA = account(keys.vaultA);
+  const vaultB = account(keys.vaultB);
+  if (!pool || !mintA || !mintB || !vaultA || !vaultB) {
+    return null;
+  }
+
+  return {
+    programId,
+    instruction: instructionType,
+    dexType,
+    pool,
+    mintA,
+    mintB,
+    vaultA,
+    vaultB,
+    lpMint: account(keys.lpMint),
+    market: account(keys.market),
+    feeConfig: account(keys.feeConfig),
+  };
+}
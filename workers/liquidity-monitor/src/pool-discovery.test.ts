@@ -0,0 +1,405 @@
+import { describe, it, expect } from '@jest/globals';
+import { createHash } from 'node:crypto';
+import bs58 from 'bs58';
+import {
+  PublicKey,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+  type TokenBalance,
+} from '@solana/web3.js';
+import {
+  decodePoolInitializations,
+  hasPoolInitialization,
+  POOL_PROGRAM_IDS,
+} from './pool-decoder.js';
+import { PoolDiscoverer, type PoolTransactionSource } from './pool-discovery.js';
+import {
+  METEORA_DLMM_PROGRAM_ID,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  RAYDIUM_AMM_V4_PROGRAM_ID,
+  RAYDIUM_CPMM_PROGRAM_ID,
+} from './pool-layouts.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+/**
+ * Deterministic address for a named account
+ */
+function key(label: string): string {
+  return new PublicKey(createHash('sha256').update(label).digest()).toBase58();
+}
+
+function anchorData(name: string, args: Buffer = Buffer.alloc(0)): Buffer {
+  const discriminator = createHash('sha256').update(`global:${name}`).digest().subarray(0, 8);
+  return Buffer.concat([discriminator, args]);
+}
+
+function instruction(
+  programId: string,
+  accounts: string[],
+  data: Buffer,
+): PartiallyDecodedInstruction {
+  return {
+    programId: new PublicKey(programId),
+    accounts: accounts.map((account) => new PublicKey(account)),
+    data: bs58.encode(data),
+  };
+}
+
+function accountList(length: number, accounts: Record<number, string>): string[] {
+  return Array.from({ length }, (_, index) => accounts[index] ?? key(`account-${index}`));
+}
+
+interface TransactionFixture {
+  instructions?: (ParsedInstruction | PartiallyDecodedInstruction)[];
+  inner?: (ParsedInstruction | PartiallyDecodedInstruction)[];
+  balances?: Array<{ account: string; mint: string; amount: bigint; decimals: number }>;
+  err?: unknown;
+}
+
+function transaction(fixture: TransactionFixture): ParsedTransactionWithMeta {
+  const balances = fixture.balances ?? [];
+  // The fee payer comes first, followed by the token accounts
+  const postTokenBalances: TokenBalance[] = balances.map((balance, index) => ({
+    accountIndex: index + 1,
+    mint: balance.mint,
+    uiTokenAmount: {
+      amount: balance.amount.toString(),
+      decimals: balance.decimals,
+      uiAmount: null,
+    },
+  }));
+
+  return {
+    slot: 300_000_000,
+    blockTime: 1_760_000_000,
+    transaction: {
+      signatures: ['sig'],
+      message: {
+        accountKeys: [
+          { pubkey: new PublicKey(CREATOR), signer: true, writable: true },
+          ...balances.map((balance) => ({
+            pubkey: new PublicKey(balance.account),
+            signer: false,
+            writable: true,
+          })),
+        ],
+        instructions: fixture.instructions ?? [],
+        recentBlockhash: key('blockhash'),
+      },
+    },
+    meta: {
+      err: fixture.err ?? null,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      innerInstructions: fixture.inner ? [{ index: 0, instructions: fixture.inner }] : [],
+      postTokenBalances,
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+const CREATOR = key('pool-creator');
+const RAYDIUM_POOL = key('raydium-pool');
+const RAYDIUM_LP_MINT = key('raydium-lp-mint');
+const RAYDIUM_MARKET = key('openbook-market');
+const CPMM_POOL = key('cpmm-pool');
+const CPMM_CONFIG = key('cpmm-config');
+const CPMM_LP_MINT = key('cpmm-lp-mint');
+const WHIRLPOOL = key('whirlpool');
+const LB_PAIR = key('lb-pair');
+const VAULT_A = key('vault-a');
+const VAULT_B = key('vault-b');
+
+function raydiumInitialize2(): PartiallyDecodedInstruction {
+  const data = Buffer.alloc(26);
+  data.writeUInt8(1, 0);
+  data.writeUInt8(254, 1);
+  return instruction(
+    RAYDIUM_AMM_V4_PROGRAM_ID,
+    accountList(21, {
+      4: RAYDIUM_POOL,
+      7: RAYDIUM_LP_MINT,
+      8: SOL_MINT,
+      9: USDC_MINT,
+      10: VAULT_A,
+      11: VAULT_B,
+      16: RAYDIUM_MARKET,
+    }),
+    data,
+  );
+}
+
+function cpmmInitialize(): PartiallyDecodedInstruction {
+  return instruction(
+    RAYDIUM_CPMM_PROGRAM_ID,
+    accountList(20, {
+      1: CPMM_CONFIG,
+      3: CPMM_POOL,
+      4: SOL_MINT,
+      5: USDC_MINT,
+      6: CPMM_LP_MINT,
+      10: VAULT_A,
+      11: VAULT_B,
+    }),
+    anchorData('initialize', Buffer.alloc(24)),
+  );
+}
+
+function whirlpoolInitializePool(): PartiallyDecodedInstruction {
+  return instruction(
+    ORCA_WHIRLPOOL_PROGRAM_ID,
+    accountList(11, { 1: SOL_MINT, 2: USDC_MINT, 4: WHIRLPOOL, 5: VAULT_A, 6: VAULT_B }),
+    anchorData('initialize_pool', Buffer.alloc(19)),
+  );
+}
+
+function dlmmInitializeLbPair(): PartiallyDecodedInstruction {
+  return instruction(
+    METEORA_DLMM_PROGRAM_ID,
+    accountList(14, { 0: LB_PAIR, 2: SOL_MINT, 3: USDC_MINT, 4: VAULT_A, 5: VAULT_B }),
+    anchorData('initialize_lb_pair', Buffer.alloc(6)),
+  );
+}
+
+function cpmmPoolAccount(): Buffer {
+  const data = Buffer.alloc(637);
+  new PublicKey(VAULT_A).toBuffer().copy(data, 72);
+  new PublicKey(VAULT_B).toBuffer().copy(data, 104);
+  new PublicKey(CPMM_LP_MINT).toBuffer().copy(data, 136);
+  new PublicKey(SOL_MINT).toBuffer().copy(data, 168);
+  new PublicKey(USDC_MINT).toBuffer().copy(data, 200);
+  data.writeUInt8(9, 331);
+  data.writeUInt8(6, 332);
+  return data;
+}
+
+function cpmmConfigAccount(): Buffer {
+  const data = Buffer.alloc(236);
+  data.writeBigUInt64LE(2500n, 12);
+  return data;
+}
+
+function whirlpoolAccount(): Buffer {
+  const data = Buffer.alloc(653);
+  data.writeUInt16LE(3000, 45);
+  // sqrt(0.15) * 2^64, 150 USDC per SOL once adjusted for decimals
+  data.writeBigUInt64LE(BigInt(Math.round(Math.sqrt(0.15) * 2 ** 32)) << 32n, 65);
+  new PublicKey(SOL_MINT).toBuffer().copy(data, 101);
+  new PublicKey(VAULT_A).toBuffer().copy(data, 133);
+  new PublicKey(USDC_MINT).toBuffer().copy(data, 181);
+  new PublicKey(VAULT_B).toBuffer().copy(data, 213);
+  return data;
+}
+
+function mintAccount(decimals: number): Buffer {
+  const data = Buffer.alloc(82);
+  data.writeUInt8(decimals, 44);
+  return data;
+}
+
+/**
+ * Source serving one transaction and a fixed set of accounts
+ */
+function fixtureSource(
+  tx: ParsedTransactionWithMeta,
+  accounts: Record<string, Buffer>,
+): PoolTransactionSource & { requested: string[][] } {
+  const requested: string[][] = [];
+  return {
+    requested,
+    async getParsedTransaction(signature) {
+      return signature === 'sig' ? tx : null;
+    },
+    async getMultipleAccountsInfo(publicKeys) {
+      requested.push(publicKeys.map((publicKey) => publicKey.toBase58()));
+      return publicKeys.map((publicKey) => {
+        const data = accounts[publicKey.toBase58()];
+        return data
+          ? { data, owner: new PublicKey(TOKEN_PROGRAM_ID), executable: false, lamports: 1 }
+          : null;
+      });
+    },
+  };
+}
+
+describe('Pool decoder', () => {
+  describe('hasPoolInitialization', () => {
+    it('should match the initialize logs of every supported program', () => {
+      expect(
+        hasPoolInitialization([
+          'Program 675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8 invoke [1]',
+          'Program log: initialize2: InitializeInstruction2 { nonce: 254, open_time: 0, init_pc_amount: 1, init_coin_amount: 1 }',
+        ]),
+      ).toBe(true);
+      expect(hasPoolInitialization(['Program log: Instruction: Initialize'])).toBe(true);
+      expect(hasPoolInitialization(['Program log: Instruction: InitializePool'])).toBe(true);
+      expect(hasPoolInitialization(['Program log: Instruction: InitializeLbPair'])).toBe(true);
+    });
+
+    it('should ignore other pool instructions', () => {
+      expect(
+        hasPoolInitialization([
+          'Program log: Instruction: Swap',
+          'Program log: Instruction: InitializeTickArray',
+          'Program log: Instruction: InitializePoolV2',
+          'Program log: ray_log: AwAAAAAAAAAA',
+        ]),
+      ).toBe(false);
+    });
+
+    it('should cover the four pool programs', () => {
+      expect(POOL_PROGRAM_IDS).toEqual([
+        RAYDIUM_AMM_V4_PROGRAM_ID,
+        RAYDIUM_CPMM_PROGRAM_ID,
+        ORCA_WHIRLPOOL_PROGRAM_ID,
+        METEORA_DLMM_PROGRAM_ID,
+      ]);
+    });
+  });
+
+  describe('decodePoolInitializations', () => {
+    it('should decode Raydium AMM v4 initialize2 with its lp mint and market', () => {
+      const [initialization] = decodePoolInitializations(
+        transaction({ instructions: [raydiumInitialize2()] }),
+      );
+
+      expect(initialization).toEqual({
+        programId: RAYDIUM_AMM_V4_PROGRAM_ID,
+        instruction: 'initialize2',
+        dexType: 'RAYDIUM',
+        pool: RAYDIUM_POOL,
+        mintA: SOL_MINT,
+        mintB: USDC_MINT,
+        vaultA: VAULT_A,
+        vaultB: VAULT_B,
+        lpMint: RAYDIUM_LP_MINT,
+        market: RAYDIUM_MARKET,
+      });
+    });
+
+    it('should decode Anchor initialize instructions, including inner ones', () => {
+      const initializations = decodePoolInitializations(
+        transaction({
+          instructions: [whirlpoolInitializePool(), dlmmInitializeLbPair()],
+          inner: [cpmmInitialize()],
+        }),
+      );
+
+      expect(
+        initializations.map(({ instruction, dexType, pool }) => ({ instruction, dexType, pool })),
+      ).toEqual([
+        { instruction: 'initializePool', dexType: 'ORCA', pool: WHIRLPOOL },
+        { instruction: 'initializeLbPair', dexType: 'METEORA', pool: LB_PAIR },
+        { instruction: 'initialize', dexType: 'RAYDIUM', pool: CPMM_POOL },
+      ]);
+      expect(initializations[2]).toMatchObject({
+        mintA: SOL_MINT,
+        mintB: USDC_MINT,
+        lpMint: CPMM_LP_MINT,
+        feeConfig: CPMM_CONFIG,
+      });
+    });
+
+    it('should ignore other instructions and failed transactions', () => {
+      const swap = Buffer.alloc(17);
+      swap.writeUInt8(9, 0);
+      const transfer: ParsedInstruction = {
+        program: 'spl-token',
+        programId: new PublicKey(TOKEN_PROGRAM_ID),
+        parsed: { type: 'transfer', info: {} },
+      };
+
+      expect(
+        decodePoolInitializations(
+          transaction({
+            instructions: [
+              instruction(RAYDIUM_AMM_V4_PROGRAM_ID, accountList(18, {}), swap),
+              instruction(ORCA_WHIRLPOOL_PROGRAM_ID, accountList(11, {}), anchorData('swap')),
+              transfer,
+            ],
+          }),
+        ),
+      ).toEqual([]);
+      expect(
+        decodePoolInitializations(
+          transaction({ instructions: [raydiumInitialize2()], err: { InstructionError: [0, 1] } }),
+        ),
+      ).toEqual([]);
+    });
+
+    it('should skip instructions with missing accounts', () => {
+      const truncated = dlmmInitializeLbPair();
+      truncated.accounts = truncated.accounts.slice(0, 4);
+
+      expect(decodePoolInitializations(transaction({ instructions: [truncated] }))).toEqual([]);
+    });
+  });
+});
+
+describe('PoolDiscoverer', () => {
+  it('should compute initial TVL and price from the vault balances after the transaction', async () => {
+    const tx = transaction({
+      instructions: [cpmmInitialize()],
+      balances: [
+        { account: VAULT_A, mint: SOL_MINT, amount: 10_000_000_000n, decimals: 9 },
+        { account: VAULT_B, mint: USDC_MINT, amount: 1_500_000_000n, decimals: 6 },
+      ],
+    });
+    const source = fixtureSource(tx, {
+      [CPMM_POOL]: cpmmPoolAccount(),
+      [CPMM_CONFIG]: cpmmConfigAccount(),
+    });
+
+    const pools = await new PoolDiscoverer(source).discover('sig');
+
+    expect(pools).toHaveLength(1);
+    expect(pools[0]).toMatchObject({
+      poolAddress: CPMM_POOL,
+      dexType: 'RAYDIUM',
+      tokenA: SOL_MINT,
+      tokenB: USDC_MINT,
+      poolData: { lpMint: CPMM_LP_MINT, feeRate: 0.0025 },
+      creator: CREATOR,
+    });
+    // 10 SOL at 150 USDC plus 1500 USDC
+    expect(Number(pools[0]!.initialTvl)).toBeCloseTo(3000);
+    expect(Number(pools[0]!.initialPrice)).toBeCloseTo(150);
+    expect(source.requested).toEqual([[CPMM_POOL, CPMM_CONFIG]]);
+  });
+
+  it('should fall back to the mint accounts for decimals of empty pools', async () => {
+    const tx = transaction({ instructions: [whirlpoolInitializePool()] });
+    const source = fixtureSource(tx, {
+      [WHIRLPOOL]: whirlpoolAccount(),
+      [SOL_MINT]: mintAccount(9),
+      [USDC_MINT]: mintAccount(6),
+    });
+
+    const [pool] = await new PoolDiscoverer(source).discover('sig');
+
+    expect(pool).toEqual({
+      poolAddress: WHIRLPOOL,
+      dexType: 'ORCA',
+      tokenA: SOL_MINT,
+      tokenB: USDC_MINT,
+      initialTvl: '0',
+      initialPrice: expect.any(String),
+      creator: CREATOR,
+      poolData: { feeRate: 0.003 },
+    });
+    // The whirlpool's sqrt price is set before any liquidity is added
+    expect(Number(pool!.initialPrice)).toBeCloseTo(150);
+    expect(source.requested).toEqual([[WHIRLPOOL], [SOL_MINT, USDC_MINT]]);
+  });
+
+  it('should skip pools whose account cannot be found', async () => {
+    const tx = transaction({ instructions: [dlmmInitializeLbPair()] });
+
+    expect(await new PoolDiscoverer(fixtureSource(tx, {})).discover('sig')).toEqual([]);
+    expect(await new PoolDiscoverer(fixtureSource(tx, {})).discover('unknown')).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Pool Discovery
+ * Turns a pool creation transaction into POOL_DISCOVERED event data
+ */
+
+import {
+  PublicKey,
+  type AccountInfo,
+  type ParsedTransactionWithMeta,
+  type TokenBalance,
+} from '@solana/web3.js';
+import type { PoolDiscoveredEvent } from '@solana-eda/types';
+import { decodePoolInitializations, type DecodedPoolInitialization } from './pool-decoder.js';
+import {
+  decodeMintDecimals,
+  decodePoolAccount,
+  decodeRaydiumCpmmConfigFeeRate,
+} from './pool-layouts.js';
+import { computePoolSnapshot } from './pool-tracker.js';
+
+/**
+ * Subset of the Solana Connection used by pool discovery.
+ * A Connection satisfies it directly; tests provide fixtures instead.
+ */
+export interface PoolTransactionSource {
+  getParsedTransaction(
+    signature: string,
+    config: { commitment: 'confirmed'; maxSupportedTransactionVersion: number },
+  ): Promise<ParsedTransactionWithMeta | null>;
+  getMultipleAccountsInfo(publicKeys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]>;
+}
+
+/**
+ * Discovered pool, without the discovery metadata and market link added by the worker
+ */
+export type PoolDiscovery = Omit<
+  PoolDiscoveredEvent['data'],
+  'discoveredAt' | 'discoverySource' | 'marketAddress'
+> & {
+  /** OpenBook market named by the initialize instruction (Raydium AMM v4 only) */
+  instructionMarket?: string;
+};
+
+export class PoolDiscoverer {
+  constructor(private source: PoolTransactionSource) {}
+
+  /**
+   * Discover the pools created in a transaction.
+   * Initial TVL and price are computed from the vault balances at the end of the transaction
+   * and, like LIQUIDITY_CHANGED, are denominated in token B. The creator is the fee payer.
+   */
+  async discover(signature: string): Promise<PoolDiscovery[]> {
+    const tx = await this.source.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (!tx) {
+      return [];
+    }
+
+    const pools: PoolDiscovery[] = [];
+    for (const initialization of decodePoolInitializations(tx)) {
+      const pool = await this.describePool(tx, initialization);
+      if (pool) {
+        pools.push(pool);
+      }
+    }
+
+    return pools;
+  }
+
+  /**
+   * Decode the created pool account and compute its initial TVL
+   */
+  private async describePool(
+    tx: ParsedTransactionWithMeta,
+    initialization: DecodedPoolInitialization,
+  ): Promise<PoolDiscovery | null> {
+    const keys = [initialization.pool, initialization.feeConfig].filter(
+      (key): key is string => key !== undefined,
+    );
+    const [poolAccount, feeConfigAccount] = await this.source.getMultipleAccountsInfo(
+      keys.map((key) => new PublicKey(key)),
+    );
+
+    // Closed again or not yet visible at this commitment
+    if (!poolAccount) {
+      return null;
+    }
+
+    const state = decodePoolAccount(initialization.programId, poolAccount.data);
+    if (!state) {
+      return null;
+    }
+
+    const feeRate =
+      state.feeRate ??
+      (feeConfigAccount ? decodeRaydiumCpmmConfigFeeRate(feeConfigAccount.data) : undefined);
+    const lpMint = state.lpMint ?? initialization.lpMint;
+
+    const balances = postTokenBalances(tx);
+    const decimals = await this.getDecimals(state.mintA, state.mintB, balances, {
+      a: state.decimalsA,
+      b: state.decimalsB,
+    });
+    const snapshot = computePoolSnapshot({
+      address: initialization.pool,
+      state,
+      decimalsA: decimals.a,
+      decimalsB: decimals.b,
+      vaultBalanceA: BigInt(balances.get(state.vaultA)?.uiTokenAmount.amount ?? 0),
+      vaultBalanceB: BigInt(balances.get(state.vaultB)?.uiTokenAmount.amount ?? 0),
+      baselineTvl: null,
+    });
+
+    return {
+      poolAddress: initialization.pool,
+      dexType: state.dexType,
+      tokenA: state.mintA,
+      tokenB: state.mintB,
+      initialTvl: String(snapshot?.tvl ?? 0),
+      initialPrice: snapshot ? String(snapshot.price) : undefined,
+      creator: tx.transaction.message.accountKeys[0]?.pubkey.toBase58(),
+      poolData: lpMint !== undefined || feeRate !== undefined ? { lpMint, feeRate } : undefined,
+      instructionMarket: initialization.market,
+    };
+  }
+
+  /**
+   * Resolve token decimals from the pool account, the transaction balances or the mints
+   */
+  private async getDecimals(
+    mintA: string,
+    mintB: string,
+    balances: Map<string, TokenBalance>,
+    known: { a?: number; b?: number },
+  ): Promise<{ a: number; b: number }> {
+    const fromBalances = (mint: string) =>
+      [...balances.values()].find((balance) => balance.mint === mint)?.uiTokenAmount.decimals;
+
+    let a = known.a ?? fromBalances(mintA);
+    let b = known.b ?? fromBalances(mintB);
+
+    if (a === undefined || b === undefined) {
+      const [mintAccountA, mintAccountB] = await this.source.getMultipleAccountsInfo([
+        new PublicKey(mintA),
+        new PublicKey(mintB),
+      ]);
+      if (!mintAccountA || !mintAccountB) {
+        throw new Error(`Mint accounts not found for ${mintA}/${mintB}`);
+      }
+      a ??= decodeMintDecimals(mintAccountA.data);
+      b ??= decodeMintDecimals(mintAccountB.data);
+    }
+
+    return { a, b };
+  }
+}
+
+/**
+ * Token balances after the transaction, keyed by token account address
+ */
+function postTokenBalances(tx: ParsedTransactionWithMeta): Map<string, TokenBalance> {
+  const accountKeys = tx.transaction.message.accountKeys;
+  const balances = new Map<string, TokenBalance>();
+
+  for (const balance of tx.meta?.postTokenBalances ?? []) {
+    const account = accountKeys[balance.accountIndex];
+    if (account) {
+      balances.set(account.pubkey.toBase58(), balance);
+    }
+  }
+
+  return balances;
+}
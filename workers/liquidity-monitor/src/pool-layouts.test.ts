@@ -0,0 +1,217 @@
+import { describe, it, expect } from '@jest/globals';
+import { PublicKey } from '@solana/web3.js';
+import {
+  decodeMeteoraDlmm,
+  decodeMintDecimals,
+  decodeOrcaWhirlpool,
+  decodePoolAccount,
+  decodeRaydiumAmmV4,
+  decodeRaydiumCpmm,
+  decodeRaydiumCpmmConfigFeeRate,
+  decodeTokenAccountAmount,
+  METEORA_DLMM_PROGRAM_ID,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  RAYDIUM_AMM_V4_PROGRAM_ID,
+  RAYDIUM_CPMM_PROGRAM_ID,
+} from './pool-layouts.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const VAULT_A = 'DQyrAcCrDXQ7NeoqGgDCZwBvWDcYmFCjSb9JtteuvPpz';
+const VAULT_B = 'HLmqeL62xR1QoZ1HKKbXRrdN1p3phKpxRMb2VVopvBBz';
+const LP_MINT = '8HoQnePLqPj4M7PUDzfw8e3Ymdwgc7NLGnaTUapubyvu';
+
+function writeKey(buffer: Buffer, offset: number, key: string): void {
+  new PublicKey(key).toBuffer().copy(buffer, offset);
+}
+
+function writeU128(buffer: Buffer, offset: number, value: bigint): void {
+  buffer.writeBigUInt64LE(value & 0xffffffffffffffffn, offset);
+  buffer.writeBigUInt64LE(value >> 64n, offset + 8);
+}
+
+function raydiumAccount(): Buffer {
+  const data = Buffer.alloc(752);
+  data.writeBigUInt64LE(9n, 32);
+  data.writeBigUInt64LE(6n, 40);
+  data.writeBigUInt64LE(25n, 176);
+  data.writeBigUInt64LE(10_000n, 184);
+  data.writeBigUInt64LE(1_000n, 192);
+  data.writeBigUInt64LE(2_000n, 200);
+  writeKey(data, 336, VAULT_A);
+  writeKey(data, 368, VAULT_B);
+  writeKey(data, 400, SOL_MINT);
+  writeKey(data, 432, USDC_MINT);
+  writeKey(data, 464, LP_MINT);
+  return data;
+}
+
+function cpmmAccount(): Buffer {
+  const data = Buffer.alloc(637);
+  writeKey(data, 72, VAULT_A);
+  writeKey(data, 104, VAULT_B);
+  writeKey(data, 136, LP_MINT);
+  writeKey(data, 168, SOL_MINT);
+  writeKey(data, 200, USDC_MINT);
+  data.writeUInt8(9, 331);
+  data.writeUInt8(6, 332);
+  data.writeBigUInt64LE(100n, 341);
+  data.writeBigUInt64LE(200n, 349);
+  data.writeBigUInt64LE(30n, 357);
+  data.writeBigUInt64LE(40n, 365);
+  return data;
+}
+
+function whirlpoolAccount(sqrtPriceX64: bigint): Buffer {
+  const data = Buffer.alloc(653);
+  data.writeUInt16LE(3000, 45);
+  writeU128(data, 65, sqrtPriceX64);
+  data.writeBigUInt64LE(10n, 85);
+  data.writeBigUInt64LE(20n, 93);
+  writeKey(data, 101, SOL_MINT);
+  writeKey(data, 133, VAULT_A);
+  writeKey(data, 181, USDC_MINT);
+  writeKey(data, 213, VAULT_B);
+  return data;
+}
+
+function dlmmAccount(activeId: number, binStep: number): Buffer {
+  const data = Buffer.alloc(904);
+  data.writeUInt16LE(10_000, 8);
+  data.writeInt32LE(activeId, 76);
+  data.writeUInt16LE(binStep, 80);
+  writeKey(data, 88, SOL_MINT);
+  writeKey(data, 120, USDC_MINT);
+  writeKey(data, 152, VAULT_A);
+  writeKey(data, 184, VAULT_B);
+  data.writeBigUInt64LE(5n, 216);
+  data.writeBigUInt64LE(7n, 224);
+  return data;
+}
+
+describe('Pool layouts', () => {
+  describe('decodeRaydiumAmmV4', () => {
+    it('should decode mints, vaults, decimals and pnl', () => {
+      const state = decodeRaydiumAmmV4(raydiumAccount());
+
+      expect(state).toEqual({
+        dexType: 'RAYDIUM',
+        mintA: SOL_MINT,
+        mintB: USDC_MINT,
+        vaultA: VAULT_A,
+        vaultB: VAULT_B,
+        decimalsA: 9,
+        decimalsB: 6,
+        lpMint: LP_MINT,
+        feeRate: 0.0025,
+        excludedA: 1_000n,
+        excludedB: 2_000n,
+        rawPrice: null,
+      });
+    });
+
+    it('should leave the fee rate unset when the denominator is zero', () => {
+      const data = raydiumAccount();
+      data.writeBigUInt64LE(0n, 184);
+
+      expect(decodeRaydiumAmmV4(data).feeRate).toBeUndefined();
+    });
+
+    it('should reject truncated accounts', () => {
+      expect(() => decodeRaydiumAmmV4(Buffer.alloc(100))).toThrow('Invalid Raydium AMM v4 account');
+    });
+  });
+
+  describe('decodeRaydiumCpmm', () => {
+    it('should decode mints, vaults, decimals, lp mint and accrued fees', () => {
+      expect(decodeRaydiumCpmm(cpmmAccount())).toEqual({
+        dexType: 'RAYDIUM',
+        mintA: SOL_MINT,
+        mintB: USDC_MINT,
+        vaultA: VAULT_A,
+        vaultB: VAULT_B,
+        decimalsA: 9,
+        decimalsB: 6,
+        lpMint: LP_MINT,
+        excludedA: 130n,
+        excludedB: 240n,
+        rawPrice: null,
+      });
+    });
+
+    it('should read the trade fee rate from the AMM config', () => {
+      const ammConfig = Buffer.alloc(236);
+      ammConfig.writeBigUInt64LE(2500n, 12);
+
+      expect(decodeRaydiumCpmmConfigFeeRate(ammConfig)).toBeCloseTo(0.0025);
+      expect(() => decodeRaydiumCpmm(Buffer.alloc(100))).toThrow('Invalid Raydium CPMM account');
+    });
+  });
+
+  describe('decodeOrcaWhirlpool', () => {
+    it('should decode the sqrt price into a raw price', () => {
+      // sqrt(4) * 2^64
+      const state = decodeOrcaWhirlpool(whirlpoolAccount(2n << 64n));
+
+      expect(state.dexType).toBe('ORCA');
+      expect(state.mintA).toBe(SOL_MINT);
+      expect(state.vaultB).toBe(VAULT_B);
+      expect(state.excludedA).toBe(10n);
+      expect(state.excludedB).toBe(20n);
+      expect(state.feeRate).toBeCloseTo(0.003);
+      expect(state.rawPrice).toBeCloseTo(4);
+    });
+  });
+
+  describe('decodeMeteoraDlmm', () => {
+    it('should derive the raw price from the active bin', () => {
+      const state = decodeMeteoraDlmm(dlmmAccount(100, 25));
+
+      expect(state.dexType).toBe('METEORA');
+      expect(state.mintB).toBe(USDC_MINT);
+      expect(state.vaultA).toBe(VAULT_A);
+      expect(state.excludedB).toBe(7n);
+      expect(state.rawPrice).toBeCloseTo(Math.pow(1.0025, 100));
+    });
+
+    it('should derive the base fee rate from the base factor and bin step', () => {
+      const data = dlmmAccount(0, 25);
+      expect(decodeMeteoraDlmm(data).feeRate).toBeCloseTo(0.0025);
+
+      data.writeUInt8(1, 34);
+      expect(decodeMeteoraDlmm(data).feeRate).toBeCloseTo(0.025);
+    });
+
+    it('should handle negative bin ids', () => {
+      expect(decodeMeteoraDlmm(dlmmAccount(-100, 25)).rawPrice).toBeCloseTo(Math.pow(1.0025, -100));
+    });
+  });
+
+  describe('decodePoolAccount', () => {
+    it('should dispatch on the owner program', () => {
+      expect(decodePoolAccount(RAYDIUM_AMM_V4_PROGRAM_ID, raydiumAccount())?.dexType).toBe(
+        'RAYDIUM',
+      );
+      expect(decodePoolAccount(RAYDIUM_CPMM_PROGRAM_ID, cpmmAccount())?.lpMint).toBe(LP_MINT);
+      expect(
+        decodePoolAccount(ORCA_WHIRLPOOL_PROGRAM_ID, whirlpoolAccount(1n << 64n))?.dexType,
+      ).toBe('ORCA');
+      expect(decodePoolAccount(METEORA_DLMM_PROGRAM_ID, dlmmAccount(0, 10))?.dexType).toBe(
+        'METEORA',
+      );
+      expect(decodePoolAccount(SOL_MINT, Buffer.alloc(752))).toBeNull();
+    });
+  });
+
+  describe('token accounts', () => {
+    it('should read token account amounts and mint decimals', () => {
+      const tokenAccount = Buffer.alloc(165);
+      tokenAccount.writeBigUInt64LE(123_456_789n, 64);
+      const mint = Buffer.alloc(82);
+      mint.writeUInt8(6, 44);
+
+      expect(decodeTokenAccountAmount(tokenAccount)).toBe(123_456_789n);
+      expect(decodeMintDecimals(mint)).toBe(6);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Pool account layouts
+ * Decodes Raydium AMM v4, Raydium CPMM, Orca Whirlpool and Meteora DLMM pool accounts
+ * as well as the SPL token accounts and mints that hold their reserves
+ */
+
+import { PublicKey } from '@solana/web3.js';
+
+export const RAYDIUM_AMM_V4_PROGRAM_ID = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+export const RAYDIUM_CPMM_PROGRAM_ID = 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C';
+export const ORCA_WHIRLPOOL_PROGRAM_ID = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+export const METEORA_DLMM_PROGRAM_ID = 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo';
+
+export const RAYDIUM_AMM_V4_SIZE = 752;
+export const RAYDIUM_CPMM_SIZE = 637;
+export const RAYDIUM_CPMM_CONFIG_MIN_SIZE = 20;
+export const ORCA_WHIRLPOOL_SIZE = 653;
+export const METEORA_DLMM_MIN_SIZE = 232;
+
+export type DexType = 'RAYDIUM' | 'ORCA' | 'METEORA';
+
+/**
+ * Decoded pool state, normalized across DEXes.
+ * Token A is the base token (Raydium base, Whirlpool A, DLMM X) and token B the quote token.
+ */
+export interface PoolState {
+  dexType: DexType;
+  mintA: string;
+  mintB: string;
+  vaultA: string;
+  vaultB: string;
+  /** Decimals stored in the pool account (Raydium only) */
+  decimalsA?: number;
+  decimalsB?: number;
+  /** LP token mint (Raydium only, concentrated liquidity positions are NFTs) */
+  lpMint?: string;
+  /** Swap fee as a fraction of the input amount. Raydium CPMM keeps it in its AMM config */
+  feeRate?: number;
+  /** Amounts held in the vaults that do not belong to liquidity providers (pnl or protocol fees) */
+  excludedA: bigint;
+  excludedB: bigint;
+  /** Pool-native price of A in B, in raw units. Null when the price is derived from reserves */
+  rawPrice: number | null;
+}
+
+/**
+ * Raydium AMM v4 (LIQUIDITY_STATE_LAYOUT_V4) field offsets
+ */
+const RAYDIUM_OFFSETS = {
+  baseDecimal: 32,
+  quoteDecimal: 40,
+  swapFeeNumerator: 176,
+  swapFeeDenominator: 184,
+  baseNeedTakePnl: 192,
+  quoteNeedTakePnl: 200,
+  baseVault: 336,
+  quoteVault: 368,
+  baseMint: 400,
+  quoteMint: 432,
+  lpMint: 464,
+} as const;
+
+/**
+ * Raydium CPMM PoolState field offsets (after the 8-byte Anchor discriminator)
+ */
+const CPMM_OFFSETS = {
+  token0Vault: 72,
+  token1Vault: 104,
+  lpMint: 136,
+  token0Mint: 168,
+  token1Mint: 200,
+  mint0Decimals: 331,
+  mint1Decimals: 332,
+  protocolFeesToken0: 341,
+  protocolFeesToken1: 349,
+  fundFeesToken0: 357,
+  fundFeesToken1: 365,
+} as const;
+
+/**
+ * Raydium CPMM AmmConfig trade fee offset, in millionths
+ */
+const CPMM_CONFIG_TRADE_FEE_RATE_OFFSET = 12;
+
+/**
+ * Orca Whirlpool field offsets (after the 8-byte Anchor discriminator)
+ */
+const WHIRLPOOL_OFFSETS = {
+  feeRate: 45,
+  sqrtPrice: 65,
+  protocolFeeOwedA: 85,
+  protocolFeeOwedB: 93,
+  tokenMintA: 101,
+  tokenVaultA: 133,
+  tokenMintB: 181,
+  tokenVaultB: 213,
+} as const;
+
+/**
+ * Meteora DLMM LbPair field offsets (after the 8-byte Anchor discriminator)
+ */
+const DLMM_OFFSETS = {
+  baseFactor: 8,
+  baseFeePowerFactor: 34,
+  activeId: 76,
+  binStep: 80,
+  tokenXMint: 88,
+  tokenYMint: 120,
+  reserveX: 152,
+  reserveY: 184,
+  protocolFeeX: 216,
+  protocolFeeY: 224,
+} as const;
+
+/**
+ * SPL token account amount and mint decimals offsets
+ */
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+const MINT_DECIMALS_OFFSET = 44;
+
+const Q64 = 2 ** 64;
+
+/**
+ * Whirlpool and CPMM fee rates are in millionths, DLMM base fees in billionths
+ */
+const FEE_RATE_DENOMINATOR = 1_000_000;
+const DLMM_FEE_PRECISION = 1_000_000_000;
+
+function readPublicKey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+function readU128(data: Buffer, offset: number): bigint {
+  const low = data.readBigUInt64LE(offset);
+  const high = data.readBigUInt64LE(offset + 8);
+  return (high << 64n) + low;
+}
+
+function assertSize(data: Buffer, size: number, layout: string): void {
+  if (data.length < size) {
+    throw new Error(`Invalid ${layout} account: expected ${size} bytes, got ${data.length}`);
+  }
+}
+
+/**
+ * Decode a Raydium AMM v4 pool account
+ */
+export function decodeRaydiumAmmV4(data: Buffer): PoolState {
+  assertSize(data, RAYDIUM_AMM_V4_SIZE, 'Raydium AMM v4');
+
+  const swapFeeDenominator = data.readBigUInt64LE(RAYDIUM_OFFSETS.swapFeeDenominator);
+
+  return {
+    dexType: 'RAYDIUM',
+    mintA: readPublicKey(data, RAYDIUM_OFFSETS.baseMint),
+    mintB: readPublicKey(data, RAYDIUM_OFFSETS.quoteMint),
+    vaultA: readPublicKey(data, RAYDIUM_OFFSETS.baseVault),
+    vaultB: readPublicKey(data, RAYDIUM_OFFSETS.quoteVault),
+    decimalsA: Number(data.readBigUInt64LE(RAYDIUM_OFFSETS.baseDecimal)),
+    decimalsB: Number(data.readBigUInt64LE(RAYDIUM_OFFSETS.quoteDecimal)),
+    lpMint: readPublicKey(data, RAYDIUM_OFFSETS.lpMint),
+    feeRate:
+      swapFeeDenominator === 0n
+        ? undefined
+        : Number(data.readBigUInt64LE(RAYDIUM_OFFSETS.swapFeeNumerator)) /
+          Number(swapFeeDenominator),
+    excludedA: data.readBigUInt64LE(RAYDIUM_OFFSETS.baseNeedTakePnl),
+    excludedB: data.readBigUInt64LE(RAYDIUM_OFFSETS.quoteNeedTakePnl),
+    rawPrice: null,
+  };
+}
+
+/**
+ * Decode a Raydium CPMM pool account
+ * Token 0 is token A. Protocol and fund fees held in the vaults are excluded.
+ */
+export function decodeRaydiumCpmm(data: Buffer): PoolState {
+  assertSize(data, RAYDIUM_CPMM_SIZE, 'Raydium CPMM');
+
+  return {
+    dexType: 'RAYDIUM',
+    mintA: readPublicKey(data, CPMM_OFFSETS.token0Mint),
+    mintB: readPublicKey(data, CPMM_OFFSETS.token1Mint),
+    vaultA: readPublicKey(data, CPMM_OFFSETS.token0Vault),
+    vaultB: readPublicKey(data, CPMM_OFFSETS.token1Vault),
+    decimalsA: data.readUInt8(CPMM_OFFSETS.mint0Decimals),
+    decimalsB: data.readUInt8(CPMM_OFFSETS.mint1Decimals),
+    lpMint: readPublicKey(data, CPMM_OFFSETS.lpMint),
+    excludedA:
+      data.readBigUInt64LE(CPMM_OFFSETS.protocolFeesToken0) +
+      data.readBigUInt64LE(CPMM_OFFSETS.fundFeesToken0),
+    excludedB:
+      data.readBigUInt64LE(CPMM_OFFSETS.protocolFeesToken1) +
+      data.readBigUInt64LE(CPMM_OFFSETS.fundFeesToken1),
+    rawPrice: null,
+  };
+}
+
+/**
+ * Read the trade fee rate of a Raydium CPMM AmmConfig account
+ */
+export function decodeRaydiumCpmmConfigFeeRate(data: Buffer): number {
+  assertSize(data, RAYDIUM_CPMM_CONFIG_MIN_SIZE, 'Raydium CPMM config');
+  return Number(data.readBigUInt64LE(CPMM_CONFIG_TRADE_FEE_RATE_OFFSET)) / FEE_RATE_DENOMINATOR;
+}
+
+/**
+ * Decode an Orca Whirlpool account
+ */
+export function decodeOrcaWhirlpool(data: Buffer): PoolState {
+  assertSize(data, ORCA_WHIRLPOOL_SIZE, 'Orca Whirlpool');
+
+  const sqrtPrice = Number(readU128(data, WHIRLPOOL_OFFSETS.sqrtPrice)) / Q64;
+
+  return {
+    dexType: 'ORCA',
+    mintA: readPublicKey(data, WHIRLPOOL_OFFSETS.tokenMintA),
+    mintB: readPublicKey(data, WHIRLPOOL_OFFSETS.tokenMintB),
+    vaultA: readPublicKey(data, WHIRLPOOL_OFFSETS.tokenVaultA),
+    vaultB: readPublicKey(data, WHIRLPOOL_OFFSETS.tokenVaultB),
+    feeRate: data.readUInt16LE(WHIRLPOOL_OFFSETS.feeRate) / FEE_RATE_DENOMINATOR,
+    excludedA: data.readBigUInt64LE(WHIRLPOOL_OFFSETS.protocolFeeOwedA),
+    excludedB: data.readBigUInt64LE(WHIRLPOOL_OFFSETS.protocolFeeOwedB),
+    rawPrice: sqrtPrice * sqrtPrice,
+  };
+}
+
+/**
+ * Decode a Meteora DLMM LbPair account
+ */
+export function decodeMeteoraDlmm(data: Buffer): PoolState {
+  assertSize(data, METEORA_DLMM_MIN_SIZE, 'Meteora DLMM');
+
+  const activeId = data.readInt32LE(DLMM_OFFSETS.activeId);
+  const binStep = data.readUInt16LE(DLMM_OFFSETS.binStep);
+  const baseFactor = data.readUInt16LE(DLMM_OFFSETS.baseFactor);
+  const baseFeePowerFactor = data.readUInt8(DLMM_OFFSETS.baseFeePowerFactor);
+
+  return {
+    dexType: 'METEORA',
+    mintA: readPublicKey(data, DLMM_OFFSETS.tokenXMint),
+    mintB: readPublicKey(data, DLMM_OFFSETS.tokenYMint),
+    vaultA: readPublicKey(data, DLMM_OFFSETS.reserveX),
+    vaultB: readPublicKey(data, DLMM_OFFSETS.reserveY),
+    // Base fee only, the variable fee depends on recent volatility
+    feeRate: (baseFactor * binStep * 10 * Math.pow(10, baseFeePowerFactor)) / DLMM_FEE_PRECISION,
+    excludedA: data.readBigUInt64LE(DLMM_OFFSETS.protocolFeeX),
+    excludedB: data.readBigUInt64LE(DLMM_OFFSETS.protocolFeeY),
+    rawPrice: Math.pow(1 + binStep / 10_000, activeId),
+  };
+}
+
+/**
+ * Decode a pool account based on its owner program
+ */
+export function decodePoolAccount(owner: string, data: Buffer): PoolState | null {
+  switch (owner) {
+    case RAYDIUM_AMM_V4_PROGRAM_ID:
+      return decodeRaydiumAmmV4(data);
+    case RAYDIUM_CPMM_PROGRAM_ID:
+      return decodeRaydiumCpmm(data);
+    case ORCA_WHIRLPOOL_PROGRAM_ID:
+      return decodeOrcaWhirlpool(data);
+    case METEORA_DLMM_PROGRAM_ID:
+      return decodeMeteoraDlmm(data);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read the amount held by an SPL token account
+ */
+export function decodeTokenAccountAmount(data: Buffer): bigint {
+  assertSize(data, TOKEN_ACCOUNT_AMOUNT_OFFSET + 8, 'token');
+  return data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET);
+}
+
+/**
+ * Read the decimals of an SPL token mint
+ */
+export function decodeMintDecimals(data: Buffer): number {
+  assertSize(data, MINT_DECIMALS_OFFSET + 1, 'mint');
+  return data.readUInt8(MINT_DECIMALS_OFFSET);
+}
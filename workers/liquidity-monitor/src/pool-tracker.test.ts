@@ -0,0 +1,119 @@
+import { describe, it, expect } from '@jest/globals';
+import type { PoolState } from './pool-layouts.js';
+import { computeChangePercentage, computePoolSnapshot, PoolTracker } from './pool-tracker.js';
+
+const POOL = '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2';
+
+const raydiumState: PoolState = {
+  dexType: 'RAYDIUM',
+  mintA: 'So11111111111111111111111111111111111111112',
+  mintB: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  vaultA: 'DQyrAcCrDXQ7NeoqGgDCZwBvWDcYmFCjSb9JtteuvPpz',
+  vaultB: 'HLmqeL62xR1QoZ1HKKbXRrdN1p3phKpxRMb2VVopvBBz',
+  decimalsA: 9,
+  decimalsB: 6,
+  excludedA: 0n,
+  excludedB: 0n,
+  rawPrice: null,
+};
+
+describe('Pool tracker', () => {
+  describe('computePoolSnapshot', () => {
+    it('should derive price from reserves for constant product pools', () => {
+      const snapshot = computePoolSnapshot({
+        address: POOL,
+        state: { ...raydiumState, excludedB: 1_000_000n },
+        decimalsA: 9,
+        decimalsB: 6,
+        vaultBalanceA: 100_000_000_000n, // 100 SOL
+        vaultBalanceB: 15_001_000_000n, // 15,001 USDC, 1 USDC pending pnl
+        baselineTvl: null,
+      });
+
+      expect(snapshot?.reserveA).toBe(100);
+      expect(snapshot?.reserveB).toBe(15_000);
+      expect(snapshot?.price).toBe(150);
+      expect(snapshot?.tvl).toBe(30_000);
+    });
+
+    it('should use the pool-native price for concentrated liquidity pools', () => {
+      const snapshot = computePoolSnapshot({
+        address: POOL,
+        state: { ...raydiumState, dexType: 'ORCA', rawPrice: 0.15 },
+        decimalsA: 9,
+        decimalsB: 6,
+        vaultBalanceA: 10_000_000_000n,
+        vaultBalanceB: 500_000_000n,
+        baselineTvl: null,
+      });
+
+      expect(snapshot?.price).toBeCloseTo(150);
+      expect(snapshot?.tvl).toBeCloseTo(2_000);
+    });
+
+    it('should wait for both vault balances', () => {
+      expect(
+        computePoolSnapshot({
+          address: POOL,
+          state: raydiumState,
+          decimalsA: 9,
+          decimalsB: 6,
+          vaultBalanceA: 1n,
+          baselineTvl: null,
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe('computeChangePercentage', () => {
+    it('should compute signed percentage changes', () => {
+      expect(computeChangePercentage(100, 110)).toBeCloseTo(10);
+      expect(computeChangePercentage(100, 80)).toBeCloseTo(-20);
+      expect(computeChangePercentage(0, 0)).toBe(0);
+    });
+  });
+
+  describe('PoolTracker', () => {
+    it('should set the baseline on the first snapshot', () => {
+      const tracker = new PoolTracker(5);
+      tracker.track(POOL, raydiumState, { a: 9, b: 6 });
+
+      expect(tracker.updateVaultBalance(POOL, 'A', 100_000_000_000n)).toBeNull();
+      const evaluation = tracker.updateVaultBalance(POOL, 'B', 15_000_000_000n);
+
+      expect(evaluation?.change).toBeNull();
+      expect(tracker.get(POOL)?.baselineTvl).toBe(30_000);
+    });
+
+    it('should emit a change only when the threshold is crossed', () => {
+      const tracker = new PoolTracker(5);
+      tracker.track(POOL, raydiumState, { a: 9, b: 6 }, 30_000);
+      tracker.updateVaultBalance(POOL, 'A', 100_000_000_000n);
+
+      // 30,000 -> 31,000 (+3.3%) stays below the threshold
+      expect(tracker.updateVaultBalance(POOL, 'B', 15_500_000_000n)?.change).toBeNull();
+
+      // 30,000 -> 32,000 (+6.7%) crosses it
+      const change = tracker.updateVaultBalance(POOL, 'B', 16_000_000_000n)?.change;
+      expect(change).toMatchObject({
+        poolAddress: POOL,
+        tokenA: raydiumState.mintA,
+        tokenB: raydiumState.mintB,
+        oldTvl: '30000',
+        newTvl: '32000',
+        price: '160',
+      });
+      expect(change?.changePercentage).toBeCloseTo(6.6667, 3);
+
+      // The emitted TVL becomes the new baseline
+      expect(tracker.get(POOL)?.baselineTvl).toBe(32_000);
+    });
+
+    it('should ignore updates for untracked pools', () => {
+      const tracker = new PoolTracker(5);
+
+      expect(tracker.updateState(POOL, raydiumState)).toBeNull();
+      expect(tracker.updateVaultBalance(POOL, 'A', 1n)).toBeNull();
+    });
+  });
+});
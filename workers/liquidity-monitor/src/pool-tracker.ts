@@ -0,0 +1,195 @@
+/**
+ * Pool Tracker
+ * Keeps the latest decoded state of monitored pools and detects TVL changes
+ */
+
+import type { LiquidityChangedEvent } from '@solana-eda/types';
+import type { PoolState } from './pool-layouts.js';
+
+export type LiquidityChangeData = LiquidityChangedEvent['data'];
+
+export interface TrackedPool {
+  address: string;
+  state: PoolState;
+  decimalsA: number;
+  decimalsB: number;
+  vaultBalanceA?: bigint;
+  vaultBalanceB?: bigint;
+  /** TVL of the last emitted change, used as the reference for the threshold */
+  baselineTvl: number | null;
+}
+
+export interface PoolSnapshot {
+  address: string;
+  tokenA: string;
+  tokenB: string;
+  reserveA: number;
+  reserveB: number;
+  /** Price of token A in token B */
+  price: number;
+  /** Total value locked, denominated in token B */
+  tvl: number;
+}
+
+export interface PoolEvaluation {
+  snapshot: PoolSnapshot;
+  change: LiquidityChangeData | null;
+}
+
+/**
+ * Convert a raw token amount to a UI amount
+ */
+export function toUiAmount(raw: bigint, decimals: number): number {
+  return Number(raw) / Math.pow(10, decimals);
+}
+
+/**
+ * Compute the percentage change between two TVL values
+ */
+export function computeChangePercentage(oldTvl: number, newTvl: number): number {
+  if (oldTvl === 0) {
+    return newTvl === 0 ? 0 : 100;
+  }
+  return ((newTvl - oldTvl) / oldTvl) * 100;
+}
+
+/**
+ * Compute reserves, price and TVL for a pool with known vault balances
+ */
+export function computePoolSnapshot(pool: TrackedPool): PoolSnapshot | null {
+  if (pool.vaultBalanceA === undefined || pool.vaultBalanceB === undefined) {
+    return null;
+  }
+
+  const { state, decimalsA, decimalsB } = pool;
+  const rawReserveA = pool.vaultBalanceA - state.excludedA;
+  const rawReserveB = pool.vaultBalanceB - state.excludedB;
+  const reserveA = toUiAmount(rawReserveA > 0n ? rawReserveA : 0n, decimalsA);
+  const reserveB = toUiAmount(rawReserveB > 0n ? rawReserveB : 0n, decimalsB);
+
+  let price: number;
+  if (state.rawPrice !== null) {
+    price = state.rawPrice * Math.pow(10, decimalsA - decimalsB);
+  } else {
+    price = reserveA === 0 ? 0 : reserveB / reserveA;
+  }
+
+  return {
+    address: pool.address,
+    tokenA: state.mintA,
+    tokenB: state.mintB,
+    reserveA,
+    reserveB,
+    price,
+    tvl: reserveA * price + reserveB,
+  };
+}
+
+export class PoolTracker {
+  private pools: Map<string, TrackedPool> = new Map();
+
+  constructor(private thresholdPercent: number) {}
+
+  /**
+   * Start tracking a pool
+   */
+  track(
+    address: string,
+    state: PoolState,
+    decimals: { a: number; b: number },
+    baselineTvl: number | null = null,
+  ): TrackedPool {
+    const pool: TrackedPool = {
+      address,
+      state,
+      decimalsA: decimals.a,
+      decimalsB: decimals.b,
+      baselineTvl,
+    };
+    this.pools.set(address, pool);
+    return pool;
+  }
+
+  /**
+   * Stop tracking a pool
+   */
+  untrack(address: string): void {
+    this.pools.delete(address);
+  }
+
+  /**
+   * Get a tracked pool
+   */
+  get(address: string): TrackedPool | undefined {
+    return this.pools.get(address);
+  }
+
+  /**
+   * Get addresses of all tracked pools
+   */
+  addresses(): string[] {
+    return [...this.pools.keys()];
+  }
+
+  /**
+   * Apply a new pool account state
+   */
+  updateState(address: string, state: PoolState): PoolEvaluation | null {
+    const pool = this.pools.get(address);
+    if (!pool) {
+      return null;
+    }
+    pool.state = state;
+    return this.evaluate(pool);
+  }
+
+  /**
+   * Apply a new vault balance
+   */
+  updateVaultBalance(address: string, side: 'A' | 'B', amount: bigint): PoolEvaluation | null {
+    const pool = this.pools.get(address);
+    if (!pool) {
+      return null;
+    }
+    if (side === 'A') {
+      pool.vaultBalanceA = amount;
+    } else {
+      pool.vaultBalanceB = amount;
+    }
+    return this.evaluate(pool);
+  }
+
+  /**
+   * Compute the pool snapshot and a change when the threshold is crossed.
+   * The first snapshot of a pool without a baseline only sets the baseline.
+   */
+  private evaluate(pool: TrackedPool): PoolEvaluation | null {
+    const snapshot = computePoolSnapshot(pool);
+    if (!snapshot) {
+      return null;
+    }
+
+    if (pool.baselineTvl === null) {
+      pool.baselineTvl = snapshot.tvl;
+      return { snapshot, change: null };
+    }
+
+    const changePercentage = computeChangePercentage(pool.baselineTvl, snapshot.tvl);
+    if (Math.abs(changePercentage) < this.thresholdPercent) {
+      return { snapshot, change: null };
+    }
+
+    const change: LiquidityChangeData = {
+      poolAddress: pool.address,
+      tokenA: snapshot.tokenA,
+      tokenB: snapshot.tokenB,
+      oldTvl: pool.baselineTvl.toString(),
+      newTvl: snapshot.tvl.toString(),
+      price: snapshot.price.toString(),
+      changePercentage,
+    };
+    pool.baselineTvl = snapshot.tvl;
+
+    return { snapshot, change };
+  }
+}
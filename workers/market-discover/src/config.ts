@@ -20,7 +20,7 @@ interface Config {
   // Deduplication window (ms)
   deduplicationWindowMs: number;
 
-  // Polling interval for market discovery (ms)
+  // Status and checkpoint interval, and polling interval while subscriptions are down (ms)
   discoveryIntervalMs: number;
 
   // OpenBook program IDs
@@ -0,0 +1,208 @@
+import { describe, it, expect } from '@jest/globals';
+import type { MarketState } from '@solana-eda/solana-client';
+import { createLogger } from '@solana-eda/monitoring';
+import { MarketDiscoverer, type DiscoveryMetrics, type MarketSource } from './discovery.js';
+
+function market(address: string, slot = 0): MarketState {
+  return { address, slot } as MarketState;
+}
+
+interface FakeSource extends MarketSource {
+  active: boolean;
+  scans: number;
+}
+
+interface Harness {
+  discoverer: MarketDiscoverer;
+  sources: FakeSource[];
+  metrics: DiscoveryMetrics;
+  calls: string[];
+  stored: string[];
+  /** Checkpoint slots saved, in order */
+  saved: number[];
+  /** Markets whose next store fails */
+  failing: Set<string>;
+}
+
+/**
+ * One source per scan result, each scan serves the same markets at the given slot
+ */
+function createHarness(
+  scans: { slot: number; markets: MarketState[] }[],
+  options: { checkpoint?: number; scanError?: Error } = {},
+): Harness {
+  const calls: string[] = [];
+  const stored: string[] = [];
+  const saved: number[] = [];
+  const failing = new Set<string>();
+  const metrics: DiscoveryMetrics = { errors: 0, gapFills: 0, checkpointSlot: null };
+
+  const sources = scans.map((scan, index) => {
+    const source: FakeSource = {
+      active: false,
+      scans: 0,
+      scanMarkets: async () => {
+        calls.push(`scan ${index}`);
+        source.scans++;
+        if (options.scanError) throw options.scanError;
+        return scan;
+      },
+      startMonitoring: async () => {
+        calls.push(`subscribe ${index}`);
+        source.active = true;
+      },
+      stopMonitoring: async () => {
+        source.active = false;
+      },
+      isActive: () => source.active,
+    };
+    return source;
+  });
+
+  const discoverer = new MarketDiscoverer({
+    sources,
+    checkpoints: {
+      load: async () => options.checkpoint ?? null,
+      save: async (slot) => {
+        saved.push(slot);
+      },
+    },
+    storeMarket: async ({ address }) => {
+      if (failing.delete(address)) throw new Error('database unavailable');
+      stored.push(address);
+    },
+    metrics,
+    logger: createLogger('market-discover', { write: () => {} }),
+  });
+
+  return { discoverer, sources, metrics, calls, stored, saved, failing };
+}
+
+describe('MarketDiscoverer', () => {
+  describe('backfill', () => {
+    it('should subscribe before scanning and checkpoint the oldest scanned slot', async () => {
+      const harness = createHarness([
+        { slot: 120, markets: [market('a'), market('b')] },
+        { slot: 110, markets: [market('c')] },
+      ]);
+
+      await harness.discoverer.backfill();
+
+      expect(harness.calls).toEqual(['subscribe 0', 'subscribe 1', 'scan 0', 'scan 1']);
+      expect(harness.stored).toEqual(['a', 'b', 'c']);
+      expect(harness.saved).toEqual([110]);
+      expect(harness.metrics.checkpointSlot).toBe(110);
+    });
+
+    it('should store the other markets but hold the checkpoint when one fails', async () => {
+      const harness = createHarness([{ slot: 120, markets: [market('a'), market('b')] }]);
+      harness.failing.add('a');
+
+      await harness.discoverer.backfill();
+
+      expect(harness.stored).toEqual(['b']);
+      expect(harness.saved).toEqual([]);
+      expect(harness.metrics.errors).toBe(1);
+    });
+
+    it('should never move the checkpoint back', async () => {
+      const harness = createHarness([{ slot: 90, markets: [market('a')] }], { checkpoint: 100 });
+
+      await harness.discoverer.loadCheckpoint();
+      await harness.discoverer.backfill();
+
+      expect(harness.saved).toEqual([]);
+      expect(harness.metrics.checkpointSlot).toBe(100);
+    });
+  });
+
+  describe('maintain', () => {
+    it('should checkpoint the latest streamed slot while streaming', async () => {
+      const harness = createHarness([{ slot: 120, markets: [market('a')] }]);
+      await harness.discoverer.backfill();
+
+      await harness.discoverer.handleStreamedMarket(market('b', 130));
+      await harness.discoverer.maintain();
+
+      expect(harness.stored).toEqual(['a', 'b']);
+      expect(harness.saved).toEqual([120, 130]);
+      expect(harness.sources[0]!.scans).toBe(1);
+    });
+
+    it('should rescan instead of checkpointing after a streamed market failed to store', async () => {
+      const scan = { slot: 140, markets: [market('a')] };
+      const harness = createHarness([scan]);
+      await harness.discoverer.backfill();
+      harness.failing.add('b');
+      await harness.discoverer.handleStreamedMarket(market('b', 150));
+
+      // The gap-fill scan finds the missed market, the checkpoint waits for the next interval
+      scan.markets.push(market('b'));
+      await harness.discoverer.maintain();
+      expect(harness.metrics.gapFills).toBe(1);
+      expect(harness.stored).toEqual(['a', 'a', 'b']);
+      expect(harness.saved).toEqual([140]);
+
+      await harness.discoverer.maintain();
+      expect(harness.metrics.gapFills).toBe(1);
+      expect(harness.saved).toEqual([140, 150]);
+    });
+
+    it('should poll and resubscribe while the subscriptions are down', async () => {
+      const harness = createHarness([{ slot: 120, markets: [market('a')] }]);
+      await harness.discoverer.backfill();
+      harness.sources[0]!.active = false;
+      harness.calls.length = 0;
+
+      await harness.discoverer.maintain();
+
+      expect(harness.calls).toEqual(['scan 0', 'subscribe 0']);
+      expect(harness.discoverer.isStreaming()).toBe(true);
+    });
+  });
+
+  describe('fillGap', () => {
+    it('should share one scan between concurrent reconnects', async () => {
+      const harness = createHarness([{ slot: 120, markets: [market('a')] }]);
+
+      await Promise.all([harness.discoverer.fillGap(), harness.discoverer.fillGap()]);
+
+      expect(harness.sources[0]!.scans).toBe(1);
+      expect(harness.metrics.gapFills).toBe(1);
+      expect(harness.saved).toEqual([120]);
+    });
+
+    it('should rescan on the next interval when the gap-fill scan fails', async () => {
+      const harness = createHarness([{ slot: 120, markets: [market('a')] }], {
+        scanError: new Error('RPC unavailable'),
+      });
+      harness.sources[0]!.active = true;
+
+      await harness.discoverer.fillGap();
+      await harness.discoverer.maintain();
+
+      expect(harness.metrics.gapFills).toBe(2);
+      expect(harness.metrics.errors).toBe(2);
+      expect(harness.saved).toEqual([]);
+    });
+  });
+
+  describe('stop', () => {
+    it('should save the latest slot unless a market was missed', async () => {
+      const stored = createHarness([{ slot: 120, markets: [market('a')] }]);
+      await stored.discoverer.backfill();
+      await stored.discoverer.handleStreamedMarket(market('b', 130));
+      await stored.discoverer.stop();
+
+      const missed = createHarness([{ slot: 120, markets: [market('a')] }]);
+      await missed.discoverer.backfill();
+      missed.failing.add('b');
+      await missed.discoverer.handleStreamedMarket(market('b', 130));
+      await missed.discoverer.stop();
+
+      expect(stored.saved).toEqual([120, 130]);
+      expect(missed.saved).toEqual([120]);
+      expect(missed.discoverer.isStreaming()).toBe(false);
+    });
+  });
+});
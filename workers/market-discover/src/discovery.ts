@@ -0,0 +1,214 @@
+/**
+ * Market Discovery
+ * Backfill, streaming, gap-fill and checkpoint flow of the market-discover worker
+ *
+ * Scans all markets once at startup, then follows market account changes through
+ * program subscriptions. A full scan only runs again to fill the gap after a WebSocket
+ * reconnect or a market that failed to store, or on every interval while the subscriptions
+ * are down.
+ */
+
+import type { MarketScanResult, MarketState } from '@solana-eda/solana-client';
+import type { Logger } from '@solana-eda/monitoring';
+import { retryWithBackoff, CircuitBreaker } from '@solana-eda/error-handling';
+
+export type DiscoveryMode = 'backfill' | 'gap-fill' | 'poll';
+
+/**
+ * Subset of the OpenBookClient used by discovery.
+ * An OpenBookClient satisfies it directly; tests provide fixtures instead.
+ */
+export interface MarketSource {
+  scanMarkets(): Promise<MarketScanResult>;
+  startMonitoring(): Promise<void>;
+  stopMonitoring(): Promise<void>;
+  isActive(): boolean;
+}
+
+/**
+ * Where the slot up to which every market has been stored is kept
+ */
+export interface CheckpointStore {
+  load(): Promise<number | null>;
+  save(slot: number): Promise<void>;
+}
+
+/**
+ * Discovery counters, shared with the worker metrics
+ */
+export interface DiscoveryMetrics {
+  errors: number;
+  gapFills: number;
+  checkpointSlot: number | null;
+}
+
+export interface MarketDiscovererOptions {
+  /** One per quote mint so the RPC node filters on it */
+  sources: MarketSource[];
+  checkpoints: CheckpointStore;
+  /** Store a market and its event, throws when it could not be stored */
+  storeMarket: (market: MarketState) => Promise<void>;
+  metrics: DiscoveryMetrics;
+  logger: Logger;
+}
+
+export class MarketDiscoverer {
+  /** Highest slot seen, persisted as the checkpoint on every interval */
+  private latestSlot = 0;
+  /** A market failed to store since the last full scan began, the checkpoint waits for one */
+  private missedMarkets = false;
+  private gapFill: Promise<void> | null = null;
+  private circuitBreaker = new CircuitBreaker({});
+
+  constructor(private options: MarketDiscovererOptions) {}
+
+  async loadCheckpoint(): Promise<void> {
+    const slot = await this.options.checkpoints.load();
+    if (slot !== null) {
+      this.options.metrics.checkpointSlot = slot;
+      this.latestSlot = slot;
+    }
+  }
+
+  /**
+   * Subscribe, then scan every market
+   * Subscribing first means no market created during the scan is missed.
+   */
+  async backfill(): Promise<void> {
+    await this.startMonitoring();
+    await this.runDiscovery('backfill');
+  }
+
+  /**
+   * Store a market streamed by a program subscription
+   */
+  async handleStreamedMarket(market: MarketState): Promise<void> {
+    this.latestSlot = Math.max(this.latestSlot, market.slot);
+    // Already logged and counted, the next interval rescans
+    await this.options.storeMarket(market).catch(() => {
+      this.missedMarkets = true;
+    });
+  }
+
+  /**
+   * Run on every interval: persist the checkpoint, rescan after a market failed to store,
+   * and poll while the subscriptions are down
+   */
+  async maintain(): Promise<void> {
+    const { logger, metrics } = this.options;
+
+    if (this.isStreaming() && this.missedMarkets) {
+      await this.fillGap();
+    } else if (this.isStreaming()) {
+      await this.saveCheckpoint(this.latestSlot).catch((error) => {
+        logger.warn('Failed to save checkpoint', { error });
+      });
+    } else {
+      await this.runDiscovery('poll');
+      await this.startMonitoring().catch((error) => {
+        metrics.errors++;
+        logger.warn('Failed to restart subscriptions', { error });
+      });
+    }
+  }
+
+  /**
+   * Rescan after a WebSocket reconnect, concurrent requests share one scan
+   */
+  fillGap(): Promise<void> {
+    if (!this.gapFill) {
+      this.options.metrics.gapFills++;
+      this.gapFill = this.runDiscovery('gap-fill').finally(() => {
+        this.gapFill = null;
+      });
+    }
+    return this.gapFill;
+  }
+
+  /**
+   * Stop the subscriptions, keeping the checkpoint back when a market was missed
+   */
+  async stop(): Promise<void> {
+    await Promise.all(this.options.sources.map((source) => source.stopMonitoring()));
+    if (!this.missedMarkets) {
+      await this.saveCheckpoint(this.latestSlot);
+    }
+  }
+
+  isStreaming(): boolean {
+    return this.options.sources.every((source) => source.isActive());
+  }
+
+  /**
+   * Scan every market of the configured quote mints
+   * The checkpoint moves to the oldest slot the scans were served at once every scan
+   * succeeded and every market was stored, otherwise the next interval scans again.
+   */
+  private async runDiscovery(mode: DiscoveryMode): Promise<void> {
+    const { logger, metrics } = this.options;
+    logger.info(`Running market ${mode}`, { checkpointSlot: metrics.checkpointSlot });
+    this.missedMarkets = false;
+
+    try {
+      await this.circuitBreaker.execute(async () => {
+        await retryWithBackoff(
+          async () => {
+            let scannedSlot = Infinity;
+            let failed = 0;
+            for (const source of this.options.sources) {
+              const { slot, markets } = await source.scanMarkets();
+              scannedSlot = Math.min(scannedSlot, slot);
+              for (const market of markets) {
+                // Already logged and counted, one bad market must not stop the others
+                await this.options.storeMarket(market).catch(() => {
+                  failed++;
+                });
+              }
+            }
+            if (failed > 0) {
+              throw new Error(`${failed} discovered markets could not be stored`);
+            }
+            if (Number.isFinite(scannedSlot)) {
+              this.latestSlot = Math.max(this.latestSlot, scannedSlot);
+              await this.saveCheckpoint(scannedSlot);
+            }
+          },
+          {
+            maxAttempts: 3,
+            baseDelay: 1000,
+            onRetry: (attempt: number, error: Error, delay: number) => {
+              logger.warn(
+                `Discovery attempt ${attempt} failed, retrying in ${delay.toFixed(0)}ms...`,
+                { error: error.message },
+              );
+            },
+          },
+        );
+      });
+    } catch (error) {
+      metrics.errors++;
+      this.missedMarkets = true;
+      logger.error(`Market ${mode} failed`, { error });
+    }
+  }
+
+  /**
+   * Start the program subscriptions that are not running
+   */
+  private async startMonitoring(): Promise<void> {
+    for (const source of this.options.sources) {
+      if (!source.isActive()) {
+        await source.startMonitoring();
+      }
+    }
+  }
+
+  private async saveCheckpoint(slot: number): Promise<void> {
+    const { metrics } = this.options;
+    if (metrics.checkpointSlot !== null && slot <= metrics.checkpointSlot) {
+      return;
+    }
+    await this.options.checkpoints.save(slot);
+    metrics.checkpointSlot = slot;
+  }
+}
@@ -1,141 +1,211 @@
 /**
  * Market Discover Worker
  * Discovers new markets on OpenBook and other DEXes on Solana
- * Publishes MARKET_DISCOVERED events to BullMQ
+ * Writes MARKET_DISCOVERED events to the outbox with their market records
+ *
+ * Backfill, streaming and gap-fill are driven by the MarketDiscoverer in discovery.ts.
  */
 
 import Redis from 'ioredis';
-import { PrismaClient } from '@solana-eda/database';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { PrismaClient, writeWithOutbox } from '@solana-eda/database';
 import {
   createMarketDiscoveredEvent,
   EventDeduplicator,
 } from '@solana-eda/events';
 import { addEventToQueue } from '@solana-eda/queue';
 import type { MarketDiscoveredEvent } from '@solana-eda/types';
-import { OpenBookClient, type OpenBookMarketState } from './openbook-client.js';
+import { createLogger } from '@solana-eda/monitoring';
+import { OpenBookClient, type MarketState } from '@solana-eda/solana-client';
 import { config } from './config.js';
-import { retryWithBackoff, CircuitBreaker } from '@solana-eda/error-handling';
+import { MarketDiscoverer, type DiscoveryMetrics } from './discovery.js';
 
-interface MarketDiscoverMetrics {
+const logger = createLogger(config.workerName);
+
+/**
+ * Redis key holding the slot up to which every market has been stored
+ *
+ * Informational only, for operators and the status metrics: a scan reads every market
+ * account of the program, it cannot be limited to the slots after the checkpoint.
+ */
+const CHECKPOINT_KEY = `${config.workerName}:checkpoint`;
+
+interface MarketDiscoverMetrics extends DiscoveryMetrics {
   marketsDiscovered: number;
   duplicatesSkipped: number;
-  errors: number;
   startTime: Date;
 }
 
+/**
+ * Market record details, integers as strings so they fit in JSON
+ */
+function toMarketData(market: MarketState) {
+  return {
+    name: market.name,
+    baseVault: market.baseVault,
+    quoteVault: market.quoteVault,
+    baseDecimals: market.baseDecimals,
+    quoteDecimals: market.quoteDecimals,
+    baseLotSize: market.baseLotSize.toString(),
+    quoteLotSize: market.quoteLotSize.toString(),
+    minOrderSize: market.minOrderSize.toString(),
+    tickSize: market.tickSize.toString(),
+    makerFee: market.makerFee.toString(),
+    takerFee: market.takerFee.toString(),
+    oracleA: market.oracleA,
+    oracleB: market.oracleB,
+  };
+}
+
 class MarketDiscoverWorker {
   private prisma: PrismaClient;
   private redis: Redis;
-  private openBookClient: OpenBookClient;
+  private discoverer: MarketDiscoverer;
   private deduplicator: EventDeduplicator;
-  private circuitBreaker: CircuitBreaker;
   private metrics: MarketDiscoverMetrics;
   private running = false;
   private pollTimer: NodeJS.Timeout | null = null;
+  /** Markets already stored, market accounts change on every trade */
+  private knownMarkets = new Set<string>();
 
   constructor() {
     this.prisma = new (PrismaClient as any)();
     this.redis = new Redis(config.redisUrl);
-    this.openBookClient = new OpenBookClient(config.solanaRpcUrl);
+    const connection = new Connection(config.solanaRpcUrl, {
+      commitment: 'confirmed',
+      wsEndpoint: config.solanaWsUrl,
+    });
+    // One subscription per quote mint so the RPC node filters on it
+    const openBookClients = config.quoteMints.map(
+      (quoteMint) =>
+        new OpenBookClient({
+          connection,
+          programId: new PublicKey(config.openbookV2ProgramId),
+          filters: { quoteMint },
+          onMarketDiscovered: (market) => this.discoverer.handleStreamedMarket(market),
+          onReconnect: () => this.discoverer.fillGap(),
+          onError: (error) => {
+            logger.error('OpenBook client error', { error });
+          },
+        }),
+    );
     this.deduplicator = new EventDeduplicator({
       redis: this.redis,
       windowMs: config.deduplicationWindowMs,
       enableMetrics: true,
     });
-    this.circuitBreaker = new CircuitBreaker({});
     this.metrics = {
       marketsDiscovered: 0,
       duplicatesSkipped: 0,
       errors: 0,
+      gapFills: 0,
+      checkpointSlot: null,
       startTime: new Date(),
     };
+    this.discoverer = new MarketDiscoverer({
+      sources: openBookClients,
+      checkpoints: {
+        load: async () => {
+          const value = await this.redis.get(CHECKPOINT_KEY);
+          return value ? (JSON.parse(value) as { slot: number }).slot : null;
+        },
+        save: async (slot) => {
+          await this.redis.set(
+            CHECKPOINT_KEY,
+            JSON.stringify({ slot, updatedAt: new Date().toISOString() }),
+          );
+        },
+      },
+      storeMarket: (market) => this.handleMarketDiscovered(market),
+      metrics: this.metrics,
+      logger,
+    });
   }
 
   /**
    * Handle discovered market
    */
-  private async handleMarketDiscovered(marketState: OpenBookMarketState): Promise<void> {
+  private async handleMarketDiscovered(market: MarketState): Promise<void> {
+    if (this.knownMarkets.has(market.address)) {
+      return;
+    }
+
     try {
       // Check if market already exists in database
       const existing = await this.prisma.marketRecord.findUnique({
-        where: { address: marketState.marketKey },
+        where: { address: market.address },
       });
 
       if (existing) {
+        this.knownMarkets.add(market.address);
         this.metrics.duplicatesSkipped++;
         return;
       }
 
       // Check deduplication
       const event = createMarketDiscoveredEvent({
-        marketAddress: marketState.marketKey,
-        baseMint: marketState.baseMint,
-        quoteMint: marketState.quoteMint,
+        marketAddress: market.address,
+        baseMint: market.baseMint,
+        quoteMint: market.quoteMint,
         dexType: 'OPENBOOK',
         discoveredAt: new Date().toISOString(),
         source: config.workerName,
-        marketData: marketState.marketData,
+        marketData: {
+          name: market.name,
+          minOrderSize: market.minOrderSize.toString(),
+          tickSize: market.tickSize.toString(),
+        },
       });
 
       const deduplicationResult = await this.deduplicator.check(event);
       if (deduplicationResult.isDuplicate) {
         this.metrics.duplicatesSkipped++;
-        console.log(`Duplicate market discovered: ${marketState.marketKey}`);
+        logger.info(`Duplicate market discovered: ${market.address}`);
         return;
       }
 
-      // Add event to queue
-      await addEventToQueue(event);
+      // Store the market and its event together
+      await writeWithOutbox(
+        this.prisma,
+        (tx) =>
+          tx.marketRecord.create({
+            data: {
+              address: market.address,
+              baseMint: market.baseMint,
+              quoteMint: market.quoteMint,
+              dexType: 'OPENBOOK',
+              discoveredAt: new Date(),
+              status: 'DISCOVERED',
+              marketData: toMarketData(market),
+            },
+          }),
+        [event],
+      );
+      this.knownMarkets.add(market.address);
       this.metrics.marketsDiscovered++;
-      console.log(`Market discovered: ${marketState.marketKey} (${marketState.baseMint}/${marketState.quoteMint})`);
-
-      // Store in database
-      await this.prisma.marketRecord.create({
-        data: {
-          address: marketState.marketKey,
-          baseMint: marketState.baseMint,
-          quoteMint: marketState.quoteMint,
-          dexType: 'OPENBOOK',
-          discoveredAt: new Date(),
-          status: 'DISCOVERED',
-          marketData: marketState.marketData,
-        },
+      logger.info('Market discovered', {
+        market: market.address,
+        name: market.name,
+        baseMint: market.baseMint,
+        quoteMint: market.quoteMint,
       });
-
     } catch (error) {
       this.metrics.errors++;
-      console.error(`Error handling discovered market ${marketState.marketKey}:`, error);
+      logger.error(`Error handling discovered market ${market.address}`, { error });
       throw error;
     }
   }
 
   /**
-   * Run market discovery
+   * Remember the markets already stored so account updates for them skip the database
    */
-  private async runDiscovery(): Promise<void> {
-    try {
-      await this.circuitBreaker.execute(async () => {
-        await retryWithBackoff(
-          async () => {
-            await this.openBookClient.discoverMarkets(
-              config.quoteMints,
-              async (market) => {
-                await this.handleMarketDiscovered(market);
-              },
-            );
-          },
-          {
-            maxAttempts: 3,
-            baseDelay: 1000,
-            onRetry: (attempt: number, error: Error, delay: number) => {
-              console.log(`Discovery attempt ${attempt} failed, retrying in ${delay.toFixed(0)}ms...`, error.message);
-            },
-          },
-        );
-      });
-    } catch (error) {
-      this.metrics.errors++;
-      console.error('Market discovery failed:', error);
+  private async loadKnownMarkets(): Promise<void> {
+    const markets = await this.prisma.marketRecord.findMany({
+      where: { dexType: 'OPENBOOK' },
+      select: { address: true },
+    });
+    for (const { address } of markets) {
+      this.knownMarkets.add(address);
     }
   }
 
@@ -149,6 +219,7 @@ class MarketDiscoverWorker {
       type: 'WORKER_STATUS' as const,
       timestamp: new Date().toISOString(),
       id: `${config.workerName}-status-${Date.now()}`,
+      schemaVersion: 1,
       data: {
         workerName: config.workerName,
         status,
@@ -169,33 +240,41 @@ class MarketDiscoverWorker {
    */
   async start(): Promise<void> {
     if (this.running) {
-      console.log('Worker is already running');
+      logger.info('Worker is already running');
       return;
     }
 
     this.running = true;
     this.metrics.startTime = new Date();
 
-    console.log(`Starting ${config.workerName} worker...`);
-    console.log(`RPC URL: ${config.solanaRpcUrl}`);
-    console.log(`Quote mints: ${config.quoteMints.join(', ')}`);
-    console.log(`Discovery interval: ${config.discoveryIntervalMs}ms`);
+    logger.info(`Starting ${config.workerName} worker...`);
+    logger.info(`RPC URL: ${config.solanaRpcUrl}`);
+    logger.info(`Quote mints: ${config.quoteMints.join(', ')}`);
+    logger.info(`Fallback polling interval: ${config.discoveryIntervalMs}ms`);
 
     // Publish initial status
     await this.publishStatus('RUNNING');
 
-    // Run initial discovery
-    await this.runDiscovery();
+    await this.discoverer.loadCheckpoint();
+    await this.loadKnownMarkets();
+    logger.info('Loaded discovery state', {
+      checkpointSlot: this.metrics.checkpointSlot,
+      knownMarkets: this.knownMarkets.size,
+    });
+
+    await this.discoverer.backfill();
 
-    // Set up polling interval
     this.pollTimer = setInterval(async () => {
-      if (this.running) {
-        await this.runDiscovery();
-        await this.publishStatus('RUNNING');
+      if (!this.running) {
+        return;
       }
+      await this.discoverer.maintain();
+      await this.publishStatus('RUNNING').catch((error) => {
+        logger.warn('Failed to publish status', { error });
+      });
     }, config.discoveryIntervalMs);
 
-    console.log(`${config.workerName} worker started`);
+    logger.info(`${config.workerName} worker started`);
   }
 
   /**
@@ -203,11 +282,11 @@ class MarketDiscoverWorker {
    */
   async stop(): Promise<void> {
     if (!this.running) {
-      console.log('Worker is not running');
+      logger.info('Worker is not running');
       return;
     }
 
-    console.log(`Stopping ${config.workerName} worker...`);
+    logger.info(`Stopping ${config.workerName} worker...`);
     this.running = false;
 
     if (this.pollTimer) {
@@ -215,11 +294,11 @@ class MarketDiscoverWorker {
       this.pollTimer = null;
     }
 
+    await this.discoverer.stop();
     await this.publishStatus('STOPPED');
     await this.redis.quit();
-    await this.openBookClient.close();
 
-    console.log(`${config.workerName} worker stopped`);
+    logger.info(`${config.workerName} worker stopped`);
   }
 
   /**
@@ -248,7 +327,7 @@ async function main(): Promise<void> {
 
   // Handle graceful shutdown
   const shutdown = async (signal: string): Promise<void> => {
-    console.log(`Received ${signal}, shutting down gracefully...`);
+    logger.info(`Received ${signal}, shutting down gracefully...`);
     await worker.stop();
     process.exit(0);
   };
@@ -259,12 +338,12 @@ async function main(): Promise<void> {
 
   // Handle uncaught errors
   process.on('uncaughtException', (error) => {
-    console.error('Uncaught exception:', error);
+    logger.error('Uncaught exception', { error });
     shutdown('UNCAUGHT_EXCEPTION').catch(() => process.exit(1));
   });
 
-  process.on('unhandledRejection', (reason, promise) => {
-    console.error('Unhandled rejection at:', promise, 'reason:', reason);
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', { error: reason });
     shutdown('UNHANDLED_REJECTION').catch(() => process.exit(1));
   });
 
@@ -272,13 +351,13 @@ async function main(): Promise<void> {
   await worker.start();
 
   // Keep the process alive
-  console.log('Worker is running. Press Ctrl+C to stop.');
+  logger.info('Worker is running. Press Ctrl+C to stop.');
 }
 
 // Run if this is the main module
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch((error) => {
-    console.error('Failed to start worker:', error);
+    logger.error('Failed to start worker', { error });
     process.exit(1);
   });
 }
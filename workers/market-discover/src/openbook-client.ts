@@ -1,165 +0,0 @@
-/**
- * OpenBook Market Discovery Client
- * Discovers markets on OpenBook DEX on Solana
- */
-
-import { Connection, PublicKey, AccountInfo } from '@solana/web3.js';
-import { config } from './config.js';
-
-/**
- * OpenBook market state structure
- */
-export interface OpenBookMarketState {
-  marketKey: string;
-  baseMint: string;
-  quoteMint: string;
-  marketData: {
-    name?: string;
-    minOrderSize?: string;
-    tickSize?: string;
-  };
-}
-
-/**
- * OpenBook Market Discovery Client
- */
-export class OpenBookClient {
-  private connection: Connection;
-  private openbookProgramId: PublicKey;
-  private openbookV2ProgramId: PublicKey;
-
-  constructor(rpcUrl: string) {
-    this.connection = new Connection(rpcUrl, {
-      commitment: 'confirmed',
-      wsEndpoint: config.solanaWsUrl,
-    });
-    this.openbookProgramId = new PublicKey(config.openbookProgramId);
-    this.openbookV2ProgramId = new PublicKey(config.openbookV2ProgramId);
-  }
-
-  /**
-   * Get all markets owned by OpenBook program
-   */
-  async discoverMarkets(
-    quoteMints: string[],
-    onMarketDiscovered: (market: OpenBookMarketState) => void | Promise<void>,
-  ): Promise<void> {
-    // For now, we'll use program account filtering
-    // In a production implementation, you would:
-    // 1. Use getProgramAccounts to find all market accounts
-    // 2. Parse the market account data
-    // 3. Filter by quote mints
-    // 4. Call onMarketDiscovered for each new market
-
-    try {
-      // Get program accounts for OpenBook V2
-      const accounts = await this.connection.getProgramAccounts(
-        this.openbookV2ProgramId,
-        {
-          commitment: 'confirmed',
-          filters: [
-            // Filter for market accounts (this is a placeholder)
-            // Real implementation would use actual market discriminator
-            { dataSize: 1000 }, // Market accounts are typically large
-          ],
-        },
-      );
-
-      for (const account of accounts) {
-        try {
-          const marketState = this.parseMarketAccount(
-            account.pubkey.toBase58(),
-            account.account,
-          );
-          if (marketState && quoteMints.includes(marketState.quoteMint)) {
-            await onMarketDiscovered(marketState);
-          }
-        } catch (error) {
-          // Skip invalid accounts
-          continue;
-        }
-      }
-    } catch (error) {
-      console.error('Error discovering markets:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Parse a market account buffer
-   * This is a simplified implementation
-   */
-  private parseMarketAccount(
-    marketKey: string,
-    accountInfo: AccountInfo<Buffer>,
-  ): OpenBookMarketState | null {
-    try {
-      const data = accountInfo.data;
-
-      // This is a placeholder implementation
-      // Real implementation would parse the actual OpenBook market account structure
-      // which includes:
-      // - discriminator (8 bytes)
-      // - base vault (32 bytes)
-      // - quote vault (32 bytes)
-      // - base mint (32 bytes)
-      // - quote mint (32 bytes)
-      // - etc.
-
-      // For now, return a mock structure
-      // In production, you'd decode the borsh-serialized data
-      return {
-        marketKey,
-        baseMint: '', // Would parse from buffer
-        quoteMint: '', // Would parse from buffer
-        marketData: {
-          name: `Market-${marketKey.slice(0, 8)}`,
-          minOrderSize: '0.001',
-          tickSize: '0.0001',
-        },
-      };
-    } catch (error) {
-      return null;
-    }
-  }
-
-  /**
-   * Get market details for a specific market address
-   */
-  async getMarketDetails(marketAddress: string): Promise<OpenBookMarketState | null> {
-    try {
-      const accountInfo = await this.connection.getAccountInfo(
-        new PublicKey(marketAddress),
-      );
-      if (!accountInfo) {
-        return null;
-      }
-      return this.parseMarketAccount(marketAddress, accountInfo);
-    } catch (error) {
-      console.error(`Error fetching market ${marketAddress}:`, error);
-      return null;
-    }
-  }
-
-  /**
-   * Check if a market is valid and active
-   */
-  async isMarketActive(marketAddress: string): Promise<boolean> {
-    try {
-      const accountInfo = await this.connection.getAccountInfo(
-        new PublicKey(marketAddress),
-      );
-      return accountInfo !== null;
-    } catch (error) {
-      return false;
-    }
-  }
-
-  /**
-   * Close the connection
-   */
-  async close(): Promise<void> {
-    // Connection doesn't need explicit closing in web3.js v1
-    // This is a no-op but kept for API compatibility
-  }
-}
@@ -0,0 +1,54 @@
+/**
+ * Configuration for the outbox-relay worker
+ * Loads environment variables and provides typed configuration
+ */
+
+interface Config {
+  // Redis configuration
+  redisUrl: string;
+
+  // Database configuration
+  databaseUrl: string;
+
+  // Worker identification
+  workerName: string;
+
+  // Polling interval for pending outbox events (ms)
+  pollIntervalMs: number;
+
+  // Pending events relayed per poll
+  batchSize: number;
+
+  // First retry delay after a Redis or queue error, doubled up to retryMaxMs (ms)
+  retryBaseMs: number;
+  retryMaxMs: number;
+
+  // How long sent events are kept before cleanup (ms)
+  retentionMs: number;
+}
+
+function getEnvVar(name: string, defaultValue?: string): string {
+  const value = process.env[name];
+  if (value === undefined && defaultValue === undefined) {
+    throw new Error(`Required environment variable ${name} is not set`);
+  }
+  return value ?? defaultValue ?? '';
+}
+
+export function loadConfig(): Config {
+  return {
+    redisUrl: getEnvVar('REDIS_URL', 'redis://localhost:6379'),
+    databaseUrl: getEnvVar('DATABASE_URL'),
+    workerName: getEnvVar('WORKER_NAME', 'outbox-relay'),
+    pollIntervalMs: parseInt(getEnvVar('OUTBOX_POLL_INTERVAL_MS', '1000'), 10),
+    batchSize: parseInt(getEnvVar('OUTBOX_BATCH_SIZE', '100'), 10),
+    retryBaseMs: parseInt(getEnvVar('OUTBOX_RETRY_BASE_MS', '1000'), 10),
+    retryMaxMs: parseInt(getEnvVar('OUTBOX_RETRY_MAX_MS', '60000'), 10),
+    retentionMs: parseInt(
+      getEnvVar('OUTBOX_RETENTION_MS', '86400000'), // 24 hours
+      10,
+    ),
+  };
+}
+
+export const config = loadConfig();
@@ -0,0 +1,256 @@
+/**
+ * Outbox Relay Worker
+ * Publishes events that workers wrote to the outbox alongside their records
+ * to BullMQ and Redis pub/sub
+ */
+
+import Redis from 'ioredis';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { PrismaClient, OutboxRepository } from '@solana-eda/database';
+import { WorkerPublisher } from '@solana-eda/events';
+import { addEventToQueue, getProducer } from '@solana-eda/queue';
+import { createLogger } from '@solana-eda/monitoring';
+import { OutboxRelay } from './relay.js';
+import { config } from './config.js';
+
+const logger = createLogger(config.workerName);
+
+interface OutboxRelayMetrics {
+  eventsRelayed: number;
+  relayFailures: number;
+  errors: number;
+  startTime: Date;
+  lastEventAt?: Date;
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+class OutboxRelayWorker {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private outboxRepository: OutboxRepository;
+  private relay: OutboxRelay;
+  private publisher: WorkerPublisher;
+  private metrics: OutboxRelayMetrics;
+  private running = false;
+  private relaying = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient({
+      adapter: new PrismaPg({ connectionString: config.databaseUrl }),
+    });
+    this.redis = new Redis(config.redisUrl);
+    this.outboxRepository = new OutboxRepository(this.prisma);
+    this.publisher = WorkerPublisher.create({
+      redis: this.redis,
+      workerName: config.workerName,
+    });
+    this.relay = new OutboxRelay(
+      {
+        outbox: this.outboxRepository,
+        enqueue: async (event) => {
+          await addEventToQueue(event);
+        },
+        publish: (channel, event) =>
+          this.publisher.publish(channel, event as unknown as Record<string, unknown>),
+      },
+      {
+        batchSize: config.batchSize,
+        retryBaseMs: config.retryBaseMs,
+        retryMaxMs: config.retryMaxMs,
+      },
+    );
+    this.metrics = {
+      eventsRelayed: 0,
+      relayFailures: 0,
+      errors: 0,
+      startTime: new Date(),
+    };
+  }
+
+  /**
+   * Relay pending events until a batch comes back short or the relay pauses
+   */
+  private async runRelay(): Promise<void> {
+    if (this.relaying) {
+      return;
+    }
+
+    this.relaying = true;
+    try {
+      let result;
+      do {
+        result = await this.relay.relayPending();
+        this.metrics.eventsRelayed += result.sent;
+        this.metrics.relayFailures += result.failed;
+        if (result.sent > 0) {
+          this.metrics.lastEventAt = new Date();
+        }
+        if (result.failed > 0) {
+          logger.error(`Marked ${result.failed} unroutable outbox events FAILED`);
+        }
+      } while (
+        this.running &&
+        result.retryInMs === undefined &&
+        result.sent + result.failed === config.batchSize
+      );
+    } catch (error) {
+      this.metrics.errors++;
+      logger.error('Outbox relay failed', { error });
+    } finally {
+      this.relaying = false;
+    }
+  }
+
+  /**
+   * Delete sent events past the retention period
+   */
+  private async cleanup(): Promise<void> {
+    try {
+      const deleted = await this.outboxRepository.deleteSentBefore(
+        new Date(Date.now() - config.retentionMs),
+      );
+      if (deleted > 0) {
+        logger.info(`Deleted ${deleted} sent outbox events`);
+      }
+    } catch (error) {
+      this.metrics.errors++;
+      logger.error('Outbox cleanup failed', { error });
+    }
+  }
+
+  /**
+   * Publish worker status
+   */
+  private async publishStatus(status: 'RUNNING' | 'STOPPED' | 'ERROR'): Promise<void> {
+    const uptime = Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000);
+
+    await this.publisher.publishStatus(status, {
+      eventsProcessed: this.metrics.eventsRelayed,
+      errors: this.metrics.errors + this.metrics.relayFailures,
+      uptime,
+      lastEventAt: this.metrics.lastEventAt?.toISOString(),
+    });
+  }
+
+  /**
+   * Start the worker
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      logger.info('Worker is already running');
+      return;
+    }
+
+    this.running = true;
+    this.metrics.startTime = new Date();
+
+    logger.info(`Starting ${config.workerName} worker...`);
+    logger.info(`Poll interval: ${config.pollIntervalMs}ms, batch size: ${config.batchSize}`);
+
+    await this.publishStatus('RUNNING');
+
+    await this.runRelay();
+
+    this.pollTimer = setInterval(() => {
+      if (this.running) {
+        void this.runRelay();
+      }
+    }, config.pollIntervalMs);
+
+    this.cleanupTimer = setInterval(async () => {
+      if (this.running) {
+        await this.cleanup();
+        await this.publishStatus('RUNNING');
+      }
+    }, CLEANUP_INTERVAL_MS);
+
+    logger.info(`${config.workerName} worker started`);
+  }
+
+  /**
+   * Stop the worker
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      logger.info('Worker is not running');
+      return;
+    }
+
+    logger.info(`Stopping ${config.workerName} worker...`);
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+
+    await this.publishStatus('STOPPED');
+    await getProducer().close();
+    await this.redis.quit();
+    await this.prisma.$disconnect();
+
+    logger.info(`${config.workerName} worker stopped`);
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): OutboxRelayMetrics & { uptime: number } {
+    return {
+      ...this.metrics,
+      uptime: Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000),
+    };
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const worker = new OutboxRelayWorker();
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string): Promise<void> => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    await worker.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGUSR2', () => shutdown('SIGUSR2')); // nodemon
+
+  // Handle uncaught errors
+  process.on('uncaughtException', (error) => {
+    logger.error('Uncaught exception', { error });
+    shutdown('UNCAUGHT_EXCEPTION').catch(() => process.exit(1));
+  });
+
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', { error: reason });
+    shutdown('UNHANDLED_REJECTION').catch(() => process.exit(1));
+  });
+
+  // Start the worker
+  await worker.start();
+
+  // Keep the process alive
+  logger.info('Worker is running. Press Ctrl+C to stop.');
+}
+
+// Run if this is the main module
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    logger.error('Failed to start worker', { error });
+    process.exit(1);
+  });
+}
+
+export { OutboxRelayWorker, main };
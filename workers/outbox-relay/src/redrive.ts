@@ -0,0 +1,56 @@
+/**
+ * Outbox Re-drive
+ * Returns FAILED outbox events to PENDING so the relay publishes them again, once the
+ * routing or schema change they were waiting for is deployed
+ *
+ * Usage:
+ *   pnpm redrive [--ids outbox-id-1,outbox-id-2] [--dry-run]
+ */
+
+import { parseArgs } from 'node:util';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { PrismaClient, OutboxRepository } from '@solana-eda/database';
+import { config } from './config.js';
+
+const PAGE_SIZE = 500;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      ids: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  const ids = values.ids
+    ?.split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  const prisma = new PrismaClient({
+    adapter: new PrismaPg({ connectionString: config.databaseUrl }),
+  });
+  const outbox = new OutboxRepository(prisma);
+
+  try {
+    if (values['dry-run']) {
+      const failed = (await outbox.findFailed(PAGE_SIZE)).filter(
+        (event) => !ids || ids.includes(event.id),
+      );
+      for (const event of failed) {
+        console.log(`${event.id} ${event.eventType} ${event.eventId}: ${event.lastError}`);
+      }
+      console.log(`Would re-drive ${failed.length} events`);
+      return;
+    }
+
+    const redriven = await outbox.redriveFailed(ids);
+    console.log(`Re-drove ${redriven} events`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Re-drive failed:', error);
+  process.exit(1);
+});
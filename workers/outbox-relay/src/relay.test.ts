@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import type { OutboxEvent } from '@solana-eda/database';
+import {
+  CHANNELS,
+  createPositionClosedEvent,
+  createPositionOpenedEvent,
+  createPriceUpdateEvent,
+} from '@solana-eda/events';
+import type { AnyEvent } from '@solana-eda/types';
+import { OutboxRelay, type OutboxRelayDeps } from './relay.js';
+
+const TOKEN = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function toRow(event: AnyEvent, index: number): OutboxEvent {
+  return {
+    id: `outbox-${index}`,
+    eventId: event.id,
+    eventType: event.type,
+    payload: event as never,
+    status: 'PENDING',
+    attempts: 0,
+    lastError: null,
+    createdAt: new Date(index),
+    sentAt: null,
+  };
+}
+
+interface Harness {
+  deps: OutboxRelayDeps;
+  rows: OutboxEvent[];
+  enqueued: string[];
+  published: { channel: string; type: string }[];
+  sent: string[];
+  errors: { id: string; error: string }[];
+  failed: { id: string; error: string }[];
+  failOn?: string;
+}
+
+function createHarness(events: AnyEvent[]): Harness {
+  const harness: Harness = {
+    rows: events.map(toRow),
+    enqueued: [],
+    published: [],
+    sent: [],
+    errors: [],
+    failed: [],
+    deps: undefined as unknown as OutboxRelayDeps,
+  };
+
+  harness.deps = {
+    outbox: {
+      findPending: async (limit) =>
+        harness.rows
+          .filter(
+            (row) =>
+              !harness.sent.includes(row.id) && !harness.failed.some(({ id }) => id === row.id),
+          )
+          .slice(0, limit),
+      markSent: async (id) => {
+        harness.sent.push(id);
+      },
+      recordError: async (id, error) => {
+        harness.errors.push({ id, error });
+      },
+      markFailed: async (id, error) => {
+        harness.failed.push({ id, error });
+      },
+    },
+    enqueue: async (event) => {
+      if (event.type === harness.failOn) {
+        throw new Error('Redis unavailable');
+      }
+      harness.enqueued.push(event.type);
+    },
+    publish: async (channel, event) => {
+      harness.published.push({ channel, type: event.type });
+    },
+  };
+
+  return harness;
+}
+
+const opened = createPositionOpenedEvent({
+  positionId: 'position-1',
+  token: TOKEN,
+  amount: '400',
+  entryPrice: '0.025',
+  stopLoss: '0.0225',
+  takeProfit: '0.0375',
+}) as AnyEvent;
+const closed = createPositionClosedEvent({
+  positionId: 'position-1',
+  token: TOKEN,
+  exitPrice: '0.0375',
+  pnl: '5',
+  pnlPercent: 50,
+  holdDuration: 3600,
+  closeReason: 'TAKE_PROFIT',
+}) as AnyEvent;
+const price = createPriceUpdateEvent({
+  token: TOKEN,
+  price: '0.03',
+  source: 'pool',
+  confidence: 0.9,
+  sources: [{ dex: 'pool', price: '0.03' }],
+}) as AnyEvent;
+
+const OPTIONS = { batchSize: 100, retryBaseMs: 1000, retryMaxMs: 4000 };
+
+describe('OutboxRelay', () => {
+  let harness: Harness;
+  let relay: OutboxRelay;
+
+  beforeEach(() => {
+    harness = createHarness([opened, closed, price]);
+    relay = new OutboxRelay(harness.deps, OPTIONS);
+  });
+
+  it('should enqueue and publish pending events in order and mark them sent', async () => {
+    expect(await relay.relayPending()).toEqual({ sent: 3, failed: 0 });
+
+    expect(harness.enqueued).toEqual(['POSITION_OPENED', 'POSITION_CLOSED', 'PRICE_UPDATE']);
+    expect(harness.published).toEqual([
+      { channel: CHANNELS.EVENTS_POSITIONS, type: 'POSITION_OPENED' },
+      { channel: CHANNELS.EVENTS_POSITIONS, type: 'POSITION_CLOSED' },
+      { channel: CHANNELS.EVENTS_PRICE, type: 'PRICE_UPDATE' },
+    ]);
+    expect(harness.sent).toEqual(['outbox-0', 'outbox-1', 'outbox-2']);
+  });
+
+  it('should relay at most batchSize events', async () => {
+    relay = new OutboxRelay(harness.deps, { ...OPTIONS, batchSize: 2 });
+
+    expect(await relay.relayPending()).toEqual({ sent: 2, failed: 0 });
+    expect(await relay.relayPending()).toEqual({ sent: 1, failed: 0 });
+  });
+
+  describe('on publish errors', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should stop the batch at the event and keep it pending', async () => {
+      harness.failOn = 'POSITION_CLOSED';
+
+      expect(await relay.relayPending()).toEqual({ sent: 1, failed: 0, retryInMs: 1000 });
+
+      expect(harness.sent).toEqual(['outbox-0']);
+      expect(harness.enqueued).toEqual(['POSITION_OPENED']);
+      expect(harness.errors).toEqual([{ id: 'outbox-1', error: 'Redis unavailable' }]);
+      expect(harness.failed).toEqual([]);
+    });
+
+    it('should back off exponentially for as long as the errors last', async () => {
+      harness.failOn = 'POSITION_OPENED';
+
+      const delays: (number | undefined)[] = [];
+      for (let attempt = 0; attempt < 12; attempt++) {
+        delays.push((await relay.relayPending()).retryInMs);
+        jest.advanceTimersByTime(delays.at(-1)!);
+      }
+      expect(delays.slice(0, 4)).toEqual([1000, 2000, 4000, 4000]);
+      expect(harness.errors).toHaveLength(12);
+      expect(harness.failed).toEqual([]);
+
+      harness.failOn = undefined;
+      expect(await relay.relayPending()).toEqual({ sent: 3, failed: 0 });
+    });
+
+    it('should not relay until the backoff has passed', async () => {
+      harness.failOn = 'POSITION_OPENED';
+      await relay.relayPending();
+      harness.failOn = undefined;
+
+      jest.advanceTimersByTime(400);
+      expect(await relay.relayPending()).toEqual({ sent: 0, failed: 0, retryInMs: 600 });
+
+      jest.advanceTimersByTime(600);
+      expect(await relay.relayPending()).toEqual({ sent: 3, failed: 0 });
+    });
+  });
+
+  it('should mark events that fail validation FAILED and relay the rest', async () => {
+    harness = createHarness([{ ...price, data: {} } as AnyEvent, opened]);
+    relay = new OutboxRelay(harness.deps, OPTIONS);
+
+    expect(await relay.relayPending()).toEqual({ sent: 1, failed: 1 });
+    expect(harness.enqueued).toEqual(['POSITION_OPENED']);
+    expect(harness.failed.map(({ id }) => id)).toEqual(['outbox-0']);
+    expect(harness.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Outbox Relay
+ * Publishes pending outbox events to BullMQ and Redis pub/sub, then marks them sent
+ *
+ * Delivery is at-least-once: a crash after publishing but before markSent relays the
+ * event again. BullMQ drops the repeat because the event id is the job id, pub/sub
+ * subscribers may see it twice.
+ *
+ * Redis and queue errors are retried with backoff for as long as they last, only events
+ * that cannot be parsed or routed are marked FAILED. Re-drive those with `pnpm redrive`.
+ */
+
+import type { OutboxEvent, OutboxRepository } from '@solana-eda/database';
+import { getEventRoute, parseRoutedEvent } from '@solana-eda/events';
+import type { AnyEvent } from '@solana-eda/types';
+
+export interface OutboxRelayDeps {
+  outbox: Pick<OutboxRepository, 'findPending' | 'markSent' | 'recordError' | 'markFailed'>;
+  /** Add the event to the queues of its route */
+  enqueue: (event: AnyEvent) => Promise<void>;
+  /** Publish the event on a Redis pub/sub channel */
+  publish: (channel: string, event: AnyEvent) => Promise<void>;
+}
+
+export interface OutboxRelayOptions {
+  batchSize: number;
+  /** First retry delay after a publish error, doubled per consecutive error */
+  retryBaseMs: number;
+  retryMaxMs: number;
+}
+
+export interface RelayResult {
+  sent: number;
+  /** Events marked FAILED */
+  failed: number;
+  /** Set when a publish error paused the relay */
+  retryInMs?: number;
+}
+
+export class OutboxRelay {
+  private consecutiveErrors = 0;
+  private retryAt = 0;
+
+  constructor(
+    private deps: OutboxRelayDeps,
+    private options: OutboxRelayOptions,
+  ) {}
+
+  /**
+   * Relay one batch of pending events in creation order
+   *
+   * A publish error stops the batch and pauses the relay, so later events (a POSITION_CLOSED
+   * after its POSITION_OPENED) are not delivered ahead of the event that failed.
+   */
+  async relayPending(): Promise<RelayResult> {
+    const result: RelayResult = { sent: 0, failed: 0 };
+    if (Date.now() < this.retryAt) {
+      return { ...result, retryInMs: this.retryAt - Date.now() };
+    }
+
+    const pending = await this.deps.outbox.findPending(this.options.batchSize);
+
+    for (const row of pending) {
+      let event: AnyEvent;
+      try {
+        event = parseRoutedEvent(row.payload) as AnyEvent;
+      } catch (error) {
+        result.failed++;
+        await this.deps.outbox.markFailed(row.id, getErrorMessage(error));
+        continue;
+      }
+
+      try {
+        await this.relay(row, event);
+        result.sent++;
+        this.consecutiveErrors = 0;
+      } catch (error) {
+        result.retryInMs = this.backOff();
+        await this.deps.outbox.recordError(row.id, getErrorMessage(error));
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  private async relay(row: OutboxEvent, event: AnyEvent): Promise<void> {
+    await this.deps.enqueue(event);
+    await this.deps.publish(getEventRoute(event.type).channel, event);
+    await this.deps.outbox.markSent(row.id);
+  }
+
+  /**
+   * Pause the relay after a publish error, returning the delay
+   */
+  private backOff(): number {
+    const delay = Math.min(
+      this.options.retryBaseMs * 2 ** this.consecutiveErrors,
+      this.options.retryMaxMs,
+    );
+    this.consecutiveErrors++;
+    this.retryAt = Date.now() + delay;
+    return delay;
+  }
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
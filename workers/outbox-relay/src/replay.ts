@@ -0,0 +1,110 @@
+/**
+ * Event Replay
+ * Re-injects events from the event store into their queues, in event time order
+ *
+ * Usage:
+ *   pnpm replay --from 2026-10-01T00:00:00Z --to 2026-10-02T00:00:00Z \
+ *     [--types BURN_DETECTED,TRADE_EXECUTED] [--queue solana:burn-events] [--dry-run]
+ *
+ * Replayed jobs get their own job id per run, so BullMQ does not drop them as
+ * duplicates of the original delivery.
+ */
+
+import { parseArgs } from 'node:util';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { PrismaClient, EventStoreRepository, type EventStoreFilter } from '@solana-eda/database';
+import { EVENT_TYPES, QUEUES, parseRoutedEvent, type QueueName } from '@solana-eda/events';
+import { getProducer } from '@solana-eda/queue';
+import type { AnyEvent } from '@solana-eda/types';
+import { config } from './config.js';
+
+const PAGE_SIZE = 500;
+
+interface ReplayOptions {
+  filter: EventStoreFilter;
+  queueName?: QueueName;
+  dryRun: boolean;
+}
+
+function parseDate(value: string | undefined, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`--${name} must be a valid date`);
+  }
+  return date;
+}
+
+function parseOptions(): ReplayOptions {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      types: { type: 'string' },
+      queue: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  const types = values.types
+    ?.split(',')
+    .map((type) => type.trim())
+    .filter(Boolean);
+  const unknown = types?.filter((type) => !(EVENT_TYPES as string[]).includes(type));
+  if (unknown?.length) {
+    throw new Error(`Unknown event types: ${unknown.join(', ')}`);
+  }
+
+  const queueName = values.queue as QueueName | undefined;
+  if (queueName && !(Object.values(QUEUES) as string[]).includes(queueName)) {
+    throw new Error(`Unknown queue: ${queueName}`);
+  }
+
+  return {
+    filter: { from: parseDate(values.from, 'from'), to: parseDate(values.to, 'to'), types },
+    queueName,
+    dryRun: values['dry-run'] ?? false,
+  };
+}
+
+async function main(): Promise<void> {
+  const options = parseOptions();
+  const prisma = new PrismaClient({
+    adapter: new PrismaPg({ connectionString: config.databaseUrl }),
+  });
+  const eventStore = new EventStoreRepository(prisma);
+  const producer = getProducer();
+  const runId = Date.now().toString(36);
+
+  let replayed = 0;
+  let after: string | undefined;
+  try {
+    do {
+      const page = await eventStore.findInRange(options.filter, PAGE_SIZE, after);
+      for (const stored of page) {
+        const event = parseRoutedEvent(stored.payload) as AnyEvent;
+        if (!options.dryRun) {
+          await producer.add(event, {
+            queueName: options.queueName,
+            jobOptions: { jobId: `${stored.eventId}-replay-${runId}` },
+          });
+        }
+        replayed++;
+      }
+      after = page.length === PAGE_SIZE ? page[page.length - 1]!.eventId : undefined;
+    } while (after);
+
+    console.log(
+      `${options.dryRun ? 'Would replay' : 'Replayed'} ${replayed} events` +
+        (options.queueName ? ` into ${options.queueName}` : ''),
+    );
+  } finally {
+    await producer.close();
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+/**
+ * Price aggregation
+ * Volume-weighted median with outlier rejection and source-agreement confidence
+ */
+
+export interface PriceQuote {
+  /** Source label (DEX name or external API) */
+  dex: string;
+  price: number;
+  volume24h?: number;
+}
+
+export interface AggregationOptions {
+  /** Maximum deviation from the reference median before a quote is rejected (percent) */
+  maxDeviationPercent: number;
+}
+
+export interface AggregatedPrice {
+  price: number;
+  /** 0-1 score derived from how many sources agree and how tightly */
+  confidence: number;
+  volume24h: number;
+  accepted: PriceQuote[];
+  rejected: PriceQuote[];
+}
+
+/**
+ * Number of agreeing sources needed for full confidence
+ */
+const FULL_CONFIDENCE_SOURCES = 3;
+
+/**
+ * Compute the volume-weighted median price.
+ * Falls back to equal weights when no quote reports volume.
+ */
+export function weightedMedian(quotes: PriceQuote[]): number {
+  if (quotes.length === 0) {
+    throw new Error('Cannot compute median of empty quote list');
+  }
+
+  const hasVolume = quotes.some((quote) => (quote.volume24h ?? 0) > 0);
+  const weighted = quotes
+    .map((quote) => ({
+      price: quote.price,
+      weight: hasVolume ? Math.max(quote.volume24h ?? 0, 0) : 1,
+    }))
+    .sort((a, b) => a.price - b.price);
+
+  const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+  const half = totalWeight / 2;
+  let cumulative = 0;
+
+  for (let i = 0; i < weighted.length; i++) {
+    const entry = weighted[i]!;
+    cumulative += entry.weight;
+
+    if (cumulative > half) {
+      return entry.price;
+    }
+    if (cumulative === half) {
+      // Exactly on the boundary: average with the next price (classic even-count median)
+      const next = weighted[i + 1];
+      return next ? (entry.price + next.price) / 2 : entry.price;
+    }
+  }
+
+  return weighted[weighted.length - 1]!.price;
+}
+
+/**
+ * Relative deviation of a price from a reference, in percent
+ */
+export function deviationPercent(price: number, reference: number): number {
+  return (Math.abs(price - reference) / reference) * 100;
+}
+
+/**
+ * Compute confidence from source agreement.
+ * agreement: share of sources kept after outlier rejection
+ * tightness: how close kept sources are to the final price relative to the allowed deviation
+ * coverage: fewer than FULL_CONFIDENCE_SOURCES kept sources cap the score
+ */
+export function computeConfidence(
+  total: number,
+  accepted: PriceQuote[],
+  price: number,
+  maxDeviationPercent: number,
+): number {
+  if (total === 0 || accepted.length === 0) {
+    return 0;
+  }
+
+  const agreement = accepted.length / total;
+  const meanDeviation =
+    accepted.reduce((sum, quote) => sum + deviationPercent(quote.price, price), 0) /
+    accepted.length;
+  const tightness = Math.max(0, 1 - meanDeviation / maxDeviationPercent);
+  const coverage =
+    0.5 +
+    (0.5 * Math.min(accepted.length - 1, FULL_CONFIDENCE_SOURCES - 1)) /
+      (FULL_CONFIDENCE_SOURCES - 1);
+
+  return Math.round(agreement * tightness * coverage * 10_000) / 10_000;
+}
+
+/**
+ * Aggregate quotes from multiple sources into a single price
+ */
+export function aggregateQuotes(
+  quotes: PriceQuote[],
+  options: AggregationOptions,
+): AggregatedPrice | null {
+  const valid = quotes.filter((quote) => Number.isFinite(quote.price) && quote.price > 0);
+  if (valid.length === 0) {
+    return null;
+  }
+
+  const reference = weightedMedian(valid);
+  const accepted: PriceQuote[] = [];
+  const rejected: PriceQuote[] = [];
+
+  for (const quote of valid) {
+    if (deviationPercent(quote.price, reference) <= options.maxDeviationPercent) {
+      accepted.push(quote);
+    } else {
+      rejected.push(quote);
+    }
+  }
+
+  // Sources disagree too much to agree on any price (e.g. two quotes far apart)
+  if (accepted.length === 0) {
+    return null;
+  }
+
+  const price = weightedMedian(accepted);
+
+  return {
+    price,
+    confidence: computeConfidence(valid.length, accepted, price, options.maxDeviationPercent),
+    volume24h: accepted.reduce((sum, quote) => sum + (quote.volume24h ?? 0), 0),
+    accepted,
+    rejected,
+  };
+}
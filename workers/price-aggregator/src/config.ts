@@ -0,0 +1,66 @@
+/**
+ * Configuration for the price-aggregator worker
+ * Loads environment variables and provides typed configuration
+ */
+
+interface Config {
+  // Tokens to price (defaults to every token with a tracked liquidity pool)
+  tokens: string[];
+
+  // Quote mint prices are denominated in
+  quoteMint: string;
+
+  // External price API configuration
+  priceApiUrl: string;
+
+  // Redis configuration
+  redisUrl: string;
+
+  // Database configuration
+  databaseUrl: string;
+
+  // Worker identification
+  workerName: string;
+
+  // Maximum deviation from the median before a source is rejected (percent)
+  maxDeviationPercent: number;
+
+  // Polling interval for price aggregation (ms)
+  aggregationIntervalMs: number;
+}
+
+function getEnvVar(name: string, defaultValue?: string): string {
+  const value = process.env[name];
+  if (value === undefined && defaultValue === undefined) {
+    throw new Error(`Required environment variable ${name} is not set`);
+  }
+  return value ?? defaultValue ?? '';
+}
+
+function parseStringList(value: string, defaultValue: string[]): string[] {
+  if (!value || value.trim() === '') {
+    return defaultValue;
+  }
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function loadConfig(): Config {
+  return {
+    tokens: parseStringList(getEnvVar('PRICE_TOKENS', ''), []),
+    quoteMint: getEnvVar('QUOTE_MINT', 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'),
+    priceApiUrl: getEnvVar('PRICE_API_URL', 'https://api.jup.ag/price/v2'),
+    redisUrl: getEnvVar('REDIS_URL', 'redis://localhost:6379'),
+    databaseUrl: getEnvVar('DATABASE_URL'),
+    workerName: getEnvVar('WORKER_NAME', 'price-aggregator'),
+    maxDeviationPercent: parseFloat(getEnvVar('MAX_PRICE_DEVIATION_PERCENT', '5')),
+    aggregationIntervalMs: parseInt(
+      getEnvVar('AGGREGATION_INTERVAL_MS', '30000'), // 30 seconds
+      10,
+    ),
+  };
+}
+
+export const config = loadConfig();
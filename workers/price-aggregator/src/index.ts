@@ -0,0 +1,290 @@
+/**
+ * Price Aggregator Worker
+ * Combines pool-derived prices with external quotes into a single price per token
+ * Writes PRICE_UPDATE events to the outbox with their price records
+ */
+
+import Redis from 'ioredis';
+import { PrismaPg } from '@prisma/adapter-pg';
+import {
+  PrismaClient,
+  LiquidityPoolRepository,
+  PriceRepository,
+  writeWithOutbox,
+} from '@solana-eda/database';
+import { createPriceUpdateEvent, WorkerPublisher } from '@solana-eda/events';
+import { createLogger } from '@solana-eda/monitoring';
+import { PriceAggregator, type PriceUpdateData } from './price-aggregator.js';
+import { HttpPriceSource, PoolPriceSource } from './sources.js';
+import { config } from './config.js';
+
+const logger = createLogger(config.workerName);
+
+interface PriceAggregatorMetrics {
+  pricesPublished: number;
+  sourceFailures: number;
+  errors: number;
+  startTime: Date;
+  lastEventAt?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+class PriceAggregatorWorker {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private liquidityPoolRepository: LiquidityPoolRepository;
+  private priceRepository: PriceRepository;
+  private aggregator: PriceAggregator;
+  private publisher: WorkerPublisher;
+  private metrics: PriceAggregatorMetrics;
+  private running = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient({
+      adapter: new PrismaPg({ connectionString: config.databaseUrl }),
+    });
+    this.redis = new Redis(config.redisUrl);
+    this.liquidityPoolRepository = new LiquidityPoolRepository(this.prisma);
+    this.priceRepository = new PriceRepository(this.prisma);
+    this.aggregator = new PriceAggregator(
+      [
+        new PoolPriceSource(this.liquidityPoolRepository, config.quoteMint),
+        new HttpPriceSource(config.priceApiUrl, config.quoteMint),
+      ],
+      { maxDeviationPercent: config.maxDeviationPercent },
+    );
+    this.publisher = WorkerPublisher.create({
+      redis: this.redis,
+      workerName: config.workerName,
+    });
+    this.metrics = {
+      pricesPublished: 0,
+      sourceFailures: 0,
+      errors: 0,
+      startTime: new Date(),
+    };
+  }
+
+  /**
+   * Resolve tokens to price: configured list or every token with a tracked pool
+   */
+  private async getTokens(): Promise<string[]> {
+    if (config.tokens.length > 0) {
+      return config.tokens;
+    }
+
+    const pools = await this.liquidityPoolRepository.findAll(200);
+    const tokens = new Set<string>();
+    for (const pool of pools) {
+      tokens.add(pool.tokenA);
+      tokens.add(pool.tokenB);
+    }
+    tokens.delete(config.quoteMint);
+
+    return [...tokens];
+  }
+
+  /**
+   * Get the price recorded roughly 24 hours ago
+   */
+  private async getPreviousDayPrice(token: string): Promise<number | undefined> {
+    const dayAgo = new Date(Date.now() - DAY_MS);
+    const [record] = await this.priceRepository.findByTokenInRange(
+      token,
+      new Date(dayAgo.getTime() - HOUR_MS),
+      dayAgo,
+    );
+    return record ? Number(record.price) : undefined;
+  }
+
+  /**
+   * Aggregate, publish and store the price of a single token
+   */
+  private async processToken(token: string): Promise<void> {
+    const previousPrice = await this.getPreviousDayPrice(token);
+    const update = await this.aggregator.aggregate(token, previousPrice);
+
+    for (const failure of this.aggregator.getLastFailures()) {
+      this.metrics.sourceFailures++;
+      logger.warn(`Price source ${failure.source} failed for ${token}`, { error: failure.error });
+    }
+
+    if (!update) {
+      return;
+    }
+
+    await this.handlePriceUpdate(update);
+  }
+
+  /**
+   * Handle aggregated price
+   */
+  private async handlePriceUpdate(update: PriceUpdateData): Promise<void> {
+    const event = createPriceUpdateEvent(update);
+    await writeWithOutbox(
+      this.prisma,
+      (tx) =>
+        new PriceRepository(tx).create({
+          eventId: event.eventId,
+          token: update.token,
+          price: Number(update.price),
+          source: update.source,
+          confidence: update.confidence,
+          volume24h: update.volume24h !== undefined ? Number(update.volume24h) : undefined,
+        }),
+      [event],
+    );
+
+    this.metrics.pricesPublished++;
+    this.metrics.lastEventAt = new Date();
+  }
+
+  /**
+   * Run one aggregation round over all tokens
+   */
+  private async runAggregation(): Promise<void> {
+    try {
+      const tokens = await this.getTokens();
+
+      for (const token of tokens) {
+        try {
+          await this.processToken(token);
+        } catch (error) {
+          this.metrics.errors++;
+          logger.error(`Error aggregating price for ${token}`, { error });
+        }
+      }
+    } catch (error) {
+      this.metrics.errors++;
+      logger.error('Price aggregation failed', { error });
+    }
+  }
+
+  /**
+   * Publish worker status
+   */
+  private async publishStatus(status: 'RUNNING' | 'STOPPED' | 'ERROR'): Promise<void> {
+    const uptime = Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000);
+
+    await this.publisher.publishStatus(status, {
+      eventsProcessed: this.metrics.pricesPublished,
+      errors: this.metrics.errors,
+      uptime,
+      lastEventAt: this.metrics.lastEventAt?.toISOString(),
+      pricesPublished: this.metrics.pricesPublished,
+    });
+  }
+
+  /**
+   * Start the worker
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      logger.info('Worker is already running');
+      return;
+    }
+
+    this.running = true;
+    this.metrics.startTime = new Date();
+
+    logger.info(`Starting ${config.workerName} worker...`);
+    logger.info(`Quote mint: ${config.quoteMint}`);
+    logger.info(`Max deviation: ${config.maxDeviationPercent}%`);
+    logger.info(`Aggregation interval: ${config.aggregationIntervalMs}ms`);
+
+    await this.publishStatus('RUNNING');
+
+    await this.runAggregation();
+
+    this.pollTimer = setInterval(async () => {
+      if (this.running) {
+        await this.runAggregation();
+        await this.publishStatus('RUNNING');
+      }
+    }, config.aggregationIntervalMs);
+
+    logger.info(`${config.workerName} worker started`);
+  }
+
+  /**
+   * Stop the worker
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      logger.info('Worker is not running');
+      return;
+    }
+
+    logger.info(`Stopping ${config.workerName} worker...`);
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    await this.publishStatus('STOPPED');
+    await this.redis.quit();
+    await this.prisma.$disconnect();
+
+    logger.info(`${config.workerName} worker stopped`);
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): PriceAggregatorMetrics & { uptime: number } {
+    return {
+      ...this.metrics,
+      uptime: Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000),
+    };
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const worker = new PriceAggregatorWorker();
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string): Promise<void> => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    await worker.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGUSR2', () => shutdown('SIGUSR2')); // nodemon
+
+  // Handle uncaught errors
+  process.on('uncaughtException', (error) => {
+    logger.error('Uncaught exception', { error });
+    shutdown('UNCAUGHT_EXCEPTION').catch(() => process.exit(1));
+  });
+
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', { error: reason });
+    shutdown('UNHANDLED_REJECTION').catch(() => process.exit(1));
+  });
+
+  // Start the worker
+  await worker.start();
+
+  // Keep the process alive
+  logger.info('Worker is running. Press Ctrl+C to stop.');
+}
+
+// Run if this is the main module
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    logger.error('Failed to start worker', { error });
+    process.exit(1);
+  });
+}
+
+export { PriceAggregatorWorker, main };
@@ -0,0 +1,215 @@
+import { describe, it, expect } from '@jest/globals';
+import { aggregateQuotes, computeConfidence, weightedMedian } from './aggregation.js';
+import { PriceAggregator } from './price-aggregator.js';
+import { HttpPriceSource, PoolPriceSource, type PriceSource } from './sources.js';
+
+const TOKEN = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function stubSource(name: string, quotes: { dex: string; price: number; volume24h?: number }[]) {
+  return { name, getQuotes: async () => quotes } satisfies PriceSource;
+}
+
+describe('Price aggregation', () => {
+  describe('weightedMedian', () => {
+    it('should weight prices by volume', () => {
+      expect(
+        weightedMedian([
+          { dex: 'a', price: 1.0, volume24h: 100 },
+          { dex: 'b', price: 1.1, volume24h: 1_000 },
+          { dex: 'c', price: 1.2, volume24h: 100 },
+        ]),
+      ).toBe(1.1);
+
+      expect(
+        weightedMedian([
+          { dex: 'a', price: 1.0, volume24h: 5_000 },
+          { dex: 'b', price: 1.1, volume24h: 1_000 },
+          { dex: 'c', price: 1.2, volume24h: 100 },
+        ]),
+      ).toBe(1.0);
+    });
+
+    it('should fall back to an unweighted median without volume', () => {
+      expect(
+        weightedMedian([
+          { dex: 'a', price: 4 },
+          { dex: 'b', price: 1 },
+          { dex: 'c', price: 2 },
+          { dex: 'd', price: 3 },
+        ]),
+      ).toBe(2.5);
+    });
+  });
+
+  describe('aggregateQuotes', () => {
+    it('should reject outliers beyond the allowed deviation', () => {
+      const result = aggregateQuotes(
+        [
+          { dex: 'raydium', price: 100, volume24h: 1_000 },
+          { dex: 'orca', price: 101, volume24h: 1_000 },
+          { dex: 'meteora', price: 99.5, volume24h: 500 },
+          { dex: 'stale', price: 150, volume24h: 10 },
+        ],
+        { maxDeviationPercent: 5 },
+      );
+
+      expect(result?.price).toBe(100);
+      expect(result?.accepted.map((quote) => quote.dex)).toEqual(['raydium', 'orca', 'meteora']);
+      expect(result?.rejected.map((quote) => quote.dex)).toEqual(['stale']);
+      expect(result?.volume24h).toBe(2_500);
+    });
+
+    it('should ignore invalid prices and return null without quotes', () => {
+      expect(aggregateQuotes([], { maxDeviationPercent: 5 })).toBeNull();
+      expect(
+        aggregateQuotes([{ dex: 'broken', price: Number.NaN }], { maxDeviationPercent: 5 }),
+      ).toBeNull();
+    });
+
+    it('should return null when no source agrees with the median', () => {
+      expect(
+        aggregateQuotes(
+          [
+            { dex: 'a', price: 100 },
+            { dex: 'b', price: 200 },
+          ],
+          { maxDeviationPercent: 5 },
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('computeConfidence', () => {
+    it('should give full confidence to three identical sources', () => {
+      const quotes = [
+        { dex: 'a', price: 10 },
+        { dex: 'b', price: 10 },
+        { dex: 'c', price: 10 },
+      ];
+      expect(computeConfidence(3, quotes, 10, 5)).toBe(1);
+    });
+
+    it('should lower confidence for fewer, disagreeing or rejected sources', () => {
+      const single = computeConfidence(1, [{ dex: 'a', price: 10 }], 10, 5);
+      const pair = computeConfidence(
+        2,
+        [
+          { dex: 'a', price: 10 },
+          { dex: 'b', price: 10 },
+        ],
+        10,
+        5,
+      );
+      const spread = computeConfidence(
+        3,
+        [
+          { dex: 'a', price: 9.8 },
+          { dex: 'b', price: 10 },
+          { dex: 'c', price: 10.2 },
+        ],
+        10,
+        5,
+      );
+      const withRejection = computeConfidence(
+        4,
+        [
+          { dex: 'a', price: 10 },
+          { dex: 'b', price: 10 },
+          { dex: 'c', price: 10 },
+        ],
+        10,
+        5,
+      );
+
+      expect(single).toBe(0.5);
+      expect(pair).toBe(0.75);
+      expect(spread).toBeCloseTo(0.7333, 4);
+      expect(withRejection).toBe(0.75);
+    });
+  });
+});
+
+describe('Price sources', () => {
+  it('should derive quotes from pools in either token order', async () => {
+    const source = new PoolPriceSource(
+      {
+        findByToken: async () =>
+          [
+            { address: 'pool-1', tokenA: TOKEN, tokenB: USDC, price: 2, volume24h: 500 },
+            { address: 'pool-2', tokenA: USDC, tokenB: TOKEN, price: 0.5, volume24h: 100 },
+            { address: 'pool-3', tokenA: TOKEN, tokenB: 'other', price: 7, volume24h: 100 },
+          ] as never,
+      },
+      USDC,
+    );
+
+    expect(await source.getQuotes(TOKEN)).toEqual([
+      { dex: 'pool:pool-1', price: 2, volume24h: 500 },
+      { dex: 'pool:pool-2', price: 2, volume24h: 100 },
+    ]);
+  });
+
+  it('should parse external price API responses', async () => {
+    const requests: string[] = [];
+    const source = new HttpPriceSource('https://prices.test/v2', USDC, (async (url: string) => {
+      requests.push(url);
+      return new Response(JSON.stringify({ data: { [TOKEN]: { id: TOKEN, price: '2.01' } } }));
+    }) as typeof fetch);
+
+    expect(await source.getQuotes(TOKEN)).toEqual([{ dex: 'jupiter', price: 2.01 }]);
+    expect(requests).toEqual([`https://prices.test/v2?ids=${TOKEN}&vsToken=${USDC}`]);
+  });
+});
+
+describe('PriceAggregator', () => {
+  it('should combine sources into price update data', async () => {
+    const aggregator = new PriceAggregator(
+      [
+        stubSource('pools', [
+          { dex: 'pool:a', price: 2.0, volume24h: 1_000 },
+          { dex: 'pool:b', price: 2.02, volume24h: 400 },
+        ]),
+        stubSource('jupiter', [{ dex: 'jupiter', price: 2.01 }]),
+      ],
+      { maxDeviationPercent: 5 },
+    );
+
+    const update = await aggregator.aggregate(TOKEN, 1.6);
+
+    expect(update).toMatchObject({
+      token: TOKEN,
+      price: '2',
+      source: 'aggregated',
+      volume24h: '1400',
+    });
+    expect(update?.priceChange24h).toBeCloseTo(25);
+    expect(update?.confidence).toBeCloseTo(0.9, 4);
+    expect(update?.sources).toEqual([
+      { dex: 'pool:a', price: '2', volume24h: '1000' },
+      { dex: 'pool:b', price: '2.02', volume24h: '400' },
+      { dex: 'jupiter', price: '2.01', volume24h: undefined },
+    ]);
+  });
+
+  it('should skip failing sources and report them', async () => {
+    const aggregator = new PriceAggregator(
+      [
+        stubSource('pools', [{ dex: 'pool:a', price: 3 }]),
+        {
+          name: 'jupiter',
+          getQuotes: async () => {
+            throw new Error('timeout');
+          },
+        },
+      ],
+      { maxDeviationPercent: 5 },
+    );
+
+    const update = await aggregator.aggregate(TOKEN);
+
+    expect(update?.price).toBe('3');
+    expect(update?.confidence).toBe(0.5);
+    expect(aggregator.getLastFailures().map((failure) => failure.source)).toEqual(['jupiter']);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Price Aggregator
+ * Collects quotes from all sources and produces PRICE_UPDATE event data
+ */
+
+import type { PriceUpdateEvent } from '@solana-eda/types';
+import { aggregateQuotes, type AggregationOptions, type PriceQuote } from './aggregation.js';
+import type { PriceSource } from './sources.js';
+
+export type PriceUpdateData = PriceUpdateEvent['data'];
+
+export interface SourceFailure {
+  source: string;
+  error: unknown;
+}
+
+export class PriceAggregator {
+  private lastFailures: SourceFailure[] = [];
+
+  constructor(
+    private sources: PriceSource[],
+    private options: AggregationOptions,
+  ) {}
+
+  /**
+   * Aggregate the current price of a token.
+   * Failing sources are skipped (see getLastFailures) so one outage does not block pricing.
+   */
+  async aggregate(token: string, previousPrice?: number): Promise<PriceUpdateData | null> {
+    const results = await Promise.allSettled(this.sources.map((source) => source.getQuotes(token)));
+
+    const quotes: PriceQuote[] = [];
+    this.lastFailures = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        quotes.push(...result.value);
+      } else {
+        this.lastFailures.push({ source: this.sources[index]!.name, error: result.reason });
+      }
+    });
+
+    const aggregated = aggregateQuotes(quotes, this.options);
+    if (!aggregated) {
+      return null;
+    }
+
+    return {
+      token,
+      price: aggregated.price.toString(),
+      source: 'aggregated',
+      confidence: aggregated.confidence,
+      volume24h: aggregated.volume24h > 0 ? aggregated.volume24h.toString() : undefined,
+      priceChange24h:
+        previousPrice && previousPrice > 0
+          ? ((aggregated.price - previousPrice) / previousPrice) * 100
+          : undefined,
+      sources: aggregated.accepted.map((quote) => ({
+        dex: quote.dex,
+        price: quote.price.toString(),
+        volume24h: quote.volume24h !== undefined ? quote.volume24h.toString() : undefined,
+      })),
+    };
+  }
+
+  /**
+   * Sources that failed during the last aggregation
+   */
+  getLastFailures(): SourceFailure[] {
+    return [...this.lastFailures];
+  }
+}
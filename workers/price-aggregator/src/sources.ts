@@ -0,0 +1,86 @@
+/**
+ * Price sources
+ * Pluggable providers of per-token price quotes
+ */
+
+import type { LiquidityPoolRepository } from '@solana-eda/database';
+import type { PriceQuote } from './aggregation.js';
+
+/**
+ * A provider of price quotes for a token, denominated in the configured quote mint
+ */
+export interface PriceSource {
+  readonly name: string;
+  getQuotes(token: string): Promise<PriceQuote[]>;
+}
+
+/**
+ * Pool-derived prices from LiquidityPoolRecord (maintained by the liquidity-monitor)
+ */
+export class PoolPriceSource implements PriceSource {
+  readonly name = 'pools';
+
+  constructor(
+    private liquidityPoolRepository: Pick<LiquidityPoolRepository, 'findByToken'>,
+    private quoteMint: string,
+  ) {}
+
+  async getQuotes(token: string): Promise<PriceQuote[]> {
+    const pools = await this.liquidityPoolRepository.findByToken(token);
+    const quotes: PriceQuote[] = [];
+
+    for (const pool of pools) {
+      const poolPrice = Number(pool.price);
+      if (!(poolPrice > 0)) {
+        continue;
+      }
+
+      // Pool price is tokenB per tokenA
+      let price: number;
+      if (pool.tokenA === token && pool.tokenB === this.quoteMint) {
+        price = poolPrice;
+      } else if (pool.tokenB === token && pool.tokenA === this.quoteMint) {
+        price = 1 / poolPrice;
+      } else {
+        continue;
+      }
+
+      quotes.push({
+        dex: `pool:${pool.address}`,
+        price,
+        volume24h: Number(pool.volume24h),
+      });
+    }
+
+    return quotes;
+  }
+}
+
+/**
+ * External quotes from a Jupiter-compatible price API (`GET {url}?ids=<mint>&vsToken=<mint>`)
+ */
+export class HttpPriceSource implements PriceSource {
+  readonly name = 'jupiter';
+
+  constructor(
+    private apiUrl: string,
+    private quoteMint: string,
+    private fetchFn: typeof fetch = fetch,
+  ) {}
+
+  async getQuotes(token: string): Promise<PriceQuote[]> {
+    const url = `${this.apiUrl}?ids=${token}&vsToken=${this.quoteMint}`;
+    const response = await this.fetchFn(url);
+
+    if (!response.ok) {
+      throw new Error(`Price API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as {
+      data?: Record<string, { price?: string | number } | null>;
+    };
+    const price = Number(body.data?.[token]?.price);
+
+    return Number.isFinite(price) && price > 0 ? [{ dex: this.name, price }] : [];
+  }
+}
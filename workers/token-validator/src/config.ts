@@ -0,0 +1,99 @@
+/**
+ * Configuration for the token-validator worker
+ * Loads environment variables and provides typed configuration
+ */
+
+import { DEFAULT_RISK_WEIGHTS, type RiskWeights } from './risk-model.js';
+import {
+  JUPITER_LOCK_PROGRAM_ID,
+  RAYDIUM_LOCK_PROGRAM_ID,
+  STREAMFLOW_PROGRAM_ID,
+} from './token-checks.js';
+
+interface Config {
+  // Solana RPC configuration
+  solanaRpcUrl: string;
+
+  // Redis configuration
+  redisUrl: string;
+
+  // Database configuration
+  databaseUrl: string;
+
+  // Worker identification
+  workerName: string;
+
+  // Quote mints (SOL, USDC, USDT...) that are never validated
+  quoteMints: string[];
+
+  // Programs whose escrows count as locked liquidity
+  lockerPrograms: string[];
+
+  // Share (percent) of LP tokens that must be burned or locked to flag the pool as burned or locked
+  minLpSecuredPercent: number;
+
+  // Highest Token-2022 transfer fee (basis points) still considered safe
+  maxTransferFeeBps: number;
+
+  // Number of largest holders counted for concentration
+  topHolderCount: number;
+
+  // Relative weights of the rug-risk factors (RISK_WEIGHT_<FACTOR>)
+  riskWeights: RiskWeights;
+
+  // Number of discovery events processed concurrently
+  concurrency: number;
+
+  // Interval for publishing worker status (ms)
+  statusIntervalMs: number;
+}
+
+function getEnvVar(name: string, defaultValue?: string): string {
+  const value = process.env[name];
+  if (value === undefined && defaultValue === undefined) {
+    throw new Error(`Required environment variable ${name} is not set`);
+  }
+  return value ?? defaultValue ?? '';
+}
+
+function getListEnvVar(name: string, defaultValue: string[]): string[] {
+  return getEnvVar(name, defaultValue.join(','))
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+export function loadConfig(): Config {
+  return {
+    solanaRpcUrl: getEnvVar('SOLANA_RPC_URL', 'https://api.devnet.solana.com'),
+    redisUrl: getEnvVar('REDIS_URL', 'redis://localhost:6379'),
+    databaseUrl: getEnvVar('DATABASE_URL'),
+    workerName: getEnvVar('WORKER_NAME', 'token-validator'),
+    quoteMints: getListEnvVar('QUOTE_MINTS', [
+      'So11111111111111111111111111111111111111112', // SOL
+      'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+      'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+    ]),
+    lockerPrograms: getListEnvVar('LOCKER_PROGRAM_IDS', [
+      STREAMFLOW_PROGRAM_ID,
+      JUPITER_LOCK_PROGRAM_ID,
+      RAYDIUM_LOCK_PROGRAM_ID,
+    ]),
+    minLpSecuredPercent: parseFloat(getEnvVar('MIN_LP_SECURED_PERCENT', '90')),
+    maxTransferFeeBps: parseInt(getEnvVar('MAX_TRANSFER_FEE_BPS', '100'), 10),
+    topHolderCount: parseInt(getEnvVar('TOP_HOLDER_COUNT', '10'), 10),
+    riskWeights: Object.fromEntries(
+      Object.entries(DEFAULT_RISK_WEIGHTS).map(([factor, weight]) => [
+        factor,
+        parseFloat(getEnvVar(`RISK_WEIGHT_${factor}`, String(weight))),
+      ]),
+    ) as RiskWeights,
+    concurrency: parseInt(getEnvVar('VALIDATOR_CONCURRENCY', '2'), 10),
+    statusIntervalMs: parseInt(
+      getEnvVar('STATUS_INTERVAL_MS', '30000'), // 30 seconds
+      10,
+    ),
+  };
+}
+
+export const config = loadConfig();
@@ -0,0 +1,354 @@
+/**
+ * Token Validator Worker
+ * Consumes MARKET_DISCOVERED and POOL_DISCOVERED events from the validator queue
+ * Checks the discovered tokens for mint and freeze authorities, Token-2022 extensions,
+ * holder concentration and burned or locked LP tokens, and scores their rug risk
+ * Writes TOKEN_VALIDATED events to the outbox with the validation records
+ */
+
+import Redis from 'ioredis';
+import { Connection } from '@solana/web3.js';
+import { PrismaPg } from '@prisma/adapter-pg';
+import {
+  PrismaClient,
+  BurnEventRepository,
+  DiscoveredPoolRepository,
+  LiquidityPoolRepository,
+  TokenValidationRepository,
+  writeWithOutbox,
+} from '@solana-eda/database';
+import {
+  createTokenValidatedEvent,
+  isMarketDiscoveredEvent,
+  isPoolDiscoveredEvent,
+  WorkerPublisher,
+} from '@solana-eda/events';
+import { createWorker, extractEvent, QUEUES, type BaseWorker } from '@solana-eda/queue';
+import { retryWithBackoff } from '@solana-eda/error-handling';
+import type { AnyEvent } from '@solana-eda/types';
+import { createLogger } from '@solana-eda/monitoring';
+import {
+  TokenValidator,
+  type CreatorPoolsSource,
+  type ValidationTarget,
+} from './token-validator.js';
+import { config } from './config.js';
+
+const logger = createLogger(config.workerName);
+
+interface TokenValidatorMetrics {
+  discoveriesProcessed: number;
+  tokensValidated: number;
+  errors: number;
+  startTime: Date;
+  lastEventAt?: Date;
+}
+
+class TokenValidatorWorker {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private connection: Connection;
+  private publisher: WorkerPublisher;
+  private validator: TokenValidator;
+  private quoteMints: Set<string>;
+  private worker: BaseWorker | null = null;
+  private metrics: TokenValidatorMetrics;
+  private running = false;
+  private statusTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient({
+      adapter: new PrismaPg({ connectionString: config.databaseUrl }),
+    });
+    this.redis = new Redis(config.redisUrl);
+    this.connection = new Connection(config.solanaRpcUrl, 'confirmed');
+    this.publisher = WorkerPublisher.create({
+      redis: this.redis,
+      workerName: config.workerName,
+    });
+    this.validator = new TokenValidator(
+      {
+        accounts: this.connection,
+        burns: new BurnEventRepository(this.prisma),
+        creatorPools: this.createCreatorPoolsSource(),
+      },
+      {
+        lockerPrograms: config.lockerPrograms,
+        minLpSecuredPercent: config.minLpSecuredPercent,
+        maxTransferFeeBps: config.maxTransferFeeBps,
+        topHolderCount: config.topHolderCount,
+        riskWeights: config.riskWeights,
+      },
+    );
+    this.quoteMints = new Set(config.quoteMints);
+    this.metrics = {
+      discoveriesProcessed: 0,
+      tokensValidated: 0,
+      errors: 0,
+      startTime: new Date(),
+    };
+  }
+
+  /**
+   * Earlier pools of a creator from the discovered pools, with the TVL last seen by the
+   * liquidity monitor
+   */
+  private createCreatorPoolsSource(): CreatorPoolsSource {
+    const discoveredPools = new DiscoveredPoolRepository(this.prisma);
+    const liquidityPools = new LiquidityPoolRepository(this.prisma);
+
+    return {
+      getCreatorPools: async (creator) => {
+        const pools = await discoveredPools.findByCreator(creator);
+        const current = new Map(
+          (await liquidityPools.findByAddresses(pools.map((pool) => pool.address))).map(
+            (record) => [record.address, Number(record.tvl)],
+          ),
+        );
+        return pools.map((pool) => ({
+          address: pool.address,
+          initialTvl: Number(pool.initialTvl),
+          currentTvl: current.get(pool.address) ?? null,
+        }));
+      },
+    };
+  }
+
+  /**
+   * Tokens to validate for a discovery, quote mints are skipped
+   */
+  private getTargets(event: AnyEvent): { targets: ValidationTarget[]; txSignature?: string } {
+    if (isMarketDiscoveredEvent(event)) {
+      const { baseMint, quoteMint, discoveredAt } = event.data;
+      return {
+        targets: [baseMint, quoteMint]
+          .filter((mint) => !this.quoteMints.has(mint))
+          .map((token) => ({ token, createdAt: new Date(discoveredAt) })),
+      };
+    }
+
+    if (isPoolDiscoveredEvent(event)) {
+      const { data } = event;
+      return {
+        targets: [data.tokenA, data.tokenB]
+          .filter((mint) => !this.quoteMints.has(mint))
+          .map((token) => ({
+            token,
+            createdAt: new Date(data.discoveredAt),
+            pool: {
+              address: data.poolAddress,
+              lpMint: data.poolData?.lpMint,
+              creator: data.creator,
+              tvl: Number(data.initialTvl),
+              price: data.initialPrice !== undefined ? Number(data.initialPrice) : undefined,
+              isTokenA: token === data.tokenA,
+            },
+          })),
+        txSignature: data.discoverySource,
+      };
+    }
+
+    return { targets: [] };
+  }
+
+  /**
+   * Process a discovery-events job
+   */
+  private async processDiscovery(event: AnyEvent): Promise<void> {
+    const { targets, txSignature } = this.getTargets(event);
+    if (targets.length === 0) {
+      return;
+    }
+
+    this.metrics.discoveriesProcessed++;
+    this.metrics.lastEventAt = new Date();
+
+    for (const target of targets) {
+      await this.validateToken(target, txSignature);
+    }
+  }
+
+  /**
+   * Validate a token and write the TOKEN_VALIDATED event with its record
+   */
+  private async validateToken(target: ValidationTarget, txSignature?: string): Promise<void> {
+    const validation = await retryWithBackoff(() => this.validator.validate(target), {
+      maxAttempts: 3,
+      baseDelay: 1000,
+    });
+
+    if (!validation) {
+      logger.warn(`Mint account ${target.token} not found, skipping validation`);
+      return;
+    }
+
+    const validatedAt = new Date();
+    const event = createTokenValidatedEvent({
+      ...validation,
+      validatedAt: validatedAt.toISOString(),
+      txSignature,
+    });
+
+    await writeWithOutbox(
+      this.prisma,
+      (tx) =>
+        new TokenValidationRepository(tx).create({
+          ...validation,
+          eventId: event.eventId,
+          validatedAt,
+          txSignature,
+        }),
+      [event],
+    );
+
+    this.metrics.tokensValidated++;
+    logger.info(`Validated ${target.token} with confidence ${validation.confidence}`, {
+      renounced: validation.isRenounced,
+      burned: validation.isBurned,
+      locked: validation.isLocked,
+      riskScore: validation.validationDetails?.risk?.score,
+      pool: target.pool?.address,
+    });
+  }
+
+  /**
+   * Publish worker status
+   */
+  private async publishStatus(status: 'RUNNING' | 'STOPPED' | 'ERROR'): Promise<void> {
+    const uptime = Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000);
+
+    await this.publisher.publishStatus(status, {
+      eventsProcessed: this.metrics.tokensValidated,
+      errors: this.metrics.errors,
+      uptime,
+      lastEventAt: this.metrics.lastEventAt?.toISOString(),
+    });
+  }
+
+  /**
+   * Start the worker
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      logger.info('Worker is already running');
+      return;
+    }
+
+    this.running = true;
+    this.metrics.startTime = new Date();
+
+    logger.info(`Starting ${config.workerName} worker...`);
+    logger.info(`Skipping quote mints: ${config.quoteMints.join(', ')}`);
+    logger.info(`Locker programs: ${config.lockerPrograms.join(', ')}`);
+
+    await this.publishStatus('RUNNING');
+
+    this.worker = createWorker(
+      QUEUES.TOKEN_VALIDATOR_EVENTS,
+      async (job) => {
+        await this.processDiscovery(extractEvent(job));
+      },
+      { concurrency: config.concurrency },
+      {
+        onFailed: (job, error) => {
+          this.metrics.errors++;
+          logger.error(`Discovery job ${job?.id} failed`, { error: error.message });
+        },
+      },
+    );
+
+    this.statusTimer = setInterval(async () => {
+      if (this.running) {
+        await this.publishStatus('RUNNING');
+      }
+    }, config.statusIntervalMs);
+
+    // BaseWorker.start resolves only when the worker is closed
+    this.worker.start().catch((error) => {
+      this.metrics.errors++;
+      logger.error('Discovery events worker stopped unexpectedly', { error });
+    });
+
+    logger.info(`${config.workerName} worker started`);
+  }
+
+  /**
+   * Stop the worker
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      logger.info('Worker is not running');
+      return;
+    }
+
+    logger.info(`Stopping ${config.workerName} worker...`);
+    this.running = false;
+
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+
+    await this.worker?.stop();
+    await this.publishStatus('STOPPED');
+    await this.redis.quit();
+    await this.prisma.$disconnect();
+
+    logger.info(`${config.workerName} worker stopped`);
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): TokenValidatorMetrics & { uptime: number } {
+    return {
+      ...this.metrics,
+      uptime: Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000),
+    };
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const worker = new TokenValidatorWorker();
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string): Promise<void> => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    await worker.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGUSR2', () => shutdown('SIGUSR2')); // nodemon
+
+  // Handle uncaught errors
+  process.on('uncaughtException', (error) => {
+    logger.error('Uncaught exception', { error });
+    shutdown('UNCAUGHT_EXCEPTION').catch(() => process.exit(1));
+  });
+
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', { error: reason });
+    shutdown('UNHANDLED_REJECTION').catch(() => process.exit(1));
+  });
+
+  // Start the worker
+  await worker.start();
+
+  // Keep the process alive
+  logger.info('Worker is running. Press Ctrl+C to stop.');
+}
+
+// Run if this is the main module
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    logger.error('Failed to start worker', { error });
+    process.exit(1);
+  });
+}
+
+export { TokenValidatorWorker, main };
@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { computeRugRisk, DEFAULT_RISK_WEIGHTS, type RiskInputs } from './risk-model.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const NOW_SECONDS = NOW.getTime() / 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * A token with every factor at zero risk
+ */
+const SAFE: RiskInputs = {
+  mintAuthorityRenounced: true,
+  freezeAuthorityRenounced: true,
+  extensionRisks: [],
+  topHoldersPercent: 0,
+  largestHolderPercent: 0,
+  lp: { burnedPercent: 100, locks: [] },
+  creator: { address: 'creator', earlierPools: 3, pulledPools: 0 },
+  liquidityToMarketCap: 0.2,
+  createdAt: new Date(NOW.getTime() - 7 * DAY_SECONDS * 1000),
+};
+
+function factor(inputs: RiskInputs, name: string, weights = DEFAULT_RISK_WEIGHTS) {
+  return computeRugRisk(inputs, weights, NOW).factors.find((entry) => entry.factor === name);
+}
+
+describe('computeRugRisk', () => {
+  it('should score a token without risks at zero', () => {
+    const assessment = computeRugRisk(SAFE, DEFAULT_RISK_WEIGHTS, NOW);
+
+    expect(assessment.score).toBe(0);
+    expect(assessment.factors.map((entry) => entry.factor)).toEqual([
+      'AUTHORITY',
+      'HOLDER_CONCENTRATION',
+      'LP_LOCK_DURATION',
+      'CREATOR_HISTORY',
+      'LIQUIDITY_DEPTH',
+      'POOL_AGE',
+    ]);
+    expect(factor(SAFE, 'AUTHORITY')?.reason).toBe(
+      'Mint and freeze authorities renounced, no risky extensions',
+    );
+  });
+
+  it('should apply configured weights and leave out factors that cannot be assessed', () => {
+    const inputs: RiskInputs = {
+      ...SAFE,
+      mintAuthorityRenounced: false,
+      freezeAuthorityRenounced: false,
+      lp: undefined,
+      creator: undefined,
+    };
+    const weights = { ...DEFAULT_RISK_WEIGHTS, AUTHORITY: 0.6, HOLDER_CONCENTRATION: 0.2 };
+
+    const assessment = computeRugRisk(inputs, weights, NOW);
+
+    // Authority risk 0.8 at weight 0.6 of the 0.6 + 0.2 + 0.1 + 0.1 assessed
+    expect(assessment.score).toBe(48);
+    expect(factor(inputs, 'AUTHORITY', weights)).toEqual({
+      factor: 'AUTHORITY',
+      weight: 0.6,
+      risk: 0.8,
+      contribution: 48,
+      reason: 'Mint authority active, freeze authority active',
+    });
+    expect(factor(inputs, 'LP_LOCK_DURATION', weights)).toMatchObject({
+      risk: null,
+      contribution: 0,
+      reason: 'No LP token to check',
+    });
+    expect(factor(inputs, 'CREATOR_HISTORY', weights)?.risk).toBeNull();
+  });
+
+  it('should secure timed locks by the time left and ignore locks with an unknown unlock', () => {
+    const unlockTime = NOW_SECONDS + 73 * DAY_SECONDS;
+    const inputs: RiskInputs = {
+      ...SAFE,
+      lp: {
+        burnedPercent: 40,
+        locks: [
+          { program: 'raydium-lock', percent: 20, unlockTime: null },
+          { program: 'jupiter-lock', percent: 30, unlockTime },
+          { program: 'streamflow', percent: 10, unlockTime: undefined },
+        ],
+      },
+    };
+
+    // 40 burned + 20 permanent + 30 * 73/365 = 66% secured
+    expect(factor(inputs, 'LP_LOCK_DURATION', DEFAULT_RISK_WEIGHTS)).toMatchObject({
+      risk: 0.34,
+      reason:
+        '40% of LP tokens burned, 60% locked, first unlock 2026-12-31T12:00:00.000Z, ' +
+        '10% with an unknown unlock time',
+    });
+  });
+
+  it('should rate creator history, liquidity depth and pool age', () => {
+    const inputs: RiskInputs = {
+      ...SAFE,
+      creator: { address: 'creator', earlierPools: 4, pulledPools: 3 },
+      liquidityToMarketCap: 0.025,
+      createdAt: new Date(NOW.getTime() - 6 * 3_600_000),
+    };
+
+    expect(factor(inputs, 'CREATOR_HISTORY')).toMatchObject({
+      risk: 0.75,
+      reason: 'Creator creator pulled liquidity from 3 of 4 earlier pools',
+    });
+    expect(factor(inputs, 'LIQUIDITY_DEPTH')).toMatchObject({
+      risk: 0.75,
+      reason: 'Liquidity is 2.5% of the market cap',
+    });
+    expect(factor(inputs, 'POOL_AGE')).toMatchObject({
+      risk: 0.9167,
+      reason: 'Created 6 hours before validation',
+    });
+    expect(
+      factor(
+        { ...inputs, creator: { address: 'new', earlierPools: 0, pulledPools: 0 } },
+        'CREATOR_HISTORY',
+      )?.risk,
+    ).toBe(0.5);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Rug-risk model
+ * Scores a token from 0 (safe) to 100 as a weighted sum of independent risk factors,
+ * keeping each factor's risk, contribution and reason so the score can be explained
+ */
+
+import type { RugRiskAssessment, RugRiskFactor, RugRiskFactorName } from '@solana-eda/types';
+import { clamp } from './token-checks.js';
+
+/**
+ * Relative weight of each factor, normalized over the factors that can be assessed
+ */
+export type RiskWeights = Record<RugRiskFactorName, number>;
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  AUTHORITY: 0.25,
+  HOLDER_CONCENTRATION: 0.2,
+  LP_LOCK_DURATION: 0.25,
+  CREATOR_HISTORY: 0.1,
+  LIQUIDITY_DEPTH: 0.1,
+  POOL_AGE: 0.1,
+};
+
+/**
+ * Share of the supply held by the top holders at which concentration is at full risk
+ */
+const HIGH_CONCENTRATION_PERCENT = 50;
+
+/**
+ * Lock duration at which locked LP tokens count as fully secured
+ */
+const FULL_LOCK_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * Liquidity to market cap ratio at which depth carries no risk
+ */
+const HEALTHY_LIQUIDITY_RATIO = 0.1;
+
+/**
+ * Age at which a pool no longer carries launch risk
+ */
+const MATURE_POOL_HOURS = 72;
+
+/**
+ * Risk of a creator without earlier pools
+ */
+const UNKNOWN_CREATOR_RISK = 0.5;
+
+export interface LpLock {
+  /** Locker program holding the LP tokens */
+  program: string;
+  /** Share of the LP tokens, in percent */
+  percent: number;
+  /** Unix time (seconds) the tokens unlock, null when permanent, undefined when unknown */
+  unlockTime: number | null | undefined;
+}
+
+export interface RiskInputs {
+  mintAuthorityRenounced: boolean;
+  freezeAuthorityRenounced: boolean;
+  /** Token-2022 extensions taking funds out of the holders' control */
+  extensionRisks: string[];
+  topHoldersPercent: number;
+  largestHolderPercent: number;
+  /** Absent when the token has no LP token */
+  lp?: {
+    burnedPercent: number;
+    locks: LpLock[];
+  };
+  /** Absent when the creator is unknown */
+  creator?: {
+    address: string;
+    earlierPools: number;
+    /** Earlier pools whose liquidity was pulled */
+    pulledPools: number;
+  };
+  /** Pool TVL divided by the token's market cap, absent without a priced pool */
+  liquidityToMarketCap?: number;
+  /** When the pool or market was created */
+  createdAt: Date;
+}
+
+interface FactorAssessment {
+  risk: number | null;
+  reason: string;
+}
+
+/**
+ * Score the rug risk of a token with a per-factor breakdown.
+ * Factors that cannot be assessed get a null risk and are left out of the weighting.
+ */
+export function computeRugRisk(
+  inputs: RiskInputs,
+  weights: RiskWeights,
+  now: Date = new Date(),
+): RugRiskAssessment {
+  const assessments: Record<RugRiskFactorName, FactorAssessment> = {
+    AUTHORITY: assessAuthority(inputs),
+    HOLDER_CONCENTRATION: assessHolderConcentration(inputs),
+    LP_LOCK_DURATION: assessLpLockDuration(inputs, now),
+    CREATOR_HISTORY: assessCreatorHistory(inputs),
+    LIQUIDITY_DEPTH: assessLiquidityDepth(inputs),
+    POOL_AGE: assessPoolAge(inputs, now),
+  };
+
+  const names = Object.keys(assessments) as RugRiskFactorName[];
+  const assessedWeight = names
+    .filter((name) => assessments[name].risk !== null)
+    .reduce((sum, name) => sum + weights[name], 0);
+
+  let score = 0;
+  const factors: RugRiskFactor[] = names.map((name) => {
+    const { risk, reason } = assessments[name];
+    const contribution =
+      risk === null || assessedWeight === 0 ? 0 : (100 * weights[name] * risk) / assessedWeight;
+    score += contribution;
+    return {
+      factor: name,
+      weight: weights[name],
+      risk: risk === null ? null : round(risk, 4),
+      contribution: round(contribution, 2),
+      reason,
+    };
+  });
+
+  return { score: round(score, 2), factors };
+}
+
+/**
+ * Mint and freeze authorities weigh 40% each, risky Token-2022 extensions 20%
+ */
+function assessAuthority(inputs: RiskInputs): FactorAssessment {
+  const issues: string[] = [];
+  if (!inputs.mintAuthorityRenounced) {
+    issues.push('mint authority active');
+  }
+  if (!inputs.freezeAuthorityRenounced) {
+    issues.push('freeze authority active');
+  }
+  issues.push(...inputs.extensionRisks);
+
+  const risk =
+    (inputs.mintAuthorityRenounced ? 0 : 0.4) +
+    (inputs.freezeAuthorityRenounced ? 0 : 0.4) +
+    (inputs.extensionRisks.length > 0 ? 0.2 : 0);
+
+  return {
+    risk,
+    reason:
+      issues.length > 0
+        ? capitalize(issues.join(', '))
+        : 'Mint and freeze authorities renounced, no risky extensions',
+  };
+}
+
+function assessHolderConcentration(inputs: RiskInputs): FactorAssessment {
+  return {
+    risk: clamp(inputs.topHoldersPercent / HIGH_CONCENTRATION_PERCENT),
+    reason:
+      `Top holders own ${inputs.topHoldersPercent}% of the supply ` +
+      `(largest ${inputs.largestHolderPercent}%)`,
+  };
+}
+
+/**
+ * Burned and permanently locked LP tokens are fully secured, timed locks in proportion to
+ * the time left up to a year, locks with an unknown unlock time not at all
+ */
+function assessLpLockDuration(inputs: RiskInputs, now: Date): FactorAssessment {
+  if (!inputs.lp) {
+    return { risk: null, reason: 'No LP token to check' };
+  }
+
+  const nowSeconds = now.getTime() / 1000;
+  let secured = inputs.lp.burnedPercent;
+  let lockedPercent = 0;
+  let shortestUnlock: number | undefined;
+  let unknownPercent = 0;
+
+  for (const lock of inputs.lp.locks) {
+    lockedPercent += lock.percent;
+    if (lock.unlockTime === null) {
+      secured += lock.percent;
+    } else if (lock.unlockTime === undefined) {
+      unknownPercent += lock.percent;
+    } else {
+      secured += lock.percent * clamp((lock.unlockTime - nowSeconds) / FULL_LOCK_SECONDS);
+      shortestUnlock = Math.min(shortestUnlock ?? Infinity, lock.unlockTime);
+    }
+  }
+
+  const details = [
+    `${inputs.lp.burnedPercent}% of LP tokens burned`,
+    `${round(lockedPercent, 4)}% locked`,
+  ];
+  if (shortestUnlock !== undefined) {
+    details.push(`first unlock ${new Date(shortestUnlock * 1000).toISOString()}`);
+  }
+  if (unknownPercent > 0) {
+    details.push(`${round(unknownPercent, 4)}% with an unknown unlock time`);
+  }
+
+  return { risk: clamp(1 - secured / 100), reason: details.join(', ') };
+}
+
+function assessCreatorHistory(inputs: RiskInputs): FactorAssessment {
+  if (!inputs.creator) {
+    return { risk: null, reason: 'Creator unknown' };
+  }
+
+  const { address, earlierPools, pulledPools } = inputs.creator;
+  if (earlierPools === 0) {
+    return { risk: UNKNOWN_CREATOR_RISK, reason: `Creator ${address} has no earlier pools` };
+  }
+
+  return {
+    risk: pulledPools / earlierPools,
+    reason: `Creator ${address} pulled liquidity from ${pulledPools} of ${earlierPools} earlier pools`,
+  };
+}
+
+function assessLiquidityDepth(inputs: RiskInputs): FactorAssessment {
+  if (inputs.liquidityToMarketCap === undefined) {
+    return { risk: null, reason: 'No priced pool to compare with the market cap' };
+  }
+
+  return {
+    risk: clamp(1 - inputs.liquidityToMarketCap / HEALTHY_LIQUIDITY_RATIO),
+    reason: `Liquidity is ${round(inputs.liquidityToMarketCap * 100, 2)}% of the market cap`,
+  };
+}
+
+function assessPoolAge(inputs: RiskInputs, now: Date): FactorAssessment {
+  const ageHours = Math.max(0, (now.getTime() - inputs.createdAt.getTime()) / 3_600_000);
+  return {
+    risk: clamp(1 - ageHours / MATURE_POOL_HOURS),
+    reason: `Created ${round(ageHours, 1)} hours before validation`,
+  };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
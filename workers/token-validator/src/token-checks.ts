@@ -0,0 +1,328 @@
+/**
+ * Token safety checks
+ * Decodes SPL Token / Token-2022 mints and scores the results of the safety checks
+ */
+
+import { PublicKey } from '@solana/web3.js';
+
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+/**
+ * Address LP tokens are sent to when they are burned by transfer instead of a Burn instruction
+ */
+export const INCINERATOR_ADDRESS = '1nc1nerator11111111111111111111111111111111';
+
+/**
+ * Token lock programs holding LP tokens in escrow
+ */
+export const STREAMFLOW_PROGRAM_ID = 'strmRqUCoQUgGUan5YhzUZa6KqdzwX5L6FpUxfmKg5m';
+export const JUPITER_LOCK_PROGRAM_ID = 'LocpQgucEQHbqNABEYvBvwoxCPsSbG91A1QaQhQQqjn';
+export const RAYDIUM_LOCK_PROGRAM_ID = 'LockrWmn6K5twhz3y9w1dQERbmgSaRkfnTeTKbpofwE';
+
+export const MINT_SIZE = 82;
+
+/**
+ * Token-2022 pads mints with extensions to the token account size, then stores the
+ * account type and the extensions as type-length-value entries
+ */
+const TOKEN_2022_ACCOUNT_TYPE_OFFSET = 165;
+const TOKEN_2022_EXTENSIONS_OFFSET = 166;
+const TOKEN_2022_MINT_ACCOUNT_TYPE = 1;
+
+const EXTENSION_TYPES = {
+  transferFeeConfig: 1,
+  permanentDelegate: 12,
+  transferHook: 14,
+} as const;
+
+/**
+ * Mint field offsets
+ */
+const MINT_OFFSETS = {
+  mintAuthorityOption: 0,
+  mintAuthority: 4,
+  supply: 36,
+  decimals: 44,
+  freezeAuthorityOption: 46,
+  freezeAuthority: 50,
+} as const;
+
+/**
+ * Offsets inside the extension values
+ */
+const TRANSFER_FEE_NEWER_BASIS_POINTS_OFFSET = 106;
+const TRANSFER_HOOK_PROGRAM_ID_OFFSET = 32;
+
+export interface MintExtensions {
+  /** Transfer fee of the newest fee schedule, in basis points */
+  transferFeeBps?: number;
+  /** Delegate able to transfer or burn from every account */
+  permanentDelegate?: string;
+  /** Program invoked on every transfer */
+  transferHookProgram?: string;
+}
+
+export interface MintInfo {
+  supply: bigint;
+  decimals: number;
+  /** Null when the authority was renounced */
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  extensions: MintExtensions;
+}
+
+/**
+ * Outcome of the individual checks, percentages are 0-100
+ */
+export interface TokenChecks {
+  mintAuthorityRenounced: boolean;
+  freezeAuthorityRenounced: boolean;
+  extensions: MintExtensions;
+  topHoldersPercent: number;
+  /** Absent when the token has no LP token to check (markets and concentrated liquidity pools) */
+  lpBurnedPercent?: number;
+  lpLockedPercent?: number;
+}
+
+export interface ConfidenceOptions {
+  /** Highest transfer fee still considered safe, in basis points */
+  maxTransferFeeBps: number;
+}
+
+/**
+ * Weight of each check in the confidence score
+ */
+const CONFIDENCE_WEIGHTS = {
+  mintAuthority: 0.25,
+  freezeAuthority: 0.15,
+  extensions: 0.15,
+  holderConcentration: 0.2,
+  liquidity: 0.25,
+} as const;
+
+function readPublicKey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+/**
+ * OptionalNonZeroPubkey: an all-zero key means None
+ */
+function readOptionalPublicKey(data: Buffer, offset: number): string | undefined {
+  const key = data.subarray(offset, offset + 32);
+  return key.every((byte) => byte === 0) ? undefined : new PublicKey(key).toBase58();
+}
+
+/**
+ * COption<Pubkey>: a 4-byte tag followed by the key
+ */
+function readCOptionPublicKey(data: Buffer, tagOffset: number, keyOffset: number): string | null {
+  return data.readUInt32LE(tagOffset) === 0 ? null : readPublicKey(data, keyOffset);
+}
+
+/**
+ * Decode an SPL Token or Token-2022 mint account
+ */
+export function decodeMint(owner: string, data: Buffer): MintInfo {
+  if (owner !== TOKEN_PROGRAM_ID && owner !== TOKEN_2022_PROGRAM_ID) {
+    throw new Error(`Invalid mint account: owned by ${owner}`);
+  }
+  if (data.length < MINT_SIZE) {
+    throw new Error(
+      `Invalid mint account: expected at least ${MINT_SIZE} bytes, got ${data.length}`,
+    );
+  }
+
+  return {
+    supply: data.readBigUInt64LE(MINT_OFFSETS.supply),
+    decimals: data.readUInt8(MINT_OFFSETS.decimals),
+    mintAuthority: readCOptionPublicKey(
+      data,
+      MINT_OFFSETS.mintAuthorityOption,
+      MINT_OFFSETS.mintAuthority,
+    ),
+    freezeAuthority: readCOptionPublicKey(
+      data,
+      MINT_OFFSETS.freezeAuthorityOption,
+      MINT_OFFSETS.freezeAuthority,
+    ),
+    extensions: owner === TOKEN_2022_PROGRAM_ID ? decodeMintExtensions(data) : {},
+  };
+}
+
+/**
+ * Read the Token-2022 extensions that let the mint take fees, move or block user funds
+ */
+export function decodeMintExtensions(data: Buffer): MintExtensions {
+  const extensions: MintExtensions = {};
+  if (
+    data.length <= TOKEN_2022_EXTENSIONS_OFFSET ||
+    data.readUInt8(TOKEN_2022_ACCOUNT_TYPE_OFFSET) !== TOKEN_2022_MINT_ACCOUNT_TYPE
+  ) {
+    return extensions;
+  }
+
+  let offset = TOKEN_2022_EXTENSIONS_OFFSET;
+  while (offset + 4 <= data.length) {
+    const type = data.readUInt16LE(offset);
+    const length = data.readUInt16LE(offset + 2);
+    const value = data.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+
+    if (value.length < length) {
+      break;
+    }
+
+    switch (type) {
+      case EXTENSION_TYPES.transferFeeConfig:
+        extensions.transferFeeBps = value.readUInt16LE(TRANSFER_FEE_NEWER_BASIS_POINTS_OFFSET);
+        break;
+      case EXTENSION_TYPES.permanentDelegate:
+        extensions.permanentDelegate = readOptionalPublicKey(value, 0);
+        break;
+      case EXTENSION_TYPES.transferHook:
+        extensions.transferHookProgram = readOptionalPublicKey(
+          value,
+          TRANSFER_HOOK_PROGRAM_ID_OFFSET,
+        );
+        break;
+    }
+  }
+
+  return extensions;
+}
+
+/**
+ * Read the owner of an SPL token account
+ */
+export function decodeTokenAccountOwner(data: Buffer): string {
+  return readPublicKey(data, 32);
+}
+
+/**
+ * Whether the owner of a token account is a wallet rather than a program-derived address.
+ * Pool vaults, market vaults and locker escrows are all owned by PDAs.
+ */
+export function isWalletOwner(owner: string): boolean {
+  return PublicKey.isOnCurve(new PublicKey(owner).toBytes());
+}
+
+/**
+ * Share of `total` represented by `amount`, as a percentage
+ */
+export function toPercent(amount: bigint, total: bigint): number {
+  if (total <= 0n) {
+    return 0;
+  }
+  return Number((amount * 1_000_000n) / total) / 10_000;
+}
+
+/**
+ * Token-2022 extensions that take holders' funds out of their control
+ */
+export function getExtensionRisks(extensions: MintExtensions, maxTransferFeeBps: number): string[] {
+  const risks: string[] = [];
+  if (extensions.permanentDelegate) {
+    risks.push('permanent delegate');
+  }
+  if (extensions.transferHookProgram) {
+    risks.push('transfer hook');
+  }
+  if ((extensions.transferFeeBps ?? 0) > maxTransferFeeBps) {
+    risks.push(`${extensions.transferFeeBps} bps transfer fee`);
+  }
+  return risks;
+}
+
+/**
+ * Whether the Token-2022 extensions leave holders in control of their funds
+ */
+export function hasSafeExtensions(extensions: MintExtensions, maxTransferFeeBps: number): boolean {
+  return getExtensionRisks(extensions, maxTransferFeeBps).length === 0;
+}
+
+/**
+ * Jupiter Lock VestingEscrow fields: tokens unlock at cliff_time, then every `frequency`
+ * seconds for `number_of_period` periods
+ */
+const JUPITER_LOCK_ESCROW_OFFSETS = {
+  cancelMode: 138,
+  cliffTime: 144,
+  frequency: 152,
+  numberOfPeriod: 176,
+  cancelledAt: 200,
+} as const;
+const JUPITER_LOCK_ESCROW_SIZE = 208;
+
+/**
+ * Cancel modes letting the creator take the tokens back
+ */
+const JUPITER_LOCK_CREATOR_CANCEL_MODES = new Set([1, 3]);
+
+/**
+ * Time (unix seconds) a locker escrow releases its tokens.
+ * Null when the lock is permanent, undefined when the locker's escrow layout is unknown.
+ * A lock its creator can cancel releases the tokens now.
+ */
+export function decodeLockUnlockTime(
+  program: string,
+  escrowData: Buffer | undefined,
+  now: number,
+): number | null | undefined {
+  // Raydium locks liquidity permanently
+  if (program === RAYDIUM_LOCK_PROGRAM_ID) {
+    return null;
+  }
+
+  if (
+    program !== JUPITER_LOCK_PROGRAM_ID ||
+    !escrowData ||
+    escrowData.length < JUPITER_LOCK_ESCROW_SIZE
+  ) {
+    return undefined;
+  }
+
+  const offsets = JUPITER_LOCK_ESCROW_OFFSETS;
+  if (
+    escrowData.readBigUInt64LE(offsets.cancelledAt) > 0n ||
+    JUPITER_LOCK_CREATOR_CANCEL_MODES.has(escrowData.readUInt8(offsets.cancelMode))
+  ) {
+    return now;
+  }
+
+  return Number(
+    escrowData.readBigUInt64LE(offsets.cliffTime) +
+      escrowData.readBigUInt64LE(offsets.frequency) *
+        escrowData.readBigUInt64LE(offsets.numberOfPeriod),
+  );
+}
+
+/**
+ * Combine the checks into a confidence score between 0 and 1.
+ * Liquidity counts with the share of LP tokens burned or locked and is left out of the
+ * weighting when there is no LP token.
+ */
+export function computeConfidence(checks: TokenChecks, options: ConfidenceOptions): number {
+  const scores: Array<[weight: number, score: number]> = [
+    [CONFIDENCE_WEIGHTS.mintAuthority, checks.mintAuthorityRenounced ? 1 : 0],
+    [CONFIDENCE_WEIGHTS.freezeAuthority, checks.freezeAuthorityRenounced ? 1 : 0],
+    [
+      CONFIDENCE_WEIGHTS.extensions,
+      hasSafeExtensions(checks.extensions, options.maxTransferFeeBps) ? 1 : 0,
+    ],
+    [CONFIDENCE_WEIGHTS.holderConcentration, clamp(1 - checks.topHoldersPercent / 100)],
+  ];
+
+  if (checks.lpBurnedPercent !== undefined || checks.lpLockedPercent !== undefined) {
+    const secured = (checks.lpBurnedPercent ?? 0) + (checks.lpLockedPercent ?? 0);
+    scores.push([CONFIDENCE_WEIGHTS.liquidity, clamp(secured / 100)]);
+  }
+
+  const totalWeight = scores.reduce((sum, [weight]) => sum + weight, 0);
+  const weighted = scores.reduce((sum, [weight, score]) => sum + weight * score, 0);
+  return Math.round((weighted / totalWeight) * 10_000) / 10_000;
+}
+
+export function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,467 @@
+import { describe, it, expect } from '@jest/globals';
+import { createHash } from 'node:crypto';
+import { Keypair, PublicKey, type AccountInfo } from '@solana/web3.js';
+import {
+  INCINERATOR_ADDRESS,
+  JUPITER_LOCK_PROGRAM_ID,
+  MINT_SIZE,
+  RAYDIUM_LOCK_PROGRAM_ID,
+  STREAMFLOW_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  computeConfidence,
+  decodeLockUnlockTime,
+  decodeMint,
+  decodeMintExtensions,
+  isWalletOwner,
+} from './token-checks.js';
+import { DEFAULT_RISK_WEIGHTS } from './risk-model.js';
+import {
+  TokenValidator,
+  type BurnTotalsSource,
+  type CreatorPoolsSource,
+  type TokenAccountSource,
+  type TokenValidatorOptions,
+} from './token-validator.js';
+
+const OPTIONS: TokenValidatorOptions = {
+  lockerPrograms: [JUPITER_LOCK_PROGRAM_ID],
+  minLpSecuredPercent: 90,
+  maxTransferFeeBps: 100,
+  topHolderCount: 10,
+  riskWeights: DEFAULT_RISK_WEIGHTS,
+};
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const NOW_SECONDS = NOW.getTime() / 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Deterministic wallet address (on the ed25519 curve) for a label
+ */
+function wallet(label: string): string {
+  return Keypair.fromSeed(createHash('sha256').update(label).digest()).publicKey.toBase58();
+}
+
+/**
+ * Deterministic program-derived address for a label
+ */
+function pda(label: string): string {
+  return PublicKey.findProgramAddressSync(
+    [createHash('sha256').update(label).digest()],
+    new PublicKey(TOKEN_PROGRAM_ID),
+  )[0].toBase58();
+}
+
+interface MintFixture {
+  supply: bigint;
+  decimals?: number;
+  mintAuthority?: string;
+  freezeAuthority?: string;
+  /** Token-2022 extensions as type-length-value entries */
+  extensions?: Array<{ type: number; value: Buffer }>;
+}
+
+function mintData(fixture: MintFixture): Buffer {
+  const base = Buffer.alloc(MINT_SIZE);
+  if (fixture.mintAuthority) {
+    base.writeUInt32LE(1, 0);
+    new PublicKey(fixture.mintAuthority).toBuffer().copy(base, 4);
+  }
+  base.writeBigUInt64LE(fixture.supply, 36);
+  base.writeUInt8(fixture.decimals ?? 6, 44);
+  base.writeUInt8(1, 45);
+  if (fixture.freezeAuthority) {
+    base.writeUInt32LE(1, 46);
+    new PublicKey(fixture.freezeAuthority).toBuffer().copy(base, 50);
+  }
+
+  if (!fixture.extensions) {
+    return base;
+  }
+
+  // Padding up to the token account size, then the account type and the extensions
+  const header = Buffer.alloc(165 - MINT_SIZE + 1);
+  header.writeUInt8(1, header.length - 1);
+  const entries = fixture.extensions.map(({ type, value }) => {
+    const entry = Buffer.alloc(4);
+    entry.writeUInt16LE(type, 0);
+    entry.writeUInt16LE(value.length, 2);
+    return Buffer.concat([entry, value]);
+  });
+  return Buffer.concat([base, header, ...entries]);
+}
+
+function tokenAccountData(mint: string, owner: string, amount: bigint): Buffer {
+  const data = Buffer.alloc(165);
+  new PublicKey(mint).toBuffer().copy(data, 0);
+  new PublicKey(owner).toBuffer().copy(data, 32);
+  data.writeBigUInt64LE(amount, 64);
+  return data;
+}
+
+/**
+ * Account source serving fixed accounts and largest token accounts per mint
+ */
+class FixtureSource implements TokenAccountSource {
+  private accounts = new Map<string, AccountInfo<Buffer>>();
+  private largest = new Map<string, Array<{ address: string; amount: bigint }>>();
+
+  setAccount(address: string, owner: string, data: Buffer): this {
+    this.accounts.set(address, {
+      data,
+      owner: new PublicKey(owner),
+      executable: false,
+      lamports: 1,
+    });
+    return this;
+  }
+
+  setMint(address: string, fixture: MintFixture, program: string = TOKEN_PROGRAM_ID): this {
+    return this.setAccount(address, program, mintData(fixture));
+  }
+
+  /**
+   * Add a token account of a mint, listed among its largest accounts
+   */
+  addHolder(mint: string, owner: string, amount: bigint): this {
+    const address = pda(`${mint}:${owner}:${amount}`);
+    this.setAccount(address, TOKEN_PROGRAM_ID, tokenAccountData(mint, owner, amount));
+    const holders = this.largest.get(mint) ?? [];
+    holders.push({ address, amount });
+    holders.sort((a, b) => (a.amount > b.amount ? -1 : 1));
+    this.largest.set(mint, holders);
+    return this;
+  }
+
+  async getMultipleAccountsInfo(publicKeys: PublicKey[]) {
+    return publicKeys.map((key) => this.accounts.get(key.toBase58()) ?? null);
+  }
+
+  async getTokenLargestAccounts(mintAddress: PublicKey) {
+    const holders = this.largest.get(mintAddress.toBase58()) ?? [];
+    return {
+      context: { slot: 300_000_000 },
+      value: holders.map(({ address, amount }) => ({
+        address: new PublicKey(address),
+        amount: amount.toString(),
+        decimals: 6,
+        uiAmount: null,
+        uiAmountString: amount.toString(),
+      })),
+    };
+  }
+}
+
+/**
+ * Jupiter Lock escrow releasing its tokens `frequency * periods` seconds after the cliff
+ */
+function jupiterEscrowData(
+  cliffTime: number,
+  options: { frequency?: number; periods?: number; cancelMode?: number } = {},
+): Buffer {
+  const data = Buffer.alloc(208);
+  data.writeUInt8(options.cancelMode ?? 0, 138);
+  data.writeBigUInt64LE(BigInt(cliffTime), 144);
+  data.writeBigUInt64LE(BigInt(options.frequency ?? 0), 152);
+  data.writeBigUInt64LE(BigInt(options.periods ?? 0), 176);
+  return data;
+}
+
+function burnTotals(totals: Record<string, { amount: string; count: number }>): BurnTotalsSource {
+  return {
+    getTotalBurnedByToken: async (token) => totals[token] ?? { amount: '0', count: 0 },
+  };
+}
+
+function creatorPools(
+  pools: Record<string, Array<{ address: string; initialTvl: number; currentTvl: number | null }>>,
+): CreatorPoolsSource {
+  return {
+    getCreatorPools: async (creator) => pools[creator] ?? [],
+  };
+}
+
+const TOKEN = wallet('token-mint');
+const LP_MINT = wallet('lp-mint');
+const AUTHORITY = wallet('authority');
+const CREATOR = wallet('creator');
+const POOL = pda('pool');
+
+describe('token checks', () => {
+  it('should decode mint and freeze authorities', () => {
+    const renounced = decodeMint(TOKEN_PROGRAM_ID, mintData({ supply: 1_000n, decimals: 9 }));
+    const kept = decodeMint(
+      TOKEN_PROGRAM_ID,
+      mintData({ supply: 1_000n, mintAuthority: AUTHORITY, freezeAuthority: AUTHORITY }),
+    );
+
+    expect(renounced).toEqual({
+      supply: 1_000n,
+      decimals: 9,
+      mintAuthority: null,
+      freezeAuthority: null,
+      extensions: {},
+    });
+    expect(kept.mintAuthority).toBe(AUTHORITY);
+    expect(kept.freezeAuthority).toBe(AUTHORITY);
+  });
+
+  it('should reject accounts that are not mints', () => {
+    expect(() => decodeMint(JUPITER_LOCK_PROGRAM_ID, mintData({ supply: 1n }))).toThrow(
+      'Invalid mint account',
+    );
+    expect(() => decodeMint(TOKEN_PROGRAM_ID, Buffer.alloc(40))).toThrow('Invalid mint account');
+  });
+
+  it('should read the transfer fee, permanent delegate and transfer hook extensions', () => {
+    const transferFee = Buffer.alloc(108);
+    transferFee.writeUInt16LE(50, 88); // older fee
+    transferFee.writeUInt16LE(250, 106); // newer fee
+    const transferHook = Buffer.alloc(64);
+    new PublicKey(JUPITER_LOCK_PROGRAM_ID).toBuffer().copy(transferHook, 32);
+    const data = mintData({
+      supply: 1n,
+      extensions: [
+        { type: 1, value: transferFee },
+        { type: 12, value: new PublicKey(AUTHORITY).toBuffer() },
+        { type: 14, value: transferHook },
+      ],
+    });
+
+    expect(decodeMintExtensions(data)).toEqual({
+      transferFeeBps: 250,
+      permanentDelegate: AUTHORITY,
+      transferHookProgram: JUPITER_LOCK_PROGRAM_ID,
+    });
+    expect(decodeMint(TOKEN_2022_PROGRAM_ID, data).extensions.transferFeeBps).toBe(250);
+    // Extensions are only read for Token-2022 mints
+    expect(decodeMint(TOKEN_PROGRAM_ID, data).extensions).toEqual({});
+  });
+
+  it('should treat an unset permanent delegate or transfer hook as absent', () => {
+    const data = mintData({
+      supply: 1n,
+      extensions: [
+        { type: 12, value: Buffer.alloc(32) },
+        { type: 14, value: Buffer.alloc(64) },
+      ],
+    });
+
+    expect(decodeMintExtensions(data)).toEqual({
+      permanentDelegate: undefined,
+      transferHookProgram: undefined,
+    });
+  });
+
+  it('should tell wallets from program-derived addresses', () => {
+    expect(isWalletOwner(wallet('holder'))).toBe(true);
+    expect(isWalletOwner(pda('vault'))).toBe(false);
+    expect(isWalletOwner(INCINERATOR_ADDRESS)).toBe(false);
+  });
+
+  it('should weight the checks into a confidence score', () => {
+    const safe = {
+      mintAuthorityRenounced: true,
+      freezeAuthorityRenounced: true,
+      extensions: {},
+      topHoldersPercent: 0,
+      lpBurnedPercent: 100,
+      lpLockedPercent: 0,
+    };
+    const options = { maxTransferFeeBps: 100 };
+
+    expect(computeConfidence(safe, options)).toBe(1);
+    expect(computeConfidence({ ...safe, mintAuthorityRenounced: false }, options)).toBe(0.75);
+    expect(computeConfidence({ ...safe, lpBurnedPercent: 0 }, options)).toBe(0.75);
+    expect(computeConfidence({ ...safe, extensions: { transferFeeBps: 500 } }, options)).toBe(0.85);
+    // Without an LP token the liquidity weight is left out
+    expect(
+      computeConfidence(
+        { ...safe, lpBurnedPercent: undefined, lpLockedPercent: undefined, topHoldersPercent: 50 },
+        options,
+      ),
+    ).toBe(0.8667);
+  });
+
+  it('should read when locker escrows release their tokens', () => {
+    expect(
+      decodeLockUnlockTime(
+        JUPITER_LOCK_PROGRAM_ID,
+        jupiterEscrowData(NOW_SECONDS + DAY_SECONDS, { frequency: DAY_SECONDS, periods: 30 }),
+        NOW_SECONDS,
+      ),
+    ).toBe(NOW_SECONDS + 31 * DAY_SECONDS);
+    // The creator can cancel the lock and take the tokens back
+    expect(
+      decodeLockUnlockTime(
+        JUPITER_LOCK_PROGRAM_ID,
+        jupiterEscrowData(NOW_SECONDS + DAY_SECONDS, { cancelMode: 1 }),
+        NOW_SECONDS,
+      ),
+    ).toBe(NOW_SECONDS);
+    expect(decodeLockUnlockTime(RAYDIUM_LOCK_PROGRAM_ID, undefined, NOW_SECONDS)).toBeNull();
+    expect(
+      decodeLockUnlockTime(STREAMFLOW_PROGRAM_ID, Buffer.alloc(1024), NOW_SECONDS),
+    ).toBeUndefined();
+  });
+});
+
+describe('TokenValidator', () => {
+  it('should validate a pool token with burned and locked LP tokens', async () => {
+    const escrow = wallet('escrow-state');
+    const source = new FixtureSource()
+      .setMint(TOKEN, { supply: 1_000_000n, decimals: 0 })
+      .setMint(LP_MINT, { supply: 1_000n })
+      // Pool vault owned by the pool authority, not a holder
+      .addHolder(TOKEN, pda('pool-authority'), 500_000n)
+      .addHolder(TOKEN, wallet('whale'), 100_000n)
+      .addHolder(TOKEN, wallet('whale'), 50_000n)
+      .addHolder(TOKEN, wallet('holder'), 50_000n)
+      .addHolder(LP_MINT, INCINERATOR_ADDRESS, 200n)
+      .addHolder(LP_MINT, escrow, 700n)
+      .addHolder(LP_MINT, wallet('creator'), 100n)
+      .setAccount(
+        escrow,
+        JUPITER_LOCK_PROGRAM_ID,
+        jupiterEscrowData(NOW_SECONDS + 180 * DAY_SECONDS),
+      );
+    const validator = new TokenValidator(
+      {
+        accounts: source,
+        burns: burnTotals({ [LP_MINT]: { amount: '1000', count: 2 } }),
+        creatorPools: creatorPools({
+          [CREATOR]: [
+            { address: POOL, initialTvl: 50, currentTvl: 50 },
+            { address: pda('rugged-pool'), initialTvl: 100, currentTvl: 5 },
+            { address: pda('live-pool'), initialTvl: 100, currentTvl: 80 },
+            { address: pda('untracked-pool'), initialTvl: 100, currentTvl: null },
+          ],
+        }),
+      },
+      OPTIONS,
+    );
+
+    const validation = await validator.validate(
+      {
+        token: TOKEN,
+        createdAt: new Date(NOW.getTime() - 18 * 3_600_000),
+        pool: {
+          address: POOL,
+          lpMint: LP_MINT,
+          creator: CREATOR,
+          tvl: 50,
+          price: 0.001,
+          isTokenA: true,
+        },
+      },
+      NOW,
+    );
+
+    expect(validation).toMatchObject({
+      token: TOKEN,
+      isRenounced: true,
+      isBurned: false,
+      isLocked: true,
+      lpBurnedCount: 2,
+      validationDetails: {
+        mintAuthorityRenounced: true,
+        freezeAuthorityRenounced: true,
+        supplyBurned: false,
+        supplyBurnedPercent: 0,
+        lpTokensBurned: false,
+        liquidityLocked: true,
+        // 1000 recorded + 200 incinerated of 2000 minted
+        lpBurnedPercent: 60,
+        lpLockedPercent: 35,
+        lockerPrograms: [JUPITER_LOCK_PROGRAM_ID],
+        topHoldersPercent: 20,
+        largestHolderPercent: 15,
+      },
+    });
+    // 0.25 + 0.15 + 0.15 + 0.2 * 0.8 + 0.25 * 0.95
+    expect(validation?.confidence).toBe(0.9475);
+
+    const risk = validation?.validationDetails?.risk;
+    expect(risk?.factors.map(({ factor, risk }) => [factor, risk])).toEqual([
+      ['AUTHORITY', 0],
+      ['HOLDER_CONCENTRATION', 0.4],
+      // 60% burned plus 35% locked for half a year of the full year
+      ['LP_LOCK_DURATION', 0.2274],
+      ['CREATOR_HISTORY', 0.3333],
+      // 50 of TVL against 1,000,000 tokens at 0.001
+      ['LIQUIDITY_DEPTH', 0.5],
+      ['POOL_AGE', 0.75],
+    ]);
+    expect(risk?.score).toBeCloseTo(29.52, 2);
+  });
+
+  it('should flag mint authority, freeze authority and Token-2022 extensions', async () => {
+    const source = new FixtureSource()
+      .setMint(
+        TOKEN,
+        {
+          supply: 1_000n,
+          mintAuthority: AUTHORITY,
+          freezeAuthority: AUTHORITY,
+          extensions: [{ type: 12, value: new PublicKey(AUTHORITY).toBuffer() }],
+        },
+        TOKEN_2022_PROGRAM_ID,
+      )
+      .addHolder(TOKEN, CREATOR, 900n);
+    const validator = new TokenValidator(
+      {
+        accounts: source,
+        burns: burnTotals({ [TOKEN]: { amount: '1000', count: 1 } }),
+        creatorPools: creatorPools({}),
+      },
+      OPTIONS,
+    );
+
+    const validation = await validator.validate({ token: TOKEN, createdAt: NOW }, NOW);
+
+    expect(validation).toMatchObject({
+      isRenounced: false,
+      isBurned: false,
+      isLocked: false,
+      lpBurnedCount: undefined,
+      validationDetails: {
+        mintAuthorityRenounced: false,
+        freezeAuthorityRenounced: false,
+        permanentDelegate: AUTHORITY,
+        supplyBurned: true,
+        supplyBurnedPercent: 50,
+        topHoldersPercent: 90,
+        largestHolderPercent: 90,
+        lpBurnedPercent: undefined,
+      },
+    });
+    // Only the holder check scores, without the liquidity weight: 0.2 * 0.1 / 0.75
+    expect(validation?.confidence).toBe(0.0267);
+    // Markets have no LP token, creator or pool price to assess
+    expect(validation?.validationDetails?.risk).toMatchObject({
+      score: 100,
+      factors: [
+        {
+          factor: 'AUTHORITY',
+          risk: 1,
+          reason: 'Mint authority active, freeze authority active, permanent delegate',
+        },
+        { factor: 'HOLDER_CONCENTRATION', risk: 1 },
+        { factor: 'LP_LOCK_DURATION', risk: null, contribution: 0 },
+        { factor: 'CREATOR_HISTORY', risk: null, contribution: 0 },
+        { factor: 'LIQUIDITY_DEPTH', risk: null, contribution: 0 },
+        { factor: 'POOL_AGE', risk: 1 },
+      ],
+    });
+  });
+
+  it('should return null when the mint account does not exist', async () => {
+    const validator = new TokenValidator(
+      { accounts: new FixtureSource(), burns: burnTotals({}), creatorPools: creatorPools({}) },
+      OPTIONS,
+    );
+
+    expect(await validator.validate({ token: TOKEN, createdAt: NOW })).toBeNull();
+  });
+});
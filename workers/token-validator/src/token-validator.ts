@@ -0,0 +1,376 @@
+/**
+ * Token Validator
+ * Runs the safety checks and the rug-risk model for a token and turns them into
+ * TOKEN_VALIDATED event data
+ */
+
+import {
+  PublicKey,
+  type AccountInfo,
+  type RpcResponseAndContext,
+  type TokenAccountBalancePair,
+} from '@solana/web3.js';
+import type { TokenValidatedEvent } from '@solana-eda/types';
+import { computeRugRisk, type LpLock, type RiskWeights } from './risk-model.js';
+import {
+  INCINERATOR_ADDRESS,
+  computeConfidence,
+  decodeLockUnlockTime,
+  decodeMint,
+  decodeTokenAccountOwner,
+  getExtensionRisks,
+  isWalletOwner,
+  toPercent,
+  type MintInfo,
+  type TokenChecks,
+} from './token-checks.js';
+
+/**
+ * An earlier pool counts as pulled once its TVL fell below this share of the initial TVL
+ */
+const PULLED_LIQUIDITY_RATIO = 0.1;
+
+/**
+ * Subset of the Solana Connection used by the validator.
+ * A Connection satisfies it directly; tests provide fixtures instead.
+ */
+export interface TokenAccountSource {
+  getMultipleAccountsInfo(publicKeys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]>;
+  getTokenLargestAccounts(
+    mintAddress: PublicKey,
+  ): Promise<RpcResponseAndContext<TokenAccountBalancePair[]>>;
+}
+
+/**
+ * Recorded burns of a token, satisfied by the BurnEventRepository
+ */
+export interface BurnTotalsSource {
+  getTotalBurnedByToken(token: string): Promise<{ amount: string; count: number }>;
+}
+
+/**
+ * Pools created by a wallet with their initial and current TVL (null when not tracked)
+ */
+export interface CreatorPoolsSource {
+  getCreatorPools(
+    creator: string,
+  ): Promise<Array<{ address: string; initialTvl: number; currentTvl: number | null }>>;
+}
+
+export interface TokenValidatorDeps {
+  accounts: TokenAccountSource;
+  burns: BurnTotalsSource;
+  creatorPools: CreatorPoolsSource;
+}
+
+export interface TokenValidatorOptions {
+  /** Programs whose escrows count as locked liquidity */
+  lockerPrograms: string[];
+  /** Share of LP tokens that must be burned (or burned and locked) to set the flags */
+  minLpSecuredPercent: number;
+  maxTransferFeeBps: number;
+  topHolderCount: number;
+  riskWeights: RiskWeights;
+}
+
+export interface ValidationTarget {
+  token: string;
+  /** When the pool or market the token was discovered in was created */
+  createdAt: Date;
+  /** Pool the token was discovered in, absent for markets */
+  pool?: {
+    address: string;
+    lpMint?: string;
+    creator?: string;
+    /** TVL and price of token A, both in token B */
+    tvl: number;
+    price?: number;
+    isTokenA: boolean;
+  };
+}
+
+/**
+ * Token validation, without the validation time and transaction added by the worker
+ */
+export type TokenValidation = Omit<TokenValidatedEvent['data'], 'validatedAt' | 'txSignature'>;
+
+interface LiquidityChecks {
+  burnedPercent: number;
+  lockedPercent: number;
+  burnCount: number;
+  locks: LpLock[];
+}
+
+interface HolderAccount {
+  address: string;
+  amount: bigint;
+  owner: string;
+  /** Program and data of the account's owner, when the owner is an account */
+  ownerProgram?: string;
+  ownerData?: Buffer;
+}
+
+export class TokenValidator {
+  private lockerPrograms: Set<string>;
+
+  constructor(
+    private deps: TokenValidatorDeps,
+    private options: TokenValidatorOptions,
+  ) {
+    this.lockerPrograms = new Set(options.lockerPrograms);
+  }
+
+  /**
+   * Validate a token, null when its mint account does not exist
+   */
+  async validate(
+    target: ValidationTarget,
+    now: Date = new Date(),
+  ): Promise<TokenValidation | null> {
+    const lpMint = target.pool?.lpMint;
+    const keys = [target.token, lpMint].filter((key): key is string => key !== undefined);
+    const [mintAccount, lpMintAccount] = await this.deps.accounts.getMultipleAccountsInfo(
+      keys.map((key) => new PublicKey(key)),
+    );
+
+    if (!mintAccount) {
+      return null;
+    }
+
+    const mint = decodeMint(mintAccount.owner.toBase58(), mintAccount.data);
+    const supplyBurned = await this.deps.burns.getTotalBurnedByToken(target.token);
+    const burnedAmount = BigInt(supplyBurned.amount);
+    const holders = await this.checkHolders(target.token, mint.supply);
+
+    const liquidity =
+      lpMint && lpMintAccount
+        ? await this.checkLiquidity(
+            lpMint,
+            decodeMint(lpMintAccount.owner.toBase58(), lpMintAccount.data),
+            now,
+          )
+        : undefined;
+
+    const checks: TokenChecks = {
+      mintAuthorityRenounced: mint.mintAuthority === null,
+      freezeAuthorityRenounced: mint.freezeAuthority === null,
+      extensions: mint.extensions,
+      topHoldersPercent: holders.topHoldersPercent,
+      lpBurnedPercent: liquidity?.burnedPercent,
+      lpLockedPercent: liquidity?.lockedPercent,
+    };
+    const confidence = computeConfidence(checks, {
+      maxTransferFeeBps: this.options.maxTransferFeeBps,
+    });
+
+    // Burned LP tokens secure the liquidity as much as locked ones
+    const lpTokensBurned = (liquidity?.burnedPercent ?? 0) >= this.options.minLpSecuredPercent;
+    const liquidityLocked =
+      (liquidity?.burnedPercent ?? 0) + (liquidity?.lockedPercent ?? 0) >=
+      this.options.minLpSecuredPercent;
+
+    const risk = computeRugRisk(
+      {
+        mintAuthorityRenounced: checks.mintAuthorityRenounced,
+        freezeAuthorityRenounced: checks.freezeAuthorityRenounced,
+        extensionRisks: getExtensionRisks(mint.extensions, this.options.maxTransferFeeBps),
+        topHoldersPercent: holders.topHoldersPercent,
+        largestHolderPercent: holders.largestHolderPercent,
+        lp: liquidity && { burnedPercent: liquidity.burnedPercent, locks: liquidity.locks },
+        creator: target.pool?.creator
+          ? await this.checkCreator(target.pool.creator, target.pool.address)
+          : undefined,
+        liquidityToMarketCap: target.pool ? getLiquidityToMarketCap(target.pool, mint) : undefined,
+        createdAt: target.createdAt,
+      },
+      this.options.riskWeights,
+      now,
+    );
+
+    return {
+      token: target.token,
+      isRenounced: checks.mintAuthorityRenounced,
+      isBurned: lpTokensBurned,
+      isLocked: liquidityLocked,
+      lpBurnedCount: liquidity?.burnCount,
+      confidence,
+      validationDetails: {
+        mintAuthorityRenounced: checks.mintAuthorityRenounced,
+        supplyBurned: burnedAmount > 0n,
+        supplyBurnedPercent: toPercent(burnedAmount, mint.supply + burnedAmount),
+        lpTokensBurned,
+        liquidityLocked,
+        freezeAuthorityRenounced: checks.freezeAuthorityRenounced,
+        ...mint.extensions,
+        lpBurnedPercent: liquidity?.burnedPercent,
+        lpLockedPercent: liquidity?.lockedPercent,
+        lockerPrograms: liquidity ? this.options.lockerPrograms : undefined,
+        topHoldersPercent: holders.topHoldersPercent,
+        largestHolderPercent: holders.largestHolderPercent,
+        risk,
+      },
+    };
+  }
+
+  /**
+   * Earlier pools of a creator and how many of them lost their liquidity
+   */
+  private async checkCreator(
+    creator: string,
+    poolAddress: string,
+  ): Promise<{ address: string; earlierPools: number; pulledPools: number }> {
+    const pools = (await this.deps.creatorPools.getCreatorPools(creator)).filter(
+      (pool) => pool.address !== poolAddress,
+    );
+
+    return {
+      address: creator,
+      earlierPools: pools.length,
+      pulledPools: pools.filter(
+        (pool) =>
+          pool.currentTvl !== null && pool.currentTvl < pool.initialTvl * PULLED_LIQUIDITY_RATIO,
+      ).length,
+    };
+  }
+
+  /**
+   * Share of the supply held by the largest wallets.
+   * Accounts owned by program-derived addresses (pool and market vaults, lockers) are not holders.
+   */
+  private async checkHolders(
+    token: string,
+    supply: bigint,
+  ): Promise<{ topHoldersPercent: number; largestHolderPercent: number }> {
+    const accounts = await this.getLargestAccounts(token, false);
+
+    const byOwner = new Map<string, bigint>();
+    for (const account of accounts) {
+      if (isWalletOwner(account.owner)) {
+        byOwner.set(account.owner, (byOwner.get(account.owner) ?? 0n) + account.amount);
+      }
+    }
+
+    const holdings = [...byOwner.values()]
+      .sort((a, b) => (a > b ? -1 : a < b ? 1 : 0))
+      .slice(0, this.options.topHolderCount);
+    const top = holdings.reduce((sum, amount) => sum + amount, 0n);
+
+    return {
+      topHoldersPercent: toPercent(top, supply),
+      largestHolderPercent: toPercent(holdings[0] ?? 0n, supply),
+    };
+  }
+
+  /**
+   * Share of LP tokens burned or held by locker programs.
+   * Burned LP counts both recorded burns and tokens sent to the incinerator; shares are of the
+   * LP supply before the recorded burns.
+   */
+  private async checkLiquidity(
+    lpMint: string,
+    mint: MintInfo,
+    now: Date,
+  ): Promise<LiquidityChecks> {
+    const recorded = await this.deps.burns.getTotalBurnedByToken(lpMint);
+    const recordedAmount = BigInt(recorded.amount);
+    const accounts = await this.getLargestAccounts(lpMint, true);
+
+    const minted = mint.supply + recordedAmount;
+    let incinerated = 0n;
+    let locked = 0n;
+    const locks: LpLock[] = [];
+    for (const account of accounts) {
+      const locker = this.getLocker(account);
+      if (account.owner === INCINERATOR_ADDRESS) {
+        incinerated += account.amount;
+      } else if (locker) {
+        locked += account.amount;
+        locks.push({
+          program: locker,
+          percent: toPercent(account.amount, minted),
+          unlockTime: decodeLockUnlockTime(locker, account.ownerData, now.getTime() / 1000),
+        });
+      }
+    }
+
+    return {
+      burnedPercent: toPercent(recordedAmount + incinerated, minted),
+      lockedPercent: toPercent(locked, minted),
+      burnCount: recorded.count,
+      locks,
+    };
+  }
+
+  /**
+   * Locker program holding a token account, either directly or through an escrow account
+   */
+  private getLocker(account: HolderAccount): string | undefined {
+    if (this.lockerPrograms.has(account.owner)) {
+      return account.owner;
+    }
+    if (account.ownerProgram !== undefined && this.lockerPrograms.has(account.ownerProgram)) {
+      return account.ownerProgram;
+    }
+    return undefined;
+  }
+
+  /**
+   * Largest token accounts of a mint with their owners, and optionally the program owning
+   * each owner account
+   */
+  private async getLargestAccounts(
+    mint: string,
+    withOwnerPrograms: boolean,
+  ): Promise<HolderAccount[]> {
+    const { value: largest } = await this.deps.accounts.getTokenLargestAccounts(
+      new PublicKey(mint),
+    );
+    if (largest.length === 0) {
+      return [];
+    }
+
+    const tokenAccounts = await this.deps.accounts.getMultipleAccountsInfo(
+      largest.map((account) => account.address),
+    );
+
+    const accounts: HolderAccount[] = [];
+    largest.forEach((account, index) => {
+      const info = tokenAccounts[index];
+      if (info) {
+        accounts.push({
+          address: account.address.toBase58(),
+          amount: BigInt(account.amount),
+          owner: decodeTokenAccountOwner(info.data),
+        });
+      }
+    });
+
+    if (withOwnerPrograms && accounts.length > 0) {
+      const owners = await this.deps.accounts.getMultipleAccountsInfo(
+        accounts.map((account) => new PublicKey(account.owner)),
+      );
+      accounts.forEach((account, index) => {
+        account.ownerProgram = owners[index]?.owner.toBase58();
+        account.ownerData = owners[index]?.data;
+      });
+    }
+
+    return accounts;
+  }
+}
+
+/**
+ * Pool TVL divided by the token's market cap, both in token B.
+ * Token A is priced at the pool price, token B is the unit itself.
+ */
+function getLiquidityToMarketCap(
+  pool: NonNullable<ValidationTarget['pool']>,
+  mint: MintInfo,
+): number | undefined {
+  const supply = Number(mint.supply) / Math.pow(10, mint.decimals);
+  const price = pool.isTokenA ? pool.price : 1;
+  if (!price || supply === 0) {
+    return undefined;
+  }
+  return pool.tvl / (supply * price);
+}
@@ -0,0 +1,77 @@
+/**
+ * Configuration for the trading-bot worker
+ * Loads environment variables and provides typed configuration
+ */
+
+import { FeatureFlags } from '@solana-eda/events';
+
+interface Config {
+  // Solana RPC configuration
+  solanaRpcUrl: string;
+
+  // Jupiter API configuration
+  jupiterApiUrl: string;
+
+  // Redis configuration
+  redisUrl: string;
+
+  // Database configuration
+  databaseUrl: string;
+
+  // Worker identification
+  workerName: string;
+
+  // Trade settings profile to use (defaults to the first enabled profile)
+  settingsName?: string;
+
+  // Mint spent when opening positions
+  quoteMint: string;
+
+  // Amount of the quote mint spent per position (raw units)
+  tradeAmount: string;
+
+  // Paper trading: pool fee and price impact used when the pool depth is unknown
+  paperFeeBps: number;
+  paperSlippageBps: number;
+
+  // Number of burn events processed in parallel
+  concurrency: number;
+
+  // Maximum position hold time before a TIMEOUT close (0 disables)
+  maxHoldMs: number;
+
+  // How often open positions are checked for timeouts
+  timeoutCheckIntervalMs: number;
+
+  // Slippage tolerance for exit swaps in basis points
+  exitSlippageBps: number;
+}
+
+function getEnvVar(name: string, defaultValue?: string): string {
+  const value = process.env[name];
+  if (value === undefined && defaultValue === undefined) {
+    throw new Error(`Required environment variable ${name} is not set`);
+  }
+  return value ?? defaultValue ?? '';
+}
+
+export function loadConfig(): Config {
+  return {
+    solanaRpcUrl: getEnvVar('SOLANA_RPC_URL', 'https://api.devnet.solana.com'),
+    jupiterApiUrl: FeatureFlags.getJupiterApiUrl(),
+    redisUrl: getEnvVar('REDIS_URL', 'redis://localhost:6379'),
+    databaseUrl: getEnvVar('DATABASE_URL'),
+    workerName: getEnvVar('WORKER_NAME', 'trading-bot'),
+    settingsName: getEnvVar('TRADE_SETTINGS_NAME', '') || undefined,
+    quoteMint: getEnvVar('QUOTE_MINT', 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'),
+    tradeAmount: getEnvVar('TRADE_AMOUNT', '10000000'), // 10 USDC
+    paperFeeBps: parseInt(getEnvVar('PAPER_FEE_BPS', '25'), 10),
+    paperSlippageBps: parseInt(getEnvVar('PAPER_SLIPPAGE_BPS', '100'), 10),
+    concurrency: parseInt(getEnvVar('TRADING_CONCURRENCY', '1'), 10),
+    maxHoldMs: parseInt(getEnvVar('MAX_HOLD_MINUTES', '1440'), 10) * 60 * 1000,
+    timeoutCheckIntervalMs: parseInt(getEnvVar('TIMEOUT_CHECK_INTERVAL_MS', '60000'), 10),
+    exitSlippageBps: parseInt(getEnvVar('EXIT_SLIPPAGE_BPS', '300'), 10),
+  };
+}
+
+export const config = loadConfig();
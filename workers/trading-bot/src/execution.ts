@@ -0,0 +1,83 @@
+/**
+ * Swap execution
+ * Quote and executor interfaces plus a simulator that never touches the chain
+ */
+
+import { randomUUID } from 'crypto';
+import type { TradingMode } from '@solana-eda/database';
+import type { SwapQuote } from '@solana-eda/types';
+
+export interface QuoteRequest {
+  inputMint: string;
+  outputMint: string;
+  /** Raw input amount */
+  amount: string;
+  slippageBps: number;
+}
+
+export interface QuoteProvider {
+  getQuote(request: QuoteRequest): Promise<SwapQuote>;
+}
+
+export interface ExecutionResult {
+  signature: string;
+  /** Raw amounts actually swapped */
+  inAmount: string;
+  outAmount: string;
+  simulated: boolean;
+}
+
+/**
+ * The swap certainly did not go through: it was never sent, rejected by the RPC node or
+ * failed on-chain. Any other error from an executor leaves the outcome unknown.
+ */
+export class SwapNotExecutedError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SwapNotExecutedError';
+  }
+}
+
+export interface SwapExecutor {
+  /**
+   * Execute a swap, handing its signature to `onSigned` before the transaction is sent
+   */
+  execute(
+    quote: SwapQuote,
+    onSigned?: (signature: string) => Promise<void>,
+  ): Promise<ExecutionResult>;
+  /**
+   * Look up a swap sent earlier: its fill once it executed, null when it failed on-chain.
+   * Throws while the transaction cannot be found.
+   */
+  findExecution?(
+    signature: string,
+    inputMint: string,
+    outputMint: string,
+  ): Promise<ExecutionResult | null>;
+}
+
+/**
+ * Quote source and executor pair used for one trading mode
+ */
+export interface ExecutionBackend {
+  quotes: QuoteProvider;
+  executor: SwapExecutor;
+}
+
+/** Backends by trading mode; LIVE is absent when no wallet is configured */
+export type ExecutionBackends = Partial<Record<TradingMode, ExecutionBackend>>;
+
+/**
+ * Executor that fills every quote exactly as quoted without sending a transaction
+ */
+export class SimulatedSwapExecutor implements SwapExecutor {
+  async execute(quote: SwapQuote): Promise<ExecutionResult> {
+    return {
+      signature: `sim-${randomUUID()}`,
+      inAmount: quote.inAmount,
+      outAmount: quote.outAmount,
+      simulated: true,
+    };
+  }
+}
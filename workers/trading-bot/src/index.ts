@@ -0,0 +1,438 @@
+/**
+ * Trading Bot Worker
+ * Consumes BURN_DETECTED events from the burn-events queue and opens positions
+ * Trades LIVE through Jupiter or on PAPER as chosen by the TradeSettings profile
+ * Watches PRICE_UPDATE events to close positions on stop-loss, take-profit or timeout
+ * Writes POSITION_OPENED, POSITION_CLOSED and TRADE_EXECUTED events to the outbox
+ */
+
+import Redis from 'ioredis';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { PrismaPg } from '@prisma/adapter-pg';
+import {
+  PrismaClient,
+  LiquidityPoolRepository,
+  PositionRepository,
+  PriceRepository,
+  TradeIntentRepository,
+  TradeRepository,
+  TradeSettingsRepository,
+  writeWithOutbox,
+} from '@solana-eda/database';
+import {
+  CHANNELS,
+  FeatureFlags,
+  isBurnEvent,
+  isPriceUpdateEvent,
+  validateEvent,
+  WorkerPublisher,
+} from '@solana-eda/events';
+import { createWorker, extractEvent, QUEUES, type BaseWorker } from '@solana-eda/queue';
+import { JupiterClient } from '@solana-eda/solana-client';
+import type { AnyEvent } from '@solana-eda/types';
+import { createLogger } from '@solana-eda/monitoring';
+import type { ExecutionBackends } from './execution.js';
+import { JupiterQuoteProvider, JupiterSwapExecutor } from './jupiter.js';
+import { createPaperBackend } from './paper.js';
+import { PositionMonitor, type ClosedPosition } from './position-monitor.js';
+import { TradingEngine, type TradeWriters } from './trading-engine.js';
+import { config } from './config.js';
+
+const logger = createLogger(config.workerName);
+
+interface TradingBotMetrics {
+  burnsProcessed: number;
+  positionsOpened: number;
+  positionsClosed: number;
+  priceUpdatesProcessed: number;
+  skipped: number;
+  errors: number;
+  startTime: Date;
+  lastEventAt?: Date;
+}
+
+class TradingBotWorker {
+  private prisma: PrismaClient;
+  private redis: Redis;
+  private priceSubscriber: Redis;
+  private connection: Connection;
+  private jupiter: JupiterClient;
+  private publisher: WorkerPublisher;
+  private engine: TradingEngine;
+  private monitor: PositionMonitor;
+  private worker: BaseWorker | null = null;
+  private decimalsCache: Map<string, number> = new Map();
+  private metrics: TradingBotMetrics;
+  private running = false;
+  private statusTimer: NodeJS.Timeout | null = null;
+  private timeoutTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = new PrismaClient({
+      adapter: new PrismaPg({ connectionString: config.databaseUrl }),
+    });
+    this.redis = new Redis(config.redisUrl);
+    this.priceSubscriber = this.redis.duplicate();
+    this.connection = new Connection(config.solanaRpcUrl, 'confirmed');
+    this.jupiter = new JupiterClient({ apiUrl: config.jupiterApiUrl });
+    this.publisher = WorkerPublisher.create({
+      redis: this.redis,
+      workerName: config.workerName,
+    });
+
+    const deps = {
+      positions: new PositionRepository(this.prisma),
+      backends: this.createBackends(),
+      getDecimals: (mint: string) => this.getDecimals(mint),
+      commit: <T>(write: (tx: TradeWriters) => Promise<T>, events: (result: T) => AnyEvent[]) =>
+        this.commit(write, events),
+    };
+    this.engine = new TradingEngine(
+      {
+        ...deps,
+        intents: new TradeIntentRepository(this.prisma),
+        settings: new TradeSettingsRepository(this.prisma),
+      },
+      {
+        quoteMint: config.quoteMint,
+        tradeAmount: config.tradeAmount,
+        settingsName: config.settingsName,
+      },
+    );
+    this.monitor = new PositionMonitor(deps, {
+      quoteMint: config.quoteMint,
+      maxHoldMs: config.maxHoldMs,
+      exitSlippageBps: config.exitSlippageBps,
+    });
+    this.metrics = {
+      burnsProcessed: 0,
+      positionsOpened: 0,
+      positionsClosed: 0,
+      priceUpdatesProcessed: 0,
+      skipped: 0,
+      errors: 0,
+      startTime: new Date(),
+    };
+  }
+
+  /**
+   * Create the execution backends: PAPER always, LIVE only with a trading wallet
+   */
+  private createBackends(): ExecutionBackends {
+    const prices = new PriceRepository(this.prisma);
+    const pools = new LiquidityPoolRepository(this.prisma);
+
+    const backends: ExecutionBackends = {
+      PAPER: createPaperBackend(
+        {
+          getPrice: async (mint) => {
+            const record = await prices.findLatestByToken(mint);
+            return record ? Number(record.price) : null;
+          },
+          getPoolTvl: async (mint) => {
+            const pool = await pools.findByTokenPair(mint, config.quoteMint);
+            return pool ? Number(pool.tvl) : null;
+          },
+          getDecimals: (mint) => this.getDecimals(mint),
+        },
+        {
+          quoteMint: config.quoteMint,
+          feeBps: config.paperFeeBps,
+          defaultSlippageBps: config.paperSlippageBps,
+        },
+      ),
+    };
+
+    const privateKey = FeatureFlags.getTradingPrivateKey();
+    if (privateKey) {
+      backends.LIVE = {
+        quotes: new JupiterQuoteProvider(this.jupiter),
+        executor: new JupiterSwapExecutor(
+          this.jupiter,
+          this.connection,
+          Keypair.fromSecretKey(Buffer.from(privateKey, 'base64')),
+        ),
+      };
+    }
+
+    return backends;
+  }
+
+  /**
+   * Get mint decimals (cached)
+   */
+  private async getDecimals(mint: string): Promise<number> {
+    const cached = this.decimalsCache.get(mint);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const supply = await this.connection.getTokenSupply(new PublicKey(mint));
+    this.decimalsCache.set(mint, supply.value.decimals);
+    return supply.value.decimals;
+  }
+
+  /**
+   * Apply position and trade writes together with their events, the outbox relay publishes them
+   */
+  private async commit<T>(
+    write: (tx: TradeWriters) => Promise<T>,
+    events: (result: T) => AnyEvent[],
+  ): Promise<T> {
+    return await writeWithOutbox(
+      this.prisma,
+      (tx) =>
+        write({
+          positions: new PositionRepository(tx),
+          trades: new TradeRepository(tx),
+          intents: new TradeIntentRepository(tx),
+        }),
+      events,
+    );
+  }
+
+  /**
+   * Process a burn-events job
+   */
+  private async processBurn(event: AnyEvent): Promise<void> {
+    if (!isBurnEvent(event)) {
+      return;
+    }
+
+    this.metrics.burnsProcessed++;
+    this.metrics.lastEventAt = new Date();
+
+    const result = await this.engine.handleBurn(event.data, event.eventId || event.id);
+
+    if (result.status === 'SKIPPED') {
+      this.metrics.skipped++;
+      logger.info(`Skipped burn of ${event.data.token}: ${result.reason}`);
+      if (result.reason === 'MODE_UNAVAILABLE') {
+        logger.warn('The trade settings profile is LIVE but TRADING_PRIVATE_KEY is not set');
+      }
+      if (result.reason === 'ALREADY_CLAIMED') {
+        logger.warn(
+          `Burn event ${event.eventId || event.id} was already claimed, ` +
+            'check its TradeIntent for a buy that was not recorded',
+        );
+      }
+      return;
+    }
+
+    this.metrics.positionsOpened++;
+    logger.info(
+      `Opened ${result.mode} position ${result.positionId} on ${event.data.token} at ${result.entryPrice} ` +
+        `(SL ${result.stopLoss}, TP ${result.takeProfit}, tx ${result.signature})`,
+    );
+  }
+
+  /**
+   * Process a PRICE_UPDATE message from Redis pub/sub
+   */
+  private async processPriceMessage(message: string): Promise<void> {
+    const event = validateEvent(JSON.parse(message));
+    if (!isPriceUpdateEvent(event)) {
+      return;
+    }
+
+    this.metrics.priceUpdatesProcessed++;
+    const { closed, partialExits } = await this.monitor.handlePriceUpdate(
+      event.data.token,
+      Number(event.data.price),
+    );
+
+    for (const exit of partialExits) {
+      logger.info(
+        `Sold take-profit level ${exit.level} of position ${exit.positionId}: ` +
+          `${exit.amount} at ${exit.price}, tx ${exit.signature}`,
+      );
+    }
+    this.recordClosed(closed);
+  }
+
+  /**
+   * Close positions held longer than the max hold time
+   */
+  private async checkTimeouts(): Promise<void> {
+    try {
+      this.recordClosed(await this.monitor.checkTimeouts());
+    } catch (error) {
+      this.metrics.errors++;
+      logger.error('Error checking position timeouts', { error });
+    }
+  }
+
+  private recordClosed(closed: ClosedPosition[]): void {
+    for (const position of closed) {
+      this.metrics.positionsClosed++;
+      logger.info(
+        `Closed position ${position.positionId} (${position.closeReason}) at ${position.exitPrice}, ` +
+          `PnL ${position.pnl} (${position.pnlPercent.toFixed(2)}%), tx ${position.signature}`,
+      );
+    }
+  }
+
+  /**
+   * Publish worker status
+   */
+  private async publishStatus(status: 'RUNNING' | 'STOPPED' | 'ERROR'): Promise<void> {
+    const uptime = Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000);
+
+    await this.publisher.publishStatus(status, {
+      eventsProcessed: this.metrics.burnsProcessed,
+      errors: this.metrics.errors,
+      uptime,
+      lastEventAt: this.metrics.lastEventAt?.toISOString(),
+      tradesExecuted: this.metrics.positionsOpened + this.metrics.positionsClosed,
+    });
+  }
+
+  /**
+   * Start the worker
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      logger.info('Worker is already running');
+      return;
+    }
+
+    this.running = true;
+    this.metrics.startTime = new Date();
+
+    logger.info(`Starting ${config.workerName} worker...`);
+    logger.info(`Live trading: ${FeatureFlags.getTradingPrivateKey() ? 'enabled' : 'disabled'}`);
+    logger.info(`Quote mint: ${config.quoteMint}, trade amount: ${config.tradeAmount}`);
+    logger.info(`Max hold time: ${config.maxHoldMs / 60000}min`);
+
+    await this.publishStatus('RUNNING');
+
+    this.worker = createWorker(
+      QUEUES.TRADING_BURN_EVENTS,
+      async (job) => {
+        await this.processBurn(extractEvent(job));
+      },
+      { concurrency: config.concurrency },
+      {
+        onFailed: (job, error) => {
+          this.metrics.errors++;
+          logger.error(`Burn job ${job?.id} failed`, { error: error.message });
+        },
+      },
+    );
+
+    this.priceSubscriber.on('message', (_channel, message: string) => {
+      this.processPriceMessage(message).catch((error) => {
+        this.metrics.errors++;
+        logger.error('Error processing price update', { error });
+      });
+    });
+    await this.priceSubscriber.subscribe(CHANNELS.EVENTS_PRICE);
+
+    this.timeoutTimer = setInterval(() => {
+      if (this.running) {
+        void this.checkTimeouts();
+      }
+    }, config.timeoutCheckIntervalMs);
+
+    this.statusTimer = setInterval(async () => {
+      if (this.running) {
+        await this.publishStatus('RUNNING');
+      }
+    }, 30000);
+
+    // BaseWorker.start resolves only when the worker is closed
+    this.worker.start().catch((error) => {
+      this.metrics.errors++;
+      logger.error('Burn events worker stopped unexpectedly', { error });
+    });
+
+    logger.info(`${config.workerName} worker started`);
+  }
+
+  /**
+   * Stop the worker
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      logger.info('Worker is not running');
+      return;
+    }
+
+    logger.info(`Stopping ${config.workerName} worker...`);
+    this.running = false;
+
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+
+    if (this.timeoutTimer) {
+      clearInterval(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+
+    await this.priceSubscriber.quit();
+
+    await this.worker?.stop();
+    await this.publishStatus('STOPPED');
+    await this.redis.quit();
+    await this.prisma.$disconnect();
+
+    logger.info(`${config.workerName} worker stopped`);
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): TradingBotMetrics & { uptime: number } {
+    return {
+      ...this.metrics,
+      uptime: Math.floor((Date.now() - this.metrics.startTime.getTime()) / 1000),
+    };
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const worker = new TradingBotWorker();
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string): Promise<void> => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    await worker.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGUSR2', () => shutdown('SIGUSR2')); // nodemon
+
+  // Handle uncaught errors
+  process.on('uncaughtException', (error) => {
+    logger.error('Uncaught exception', { error });
+    shutdown('UNCAUGHT_EXCEPTION').catch(() => process.exit(1));
+  });
+
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', { error: reason });
+    shutdown('UNHANDLED_REJECTION').catch(() => process.exit(1));
+  });
+
+  // Start the worker
+  await worker.start();
+
+  // Keep the process alive
+  logger.info('Worker is running. Press Ctrl+C to stop.');
+}
+
+// Run if this is the main module
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    logger.error('Failed to start worker', { error });
+    process.exit(1);
+  });
+}
+
+export { TradingBotWorker, main };
@@ -0,0 +1,166 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  Connection,
+  Keypair,
+  SendTransactionError,
+  TransactionMessage,
+  VersionedTransaction,
+  type ConfirmedTransactionMeta,
+} from '@solana/web3.js';
+import type { JupiterClient, JupiterQuote } from '@solana-eda/solana-client';
+import { SwapNotExecutedError } from './execution.js';
+import { JupiterSwapExecutor, getBalanceChange } from './jupiter.js';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TOKEN = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const SOL = 'So11111111111111111111111111111111111111112';
+
+const wallet = Keypair.generate();
+const OWNER = wallet.publicKey.toBase58();
+
+const quote: JupiterQuote = {
+  inputMint: USDC,
+  outputMint: TOKEN,
+  inAmount: '10000000',
+  outAmount: '40000000',
+  priceImpactPct: 0.5,
+  routePlan: [],
+  slippageBps: 300,
+  otherAmountThreshold: '38800000',
+  raw: {},
+};
+
+function tokenBalance(accountIndex: number, mint: string, amount: string, owner = OWNER) {
+  return { accountIndex, mint, owner, uiTokenAmount: { amount, decimals: 0, uiAmount: null } };
+}
+
+/** 10 USDC spent, 392 tokens received, another owner's account moves too */
+const meta = {
+  err: null,
+  fee: 5000,
+  preBalances: [1_000_000_000],
+  postBalances: [999_995_000],
+  preTokenBalances: [
+    tokenBalance(1, USDC, '50000000'),
+    tokenBalance(2, TOKEN, '0'),
+    tokenBalance(3, TOKEN, '900000000', 'pool'),
+  ],
+  postTokenBalances: [
+    tokenBalance(1, USDC, '40000000'),
+    tokenBalance(2, TOKEN, '39200000'),
+    tokenBalance(3, TOKEN, '860800000', 'pool'),
+  ],
+} as unknown as ConfirmedTransactionMeta;
+
+function createExecutor(
+  overrides: {
+    sendError?: Error;
+    confirmError?: Error;
+    onChainErr?: unknown;
+    meta?: ConfirmedTransactionMeta | null;
+  } = {},
+) {
+  const calls: string[] = [];
+  const client = {
+    buildSwapTransaction: async () => {
+      const message = new TransactionMessage({
+        payerKey: wallet.publicKey,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions: [],
+      }).compileToV0Message();
+      return { transaction: new VersionedTransaction(message), lastValidBlockHeight: 100 };
+    },
+  } as unknown as JupiterClient;
+  const connection = {
+    sendTransaction: async () => {
+      calls.push('send');
+      if (overrides.sendError) throw overrides.sendError;
+      return 'ignored';
+    },
+    confirmTransaction: async () => {
+      if (overrides.confirmError) throw overrides.confirmError;
+      return { value: { err: overrides.onChainErr ?? null } };
+    },
+    getTransaction: async () => (overrides.meta === null ? null : { meta: overrides.meta ?? meta }),
+  } as unknown as Connection;
+
+  return { executor: new JupiterSwapExecutor(client, connection, wallet), calls };
+}
+
+describe('JupiterSwapExecutor', () => {
+  it('should return the fill from the wallet balance changes instead of the quote', async () => {
+    const { executor, calls } = createExecutor();
+
+    const execution = await executor.execute(quote, async (signature) => {
+      calls.push(`signed ${signature}`);
+    });
+
+    expect(execution).toMatchObject({ inAmount: '10000000', outAmount: '39200000' });
+    expect(calls).toEqual([`signed ${execution.signature}`, 'send']);
+  });
+
+  it('should not send a swap whose signature could not be stored', async () => {
+    const { executor, calls } = createExecutor();
+
+    await expect(
+      executor.execute(quote, async () => {
+        throw new Error('database unavailable');
+      }),
+    ).rejects.toBeInstanceOf(SwapNotExecutedError);
+    expect(calls).toEqual([]);
+  });
+
+  it('should report rejected and failed swaps as not executed', async () => {
+    const rejected = new SendTransactionError({
+      action: 'send',
+      signature: '',
+      transactionMessage: 'Blockhash not found',
+    });
+
+    await expect(
+      createExecutor({ sendError: rejected }).executor.execute(quote),
+    ).rejects.toBeInstanceOf(SwapNotExecutedError);
+    await expect(
+      createExecutor({ onChainErr: { InstructionError: [0, 'Custom'] } }).executor.execute(quote),
+    ).rejects.toBeInstanceOf(SwapNotExecutedError);
+  });
+
+  it('should leave the outcome unknown when the confirmation times out', async () => {
+    const error = await createExecutor({ confirmError: new Error('block height exceeded') })
+      .executor.execute(quote)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(SwapNotExecutedError);
+  });
+
+  it('should find sent swaps and report the ones that failed on-chain', async () => {
+    expect(await createExecutor().executor.findExecution('signature', USDC, TOKEN)).toEqual({
+      signature: 'signature',
+      inAmount: '10000000',
+      outAmount: '39200000',
+      simulated: false,
+    });
+    expect(
+      await createExecutor({
+        meta: { ...meta, err: { InstructionError: [0, 'Custom'] } },
+      }).executor.findExecution('signature', USDC, TOKEN),
+    ).toBeNull();
+    await expect(
+      createExecutor({ meta: null }).executor.findExecution('signature', USDC, TOKEN),
+    ).rejects.toThrow('not found');
+  });
+});
+
+describe('getBalanceChange', () => {
+  it('should fall back to lamports without the fee for SOL', () => {
+    const solMeta = {
+      ...meta,
+      preBalances: [1_000_000_000],
+      postBalances: [899_995_000],
+    } as ConfirmedTransactionMeta;
+
+    expect(getBalanceChange(solMeta, OWNER, SOL)).toBe(-100_000_000n);
+    expect(getBalanceChange(solMeta, OWNER, USDC)).toBe(-10_000_000n);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Jupiter quote provider and live swap executor
+ */
+
+import {
+  Connection,
+  Keypair,
+  SendTransactionError,
+  type ConfirmedTransactionMeta,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { SwapQuote } from '@solana-eda/types';
+import type { JupiterClient, JupiterQuote } from '@solana-eda/solana-client';
+import {
+  SwapNotExecutedError,
+  type ExecutionResult,
+  type QuoteProvider,
+  type QuoteRequest,
+  type SwapExecutor,
+} from './execution.js';
+
+const NATIVE_MINT = 'So11111111111111111111111111111111111111112';
+/** A confirmed transaction can take a moment to be served by getTransaction */
+const FILL_LOOKUP_ATTEMPTS = 3;
+const FILL_LOOKUP_DELAY_MS = 500;
+
+export class JupiterQuoteProvider implements QuoteProvider {
+  constructor(private client: JupiterClient) {}
+
+  async getQuote(request: QuoteRequest): Promise<JupiterQuote> {
+    return this.client.getQuote(request);
+  }
+}
+
+/**
+ * Executes Jupiter swaps on-chain with the trading keypair
+ */
+export class JupiterSwapExecutor implements SwapExecutor {
+  constructor(
+    private client: JupiterClient,
+    private connection: Connection,
+    private wallet: Keypair,
+  ) {}
+
+  async execute(
+    quote: SwapQuote,
+    onSigned?: (signature: string) => Promise<void>,
+  ): Promise<ExecutionResult> {
+    if (!('raw' in quote)) {
+      throw new SwapNotExecutedError(
+        'JupiterSwapExecutor requires a quote from JupiterQuoteProvider',
+      );
+    }
+
+    let prepared: Awaited<ReturnType<JupiterClient['buildSwapTransaction']>>;
+    let signature: string;
+    try {
+      prepared = await this.client.buildSwapTransaction(
+        quote as JupiterQuote,
+        this.wallet.publicKey,
+      );
+      prepared.transaction.sign([this.wallet]);
+      signature = bs58.encode(prepared.transaction.signatures[0]!);
+      await onSigned?.(signature);
+    } catch (error) {
+      throw new SwapNotExecutedError(`Swap transaction was not sent: ${String(error)}`, {
+        cause: error,
+      });
+    }
+    const { transaction, lastValidBlockHeight } = prepared;
+
+    try {
+      await this.connection.sendTransaction(transaction, { maxRetries: 3 });
+    } catch (error) {
+      // Rejected by the node, any other send error may still have reached the cluster
+      if (error instanceof SendTransactionError) {
+        throw new SwapNotExecutedError(
+          `Swap transaction ${signature} was rejected: ${error.message}`,
+          { cause: error },
+        );
+      }
+      throw error;
+    }
+
+    const confirmation = await this.connection.confirmTransaction(
+      {
+        signature,
+        blockhash: transaction.message.recentBlockhash,
+        lastValidBlockHeight,
+      },
+      'confirmed',
+    );
+    if (confirmation.value.err) {
+      throw new SwapNotExecutedError(
+        `Swap transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`,
+      );
+    }
+
+    // The confirmed transaction is the fill, the quote amounts are only an estimate
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const execution = await this.findExecution(signature, quote.inputMint, quote.outputMint);
+        if (!execution) {
+          throw new SwapNotExecutedError(`Swap transaction ${signature} failed`);
+        }
+        return execution;
+      } catch (error) {
+        if (error instanceof SwapNotExecutedError || attempt >= FILL_LOOKUP_ATTEMPTS) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, FILL_LOOKUP_DELAY_MS));
+      }
+    }
+  }
+
+  async findExecution(
+    signature: string,
+    inputMint: string,
+    outputMint: string,
+  ): Promise<ExecutionResult | null> {
+    const transaction = await this.connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!transaction?.meta) {
+      throw new Error(`Swap transaction ${signature} not found`);
+    }
+    if (transaction.meta.err) {
+      return null;
+    }
+
+    const owner = this.wallet.publicKey.toBase58();
+    return {
+      signature,
+      inAmount: (-getBalanceChange(transaction.meta, owner, inputMint)).toString(),
+      outAmount: getBalanceChange(transaction.meta, owner, outputMint).toString(),
+      simulated: false,
+    };
+  }
+}
+
+/**
+ * Raw balance change of a mint across the owner's token accounts
+ *
+ * Wrapped SOL accounts are opened and closed within a Jupiter swap, so SOL falls back to the
+ * fee payer's lamports without the transaction fee. That includes rent of accounts the swap opened.
+ */
+export function getBalanceChange(
+  meta: ConfirmedTransactionMeta,
+  owner: string,
+  mint: string,
+): bigint {
+  const sum = (balances: ConfirmedTransactionMeta['preTokenBalances']) =>
+    (balances ?? [])
+      .filter((balance) => balance.owner === owner && balance.mint === mint)
+      .reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), 0n);
+
+  const change = sum(meta.postTokenBalances) - sum(meta.preTokenBalances);
+  if (change !== 0n || mint !== NATIVE_MINT) {
+    return change;
+  }
+  return BigInt(meta.postBalances[0]! - meta.preBalances[0]! + meta.fee);
+}
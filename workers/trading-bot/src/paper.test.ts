@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import { PaperQuoteProvider } from './paper.js';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TOKEN = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function createProvider(overrides: { price?: number | null; poolTvl?: number | null } = {}) {
+  return new PaperQuoteProvider(
+    {
+      getPrice: async () => (overrides.price === undefined ? 0.025 : overrides.price),
+      getPoolTvl: async () => (overrides.poolTvl === undefined ? 20_000 : overrides.poolTvl),
+      getDecimals: async (mint) => (mint === USDC ? 6 : 5),
+    },
+    { quoteMint: USDC, feeBps: 25, defaultSlippageBps: 100 },
+  );
+}
+
+describe('PaperQuoteProvider', () => {
+  it('should quote a buy with the fee in the quote mint', async () => {
+    const quote = await createProvider({ poolTvl: null }).getQuote({
+      inputMint: USDC,
+      outputMint: TOKEN,
+      amount: '10000000',
+      slippageBps: 300,
+    });
+
+    expect(quote.inAmount).toBe('10000000');
+    // 9.975 USDC after the fee at 0.025 less 1% slippage
+    expect(Number(quote.outAmount) / 1e5).toBeCloseTo(395.01, 4);
+    expect(quote.routePlan).toEqual([
+      expect.objectContaining({
+        percent: 100,
+        swapInfo: expect.objectContaining({ feeAmount: '25000', feeMint: USDC }),
+      }),
+    ]);
+  });
+
+  it('should quote a sell from the pool depth', async () => {
+    const quote = await createProvider().getQuote({
+      inputMint: TOKEN,
+      outputMint: USDC,
+      amount: '40000000',
+      slippageBps: 300,
+    });
+
+    expect(Number(quote.outAmount)).toBeLessThan(10_000_000);
+    expect(Number(quote.outAmount)).toBeGreaterThan(9_900_000);
+  });
+
+  it('should reject tokens without a recorded price', async () => {
+    await expect(
+      createProvider({ price: null }).getQuote({
+        inputMint: USDC,
+        outputMint: TOKEN,
+        amount: '10000000',
+        slippageBps: 300,
+      }),
+    ).rejects.toThrow(`No price recorded for ${TOKEN}`);
+  });
+
+  it('should reject swaps that do not involve the quote mint', async () => {
+    await expect(
+      createProvider().getQuote({
+        inputMint: TOKEN,
+        outputMint: 'So11111111111111111111111111111111111111112',
+        amount: '1',
+        slippageBps: 300,
+      }),
+    ).rejects.toThrow('quote mint');
+  });
+});
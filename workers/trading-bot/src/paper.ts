@@ -0,0 +1,112 @@
+/**
+ * Paper trading
+ * Quotes modeled from the latest price and pool depth, filled by the simulated executor
+ */
+
+import { simulateFill } from '@solana-eda/backtest';
+import type { SwapQuote } from '@solana-eda/types';
+import {
+  SimulatedSwapExecutor,
+  type ExecutionBackend,
+  type QuoteProvider,
+  type QuoteRequest,
+} from './execution.js';
+import { toRawAmount } from './position-monitor.js';
+
+export interface PaperMarketDeps {
+  /** Latest price of a token in the quote mint */
+  getPrice: (mint: string) => Promise<number | null>;
+  /** Quote-mint TVL of the pool pairing the token with the quote mint */
+  getPoolTvl: (mint: string) => Promise<number | null>;
+  getDecimals: (mint: string) => Promise<number>;
+}
+
+export interface PaperMarketOptions {
+  quoteMint: string;
+  /** Pool fee charged on the quote side of every fill */
+  feeBps: number;
+  /** Price impact applied when the pool depth is unknown */
+  defaultSlippageBps: number;
+}
+
+/**
+ * Quote provider for paper trading
+ *
+ * Only swaps against the quote mint are supported, which is all the trading bot makes.
+ */
+export class PaperQuoteProvider implements QuoteProvider {
+  constructor(
+    private deps: PaperMarketDeps,
+    private options: PaperMarketOptions,
+  ) {}
+
+  async getQuote(request: QuoteRequest): Promise<SwapQuote> {
+    const { quoteMint } = this.options;
+    if (request.inputMint !== quoteMint && request.outputMint !== quoteMint) {
+      throw new Error('Paper trading only supports swaps against the quote mint');
+    }
+
+    const side = request.inputMint === quoteMint ? 'BUY' : 'SELL';
+    const token = side === 'BUY' ? request.outputMint : request.inputMint;
+
+    const price = await this.deps.getPrice(token);
+    if (!price || !(price > 0)) {
+      throw new Error(`No price recorded for ${token}`);
+    }
+
+    const [inDecimals, outDecimals, quoteDecimals, poolTvl] = await Promise.all([
+      this.deps.getDecimals(request.inputMint),
+      this.deps.getDecimals(request.outputMint),
+      this.deps.getDecimals(quoteMint),
+      this.deps.getPoolTvl(token),
+    ]);
+
+    const fill = simulateFill({
+      side,
+      amountIn: Number(request.amount) / Math.pow(10, inDecimals),
+      price,
+      poolTvl,
+      feeBps: this.options.feeBps,
+      defaultSlippageBps: this.options.defaultSlippageBps,
+    });
+
+    const outAmount = toRawAmount(fill.amountOut, outDecimals);
+    const feeAmount = toRawAmount(fill.fee, quoteDecimals);
+
+    return {
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      inAmount: request.amount,
+      outAmount,
+      priceImpactPct: fill.priceImpactPct,
+      routePlan: [
+        {
+          swapInfo: {
+            ammKey: 'paper',
+            label: 'Paper',
+            inputMint: request.inputMint,
+            outputMint: request.outputMint,
+            inAmount: request.amount,
+            outAmount,
+            feeAmount,
+            feeMint: quoteMint,
+          },
+          percent: 100,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Create the PAPER execution backend: modeled quotes filled exactly as quoted
+ */
+export function createPaperBackend(
+  deps: PaperMarketDeps,
+  options: PaperMarketOptions,
+): ExecutionBackend {
+  return {
+    quotes: new PaperQuoteProvider(deps, options),
+    executor: new SimulatedSwapExecutor(),
+  };
+}
@@ -0,0 +1,478 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import type { PositionWithTrades } from '@solana-eda/database';
+import type { AnyEvent } from '@solana-eda/types';
+import { SimulatedSwapExecutor, SwapNotExecutedError } from './execution.js';
+import {
+  computeTrailingStop,
+  evaluateExit,
+  getTriggeredLevels,
+  PositionMonitor,
+  toRawAmount,
+  type PositionMonitorDeps,
+} from './position-monitor.js';
+import type { TradeWriters } from './trading-engine.js';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TOKEN = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const HOUR = 60 * 60 * 1000;
+
+const openedAt = new Date('2026-01-01T00:00:00Z');
+
+function createPosition(overrides: Partial<PositionWithTrades> = {}): PositionWithTrades {
+  return {
+    id: 'position-1',
+    token: TOKEN,
+    amount: 400,
+    entryPrice: 0.025,
+    currentPrice: 0.025,
+    stopLoss: 0.0225,
+    takeProfit: 0.0375,
+    status: 'OPEN',
+    mode: 'PAPER',
+    openedAt,
+    createdAt: openedAt,
+    updatedAt: openedAt,
+    trades: [],
+    takeProfitLevels: [],
+    ...overrides,
+  };
+}
+
+/**
+ * PnL of a closed position: SELL proceeds net of fees over the BUY cost basis
+ */
+function closedPnl(position: PositionWithTrades) {
+  const sum = (
+    type: 'BUY' | 'SELL',
+    value: (trade: PositionWithTrades['trades'][number]) => number,
+  ) => position.trades.filter((trade) => trade.type === type).reduce((acc, t) => acc + value(t), 0);
+
+  const sold = sum('SELL', (trade) => trade.amount);
+  const costBasis = position.trades.some((trade) => trade.type === 'BUY')
+    ? sum('BUY', (trade) => trade.amount * trade.price + trade.fee)
+    : position.entryPrice * sold;
+  const pnl = sum('SELL', (trade) => trade.amount * trade.price - trade.fee) - costBasis;
+
+  return { pnl, pnlPercent: (pnl / costBasis) * 100 };
+}
+
+/**
+ * In-memory position store shared by monitors to emulate several replicas
+ */
+function createStore(positions: PositionWithTrades[]) {
+  const byId = new Map(positions.map((position) => [position.id, position]));
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  const repository: PositionMonitorDeps['positions'] &
+    Pick<TradeWriters['positions'], 'recordPartialExit' | 'closePosition'> = {
+    findOpenPositions: async () => [...byId.values()].filter((p) => p.status === 'OPEN'),
+    findOpenPositionsByToken: async (token) =>
+      [...byId.values()]
+        .filter((p) => p.token === token && p.status === 'OPEN')
+        .map((p) => structuredClone(p)),
+    findById: async (id) => structuredClone(byId.get(id) ?? null),
+    updateCurrentPrice: async (id, currentPrice) => {
+      const position = byId.get(id)!;
+      position.currentPrice = currentPrice;
+      return position;
+    },
+    updateTrailingStop: async (id, highWaterMark, stopLoss) => {
+      const position = byId.get(id)!;
+      position.highWaterMark = highWaterMark;
+      position.stopLoss = stopLoss;
+    },
+    recordPartialExit: async (id, levelId, amountSold) => {
+      const position = byId.get(id)!;
+      position.takeProfitLevels.find((level) => level.id === levelId)!.filledAt = new Date();
+      position.amount -= amountSold;
+      position.status = 'OPEN';
+    },
+    claimForClose: async (id) => {
+      await tick();
+      const position = byId.get(id);
+      if (position?.status !== 'OPEN') return false;
+      position.status = 'CLOSING';
+      return true;
+    },
+    releaseClaim: async (id) => {
+      const position = byId.get(id)!;
+      if (position.status === 'CLOSING') position.status = 'OPEN';
+    },
+    closePosition: async (id, exitPrice, closeReason) => {
+      const position = byId.get(id)!;
+      position.status = 'CLOSED';
+      position.currentPrice = exitPrice;
+      position.closedAt = new Date(openedAt.getTime() + 2 * HOUR);
+      position.closeReason = closeReason;
+      Object.assign(position, closedPnl(position));
+      return position;
+    },
+  };
+
+  return { byId, repository };
+}
+
+function createMonitor(
+  store: ReturnType<typeof createStore>,
+  options: {
+    exitOutAmount?: string | ((inAmount: string) => string);
+    /** Raw route fee charged in the quote mint */
+    exitFee?: string;
+    failQuote?: boolean;
+    swapError?: Error;
+  } = {},
+) {
+  const published: AnyEvent[] = [];
+  const trades: unknown[] = [];
+  const writers: TradeWriters = {
+    positions: {
+      ...store.repository,
+      create: async () => {
+        throw new Error('The monitor does not open positions');
+      },
+    },
+    trades: {
+      create: async (data) => {
+        trades.push(data);
+        const trade = { id: `trade-${trades.length}`, ...data } as never;
+        store.byId.get(data.positionId)!.trades.push(trade);
+        return trade;
+      },
+    },
+    intents: {
+      complete: async () => {
+        throw new Error('The monitor does not open positions');
+      },
+    },
+  };
+
+  const monitor = new PositionMonitor(
+    {
+      positions: store.repository,
+      backends: {
+        PAPER: {
+          quotes: {
+            getQuote: async (request) => {
+              if (options.failQuote) throw new Error('no route');
+              return {
+                inputMint: request.inputMint,
+                outputMint: request.outputMint,
+                inAmount: request.amount,
+                outAmount:
+                  typeof options.exitOutAmount === 'function'
+                    ? options.exitOutAmount(request.amount)
+                    : (options.exitOutAmount ?? '15000000'),
+                priceImpactPct: 0.2,
+                routePlan: options.exitFee
+                  ? [
+                      {
+                        swapInfo: {
+                          ammKey: 'amm',
+                          label: 'Whirlpool',
+                          inputMint: request.inputMint,
+                          outputMint: request.outputMint,
+                          inAmount: request.amount,
+                          outAmount: '0',
+                          feeAmount: options.exitFee,
+                          feeMint: USDC,
+                        },
+                        percent: 100,
+                      },
+                    ]
+                  : [],
+              };
+            },
+          },
+          executor: {
+            execute: async (quote) => {
+              if (options.swapError) throw options.swapError;
+              return new SimulatedSwapExecutor().execute(quote);
+            },
+          },
+        },
+      },
+      getDecimals: async (mint) => (mint === USDC ? 6 : 5),
+      commit: async (write, events) => {
+        const result = await write(writers);
+        published.push(...events(result));
+        return result;
+      },
+    },
+    { quoteMint: USDC, maxHoldMs: 24 * HOUR, exitSlippageBps: 300 },
+  );
+
+  return { monitor, published, trades };
+}
+
+/** 30% / 30% / 40% of 400 tokens at +25% / +50% / +100% */
+function ladderLevels() {
+  return [
+    { level: 1, targetPrice: 0.03125, sellFraction: 0.3, amount: 120 },
+    { level: 2, targetPrice: 0.0375, sellFraction: 0.3, amount: 120 },
+    { level: 3, targetPrice: 0.05, sellFraction: 0.4, amount: 160 },
+  ].map((level) => ({
+    id: `level-${level.level}`,
+    positionId: 'position-1',
+    filledAt: null as Date | null,
+    ...level,
+  }));
+}
+
+describe('evaluateExit', () => {
+  const position = createPosition();
+  const now = new Date(openedAt.getTime() + HOUR);
+
+  it('should trigger take-profit at or above the target', () => {
+    expect(evaluateExit(position, 0.0375, now, 24 * HOUR)).toBe('TAKE_PROFIT');
+    expect(evaluateExit(position, 0.04, now, 24 * HOUR)).toBe('TAKE_PROFIT');
+  });
+
+  it('should trigger stop-loss at or below the stop', () => {
+    expect(evaluateExit(position, 0.0225, now, 24 * HOUR)).toBe('STOP_LOSS');
+  });
+
+  it('should trigger timeout after the max hold time', () => {
+    const later = new Date(openedAt.getTime() + 25 * HOUR);
+    expect(evaluateExit(position, 0.026, later, 24 * HOUR)).toBe('TIMEOUT');
+    expect(evaluateExit(position, 0.026, later, 0)).toBeNull();
+  });
+
+  it('should keep positions between the thresholds open', () => {
+    expect(evaluateExit(position, 0.026, now, 24 * HOUR)).toBeNull();
+  });
+
+  it('should leave take-profit to the ladder when one is set', () => {
+    const laddered = createPosition({ takeProfitLevels: ladderLevels() });
+    expect(evaluateExit(laddered, 0.06, now, 24 * HOUR)).toBeNull();
+  });
+});
+
+describe('PositionMonitor', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore([createPosition()]);
+  });
+
+  it('should update currentPrice without closing', async () => {
+    const { monitor, published } = createMonitor(store);
+
+    const result = await monitor.handlePriceUpdate(
+      TOKEN,
+      0.03,
+      new Date(openedAt.getTime() + HOUR),
+    );
+
+    expect(result).toEqual({ closed: [], partialExits: [] });
+    expect(store.byId.get('position-1')!.currentPrice).toBe(0.03);
+    expect(published).toEqual([]);
+  });
+
+  it('should sell and emit POSITION_CLOSED on take-profit', async () => {
+    const { monitor, published, trades } = createMonitor(store);
+
+    const {
+      closed: [closed],
+    } = await monitor.handlePriceUpdate(TOKEN, 0.04, new Date(openedAt.getTime() + HOUR));
+
+    // 400 tokens sold for 15 USDC => 0.0375 per token
+    expect(closed).toMatchObject({ positionId: 'position-1', closeReason: 'TAKE_PROFIT' });
+    expect(closed!.exitPrice).toBeCloseTo(0.0375);
+    expect(closed!.pnl).toBeCloseTo(5);
+    expect(closed!.pnlPercent).toBeCloseTo(50);
+    expect(closed!.holdDuration).toBe(2 * HOUR);
+    expect(store.byId.get('position-1')!.status).toBe('CLOSED');
+
+    expect(trades).toEqual([expect.objectContaining({ type: 'SELL', amount: 400, mode: 'PAPER' })]);
+    expect(published.map((event) => event.type)).toEqual(['TRADE_EXECUTED', 'POSITION_CLOSED']);
+    expect(published[1]!.data).toMatchObject({
+      positionId: 'position-1',
+      token: TOKEN,
+      closeReason: 'TAKE_PROFIT',
+      holdDuration: 2 * HOUR,
+    });
+  });
+
+  it('should record exit fees and net them out of the PnL', async () => {
+    store = createStore([
+      createPosition({
+        trades: [
+          {
+            id: 'buy-1',
+            positionId: 'position-1',
+            type: 'BUY',
+            amount: 400,
+            price: 0.02475,
+            fee: 0.1,
+            mode: 'PAPER',
+            slippage: 0.002,
+            timestamp: openedAt,
+            createdAt: openedAt,
+          },
+        ],
+      }),
+    ]);
+    // 15 USDC received after a 0.15 USDC route fee
+    const { monitor, trades } = createMonitor(store, { exitFee: '150000' });
+
+    const {
+      closed: [closed],
+    } = await monitor.handlePriceUpdate(TOKEN, 0.04, new Date(openedAt.getTime() + HOUR));
+
+    expect(trades).toEqual([expect.objectContaining({ type: 'SELL', fee: 0.15 })]);
+    expect((trades[0] as { price: number }).price).toBeCloseTo(0.037875);
+    expect(closed!.exitPrice).toBeCloseTo(0.0375);
+    // 15 received for a 10 USDC cost basis (9.9 + 0.1 buy fee)
+    expect(closed!.pnl).toBeCloseTo(5);
+    expect(closed!.pnlPercent).toBeCloseTo(50);
+    expect(store.byId.get('position-1')!.closeReason).toBe('TAKE_PROFIT');
+  });
+
+  it('should close positions past the max hold time', async () => {
+    const { monitor, published } = createMonitor(store, { exitOutAmount: '9600000' });
+
+    const closed = await monitor.checkTimeouts(new Date(openedAt.getTime() + 25 * HOUR));
+
+    expect(closed.map((position) => position.closeReason)).toEqual(['TIMEOUT']);
+    expect(closed[0]!.pnl).toBeCloseTo(-0.4);
+    expect(published.map((event) => event.type)).toEqual(['TRADE_EXECUTED', 'POSITION_CLOSED']);
+  });
+
+  it('should close a position only once across replicas', async () => {
+    const replicaA = createMonitor(store);
+    const replicaB = createMonitor(store);
+    const now = new Date(openedAt.getTime() + HOUR);
+
+    const [closedA, closedB] = await Promise.all([
+      replicaA.monitor.handlePriceUpdate(TOKEN, 0.02, now),
+      replicaB.monitor.handlePriceUpdate(TOKEN, 0.02, now),
+    ]);
+
+    expect([...closedA.closed, ...closedB.closed]).toHaveLength(1);
+    expect([...replicaA.published, ...replicaB.published].map((event) => event.type)).toEqual([
+      'TRADE_EXECUTED',
+      'POSITION_CLOSED',
+    ]);
+  });
+
+  it('should reopen the position when the exit swap fails', async () => {
+    const { monitor } = createMonitor(store, { failQuote: true });
+
+    await expect(
+      monitor.handlePriceUpdate(TOKEN, 0.02, new Date(openedAt.getTime() + HOUR)),
+    ).rejects.toThrow('no route');
+    expect(store.byId.get('position-1')!.status).toBe('OPEN');
+  });
+
+  it('should reopen the position only when the exit swap certainly failed', async () => {
+    const at = new Date(openedAt.getTime() + HOUR);
+
+    await expect(
+      createMonitor(store, {
+        swapError: new SwapNotExecutedError('rejected'),
+      }).monitor.handlePriceUpdate(TOKEN, 0.02, at),
+    ).rejects.toThrow('rejected');
+    expect(store.byId.get('position-1')!.status).toBe('OPEN');
+
+    await expect(
+      createMonitor(store, {
+        swapError: new Error('confirmation timed out'),
+      }).monitor.handlePriceUpdate(TOKEN, 0.02, at),
+    ).rejects.toThrow('confirmation timed out');
+    expect(store.byId.get('position-1')!.status).toBe('CLOSING');
+  });
+
+  it('should not close a position without a backend for its mode', async () => {
+    store = createStore([createPosition({ mode: 'LIVE' })]);
+    const { monitor, trades } = createMonitor(store);
+
+    await expect(
+      monitor.handlePriceUpdate(TOKEN, 0.02, new Date(openedAt.getTime() + HOUR)),
+    ).rejects.toThrow('No LIVE execution backend');
+    expect(store.byId.get('position-1')!.status).toBe('OPEN');
+    expect(trades).toEqual([]);
+  });
+
+  it('should sell ladder steps and close on the last one', async () => {
+    store = createStore([createPosition({ takeProfitLevels: ladderLevels() })]);
+    // Every exit fills at 1.5x the entry price (raw token amount has 5 decimals, USDC 6)
+    const { monitor, published } = createMonitor(store, {
+      exitOutAmount: (inAmount) => String(Math.round(Number(inAmount) * 0.0375 * 10)),
+    });
+    const now = new Date(openedAt.getTime() + HOUR);
+
+    const first = await monitor.handlePriceUpdate(TOKEN, 0.04, now);
+    expect(first.partialExits.map((exit) => [exit.level, exit.amount])).toEqual([
+      [1, 120],
+      [2, 120],
+    ]);
+    expect(first.closed).toEqual([]);
+    expect(store.byId.get('position-1')!.amount).toBe(160);
+    expect(store.byId.get('position-1')!.status).toBe('OPEN');
+
+    const second = await monitor.handlePriceUpdate(TOKEN, 0.05, now);
+    expect(second.partialExits).toEqual([]);
+    expect(second.closed).toHaveLength(1);
+    expect(second.closed[0]!.closeReason).toBe('TAKE_PROFIT');
+    // 400 tokens sold at 0.0375 against 0.025 entry
+    expect(second.closed[0]!.pnl).toBeCloseTo(5);
+    expect(second.closed[0]!.pnlPercent).toBeCloseTo(50);
+
+    expect(published.map((event) => event.type)).toEqual([
+      'TRADE_EXECUTED',
+      'TRADE_EXECUTED',
+      'TRADE_EXECUTED',
+      'POSITION_CLOSED',
+    ]);
+  });
+
+  it('should close on a trailing stop after the price falls from its high', async () => {
+    store = createStore([createPosition({ trailingStopPercent: 0.1, highWaterMark: 0.025 })]);
+    const { monitor } = createMonitor(store);
+    const now = new Date(openedAt.getTime() + HOUR);
+
+    await monitor.handlePriceUpdate(TOKEN, 0.035, now);
+    expect(Number(store.byId.get('position-1')!.stopLoss)).toBeCloseTo(0.0315);
+
+    const { closed } = await monitor.handlePriceUpdate(TOKEN, 0.031, now);
+    expect(closed.map((position) => position.closeReason)).toEqual(['STOP_LOSS']);
+  });
+
+  it('should ignore the quote mint', async () => {
+    const { monitor } = createMonitor(store);
+
+    expect(await monitor.handlePriceUpdate(USDC, 1)).toEqual({ closed: [], partialExits: [] });
+  });
+});
+
+describe('helpers', () => {
+  it('should raise the trailing stop with the high-water mark only', () => {
+    const position = createPosition({ trailingStopPercent: 0.1, highWaterMark: 0.03 });
+
+    expect(computeTrailingStop(position, 0.029)).toBeNull();
+    const raised = computeTrailingStop(position, 0.04)!;
+    expect(raised.highWaterMark).toBe(0.04);
+    expect(raised.stopLoss).toBeCloseTo(0.036);
+    expect(computeTrailingStop(createPosition(), 0.04)).toBeNull();
+  });
+
+  it('should never lower an existing stop', () => {
+    const position = createPosition({ trailingStopPercent: 0.5, stopLoss: 0.0225 });
+
+    expect(computeTrailingStop(position, 0.03)!.stopLoss).toBe(0.0225);
+  });
+
+  it('should return triggered ladder levels and count the rest', () => {
+    const levels = ladderLevels();
+    levels[0]!.filledAt = new Date();
+
+    const { triggered, remaining } = getTriggeredLevels(levels, 0.0375);
+    expect(triggered.map((level) => level.level)).toEqual([2]);
+    expect(remaining).toBe(1);
+  });
+
+  it('should convert UI amounts to raw amounts', () => {
+    expect(toRawAmount(400, 5)).toBe('40000000');
+    expect(toRawAmount(1.5, 9)).toBe('1500000000');
+  });
+});
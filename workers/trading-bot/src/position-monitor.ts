@@ -0,0 +1,433 @@
+/**
+ * Position Monitor
+ * Tracks open positions against PRICE_UPDATE events: moves trailing stops,
+ * sells take-profit ladder steps and closes positions on stop-loss,
+ * take-profit or max hold time
+ */
+
+import type { PositionRepository, PositionWithTrades, TakeProfitLevel } from '@solana-eda/database';
+import { createPositionClosedEvent, createTradeEvent } from '@solana-eda/events';
+import type { AnyEvent, PositionClosedEvent } from '@solana-eda/types';
+import { SwapNotExecutedError, type ExecutionBackends, type ExecutionResult } from './execution.js';
+import { getQuoteFee, toUiAmount, type CommitTrade, type TradeWriters } from './trading-engine.js';
+
+export type CloseReason = PositionClosedEvent['data']['closeReason'];
+
+export interface PositionMonitorDeps {
+  positions: Pick<
+    PositionRepository,
+    | 'findOpenPositions'
+    | 'findOpenPositionsByToken'
+    | 'findById'
+    | 'updateCurrentPrice'
+    | 'updateTrailingStop'
+    | 'claimForClose'
+    | 'releaseClaim'
+  >;
+  /** Exits run on the backend matching the position's mode */
+  backends: ExecutionBackends;
+  getDecimals: (mint: string) => Promise<number>;
+  commit: CommitTrade;
+}
+
+export interface PositionMonitorOptions {
+  quoteMint: string;
+  /** Maximum time a position may stay open, 0 disables the timeout */
+  maxHoldMs: number;
+  /** Slippage tolerance for exit swaps */
+  exitSlippageBps: number;
+}
+
+export interface ClosedPosition {
+  positionId: string;
+  closeReason: CloseReason;
+  exitPrice: number;
+  /** Realized PnL over every trade of the position, net of fees */
+  pnl: number;
+  pnlPercent: number;
+  holdDuration: number;
+  signature: string;
+}
+
+export interface PartialExit {
+  positionId: string;
+  level: number;
+  amount: number;
+  price: number;
+  signature: string;
+}
+
+/** Exit swap fill, price is net of the route fee */
+interface ExitFill {
+  price: number;
+  slippage: number;
+  fee: number;
+}
+
+export interface PriceUpdateResult {
+  closed: ClosedPosition[];
+  partialExits: PartialExit[];
+}
+
+type MonitoredPosition = Pick<PositionWithTrades, 'stopLoss' | 'takeProfit' | 'openedAt'> & {
+  takeProfitLevels?: Pick<TakeProfitLevel, 'filledAt'>[];
+};
+
+/**
+ * Decide whether a position should be closed at the given price
+ *
+ * Positions with a take-profit ladder only take profit through their ladder steps.
+ */
+export function evaluateExit(
+  position: MonitoredPosition,
+  price: number,
+  now: Date,
+  maxHoldMs: number,
+): CloseReason | null {
+  const hasLadder = (position.takeProfitLevels?.length ?? 0) > 0;
+  if (!hasLadder && position.takeProfit != null && price >= Number(position.takeProfit)) {
+    return 'TAKE_PROFIT';
+  }
+
+  if (position.stopLoss != null && price <= Number(position.stopLoss)) {
+    return 'STOP_LOSS';
+  }
+
+  if (maxHoldMs > 0 && now.getTime() - new Date(position.openedAt).getTime() >= maxHoldMs) {
+    return 'TIMEOUT';
+  }
+
+  return null;
+}
+
+/**
+ * Compute the trailing stop for a new price, or null when the high-water mark is not raised
+ */
+export function computeTrailingStop(
+  position: Pick<
+    PositionWithTrades,
+    'entryPrice' | 'stopLoss' | 'trailingStopPercent' | 'highWaterMark'
+  >,
+  price: number,
+): { highWaterMark: number; stopLoss: number } | null {
+  if (position.trailingStopPercent == null) {
+    return null;
+  }
+
+  const highWaterMark = Number(position.highWaterMark ?? position.entryPrice);
+  if (price <= highWaterMark) {
+    return null;
+  }
+
+  const trailingStop = price * (1 - Number(position.trailingStopPercent));
+  const currentStop = position.stopLoss != null ? Number(position.stopLoss) : 0;
+
+  return { highWaterMark: price, stopLoss: Math.max(currentStop, trailingStop) };
+}
+
+/**
+ * Unfilled ladder steps whose target the price has reached, in ladder order
+ */
+export function getTriggeredLevels(
+  levels: TakeProfitLevel[],
+  price: number,
+): { triggered: TakeProfitLevel[]; remaining: number } {
+  const unfilled = levels.filter((level) => !level.filledAt);
+  const triggered = unfilled.filter((level) => price >= Number(level.targetPrice));
+  return { triggered, remaining: unfilled.length - triggered.length };
+}
+
+/**
+ * Convert a UI amount to a raw token amount
+ */
+export function toRawAmount(amount: number, decimals: number): string {
+  return BigInt(Math.floor(amount * Math.pow(10, decimals))).toString();
+}
+
+export class PositionMonitor {
+  constructor(
+    private deps: PositionMonitorDeps,
+    private options: PositionMonitorOptions,
+  ) {}
+
+  /**
+   * Apply a price update to every open position on the token
+   */
+  async handlePriceUpdate(
+    token: string,
+    price: number,
+    now = new Date(),
+  ): Promise<PriceUpdateResult> {
+    const result: PriceUpdateResult = { closed: [], partialExits: [] };
+    if (token === this.options.quoteMint || !(price > 0)) {
+      return result;
+    }
+
+    const positions = await this.deps.positions.findOpenPositionsByToken(token);
+
+    for (const position of positions) {
+      await this.deps.positions.updateCurrentPrice(position.id, price);
+
+      const trailing = computeTrailingStop(position, price);
+      if (trailing) {
+        await this.deps.positions.updateTrailingStop(
+          position.id,
+          trailing.highWaterMark,
+          trailing.stopLoss,
+        );
+        position.highWaterMark = trailing.highWaterMark;
+        position.stopLoss = trailing.stopLoss;
+      }
+
+      const reason = evaluateExit(position, price, now, this.options.maxHoldMs);
+      if (reason) {
+        const closed = await this.close(position.id, reason);
+        if (closed) result.closed.push(closed);
+        continue;
+      }
+
+      const { triggered, remaining } = getTriggeredLevels(position.takeProfitLevels ?? [], price);
+      if (triggered.length === 0) {
+        continue;
+      }
+
+      // The final ladder step sells whatever is left and closes the position
+      if (remaining === 0) {
+        const closed = await this.close(position.id, 'TAKE_PROFIT');
+        if (closed) result.closed.push(closed);
+        continue;
+      }
+
+      for (const level of triggered) {
+        const partialExit = await this.sellLevel(position.id, level.id);
+        if (!partialExit) break;
+        result.partialExits.push(partialExit);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Close every open position held longer than the max hold time
+   */
+  async checkTimeouts(now = new Date()): Promise<ClosedPosition[]> {
+    if (this.options.maxHoldMs <= 0) {
+      return [];
+    }
+
+    const positions = await this.deps.positions.findOpenPositions();
+    const closed: ClosedPosition[] = [];
+
+    for (const position of positions) {
+      if (now.getTime() - new Date(position.openedAt).getTime() < this.options.maxHoldMs) {
+        continue;
+      }
+
+      const result = await this.close(position.id, 'TIMEOUT');
+      if (result) {
+        closed.push(result);
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * Claim a position, run the exit swap and hand the result to `onExecuted`
+   *
+   * The claim keeps concurrent monitors from selling the same position twice,
+   * and the position is re-read after claiming so the sell amount is never stale.
+   * Returns null when another monitor won the claim or `getAmount` returns null.
+   */
+  private async withClaim<T>(
+    positionId: string,
+    getAmount: (position: PositionWithTrades) => number | null,
+    onExecuted: (
+      position: PositionWithTrades,
+      amount: number,
+      execution: ExecutionResult,
+      fill: ExitFill,
+    ) => Promise<T>,
+  ): Promise<T | null> {
+    if (!(await this.deps.positions.claimForClose(positionId))) {
+      return null;
+    }
+
+    let sent = false;
+    try {
+      const position = await this.deps.positions.findById(positionId);
+      const amount = position ? getAmount(position) : null;
+      if (!position || amount === null || !(amount > 0)) {
+        await this.deps.positions.releaseClaim(positionId);
+        return null;
+      }
+
+      const backend = this.deps.backends[position.mode];
+      if (!backend) {
+        throw new Error(`No ${position.mode} execution backend to close position ${position.id}`);
+      }
+
+      const [tokenDecimals, quoteDecimals] = await Promise.all([
+        this.deps.getDecimals(position.token),
+        this.deps.getDecimals(this.options.quoteMint),
+      ]);
+
+      const quote = await backend.quotes.getQuote({
+        inputMint: position.token,
+        outputMint: this.options.quoteMint,
+        amount: toRawAmount(amount, tokenDecimals),
+        slippageBps: this.options.exitSlippageBps,
+      });
+      sent = true;
+      const execution = await backend.executor.execute(quote);
+
+      return await onExecuted(position, amount, execution, {
+        price: toUiAmount(execution.outAmount, quoteDecimals) / amount,
+        slippage: quote.priceImpactPct / 100,
+        fee: getQuoteFee(quote, this.options.quoteMint, quoteDecimals),
+      });
+    } catch (error) {
+      // The position stays CLOSING for manual review unless the exit swap certainly failed
+      if (!sent || error instanceof SwapNotExecutedError) {
+        await this.deps.positions.releaseClaim(positionId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a SELL trade, returning its id
+   */
+  private async recordSell(
+    tx: TradeWriters,
+    position: PositionWithTrades,
+    amount: number,
+    fill: ExitFill,
+    execution: ExecutionResult,
+  ): Promise<string> {
+    const { price, slippage, fee } = fill;
+    // The trade price is before the route fee, which is recorded separately
+    const trade = await tx.trades.create({
+      positionId: position.id,
+      type: 'SELL',
+      amount,
+      price: price + fee / amount,
+      signature: execution.signature,
+      slippage,
+      fee,
+      mode: position.mode,
+    });
+    return trade.id;
+  }
+
+  /**
+   * TRADE_EXECUTED event of a SELL trade
+   */
+  private createSellEvent(
+    tradeId: string,
+    position: PositionWithTrades,
+    fill: ExitFill,
+    execution: ExecutionResult,
+  ): AnyEvent {
+    return createTradeEvent({
+      tradeId,
+      type: 'SELL',
+      tokenIn: position.token,
+      tokenOut: this.options.quoteMint,
+      amountIn: execution.inAmount,
+      amountOut: execution.outAmount,
+      price: fill.price.toString(),
+      slippage: fill.slippage,
+      txSignature: execution.signature,
+      positionId: position.id,
+    });
+  }
+
+  /**
+   * Sell one take-profit ladder step and keep the position open
+   */
+  private async sellLevel(positionId: string, levelId: string): Promise<PartialExit | null> {
+    return this.withClaim(
+      positionId,
+      (position) => {
+        const level = position.takeProfitLevels.find((entry) => entry.id === levelId);
+        return level && !level.filledAt ? Number(level.amount) : null;
+      },
+      async (position, amount, execution, fill) => {
+        const level = position.takeProfitLevels.find((entry) => entry.id === levelId)!;
+        await this.deps.commit(
+          async (tx) => {
+            const tradeId = await this.recordSell(tx, position, amount, fill, execution);
+            await tx.positions.recordPartialExit(position.id, level.id, amount);
+            return tradeId;
+          },
+          (tradeId) => [this.createSellEvent(tradeId, position, fill, execution)],
+        );
+
+        return {
+          positionId: position.id,
+          level: level.level,
+          amount,
+          price: fill.price,
+          signature: execution.signature,
+        };
+      },
+    );
+  }
+
+  /**
+   * Sell the remaining amount and mark the position closed
+   */
+  private async close(
+    positionId: string,
+    closeReason: CloseReason,
+  ): Promise<ClosedPosition | null> {
+    return this.withClaim(
+      positionId,
+      (position) => Number(position.amount),
+      async (position, amount, execution, fill) => {
+        const exitPrice = fill.price;
+
+        const { tradeId, pnl, pnlPercent, holdDuration } = await this.deps.commit(
+          async (tx) => {
+            const tradeId = await this.recordSell(tx, position, amount, fill, execution);
+            const closed = await tx.positions.closePosition(position.id, exitPrice, closeReason);
+
+            // Stored by closePosition from every BUY and SELL of the position
+            return {
+              tradeId,
+              pnl: Number(closed.pnl ?? 0),
+              pnlPercent: Number(closed.pnlPercent ?? 0),
+              holdDuration:
+                new Date(closed.closedAt ?? new Date()).getTime() -
+                new Date(position.openedAt).getTime(),
+            };
+          },
+          (result) => [
+            this.createSellEvent(result.tradeId, position, fill, execution),
+            createPositionClosedEvent({
+              positionId: position.id,
+              token: position.token,
+              exitPrice: exitPrice.toString(),
+              pnl: result.pnl.toString(),
+              pnlPercent: result.pnlPercent,
+              holdDuration: result.holdDuration,
+              closeReason,
+            }),
+          ],
+        );
+
+        return {
+          positionId: position.id,
+          closeReason,
+          exitPrice,
+          pnl,
+          pnlPercent,
+          holdDuration,
+          signature: execution.signature,
+        };
+      },
+    );
+  }
+}
@@ -0,0 +1,445 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import type { TradeSettings } from '@solana-eda/database';
+import type { AnyEvent, SwapQuote } from '@solana-eda/types';
+import {
+  SimulatedSwapExecutor,
+  SwapNotExecutedError,
+  type ExecutionResult,
+  type QuoteRequest,
+} from './execution.js';
+import {
+  TradingEngine,
+  type BurnEventData,
+  type TradingEngineDeps,
+  type TradeWriters,
+} from './trading-engine.js';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TOKEN = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const settings: TradeSettings = {
+  id: 'settings-1',
+  name: 'default',
+  enabled: true,
+  mode: 'PAPER',
+  maxSlippage: 0.03,
+  maxPositions: 2,
+  stopLossPercent: 0.1,
+  takeProfitPercent: 0.5,
+  minBurnAmount: 1000,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const burn: BurnEventData = {
+  token: TOKEN,
+  amount: '5000000',
+  percentage: 2.5,
+  txSignature: 'burn-signature',
+  burner: 'burner',
+  preSupply: '200000000',
+  postSupply: '195000000',
+};
+
+interface Harness {
+  deps: TradingEngineDeps;
+  published: AnyEvent[];
+  quoteRequests: QuoteRequest[];
+  openPositions: {
+    token: string;
+    mode?: string;
+    takeProfit?: number;
+    trailingStopPercent?: number;
+    takeProfitLevels?: unknown[];
+  }[];
+  trades: unknown[];
+  /** Claimed events and the position their buy opened */
+  intents: Map<string, string | null>;
+  /** Swap signatures stored on the claims */
+  signatures: Map<string, string>;
+  swaps: number;
+  /** Roll back every commit */
+  failCommit: boolean;
+}
+
+function createHarness(
+  overrides: {
+    priceImpactPct?: number;
+    settings?: TradeSettings[];
+    swapError?: Error;
+    /** Outcome of a sent swap looked up on redelivery, no lookup when undefined */
+    onChain?: ExecutionResult | null;
+    /** Roll back every commit */
+    failCommit?: boolean;
+  } = {},
+) {
+  const harness: Harness = {
+    published: [],
+    quoteRequests: [],
+    openPositions: [],
+    trades: [],
+    intents: new Map(),
+    signatures: new Map(),
+    swaps: 0,
+    failCommit: overrides.failCommit ?? false,
+    deps: undefined as unknown as TradingEngineDeps,
+  };
+  const simulator = new SimulatedSwapExecutor();
+
+  const writers: TradeWriters = {
+    positions: {
+      create: async (data) => {
+        harness.openPositions.push(data);
+        return { id: `position-${harness.openPositions.length}`, ...data } as never;
+      },
+      recordPartialExit: async () => {
+        throw new Error('The engine does not sell');
+      },
+      closePosition: async () => {
+        throw new Error('The engine does not close positions');
+      },
+    },
+    trades: {
+      create: async (data) => {
+        harness.trades.push(data);
+        return { id: `trade-${harness.trades.length}`, ...data } as never;
+      },
+    },
+    intents: {
+      complete: async (eventId, positionId) => {
+        harness.intents.set(eventId, positionId);
+      },
+    },
+  };
+
+  harness.deps = {
+    positions: {
+      countOpenPositions: async (mode) =>
+        harness.openPositions.filter((position) => position.mode === mode).length,
+      hasOpenPositionForToken: async (token, mode) =>
+        harness.openPositions.some(
+          (position) => position.token === token && position.mode === mode,
+        ),
+    },
+    intents: {
+      claim: async ({ eventId }) => {
+        if (harness.intents.has(eventId)) return false;
+        harness.intents.set(eventId, null);
+        return true;
+      },
+      release: async (eventId) => {
+        if (harness.intents.get(eventId) !== null) return;
+        harness.intents.delete(eventId);
+        harness.signatures.delete(eventId);
+      },
+      findByEventId: async (eventId) =>
+        harness.intents.has(eventId)
+          ? {
+              eventId,
+              token: TOKEN,
+              mode: 'PAPER',
+              positionId: harness.intents.get(eventId) ?? null,
+              signature: harness.signatures.get(eventId) ?? null,
+              createdAt: new Date(),
+            }
+          : null,
+      recordSignature: async (eventId, signature) => {
+        harness.signatures.set(eventId, signature);
+      },
+    },
+    settings: {
+      findEnabled: async () => overrides.settings ?? [settings],
+      findByName: async (name) =>
+        (overrides.settings ?? [settings]).find((entry) => entry.name === name) ?? null,
+    },
+    backends: {
+      PAPER: {
+        quotes: {
+          getQuote: async (request): Promise<SwapQuote> => {
+            harness.quoteRequests.push(request);
+            return {
+              inputMint: request.inputMint,
+              outputMint: request.outputMint,
+              inAmount: request.amount,
+              // 10 USDC buys 400 tokens (5 decimals) => 0.025 USDC per token
+              outAmount: '40000000',
+              priceImpactPct: overrides.priceImpactPct ?? 0.5,
+              routePlan: [],
+            };
+          },
+        },
+        executor: {
+          execute: async (quote, onSigned) => {
+            harness.swaps++;
+            const execution = await simulator.execute(quote);
+            await onSigned?.(execution.signature);
+            if (overrides.swapError) throw overrides.swapError;
+            return execution;
+          },
+          findExecution:
+            overrides.onChain !== undefined ? async () => overrides.onChain ?? null : undefined,
+        },
+      },
+    },
+    getDecimals: async (mint) => (mint === USDC ? 6 : 5),
+    commit: async (write, events) => {
+      if (harness.failCommit) throw new Error('database unavailable');
+      const result = await write(writers);
+      harness.published.push(...events(result));
+      return result;
+    },
+  };
+
+  return harness;
+}
+
+describe('TradingEngine', () => {
+  let harness: Harness;
+  let engine: TradingEngine;
+
+  beforeEach(() => {
+    harness = createHarness();
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+  });
+
+  it('should open a position with stop-loss and take-profit', async () => {
+    const result = await engine.handleBurn(burn, 'event-1');
+
+    expect(result.status).toBe('OPENED');
+    if (result.status !== 'OPENED') return;
+
+    expect(result.amount).toBe(400);
+    expect(result.entryPrice).toBeCloseTo(0.025);
+    expect(result.stopLoss).toBeCloseTo(0.0225);
+    expect(result.takeProfit).toBeCloseTo(0.0375);
+    expect(result.signature).toMatch(/^sim-/);
+    expect(result.mode).toBe('PAPER');
+    expect(harness.openPositions[0]).toMatchObject({ token: TOKEN, mode: 'PAPER' });
+
+    expect(harness.quoteRequests).toEqual([
+      { inputMint: USDC, outputMint: TOKEN, amount: '10000000', slippageBps: 300 },
+    ]);
+    expect(harness.trades).toEqual([
+      {
+        positionId: 'position-1',
+        type: 'BUY',
+        amount: 400,
+        price: result.entryPrice,
+        signature: result.signature,
+        slippage: 0.005,
+        fee: 0,
+        mode: 'PAPER',
+      },
+    ]);
+  });
+
+  it('should attach the take-profit ladder and trailing stop from settings', async () => {
+    harness = createHarness({
+      settings: [
+        {
+          ...settings,
+          trailingStopPercent: 0.15,
+          takeProfitLadder: [
+            { gainPercent: 1, sellFraction: 0.4 },
+            { gainPercent: 0.25, sellFraction: 0.3 },
+            { gainPercent: 0.5, sellFraction: 0.3 },
+          ],
+        },
+      ],
+    });
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+
+    await engine.handleBurn(burn, 'event-1');
+
+    const [position] = harness.openPositions;
+    expect(position!.trailingStopPercent).toBe(0.15);
+    expect(position!.takeProfit).toBeCloseTo(0.05);
+    expect(position!.takeProfitLevels).toEqual([
+      { targetPrice: expect.closeTo(0.03125), sellFraction: 0.3, amount: 120 },
+      { targetPrice: expect.closeTo(0.0375), sellFraction: 0.3, amount: 120 },
+      { targetPrice: expect.closeTo(0.05), sellFraction: 0.4, amount: 160 },
+    ]);
+  });
+
+  it('should emit POSITION_OPENED and TRADE_EXECUTED', async () => {
+    await engine.handleBurn(burn, 'event-1');
+
+    expect(harness.published.map((event) => event.type)).toEqual([
+      'POSITION_OPENED',
+      'TRADE_EXECUTED',
+    ]);
+    expect(harness.published[1]).toMatchObject({
+      data: {
+        tradeId: 'trade-1',
+        type: 'BUY',
+        tokenIn: USDC,
+        tokenOut: TOKEN,
+        amountIn: '10000000',
+        amountOut: '40000000',
+        positionId: 'position-1',
+      },
+    });
+  });
+
+  it('should skip when no settings are enabled', async () => {
+    harness = createHarness({ settings: [] });
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+
+    expect(await engine.handleBurn(burn, 'event-1')).toEqual({
+      status: 'SKIPPED',
+      reason: 'NO_ENABLED_SETTINGS',
+    });
+  });
+
+  it('should skip a disabled named profile', async () => {
+    harness = createHarness({ settings: [{ ...settings, name: 'aggressive', enabled: false }] });
+    engine = new TradingEngine(harness.deps, {
+      quoteMint: USDC,
+      tradeAmount: '10000000',
+      settingsName: 'aggressive',
+    });
+
+    expect(await engine.handleBurn(burn, 'event-1')).toEqual({
+      status: 'SKIPPED',
+      reason: 'NO_ENABLED_SETTINGS',
+    });
+  });
+
+  it('should skip LIVE profiles without a live backend', async () => {
+    harness = createHarness({ settings: [{ ...settings, mode: 'LIVE' }] });
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+
+    expect(await engine.handleBurn(burn, 'event-1')).toEqual({
+      status: 'SKIPPED',
+      reason: 'MODE_UNAVAILABLE',
+    });
+    expect(harness.quoteRequests).toEqual([]);
+  });
+
+  it('should not count LIVE positions against a PAPER profile', async () => {
+    harness.openPositions.push({ token: TOKEN, mode: 'LIVE' }, { token: 'token-2', mode: 'LIVE' });
+
+    expect((await engine.handleBurn(burn, 'event-1')).status).toBe('OPENED');
+  });
+
+  it('should skip burns below minBurnAmount', async () => {
+    expect(await engine.handleBurn({ ...burn, amount: '999' }, 'event-1')).toEqual({
+      status: 'SKIPPED',
+      reason: 'BURN_TOO_SMALL',
+    });
+  });
+
+  it('should not open a second position for the same token', async () => {
+    await engine.handleBurn(burn, 'event-1');
+
+    expect(await engine.handleBurn(burn, 'event-2')).toEqual({
+      status: 'SKIPPED',
+      reason: 'POSITION_EXISTS',
+    });
+  });
+
+  it('should respect maxPositions', async () => {
+    await engine.handleBurn(burn, 'event-1');
+    await engine.handleBurn({ ...burn, token: 'token-2' }, 'event-2');
+
+    expect(await engine.handleBurn({ ...burn, token: 'token-3' }, 'event-3')).toEqual({
+      status: 'SKIPPED',
+      reason: 'MAX_POSITIONS',
+    });
+  });
+
+  it('should skip quotes with price impact above maxSlippage', async () => {
+    harness = createHarness({ priceImpactPct: 5 });
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+
+    expect(await engine.handleBurn(burn, 'event-1')).toEqual({
+      status: 'SKIPPED',
+      reason: 'SLIPPAGE_TOO_HIGH',
+    });
+    expect(harness.published).toEqual([]);
+  });
+
+  it('should link the claim of the burn event to the opened position', async () => {
+    const result = await engine.handleBurn(burn, 'event-1');
+
+    expect(result.status).toBe('OPENED');
+    expect(harness.intents.get('event-1')).toBe('position-1');
+  });
+
+  it('should not swap again for a redelivered burn event', async () => {
+    await engine.handleBurn(burn, 'event-1');
+    harness.openPositions.length = 0;
+
+    expect(await engine.handleBurn(burn, 'event-1')).toEqual({
+      status: 'SKIPPED',
+      reason: 'ALREADY_CLAIMED',
+    });
+    expect(harness.swaps).toBe(1);
+  });
+
+  it('should release the claim when the swap certainly failed', async () => {
+    harness = createHarness({ swapError: new SwapNotExecutedError('swap failed') });
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+
+    await expect(engine.handleBurn(burn, 'event-1')).rejects.toThrow('swap failed');
+    expect(harness.intents.has('event-1')).toBe(false);
+  });
+
+  it('should keep the claim and its signature when the swap outcome is unknown', async () => {
+    harness = createHarness({ swapError: new Error('confirmation timed out') });
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+
+    await expect(engine.handleBurn(burn, 'event-1')).rejects.toThrow('confirmation timed out');
+    expect(harness.intents.get('event-1')).toBeNull();
+    expect(harness.signatures.get('event-1')).toMatch(/^sim-/);
+    expect(await engine.handleBurn(burn, 'event-1')).toEqual({
+      status: 'SKIPPED',
+      reason: 'ALREADY_CLAIMED',
+    });
+    expect(harness.swaps).toBe(1);
+  });
+
+  it('should record a sent swap from its transaction on redelivery', async () => {
+    const onChain = {
+      signature: 'sent-signature',
+      inAmount: '10000000',
+      outAmount: '38000000',
+      simulated: false,
+    };
+    harness = createHarness({ failCommit: true, onChain });
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+    await expect(engine.handleBurn(burn, 'event-1')).rejects.toThrow('database unavailable');
+
+    harness.failCommit = false;
+    const result = await engine.handleBurn(burn, 'event-1');
+
+    expect(result).toMatchObject({ status: 'OPENED', signature: 'sent-signature', amount: 380 });
+    expect(harness.trades).toEqual([
+      expect.objectContaining({ signature: 'sent-signature', amount: 380, slippage: 0, fee: 0 }),
+    ]);
+    expect(harness.intents.get('event-1')).toBe('position-1');
+    expect(harness.swaps).toBe(1);
+  });
+
+  it('should buy again on redelivery when the sent swap failed on-chain', async () => {
+    harness = createHarness({ swapError: new Error('confirmation timed out'), onChain: null });
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+    await expect(engine.handleBurn(burn, 'event-1')).rejects.toThrow('confirmation timed out');
+
+    await expect(engine.handleBurn(burn, 'event-1')).rejects.toThrow('confirmation timed out');
+    expect(harness.swaps).toBe(2);
+  });
+
+  it('should keep the claim when recording a completed swap fails', async () => {
+    harness = createHarness({ failCommit: true });
+    engine = new TradingEngine(harness.deps, { quoteMint: USDC, tradeAmount: '10000000' });
+
+    await expect(engine.handleBurn(burn, 'event-1')).rejects.toThrow('database unavailable');
+    expect(await engine.handleBurn(burn, 'event-1')).toEqual({
+      status: 'SKIPPED',
+      reason: 'ALREADY_CLAIMED',
+    });
+    expect(harness.swaps).toBe(1);
+    expect(harness.intents.get('event-1')).toBeNull();
+  });
+});
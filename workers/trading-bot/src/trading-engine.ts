@@ -0,0 +1,327 @@
+/**
+ * Trading Engine
+ * Turns BURN_DETECTED events into positions according to the enabled TradeSettings
+ * The profile's mode picks the LIVE or PAPER execution backend
+ */
+
+import {
+  buildTakeProfitLevels,
+  computeExitLevels,
+  parseTakeProfitLadder,
+} from '@solana-eda/backtest';
+import type {
+  PositionRepository,
+  TradeIntent,
+  TradeIntentRepository,
+  TradeRepository,
+  TradeSettings,
+  TradeSettingsRepository,
+  TradingMode,
+} from '@solana-eda/database';
+import { createPositionOpenedEvent, createTradeEvent } from '@solana-eda/events';
+import type { AnyEvent, BurnDetectedEvent, SwapQuote } from '@solana-eda/types';
+import { SwapNotExecutedError, type ExecutionBackends, type ExecutionResult } from './execution.js';
+
+export type BurnEventData = BurnDetectedEvent['data'];
+
+export type SkipReason =
+  | 'NO_ENABLED_SETTINGS'
+  | 'MODE_UNAVAILABLE'
+  | 'QUOTE_TOKEN'
+  | 'BURN_TOO_SMALL'
+  | 'POSITION_EXISTS'
+  | 'MAX_POSITIONS'
+  | 'SLIPPAGE_TOO_HIGH'
+  | 'ALREADY_CLAIMED';
+
+export type TradeResult =
+  | { status: 'SKIPPED'; reason: SkipReason }
+  | {
+      status: 'OPENED';
+      mode: TradingMode;
+      positionId: string;
+      tradeId: string;
+      signature: string;
+      entryPrice: number;
+      amount: number;
+      stopLoss: number;
+      takeProfit: number;
+    };
+
+/**
+ * Repositories bound to the transaction of a `commit`
+ */
+export interface TradeWriters {
+  positions: Pick<PositionRepository, 'create' | 'recordPartialExit' | 'closePosition'>;
+  trades: Pick<TradeRepository, 'create'>;
+  intents: Pick<TradeIntentRepository, 'complete'>;
+}
+
+/**
+ * Apply the writes and add the events built from their result to the outbox in one
+ * transaction, so a position or trade is never stored without its events
+ */
+export type CommitTrade = <T>(
+  write: (tx: TradeWriters) => Promise<T>,
+  events: (result: T) => AnyEvent[],
+) => Promise<T>;
+
+export interface TradingEngineDeps {
+  positions: Pick<PositionRepository, 'countOpenPositions' | 'hasOpenPositionForToken'>;
+  intents: Pick<TradeIntentRepository, 'claim' | 'release' | 'findByEventId' | 'recordSignature'>;
+  settings: Pick<TradeSettingsRepository, 'findEnabled' | 'findByName'>;
+  backends: ExecutionBackends;
+  getDecimals: (mint: string) => Promise<number>;
+  commit: CommitTrade;
+}
+
+export interface TradingEngineOptions {
+  quoteMint: string;
+  /** Raw amount of the quote mint spent per position */
+  tradeAmount: string;
+  /** TradeSettings profile name, defaults to the first enabled profile */
+  settingsName?: string;
+}
+
+/**
+ * Convert a raw token amount to a UI amount
+ */
+export function toUiAmount(raw: string, decimals: number): number {
+  return Number(raw) / Math.pow(10, decimals);
+}
+
+/**
+ * Route fees charged in the quote mint, as a UI amount
+ *
+ * Fees taken in other mints are already reflected in the swapped amounts.
+ */
+export function getQuoteFee(quote: SwapQuote, quoteMint: string, quoteDecimals: number): number {
+  const raw = quote.routePlan
+    .filter((step) => step.swapInfo.feeMint === quoteMint)
+    .reduce((sum, step) => sum + Number(step.swapInfo.feeAmount), 0);
+  return raw / Math.pow(10, quoteDecimals);
+}
+
+export class TradingEngine {
+  constructor(
+    private deps: TradingEngineDeps,
+    private options: TradingEngineOptions,
+  ) {}
+
+  /**
+   * Resolve the active settings profile
+   */
+  private async getSettings(): Promise<TradeSettings | null> {
+    if (this.options.settingsName) {
+      const settings = await this.deps.settings.findByName(this.options.settingsName);
+      return settings?.enabled ? settings : null;
+    }
+
+    const [settings] = await this.deps.settings.findEnabled();
+    return settings ?? null;
+  }
+
+  /**
+   * Evaluate a burn and open a position when every check passes
+   *
+   * The buy is claimed per event before swapping and the claim keeps the swap signature.
+   * Unless the swap certainly did not go through the claim is kept, and a redelivered event
+   * records the position from the sent transaction instead of buying again.
+   */
+  async handleBurn(burn: BurnEventData, eventId: string): Promise<TradeResult> {
+    const settings = await this.getSettings();
+    if (!settings) {
+      return { status: 'SKIPPED', reason: 'NO_ENABLED_SETTINGS' };
+    }
+
+    const intent = await this.deps.intents.findByEventId(eventId);
+    if (intent) {
+      const reconciled = await this.reconcile(intent, burn, eventId, settings);
+      if (reconciled) {
+        return reconciled;
+      }
+    }
+
+    const { mode } = settings;
+    const backend = this.deps.backends[mode];
+    if (!backend) {
+      return { status: 'SKIPPED', reason: 'MODE_UNAVAILABLE' };
+    }
+
+    if (burn.token === this.options.quoteMint) {
+      return { status: 'SKIPPED', reason: 'QUOTE_TOKEN' };
+    }
+
+    if (Number(burn.amount) < Number(settings.minBurnAmount)) {
+      return { status: 'SKIPPED', reason: 'BURN_TOO_SMALL' };
+    }
+
+    // LIVE and PAPER positions are limited independently
+    if (await this.deps.positions.hasOpenPositionForToken(burn.token, mode)) {
+      return { status: 'SKIPPED', reason: 'POSITION_EXISTS' };
+    }
+
+    if ((await this.deps.positions.countOpenPositions(mode)) >= Number(settings.maxPositions)) {
+      return { status: 'SKIPPED', reason: 'MAX_POSITIONS' };
+    }
+
+    const maxSlippage = Number(settings.maxSlippage);
+    const quote = await backend.quotes.getQuote({
+      inputMint: this.options.quoteMint,
+      outputMint: burn.token,
+      amount: this.options.tradeAmount,
+      slippageBps: Math.round(maxSlippage * 10_000),
+    });
+
+    // priceImpactPct is a percentage, maxSlippage a fraction
+    const slippage = quote.priceImpactPct / 100;
+    if (slippage > maxSlippage) {
+      return { status: 'SKIPPED', reason: 'SLIPPAGE_TOO_HIGH' };
+    }
+
+    if (!(await this.deps.intents.claim({ eventId, token: burn.token, mode }))) {
+      return { status: 'SKIPPED', reason: 'ALREADY_CLAIMED' };
+    }
+
+    let execution: ExecutionResult;
+    try {
+      execution = await backend.executor.execute(quote, (signature) =>
+        this.deps.intents.recordSignature(eventId, signature),
+      );
+    } catch (error) {
+      if (error instanceof SwapNotExecutedError) {
+        await this.deps.intents.release(eventId);
+      }
+      throw error;
+    }
+
+    return this.openPosition(burn, eventId, settings, mode, execution, quote);
+  }
+
+  /**
+   * Settle the earlier claim of a redelivered event
+   *
+   * A swap that executed is recorded from its transaction, the measured amounts already
+   * include fees and slippage. Returns null when the swap failed on-chain and the claim was
+   * released, so the buy can be retried.
+   */
+  private async reconcile(
+    intent: TradeIntent,
+    burn: BurnEventData,
+    eventId: string,
+    settings: TradeSettings,
+  ): Promise<TradeResult | null> {
+    const mode = intent.mode as TradingMode;
+    const executor = this.deps.backends[mode]?.executor;
+    if (intent.positionId || !intent.signature || !executor?.findExecution) {
+      return { status: 'SKIPPED', reason: 'ALREADY_CLAIMED' };
+    }
+
+    const execution = await executor.findExecution(
+      intent.signature,
+      this.options.quoteMint,
+      burn.token,
+    );
+    if (!execution) {
+      await this.deps.intents.release(eventId);
+      return null;
+    }
+
+    return this.openPosition(burn, eventId, settings, mode, execution, null);
+  }
+
+  /**
+   * Record the position and BUY trade of an executed swap and complete the claim
+   * Slippage and fees come from the quote, when there is one.
+   */
+  private async openPosition(
+    burn: BurnEventData,
+    eventId: string,
+    settings: TradeSettings,
+    mode: TradingMode,
+    execution: ExecutionResult,
+    quote: SwapQuote | null,
+  ): Promise<TradeResult> {
+    const [inDecimals, outDecimals] = await Promise.all([
+      this.deps.getDecimals(this.options.quoteMint),
+      this.deps.getDecimals(burn.token),
+    ]);
+    const amountIn = toUiAmount(execution.inAmount, inDecimals);
+    const amount = toUiAmount(execution.outAmount, outDecimals);
+    // entryPrice is the all-in cost, the BUY trade splits it into price and fee
+    const entryPrice = amountIn / amount;
+    const slippage = quote ? quote.priceImpactPct / 100 : 0;
+    const fee = quote ? getQuoteFee(quote, this.options.quoteMint, inDecimals) : 0;
+    const { stopLoss, takeProfit: fixedTakeProfit } = computeExitLevels(entryPrice, settings);
+    const takeProfitLevels = buildTakeProfitLevels(
+      entryPrice,
+      amount,
+      parseTakeProfitLadder(settings.takeProfitLadder),
+    );
+    // With a ladder the position is fully closed at the last step
+    const takeProfit = takeProfitLevels.at(-1)?.targetPrice ?? fixedTakeProfit;
+
+    const { position, trade } = await this.deps.commit(
+      async (tx) => {
+        const position = await tx.positions.create({
+          token: burn.token,
+          amount,
+          entryPrice,
+          currentPrice: entryPrice,
+          stopLoss,
+          takeProfit,
+          trailingStopPercent:
+            settings.trailingStopPercent != null ? Number(settings.trailingStopPercent) : undefined,
+          takeProfitLevels,
+          mode,
+        });
+        const trade = await tx.trades.create({
+          positionId: position.id,
+          type: 'BUY',
+          amount,
+          price: (amountIn - fee) / amount,
+          signature: execution.signature,
+          slippage,
+          fee,
+          mode,
+        });
+        await tx.intents.complete(eventId, position.id);
+        return { position, trade };
+      },
+      ({ position, trade }) => [
+        createPositionOpenedEvent({
+          positionId: position.id,
+          token: burn.token,
+          amount: amount.toString(),
+          entryPrice: entryPrice.toString(),
+          stopLoss: stopLoss.toString(),
+          takeProfit: takeProfit.toString(),
+        }),
+        createTradeEvent({
+          tradeId: trade.id,
+          type: 'BUY',
+          tokenIn: this.options.quoteMint,
+          tokenOut: burn.token,
+          amountIn: execution.inAmount,
+          amountOut: execution.outAmount,
+          price: entryPrice.toString(),
+          slippage,
+          txSignature: execution.signature,
+          positionId: position.id,
+        }),
+      ],
+    );
+
+    return {
+      status: 'OPENED',
+      mode,
+      positionId: position.id,
+      tradeId: trade.id,
+      signature: execution.signature,
+      entryPrice,
+      amount,
+      stopLoss,
+      takeProfit,
+    };
+  }
+}